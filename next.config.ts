@@ -54,6 +54,14 @@ const nextConfig: NextConfig = {
     // your project has ESLint errors.
     ignoreDuringBuilds: true,
   },
+  // ffmpeg-static downloads its binary on install; keep it out of the bundle
+  // and ship the binary with the routes that run ffmpeg
+  serverExternalPackages: ['ffmpeg-static'],
+  outputFileTracingIncludes: {
+    '/api/cron/process-audio': ['./node_modules/ffmpeg-static/ffmpeg'],
+    '/api/audio/render/[kind]/[usageId]': ['./node_modules/ffmpeg-static/ffmpeg'],
+    '/api/radio/bulletins/[id]/export': ['./node_modules/ffmpeg-static/ffmpeg'],
+  },
   experimental: {
     serverActions: {
       bodySizeLimit: '10mb',
@@ -0,0 +1,51 @@
+/**
+ * Backfill script: translation memory from published translations
+ *
+ * Re-segments every published original/translation pair into paragraph pairs.
+ * New pairs are recorded automatically when translations are published, so
+ * this only needs to run once, or after changing how content is segmented.
+ *
+ * Run with: npm run build:translation-memory
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { recordTranslationMemory } from '../src/lib/translation-memory';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  console.log('Building translation memory...\n');
+
+  let scanned = 0;
+  let recorded = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const translations = await prisma.story.findMany({
+      where: { isTranslation: true, stage: 'PUBLISHED' },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      select: { id: true },
+    });
+
+    if (translations.length === 0) break;
+    cursor = translations[translations.length - 1].id;
+    scanned += translations.length;
+
+    recorded += await recordTranslationMemory(translations.map(t => t.id), prisma);
+  }
+
+  console.log(`Scanned ${scanned} published translations, recorded ${recorded} paragraph pairs.`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Translation memory build failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,87 @@
+/**
+ * Migration script: legacy Story.status -> Story.stage
+ *
+ * Maps every story's legacy status onto its stage and rewrites the status to
+ * match, so nothing reads differently once the status column is dropped.
+ * Runs as a dry run unless --apply is passed.
+ *
+ * Run with: npm run migrate:story-stages [-- --apply]
+ */
+
+import { PrismaClient, StoryStage, StoryStatus } from '@prisma/client';
+import { legacyStatusForStage, resolveLegacyStage } from '../src/lib/story-stage';
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 500;
+const apply = process.argv.includes('--apply');
+
+async function main() {
+  console.log(`Starting story stage migration${apply ? '' : ' (dry run)'}...\n`);
+
+  const changes = new Map<string, number>();
+  let scanned = 0;
+  let updated = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const stories = await prisma.story.findMany({
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      orderBy: { id: 'asc' },
+      select: {
+        id: true,
+        status: true,
+        stage: true,
+        _count: { select: { revisionRequests: true } },
+      },
+    });
+
+    if (stories.length === 0) break;
+    cursor = stories[stories.length - 1].id;
+    scanned += stories.length;
+
+    for (const story of stories) {
+      const stage: StoryStage = resolveLegacyStage({
+        status: story.status,
+        stage: story.stage,
+        hasRevisionRequests: story._count.revisionRequests > 0,
+      });
+      // Archived stories keep their status; there is no stage to derive it from
+      const status: StoryStatus = story.status === 'ARCHIVED' ? story.status : legacyStatusForStage(stage);
+
+      if (stage === story.stage && status === story.status) continue;
+
+      const key = `${story.status}/${story.stage ?? 'NULL'} -> ${status}/${stage}`;
+      changes.set(key, (changes.get(key) ?? 0) + 1);
+      updated++;
+
+      if (apply) {
+        // Leave updatedAt alone so stage ages in the editorial metrics stay accurate
+        await prisma.$executeRaw`
+          UPDATE "Story"
+          SET "stage" = ${stage}::"StoryStage", "status" = ${status}::"StoryStatus"
+          WHERE "id" = ${story.id}
+        `;
+      }
+    }
+  }
+
+  console.log(`Scanned ${scanned} stories, ${updated} ${apply ? 'updated' : 'to update'}.`);
+  for (const [key, count] of [...changes.entries()].sort()) {
+    console.log(`  ${key}: ${count}`);
+  }
+
+  if (!apply && updated > 0) {
+    console.log('\nRe-run with --apply to write these changes.');
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('Migration failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,38 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "AudioRightsSource" AS ENUM ('STAFF', 'CONTRIBUTOR', 'AGENCY', 'LICENSED', 'PUBLIC_DOMAIN');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE "AudioCollection" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AudioCollection_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "AudioClip" ADD COLUMN "collectionId" TEXT,
+ADD COLUMN "rightsSource" "AudioRightsSource",
+ADD COLUMN "copyrightHolder" TEXT,
+ADD COLUMN "licenceExpiry" DATE,
+ADD COLUMN "doNotReuseAfter" DATE,
+ADD COLUMN "rightsNotes" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudioCollection_name_key" ON "AudioCollection"("name");
+
+-- CreateIndex
+CREATE INDEX "AudioClip_collectionId_idx" ON "AudioClip"("collectionId");
+
+-- AddForeignKey
+ALTER TABLE "AudioClip" ADD CONSTRAINT "AudioClip_collectionId_fkey" FOREIGN KEY ("collectionId") REFERENCES "AudioCollection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AudioCollection" ADD CONSTRAINT "AudioCollection_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "AudioProcessingStatus" AS ENUM ('PENDING', 'PROCESSING', 'READY', 'FAILED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- AlterTable: existing clips are queued so the whole library gets normalised
+ALTER TABLE "AudioClip" ADD COLUMN     "processingStatus" "AudioProcessingStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "processingError" TEXT,
+ADD COLUMN     "processingAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "processedAt" TIMESTAMP(3),
+ADD COLUMN     "originalUrl" TEXT,
+ADD COLUMN     "originalMimeType" TEXT,
+ADD COLUMN     "originalFileSize" INTEGER,
+ADD COLUMN     "loudness" DOUBLE PRECISION,
+ADD COLUMN     "truePeak" DOUBLE PRECISION,
+ADD COLUMN     "sampleRate" INTEGER,
+ADD COLUMN     "channels" INTEGER,
+ADD COLUMN     "normalisedLoudness" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "AudioClip_processingStatus_idx" ON "AudioClip"("processingStatus");
@@ -0,0 +1,43 @@
+-- CreateEnum
+DO $$ BEGIN
+    CREATE TYPE "AudioUploadStatus" AS ENUM ('UPLOADING', 'COMPLETED', 'ABORTED');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- CreateTable
+CREATE TABLE "AudioUpload" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "originalName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "partSize" INTEGER NOT NULL,
+    "status" "AudioUploadStatus" NOT NULL DEFAULT 'UPLOADING',
+    "completedAt" TIMESTAMP(3),
+    "audioClipId" TEXT,
+    "uploadedBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AudioUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudioUpload_key_key" ON "AudioUpload"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AudioUpload_audioClipId_key" ON "AudioUpload"("audioClipId");
+
+-- CreateIndex
+CREATE INDEX "AudioUpload_uploadedBy_idx" ON "AudioUpload"("uploadedBy");
+
+-- CreateIndex
+CREATE INDEX "AudioUpload_status_createdAt_idx" ON "AudioUpload"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AudioUpload" ADD CONSTRAINT "AudioUpload_audioClipId_fkey" FOREIGN KEY ("audioClipId") REFERENCES "AudioClip"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AudioUpload" ADD CONSTRAINT "AudioUpload_uploadedBy_fkey" FOREIGN KEY ("uploadedBy") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterEnum: uploads claimed by a finalise request
+ALTER TYPE "AudioUploadStatus" ADD VALUE IF NOT EXISTS 'FINALISING' AFTER 'UPLOADING';
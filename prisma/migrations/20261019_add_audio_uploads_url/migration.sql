@@ -0,0 +1,5 @@
+-- AlterEnum: uploads R2 has assembled but no clip was made for yet
+ALTER TYPE "AudioUploadStatus" ADD VALUE IF NOT EXISTS 'ASSEMBLED' AFTER 'FINALISING';
+
+-- AlterTable
+ALTER TABLE "AudioUpload" ADD COLUMN "url" TEXT;
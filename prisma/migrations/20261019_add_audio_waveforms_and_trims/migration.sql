@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "AudioClip" ADD COLUMN     "waveform" JSONB;
+
+-- AlterTable
+ALTER TABLE "StoryAudioClip" ADD COLUMN     "trimStart" DOUBLE PRECISION,
+ADD COLUMN     "trimEnd" DOUBLE PRECISION,
+ADD COLUMN     "fadeIn" DOUBLE PRECISION,
+ADD COLUMN     "fadeOut" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "EpisodeAudioClip" ADD COLUMN     "trimStart" DOUBLE PRECISION,
+ADD COLUMN     "trimEnd" DOUBLE PRECISION,
+ADD COLUMN     "fadeIn" DOUBLE PRECISION,
+ADD COLUMN     "fadeOut" DOUBLE PRECISION;
+
+-- Clips processed before waveforms existed are processed again to get one
+UPDATE "AudioClip" SET "processingStatus" = 'PENDING', "processingAttempts" = 0
+WHERE "processingStatus" = 'READY' AND "waveform" IS NULL;
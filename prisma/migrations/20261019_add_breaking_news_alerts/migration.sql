@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "BreakingNewsAlert" (
+    "id" TEXT NOT NULL,
+    "headline" TEXT NOT NULL,
+    "message" TEXT,
+    "storyId" TEXT,
+    "bulletinId" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BreakingNewsAlert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BreakingNewsAlertStation" (
+    "id" TEXT NOT NULL,
+    "alertId" TEXT NOT NULL,
+    "stationId" TEXT NOT NULL,
+    "acknowledgedAt" TIMESTAMP(3),
+    "acknowledgedById" TEXT,
+
+    CONSTRAINT "BreakingNewsAlertStation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BreakingNewsAlert_createdAt_idx" ON "BreakingNewsAlert"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "BreakingNewsAlert_storyId_idx" ON "BreakingNewsAlert"("storyId");
+
+-- CreateIndex
+CREATE INDEX "BreakingNewsAlert_bulletinId_idx" ON "BreakingNewsAlert"("bulletinId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BreakingNewsAlertStation_alertId_stationId_key" ON "BreakingNewsAlertStation"("alertId", "stationId");
+
+-- CreateIndex
+CREATE INDEX "BreakingNewsAlertStation_stationId_acknowledgedAt_idx" ON "BreakingNewsAlertStation"("stationId", "acknowledgedAt");
+
+-- AddForeignKey
+ALTER TABLE "BreakingNewsAlert" ADD CONSTRAINT "BreakingNewsAlert_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "Story"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakingNewsAlert" ADD CONSTRAINT "BreakingNewsAlert_bulletinId_fkey" FOREIGN KEY ("bulletinId") REFERENCES "Bulletin"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakingNewsAlert" ADD CONSTRAINT "BreakingNewsAlert_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakingNewsAlertStation" ADD CONSTRAINT "BreakingNewsAlertStation_alertId_fkey" FOREIGN KEY ("alertId") REFERENCES "BreakingNewsAlert"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakingNewsAlertStation" ADD CONSTRAINT "BreakingNewsAlertStation_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "Station"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BreakingNewsAlertStation" ADD CONSTRAINT "BreakingNewsAlertStation_acknowledgedById_fkey" FOREIGN KEY ("acknowledgedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
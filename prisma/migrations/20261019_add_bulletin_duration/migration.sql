@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "BulletinSchedule" ADD COLUMN     "targetDuration" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ReadingSpeed" (
+    "language" "StoryLanguage" NOT NULL,
+    "wordsPerMinute" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReadingSpeed_pkey" PRIMARY KEY ("language")
+);
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "BulletinFlag" (
+    "id" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "language" "StoryLanguage" NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE NOT NULL,
+    "scheduleId" TEXT,
+    "flaggedById" TEXT NOT NULL,
+    "flaggedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "removedAt" TIMESTAMP(3),
+    "removedById" TEXT,
+
+    CONSTRAINT "BulletinFlag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BulletinFlag_startDate_endDate_idx" ON "BulletinFlag"("startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "BulletinFlag_storyId_idx" ON "BulletinFlag"("storyId");
+
+-- AddForeignKey
+ALTER TABLE "BulletinFlag" ADD CONSTRAINT "BulletinFlag_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "Story"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BulletinFlag" ADD CONSTRAINT "BulletinFlag_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "BulletinSchedule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BulletinFlag" ADD CONSTRAINT "BulletinFlag_flaggedById_fkey" FOREIGN KEY ("flaggedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BulletinFlag" ADD CONSTRAINT "BulletinFlag_removedById_fkey" FOREIGN KEY ("removedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Carry over stories flagged today so the picks survive the switch
+INSERT INTO "BulletinFlag" ("id", "storyId", "language", "startDate", "endDate", "flaggedById", "flaggedAt")
+SELECT
+    'flag_' || "id",
+    "id",
+    "language",
+    ("flaggedForBulletinAt" AT TIME ZONE 'UTC' AT TIME ZONE 'Africa/Johannesburg')::date,
+    ("flaggedForBulletinAt" AT TIME ZONE 'UTC' AT TIME ZONE 'Africa/Johannesburg')::date,
+    "flaggedForBulletinById",
+    "flaggedForBulletinAt"
+FROM "Story"
+WHERE "flaggedForBulletin" = true
+  AND "flaggedForBulletinAt" IS NOT NULL
+  AND "flaggedForBulletinById" IS NOT NULL;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Bulletin" ADD COLUMN "correctedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "BulletinRevision" (
+    "id" TEXT NOT NULL,
+    "bulletinId" TEXT NOT NULL,
+    "revisionNumber" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "intro" TEXT NOT NULL,
+    "outro" TEXT NOT NULL,
+    "stories" JSONB NOT NULL,
+    "correctionNote" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BulletinRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BulletinRevision_bulletinId_revisionNumber_key" ON "BulletinRevision"("bulletinId", "revisionNumber");
+
+-- CreateIndex
+CREATE INDEX "BulletinRevision_bulletinId_idx" ON "BulletinRevision"("bulletinId");
+
+-- AddForeignKey
+ALTER TABLE "BulletinRevision" ADD CONSTRAINT "BulletinRevision_bulletinId_fkey" FOREIGN KEY ("bulletinId") REFERENCES "Bulletin"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BulletinRevision" ADD CONSTRAINT "BulletinRevision_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "minWords" INTEGER,
+ADD COLUMN     "maxWords" INTEGER;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "PronunciationEntry" (
+    "id" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "guide" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PronunciationEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PronunciationEntry_term_key" ON "PronunciationEntry"("term");
+
+-- AddForeignKey
+ALTER TABLE "PronunciationEntry" ADD CONSTRAINT "PronunciationEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "StationFeedToken" (
+    "id" TEXT NOT NULL,
+    "stationId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StationFeedToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StationFeedToken_token_key" ON "StationFeedToken"("token");
+
+-- CreateIndex
+CREATE INDEX "StationFeedToken_stationId_idx" ON "StationFeedToken"("stationId");
+
+-- AddForeignKey
+ALTER TABLE "StationFeedToken" ADD CONSTRAINT "StationFeedToken_stationId_fkey" FOREIGN KEY ("stationId") REFERENCES "Station"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StationFeedToken" ADD CONSTRAINT "StationFeedToken_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Story" ADD COLUMN "embargoUntil" TIMESTAMP(3),
+ADD COLUMN "exclusiveUntil" TIMESTAMP(3),
+ADD COLUMN "exclusiveStationIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "exclusiveProvinces" "Province"[] DEFAULT ARRAY[]::"Province"[];
+
+-- AlterTable
+ALTER TABLE "Bulletin" ADD COLUMN "embargoUntil" TIMESTAMP(3),
+ADD COLUMN "exclusiveUntil" TIMESTAMP(3),
+ADD COLUMN "exclusiveStationIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "exclusiveProvinces" "Province"[] DEFAULT ARRAY[]::"Province"[];
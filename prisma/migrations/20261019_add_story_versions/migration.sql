@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "StoryVersionChangeType" AS ENUM ('INITIAL', 'EDIT', 'STAGE_CHANGE', 'RESTORE');
+
+-- CreateTable
+CREATE TABLE "StoryVersion" (
+    "id" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "versionNumber" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "stage" "StoryStage",
+    "changeType" "StoryVersionChangeType" NOT NULL,
+    "changedById" TEXT NOT NULL,
+    "restoredFromVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoryVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoryVersion_storyId_versionNumber_key" ON "StoryVersion"("storyId", "versionNumber");
+
+-- CreateIndex
+CREATE INDEX "StoryVersion_storyId_idx" ON "StoryVersion"("storyId");
+
+-- CreateIndex
+CREATE INDEX "StoryVersion_changedById_idx" ON "StoryVersion"("changedById");
+
+-- AddForeignKey
+ALTER TABLE "StoryVersion" ADD CONSTRAINT "StoryVersion_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "Story"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoryVersion" ADD CONSTRAINT "StoryVersion_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "TranslationDraft" (
+    "id" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranslationDraft_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranslationDraft_storyId_key" ON "TranslationDraft"("storyId");
+
+-- AddForeignKey
+ALTER TABLE "TranslationDraft" ADD CONSTRAINT "TranslationDraft_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "Story"("id") ON DELETE CASCADE ON UPDATE CASCADE;
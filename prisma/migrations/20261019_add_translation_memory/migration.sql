@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "TranslationMemoryEntry" (
+    "id" TEXT NOT NULL,
+    "language" "TranslationLanguage" NOT NULL,
+    "sourceHash" TEXT NOT NULL,
+    "sourceText" TEXT NOT NULL,
+    "targetText" TEXT NOT NULL,
+    "translationStoryId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TranslationMemoryEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GlossaryTerm" (
+    "id" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "language" "TranslationLanguage" NOT NULL,
+    "translation" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GlossaryTerm_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranslationMemoryEntry_translationStoryId_position_key" ON "TranslationMemoryEntry"("translationStoryId", "position");
+
+-- CreateIndex
+CREATE INDEX "TranslationMemoryEntry_language_sourceHash_idx" ON "TranslationMemoryEntry"("language", "sourceHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GlossaryTerm_term_language_key" ON "GlossaryTerm"("term", "language");
+
+-- CreateIndex
+CREATE INDEX "GlossaryTerm_language_idx" ON "GlossaryTerm"("language");
+
+-- AddForeignKey
+ALTER TABLE "TranslationMemoryEntry" ADD CONSTRAINT "TranslationMemoryEntry_translationStoryId_fkey" FOREIGN KEY ("translationStoryId") REFERENCES "Story"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GlossaryTerm" ADD CONSTRAINT "GlossaryTerm_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Story" ADD COLUMN     "sourceChangedAt" TIMESTAMP(3),
+ADD COLUMN     "sourceVersionNumber" INTEGER;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "workflowId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Workflow" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "requiresTranslation" BOOLEAN NOT NULL DEFAULT false,
+    "stages" "StoryStage"[],
+    "overrideRoles" "StaffRole"[] DEFAULT ARRAY[]::"StaffRole"[],
+    "transitions" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workflow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workflow_name_key" ON "Workflow"("name");
+
+-- CreateIndex
+CREATE INDEX "Workflow_isDefault_idx" ON "Workflow"("isDefault");
+
+-- CreateIndex
+CREATE INDEX "Category_workflowId_idx" ON "Category"("workflowId");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Workflow" ADD COLUMN     "unpublishRoles" "StaffRole"[] DEFAULT ARRAY[]::"StaffRole"[];
+
+-- Editors could always unpublish; keep that for workflows already configured
+UPDATE "Workflow" SET "unpublishRoles" = ARRAY['EDITOR']::"StaffRole"[];
@@ -0,0 +1,7 @@
+-- AlterTable: new stations receive Zulu content by default
+ALTER TABLE "Station" ALTER COLUMN "allowedLanguages" SET DEFAULT ARRAY['English', 'Afrikaans', 'Xhosa', 'Zulu']::TEXT[];
+
+-- Language classification Zulu translations are tagged with
+INSERT INTO "Classification" ("id", "name", "slug", "type", "isActive", "createdAt", "updatedAt")
+VALUES (gen_random_uuid()::text, 'Zulu', 'zulu', 'LANGUAGE', true, NOW(), NOW())
+ON CONFLICT DO NOTHING;
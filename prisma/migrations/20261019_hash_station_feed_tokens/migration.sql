@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "StationFeedToken" ADD COLUMN "tokenHash" TEXT,
+ADD COLUMN "tokenHint" TEXT;
+
+-- Hash the tokens already issued so existing feed addresses keep working
+UPDATE "StationFeedToken"
+SET "tokenHash" = encode(sha256(convert_to("token", 'UTF8')), 'hex'),
+    "tokenHint" = right("token", 4);
+
+ALTER TABLE "StationFeedToken" ALTER COLUMN "tokenHash" SET NOT NULL,
+ALTER COLUMN "tokenHint" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "StationFeedToken_token_key";
+
+-- AlterTable
+ALTER TABLE "StationFeedToken" DROP COLUMN "token";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StationFeedToken_tokenHash_key" ON "StationFeedToken"("tokenHash");
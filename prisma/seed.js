@@ -246,6 +246,7 @@ async function main() {
     { name: 'English', slug: 'english' },
     { name: 'Afrikaans', slug: 'afrikaans' },
     { name: 'Xhosa', slug: 'xhosa' },
+    { name: 'Zulu', slug: 'zulu' },
   ];
 
   for (const classification of languageClassifications) {
@@ -51,6 +51,7 @@ async function main() {
         { name: 'English', slug: 'english' },
         { name: 'Afrikaans', slug: 'afrikaans' },
         { name: 'Xhosa', slug: 'xhosa' },
+        { name: 'Zulu', slug: 'zulu' },
     ];
     for (const tag of languageTags) {
         try {
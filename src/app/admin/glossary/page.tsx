@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { PencilIcon, TrashIcon, BookOpenIcon } from '@heroicons/react/24/outline';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/ui/page-header';
+import { Text } from '@/components/ui/text';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { EmptyState } from '@/components/ui/empty-state';
+import { CardSkeleton } from '@/components/ui/skeleton';
+import { GlossaryTermModal } from '@/components/admin/GlossaryTermModal';
+import { useGlossaryTerms, useDeleteGlossaryTerm } from '@/hooks/use-glossary';
+import type { GlossaryTerm } from '@/hooks/use-glossary';
+import { LANGUAGE_DISPLAY_NAMES, TRANSLATION_LANGUAGES, type TranslationLanguageCode } from '@/lib/language-utils';
+
+export default function AdminGlossaryPage() {
+  const [language, setLanguage] = useState<TranslationLanguageCode>('AFRIKAANS');
+  const [editing, setEditing] = useState<GlossaryTerm | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<GlossaryTerm | null>(null);
+
+  const { data, isLoading, error } = useGlossaryTerms(language);
+  const deleteMutation = useDeleteGlossaryTerm();
+
+  const terms = data?.terms || [];
+
+  const openEditor = (term: GlossaryTerm | null) => {
+    setEditing(term);
+    setShowEditor(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      toast.success('Glossary term deleted');
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete glossary term');
+    }
+  };
+
+  return (
+    <Container>
+      <PageHeader
+        title="Glossary"
+        description="Approved translations of names, titles and stock phrases, highlighted for translators"
+        action={{ label: 'New Term', onClick: () => openEditor(null) }}
+      />
+
+      <div className="mt-8 flex gap-2">
+        {TRANSLATION_LANGUAGES.map((code) => (
+          <Button
+            key={code}
+            color={language === code ? 'primary' : 'white'}
+            onClick={() => setLanguage(code)}
+          >
+            {LANGUAGE_DISPLAY_NAMES[code]}
+          </Button>
+        ))}
+      </div>
+
+      <div className="mt-6">
+        {isLoading ? (
+          <CardSkeleton />
+        ) : error ? (
+          <Card className="p-6">
+            <Text className="text-red-600">Failed to load the glossary. Please refresh.</Text>
+          </Card>
+        ) : terms.length === 0 ? (
+          <EmptyState
+            icon={BookOpenIcon}
+            title={`No ${LANGUAGE_DISPLAY_NAMES[language]} terms yet`}
+            description="Add terms translators should always render the same way."
+            action={{ label: 'New Term', onClick: () => openEditor(null) }}
+          />
+        ) : (
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeader>Term</TableHeader>
+                <TableHeader>Translation</TableHeader>
+                <TableHeader>Notes</TableHeader>
+                <TableHeader className="text-right">Actions</TableHeader>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {terms.map((term) => (
+                <TableRow key={term.id}>
+                  <TableCell className="font-medium">{term.term}</TableCell>
+                  <TableCell>
+                    <Badge color="blue">{term.translation}</Badge>
+                  </TableCell>
+                  <TableCell className="text-zinc-500">{term.notes}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <Button outline onClick={() => openEditor(term)} title="Edit">
+                        <PencilIcon className="h-4 w-4" />
+                      </Button>
+                      <Button outline onClick={() => setDeleteTarget(term)} title="Delete">
+                        <TrashIcon className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <GlossaryTermModal
+        open={showEditor}
+        onClose={() => setShowEditor(false)}
+        term={editing}
+        defaultLanguage={language}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={`Delete "${deleteTarget?.term}"?`}
+        description="Translators will no longer see this term highlighted."
+        confirmLabel="Delete"
+        variant="danger"
+        isPending={deleteMutation.isPending}
+      />
+    </Container>
+  );
+}
@@ -338,6 +338,7 @@ export default function AdminProfilePage() {
                         <option value="English">English</option>
                         <option value="Afrikaans">Afrikaans</option>
                         <option value="Xhosa">Xhosa</option>
+                        <option value="Zulu">Zulu</option>
                       </Select>
                     </div>
 
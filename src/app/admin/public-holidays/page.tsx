@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { PencilIcon, TrashIcon, ChevronLeftIcon, ChevronRightIcon } from '@heroicons/react/24/outline';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/ui/page-header';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { CardSkeleton } from '@/components/ui/skeleton';
+import { PublicHolidayModal } from '@/components/admin/PublicHolidayModal';
+import { usePublicHolidays, useDeletePublicHoliday } from '@/hooks/use-public-holidays';
+import type { PublicHoliday } from '@/hooks/use-public-holidays';
+
+function formatHolidayDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-ZA', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    timeZone: 'UTC',
+  });
+}
+
+export default function AdminPublicHolidaysPage() {
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [editing, setEditing] = useState<PublicHoliday | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<PublicHoliday | null>(null);
+
+  const { data, isLoading, error } = usePublicHolidays(year);
+  const deleteMutation = useDeletePublicHoliday();
+
+  const holidays = data?.holidays || [];
+
+  const openEditor = (holiday: PublicHoliday | null) => {
+    setEditing(holiday);
+    setShowEditor(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget?.id) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      toast.success('Public holiday deleted');
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete public holiday');
+    }
+  };
+
+  return (
+    <Container>
+      <PageHeader
+        title="Public Holidays"
+        description="Days that use the public holiday bulletin schedule. Statutory holidays are built in; add declared days such as elections here."
+        action={{ label: 'New Holiday', onClick: () => openEditor(null) }}
+      />
+
+      <div className="mt-8 flex items-center gap-3">
+        <Button outline onClick={() => setYear(year - 1)} title="Previous year">
+          <ChevronLeftIcon className="h-4 w-4" />
+        </Button>
+        <Heading level={3}>{year}</Heading>
+        <Button outline onClick={() => setYear(year + 1)} title="Next year">
+          <ChevronRightIcon className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="mt-6">
+        {isLoading ? (
+          <CardSkeleton />
+        ) : error ? (
+          <Card className="p-6">
+            <Text className="text-red-600">Failed to load public holidays. Please refresh.</Text>
+          </Card>
+        ) : (
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeader>Date</TableHeader>
+                <TableHeader>Holiday</TableHeader>
+                <TableHeader>Source</TableHeader>
+                <TableHeader className="text-right">Actions</TableHeader>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {holidays.map((holiday) => (
+                <TableRow key={holiday.id ?? `${holiday.date}-${holiday.name}`}>
+                  <TableCell className="font-medium">{formatHolidayDate(holiday.date)}</TableCell>
+                  <TableCell>{holiday.name}</TableCell>
+                  <TableCell>
+                    {holiday.source === 'STATUTORY' ? (
+                      <Badge color="zinc">Statutory</Badge>
+                    ) : (
+                      <Badge color="blue">Declared</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {holiday.source === 'CUSTOM' && (
+                      <div className="flex items-center justify-end gap-2">
+                        <Button outline onClick={() => openEditor(holiday)} title="Edit">
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button outline onClick={() => setDeleteTarget(holiday)} title="Delete">
+                          <TrashIcon className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <PublicHolidayModal
+        open={showEditor}
+        onClose={() => setShowEditor(false)}
+        holiday={editing}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={`Delete "${deleteTarget?.name}"?`}
+        description="Bulletins on this day will go back to the weekday or weekend schedule."
+        confirmLabel="Delete"
+        variant="danger"
+        isPending={deleteMutation.isPending}
+      />
+    </Container>
+  );
+}
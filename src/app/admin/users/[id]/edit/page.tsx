@@ -15,7 +15,7 @@ type User = {
   mobileNumber?: string | null;
   userType: 'STAFF' | 'RADIO';
   staffRole?: 'SUPERADMIN' | 'ADMIN' | 'EDITOR' | 'SUB_EDITOR' | 'JOURNALIST' | 'INTERN' | null;
-  translationLanguage?: 'AFRIKAANS' | 'XHOSA' | null;
+  translationLanguage?: 'AFRIKAANS' | 'XHOSA' | 'ZULU' | null;
   isActive: boolean;
   isPrimaryContact: boolean;
   isContentProducer: boolean;
@@ -0,0 +1,186 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { PencilIcon, TrashIcon, DocumentDuplicateIcon } from '@heroicons/react/24/outline';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/ui/page-header';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { CardSkeleton } from '@/components/ui/skeleton';
+import { WorkflowEditorModal } from '@/components/admin/WorkflowEditorModal';
+import { useWorkflows, useDeleteWorkflow } from '@/hooks/use-workflows';
+import type { Workflow } from '@/hooks/use-workflows';
+import { STAGE_LABELS, STAFF_ROLE_LABELS, type WorkflowDefinition } from '@/lib/workflow';
+
+function WorkflowSummary({ workflow }: { workflow: WorkflowDefinition }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-1 text-sm">
+        {workflow.stages.map((stage, index) => (
+          <span key={stage} className="flex items-center gap-1">
+            <Badge color="zinc">{STAGE_LABELS[stage]}</Badge>
+            {index < workflow.stages.length - 1 && <span className="text-zinc-400">→</span>}
+          </span>
+        ))}
+      </div>
+      <ul className="divide-y divide-zinc-100 border border-zinc-200 rounded-md text-sm">
+        {workflow.transitions.map((transition, index) => (
+          <li key={index} className="px-3 py-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+            <span className="font-medium text-zinc-900">{transition.label}</span>
+            <span className="text-zinc-500">
+              {STAGE_LABELS[transition.from]} → {STAGE_LABELS[transition.to]}
+            </span>
+            <span className="text-zinc-500">
+              by {transition.allowedRoles.map(role => STAFF_ROLE_LABELS[role]).join(', ')}
+            </span>
+            {transition.authorRoles.length > 0 && (
+              <span className="text-zinc-500">
+                for {transition.authorRoles.map(role => STAFF_ROLE_LABELS[role]).join(', ')} stories
+              </span>
+            )}
+            {transition.checklist.length > 0 && (
+              <Badge color="amber">{transition.checklist.length} checklist items</Badge>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function AdminWorkflowsPage() {
+  const [editing, setEditing] = useState<Workflow | null>(null);
+  const [template, setTemplate] = useState<WorkflowDefinition | undefined>(undefined);
+  const [showEditor, setShowEditor] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<Workflow | null>(null);
+
+  const { data, isLoading, error } = useWorkflows();
+  const deleteMutation = useDeleteWorkflow();
+
+  const workflows = data?.workflows || [];
+  const hasConfiguredDefault = workflows.some(w => w.isDefault);
+
+  const openEditor = (workflow: Workflow | null, from?: WorkflowDefinition) => {
+    setEditing(workflow);
+    setTemplate(from);
+    setShowEditor(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      toast.success('Workflow deleted');
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete workflow');
+    }
+  };
+
+  return (
+    <Container>
+      <PageHeader
+        title="Workflows"
+        description="Define the editorial approval chain for each desk"
+        action={{ label: 'New Workflow', onClick: () => openEditor(null) }}
+      />
+
+      <div className="mt-8 space-y-6">
+        {isLoading ? (
+          <CardSkeleton />
+        ) : error ? (
+          <Card className="p-6">
+            <Text className="text-red-600">Failed to load workflows. Please refresh.</Text>
+          </Card>
+        ) : (
+          <>
+            {!hasConfiguredDefault && data && (
+              <Card className="p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Heading level={3}>{data.defaultWorkflow.name}</Heading>
+                      <Badge color="green">Default</Badge>
+                      <Badge color="zinc">Built-in</Badge>
+                    </div>
+                    <Text className="text-sm text-zinc-500 mt-1">
+                      Used by every desk without its own workflow. Customise it to change the default chain.
+                    </Text>
+                  </div>
+                  <Button outline onClick={() => openEditor(null, data.defaultWorkflow)}>
+                    <DocumentDuplicateIcon className="h-4 w-4 mr-1" />
+                    Customise
+                  </Button>
+                </div>
+                <WorkflowSummary workflow={data.defaultWorkflow} />
+              </Card>
+            )}
+
+            {workflows.map((workflow) => (
+              <Card key={workflow.id} className="p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Heading level={3}>{workflow.name}</Heading>
+                      {workflow.isDefault && <Badge color="green">Default</Badge>}
+                      <Badge color={workflow.requiresTranslation ? 'blue' : 'zinc'}>
+                        {workflow.requiresTranslation ? 'Translation required' : 'Translation optional'}
+                      </Badge>
+                    </div>
+                    {workflow.description && (
+                      <Text className="text-sm text-zinc-500 mt-1">{workflow.description}</Text>
+                    )}
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {workflow.categories.length > 0 ? (
+                        workflow.categories.map((category) => (
+                          <Badge key={category.id} color="blue">{category.name}</Badge>
+                        ))
+                      ) : (
+                        !workflow.isDefault && <Text className="text-xs text-zinc-500">Not assigned to any desk</Text>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button outline onClick={() => openEditor(null, workflow)} title="Duplicate">
+                      <DocumentDuplicateIcon className="h-4 w-4" />
+                    </Button>
+                    <Button outline onClick={() => openEditor(workflow)} title="Edit">
+                      <PencilIcon className="h-4 w-4" />
+                    </Button>
+                    <Button outline onClick={() => setDeleteTarget(workflow)} title="Delete">
+                      <TrashIcon className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+                <WorkflowSummary workflow={workflow} />
+              </Card>
+            ))}
+          </>
+        )}
+      </div>
+
+      <WorkflowEditorModal
+        open={showEditor}
+        onClose={() => setShowEditor(false)}
+        workflow={editing}
+        template={template}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={`Delete ${deleteTarget?.name}?`}
+        description="Desks using this workflow will fall back to the default workflow. Stories keep their current stage."
+        confirmLabel="Delete"
+        variant="danger"
+        isPending={deleteMutation.isPending}
+      />
+    </Container>
+  );
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import Ably from 'ably';
+import { stationChannel } from '@/lib/ably/channels';
 
 export async function GET() {
   const session = await getServerSession(authOptions);
@@ -18,12 +19,13 @@ export async function GET() {
   const { user } = session;
 
   // Build capabilities based on user type
-  // Staff can subscribe to all newsroom channels
+  // Staff can subscribe to all newsroom channels; radio users only to their
+  // own station's channel (breaking news alerts)
   const capabilityString = user.staffRole
     ? JSON.stringify({ 'newsroom:*': ['subscribe', 'presence'] })
-    : JSON.stringify({});
-
-  // Radio users don't need real-time for now
+    : user.userType === 'RADIO' && user.radioStationId
+      ? JSON.stringify({ [stationChannel(user.radioStationId)]: ['subscribe'] })
+      : JSON.stringify({});
 
   const tokenRequest = await ably.auth.createTokenRequest({
     clientId: user.id,
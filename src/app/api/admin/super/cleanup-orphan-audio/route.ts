@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { deleteAudioFile } from '@/lib/r2-storage';
+import { deleteAudioClipFiles } from '@/lib/r2-storage';
 
 /**
  * GET /api/admin/super/cleanup-orphan-audio
@@ -59,7 +59,7 @@ export async function POST() {
         stories: { none: {} },
         episodes: { none: {} },
       },
-      select: { id: true, url: true, originalName: true },
+      select: { id: true, url: true, originalUrl: true, originalName: true },
     });
 
     if (orphans.length === 0) {
@@ -72,7 +72,7 @@ export async function POST() {
     // Delete from R2 storage first
     for (const clip of orphans) {
       try {
-        await deleteAudioFile(clip.url);
+        await deleteAudioClipFiles(clip);
         storageDeleted++;
       } catch {
         storageFailed++;
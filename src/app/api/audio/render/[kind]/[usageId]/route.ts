@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { trimOf, validateTrim } from '@/lib/audio-trim';
+import { renderTrimmedAudio } from '@/lib/audio-processing';
+import {
+  isProgrammeAvailableToStation,
+  isStoryAvailableToStation,
+  resolveFeedTokenAccess,
+  resolveStationAccess,
+  type StationAccess,
+  type StationAccessResult,
+} from '@/lib/station-access';
+import { isReleasedToStation } from '@/lib/release-window';
+
+const clipSelect = {
+  url: true,
+  filename: true,
+  mimeType: true,
+  duration: true,
+  processedAt: true,
+} as const;
+
+// What a station needs to know about content to decide if it may have it
+const availabilitySelect = {
+  categoryId: true,
+  category: { select: { parentId: true } },
+  classifications: { select: { classification: { select: { type: true, name: true } } } },
+} as const;
+
+/**
+ * A story usage, when its story is published, released to the station and
+ * not blocked for it. Staff (no station) can hear any story, as the newsroom
+ * previews drafts.
+ */
+async function findStoryUsage(usageId: string, access: StationAccess) {
+  const usage = await prisma.storyAudioClip.findUnique({
+    where: { id: usageId },
+    include: {
+      audioClip: { select: clipSelect },
+      story: {
+        select: {
+          ...availabilitySelect,
+          stage: true,
+          embargoUntil: true,
+          exclusiveUntil: true,
+          exclusiveStationIds: true,
+          exclusiveProvinces: true,
+        },
+      },
+    },
+  });
+  if (!usage || !access.stationId) return usage;
+
+  const { story } = usage;
+  const available =
+    story.stage === 'PUBLISHED' && isReleasedToStation(story, access) && isStoryAvailableToStation(story, access);
+  return available ? usage : null;
+}
+
+/**
+ * An episode usage, when the episode and its show are published and the
+ * station may carry the show. Staff can hear any episode.
+ */
+async function findEpisodeUsage(usageId: string, access: StationAccess) {
+  const usage = await prisma.episodeAudioClip.findUnique({
+    where: { id: usageId },
+    include: {
+      audioClip: { select: clipSelect },
+      episode: {
+        select: {
+          status: true,
+          show: { select: { ...availabilitySelect, isActive: true, isPublished: true } },
+        },
+      },
+    },
+  });
+  if (!usage || !access.stationId) return usage;
+
+  const { episode } = usage;
+  const available =
+    episode.status === 'PUBLISHED' &&
+    episode.show.isActive &&
+    episode.show.isPublished &&
+    isProgrammeAvailableToStation(episode.show, access);
+  return available ? usage : null;
+}
+
+/**
+ * GET /api/audio/render/[kind]/[usageId]
+ * Trimmed audio for a clip's use in a story or episode. Renders the trim on
+ * first request and redirects to the stored copy, which later requests reuse.
+ * Podcast apps following a show feed's enclosures send the station's feed
+ * token instead of a session, so a token only reaches episode audio.
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ kind: string; usageId: string }> }
+) {
+  try {
+    const { kind, usageId } = await params;
+    if (kind !== 'story' && kind !== 'episode') {
+      return NextResponse.json({ error: 'Audio not found' }, { status: 404 });
+    }
+
+    const session = await getServerSession(authOptions);
+    const result: StationAccessResult = session?.user
+      ? await resolveStationAccess(session.user)
+      : kind === 'episode'
+        ? await resolveFeedTokenAccess(req.nextUrl.searchParams.get('token'))
+        : { error: 'Unauthorized', status: 401 };
+    if (!result.access) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    // Audio a station may not have is reported as missing
+    const usage =
+      kind === 'story'
+        ? await findStoryUsage(usageId, result.access)
+        : await findEpisodeUsage(usageId, result.access);
+
+    if (!usage) {
+      return NextResponse.json({ error: 'Audio not found' }, { status: 404 });
+    }
+
+    const trim = trimOf(usage);
+    if (!trim || validateTrim(trim, usage.audioClip.duration) !== null) {
+      // Nothing to cut, or a trim the clip no longer fits: play it whole
+      return NextResponse.redirect(usage.audioClip.url);
+    }
+
+    const url = await renderTrimmedAudio(usage.audioClip, trim);
+    if (!url) {
+      console.error('Trimmed audio not rendered: ffmpeg is not available. Reinstall ffmpeg-static or set FFMPEG_PATH to an ffmpeg binary.');
+      return NextResponse.json({ error: 'Trimmed audio is not available right now' }, { status: 503 });
+    }
+    return NextResponse.redirect(url);
+  } catch (error) {
+    console.error('Error rendering trimmed audio:', error);
+    return NextResponse.json({ error: 'Failed to render audio' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { abortStaleAudioUploads } from '@/lib/audio-uploads';
+
+/**
+ * GET /api/cron/abort-stale-uploads
+ * Cron job that gives up on direct audio uploads left unfinished for more
+ * than a day, discarding the parts R2 is holding for them.
+ *
+ * Configured in vercel.json to run daily.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.error('CRON_SECRET environment variable is not set');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const aborted = await abortStaleAudioUploads();
+
+    console.log(`Aborted ${aborted} stale audio upload${aborted === 1 ? '' : 's'}`);
+
+    return NextResponse.json({
+      success: true,
+      aborted,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Stale upload cleanup error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { publishBulletinEvent, createEvent } from '@/lib/ably';
+import { recordBulletinRevision } from '@/lib/bulletin-revisions';
 
 /**
  * GET /api/cron/auto-publish-bulletins
@@ -43,6 +44,8 @@ export async function GET(req: NextRequest) {
         id: true,
         title: true,
         scheduledFor: true,
+        authorId: true,
+        reviewerId: true,
       },
     });
 
@@ -65,6 +68,11 @@ export async function GET(req: NextRequest) {
           },
         });
 
+        // Snapshot the published version for later corrections
+        await recordBulletinRevision(prisma, bulletin.id, {
+          createdById: bulletin.reviewerId ?? bulletin.authorId,
+        });
+
         // Create audit log for auto-publish
         await prisma.auditLog.create({
           data: {
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { publishBulletinEvent, createEvent } from '@/lib/ably';
+import { comingBulletinDay, generateBulletinDrafts, parseBulletinDay } from '@/lib/bulletin-generation';
+
+/**
+ * GET /api/cron/generate-bulletins
+ * Cron job that creates tomorrow's draft bulletins, one per active schedule slot,
+ * pre-filled with the stories flagged for that slot on tomorrow's date.
+ *
+ * Runs daily at 18:00 UTC (20:00 SAST) via vercel.json cron config.
+ * Pass ?date=YYYY-MM-DD to generate drafts for a specific (SAST) day instead.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.error('CRON_SECRET environment variable is not set');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const dateParam = req.nextUrl.searchParams.get('date');
+    const day = dateParam ? parseBulletinDay(dateParam) : comingBulletinDay();
+    if (!day) {
+      return NextResponse.json({ error: 'date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+
+    const result = await generateBulletinDrafts(day);
+
+    // Publish real-time events (non-blocking)
+    for (const bulletin of result.created) {
+      publishBulletinEvent(
+        createEvent('bulletin:created', 'bulletin', bulletin.bulletinId, 'SYSTEM', undefined, {
+          title: bulletin.title,
+          autoGenerated: true,
+        })
+      ).catch(() => {});
+    }
+
+    console.log(
+      `Bulletin generation for ${result.day} (${result.holiday ?? result.scheduleType}): ${result.created.length} drafts created, ${result.skipped.length} slots already filled`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Generate bulletins error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
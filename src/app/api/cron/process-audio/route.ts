@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isFfmpegAvailable, processPendingAudioClips } from '@/lib/audio-processing';
+
+// Clips per run, and how long a run may keep starting new ones
+const BATCH_SIZE = 10;
+const RUN_BUDGET_MS = 4 * 60 * 1000;
+
+/**
+ * GET /api/cron/process-audio
+ * Cron job that loudness-normalises uploaded audio clips (EBU R128, -23 LUFS)
+ * and stores an MP3 rendition alongside each upload. Runs the ffmpeg that
+ * ffmpeg-static installs, or FFMPEG_PATH; without one clips are left queued
+ * rather than failed.
+ *
+ * Configured in vercel.json to run every 5 minutes. Clips not reached in
+ * one run, and failed clips with attempts left, are picked up by the next.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.error('CRON_SECRET environment variable is not set');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await isFfmpegAvailable())) {
+      console.error('Audio processing skipped: ffmpeg is not available. Reinstall ffmpeg-static or set FFMPEG_PATH to an ffmpeg binary.');
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'ffmpeg is not available',
+          timestamp: new Date().toISOString(),
+        },
+        { status: 503 }
+      );
+    }
+
+    const result = await processPendingAudioClips({
+      limit: BATCH_SIZE,
+      deadline: Date.now() + RUN_BUDGET_MS,
+    });
+
+    console.log(
+      `Audio processing: ${result.ready} ready, ${result.failed} failed, ${result.skipped} skipped, ${result.remaining} left for the next run`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Audio processing error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
@@ -0,0 +1,289 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { publishStoryEvent, publishDashboardEvent, createEvent } from '@/lib/ably';
+import { getGroupReadiness, publishStoryGroupTx } from '@/lib/story-groups';
+import { withLegacyStatus } from '@/lib/story-stage';
+import { recordTranslationMemory } from '@/lib/translation-memory';
+
+/**
+ * GET /api/cron/publish-scheduled-stories
+ * Cron job that publishes stories whose scheduledPublishAt has passed.
+ *
+ * Runs every 5 minutes via vercel.json cron config.
+ * Checks for original stories where:
+ *   - stage is TRANSLATED (scheduling keeps the story at TRANSLATED until publish)
+ *   - scheduledPublishAt is in the past
+ *
+ * The story and its APPROVED/TRANSLATED translations are published in one
+ * transaction. Stories whose translations are no longer ready (e.g. sent back
+ * for revision after scheduling, or out of date after the original was edited)
+ * are skipped and retried on the next run.
+ *
+ * Story groups with publishTogether and a due scheduledPublishAt are released
+ * the same way: all member stories at once, or not at all while any is blocking.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      console.error('CRON_SECRET environment variable is not set');
+      return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const now = new Date();
+
+    const storiesToPublish = await prisma.story.findMany({
+      where: {
+        isTranslation: false,
+        stage: 'TRANSLATED',
+        scheduledPublishAt: {
+          not: null,
+          lte: now,
+        },
+        // Members of an unreleased publish-together group go out with their group
+        NOT: { storyGroup: { is: { publishTogether: true, publishedAt: null } } },
+      },
+      select: {
+        id: true,
+        title: true,
+        scheduledPublishAt: true,
+        publishedBy: true,
+        translations: {
+          select: { id: true, language: true, stage: true, sourceChangedAt: true },
+        },
+      },
+    });
+
+    const groupsToPublish = await prisma.storyGroup.findMany({
+      where: {
+        publishTogether: true,
+        publishedAt: null,
+        scheduledPublishAt: {
+          not: null,
+          lte: now,
+        },
+      },
+      select: {
+        id: true,
+        name: true,
+        scheduledPublishAt: true,
+      },
+    });
+
+    if (storiesToPublish.length === 0 && groupsToPublish.length === 0) {
+      return NextResponse.json({
+        success: true,
+        published: 0,
+        groupsPublished: 0,
+        timestamp: now.toISOString(),
+      });
+    }
+
+    const skipped: { id: string; reason: string }[] = [];
+
+    const results = await Promise.allSettled(
+      storiesToPublish.map(async (story) => {
+        const notReadyTranslations = story.translations.filter(
+          t => !t.stage || !['APPROVED', 'TRANSLATED', 'PUBLISHED'].includes(t.stage)
+        );
+
+        if (notReadyTranslations.length > 0) {
+          skipped.push({
+            id: story.id,
+            reason: `Translations not ready: ${notReadyTranslations
+              .map(t => `${t.language} (${t.stage})`)
+              .join(', ')}`,
+          });
+          return null;
+        }
+
+        const staleTranslations = story.translations.filter(t => t.sourceChangedAt);
+        if (staleTranslations.length > 0) {
+          skipped.push({
+            id: story.id,
+            reason: `Translations out of date with the original: ${staleTranslations
+              .map(t => t.language)
+              .join(', ')}`,
+          });
+          return null;
+        }
+
+        const publishedAt = new Date();
+
+        await prisma.$transaction(async (tx) => {
+          await tx.story.update({
+            where: { id: story.id },
+            data: {
+              ...withLegacyStatus('PUBLISHED'),
+              publishedAt,
+            },
+          });
+
+          await tx.story.updateMany({
+            where: {
+              originalStoryId: story.id,
+              isTranslation: true,
+              stage: {
+                in: ['APPROVED', 'TRANSLATED'],
+              },
+            },
+            data: {
+              ...withLegacyStatus('PUBLISHED'),
+              publishedAt,
+              publishedBy: story.publishedBy,
+            },
+          });
+        });
+
+        // Audited outside the transaction, against whoever scheduled the
+        // story: audit rows need a real user, and a failed audit write
+        // must not undo the publish
+        if (story.publishedBy) {
+          await prisma.auditLog.create({
+            data: {
+              userId: story.publishedBy,
+              action: 'AUTO_PUBLISH_STORY',
+              entityType: 'STORY',
+              entityId: story.id,
+              metadata: {
+                title: story.title,
+                scheduledFor: story.scheduledPublishAt?.toISOString(),
+                autoPublishedAt: publishedAt.toISOString(),
+                translationsPublished: story.translations
+                  .filter(t => t.stage === 'APPROVED' || t.stage === 'TRANSLATED')
+                  .map(t => t.id),
+              },
+            },
+          }).catch((error) => console.error(`Failed to audit auto-publish of story ${story.id}:`, error));
+        }
+
+        // Published translations feed translation memory (non-blocking)
+        recordTranslationMemory([story.id]).catch((error) => console.error('Failed to record translation memory:', error));
+
+        // Publish real-time events (non-blocking)
+        publishStoryEvent(
+          createEvent('story:stage_changed', 'story', story.id, 'SYSTEM', undefined, {
+            previousStage: 'TRANSLATED',
+            newStage: 'PUBLISHED',
+            autoPublished: true,
+          })
+        ).catch(() => {});
+
+        publishDashboardEvent(
+          createEvent('dashboard:metrics_updated', 'story', story.id, 'SYSTEM', undefined, {
+            trigger: 'scheduled_publish',
+          })
+        ).catch(() => {});
+
+        return story.id;
+      })
+    );
+
+    const groupResults = await Promise.allSettled(
+      groupsToPublish.map(async (group) => {
+        const readiness = await getGroupReadiness(group.id);
+
+        if (!readiness.ready) {
+          skipped.push({
+            id: group.id,
+            reason: `Group "${group.name}" has blocking stories: ${readiness.blocking
+              .map(s => `${s.title} (${s.language}, ${s.sourceChangedAt ? 'original changed' : s.stage})`)
+              .join(', ')}`,
+          });
+          return null;
+        }
+
+        // Groups don't record who scheduled them; the scheduling audit row does
+        const scheduling = await prisma.auditLog.findFirst({
+          where: { action: 'SCHEDULE_GROUP_PUBLISH', entityId: group.id },
+          orderBy: { createdAt: 'desc' },
+          select: { userId: true },
+        });
+        const scheduledBy = scheduling?.userId ?? null;
+
+        const publishedIds = await prisma.$transaction((tx) => publishStoryGroupTx(tx, group.id, scheduledBy));
+
+        if (scheduledBy) {
+          await prisma.auditLog.create({
+            data: {
+              userId: scheduledBy,
+              action: 'AUTO_PUBLISH_STORY_GROUP',
+              entityType: 'STORY_GROUP',
+              entityId: group.id,
+              metadata: {
+                name: group.name,
+                scheduledFor: group.scheduledPublishAt?.toISOString(),
+                autoPublishedAt: new Date().toISOString(),
+                storyIds: publishedIds,
+              },
+            },
+          }).catch((error) => console.error(`Failed to audit auto-publish of story group ${group.id}:`, error));
+        }
+
+        recordTranslationMemory(publishedIds).catch((error) => console.error('Failed to record translation memory:', error));
+
+        for (const storyId of publishedIds) {
+          publishStoryEvent(
+            createEvent('story:stage_changed', 'story', storyId, 'SYSTEM', undefined, {
+              newStage: 'PUBLISHED',
+              storyGroupId: group.id,
+              autoPublished: true,
+            })
+          ).catch(() => {});
+        }
+
+        return group.id;
+      })
+    );
+
+    const published = results.filter((r) => r.status === 'fulfilled' && r.value !== null).length;
+    const groupsPublished = groupResults.filter((r) => r.status === 'fulfilled' && r.value !== null).length;
+    const failed = [...results, ...groupResults].filter((r) => r.status === 'rejected').length;
+
+    if (failed > 0) {
+      console.error(
+        'Some stories failed to auto-publish:',
+        [...results, ...groupResults]
+          .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+          .map((r) => r.reason)
+      );
+    }
+
+    if (skipped.length > 0) {
+      console.warn('Scheduled stories skipped:', skipped);
+    }
+
+    console.log(
+      `Scheduled publish: ${published} stories and ${groupsPublished} groups published, ${skipped.length} skipped, ${failed} failed`
+    );
+
+    return NextResponse.json({
+      success: true,
+      published,
+      groupsPublished,
+      skipped,
+      failed,
+      timestamp: now.toISOString(),
+    });
+  } catch (error) {
+    console.error('Publish scheduled stories error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  return GET(req);
+}
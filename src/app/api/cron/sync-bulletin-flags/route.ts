@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
+import { syncStoryFlagState } from '@/lib/bulletin-flags';
 
 /**
- * GET /api/cron/reset-bulletin-flags
- * Daily cron job to clear all bulletin flags.
- * Flags are treated as "today's picks" — they reset each day.
+ * GET /api/cron/sync-bulletin-flags
+ * Daily cron job that brings the flaggedForBulletin fields on stories in line
+ * with the bulletin flags that cover the new day. The flags themselves are
+ * kept as history; picks that have run their course simply stop applying.
  *
- * Configured in vercel.json to run daily at midnight.
+ * Configured in vercel.json to run daily at 22:00 UTC (midnight SAST).
  * For manual testing: ?secret=YOUR_CRON_SECRET
  */
 export async function GET(req: NextRequest) {
@@ -25,25 +26,18 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Clear all bulletin flags
-    const result = await prisma.story.updateMany({
-      where: { flaggedForBulletin: true },
-      data: {
-        flaggedForBulletin: false,
-        flaggedForBulletinAt: null,
-        flaggedForBulletinById: null,
-      },
-    });
+    const result = await syncStoryFlagState();
 
-    console.log(`Bulletin flags reset: ${result.count} stories unflagged`);
+    console.log(`Bulletin flags synced: ${result.flagged} stories flagged, ${result.cleared} cleared`);
 
     return NextResponse.json({
       success: true,
-      unflaggedCount: result.count,
+      flaggedCount: result.flagged,
+      unflaggedCount: result.cleared,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Bulletin flag reset error:', error);
+    console.error('Bulletin flag sync error:', error);
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isProgrammeAvailableToStation, resolveFeedTokenAccess } from '@/lib/station-access';
+import { buildPodcastFeed, feedLanguage } from '@/lib/podcast-feed';
+
+/**
+ * GET /api/feeds/podcasts/[slug]?token=
+ * RSS feed of a published podcast for a station's playout system or podcast
+ * app, authenticated with one of the station's feed tokens
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+
+    const result = await resolveFeedTokenAccess(req.nextUrl.searchParams.get('token'));
+    if (!result.access) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { access } = result;
+
+    const podcast = await prisma.podcast.findUnique({
+      where: { slug, isActive: true, isPublished: true },
+      include: {
+        category: { select: { name: true, parentId: true } },
+        classifications: {
+          include: { classification: true },
+        },
+        episodes: {
+          where: { status: 'PUBLISHED' },
+          include: {
+            audioClips: {
+              include: { audioClip: true },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+          orderBy: { episodeNumber: 'desc' },
+        },
+      },
+    });
+
+    // Programmes a station may not carry are reported as missing
+    if (!podcast || !isProgrammeAvailableToStation(podcast, access)) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+    const languages = podcast.classifications
+      .filter(pc => pc.classification.type === 'LANGUAGE')
+      .map(pc => pc.classification.name);
+
+    const xml = buildPodcastFeed(
+      {
+        title: podcast.title,
+        description: podcast.description,
+        link: `${appUrl}/radio/podcasts/${podcast.id}`,
+        feedUrl: `${appUrl}/api/feeds/podcasts/${podcast.slug}`,
+        imageUrl: podcast.coverImage,
+        language: feedLanguage(languages),
+        category: podcast.category?.name ?? null,
+        author: 'Newskoop',
+        updatedAt: podcast.updatedAt,
+      },
+      podcast.episodes.map(episode => ({
+        ...episode,
+        audioClips: episode.audioClips.map(eac => eac.audioClip),
+      }))
+    );
+
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building podcast feed:', error);
+    return NextResponse.json({ error: 'Failed to build podcast feed' }, { status: 500 });
+  }
+}
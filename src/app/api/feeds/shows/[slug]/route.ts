@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { isProgrammeAvailableToStation, resolveFeedTokenAccess } from '@/lib/station-access';
+import { buildPodcastFeed, feedLanguage } from '@/lib/podcast-feed';
+import { usageAudioClip } from '@/lib/audio-trim';
+
+/**
+ * GET /api/feeds/shows/[slug]?token=
+ * RSS feed of a published show for a station's playout system or podcast
+ * app, authenticated with one of the station's feed tokens
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  try {
+    const { slug } = await params;
+    const token = req.nextUrl.searchParams.get('token');
+
+    const result = await resolveFeedTokenAccess(token);
+    if (!result.access) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { access } = result;
+
+    const show = await prisma.show.findUnique({
+      where: { slug, isActive: true, isPublished: true },
+      include: {
+        category: { select: { name: true, parentId: true } },
+        classifications: {
+          include: { classification: true },
+        },
+        episodes: {
+          where: { status: 'PUBLISHED' },
+          include: {
+            audioClips: {
+              include: { audioClip: true },
+              orderBy: { createdAt: 'asc' },
+            },
+          },
+          orderBy: { episodeNumber: 'desc' },
+        },
+      },
+    });
+
+    // Programmes a station may not carry are reported as missing
+    if (!show || !isProgrammeAvailableToStation(show, access)) {
+      return NextResponse.json({ error: 'Show not found' }, { status: 404 });
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+    const languages = show.classifications
+      .filter(pc => pc.classification.type === 'LANGUAGE')
+      .map(pc => pc.classification.name);
+
+    const xml = buildPodcastFeed(
+      {
+        title: show.title,
+        description: show.description,
+        link: `${appUrl}/radio/shows/${show.id}`,
+        feedUrl: `${appUrl}/api/feeds/shows/${show.slug}`,
+        imageUrl: show.coverImage,
+        language: feedLanguage(languages),
+        category: show.category?.name ?? null,
+        author: 'Newskoop',
+        updatedAt: show.updatedAt,
+      },
+      show.episodes.map(episode => ({
+        ...episode,
+        audioClips: episode.audioClips.map(eac => {
+          const clip = usageAudioClip('episode', eac);
+          if (!clip.trim) return clip;
+          // Trims play from the render address, which takes the feed token in
+          // place of a session; the rendered file's size isn't known yet
+          return {
+            ...clip,
+            url: `${appUrl}${clip.url}?token=${encodeURIComponent(token!)}`,
+            fileSize: null,
+          };
+        }),
+      }))
+    );
+
+    return new NextResponse(xml, {
+      headers: {
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building show feed:', error);
+    return NextResponse.json({ error: 'Failed to build show feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+
+// POST /api/newsroom/audio-library/[id]/process - Queue a clip to be processed again
+const reprocessAudioClip = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: string | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const clip = await prisma.audioClip.findUnique({
+      where: { id },
+      select: { uploadedBy: true, processingStatus: true },
+    });
+
+    if (!clip) {
+      return NextResponse.json({ error: 'Audio clip not found' }, { status: 404 });
+    }
+
+    // Permission: uploader or SUB_EDITOR+
+    const isUploader = clip.uploadedBy === user.id;
+    const isSenior = ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(user.staffRole!);
+    if (!isUploader && !isSenior) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    if (clip.processingStatus === 'PENDING' || clip.processingStatus === 'PROCESSING') {
+      return NextResponse.json({ error: 'Audio clip is already queued for processing' }, { status: 409 });
+    }
+
+    const updated = await prisma.audioClip.update({
+      where: { id },
+      data: {
+        processingStatus: 'PENDING',
+        processingError: null,
+        processingAttempts: 0,
+      },
+      select: {
+        id: true,
+        processingStatus: true,
+      },
+    });
+
+    return NextResponse.json(updated);
+  },
+  [withErrorHandling, withAuth, withAudit('audio-library.reprocess')]
+);
+
+export { reprocessAudioClip as POST };
@@ -2,7 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
 import { audioLibraryUpdateSchema } from '@/lib/validations';
-import { deleteAudioFile } from '@/lib/r2-storage';
+import { deleteAudioClipFiles } from '@/lib/r2-storage';
+import { AUDIO_RIGHTS_SELECT } from '@/lib/audio-rights';
+import { findClipsOnAirToday } from '@/lib/audio-usage';
+import { bulletinDayDate, parseBulletinDay } from '@/lib/bulletin-generation';
+
+// A YYYY-MM-DD rights day as the Date Prisma stores in a @db.Date column;
+// null clears the day and undefined leaves it alone
+function rightsDayDate(value: string | null | undefined): Date | null | undefined {
+  if (value == null) return value;
+  const day = parseBulletinDay(value);
+  return day ? bulletinDayDate(day) : undefined;
+}
 
 // GET /api/newsroom/audio-library/[id] - Get single clip details
 const getAudioClip = createHandler(
@@ -27,6 +38,23 @@ const getAudioClip = createHandler(
         title: true,
         description: true,
         tags: true,
+        ...AUDIO_RIGHTS_SELECT,
+        collection: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        processingStatus: true,
+        processingError: true,
+        processedAt: true,
+        originalUrl: true,
+        loudness: true,
+        truePeak: true,
+        sampleRate: true,
+        channels: true,
+        normalisedLoudness: true,
+        waveform: true,
         createdAt: true,
         updatedAt: true,
         uploader: {
@@ -57,6 +85,8 @@ const getAudioClip = createHandler(
         _count: {
           select: {
             stories: true,
+            episodes: true,
+            podcastEpisodes: true,
           },
         },
       },
@@ -66,7 +96,9 @@ const getAudioClip = createHandler(
       return NextResponse.json({ error: 'Audio clip not found' }, { status: 404 });
     }
 
-    return NextResponse.json(clip);
+    const onAirToday = await findClipsOnAirToday([clip.id]);
+
+    return NextResponse.json({ ...clip, onAirToday: onAirToday.has(clip.id) });
   },
   [withErrorHandling, withAuth]
 );
@@ -98,16 +130,36 @@ const updateAudioClip = createHandler(
     }
 
     const body = await req.json();
-    const data = audioLibraryUpdateSchema.parse(body);
+    const { licenceExpiry, doNotReuseAfter, ...data } = audioLibraryUpdateSchema.parse(body);
+
+    if ([licenceExpiry, doNotReuseAfter].some(day => day && !parseBulletinDay(day))) {
+      return NextResponse.json({ error: 'Not a valid date' }, { status: 400 });
+    }
+
+    if (data.collectionId) {
+      const collection = await prisma.audioCollection.findUnique({
+        where: { id: data.collectionId },
+        select: { id: true },
+      });
+      if (!collection) {
+        return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+      }
+    }
 
     const updated = await prisma.audioClip.update({
       where: { id },
-      data,
+      data: {
+        ...data,
+        licenceExpiry: rightsDayDate(licenceExpiry),
+        doNotReuseAfter: rightsDayDate(doNotReuseAfter),
+      },
       select: {
         id: true,
         title: true,
         description: true,
         tags: true,
+        ...AUDIO_RIGHTS_SELECT,
+        collectionId: true,
         updatedAt: true,
       },
     });
@@ -132,6 +184,7 @@ const deleteAudioClipHandler = createHandler(
       select: {
         uploadedBy: true,
         url: true,
+        originalUrl: true,
         _count: { select: { stories: true } },
       },
     });
@@ -149,7 +202,7 @@ const deleteAudioClipHandler = createHandler(
 
     // Delete from storage
     try {
-      await deleteAudioFile(clip.url);
+      await deleteAudioClipFiles(clip);
     } catch (error) {
       console.error('Failed to delete file from storage:', error);
     }
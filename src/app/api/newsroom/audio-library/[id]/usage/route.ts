@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { findClipsOnAirToday } from '@/lib/audio-usage';
+
+// GET /api/newsroom/audio-library/[id]/usage - Everywhere a clip is used:
+// stories, the bulletins those stories run in, show episodes and podcast episodes
+const getAudioClipUsage = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: string | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const clip = await prisma.audioClip.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!clip) {
+      return NextResponse.json({ error: 'Audio clip not found' }, { status: 404 });
+    }
+
+    const [stories, bulletins, episodes, podcastEpisodes, onAirToday] = await Promise.all([
+      prisma.storyAudioClip.findMany({
+        where: { audioClipId: id },
+        select: {
+          id: true,
+          createdAt: true,
+          story: {
+            select: {
+              id: true,
+              title: true,
+              language: true,
+              stage: true,
+              status: true,
+              publishedAt: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.bulletin.findMany({
+        where: { bulletinStories: { some: { story: { audioClips: { some: { audioClipId: id } } } } } },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          scheduledFor: true,
+          publishedAt: true,
+        },
+        orderBy: [{ scheduledFor: 'desc' }, { createdAt: 'desc' }],
+      }),
+      prisma.episodeAudioClip.findMany({
+        where: { audioClipId: id },
+        select: {
+          id: true,
+          createdAt: true,
+          episode: {
+            select: {
+              id: true,
+              title: true,
+              episodeNumber: true,
+              status: true,
+              publishedAt: true,
+              show: { select: { id: true, title: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.podcastEpisodeAudioClip.findMany({
+        where: { audioClipId: id },
+        select: {
+          id: true,
+          createdAt: true,
+          episode: {
+            select: {
+              id: true,
+              title: true,
+              episodeNumber: true,
+              status: true,
+              publishedAt: true,
+              podcast: { select: { id: true, title: true } },
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      findClipsOnAirToday([id]),
+    ]);
+
+    return NextResponse.json({
+      stories,
+      bulletins,
+      episodes,
+      podcastEpisodes,
+      onAirToday: onAirToday.has(id),
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { getAudioClipUsage as GET };
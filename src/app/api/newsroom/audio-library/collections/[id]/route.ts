@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { audioCollectionUpdateSchema } from '@/lib/validations';
+import { canManageAudioCollections } from '@/lib/permissions';
+import { StaffRole } from '@prisma/client';
+
+// PATCH /api/newsroom/audio-library/collections/[id] - Rename or describe a collection
+const updateAudioCollection = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageAudioCollections(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.audioCollection.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = audioCollectionUpdateSchema.parse(body);
+
+    if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      const duplicate = await prisma.audioCollection.findFirst({
+        where: { name: { equals: data.name, mode: 'insensitive' } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: 'There is already a collection with this name' }, { status: 409 });
+      }
+    }
+
+    const collection = await prisma.audioCollection.update({
+      where: { id },
+      data,
+      include: { _count: { select: { clips: true } } },
+    });
+
+    return NextResponse.json({ collection });
+  },
+  [withErrorHandling, withAuth, withAudit('audio-collection.update')]
+);
+
+// DELETE /api/newsroom/audio-library/collections/[id] - Remove a collection; its clips stay in the library
+const deleteAudioCollection = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageAudioCollections(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.audioCollection.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+    }
+
+    await prisma.audioCollection.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Collection deleted' });
+  },
+  [withErrorHandling, withAuth, withAudit('audio-collection.delete')]
+);
+
+export { updateAudioCollection as PATCH, deleteAudioCollection as DELETE };
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { audioCollectionCreateSchema } from '@/lib/validations';
+import { canManageAudioCollections } from '@/lib/permissions';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/audio-library/collections - Audio library collections with their clip counts
+const listAudioCollections = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const collections = await prisma.audioCollection.findMany({
+      include: { _count: { select: { clips: true } } },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ collections });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/audio-library/collections - Create a collection
+const createAudioCollection = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageAudioCollections(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = audioCollectionCreateSchema.parse(body);
+
+    const existing = await prisma.audioCollection.findFirst({
+      where: { name: { equals: data.name, mode: 'insensitive' } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'There is already a collection with this name' }, { status: 409 });
+    }
+
+    const collection = await prisma.audioCollection.create({
+      data: { ...data, createdById: user.id },
+      include: { _count: { select: { clips: true } } },
+    });
+
+    return NextResponse.json({ collection }, { status: 201 });
+  },
+  [withErrorHandling, withAuth, withAudit('audio-collection.create')]
+);
+
+export { listAudioCollections as GET, createAudioCollection as POST };
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
 import { audioLibrarySearchSchema } from '@/lib/validations';
+import { AUDIO_RIGHTS_SELECT } from '@/lib/audio-rights';
+import { findClipsOnAirToday } from '@/lib/audio-usage';
 import { Prisma } from '@prisma/client';
 
 // GET /api/newsroom/audio-library - List/search audio clips
@@ -17,7 +19,7 @@ const getAudioClips = createHandler(
     const url = new URL(req.url);
     const searchParams = Object.fromEntries(url.searchParams);
 
-    const { query, tags, page, perPage } = audioLibrarySearchSchema.parse({
+    const { query, tags, collectionId, page, perPage } = audioLibrarySearchSchema.parse({
       ...searchParams,
       page: searchParams.page ? Number(searchParams.page) : 1,
       perPage: searchParams.perPage ? Number(searchParams.perPage) : 20,
@@ -26,13 +28,14 @@ const getAudioClips = createHandler(
 
     const where: Prisma.AudioClipWhereInput = {};
 
-    // Text search across title, originalName, tags, and source story title
+    // Text search across title, originalName, tags, source story title and copyright holder
     if (query) {
       where.OR = [
         { title: { contains: query, mode: 'insensitive' } },
         { originalName: { contains: query, mode: 'insensitive' } },
         { tags: { has: query } },
         { sourceStory: { title: { contains: query, mode: 'insensitive' } } },
+        { copyrightHolder: { contains: query, mode: 'insensitive' } },
       ];
     }
 
@@ -41,6 +44,10 @@ const getAudioClips = createHandler(
       where.tags = { hasSome: tags };
     }
 
+    if (collectionId) {
+      where.collectionId = collectionId === 'none' ? null : collectionId;
+    }
+
     const total = await prisma.audioClip.count({ where });
 
     const clips = await prisma.audioClip.findMany({
@@ -56,6 +63,23 @@ const getAudioClips = createHandler(
         title: true,
         description: true,
         tags: true,
+        ...AUDIO_RIGHTS_SELECT,
+        collection: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        processingStatus: true,
+        processingError: true,
+        processedAt: true,
+        originalUrl: true,
+        loudness: true,
+        truePeak: true,
+        sampleRate: true,
+        channels: true,
+        normalisedLoudness: true,
+        waveform: true,
         createdAt: true,
         updatedAt: true,
         uploader: {
@@ -74,6 +98,8 @@ const getAudioClips = createHandler(
         _count: {
           select: {
             stories: true,
+            episodes: true,
+            podcastEpisodes: true,
           },
         },
       },
@@ -82,8 +108,10 @@ const getAudioClips = createHandler(
       take: perPage,
     });
 
+    const onAirToday = await findClipsOnAirToday(clips.map(clip => clip.id));
+
     return NextResponse.json({
-      clips,
+      clips: clips.map(clip => ({ ...clip, onAirToday: onAirToday.has(clip.id) })),
       pagination: {
         total,
         page,
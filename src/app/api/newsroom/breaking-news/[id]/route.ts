@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/breaking-news/[id] - Which stations have acknowledged an alert
+const getBreakingNews = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const alert = await prisma.breakingNewsAlert.findUnique({
+      where: { id },
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+        story: { select: { id: true, title: true } },
+        bulletin: { select: { id: true, title: true } },
+        stations: {
+          include: {
+            station: { select: { id: true, name: true, province: true } },
+            acknowledgedBy: { select: { id: true, firstName: true, lastName: true } },
+          },
+          orderBy: { station: { name: 'asc' } },
+        },
+      },
+    });
+
+    if (!alert) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ alert });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { getBreakingNews as GET };
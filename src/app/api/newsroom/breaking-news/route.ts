@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { breakingNewsAlertCreateSchema } from '@/lib/validations';
+import { canSendBreakingNews } from '@/lib/permissions';
+import {
+  breakingNewsRecipientStations,
+  deliverBreakingNewsAlert,
+  findBreakingNewsContent,
+} from '@/lib/breaking-news';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/breaking-news - Recent alerts with acknowledgement counts
+const listBreakingNews = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const storyId = req.nextUrl.searchParams.get('storyId') || undefined;
+    const bulletinId = req.nextUrl.searchParams.get('bulletinId') || undefined;
+
+    const alerts = await prisma.breakingNewsAlert.findMany({
+      where: { storyId, bulletinId },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+        story: { select: { id: true, title: true } },
+        bulletin: { select: { id: true, title: true } },
+        stations: { select: { acknowledgedAt: true } },
+      },
+    });
+
+    return NextResponse.json({
+      alerts: alerts.map(({ stations, ...alert }) => ({
+        ...alert,
+        stationCount: stations.length,
+        acknowledgedCount: stations.filter(station => station.acknowledgedAt).length,
+      })),
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/breaking-news - Push a breaking news alert to stations
+const createBreakingNews = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canSendBreakingNews(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = breakingNewsAlertCreateSchema.parse(body);
+
+    const content = await findBreakingNewsContent(data);
+    if (!content) {
+      return NextResponse.json(
+        { error: `Only a published ${data.storyId ? 'story' : 'bulletin'} can be sent as breaking news` },
+        { status: 400 }
+      );
+    }
+
+    const stationIds = await breakingNewsRecipientStations(content);
+    if (stationIds.length === 0) {
+      return NextResponse.json({ error: 'No active station receives this content' }, { status: 400 });
+    }
+
+    const alert = await prisma.breakingNewsAlert.create({
+      data: {
+        headline: data.headline,
+        message: data.message || null,
+        storyId: data.storyId,
+        bulletinId: data.bulletinId,
+        createdById: user.id,
+        stations: { create: stationIds.map(stationId => ({ stationId })) },
+      },
+      include: { stations: { select: { stationId: true } } },
+    });
+
+    const emailsSent = await deliverBreakingNewsAlert(alert);
+
+    const { stations, ...created } = alert;
+    return NextResponse.json(
+      { alert: created, stationsAlerted: stations.length, emailsSent },
+      { status: 201 }
+    );
+  },
+  [withErrorHandling, withAuth, withAudit('breaking_news.create')]
+);
+
+export { listBreakingNews as GET, createBreakingNews as POST };
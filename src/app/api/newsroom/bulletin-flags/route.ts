@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { bulletinDayOf, formatBulletinDay, parseBulletinDay } from '@/lib/bulletin-generation';
+import { getBulletinPicks } from '@/lib/bulletin-flags';
+import { StaffRole, StoryLanguage } from '@prisma/client';
+
+// GET /api/newsroom/bulletin-flags - The day's bulletin picks (?date=YYYY-MM-DD&language=)
+const listBulletinPicks = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const dateParam = req.nextUrl.searchParams.get('date');
+    const day = dateParam ? parseBulletinDay(dateParam) : bulletinDayOf();
+    if (!day) {
+      return NextResponse.json({ error: 'Invalid date, expected YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const languageParam = req.nextUrl.searchParams.get('language');
+    if (languageParam && !Object.values(StoryLanguage).includes(languageParam as StoryLanguage)) {
+      return NextResponse.json({ error: 'Invalid language' }, { status: 400 });
+    }
+
+    const picks = await getBulletinPicks(day, (languageParam as StoryLanguage) || undefined);
+    return NextResponse.json({ date: formatBulletinDay(day), picks });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { listBulletinPicks as GET };
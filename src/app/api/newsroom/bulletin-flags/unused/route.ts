@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { bulletinDayOf, formatBulletinDay, parseBulletinDay } from '@/lib/bulletin-generation';
+import { getUnusedBulletinFlags } from '@/lib/bulletin-flags';
+import { StaffRole } from '@prisma/client';
+
+const DEFAULT_REPORT_DAYS = 7;
+
+// GET /api/newsroom/bulletin-flags/unused - Picks that lapsed without going out (?from=&to= YYYY-MM-DD)
+const listUnusedPicks = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const fromParam = req.nextUrl.searchParams.get('from');
+    const toParam = req.nextUrl.searchParams.get('to');
+    const from = fromParam
+      ? parseBulletinDay(fromParam)
+      : bulletinDayOf(new Date(Date.now() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000));
+    const to = toParam ? parseBulletinDay(toParam) : bulletinDayOf();
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Invalid date, expected YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const flags = await getUnusedBulletinFlags(from, to);
+    return NextResponse.json({ from: formatBulletinDay(from), to: formatBulletinDay(to), flags });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { listUnusedPicks as GET };
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { generateSlug, generateUniqueBulletinSlug } from '@/lib/slug-utils';
+import { publishBulletinEvent, createEvent } from '@/lib/ably';
+import {
+  ensureBaselineRevision,
+  getBulletinCorrections,
+  notifyStationsOfCorrection,
+  recordBulletinRevision,
+} from '@/lib/bulletin-revisions';
+
+const correctionSchema = z.object({
+  correctionNote: z.string().trim().min(1, 'A correction note is required').max(2000),
+  title: z.string().min(1, 'Title is required').optional(),
+  intro: z.string().min(1, 'Introduction is required').optional(),
+  outro: z.string().min(1, 'Outro is required').optional(),
+  // New running order; stories left out are dropped from the bulletin
+  storyIds: z.array(z.string()).min(1, 'A bulletin needs at least one story').optional(),
+});
+
+// GET /api/newsroom/bulletins/[id]/corrections - List corrections issued for a bulletin
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userRole = session.user.staffRole;
+    if (!userRole || !['EDITOR', 'SUB_EDITOR', 'JOURNALIST', 'SUPERADMIN', 'ADMIN'].includes(userRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const corrections = await getBulletinCorrections(id);
+
+    return NextResponse.json({ corrections });
+  } catch (error) {
+    console.error('Error fetching bulletin corrections:', error);
+    return NextResponse.json({ error: 'Failed to fetch corrections' }, { status: 500 });
+  }
+}
+
+// POST /api/newsroom/bulletins/[id]/corrections - Issue a correction to a published bulletin
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userRole = session.user.staffRole;
+    if (!userRole || !['EDITOR', 'SUPERADMIN', 'ADMIN'].includes(userRole)) {
+      return NextResponse.json({ error: 'Only editors can correct published bulletins' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { correctionNote, storyIds, ...content } = correctionSchema.parse(body);
+
+    const existing = await prisma.bulletin.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        bulletinStories: { select: { storyId: true } },
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Bulletin not found' }, { status: 404 });
+    }
+
+    if (existing.status !== 'PUBLISHED') {
+      return NextResponse.json({ error: 'Only published bulletins can be corrected' }, { status: 400 });
+    }
+
+    // Corrections can reorder or drop stories, not add new ones
+    if (storyIds) {
+      const current = new Set(existing.bulletinStories.map(bs => bs.storyId));
+      if (new Set(storyIds).size !== storyIds.length || storyIds.some(storyId => !current.has(storyId))) {
+        return NextResponse.json({ error: 'Stories must be taken from the published bulletin' }, { status: 400 });
+      }
+    }
+
+    const slug = content.title ? await generateUniqueBulletinSlug(generateSlug(content.title), id) : undefined;
+
+    const { bulletin, revision } = await prisma.$transaction(async (tx) => {
+      await ensureBaselineRevision(tx, id);
+
+      if (storyIds) {
+        await tx.bulletinStory.deleteMany({ where: { bulletinId: id, storyId: { notIn: storyIds } } });
+        for (const [order, storyId] of storyIds.entries()) {
+          await tx.bulletinStory.update({
+            where: { bulletinId_storyId: { bulletinId: id, storyId } },
+            data: { order: order + 1 },
+          });
+        }
+      }
+
+      const bulletin = await tx.bulletin.update({
+        where: { id },
+        data: { ...content, ...(slug && { slug }), correctedAt: new Date() },
+        select: { id: true, title: true, correctedAt: true },
+      });
+
+      const revision = await recordBulletinRevision(tx, id, {
+        createdById: session.user.id,
+        correctionNote,
+      });
+
+      return { bulletin, revision: revision! };
+    });
+
+    const stationsNotified = await notifyStationsOfCorrection(bulletin, {
+      correctionNote,
+      createdAt: revision.createdAt,
+    }).catch((error) => {
+      console.error('Failed to notify stations of bulletin correction:', error);
+      return 0;
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'CORRECT_BULLETIN',
+        entityType: 'BULLETIN',
+        entityId: id,
+        metadata: {
+          revisionNumber: revision.revisionNumber,
+          correctionNote,
+          changedFields: [...Object.keys(content), ...(storyIds ? ['stories'] : [])],
+          stationsNotified,
+        },
+      },
+    });
+
+    publishBulletinEvent(
+      createEvent('bulletin:updated', 'bulletin', id, session.user.id, undefined, {
+        corrected: true,
+        revisionNumber: revision.revisionNumber,
+      })
+    ).catch(() => {});
+
+    return NextResponse.json(
+      {
+        bulletin,
+        revision: { id: revision.id, revisionNumber: revision.revisionNumber, createdAt: revision.createdAt },
+        stationsNotified,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error correcting bulletin:', error);
+    return NextResponse.json(
+      { error: 'Failed to correct bulletin' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { releaseWindowSchema } from '@/lib/validations';
+import { publishBulletinEvent, createEvent } from '@/lib/ably';
+
+// PUT /api/newsroom/bulletins/[id]/release - Set or clear a bulletin's embargo and exclusivity window
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userRole = session.user.staffRole;
+    if (!userRole || !['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = releaseWindowSchema.parse(body);
+
+    const bulletin = await prisma.bulletin.findUnique({ where: { id }, select: { id: true, title: true } });
+    if (!bulletin) {
+      return NextResponse.json({ error: 'Bulletin not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.bulletin.update({
+      where: { id },
+      data: {
+        embargoUntil: data.embargoUntil ? new Date(data.embargoUntil) : null,
+        exclusiveUntil: data.exclusiveUntil ? new Date(data.exclusiveUntil) : null,
+        exclusiveStationIds: data.exclusiveStationIds,
+        exclusiveProvinces: data.exclusiveProvinces,
+      },
+      select: {
+        id: true,
+        embargoUntil: true,
+        exclusiveUntil: true,
+        exclusiveStationIds: true,
+        exclusiveProvinces: true,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'SET_BULLETIN_RELEASE_WINDOW',
+        entityType: 'BULLETIN',
+        entityId: id,
+        metadata: { title: bulletin.title, ...data },
+      },
+    });
+
+    publishBulletinEvent(
+      createEvent('bulletin:updated', 'bulletin', id, session.user.id, { releaseWindow: true })
+    ).catch(() => {});
+
+    return NextResponse.json({ bulletin: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Validation error', details: error.errors }, { status: 400 });
+    }
+    console.error('Error setting bulletin release window:', error);
+    return NextResponse.json({ error: 'Failed to set release window' }, { status: 500 });
+  }
+}
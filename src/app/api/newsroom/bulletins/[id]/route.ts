@@ -5,12 +5,16 @@ import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { generateSlug, generateUniqueBulletinSlug } from '@/lib/slug-utils';
 import { publishBulletinEvent, createEvent } from '@/lib/ably';
+import { estimateBulletinDuration } from '@/lib/bulletin-duration';
+import { getReadingSpeeds } from '@/lib/reading-speeds';
+import { recordBulletinRevision } from '@/lib/bulletin-revisions';
+import { AUDIO_TRIM_SELECT, usageAudioClip } from '@/lib/audio-trim';
 
 const updateBulletinSchema = z.object({
   title: z.string().min(1, 'Title is required').optional(),
   intro: z.string().min(1, 'Introduction is required').optional(),
   outro: z.string().min(1, 'Outro is required').optional(),
-  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA']).optional(),
+  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA', 'ZULU']).optional(),
   scheduleId: z.string().nullable().optional(),
   scheduledFor: z.string().datetime().nullable().optional(),
   status: z.enum(['DRAFT', 'IN_REVIEW', 'NEEDS_REVISION', 'APPROVED', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED']).optional(),
@@ -97,6 +101,7 @@ export async function GET(
                 audioClips: {
                   select: {
                     id: true,
+                    ...AUDIO_TRIM_SELECT,
                     audioClip: {
                       select: {
                         id: true,
@@ -131,12 +136,26 @@ export async function GET(
         story: {
           ...bs.story,
           audioUrl: bs.story.audioClips?.[0]?.audioClip?.url || null,
-          audioClips: bs.story.audioClips?.map((sac: any) => sac.audioClip) || [],
+          audioClips: bs.story.audioClips?.map((sac: any) => usageAudioClip('story', sac)) || [],
         },
       })),
     };
 
-    return NextResponse.json({ bulletin: transformedBulletin });
+    // Estimated on-air length against the schedule's target
+    const speeds = await getReadingSpeeds();
+    const estimatedDuration = {
+      ...estimateBulletinDuration(
+        {
+          intro: bulletin.intro,
+          outro: bulletin.outro,
+          stories: transformedBulletin.bulletinStories.map(bs => bs.story),
+        },
+        speeds[bulletin.language]
+      ),
+      targetSeconds: bulletin.schedule?.targetDuration ?? null,
+    };
+
+    return NextResponse.json({ bulletin: { ...transformedBulletin, estimatedDuration } });
   } catch (error) {
     console.error('Error fetching bulletin:', error);
     return NextResponse.json(
@@ -205,6 +224,15 @@ export async function PATCH(
       return NextResponse.json({ error: 'Only editors can edit published bulletins' }, { status: 403 });
     }
 
+    // Stations may already have read it; changes go out as a correction with a note
+    const isContentChange = ['title', 'intro', 'outro'].some(field => field in validatedData);
+    if (existing.status === 'PUBLISHED' && isContentChange) {
+      return NextResponse.json(
+        { error: 'Published bulletins cannot be edited in place. Issue a correction instead.' },
+        { status: 400 }
+      );
+    }
+
     // Update slug if title changes using optimized single-query approach
     const updateData: any = { ...validatedData };
     if (validatedData.title) {
@@ -265,6 +293,11 @@ export async function PATCH(
       },
     });
 
+    // Keep a snapshot of what stations receive, so later corrections can be diffed
+    if (validatedData.status === 'PUBLISHED' && existing.status !== 'PUBLISHED') {
+      await recordBulletinRevision(prisma, bulletin.id, { createdById: session.user.id });
+    }
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
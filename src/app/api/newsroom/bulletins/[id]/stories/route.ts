@@ -4,6 +4,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { publishBulletinEvent, createEvent } from '@/lib/ably';
+import { AUDIO_TRIM_SELECT, usageAudioClip } from '@/lib/audio-trim';
 
 const updateStoriesSchema = z.object({
   stories: z.array(z.object({
@@ -125,6 +126,7 @@ export async function PATCH(
                 audioClips: {
                   select: {
                     id: true,
+                    ...AUDIO_TRIM_SELECT,
                     audioClip: {
                       select: {
                         id: true,
@@ -175,7 +177,7 @@ export async function PATCH(
         story: {
           ...bs.story,
           audioUrl: bs.story.audioClips?.[0]?.audioClip?.url || null,
-          audioClips: bs.story.audioClips?.map((sac: any) => sac.audioClip) || [],
+          audioClips: bs.story.audioClips?.map((sac: any) => usageAudioClip('story', sac)) || [],
         },
       })) || [],
     };
@@ -274,45 +276,34 @@ export async function POST(
       select: { order: true },
     });
 
-    // Add the story and auto-unflag it
-    const [bulletinStory] = await prisma.$transaction([
-      prisma.bulletinStory.create({
-        data: {
-          bulletinId: id,
-          storyId: storyId,
-          order: (maxOrder?.order || 0) + 1,
-        },
-        include: {
-          story: {
-            include: {
-              author: {
-                select: {
-                  id: true,
-                  firstName: true,
-                  lastName: true,
-                },
+    // Add the story; its bulletin flag stays, as later bulletins may still use the pick
+    const bulletinStory = await prisma.bulletinStory.create({
+      data: {
+        bulletinId: id,
+        storyId: storyId,
+        order: (maxOrder?.order || 0) + 1,
+      },
+      include: {
+        story: {
+          include: {
+            author: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
               },
-              category: {
-                select: {
-                  id: true,
-                  name: true,
-                  slug: true,
-                },
+            },
+            category: {
+              select: {
+                id: true,
+                name: true,
+                slug: true,
               },
             },
           },
         },
-      }),
-      // Auto-unflag: clear the bulletin flag once the story is used
-      prisma.story.update({
-        where: { id: storyId },
-        data: {
-          flaggedForBulletin: false,
-          flaggedForBulletinAt: null,
-          flaggedForBulletinById: null,
-        },
-      }),
-    ]);
+      },
+    });
 
     return NextResponse.json({ bulletinStory });
   } catch (error) {
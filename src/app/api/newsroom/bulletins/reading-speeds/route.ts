@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { readingSpeedsUpdateSchema } from '@/lib/validations';
+import { canConfigureBulletins } from '@/lib/permissions';
+import { getReadingSpeeds, saveReadingSpeeds } from '@/lib/reading-speeds';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/bulletins/reading-speeds - Words per minute used to estimate bulletin duration
+const listReadingSpeeds = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const speeds = await getReadingSpeeds();
+
+    return NextResponse.json({ speeds });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// PUT /api/newsroom/bulletins/reading-speeds - Set words per minute for one or more languages
+const updateReadingSpeeds = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canConfigureBulletins(user.staffRole)) {
+      return NextResponse.json({ error: 'Only editors can change reading speeds' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = readingSpeedsUpdateSchema.parse(body);
+
+    const speeds = await saveReadingSpeeds(data);
+
+    return NextResponse.json({ speeds });
+  },
+  [withErrorHandling, withAuth, withAudit('bulletin.reading_speeds.update')]
+);
+
+export { listReadingSpeeds as GET, updateReadingSpeeds as PUT };
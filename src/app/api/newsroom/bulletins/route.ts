@@ -5,12 +5,13 @@ import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
 import { generateSlug, generateUniqueBulletinSlug } from '@/lib/slug-utils';
 import { publishBulletinEvent, createEvent } from '@/lib/ably';
+import { findOrCreateBulletinCategory } from '@/lib/bulletin-generation';
 
 const createBulletinSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   intro: z.string().min(1, 'Introduction is required'),
   outro: z.string().min(1, 'Outro is required'),
-  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA']),
+  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA', 'ZULU']),
   scheduleId: z.string().optional(),
   scheduledFor: z.string().datetime().optional(),
   stories: z.array(z.object({
@@ -124,26 +125,8 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const validatedData = createBulletinSchema.parse(body);
 
-    // Get the News Bulletins category
-    let category = await prisma.category.findFirst({
-      where: {
-        slug: 'news-bulletins',
-      },
-    });
-
-    // Create the category if it doesn't exist
-    if (!category) {
-      category = await prisma.category.create({
-        data: {
-          name: 'News Bulletins',
-          slug: 'news-bulletins',
-          description: 'News bulletins for radio stations',
-          level: 1,
-          isParent: true,
-          isEditable: false,
-        },
-      });
-    }
+    // Get (or create) the News Bulletins category
+    const category = await findOrCreateBulletinCategory();
 
     // Generate unique slug with optimized single-query approach
     const baseSlug = generateSlug(validatedData.title);
@@ -7,9 +7,10 @@ import { z } from 'zod';
 const updateScheduleSchema = z.object({
   title: z.string().min(1, 'Title is required').optional(),
   time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)').optional(),
-  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA']).optional(),
+  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA', 'ZULU']).optional(),
   scheduleType: z.enum(['WEEKDAY', 'WEEKEND', 'PUBLIC_HOLIDAY']).optional(),
   isActive: z.boolean().optional(),
+  targetDuration: z.number().int().positive('Target length must be positive').nullable().optional(),
 });
 
 // PATCH /api/newsroom/bulletins/schedules/[id] - Update a bulletin schedule
@@ -3,13 +3,15 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { parseBulletinDay, resolveScheduleType } from '@/lib/bulletin-generation';
 
 const createScheduleSchema = z.object({
   title: z.string().min(1, 'Title is required'),
   time: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)'),
-  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA']),
+  language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA', 'ZULU']),
   scheduleType: z.enum(['WEEKDAY', 'WEEKEND', 'PUBLIC_HOLIDAY']),
   isActive: z.boolean().optional(),
+  targetDuration: z.number().int().positive('Target length must be positive').nullable().optional(),
 });
 
 // GET /api/newsroom/bulletins/schedules - Get all bulletin schedules
@@ -29,11 +31,23 @@ export async function GET(req: NextRequest) {
     const url = new URL(req.url);
     const scheduleType = url.searchParams.get('type');
     const isActive = url.searchParams.get('active');
+    const date = url.searchParams.get('date');
 
     const where: any = {};
     if (scheduleType) {
       where.scheduleType = scheduleType;
     }
+
+    // Only the slots that run on a given day (weekday, weekend or public holiday)
+    let day: Awaited<ReturnType<typeof resolveScheduleType>> | null = null;
+    if (date) {
+      const parsed = parseBulletinDay(date);
+      if (!parsed) {
+        return NextResponse.json({ error: 'date must be in YYYY-MM-DD format' }, { status: 400 });
+      }
+      day = await resolveScheduleType(parsed);
+      where.scheduleType = day.scheduleType;
+    }
     if (isActive !== null) {
       where.isActive = isActive === 'true';
     }
@@ -61,7 +75,7 @@ export async function GET(req: NextRequest) {
       ],
     });
 
-    return NextResponse.json({ schedules });
+    return NextResponse.json({ schedules, ...(day && { date, ...day }) });
   } catch (error) {
     console.error('Error fetching bulletin schedules:', error);
     return NextResponse.json(
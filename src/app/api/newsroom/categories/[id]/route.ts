@@ -24,6 +24,11 @@ const categoryUpdateSchema = z.object({
   descriptionAfrikaans: z.string().optional(),
   color: z.string().regex(/^#[0-9A-F]{6}$/i, 'Must be a valid hex color').optional(),
   parentId: z.string().nullable().optional(),
+  minWords: z.number().int().positive().nullable().optional(),
+  maxWords: z.number().int().positive().nullable().optional(),
+}).refine(data => !data.minWords || !data.maxWords || data.minWords <= data.maxWords, {
+  message: 'The minimum word count cannot be more than the maximum',
+  path: ['maxWords'],
 });
 
 // GET /api/newsroom/categories/[id] - Get single category
@@ -9,6 +9,7 @@ import {
   getApprovalQueueDetails,
   getWorkflowHealth,
   getTimeSensitiveStories,
+  getTranslationEffort,
 } from '@/lib/editorial-metrics';
 
 /**
@@ -39,6 +40,7 @@ export async function GET(_req: NextRequest) {
       approvalQueue,
       workflowHealth,
       timeSensitiveStories,
+      translationEffort,
     ] = await Promise.all([
       getPipelineMetrics(),
       getJournalistWorkload(),
@@ -47,6 +49,7 @@ export async function GET(_req: NextRequest) {
       getApprovalQueueDetails(),
       getWorkflowHealth(),
       getTimeSensitiveStories(),
+      getTranslationEffort(),
     ]);
 
     return NextResponse.json({
@@ -61,6 +64,7 @@ export async function GET(_req: NextRequest) {
       },
       workflowHealth,
       timeSensitiveStories,
+      translationEffort,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
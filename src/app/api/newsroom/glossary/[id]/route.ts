@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { glossaryTermUpdateSchema } from '@/lib/validations';
+import { canManageGlossary } from '@/lib/permissions';
+import { StaffRole } from '@prisma/client';
+
+// PATCH /api/newsroom/glossary/[id] - Update a term or its approved translation
+const updateGlossaryTerm = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageGlossary(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.glossaryTerm.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Glossary term not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = glossaryTermUpdateSchema.parse(body);
+
+    const term = data.term ?? existing.term;
+    const language = data.language ?? existing.language;
+    if (term !== existing.term || language !== existing.language) {
+      const duplicate = await prisma.glossaryTerm.findUnique({
+        where: { term_language: { term, language } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: 'This term is already in the glossary for that language' }, { status: 409 });
+      }
+    }
+
+    const updated = await prisma.glossaryTerm.update({ where: { id }, data });
+
+    return NextResponse.json({ term: updated });
+  },
+  [withErrorHandling, withAuth, withAudit('glossary.update')]
+);
+
+// DELETE /api/newsroom/glossary/[id]
+const deleteGlossaryTerm = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageGlossary(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.glossaryTerm.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Glossary term not found' }, { status: 404 });
+    }
+
+    await prisma.glossaryTerm.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Glossary term deleted' });
+  },
+  [withErrorHandling, withAuth, withAudit('glossary.delete')]
+);
+
+export { updateGlossaryTerm as PATCH, deleteGlossaryTerm as DELETE };
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { glossaryTermCreateSchema } from '@/lib/validations';
+import { canManageGlossary } from '@/lib/permissions';
+import { StaffRole, TranslationLanguage } from '@prisma/client';
+
+// GET /api/newsroom/glossary - List glossary terms, optionally for one language
+const listGlossaryTerms = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const language = req.nextUrl.searchParams.get('language');
+    if (language && !(language in TranslationLanguage)) {
+      return NextResponse.json({ error: 'Invalid language' }, { status: 400 });
+    }
+
+    const terms = await prisma.glossaryTerm.findMany({
+      where: language ? { language: language as TranslationLanguage } : undefined,
+      orderBy: [{ language: 'asc' }, { term: 'asc' }],
+    });
+
+    return NextResponse.json({ terms });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/glossary - Add an approved translation for a term
+const createGlossaryTerm = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageGlossary(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = glossaryTermCreateSchema.parse(body);
+
+    const existing = await prisma.glossaryTerm.findUnique({
+      where: { term_language: { term: data.term, language: data.language } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'This term is already in the glossary for that language' }, { status: 409 });
+    }
+
+    const term = await prisma.glossaryTerm.create({
+      data: { ...data, createdById: user.id },
+    });
+
+    return NextResponse.json({ term }, { status: 201 });
+  },
+  [withErrorHandling, withAuth, withAudit('glossary.create')]
+);
+
+export { listGlossaryTerms as GET, createGlossaryTerm as POST };
@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
 import { canManagePodcasts } from '@/lib/permissions';
-import { deleteAudioFile } from '@/lib/r2-storage';
+import { deleteAudioClipFiles } from '@/lib/r2-storage';
+import { audioUploadIdsSchema } from '@/lib/validations';
+import { finaliseAudioUploads } from '@/lib/audio-uploads';
 
 const MAX_AUDIO_CLIPS_PER_EPISODE = 5;
 
@@ -139,20 +141,11 @@ const uploadAudio = createHandler(
       return NextResponse.json({ episode: flattenPodcastEpisodeAudio(updatedEpisode), linked: links.filter(Boolean).length });
     }
 
-    // Mode 2: Confirm direct uploads
-    const { uploads } = body as {
-      uploads: Array<{
-        key: string;
-        publicUrl: string;
-        originalName: string;
-        fileSize: number;
-        mimeType: string;
-        duration?: number;
-      }>;
-    };
-
-    if (!Array.isArray(uploads) || uploads.length === 0) {
-      return NextResponse.json({ error: 'uploads array or audioClipIds is required' }, { status: 400 });
+    // Mode 2: Finalise direct uploads — the browser has already sent the files to R2
+    const { uploadIds } = body;
+
+    if (!Array.isArray(uploadIds) || uploadIds.length === 0) {
+      return NextResponse.json({ error: 'uploadIds or audioClipIds array is required' }, { status: 400 });
     }
 
     const remainingSlots = MAX_AUDIO_CLIPS_PER_EPISODE - existingClipCount;
@@ -163,36 +156,26 @@ const uploadAudio = createHandler(
       }, { status: 400 });
     }
 
-    if (uploads.length > remainingSlots) {
+    if (uploadIds.length > remainingSlots) {
       return NextResponse.json({
         error: `Can only upload ${remainingSlots} more audio clip${remainingSlots === 1 ? '' : 's'}. Episode already has ${existingClipCount} clip${existingClipCount === 1 ? '' : 's'}.`
       }, { status: 400 });
     }
 
-    const audioClips = [];
-
-    for (const upload of uploads) {
-      const audioClip = await prisma.audioClip.create({
-        data: {
-          filename: upload.key,
-          originalName: upload.originalName,
-          url: upload.publicUrl,
-          fileSize: upload.fileSize,
-          mimeType: upload.mimeType,
-          duration: upload.duration ?? null,
-          uploadedBy: user.id,
-          podcastEpisodes: {
-            create: {
-              episodeId,
-              addedBy: user.id,
-            },
-          },
-        },
-      });
-
-      audioClips.push(audioClip);
+    const result = await finaliseAudioUploads(audioUploadIdsSchema.parse(uploadIds), user.id);
+    if (!result.clipIds) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
+    await prisma.podcastEpisodeAudioClip.createMany({
+      data: result.clipIds.map(audioClipId => ({
+        episodeId,
+        audioClipId,
+        addedBy: user.id,
+      })),
+      skipDuplicates: true,
+    });
+
     await recalculatePodcastEpisodeDuration(episodeId);
 
     const updatedEpisode = await prisma.podcastEpisode.findUnique({
@@ -200,7 +183,7 @@ const uploadAudio = createHandler(
       include: episodeAudioInclude,
     });
 
-    return NextResponse.json({ episode: flattenPodcastEpisodeAudio(updatedEpisode), audioClips });
+    return NextResponse.json({ episode: flattenPodcastEpisodeAudio(updatedEpisode), audioClipIds: result.clipIds });
   },
   [withErrorHandling, withAuth, withAudit('podcast_episode.audio.upload')]
 );
@@ -239,6 +222,7 @@ const deleteAudio = createHandler(
       where: { id: audioClipId },
       select: {
         url: true,
+        originalUrl: true,
         _count: {
           select: {
             stories: true,
@@ -256,7 +240,7 @@ const deleteAudio = createHandler(
     // If clip has no other links, delete it entirely
     if (audioClip && audioClip._count.stories === 0 && audioClip._count.episodes === 0 && audioClip._count.podcastEpisodes <= 1) {
       try {
-        await deleteAudioFile(audioClip.url);
+        await deleteAudioClipFiles(audioClip);
       } catch (error) {
         console.error('Failed to delete audio file from R2:', error);
       }
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { pronunciationEntryUpdateSchema } from '@/lib/validations';
+import { canManagePronunciations } from '@/lib/permissions';
+import { StaffRole } from '@prisma/client';
+
+// PATCH /api/newsroom/pronunciations/[id] - Update a term or its pronunciation
+const updatePronunciation = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManagePronunciations(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.pronunciationEntry.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Pronunciation not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = pronunciationEntryUpdateSchema.parse(body);
+
+    if (data.term && data.term.toLowerCase() !== existing.term.toLowerCase()) {
+      const duplicate = await prisma.pronunciationEntry.findFirst({
+        where: { term: { equals: data.term, mode: 'insensitive' } },
+      });
+      if (duplicate) {
+        return NextResponse.json({ error: 'This term is already in the pronunciation dictionary' }, { status: 409 });
+      }
+    }
+
+    const updated = await prisma.pronunciationEntry.update({ where: { id }, data });
+
+    return NextResponse.json({ entry: updated });
+  },
+  [withErrorHandling, withAuth, withAudit('pronunciation.update')]
+);
+
+// DELETE /api/newsroom/pronunciations/[id]
+const deletePronunciation = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManagePronunciations(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.pronunciationEntry.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Pronunciation not found' }, { status: 404 });
+    }
+
+    await prisma.pronunciationEntry.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Pronunciation deleted' });
+  },
+  [withErrorHandling, withAuth, withAudit('pronunciation.delete')]
+);
+
+export { updatePronunciation as PATCH, deletePronunciation as DELETE };
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { pronunciationEntryCreateSchema } from '@/lib/validations';
+import { canManagePronunciations } from '@/lib/permissions';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/pronunciations - The pronunciation dictionary, optionally searched with ?q=
+const listPronunciations = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const query = req.nextUrl.searchParams.get('q')?.trim();
+
+    const entries = await prisma.pronunciationEntry.findMany({
+      where: query ? { term: { contains: query, mode: 'insensitive' } } : undefined,
+      orderBy: { term: 'asc' },
+    });
+
+    return NextResponse.json({ entries });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/pronunciations - Add a name or place to the dictionary
+const createPronunciation = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManagePronunciations(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = pronunciationEntryCreateSchema.parse(body);
+
+    const existing = await prisma.pronunciationEntry.findFirst({
+      where: { term: { equals: data.term, mode: 'insensitive' } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'This term is already in the pronunciation dictionary' }, { status: 409 });
+    }
+
+    const entry = await prisma.pronunciationEntry.create({
+      data: { ...data, createdById: user.id },
+    });
+
+    return NextResponse.json({ entry }, { status: 201 });
+  },
+  [withErrorHandling, withAuth, withAudit('pronunciation.create')]
+);
+
+export { listPronunciations as GET, createPronunciation as POST };
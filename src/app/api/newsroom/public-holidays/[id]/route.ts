@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { publicHolidayUpdateSchema } from '@/lib/validations';
+import { canManagePublicHolidays } from '@/lib/permissions';
+import { findPublicHoliday } from '@/lib/public-holidays';
+import { StaffRole } from '@prisma/client';
+
+// PATCH /api/newsroom/public-holidays/[id] - Rename or move an ad-hoc public holiday
+const updatePublicHoliday = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManagePublicHolidays(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.publicHoliday.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Public holiday not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const data = publicHolidayUpdateSchema.parse(body);
+
+    if (data.date && data.date !== existing.date.toISOString().slice(0, 10)) {
+      const duplicate = await findPublicHoliday(data.date);
+      if (duplicate) {
+        return NextResponse.json({ error: `${data.date} is already a public holiday (${duplicate.name})` }, { status: 409 });
+      }
+    }
+
+    const holiday = await prisma.publicHoliday.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.date !== undefined && { date: new Date(`${data.date}T00:00:00Z`) }),
+      },
+    });
+
+    return NextResponse.json({ holiday });
+  },
+  [withErrorHandling, withAuth, withAudit('public_holiday.update')]
+);
+
+// DELETE /api/newsroom/public-holidays/[id]
+const deletePublicHoliday = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManagePublicHolidays(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.publicHoliday.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Public holiday not found' }, { status: 404 });
+    }
+
+    await prisma.publicHoliday.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Public holiday deleted' });
+  },
+  [withErrorHandling, withAuth, withAudit('public_holiday.delete')]
+);
+
+export { updatePublicHoliday as PATCH, deletePublicHoliday as DELETE };
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { publicHolidayCreateSchema } from '@/lib/validations';
+import { canManagePublicHolidays } from '@/lib/permissions';
+import { findPublicHoliday, getPublicHolidays } from '@/lib/public-holidays';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/public-holidays - Statutory and admin-added holidays for a year
+const listPublicHolidays = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const yearParam = req.nextUrl.searchParams.get('year');
+    const year = yearParam ? Number(yearParam) : new Date().getUTCFullYear();
+    if (!Number.isInteger(year) || year < 1995 || year > 2100) {
+      return NextResponse.json({ error: 'Invalid year' }, { status: 400 });
+    }
+
+    const holidays = await getPublicHolidays(year);
+
+    return NextResponse.json({ year, holidays });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/public-holidays - Declare an ad-hoc public holiday
+const createPublicHoliday = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManagePublicHolidays(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = publicHolidayCreateSchema.parse(body);
+
+    const existing = await findPublicHoliday(data.date);
+    if (existing) {
+      return NextResponse.json({ error: `${data.date} is already a public holiday (${existing.name})` }, { status: 409 });
+    }
+
+    const holiday = await prisma.publicHoliday.create({
+      data: { date: new Date(`${data.date}T00:00:00Z`), name: data.name, createdById: user.id },
+    });
+
+    return NextResponse.json({ holiday }, { status: 201 });
+  },
+  [withErrorHandling, withAuth, withAudit('public_holiday.create')]
+);
+
+export { listPublicHolidays as GET, createPublicHoliday as POST };
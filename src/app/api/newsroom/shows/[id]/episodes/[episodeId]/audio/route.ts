@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import type { StaffRole } from '@prisma/client';
 import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
 import { canManageShows } from '@/lib/permissions';
-import { deleteAudioFile } from '@/lib/r2-storage';
+import { deleteAudioClipFiles } from '@/lib/r2-storage';
+import { audioTrimSchema, audioUploadIdsSchema } from '@/lib/validations';
+import { finaliseAudioUploads } from '@/lib/audio-uploads';
+import { AUDIO_TRIM_SELECT, trimOf, trimmedDuration, usageAudioClip, validateTrim } from '@/lib/audio-trim';
 
 // Maximum audio clips allowed per episode
 const MAX_AUDIO_CLIPS_PER_EPISODE = 5;
@@ -13,7 +17,7 @@ function flattenEpisodeAudio(episode: any) {
   if (!episode) return episode;
   return {
     ...episode,
-    audioClips: episode.audioClips?.map((eac: any) => eac.audioClip) || [],
+    audioClips: episode.audioClips?.map((eac: any) => usageAudioClip('episode', eac)) || [],
   };
 }
 
@@ -33,9 +37,11 @@ const episodeAudioInclude = {
           mimeType: true,
           title: true,
           tags: true,
+          waveform: true,
           createdAt: true,
         },
       },
+      ...AUDIO_TRIM_SELECT,
       createdAt: true,
     },
   },
@@ -53,9 +59,12 @@ const episodeAudioInclude = {
 async function recalculateEpisodeDuration(episodeId: string) {
   const links = await prisma.episodeAudioClip.findMany({
     where: { episodeId },
-    select: { audioClip: { select: { duration: true } } },
+    select: { ...AUDIO_TRIM_SELECT, audioClip: { select: { duration: true } } },
   });
-  const totalDuration = links.reduce((sum, link) => sum + (link.audioClip.duration ?? 0), 0);
+  const totalDuration = links.reduce(
+    (sum, link) => sum + Math.round(trimmedDuration(link.audioClip.duration ?? 0, trimOf(link))),
+    0
+  );
   await prisma.episode.update({
     where: { id: episodeId },
     data: { duration: totalDuration > 0 ? totalDuration : null },
@@ -155,20 +164,11 @@ const uploadAudio = createHandler(
       return NextResponse.json({ episode: flattenEpisodeAudio(updatedEpisode), linked: links.filter(Boolean).length });
     }
 
-    // Mode 2: Confirm direct uploads — client already uploaded to R2 via presigned URL
-    const { uploads } = body as {
-      uploads: Array<{
-        key: string;
-        publicUrl: string;
-        originalName: string;
-        fileSize: number;
-        mimeType: string;
-        duration?: number;
-      }>;
-    };
-
-    if (!Array.isArray(uploads) || uploads.length === 0) {
-      return NextResponse.json({ error: 'uploads array or audioClipIds is required' }, { status: 400 });
+    // Mode 2: Finalise direct uploads — the browser has already sent the files to R2
+    const { uploadIds } = body;
+
+    if (!Array.isArray(uploadIds) || uploadIds.length === 0) {
+      return NextResponse.json({ error: 'uploadIds or audioClipIds array is required' }, { status: 400 });
     }
 
     const remainingSlots = MAX_AUDIO_CLIPS_PER_EPISODE - existingClipCount;
@@ -179,36 +179,26 @@ const uploadAudio = createHandler(
       }, { status: 400 });
     }
 
-    if (uploads.length > remainingSlots) {
+    if (uploadIds.length > remainingSlots) {
       return NextResponse.json({
         error: `Can only upload ${remainingSlots} more audio clip${remainingSlots === 1 ? '' : 's'}. Episode already has ${existingClipCount} clip${existingClipCount === 1 ? '' : 's'}.`
       }, { status: 400 });
     }
 
-    const audioClips = [];
-
-    for (const upload of uploads) {
-      const audioClip = await prisma.audioClip.create({
-        data: {
-          filename: upload.key,
-          originalName: upload.originalName,
-          url: upload.publicUrl,
-          fileSize: upload.fileSize,
-          mimeType: upload.mimeType,
-          duration: upload.duration ?? null,
-          uploadedBy: user.id,
-          episodes: {
-            create: {
-              episodeId,
-              addedBy: user.id,
-            },
-          },
-        },
-      });
-
-      audioClips.push(audioClip);
+    const result = await finaliseAudioUploads(audioUploadIdsSchema.parse(uploadIds), user.id);
+    if (!result.clipIds) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
     }
 
+    await prisma.episodeAudioClip.createMany({
+      data: result.clipIds.map(audioClipId => ({
+        episodeId,
+        audioClipId,
+        addedBy: user.id,
+      })),
+      skipDuplicates: true,
+    });
+
     await recalculateEpisodeDuration(episodeId);
 
     const updatedEpisode = await prisma.episode.findUnique({
@@ -216,7 +206,7 @@ const uploadAudio = createHandler(
       include: episodeAudioInclude,
     });
 
-    return NextResponse.json({ episode: flattenEpisodeAudio(updatedEpisode), audioClips });
+    return NextResponse.json({ episode: flattenEpisodeAudio(updatedEpisode), audioClipIds: result.clipIds });
   },
   [withErrorHandling, withAuth, withAudit('episode.audio.upload')]
 );
@@ -257,6 +247,7 @@ const deleteAudio = createHandler(
       where: { id: audioClipId },
       select: {
         url: true,
+        originalUrl: true,
         _count: {
           select: {
             stories: true,
@@ -274,7 +265,7 @@ const deleteAudio = createHandler(
     // If clip has no other links, delete it entirely (storage + DB)
     if (audioClip && audioClip._count.stories === 0 && audioClip._count.episodes <= 1) {
       try {
-        await deleteAudioFile(audioClip.url);
+        await deleteAudioClipFiles(audioClip);
       } catch (error) {
         console.error('Failed to delete audio file from R2:', error);
       }
@@ -295,5 +286,61 @@ const deleteAudio = createHandler(
   [withErrorHandling, withAuth, withAudit('episode.audio.delete')]
 );
 
+// PATCH /api/newsroom/shows/[id]/episodes/[episodeId]/audio - Set the trim and fades for a clip in this episode
+const trimAudio = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { episodeId } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: string | null; isContentProducer: boolean } }).user;
+
+    if (!canManageShows(user.staffRole as StaffRole | null, user.isContentProducer)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const url = new URL(req.url);
+    const audioClipId = url.searchParams.get('audioClipId');
+
+    if (!audioClipId) {
+      return NextResponse.json({ error: 'Audio clip ID is required' }, { status: 400 });
+    }
+
+    const link = await prisma.episodeAudioClip.findUnique({
+      where: {
+        episodeId_audioClipId: {
+          episodeId,
+          audioClipId,
+        },
+      },
+      select: { id: true, audioClip: { select: { duration: true } } },
+    });
+
+    if (!link) {
+      return NextResponse.json({ error: 'Audio clip is not linked to this episode' }, { status: 404 });
+    }
+
+    const data = audioTrimSchema.parse(await req.json());
+    const trim = trimOf(data);
+    const problem = trim && validateTrim(trim, link.audioClip.duration);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    await prisma.episodeAudioClip.update({
+      where: { id: link.id },
+      data,
+    });
+
+    await recalculateEpisodeDuration(episodeId);
+
+    const updatedEpisode = await prisma.episode.findUnique({
+      where: { id: episodeId },
+      include: episodeAudioInclude,
+    });
+
+    return NextResponse.json({ episode: flattenEpisodeAudio(updatedEpisode) });
+  },
+  [withErrorHandling, withAuth, withAudit('episode.audio.trim')]
+);
+
 export const POST = uploadAudio;
+export const PATCH = trimAudio;
 export const DELETE = deleteAudio;
@@ -5,6 +5,7 @@ import { canManageShows } from '@/lib/permissions';
 import { z } from 'zod';
 import { generateSlug, generateUniqueEpisodeSlug } from '@/lib/slug-utils';
 import { publishEpisodeEvent, createEvent } from '@/lib/ably';
+import { usageAudioClip } from '@/lib/audio-trim';
 
 // Flatten episode audioClips from join-table format to flat AudioClip objects
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -12,7 +13,7 @@ function flattenEpisodeAudio(episode: any) {
   if (!episode) return episode;
   return {
     ...episode,
-    audioClips: episode.audioClips?.map((eac: any) => eac.audioClip) || [],
+    audioClips: episode.audioClips?.map((eac: any) => usageAudioClip('episode', eac)) || [],
   };
 }
 
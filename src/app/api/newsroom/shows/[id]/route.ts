@@ -4,6 +4,7 @@ import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api
 import { hasShowPermission, canEditShow, canDeleteShow } from '@/lib/permissions';
 import { z } from 'zod';
 import { publishShowEvent, createEvent } from '@/lib/ably';
+import { usageAudioClip } from '@/lib/audio-trim';
 
 // Flatten episode audioClips from join-table format to flat AudioClip objects
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -11,7 +12,7 @@ function flattenEpisodeAudio(episode: any) {
   if (!episode) return episode;
   return {
     ...episode,
-    audioClips: episode.audioClips?.map((eac: any) => eac.audioClip) || [],
+    audioClips: episode.audioClips?.map((eac: any) => usageAudioClip('episode', eac)) || [],
   };
 }
 
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/stations - Active stations to pick from when targeting content
+const listStations = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const stations = await prisma.station.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, province: true },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({ stations });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { listStations as GET };
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
-import { saveUploadedFile, validateAudioFile } from '@/lib/file-upload';
+import { audioTrimSchema, audioUploadIdsSchema } from '@/lib/validations';
+import { finaliseAudioUploads } from '@/lib/audio-uploads';
+import { AUDIO_TRIM_SELECT, trimOf, validateTrim } from '@/lib/audio-trim';
 
 // Helper function to check if user can edit story
 async function canEditStory(userId: string, userRole: string | null, storyId: string) {
@@ -32,7 +34,7 @@ async function canEditStory(userId: string, userRole: string | null, storyId: st
   return false;
 }
 
-// POST /api/newsroom/stories/[id]/audio - Upload new audio or link existing clips
+// POST /api/newsroom/stories/[id]/audio - Link existing clips or finalise direct uploads
 const addAudioClip = createHandler(
   async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
     const { id: storyId } = await params;
@@ -52,115 +54,72 @@ const addAudioClip = createHandler(
       return NextResponse.json({ error: 'Story not found' }, { status: 404 });
     }
 
-    const contentType = req.headers.get('content-type') || '';
+    const body = await req.json();
+    let audioClipIds = body.audioClipIds;
 
-    // Mode 1: Link existing clips (JSON body with audioClipIds)
-    if (contentType.includes('application/json')) {
-      const body = await req.json();
-      const { audioClipIds } = body;
-
-      if (!audioClipIds || !Array.isArray(audioClipIds) || audioClipIds.length === 0) {
-        return NextResponse.json({ error: 'audioClipIds array is required' }, { status: 400 });
-      }
-
-      // Verify all clips exist
-      const clips = await prisma.audioClip.findMany({
-        where: { id: { in: audioClipIds } },
-        select: { id: true },
+    // Direct uploads: the browser has already sent the files to R2, so
+    // complete them into library clips (sourced from this story) and link those
+    if (body.uploadIds) {
+      const result = await finaliseAudioUploads(audioUploadIdsSchema.parse(body.uploadIds), user.id, {
+        sourceStoryId: storyId,
       });
-
-      if (clips.length !== audioClipIds.length) {
-        return NextResponse.json({ error: 'Some audio clips not found' }, { status: 404 });
+      if (!result.clipIds) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
       }
-
-      // Create links, skipping duplicates
-      const links = await Promise.all(
-        audioClipIds.map(async (clipId: string) => {
-          try {
-            return await prisma.storyAudioClip.create({
-              data: {
-                storyId,
-                audioClipId: clipId,
-                addedBy: user.id,
-              },
-              include: {
-                audioClip: {
-                  select: {
-                    id: true,
-                    filename: true,
-                    originalName: true,
-                    url: true,
-                    duration: true,
-                    fileSize: true,
-                    mimeType: true,
-                    title: true,
-                    tags: true,
-                    createdAt: true,
-                  },
-                },
-              },
-            });
-          } catch {
-            // Skip duplicates (unique constraint violation)
-            return null;
-          }
-        })
-      );
-
-      return NextResponse.json({
-        linked: links.filter(Boolean),
-      }, { status: 201 });
-    }
-
-    // Mode 2: Upload new file (FormData)
-    const formData = await req.formData();
-    const audioFile = formData.get('audioFile') as File;
-    const title = (formData.get('title') as string) || null;
-
-    if (!audioFile) {
-      return NextResponse.json({ error: 'No audio file provided' }, { status: 400 });
+      audioClipIds = result.clipIds;
     }
 
-    const validation = validateAudioFile(audioFile);
-    if (!validation.valid) {
-      return NextResponse.json({ error: validation.error }, { status: 400 });
+    if (!audioClipIds || !Array.isArray(audioClipIds) || audioClipIds.length === 0) {
+      return NextResponse.json({ error: 'audioClipIds or uploadIds array is required' }, { status: 400 });
     }
 
-    const uploadedFile = await saveUploadedFile(audioFile);
-
-    // Create AudioClip in library with sourceStoryId, then link to story
-    const audioClip = await prisma.audioClip.create({
-      data: {
-        filename: uploadedFile.filename,
-        originalName: uploadedFile.originalName,
-        url: uploadedFile.url,
-        fileSize: uploadedFile.size,
-        mimeType: uploadedFile.mimeType,
-        duration: uploadedFile.duration,
-        uploadedBy: user.id,
-        sourceStoryId: storyId,
-        title,
-        stories: {
-          create: {
-            storyId,
-            addedBy: user.id,
-          },
-        },
-      },
-      select: {
-        id: true,
-        filename: true,
-        originalName: true,
-        url: true,
-        duration: true,
-        fileSize: true,
-        mimeType: true,
-        title: true,
-        createdAt: true,
-      },
+    // Verify all clips exist
+    const clips = await prisma.audioClip.findMany({
+      where: { id: { in: audioClipIds } },
+      select: { id: true },
     });
 
-    return NextResponse.json(audioClip, { status: 201 });
+    if (clips.length !== audioClipIds.length) {
+      return NextResponse.json({ error: 'Some audio clips not found' }, { status: 404 });
+    }
+
+    // Create links, skipping duplicates
+    const links = await Promise.all(
+      audioClipIds.map(async (clipId: string) => {
+        try {
+          return await prisma.storyAudioClip.create({
+            data: {
+              storyId,
+              audioClipId: clipId,
+              addedBy: user.id,
+            },
+            include: {
+              audioClip: {
+                select: {
+                  id: true,
+                  filename: true,
+                  originalName: true,
+                  url: true,
+                  duration: true,
+                  fileSize: true,
+                  mimeType: true,
+                  title: true,
+                  tags: true,
+                  createdAt: true,
+                },
+              },
+            },
+          });
+        } catch {
+          // Skip duplicates (unique constraint violation)
+          return null;
+        }
+      })
+    );
+
+    return NextResponse.json({
+      linked: links.filter(Boolean),
+    }, { status: 201 });
   },
   [withErrorHandling, withAuth, withAudit('audio.create')]
 );
@@ -207,4 +166,54 @@ const removeAudioClip = createHandler(
   [withErrorHandling, withAuth, withAudit('audio.unlink')]
 );
 
-export { addAudioClip as POST, removeAudioClip as DELETE };
+// PATCH /api/newsroom/stories/[id]/audio - Set the trim and fades for a clip in this story
+const trimAudioClip = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id: storyId } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: string | null } }).user;
+
+    const canEdit = await canEditStory(user.id, user.staffRole, storyId);
+    if (!canEdit) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const url = new URL(req.url);
+    const audioClipId = url.searchParams.get('clipId');
+
+    if (!audioClipId) {
+      return NextResponse.json({ error: 'Audio clip ID is required' }, { status: 400 });
+    }
+
+    const link = await prisma.storyAudioClip.findUnique({
+      where: {
+        storyId_audioClipId: {
+          storyId,
+          audioClipId,
+        },
+      },
+      select: { id: true, audioClip: { select: { duration: true } } },
+    });
+
+    if (!link) {
+      return NextResponse.json({ error: 'Audio clip is not linked to this story' }, { status: 404 });
+    }
+
+    const data = audioTrimSchema.parse(await req.json());
+    const trim = trimOf(data);
+    const problem = trim && validateTrim(trim, link.audioClip.duration);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const updated = await prisma.storyAudioClip.update({
+      where: { id: link.id },
+      data,
+      select: { id: true, ...AUDIO_TRIM_SELECT },
+    });
+
+    return NextResponse.json(updated);
+  },
+  [withErrorHandling, withAuth, withAudit('audio.trim')]
+);
+
+export { addAudioClip as POST, trimAudioClip as PATCH, removeAudioClip as DELETE };
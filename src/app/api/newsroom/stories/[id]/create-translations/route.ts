@@ -4,10 +4,14 @@ import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api
 import { z } from 'zod';
 import { ClassificationType } from '@prisma/client';
 import { generateSlug, generateUniqueStorySlug } from '@/lib/slug-utils';
+import { withLegacyStatus } from '@/lib/story-stage';
+import { LANGUAGE_DISPLAY_NAMES, TRANSLATION_LANGUAGES } from '@/lib/language-utils';
+import { currentSourceVersion } from '@/lib/translation-source';
+import { draftTranslation, getTranslationProvider } from '@/lib/translation-provider';
 
 const translationRequestSchema = z.object({
   translations: z.array(z.object({
-    language: z.enum(['AFRIKAANS', 'XHOSA']), // Only support languages defined in StoryLanguage enum
+    language: z.enum(TRANSLATION_LANGUAGES),
     assignedToId: z.string()
   }))
 });
@@ -61,10 +65,23 @@ const createTranslations = createHandler(
       );
     }
 
+    // Translators must come from the pool for the language they are assigned
+    const translators = await prisma.user.findMany({
+      where: { id: { in: translations.map(t => t.assignedToId) }, isActive: true },
+      select: { id: true, translationLanguage: true },
+    });
+    const translatorLanguages = new Map(translators.map(t => [t.id, t.translationLanguage]));
+    for (const translation of translations) {
+      if (translatorLanguages.get(translation.assignedToId) !== translation.language) {
+        return NextResponse.json(
+          { error: `Translator must have ${LANGUAGE_DISPLAY_NAMES[translation.language]} translation language` },
+          { status: 400 }
+        );
+      }
+    }
+
     // Pre-fetch all needed language classifications in a single query (fixes N+1)
-    const targetLanguageNames = translations.map(t =>
-      t.language.charAt(0) + t.language.slice(1).toLowerCase()
-    );
+    const targetLanguageNames = translations.map(t => LANGUAGE_DISPLAY_NAMES[t.language]);
     const languageClassifications = await prisma.classification.findMany({
       where: {
         type: ClassificationType.LANGUAGE,
@@ -83,6 +100,12 @@ const createTranslations = createHandler(
         classification: { connect: { id: sc.classificationId } }
       }));
 
+    // Record which version of the original the translations start from
+    const sourceVersionNumber = await currentSourceVersion(prisma, originalStory.id);
+
+    // Machine drafts for translators to post-edit, when a provider is configured
+    const provider = getTranslationProvider();
+
     // Create translations
     const createdTranslations = [];
 
@@ -93,27 +116,33 @@ const createTranslations = createHandler(
 
       // Build classification connections with target language
       const classificationConnections = [...baseClassificationConnections];
-      const langName = translation.language.charAt(0) + translation.language.slice(1).toLowerCase();
-      const languageClassification = langClassMap.get(langName);
+      const languageClassification = langClassMap.get(LANGUAGE_DISPLAY_NAMES[translation.language]);
       if (languageClassification) {
         classificationConnections.push({
           classification: { connect: { id: languageClassification.id } }
         });
       }
 
+      const draft = await draftTranslation(provider, {
+        title: originalStory.title,
+        content: originalStory.content,
+        targetLanguage: translation.language,
+      });
+
       // Create translation story
       const translationStory = await prisma.story.create({
         data: {
-          title: originalStory.title, // Keep same title initially - translator can change
-          content: '', // Empty content for translator to fill
+          // Without a draft keep the same title initially and leave content for the translator to fill
+          title: draft?.title ?? originalStory.title,
+          content: draft?.content ?? '',
           slug,
           isTranslation: true,
           originalStoryId: originalStory.id,
+          sourceVersionNumber,
           language: translation.language,
           authorId: translation.assignedToId,
           categoryId: originalStory.categoryId,
-          stage: 'DRAFT',
-          status: 'DRAFT',
+          ...withLegacyStatus('DRAFT'),
           // Link same audio clips from original story (shared references, not copies)
           audioClips: {
             create: originalStory.audioClips.map(link => ({
@@ -128,7 +157,13 @@ const createTranslations = createHandler(
           // Copy classifications (with language replacement)
           classifications: {
             create: classificationConnections
-          }
+          },
+          // Keep the draft as provided so post-editing effort can be measured
+          ...(draft && {
+            translationDraft: {
+              create: { provider: provider.name, title: draft.title, content: draft.content }
+            }
+          })
         },
         include: {
           author: {
@@ -171,6 +206,12 @@ const createTranslations = createHandler(
                 },
               },
             },
+          },
+          translationDraft: {
+            select: {
+              provider: true,
+              createdAt: true
+            }
           }
         }
       });
@@ -2,9 +2,28 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
 import { canFlagStoryForBulletin } from '@/lib/permissions';
+import { bulletinFlagSchema } from '@/lib/validations';
+import { bulletinDayOf, formatBulletinDay, parseBulletinDay, bulletinDayDate } from '@/lib/bulletin-generation';
+import { flagSpanDays, getStoryBulletinFlags, MAX_FLAG_DAYS, syncStoryFlagState } from '@/lib/bulletin-flags';
 import { StaffRole } from '@prisma/client';
 
-// POST /api/newsroom/stories/[id]/flag - Toggle bulletin flag on a story
+// GET /api/newsroom/stories/[id]/flag - Bulletin pick history for a story
+const getBulletinFlags = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+
+    const story = await prisma.story.findUnique({ where: { id }, select: { id: true } });
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    const flags = await getStoryBulletinFlags(id);
+    return NextResponse.json({ flags });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/stories/[id]/flag - Flag a story for bulletins, or withdraw its picks
 const toggleBulletinFlag = createHandler(
   async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
     const { id } = await params;
@@ -12,14 +31,13 @@ const toggleBulletinFlag = createHandler(
 
     // Parse request body
     const body = await req.json();
-    const { flagged } = body;
-
-    if (typeof flagged !== 'boolean') {
+    if (typeof body?.flagged !== 'boolean') {
       return NextResponse.json(
         { error: 'flagged field must be a boolean' },
         { status: 400 }
       );
     }
+    const { flagged, scheduleId, startDate, endDate, flagId } = bulletinFlagSchema.parse(body);
 
     // Check permission
     if (!canFlagStoryForBulletin(user.staffRole as StaffRole)) {
@@ -35,7 +53,7 @@ const toggleBulletinFlag = createHandler(
       select: {
         id: true,
         title: true,
-        flaggedForBulletin: true,
+        language: true,
       },
     });
 
@@ -43,14 +61,78 @@ const toggleBulletinFlag = createHandler(
       return NextResponse.json({ error: 'Story not found' }, { status: 404 });
     }
 
-    // Update the flag
-    const updatedStory = await prisma.story.update({
+    const todayDay = bulletinDayOf();
+    const today = formatBulletinDay(todayDay);
+    let metadata: Record<string, string | number | null>;
+
+    if (flagged) {
+      const firstDay = startDate ?? today;
+      const lastDay = endDate ?? firstDay;
+      const first = parseBulletinDay(firstDay);
+      const last = parseBulletinDay(lastDay);
+
+      if (!first || !last) {
+        return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+      }
+      if (firstDay < today) {
+        return NextResponse.json({ error: 'Picks cannot start in the past' }, { status: 400 });
+      }
+      // The schema only compares the days when both are sent; an end day on
+      // its own can still fall before the default first day
+      if (lastDay < firstDay) {
+        return NextResponse.json({ error: 'The last day cannot be before the first' }, { status: 400 });
+      }
+      if (flagSpanDays(firstDay, lastDay) > MAX_FLAG_DAYS) {
+        return NextResponse.json(
+          { error: `A pick can cover at most ${MAX_FLAG_DAYS} days` },
+          { status: 400 }
+        );
+      }
+
+      // A slot pick takes the slot's language; otherwise the story's own
+      let language = story.language;
+      if (scheduleId) {
+        const schedule = await prisma.bulletinSchedule.findUnique({
+          where: { id: scheduleId },
+          select: { language: true },
+        });
+        if (!schedule) {
+          return NextResponse.json({ error: 'Schedule not found' }, { status: 404 });
+        }
+        language = schedule.language;
+      }
+
+      const flag = await prisma.bulletinFlag.create({
+        data: {
+          storyId: id,
+          language,
+          startDate: bulletinDayDate(first),
+          endDate: bulletinDayDate(last),
+          scheduleId: scheduleId ?? null,
+          flaggedById: user.id,
+        },
+      });
+      metadata = { flagId: flag.id, language, startDate: firstDay, endDate: lastDay, scheduleId: scheduleId ?? null };
+    } else {
+      // Withdraw the given pick, or every pick that is still current or upcoming
+      const removed = await prisma.bulletinFlag.updateMany({
+        where: {
+          storyId: id,
+          removedAt: null,
+          ...(flagId ? { id: flagId } : { endDate: { gte: bulletinDayDate(todayDay) } }),
+        },
+        data: { removedAt: new Date(), removedById: user.id },
+      });
+      if (flagId && removed.count === 0) {
+        return NextResponse.json({ error: 'Pick not found' }, { status: 404 });
+      }
+      metadata = { flagId: flagId ?? null, removedCount: removed.count };
+    }
+
+    await syncStoryFlagState([id]);
+
+    const updatedStory = await prisma.story.findUnique({
       where: { id },
-      data: {
-        flaggedForBulletin: flagged,
-        flaggedForBulletinAt: flagged ? new Date() : null,
-        flaggedForBulletinById: flagged ? user.id : null,
-      },
       select: {
         id: true,
         flaggedForBulletin: true,
@@ -75,6 +157,7 @@ const toggleBulletinFlag = createHandler(
         metadata: {
           storyTitle: story.title,
           flagged,
+          ...metadata,
         },
       },
     });
@@ -84,4 +167,4 @@ const toggleBulletinFlag = createHandler(
   [withErrorHandling, withAuth]
 );
 
-export { toggleBulletinFlag as POST };
+export { getBulletinFlags as GET, toggleBulletinFlag as POST };
@@ -5,6 +5,13 @@ import { prisma } from '@/lib/prisma';
 import { authOptions } from '@/lib/auth';
 import { logAudit } from '@/lib/audit';
 import { canPublishStory, canUpdateStoryStage } from '@/lib/permissions';
+import { getStoryWorkflow } from '@/lib/workflow-resolver';
+import { findTransition } from '@/lib/workflow';
+import { findStyleErrors, findTransitionBlock } from '@/lib/transition-gates';
+import { ensureBaselineVersion, recordStoryVersion } from '@/lib/story-versions';
+import { withLegacyStatus } from '@/lib/story-stage';
+import { recordTranslationMemory } from '@/lib/translation-memory';
+import { staleTranslationMessage } from '@/lib/translation-source';
 
 const publishSchema = z.object({
   followUpDate: z.string().optional().transform((str, ctx) => {
@@ -42,10 +49,8 @@ const publishSchema = z.object({
   }),
   publishImmediately: z.boolean().default(true),
   
-  // Pre-publish checklist items (for logging/audit purposes)
-  contentReviewed: z.boolean().default(false),
-  translationsVerified: z.boolean().default(false),
-  audioQualityChecked: z.boolean().default(false),
+  // The workflow's publish checklist, by item id
+  checklistData: z.record(z.boolean()).optional(),
 });
 
 export async function POST(
@@ -79,6 +84,9 @@ export async function POST(
             audioClip: true,
           },
         },
+        storyGroup: {
+          select: { id: true, name: true, publishTogether: true, publishedAt: true },
+        },
       }
     });
 
@@ -93,13 +101,35 @@ export async function POST(
       }, { status: 400 });
     }
 
-    // Verify user has permission to publish
-    if (!canUpdateStoryStage(userRole, story.stage, 'PUBLISHED')) {
+    // Stories in a publish-together group are released with the group
+    if (story.storyGroup?.publishTogether && !story.storyGroup.publishedAt) {
+      return NextResponse.json({
+        error: `Story belongs to the story group "${story.storyGroup.name}" and must be published with the group`,
+        storyGroupId: story.storyGroup.id,
+      }, { status: 400 });
+    }
+
+    // Verify user has permission to publish under the story's workflow
+    const workflow = await getStoryWorkflow(story);
+    if (!canUpdateStoryStage(userRole, story.stage, 'PUBLISHED', workflow)) {
       return NextResponse.json({
         error: `Insufficient permissions to publish story`
       }, { status: 403 });
     }
 
+    // Publishing and scheduling both go through the workflow's publish step,
+    // so its checklist and house-style check apply here too
+    const publishTransition = findTransition(workflow, 'publish_story', story.stage, story.author.staffRole);
+    if (!publishTransition) {
+      return NextResponse.json({
+        error: `The ${workflow.name} workflow has no publish step for this story`
+      }, { status: 400 });
+    }
+    const block = await findTransitionBlock(publishTransition, validatedData.checklistData, story);
+    if (block) {
+      return NextResponse.json(block, { status: 400 });
+    }
+
     // Check that ALL translations are ready (APPROVED or TRANSLATED stage)
     // Stories must be published together with all their translations
     const allTranslations = await prisma.story.findMany({
@@ -111,7 +141,8 @@ export async function POST(
         id: true,
         title: true,
         language: true,
-        stage: true
+        stage: true,
+        sourceChangedAt: true
       }
     });
 
@@ -128,6 +159,21 @@ export async function POST(
       }, { status: 400 });
     }
 
+    // Translations must be brought up to date with later edits to the original
+    const staleTranslations = allTranslations.filter(t => t.sourceChangedAt);
+    if (staleTranslations.length > 0) {
+      return NextResponse.json({
+        error: staleTranslationMessage(staleTranslations),
+        staleTranslations: staleTranslations.map(t => ({ id: t.id, title: t.title, language: t.language })),
+      }, { status: 400 });
+    }
+
+    if (workflow.requiresTranslation && !story.isTranslation && allTranslations.length === 0) {
+      return NextResponse.json({
+        error: `The ${workflow.name} workflow requires stories to be translated before publishing`
+      }, { status: 400 });
+    }
+
     // Determine publish date
     let publishDate: Date;
     if (validatedData.publishImmediately) {
@@ -146,9 +192,10 @@ export async function POST(
     const updateData: any = {
       // Only change stage to PUBLISHED if publishing immediately
       // For scheduled publishing, keep current TRANSLATED stage
-      ...(validatedData.publishImmediately && { stage: 'PUBLISHED', status: 'PUBLISHED' }),
+      ...(validatedData.publishImmediately && withLegacyStatus('PUBLISHED')),
       publishedAt: validatedData.publishImmediately ? publishDate : null,
       publishedBy: session.user.id,
+      translationChecklist: validatedData.checklistData || {},
       followUpNote: validatedData.followUpNote || null,
       updatedAt: new Date(),
       // Store scheduled publish date for future reference
@@ -164,6 +211,8 @@ export async function POST(
 
     // Use transaction to ensure story and translation updates happen atomically
     const result = await prisma.$transaction(async (tx) => {
+      await ensureBaselineVersion(tx, id);
+
       // Update story status and metadata
       const updatedStory = await tx.story.update({
         where: { id },
@@ -175,6 +224,9 @@ export async function POST(
         }
       });
 
+      // Scheduling leaves title, content and stage unchanged, so no version is written for it
+      await recordStoryVersion(tx, id, { changeType: 'STAGE_CHANGE', changedById: session.user.id });
+
       // Mark all approved/translated translation stories as published if publishing immediately
       if (validatedData.publishImmediately) {
         await tx.story.updateMany({
@@ -186,8 +238,7 @@ export async function POST(
             }
           },
           data: {
-            stage: 'PUBLISHED',
-            status: 'PUBLISHED',
+            ...withLegacyStatus('PUBLISHED'),
             publishedAt: new Date(),
             publishedBy: session.user.id,
           }
@@ -197,11 +248,14 @@ export async function POST(
       return updatedStory;
     });
 
+    // Published translations feed translation memory (non-blocking)
+    if (validatedData.publishImmediately) {
+      recordTranslationMemory([id]).catch((error) => console.error('Failed to record translation memory:', error));
+    }
+
     // Log audit trails after successful transaction
-    // If scheduled for later, store the scheduled date
+    // Scheduled stories are picked up by /api/cron/publish-scheduled-stories
     if (!validatedData.publishImmediately && validatedData.scheduledPublishAt) {
-      // In a real implementation, you might use a job queue like Bull or a cron job
-      // For now, we'll just log it for manual handling
       await logAudit({
         userId: session.user.id,
         action: 'SCHEDULE_PUBLISH',
@@ -211,11 +265,7 @@ export async function POST(
           scheduledFor: validatedData.scheduledPublishAt,
           followUpDate: validatedData.followUpDate || null,
           followUpNote: validatedData.followUpNote || null,
-          checklist: {
-            contentReviewed: validatedData.contentReviewed,
-            translationsVerified: validatedData.translationsVerified,
-            audioQualityChecked: validatedData.audioQualityChecked,
-          },
+          checklist: validatedData.checklistData || {},
         },
         ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
         userAgent: request.headers.get('user-agent') || 'unknown',
@@ -253,11 +303,7 @@ export async function POST(
         publishDate: publishDate,
         followUpDate: validatedData.followUpDate || null,
         translationsCount,
-        checklist: {
-          contentReviewed: validatedData.contentReviewed,
-          translationsVerified: validatedData.translationsVerified,
-          audioQualityChecked: validatedData.audioQualityChecked,
-        },
+        checklist: validatedData.checklistData || {},
       },
       ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
       userAgent: request.headers.get('user-agent') || 'unknown',
@@ -294,6 +340,168 @@ export async function POST(
   }
 }
 
+const rescheduleSchema = z.object({
+  scheduledPublishAt: publishSchema.shape.scheduledPublishAt,
+});
+
+/**
+ * PATCH /api/newsroom/stories/[id]/publish
+ * Reschedule a story that is already scheduled for publishing
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<Record<string, string>> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userRole = session.user.staffRole ?? null;
+    if (!canPublishStory(userRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const validatedData = rescheduleSchema.parse(body);
+
+    if (!validatedData.scheduledPublishAt) {
+      return NextResponse.json({ error: 'Scheduled publish date is required' }, { status: 400 });
+    }
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: { id: true, title: true, stage: true, scheduledPublishAt: true },
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (story.stage !== 'TRANSLATED' || !story.scheduledPublishAt) {
+      return NextResponse.json({ error: 'Story is not scheduled for publishing' }, { status: 400 });
+    }
+
+    const updatedStory = await prisma.story.update({
+      where: { id },
+      data: {
+        scheduledPublishAt: validatedData.scheduledPublishAt,
+        publishedBy: session.user.id,
+      },
+      select: { id: true, stage: true, scheduledPublishAt: true },
+    });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'RESCHEDULE_PUBLISH',
+      details: {
+        entityType: 'STORY',
+        entityId: id,
+        storyTitle: story.title,
+        previousScheduledFor: story.scheduledPublishAt,
+        scheduledFor: validatedData.scheduledPublishAt,
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      targetId: id,
+      targetType: 'STORY'
+    });
+
+    return NextResponse.json({
+      message: 'Story rescheduled',
+      story: updatedStory,
+    });
+
+  } catch (error: unknown) {
+    console.error('Error rescheduling story:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Failed to reschedule story';
+    return NextResponse.json({
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/newsroom/stories/[id]/publish
+ * Cancel scheduled publishing. The story stays in TRANSLATED stage.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<Record<string, string>> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const userRole = session.user.staffRole ?? null;
+    if (!canPublishStory(userRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: { id: true, title: true, stage: true, scheduledPublishAt: true },
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (story.stage !== 'TRANSLATED' || !story.scheduledPublishAt) {
+      return NextResponse.json({ error: 'Story is not scheduled for publishing' }, { status: 400 });
+    }
+
+    const updatedStory = await prisma.story.update({
+      where: { id },
+      data: {
+        scheduledPublishAt: null,
+        publishedBy: null,
+      },
+      select: { id: true, stage: true, scheduledPublishAt: true },
+    });
+
+    await logAudit({
+      userId: session.user.id,
+      action: 'CANCEL_SCHEDULED_PUBLISH',
+      details: {
+        entityType: 'STORY',
+        entityId: id,
+        storyTitle: story.title,
+        previousScheduledFor: story.scheduledPublishAt,
+      },
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      targetId: id,
+      targetType: 'STORY'
+    });
+
+    return NextResponse.json({
+      message: 'Scheduled publishing cancelled',
+      story: updatedStory,
+    });
+
+  } catch (error: unknown) {
+    console.error('Error cancelling scheduled publish:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Failed to cancel scheduled publishing';
+    return NextResponse.json({
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
 /**
  * GET /api/newsroom/stories/[id]/publish
  * Check if story can be published based on stage, permissions, and requirements
@@ -312,6 +520,7 @@ export async function GET(
     const story = await prisma.story.findUnique({
       where: { id },
       include: {
+        author: { select: { staffRole: true } },
         category: true,
         audioClips: {
           select: {
@@ -334,7 +543,8 @@ export async function GET(
       select: {
         id: true,
         language: true,
-        stage: true
+        stage: true,
+        sourceChangedAt: true
       }
     });
 
@@ -346,27 +556,39 @@ export async function GET(
       t => !t.stage || !['APPROVED', 'TRANSLATED', 'PUBLISHED'].includes(t.stage)
     );
     const allTranslationsReady = notReadyTranslations.length === 0;
+    const staleTranslations = allTranslations.filter(t => t.sourceChangedAt);
+    const translationsUpToDate = staleTranslations.length === 0;
 
     const userRole = session.user.staffRole ?? null;
     const canPublish = canPublishStory(userRole);
     const isTranslatedStage = story.stage === 'TRANSLATED';
-    const canChangeStage = canUpdateStoryStage(userRole, story.stage, 'PUBLISHED');
+    const workflow = await getStoryWorkflow(story);
+    const canChangeStage = canUpdateStoryStage(userRole, story.stage, 'PUBLISHED', workflow);
     const hasCategory = !!story.categoryId;
+    const hasRequiredTranslations = !workflow.requiresTranslation || story.isTranslation || translationsCount > 0;
+    const publishTransition = findTransition(workflow, 'publish_story', 'TRANSLATED', story.author?.staffRole ?? null);
+    const styleErrors = publishTransition?.requireStyleCheck ? await findStyleErrors(story) : [];
+    const meetsHouseStyle = styleErrors.length === 0;
 
     // All translations must be ready for publishing
-    const readyToPublish = canPublish && isTranslatedStage && canChangeStage && hasCategory && allTranslationsReady;
+    const readyToPublish = canPublish && isTranslatedStage && canChangeStage && hasCategory && allTranslationsReady && translationsUpToDate && hasRequiredTranslations && meetsHouseStyle;
 
     const issues: string[] = [];
     if (!canPublish) issues.push('User does not have publish permissions');
     if (!isTranslatedStage) issues.push(`Story must be in TRANSLATED stage (current: ${story.stage}). Ensure all translations are approved first.`);
     if (!canChangeStage) issues.push(`Cannot publish story with current permissions and stage`);
     if (!hasCategory) issues.push('Story must have a category assigned');
+    if (!hasRequiredTranslations) issues.push(`The ${workflow.name} workflow requires stories to be translated before publishing`);
     if (!allTranslationsReady) {
       const notReadyList = notReadyTranslations
         .map(t => `${t.language} (${t.stage})`)
         .join(', ');
       issues.push(`All translations must be approved before publishing. Not ready: ${notReadyList}`);
     }
+    if (!translationsUpToDate) issues.push(staleTranslationMessage(staleTranslations));
+    if (!meetsHouseStyle) {
+      issues.push(`Fix house style before publishing: ${styleErrors.map(issue => issue.match ?? issue.message).join(', ')}`);
+    }
 
     return NextResponse.json({
       canPublish: readyToPublish,
@@ -377,11 +599,18 @@ export async function GET(
         canChangeStage: canChangeStage,
         hasCategory,
         allTranslationsReady,
+        translationsUpToDate,
+        hasRequiredTranslations,
+        meetsHouseStyle,
         currentStage: story.stage,
+        scheduledPublishAt: story.stage === 'TRANSLATED' ? story.scheduledPublishAt : null,
         translationsCount,
         approvedTranslations: approvedTranslationsCount,
         notReadyTranslations: notReadyTranslations.map(t => ({ language: t.language, stage: t.stage })),
-      }
+        staleTranslations: staleTranslations.map(t => ({ id: t.id, language: t.language })),
+      },
+      // What the publisher ticks off before publishing or scheduling
+      checklist: publishTransition?.checklist ?? [],
     });
 
   } catch (error: unknown) {
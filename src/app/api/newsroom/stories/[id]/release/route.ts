@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { canSetReleaseWindow } from '@/lib/permissions';
+import { releaseWindowSchema } from '@/lib/validations';
+import { StaffRole } from '@prisma/client';
+
+// PUT /api/newsroom/stories/[id]/release - Set or clear a story's embargo and exclusivity window
+const setStoryRelease = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canSetReleaseWindow(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = releaseWindowSchema.parse(body);
+
+    const story = await prisma.story.findUnique({ where: { id }, select: { id: true } });
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    const updated = await prisma.story.update({
+      where: { id },
+      data: {
+        embargoUntil: data.embargoUntil ? new Date(data.embargoUntil) : null,
+        exclusiveUntil: data.exclusiveUntil ? new Date(data.exclusiveUntil) : null,
+        exclusiveStationIds: data.exclusiveStationIds,
+        exclusiveProvinces: data.exclusiveProvinces,
+      },
+      select: {
+        id: true,
+        embargoUntil: true,
+        exclusiveUntil: true,
+        exclusiveStationIds: true,
+        exclusiveProvinces: true,
+      },
+    });
+
+    return NextResponse.json({ story: updated });
+  },
+  [withErrorHandling, withAuth, withAudit('story.release_window')]
+);
+
+export { setStoryRelease as PUT };
@@ -5,6 +5,7 @@ import { prisma } from '@/lib/prisma';
 import { authOptions } from '@/lib/auth';
 import { logAudit } from '@/lib/audit';
 import { canRequestRevision } from '@/lib/permissions';
+import { withLegacyStatus } from '@/lib/story-stage';
 import { StaffRole } from '@prisma/client';
 
 // Validation schema for revision requests
@@ -108,7 +109,7 @@ export async function POST(
       const updatedStory = await tx.story.update({
         where: { id },
         data: {
-          stage: 'DRAFT',
+          ...withLegacyStatus('DRAFT'),
           assignedReviewerId: null, // Clear assignments
           assignedApproverId: null,
           updatedAt: new Date(),
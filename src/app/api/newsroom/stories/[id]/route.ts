@@ -1,15 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
-import { storyUpdateSchema } from '@/lib/validations';
-import { saveUploadedFile, validateAudioFile } from '@/lib/file-upload';
+import { storyUpdateSchema, audioUploadIdsSchema } from '@/lib/validations';
+import { finaliseAudioUploads } from '@/lib/audio-uploads';
 import { generateSlug, generateUniqueStorySlug } from '@/lib/slug-utils';
 import { publishStoryEvent, createEvent } from '@/lib/ably';
+import { ensureBaselineVersion, recordStoryVersion } from '@/lib/story-versions';
+import { flagStaleTranslations } from '@/lib/translation-source';
+import { AUDIO_TRIM_SELECT } from '@/lib/audio-trim';
+import { canViewStory } from '@/lib/story-access';
 
 // Reusable audioClips include through join table
 const audioClipsInclude = {
   select: {
     id: true,
+    ...AUDIO_TRIM_SELECT,
     audioClip: {
       select: {
         id: true,
@@ -21,6 +26,7 @@ const audioClipsInclude = {
         mimeType: true,
         title: true,
         tags: true,
+        waveform: true,
       },
     },
     createdAt: true,
@@ -79,6 +85,32 @@ async function canEditStory(userId: string, userRole: string | null, storyId: st
   );
 }
 
+// Helper function to detect a concurrent edit: returns the story's current
+// state when it was saved after the editor loaded it, otherwise null
+async function findEditConflict(storyId: string, expectedUpdatedAt: string) {
+  const current = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { title: true, content: true, updatedAt: true },
+  });
+
+  if (!current || current.updatedAt.getTime() === new Date(expectedUpdatedAt).getTime()) {
+    return null;
+  }
+
+  const latestVersion = await prisma.storyVersion.findFirst({
+    where: { storyId },
+    orderBy: { versionNumber: 'desc' },
+    select: {
+      changedBy: { select: { id: true, firstName: true, lastName: true } },
+    },
+  });
+
+  return {
+    ...current,
+    updatedBy: latestVersion?.changedBy ?? null,
+  };
+}
+
 // GET /api/newsroom/stories/[id] - Get a single story
 const getStory = createHandler(
   async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
@@ -103,6 +135,11 @@ const getStory = createHandler(
         language: true,
         isTranslation: true,
         originalStoryId: true,
+        sourceVersionNumber: true,
+        sourceChangedAt: true,
+        translationDraft: {
+          select: { provider: true, createdAt: true },
+        },
         storyGroupId: true,
         authorId: true,
         assignedToId: true,
@@ -290,37 +327,10 @@ const getStory = createHandler(
     }
 
     // Role-based access control
-    if (user.staffRole === 'INTERN' && story.authorId !== user.id) {
+    if (!(await canViewStory(user, story))) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
-    if (user.staffRole === 'JOURNALIST') {
-      // Check if journalist has direct access
-      const hasDirectAccess = story.authorId === user.id ||
-                              story.assignedToId === user.id ||
-                              story.reviewerId === user.id ||
-                              story.assignedReviewerId === user.id ||
-                              story.assignedApproverId === user.id;
-
-      // Check if this is an original story of a translation they're working on
-      let hasTranslationAccess = false;
-      if (!hasDirectAccess) {
-        const translationByUser = await prisma.story.findFirst({
-          where: {
-            authorId: user.id,
-            originalStoryId: story.id,
-            isTranslation: true,
-          },
-          select: { id: true },
-        });
-        hasTranslationAccess = !!translationByUser;
-      }
-
-      if (!hasDirectAccess && !hasTranslationAccess) {
-        return NextResponse.json({ error: 'Access denied' }, { status: 403 });
-      }
-    }
-
     // Alias translationRequests as translations for frontend compatibility
     return NextResponse.json(story);
   },
@@ -334,13 +344,12 @@ const updateStory = createHandler(
     const user = (req as NextRequest & { user: { id: string; staffRole: string | null } }).user;
 
     let rawData: Record<string, unknown> = {};
-    const audioFiles: File[] = [];
 
     // Support both JSON and FormData
     const contentType = req.headers.get('content-type') || '';
 
     if (contentType.includes('application/json')) {
-      // Handle JSON body (no file uploads)
+      // Handle JSON body
       const body = await req.json();
 
       // Validate the data
@@ -351,19 +360,17 @@ const updateStory = createHandler(
         throw error;
       }
     } else if (contentType.includes('multipart/form-data')) {
-      // Handle FormData for file uploads
+      // Handle FormData
       const formData = await req.formData();
 
       for (const [key, value] of formData.entries()) {
-        if (key.startsWith('audioFile_')) {
-          audioFiles.push(value as File);
-        } else if (key === 'removedAudioIds') {
+        if (key === 'removedAudioIds') {
           rawData[key] = JSON.parse(value as string);
         } else if (key === 'tagIds') {
           rawData[key] = JSON.parse(value as string);
         } else if (key === 'classificationIds') {
           rawData[key] = JSON.parse(value as string);
-        } else if (key !== 'audioFilesCount') {
+        } else {
           rawData[key] = value as string;
         }
       }
@@ -381,6 +388,7 @@ const updateStory = createHandler(
       removedAudioIds?: string[];
       status?: string;
       slug?: string;
+      expectedUpdatedAt?: string;
     };
 
     try {
@@ -410,55 +418,38 @@ const updateStory = createHandler(
       }
     }
 
+    // Optimistic concurrency: reject the save if someone else saved since the editor loaded the story
+    if (data.expectedUpdatedAt) {
+      const conflict = await findEditConflict(id, data.expectedUpdatedAt);
+      if (conflict) {
+        return NextResponse.json(
+          { error: 'This story was changed by someone else while you were editing', current: conflict },
+          { status: 409 }
+        );
+      }
+    }
+
     // When updating to APPROVED or READY_TO_PUBLISH, require categoryId
     if ((data.status === 'APPROVED' || data.status === 'READY_TO_PUBLISH') && !data.categoryId) {
       return NextResponse.json({ error: 'Category is required to approve or publish a story.' }, { status: 400 });
     }
 
-    // Handle audio clip unlinking (unlink from story, don't delete from library)
-    if (data.removedAudioIds && data.removedAudioIds.length > 0) {
-      await prisma.storyAudioClip.deleteMany({
-        where: {
-          storyId: id,
-          audioClipId: { in: data.removedAudioIds },
-        },
+    // Finalise audio the browser has already uploaded straight to R2. This
+    // talks to R2 so it stays outside the transaction; the clips are only
+    // linked to the story below, and a retried save gets the same clips back
+    let uploadedClipIds: string[] = [];
+    if (rawData.uploadIds) {
+      const result = await finaliseAudioUploads(audioUploadIdsSchema.parse(rawData.uploadIds), user.id, {
+        sourceStoryId: id,
       });
-    }
-
-    // Process new audio file uploads
-    const uploadedAudioFiles = [];
-    if (audioFiles.length > 0) {
-      try {
-        for (let i = 0; i < audioFiles.length; i++) {
-          const file = audioFiles[i];
-
-          // Validate audio file
-          const validation = validateAudioFile(file);
-          if (!validation.valid) {
-            return NextResponse.json({ error: validation.error }, { status: 400 });
-          }
-
-          // Save file and get file info
-          const uploadedFile = await saveUploadedFile(file);
-
-          uploadedAudioFiles.push({
-            filename: uploadedFile.filename,
-            originalName: uploadedFile.originalName,
-            url: uploadedFile.url,
-            fileSize: uploadedFile.size,
-            mimeType: uploadedFile.mimeType,
-            duration: uploadedFile.duration,
-            uploadedBy: user.id,
-          });
-        }
-      } catch (error) {
-        console.error('Error processing audio files:', error);
-        throw error;
+      if (!result.clipIds) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
       }
+      uploadedClipIds = result.clipIds;
     }
 
     // Extract tag IDs, classification IDs, and removedAudioIds from the data
-    const { tagIds, classificationIds, removedAudioIds: _removedAudioIds, ...storyData } = data;
+    const { tagIds, classificationIds, removedAudioIds, expectedUpdatedAt, ...storyData } = data;
 
     // Generate new slug if title is being updated
     if (storyData.title) {
@@ -506,99 +497,136 @@ const updateStory = createHandler(
       };
     }
 
-    // Create new audio clips in library and link to story
-    if (uploadedAudioFiles.length > 0) {
-      for (const audioFileData of uploadedAudioFiles) {
-        await prisma.audioClip.create({
-          data: {
-            ...audioFileData,
-            sourceStoryId: id,
-            stories: {
-              create: {
-                storyId: id,
-                addedBy: user.id,
-              },
-            },
+    // Update and snapshot the new title/content for revision history together
+    const story = await prisma.$transaction(async (tx) => {
+      await ensureBaselineVersion(tx, id);
+
+      if (expectedUpdatedAt) {
+        // Claim the row only if nobody saved between the conflict check above and now
+        const claimed = await tx.story.updateMany({
+          where: { id, updatedAt: new Date(expectedUpdatedAt) },
+          data: { updatedAt: new Date() },
+        });
+        if (claimed.count === 0) return null;
+      }
+
+      // Handle audio clip unlinking (unlink from story, don't delete from library)
+      if (removedAudioIds && removedAudioIds.length > 0) {
+        await tx.storyAudioClip.deleteMany({
+          where: {
+            storyId: id,
+            audioClipId: { in: removedAudioIds },
           },
         });
       }
-    }
 
-    const story = await prisma.story.update({
-      where: { id },
-      data: updateData,
-      include: {
-        author: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+      // Link the newly uploaded clips to the story
+      if (uploadedClipIds.length > 0) {
+        await tx.storyAudioClip.createMany({
+          data: uploadedClipIds.map(audioClipId => ({
+            storyId: id,
+            audioClipId,
+            addedBy: user.id,
+          })),
+          skipDuplicates: true,
+        });
+      }
+
+      const updated = await tx.story.update({
+        where: { id },
+        data: updateData,
+        include: {
+          author: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
           },
-        },
-        assignedTo: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+          assignedTo: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
           },
-        },
-        reviewer: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+          reviewer: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
           },
-        },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            color: true,
-            parent: {
-              select: {
-                id: true,
-                name: true,
-                slug: true,
+          category: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+              color: true,
+              parent: {
+                select: {
+                  id: true,
+                  name: true,
+                  slug: true,
+                },
               },
             },
           },
-        },
-        tags: {
-          include: {
-            tag: {
-              select: {
-                id: true,
-                name: true,
-                slug: true,
+          tags: {
+            include: {
+              tag: {
+                select: {
+                  id: true,
+                  name: true,
+                  slug: true,
+                },
               },
             },
           },
-        },
-        classifications: {
-          include: {
-            classification: {
-              select: {
-                id: true,
-                name: true,
-                slug: true,
-                type: true,
-                color: true,
+          classifications: {
+            include: {
+              classification: {
+                select: {
+                  id: true,
+                  name: true,
+                  slug: true,
+                  type: true,
+                  color: true,
+                },
               },
             },
           },
+          audioClips: audioClipsInclude,
         },
-        audioClips: audioClipsInclude,
-      },
+      });
+
+      const version = await recordStoryVersion(tx, id, { changeType: 'EDIT', changedById: user.id });
+
+      // Translations made from the previous version are now out of date
+      if (version && !updated.isTranslation) {
+        await flagStaleTranslations(tx, id);
+      }
+
+      return updated;
     });
 
+    if (!story) {
+      return NextResponse.json(
+        {
+          error: 'This story was changed by someone else while you were editing',
+          current: await findEditConflict(id, expectedUpdatedAt!),
+        },
+        { status: 409 }
+      );
+    }
+
     // Publish real-time event (non-blocking)
     publishStoryEvent(
       createEvent('story:updated', 'story', id, user.id, undefined, {
-        updatedFields: Object.keys(data),
+        updatedFields: Object.keys(data).filter(key => key !== 'expectedUpdatedAt'),
       })
     ).catch(() => {});
 
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { canWorkOnTranslation, hasStoryPermission } from '@/lib/permissions';
+import { acknowledgeSourceChanges, getSourceChanges } from '@/lib/translation-source';
+import { publishStoryEvent, createEvent } from '@/lib/ably';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/stories/[id]/source-changes - Edits to the original since this translation was made
+const getTranslationSourceChanges = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!hasStoryPermission(user.staffRole, 'read')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: { id: true, authorId: true, isTranslation: true, originalStoryId: true },
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (user.staffRole === 'INTERN' && story.authorId !== user.id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const changes = story.isTranslation && story.originalStoryId ? await getSourceChanges(id) : null;
+    if (!changes) {
+      return NextResponse.json({ error: 'Story is not a translation' }, { status: 400 });
+    }
+
+    return NextResponse.json(changes);
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/stories/[id]/source-changes - Mark the translation as up to date with the original
+const acknowledgeTranslationSourceChanges = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: { id: true, authorId: true, isTranslation: true, originalStoryId: true, updatedAt: true },
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (!canWorkOnTranslation(user.staffRole, story.authorId, user.id)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    if (!story.isTranslation || !story.originalStoryId) {
+      return NextResponse.json({ error: 'Story is not a translation' }, { status: 400 });
+    }
+
+    const updated = await prisma.$transaction((tx) =>
+      acknowledgeSourceChanges({ id, originalStoryId: story.originalStoryId!, updatedAt: story.updatedAt }, tx)
+    );
+
+    // Publish real-time event (non-blocking)
+    publishStoryEvent(
+      createEvent('story:updated', 'story', id, user.id, undefined, {
+        updatedFields: ['sourceVersionNumber', 'sourceChangedAt'],
+      })
+    ).catch(() => {});
+
+    return NextResponse.json(updated);
+  },
+  [withErrorHandling, withAuth, withAudit('story.acknowledge_source_changes')]
+);
+
+export { getTranslationSourceChanges as GET, acknowledgeTranslationSourceChanges as POST };
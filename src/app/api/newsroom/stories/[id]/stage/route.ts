@@ -5,27 +5,28 @@ import { prisma } from '@/lib/prisma';
 import { authOptions } from '@/lib/auth';
 import { logAuditTx } from '@/lib/audit';
 import {
-  canReviewStory,
-  canApproveStoryStage,
-  canSendForTranslation,
-} from '@/lib/permissions';
-import { StoryStage, StaffRole, ClassificationType } from '@prisma/client';
+  WORKFLOW_ACTIONS,
+  canPerformTransition,
+  findTransition,
+  type WorkflowTransition,
+} from '@/lib/workflow';
+import { getStoryWorkflow } from '@/lib/workflow-resolver';
+import { findTransitionBlock } from '@/lib/transition-gates';
+import { StoryStage, StaffRole, StoryLanguage, ClassificationType } from '@prisma/client';
 import { publishStoryEvent, publishDashboardEvent, createEvent } from '@/lib/ably';
+import { ensureBaselineVersion, recordStoryVersion } from '@/lib/story-versions';
+import { withLegacyStatus } from '@/lib/story-stage';
+import { recordTranslationMemory } from '@/lib/translation-memory';
+import { findStaleTranslations, staleTranslationMessage } from '@/lib/translation-source';
+import { TRANSLATION_LANGUAGES } from '@/lib/language-utils';
 
 // Validation schema for stage transitions
 const stageTransitionSchema = z.object({
-  action: z.enum([
-    'submit_for_review',
-    'send_for_approval',
-    'approve_story',
-    'send_for_translation',
-    'publish_story',
-    'mark_as_translated',
-  ]),
+  action: z.enum(WORKFLOW_ACTIONS),
   assignedUserId: z.string().optional(),
   checklistData: z.record(z.boolean()).optional(),
   translationLanguages: z.array(z.object({
-    language: z.string(),
+    language: z.enum(TRANSLATION_LANGUAGES),
     translatorId: z.string(),
   })).optional(),
 });
@@ -74,6 +75,9 @@ export async function POST(
             },
           },
         },
+        storyGroup: {
+          select: { id: true, name: true, publishTogether: true, publishedAt: true },
+        },
       },
     });
 
@@ -81,105 +85,76 @@ export async function POST(
       return NextResponse.json({ error: 'Story not found' }, { status: 404 });
     }
 
+    const workflow = await getStoryWorkflow(story);
+    const transition = findTransition(workflow, validatedData.action, story.stage, story.author.staffRole);
+
+    if (!transition) {
+      return NextResponse.json(
+        { error: `The ${workflow.name} workflow does not allow this action from the ${story.stage} stage` },
+        { status: 400 }
+      );
+    }
+
+    if (!canPerformTransition(workflow, transition, userRole)) {
+      return NextResponse.json(
+        { error: `Insufficient permissions to ${transition.label.toLowerCase()}` },
+        { status: 403 }
+      );
+    }
+
+    const blocked = await checkTransitionGates(transition, validatedData.checklistData, story);
+    if (blocked) return blocked;
+
+    if (transition.assignmentRoles.length > 0) {
+      if (!validatedData.assignedUserId) {
+        return NextResponse.json(
+          { error: `Must assign a ${transition.assignmentRoles.join(' or ').toLowerCase().replace(/_/g, '-')} to ${transition.label.toLowerCase()}` },
+          { status: 400 }
+        );
+      }
+
+      const assignee = await prisma.user.findUnique({
+        where: { id: validatedData.assignedUserId },
+        select: { staffRole: true },
+      });
+      if (!assignee?.staffRole || !transition.assignmentRoles.includes(assignee.staffRole)) {
+        return NextResponse.json(
+          { error: 'The assigned user does not have a role this workflow step can be assigned to' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Process the action
     let newStage: StoryStage | null = null;
     let updateData: any = {};
     let auditAction = '';
-    let auditDetails: any = {};
+    let auditDetails: any = { workflow: workflow.name };
 
     switch (validatedData.action) {
       case 'submit_for_review':
-        // Intern submitting for journalist review
-        if (story.author.staffRole !== 'INTERN') {
-          return NextResponse.json(
-            { error: 'Only intern stories need journalist review' },
-            { status: 400 }
-          );
-        }
-
-        if (story.stage !== 'DRAFT') {
-          return NextResponse.json(
-            { error: `Cannot submit for review from ${story.stage} stage` },
-            { status: 400 }
-          );
-        }
-
-        if (!validatedData.assignedUserId) {
-          return NextResponse.json(
-            { error: 'Must assign a journalist for review' },
-            { status: 400 }
-          );
-        }
-
-        newStage = 'NEEDS_JOURNALIST_REVIEW';
+        newStage = transition.to;
         updateData = {
-          stage: newStage,
+          ...withLegacyStatus(newStage),
           assignedReviewerId: validatedData.assignedUserId,
           authorChecklist: validatedData.checklistData || {},
         };
         auditAction = 'SUBMIT_FOR_REVIEW';
-        auditDetails = { assignedReviewerId: validatedData.assignedUserId };
+        auditDetails = { ...auditDetails, assignedReviewerId: validatedData.assignedUserId };
         break;
 
       case 'send_for_approval':
-        // Journalist sending to sub-editor for approval
-        if (!canReviewStory(userRole)) {
-          return NextResponse.json(
-            { error: 'Insufficient permissions to send for approval' },
-            { status: 403 }
-          );
-        }
-
-        if (story.author.staffRole === 'INTERN' && story.stage !== 'NEEDS_JOURNALIST_REVIEW') {
-          return NextResponse.json(
-            { error: `Cannot send for approval from ${story.stage} stage` },
-            { status: 400 }
-          );
-        }
-
-        if (story.author.staffRole === 'JOURNALIST' && story.stage !== 'DRAFT') {
-          return NextResponse.json(
-            { error: `Cannot send for approval from ${story.stage} stage` },
-            { status: 400 }
-          );
-        }
-
-        if (!validatedData.assignedUserId) {
-          return NextResponse.json(
-            { error: 'Must assign a sub-editor for approval' },
-            { status: 400 }
-          );
-        }
-
-        newStage = 'NEEDS_SUB_EDITOR_APPROVAL';
+        newStage = transition.to;
         updateData = {
-          stage: newStage,
+          ...withLegacyStatus(newStage),
           assignedApproverId: validatedData.assignedUserId,
           reviewerChecklist: validatedData.checklistData || {},
         };
         auditAction = 'SEND_FOR_APPROVAL';
-        auditDetails = { assignedApproverId: validatedData.assignedUserId };
+        auditDetails = { ...auditDetails, assignedApproverId: validatedData.assignedUserId };
         break;
 
       case 'approve_story':
-        // Sub-editor approving story
-        if (!canApproveStoryStage(userRole)) {
-          return NextResponse.json(
-            { error: 'Insufficient permissions to approve story' },
-            { status: 403 }
-          );
-        }
-
-        if (
-          story.stage !== 'NEEDS_SUB_EDITOR_APPROVAL' &&
-          !(story.stage === 'DRAFT' && ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(story.author.staffRole!))
-        ) {
-          return NextResponse.json(
-            { error: `Cannot approve story from ${story.stage} stage` },
-            { status: 400 }
-          );
-        }
-
         // Validate that category and tags are assigned
         if (!story.categoryId) {
           return NextResponse.json(
@@ -208,30 +183,15 @@ export async function POST(
 
         // For translations, approve them as TRANSLATED instead of APPROVED
         // This makes translations ready for publishing immediately
-        newStage = story.isTranslation ? 'TRANSLATED' : 'APPROVED';
+        newStage = story.isTranslation ? 'TRANSLATED' : transition.to;
         updateData = {
-          stage: newStage,
+          ...withLegacyStatus(newStage),
           approverChecklist: validatedData.checklistData || {},
         };
         auditAction = 'APPROVE_STORY';
         break;
 
       case 'send_for_translation':
-        // Sub-editor sending for translation
-        if (!canSendForTranslation(userRole)) {
-          return NextResponse.json(
-            { error: 'Insufficient permissions to send for translation' },
-            { status: 403 }
-          );
-        }
-
-        if (story.stage !== 'APPROVED') {
-          return NextResponse.json(
-            { error: `Cannot send for translation from ${story.stage} stage` },
-            { status: 400 }
-          );
-        }
-
         if (!validatedData.translationLanguages || validatedData.translationLanguages.length === 0) {
           return NextResponse.json(
             { error: 'Must specify translation languages and translators' },
@@ -240,9 +200,10 @@ export async function POST(
         }
 
         // Will be handled in transaction below
-        newStage = 'TRANSLATED';
+        newStage = transition.to;
         auditAction = 'SEND_FOR_TRANSLATION';
         auditDetails = {
+          ...auditDetails,
           languages: validatedData.translationLanguages.map(t => t.language),
         };
         break;
@@ -250,67 +211,76 @@ export async function POST(
       case 'mark_as_translated':
         // Mark APPROVED story as TRANSLATED when translations are complete
         // When used via "Skip Translation", this also publishes the story directly
-        if (!['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole)) {
-          return NextResponse.json(
-            { error: 'Insufficient permissions to mark as translated' },
-            { status: 403 }
-          );
-        }
-
-        if (story.stage !== 'APPROVED') {
-          return NextResponse.json(
-            { error: `Cannot mark as translated from ${story.stage} stage` },
-            { status: 400 }
-          );
-        }
-
-        // If story has no translations (skip translation flow), publish directly
         {
           const translationCount = await prisma.story.count({
             where: { originalStoryId: story.id },
           });
 
           if (translationCount === 0) {
-            // Skip translation → publish directly
+            if (workflow.requiresTranslation) {
+              return NextResponse.json(
+                { error: `The ${workflow.name} workflow requires stories to be translated before publishing` },
+                { status: 400 }
+              );
+            }
+
+            // Skip translation → publish directly, held to the same checks
+            // as the workflow's publish step
+            const publishTransition = findTransition(workflow, 'publish_story', transition.to, story.author.staffRole);
+            if (!publishTransition) {
+              return NextResponse.json(
+                { error: `The ${workflow.name} workflow does not allow publishing from the ${transition.to} stage` },
+                { status: 400 }
+              );
+            }
+            if (!canPerformTransition(workflow, publishTransition, userRole)) {
+              return NextResponse.json(
+                { error: `Insufficient permissions to ${publishTransition.label.toLowerCase()}` },
+                { status: 403 }
+              );
+            }
+
+            const publishBlocked =
+              (await checkPublishable(story)) ??
+              (await checkTransitionGates(publishTransition, validatedData.checklistData, story));
+            if (publishBlocked) return publishBlocked;
+
             newStage = 'PUBLISHED';
             updateData = {
-              stage: 'PUBLISHED' as StoryStage,
-              status: 'PUBLISHED',
+              ...withLegacyStatus('PUBLISHED'),
               publishedAt: new Date(),
               publishedBy: session.user.id,
+              translationChecklist: validatedData.checklistData || {},
             };
             auditAction = 'PUBLISH_STORY';
           } else {
             // Has translations → normal mark as translated flow
-            newStage = 'TRANSLATED';
-            updateData = {
-              stage: newStage,
-            };
+            newStage = transition.to;
+            updateData = withLegacyStatus(newStage);
             auditAction = 'MARK_AS_TRANSLATED';
           }
         }
         break;
 
       case 'publish_story':
-        // Publish story (Sub-Editor and above)
-        if (!['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole)) {
-          return NextResponse.json(
-            { error: 'Insufficient permissions to publish story' },
-            { status: 403 }
-          );
-        }
-
-        if (story.stage !== 'TRANSLATED') {
+        // Held to the publish route's translation requirement, whichever stage it publishes from
+        if (
+          workflow.requiresTranslation &&
+          !story.isTranslation &&
+          (await prisma.story.count({ where: { originalStoryId: story.id } })) === 0
+        ) {
           return NextResponse.json(
-            { error: `Cannot publish story from ${story.stage} stage. Story must be in TRANSLATED stage.` },
+            { error: `The ${workflow.name} workflow requires stories to be translated before publishing` },
             { status: 400 }
           );
         }
 
-        newStage = 'PUBLISHED';
+        const publishBlocked = await checkPublishable(story);
+        if (publishBlocked) return publishBlocked;
+
+        newStage = transition.to;
         updateData = {
-          stage: newStage,
-          status: 'PUBLISHED', // Also update legacy status field for backwards compatibility
+          ...withLegacyStatus(newStage),
           publishedAt: new Date(),
           publishedBy: session.user.id,
           translationChecklist: validatedData.checklistData || {},
@@ -324,6 +294,8 @@ export async function POST(
 
     // Update story in transaction
     const result = await prisma.$transaction(async (tx) => {
+      await ensureBaselineVersion(tx, id);
+
       const updatedStory = await tx.story.update({
         where: { id },
         data: {
@@ -346,6 +318,8 @@ export async function POST(
         },
       });
 
+      await recordStoryVersion(tx, id, { changeType: 'STAGE_CHANGE', changedById: session.user.id });
+
       // If we just published a story, also publish all its translations
       if (validatedData.action === 'publish_story' && !story.isTranslation) {
         // Find all translations for this story
@@ -364,8 +338,7 @@ export async function POST(
               id: { in: translations.map(t => t.id) },
             },
             data: {
-              stage: 'PUBLISHED',
-              status: 'PUBLISHED', // Also update legacy status field
+              ...withLegacyStatus('PUBLISHED'),
               publishedAt: new Date(),
               updatedAt: new Date(),
             },
@@ -426,7 +399,7 @@ export async function POST(
             await tx.story.update({
               where: { id: story.originalStoryId },
               data: {
-                stage: 'TRANSLATED',
+                ...withLegacyStatus('TRANSLATED'),
                 updatedAt: new Date(),
               },
             });
@@ -479,6 +452,11 @@ export async function POST(
       return updatedStory;
     });
 
+    // Published translations feed translation memory (non-blocking)
+    if (newStage === 'PUBLISHED') {
+      recordTranslationMemory([id]).catch((error) => console.error('Failed to record translation memory:', error));
+    }
+
     // Publish real-time events (non-blocking)
     publishStoryEvent(
       createEvent('story:stage_changed', 'story', id, session.user.id, undefined, {
@@ -516,3 +494,43 @@ export async function POST(
     return NextResponse.json({ error: errorMessage }, { status: 500 });
   }
 }
+
+/**
+ * Check a transition's checklist and house-style requirements. Returns the
+ * response to send when the story can't go ahead, or null when it can.
+ */
+async function checkTransitionGates(
+  transition: WorkflowTransition,
+  checklistData: Record<string, boolean> | undefined,
+  story: { content: string | null; language: StoryLanguage; categoryId: string | null }
+): Promise<NextResponse | null> {
+  const block = await findTransitionBlock(transition, checklistData, story);
+  return block ? NextResponse.json(block, { status: 400 }) : null;
+}
+
+/**
+ * Check a story may be published on its own right now. Returns the response
+ * to send when it can't, or null when it can.
+ */
+async function checkPublishable(story: {
+  id: string;
+  storyGroup: { name: string; publishTogether: boolean; publishedAt: Date | null } | null;
+}): Promise<NextResponse | null> {
+  if (story.storyGroup?.publishTogether && !story.storyGroup.publishedAt) {
+    return NextResponse.json(
+      { error: `Story belongs to the story group "${story.storyGroup.name}" and must be published with the group` },
+      { status: 400 }
+    );
+  }
+
+  // Translations would go out saying something the original no longer does
+  const staleTranslations = await findStaleTranslations([story.id]);
+  if (staleTranslations.length > 0) {
+    return NextResponse.json(
+      { error: staleTranslationMessage(staleTranslations), staleTranslations },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
@@ -3,16 +3,13 @@ import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling, withValidation } from '@/lib/api-handler';
 import { storyStatusUpdateSchema } from '@/lib/validations';
 import { StoryStatus, StaffRole } from '@prisma/client';
-import { canUpdateStoryStatus } from '@/lib/permissions';
+import { canUpdateStoryStage } from '@/lib/permissions';
+import { getStoryWorkflow } from '@/lib/workflow-resolver';
+import { stageForLegacyStatus, withLegacyStatus } from '@/lib/story-stage';
 import { publishStoryEvent, publishDashboardEvent, createEvent } from '@/lib/ably';
 
-// Helper function to check workflow permissions
-function canUpdateStatus(userRole: string | null, currentStatus: StoryStatus, newStatus: StoryStatus, _storyAuthorId?: string, _currentUserId?: string) {
-  if (!userRole) return false;
-  return canUpdateStoryStatus(userRole as StaffRole, currentStatus, newStatus);
-}
-
 // PATCH /api/newsroom/stories/[id]/status - Update story status
+// Legacy endpoint: the status is translated to a stage and checked against the story's workflow
 const updateStoryStatus = createHandler(
   async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
     const { id } = await params;
@@ -25,6 +22,9 @@ const updateStoryStatus = createHandler(
       select: {
         id: true,
         status: true,
+        stage: true,
+        categoryId: true,
+        originalStoryId: true,
         authorId: true,
         assignedToId: true,
         reviewerId: true,
@@ -36,24 +36,16 @@ const updateStoryStatus = createHandler(
       return NextResponse.json({ error: 'Story not found' }, { status: 404 });
     }
 
-    console.log(`🔄 Status Update Request:`, {
-      storyId: id,
-      currentStatus: story.status,
-      newStatus: status,
-      userRole: user.staffRole,
-      userId: user.id,
-      storyAuthorId: story.authorId,
-      reviewerId: reviewerId,
-    });
+    const targetStage = stageForLegacyStatus(status as StoryStatus);
+    if (!targetStage) {
+      return NextResponse.json({ error: `Status ${status} has no workflow stage` }, { status: 400 });
+    }
 
-    // Check if user can update this story's status
-    const canUpdate = canUpdateStatus(user.staffRole, story.status, status as StoryStatus, story.authorId, user.id);
-    console.log(`🔐 Permission Check:`, { canUpdate, userRole: user.staffRole, currentStatus: story.status, newStatus: status });
-    
-    if (!canUpdate) {
-      console.error(`❌ Permission denied: Cannot transition from ${story.status} to ${status} for role ${user.staffRole}`);
+    // Check if user can move the story to the equivalent stage
+    const workflow = await getStoryWorkflow(story);
+    if (!canUpdateStoryStage(user.staffRole as StaffRole | null, story.stage, targetStage, workflow)) {
       return NextResponse.json({ 
-        error: `Cannot transition from ${story.status} to ${status}` 
+        error: `Cannot transition from ${story.stage} to ${targetStage}` 
       }, { status: 403 });
     }
 
@@ -73,7 +65,7 @@ const updateStoryStatus = createHandler(
 
     // Prepare update data
     const updateData: Record<string, unknown> = {
-      status,
+      ...withLegacyStatus(targetStage),
       ...(assignedToId && { assignedToId }),
       ...(reviewerId && { reviewerId }),
       ...(categoryId && { categoryId }),
@@ -81,13 +73,13 @@ const updateStoryStatus = createHandler(
     };
 
     // Set publisher info when publishing
-    if (status === StoryStatus.PUBLISHED) {
+    if (targetStage === 'PUBLISHED') {
       updateData.publishedAt = new Date();
       updateData.publishedBy = user.id;
     }
 
     // Clear published info if moving away from published
-    if (story.status === StoryStatus.PUBLISHED && status !== StoryStatus.PUBLISHED) {
+    if (story.stage === 'PUBLISHED' && targetStage !== 'PUBLISHED') {
       updateData.publishedAt = null;
       updateData.publishedBy = null;
     }
@@ -177,6 +169,8 @@ const updateStoryStatus = createHandler(
         metadata: {
           previousStatus: story.status,
           newStatus: status,
+          previousStage: story.stage,
+          newStage: targetStage,
           storyTitle: story.title,
           assignedToId,
           reviewerId,
@@ -187,8 +181,8 @@ const updateStoryStatus = createHandler(
     // Publish real-time events (non-blocking)
     publishStoryEvent(
       createEvent('story:stage_changed', 'story', id, user.id, undefined, {
-        previousStage: story.status,
-        newStage: status,
+        previousStage: story.stage,
+        newStage: targetStage,
       })
     ).catch(() => {});
 
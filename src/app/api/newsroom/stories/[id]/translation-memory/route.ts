@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { hasStoryPermission } from '@/lib/permissions';
+import { findTranslationSuggestions } from '@/lib/translation-memory';
+import { StaffRole, TranslationLanguage } from '@prisma/client';
+
+// GET /api/newsroom/stories/[id]/translation-memory - Earlier translations of the original's paragraphs
+const getTranslationMemory = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!hasStoryPermission(user.staffRole, 'read')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        authorId: true,
+        isTranslation: true,
+        language: true,
+        originalStory: { select: { content: true } },
+      },
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (user.staffRole === 'INTERN' && story.authorId !== user.id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (!story.isTranslation || !story.originalStory || story.language === 'ENGLISH') {
+      return NextResponse.json({ error: 'Story is not a translation' }, { status: 400 });
+    }
+
+    const segments = await findTranslationSuggestions(
+      story.originalStory.content,
+      story.language as TranslationLanguage,
+      { excludeStoryId: story.id }
+    );
+
+    return NextResponse.json({ segments });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { getTranslationMemory as GET };
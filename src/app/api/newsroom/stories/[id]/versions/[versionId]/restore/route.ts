@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { logAuditTx } from '@/lib/audit';
+import { canEditStoryByStage } from '@/lib/permissions';
+import { ensureBaselineVersion, getStoryVersion, recordStoryVersion } from '@/lib/story-versions';
+import { flagStaleTranslations } from '@/lib/translation-source';
+import { generateSlug, generateUniqueStorySlug } from '@/lib/slug-utils';
+import { publishStoryEvent, createEvent } from '@/lib/ably';
+import { canViewStory, STORY_ACCESS_SELECT } from '@/lib/story-access';
+import { StaffRole } from '@prisma/client';
+
+// POST /api/newsroom/stories/[id]/versions/[versionId]/restore
+// Restore the title and content of an earlier version. The stage is left as-is.
+const restoreStoryVersion = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id, versionId } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: {
+        ...STORY_ACCESS_SELECT,
+        title: true,
+        slug: true,
+        stage: true,
+        language: true,
+        isTranslation: true,
+      },
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (!(await canViewStory(user, story))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    if (
+      !canEditStoryByStage(
+        user.staffRole,
+        story.stage,
+        story.authorId,
+        user.id,
+        story.assignedReviewerId,
+        story.assignedApproverId,
+        story.isTranslation
+      )
+    ) {
+      return NextResponse.json({ error: 'Insufficient permissions to edit this story' }, { status: 403 });
+    }
+
+    const version = await getStoryVersion(id, versionId);
+    if (!version) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    // Keep the slug in line with the restored title, as PATCH does
+    let slug: string | undefined;
+    if (version.title !== story.title) {
+      let baseSlug = generateSlug(version.title);
+      if (story.isTranslation) {
+        baseSlug = `${baseSlug}-${story.language.toLowerCase()}`;
+      }
+      if (baseSlug !== story.slug) {
+        slug = await generateUniqueStorySlug(baseSlug, id);
+      }
+    }
+
+    const restored = await prisma.$transaction(async (tx) => {
+      await ensureBaselineVersion(tx, id);
+
+      const updated = await tx.story.update({
+        where: { id },
+        data: {
+          title: version.title,
+          content: version.content,
+          ...(slug && { slug }),
+        },
+        select: { id: true, title: true, content: true, slug: true, stage: true, updatedAt: true },
+      });
+
+      const newVersion = await recordStoryVersion(tx, id, {
+        changeType: 'RESTORE',
+        changedById: user.id,
+        restoredFromVersion: version.versionNumber,
+      });
+
+      if (newVersion && !story.isTranslation) {
+        await flagStaleTranslations(tx, id);
+      }
+
+      await logAuditTx(tx, {
+        userId: user.id,
+        action: 'RESTORE_STORY_VERSION',
+        details: {
+          entityType: 'STORY',
+          entityId: id,
+          restoredFromVersion: version.versionNumber,
+          newVersion: newVersion?.versionNumber,
+        },
+        ipAddress: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown',
+        userAgent: req.headers.get('user-agent') || 'unknown',
+        targetId: id,
+        targetType: 'STORY',
+      });
+
+      return updated;
+    });
+
+    // Publish real-time event (non-blocking)
+    publishStoryEvent(
+      createEvent('story:updated', 'story', id, user.id, undefined, {
+        updatedFields: ['title', 'content'],
+        restoredFromVersion: version.versionNumber,
+      })
+    ).catch(() => {});
+
+    return NextResponse.json({
+      message: `Restored version ${version.versionNumber}`,
+      story: restored,
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { restoreStoryVersion as POST };
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { hasStoryPermission } from '@/lib/permissions';
+import { getStoryVersion } from '@/lib/story-versions';
+import { diffWords, htmlToPlainText } from '@/lib/text-diff';
+import { canViewStory, STORY_ACCESS_SELECT } from '@/lib/story-access';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/stories/[id]/versions/compare?from=<versionId>&to=<versionId>
+// Field-level diff between two versions of a story
+const compareStoryVersions = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!hasStoryPermission(user.staffRole, 'read')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const fromId = req.nextUrl.searchParams.get('from');
+    const toId = req.nextUrl.searchParams.get('to');
+    if (!fromId || !toId) {
+      return NextResponse.json({ error: 'Both from and to version IDs are required' }, { status: 400 });
+    }
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: STORY_ACCESS_SELECT,
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (!(await canViewStory(user, story))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const [from, to] = await Promise.all([
+      getStoryVersion(id, fromId),
+      getStoryVersion(id, toId),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const { content: _fromContent, ...fromSummary } = from;
+    const { content: _toContent, ...toSummary } = to;
+
+    return NextResponse.json({
+      from: fromSummary,
+      to: toSummary,
+      changes: {
+        title: from.title !== to.title ? diffWords(from.title, to.title) : null,
+        content: from.content !== to.content
+          ? diffWords(htmlToPlainText(from.content), htmlToPlainText(to.content))
+          : null,
+        stage: from.stage !== to.stage ? { from: from.stage, to: to.stage } : null,
+      },
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { compareStoryVersions as GET };
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { hasStoryPermission } from '@/lib/permissions';
+import { storyVersionSummarySelect } from '@/lib/story-versions';
+import { canViewStory, STORY_ACCESS_SELECT } from '@/lib/story-access';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/stories/[id]/versions - List title/content snapshots, newest first
+const listStoryVersions = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!hasStoryPermission(user.staffRole, 'read')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: STORY_ACCESS_SELECT,
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (!(await canViewStory(user, story))) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const versions = await prisma.storyVersion.findMany({
+      where: { storyId: id },
+      select: storyVersionSummarySelect,
+      orderBy: { versionNumber: 'desc' },
+    });
+
+    return NextResponse.json({ versions });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { listStoryVersions as GET };
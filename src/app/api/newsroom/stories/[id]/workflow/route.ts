@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { hasStoryPermission } from '@/lib/permissions';
+import { getAvailableTransitions, getWorkflowSteps } from '@/lib/workflow';
+import { getStoryWorkflow } from '@/lib/workflow-resolver';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/stories/[id]/workflow - The story's workflow and the transitions open to the current user
+const getStoryWorkflowState = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!hasStoryPermission(user.staffRole, 'read')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const story = await prisma.story.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        stage: true,
+        authorId: true,
+        categoryId: true,
+        originalStoryId: true,
+        author: { select: { staffRole: true } },
+      },
+    });
+
+    if (!story) {
+      return NextResponse.json({ error: 'Story not found' }, { status: 404 });
+    }
+
+    if (user.staffRole === 'INTERN' && story.authorId !== user.id) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const workflow = await getStoryWorkflow(story);
+    const authorRole = story.author.staffRole;
+
+    return NextResponse.json({
+      workflow,
+      steps: getWorkflowSteps(workflow, authorRole),
+      transitions: getAvailableTransitions(workflow, story.stage, authorRole, user.staffRole),
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { getStoryWorkflowState as GET };
@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
-import { storyCreateSchema, storySearchSchema } from '@/lib/validations';
+import { storyCreateSchema, storySearchSchema, audioUploadIdsSchema } from '@/lib/validations';
 import { Prisma } from '@prisma/client';
-import { saveUploadedFile, validateAudioFile } from '@/lib/file-upload';
-import { deleteAudioFile } from '@/lib/r2-storage';
+import { finaliseAudioUploads } from '@/lib/audio-uploads';
 import { generateSlug, generateUniqueStorySlug, isSlugConflictError } from '@/lib/slug-utils';
 import { publishStoryEvent, createEvent } from '@/lib/ably';
+import { legacyStatusWhere } from '@/lib/story-stage';
+import { AUDIO_TRIM_SELECT, usageAudioClip } from '@/lib/audio-trim';
 
 // Helper function to check permissions
 function hasStoryPermission(userRole: string | null, action: 'create' | 'read' | 'update' | 'delete') {
@@ -88,7 +89,8 @@ const getStories = createHandler(
         ],
       });
     }
-    if (status) andConditions.push({ status });
+    // Legacy status filters are answered from the stage
+    if (status) andConditions.push(legacyStatusWhere(status));
     if (stage) andConditions.push({ stage });
     if (language) {
       // Match stories by language field OR language classification
@@ -234,6 +236,7 @@ const getStories = createHandler(
         audioClips: {
           select: {
             id: true,
+            ...AUDIO_TRIM_SELECT,
             audioClip: {
               select: {
                 id: true,
@@ -291,7 +294,7 @@ const getStories = createHandler(
     // Flatten audioClips from join-table format to flat AudioClip objects
     const transformedStories = stories.map((story: any) => ({
       ...story,
-      audioClips: story.audioClips?.map((sac: any) => sac.audioClip) || [],
+      audioClips: story.audioClips?.map((sac: any) => usageAudioClip('story', sac)) || [],
     }));
 
     return NextResponse.json({
@@ -317,7 +320,6 @@ const createStory = createHandler(
     }
 
     let storyData: Record<string, unknown> = {};
-    const audioFiles: File[] = [];
 
     // Support both JSON and FormData
     const contentType = req.headers.get('content-type') || '';
@@ -327,22 +329,16 @@ const createStory = createHandler(
     } else if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
       const formData = await req.formData();
       // Fields that are JSON-encoded when sent via FormData
-      const jsonFields = ['tagIds', 'classificationIds', 'libraryClipIds'];
+      const jsonFields = ['tagIds', 'classificationIds', 'libraryClipIds', 'uploadIds'];
       for (const [key, value] of formData.entries()) {
-        if (key.startsWith('audioFile_')) {
-          audioFiles.push(value as File);
-        } else if (key.startsWith('audioDescription_')) {
-          // Audio descriptions collected but not currently used
-        } else if (key !== 'audioFilesCount') {
-          if (jsonFields.includes(key)) {
-            try {
-              storyData[key] = JSON.parse(value as string);
-            } catch {
-              storyData[key] = value as string;
-            }
-          } else {
+        if (jsonFields.includes(key)) {
+          try {
+            storyData[key] = JSON.parse(value as string);
+          } catch {
             storyData[key] = value as string;
           }
+        } else {
+          storyData[key] = value as string;
         }
       }
     } else {
@@ -372,32 +368,15 @@ const createStory = createHandler(
     
     const { tagIds, ...cleanStoryData } = validatedData;
 
-    // Process audio files
-    const uploadedAudioFiles = [];
-
-    try {
-      for (let i = 0; i < audioFiles.length; i++) {
-        const file = audioFiles[i];
-
-        const validation = validateAudioFile(file);
-        if (!validation.valid) {
-          return NextResponse.json({ error: validation.error }, { status: 400 });
-        }
-
-        const uploadedFile = await saveUploadedFile(file);
-        
-        uploadedAudioFiles.push({
-          filename: uploadedFile.filename,
-          originalName: uploadedFile.originalName,
-          url: uploadedFile.url,
-          fileSize: uploadedFile.size, // Note: database field is fileSize, not size
-          mimeType: uploadedFile.mimeType,
-          duration: uploadedFile.duration,
-          uploadedBy: user.id,
-        });
+    // Audio the browser has already uploaded straight to R2; finalised
+    // before the story is created so an unfinished upload stops the save
+    let uploadedClipIds: string[] = [];
+    if (storyData.uploadIds) {
+      const result = await finaliseAudioUploads(audioUploadIdsSchema.parse(storyData.uploadIds), user.id);
+      if (!result.clipIds) {
+        return NextResponse.json({ error: result.error }, { status: result.status });
       }
-    } catch (error) {
-      throw error;
+      uploadedClipIds = result.clipIds;
     }
 
     // Prepare create data
@@ -477,6 +456,7 @@ const createStory = createHandler(
           audioClips: {
             select: {
               id: true,
+              ...AUDIO_TRIM_SELECT,
               audioClip: {
                 select: {
                   id: true,
@@ -505,22 +485,20 @@ const createStory = createHandler(
         throw new Error('Failed to create story after retries');
       }
 
-      // Handle audio clips after story creation (need story ID for join table)
-      if (uploadedAudioFiles.length > 0) {
-        for (const audioFileData of uploadedAudioFiles) {
-          await prisma.audioClip.create({
-            data: {
-              ...audioFileData,
-              sourceStoryId: story.id,
-              stories: {
-                create: {
-                  storyId: story.id,
-                  addedBy: user.id,
-                },
-              },
-            },
-          });
-        }
+      // Link uploaded clips after story creation (need story ID for join table)
+      if (uploadedClipIds.length > 0) {
+        await prisma.audioClip.updateMany({
+          where: { id: { in: uploadedClipIds } },
+          data: { sourceStoryId: story.id },
+        });
+        await prisma.storyAudioClip.createMany({
+          data: uploadedClipIds.map(audioClipId => ({
+            storyId: story.id,
+            audioClipId,
+            addedBy: user.id,
+          })),
+          skipDuplicates: true,
+        });
       }
 
       // Link library clips if provided
@@ -557,7 +535,7 @@ const createStory = createHandler(
       }
 
       // Link audio clips from original story if this is a translation
-      if (storyData.isTranslation && storyData.originalStoryId && uploadedAudioFiles.length === 0) {
+      if (storyData.isTranslation && storyData.originalStoryId && uploadedClipIds.length === 0) {
         try {
           const originalAudioLinks = await prisma.storyAudioClip.findMany({
             where: { storyId: storyData.originalStoryId as string },
@@ -588,16 +566,6 @@ const createStory = createHandler(
 
       return NextResponse.json(story, { status: 201 });
     } catch (error) {
-      // Clean up uploaded blob files if story creation fails
-      if (uploadedAudioFiles.length > 0) {
-        for (const audioFile of uploadedAudioFiles) {
-          try {
-            await deleteAudioFile(audioFile.url);
-          } catch {
-            // Best-effort cleanup — don't mask the original error
-          }
-        }
-      }
       throw error;
     }
   },
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { logAudit, logAuditTx } from '@/lib/audit';
+import { storyGroupPublishSchema } from '@/lib/validations';
+import { canPublishStory } from '@/lib/permissions';
+import { getGroupReadiness, publishStoryGroupTx } from '@/lib/story-groups';
+import { recordTranslationMemory } from '@/lib/translation-memory';
+import { publishStoryEvent, publishDashboardEvent, createEvent } from '@/lib/ably';
+import { StaffRole } from '@prisma/client';
+
+function requestMeta(req: NextRequest) {
+  return {
+    ipAddress: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || 'unknown',
+    userAgent: req.headers.get('user-agent') || 'unknown',
+  };
+}
+
+// GET /api/newsroom/story-groups/[id]/publish - Check whether the group can be released
+const getGroupPublishStatus = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const group = await prisma.storyGroup.findUnique({ where: { id } });
+    if (!group) {
+      return NextResponse.json({ error: 'Story group not found' }, { status: 404 });
+    }
+
+    const readiness = await getGroupReadiness(id);
+
+    return NextResponse.json({
+      canPublish: readiness.ready && !group.publishedAt,
+      scheduledPublishAt: group.scheduledPublishAt,
+      publishedAt: group.publishedAt,
+      readiness,
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/story-groups/[id]/publish - Publish all member stories now, or schedule the release
+const publishGroup = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { scheduledPublishAt } = storyGroupPublishSchema.parse(body);
+
+    const group = await prisma.storyGroup.findUnique({ where: { id } });
+    if (!group) {
+      return NextResponse.json({ error: 'Story group not found' }, { status: 404 });
+    }
+
+    if (group.publishedAt) {
+      return NextResponse.json({ error: 'Story group has already been published' }, { status: 400 });
+    }
+
+    const readiness = await getGroupReadiness(id);
+    const blocking = readiness.blocking.map(s => ({
+      id: s.id,
+      title: s.title,
+      language: s.language,
+      stage: s.stage,
+      sourceChangedAt: s.sourceChangedAt,
+    }));
+
+    // Schedule for later: the cron job releases the group once it is due and ready
+    if (scheduledPublishAt) {
+      const publishAt = new Date(scheduledPublishAt);
+      if (publishAt <= new Date()) {
+        return NextResponse.json({ error: 'Scheduled publish date must be in the future' }, { status: 400 });
+      }
+
+      const updated = await prisma.storyGroup.update({
+        where: { id },
+        data: { scheduledPublishAt: publishAt },
+      });
+
+      await logAudit({
+        userId: user.id,
+        action: 'SCHEDULE_GROUP_PUBLISH',
+        details: {
+          entityType: 'STORY_GROUP',
+          entityId: id,
+          groupName: group.name,
+          scheduledFor: publishAt,
+          blockingStories: blocking.map(s => s.id),
+        },
+        ...requestMeta(req),
+        targetId: id,
+        targetType: 'STORY_GROUP',
+      });
+
+      return NextResponse.json({
+        message: 'Story group scheduled for publishing',
+        group: updated,
+        blocking,
+      });
+    }
+
+    if (!readiness.ready) {
+      return NextResponse.json(
+        {
+          error: 'All stories in the group must be APPROVED or TRANSLATED, with translations up to date with their original, before publishing',
+          blocking,
+        },
+        { status: 400 }
+      );
+    }
+
+    const publishedIds = await prisma.$transaction(async (tx) => {
+      const ids = await publishStoryGroupTx(tx, id, user.id);
+
+      await logAuditTx(tx, {
+        userId: user.id,
+        action: 'PUBLISH_STORY_GROUP',
+        details: {
+          entityType: 'STORY_GROUP',
+          entityId: id,
+          groupName: group.name,
+          storyIds: ids,
+        },
+        ...requestMeta(req),
+        targetId: id,
+        targetType: 'STORY_GROUP',
+      });
+
+      return ids;
+    });
+
+    // Published translations feed translation memory (non-blocking)
+    recordTranslationMemory(publishedIds).catch((error) => console.error('Failed to record translation memory:', error));
+
+    // Publish real-time events (non-blocking)
+    for (const storyId of publishedIds) {
+      publishStoryEvent(
+        createEvent('story:stage_changed', 'story', storyId, user.id, undefined, {
+          newStage: 'PUBLISHED',
+          storyGroupId: id,
+        })
+      ).catch(() => {});
+    }
+
+    publishDashboardEvent(
+      createEvent('dashboard:metrics_updated', 'story', id, user.id, undefined, {
+        trigger: 'group_publish',
+      })
+    ).catch(() => {});
+
+    return NextResponse.json({
+      message: 'Story group published successfully',
+      published: publishedIds.length,
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// DELETE /api/newsroom/story-groups/[id]/publish - Cancel a scheduled group release
+const cancelGroupSchedule = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const group = await prisma.storyGroup.findUnique({ where: { id } });
+    if (!group) {
+      return NextResponse.json({ error: 'Story group not found' }, { status: 404 });
+    }
+
+    if (!group.scheduledPublishAt || group.publishedAt) {
+      return NextResponse.json({ error: 'Story group is not scheduled for publishing' }, { status: 400 });
+    }
+
+    const updated = await prisma.storyGroup.update({
+      where: { id },
+      data: { scheduledPublishAt: null },
+    });
+
+    await logAudit({
+      userId: user.id,
+      action: 'CANCEL_GROUP_SCHEDULED_PUBLISH',
+      details: {
+        entityType: 'STORY_GROUP',
+        entityId: id,
+        groupName: group.name,
+        previousScheduledFor: group.scheduledPublishAt,
+      },
+      ...requestMeta(req),
+      targetId: id,
+      targetType: 'STORY_GROUP',
+    });
+
+    return NextResponse.json({ message: 'Scheduled group publishing cancelled', group: updated });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { getGroupPublishStatus as GET, publishGroup as POST, cancelGroupSchedule as DELETE };
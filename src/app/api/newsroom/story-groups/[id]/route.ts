@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { storyGroupUpdateSchema } from '@/lib/validations';
+import { canPublishStory } from '@/lib/permissions';
+import { getGroupReadiness, validateGroupMembers } from '@/lib/story-groups';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/story-groups/[id]
+const getStoryGroup = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const group = await prisma.storyGroup.findUnique({ where: { id } });
+    if (!group) {
+      return NextResponse.json({ error: 'Story group not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ group: { ...group, readiness: await getGroupReadiness(id) } });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// PATCH /api/newsroom/story-groups/[id] - Update group details and membership
+const updateStoryGroup = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const group = await prisma.storyGroup.findUnique({ where: { id } });
+    if (!group) {
+      return NextResponse.json({ error: 'Story group not found' }, { status: 404 });
+    }
+
+    if (group.publishedAt) {
+      return NextResponse.json({ error: 'Published story groups cannot be changed' }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const { addStoryIds, removeStoryIds, ...groupData } = storyGroupUpdateSchema.parse(body);
+
+    if (addStoryIds && addStoryIds.length > 0) {
+      const memberError = await validateGroupMembers(addStoryIds);
+      if (memberError) {
+        return NextResponse.json({ error: memberError }, { status: 400 });
+      }
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.storyGroup.update({
+        where: { id },
+        data: groupData,
+      });
+
+      if (addStoryIds && addStoryIds.length > 0) {
+        await tx.story.updateMany({
+          where: { id: { in: addStoryIds } },
+          data: { storyGroupId: id },
+        });
+      }
+
+      if (removeStoryIds && removeStoryIds.length > 0) {
+        await tx.story.updateMany({
+          where: { id: { in: removeStoryIds }, storyGroupId: id },
+          data: { storyGroupId: null },
+        });
+      }
+    });
+
+    const updated = await prisma.storyGroup.findUnique({ where: { id } });
+    return NextResponse.json({ group: { ...updated, readiness: await getGroupReadiness(id) } });
+  },
+  [withErrorHandling, withAuth, withAudit('story_group.update')]
+);
+
+// DELETE /api/newsroom/story-groups/[id] - Ungroup stories and delete the group
+const deleteStoryGroup = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const group = await prisma.storyGroup.findUnique({ where: { id } });
+    if (!group) {
+      return NextResponse.json({ error: 'Story group not found' }, { status: 404 });
+    }
+
+    await prisma.$transaction([
+      prisma.story.updateMany({
+        where: { storyGroupId: id },
+        data: { storyGroupId: null },
+      }),
+      prisma.storyGroup.delete({ where: { id } }),
+    ]);
+
+    return NextResponse.json({ message: 'Story group deleted' });
+  },
+  [withErrorHandling, withAuth, withAudit('story_group.delete')]
+);
+
+export { getStoryGroup as GET, updateStoryGroup as PATCH, deleteStoryGroup as DELETE };
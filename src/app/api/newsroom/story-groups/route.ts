@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { storyGroupCreateSchema } from '@/lib/validations';
+import { canPublishStory } from '@/lib/permissions';
+import { getGroupReadiness, validateGroupMembers } from '@/lib/story-groups';
+import { StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/story-groups - List story groups with per-language readiness
+const listStoryGroups = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const includePublished = req.nextUrl.searchParams.get('includePublished') === 'true';
+
+    const groups = await prisma.storyGroup.findMany({
+      where: includePublished ? {} : { publishedAt: null },
+      orderBy: [{ scheduledPublishAt: { sort: 'asc', nulls: 'last' } }, { updatedAt: 'desc' }],
+    });
+
+    const groupsWithReadiness = await Promise.all(
+      groups.map(async (group) => ({
+        ...group,
+        readiness: await getGroupReadiness(group.id),
+      }))
+    );
+
+    return NextResponse.json({ groups: groupsWithReadiness });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/story-groups - Create a story group from existing stories
+const createStoryGroup = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canPublishStory(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const data = storyGroupCreateSchema.parse(body);
+
+    const memberError = await validateGroupMembers(data.storyIds);
+    if (memberError) {
+      return NextResponse.json({ error: memberError }, { status: 400 });
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      const created = await tx.storyGroup.create({
+        data: {
+          name: data.name,
+          description: data.description,
+          publishTogether: data.publishTogether,
+        },
+      });
+
+      await tx.story.updateMany({
+        where: { id: { in: data.storyIds } },
+        data: { storyGroupId: created.id },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(
+      { group: { ...group, readiness: await getGroupReadiness(group.id) } },
+      { status: 201 }
+    );
+  },
+  [withErrorHandling, withAuth, withAudit('story_group.create')]
+);
+
+export { listStoryGroups as GET, createStoryGroup as POST };
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling } from '@/lib/api-handler';
+import { audioUploadPartsSchema } from '@/lib/validations';
+import { presignUploadPart } from '@/lib/r2-storage';
+import { partCount } from '@/lib/resumable-upload';
+
+// POST /api/newsroom/uploads/[id]/parts - Presigned URLs for sending parts straight to R2
+const presignParts = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string } }).user;
+
+    const upload = await prisma.audioUpload.findUnique({ where: { id } });
+
+    if (!upload || upload.uploadedBy !== user.id) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    if (upload.status !== 'UPLOADING') {
+      return NextResponse.json({ error: 'Upload is already finished' }, { status: 409 });
+    }
+
+    const { partNumbers } = audioUploadPartsSchema.parse(await req.json());
+
+    const total = partCount(upload.fileSize, upload.partSize);
+    if (partNumbers.some(partNumber => partNumber > total)) {
+      return NextResponse.json({ error: `This upload has ${total} part${total === 1 ? '' : 's'}` }, { status: 400 });
+    }
+
+    const parts = await Promise.all(
+      partNumbers.map(async (partNumber) => ({
+        partNumber,
+        url: await presignUploadPart(upload.key, upload.uploadId, partNumber),
+      }))
+    );
+
+    return NextResponse.json({ parts });
+  },
+  [withErrorHandling, withAuth]
+);
+
+export { presignParts as POST };
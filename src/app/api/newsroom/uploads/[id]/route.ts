@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { listUploadedParts } from '@/lib/r2-storage';
+import { abortAudioUpload } from '@/lib/audio-uploads';
+
+// GET /api/newsroom/uploads/[id] - Upload status, with the parts R2 has received so far
+const getUpload = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string } }).user;
+
+    const upload = await prisma.audioUpload.findUnique({ where: { id } });
+
+    // Uploads are only visible to whoever started them
+    if (!upload || upload.uploadedBy !== user.id) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    const parts = upload.status === 'UPLOADING'
+      ? await listUploadedParts(upload.key, upload.uploadId)
+      : [];
+
+    return NextResponse.json({
+      upload: {
+        id: upload.id,
+        originalName: upload.originalName,
+        fileSize: upload.fileSize,
+        partSize: upload.partSize,
+        status: upload.status,
+        audioClipId: upload.audioClipId,
+        parts: parts.map(part => part.partNumber),
+      },
+    });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// DELETE /api/newsroom/uploads/[id] - Cancel an unfinished upload
+const cancelUpload = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string } }).user;
+
+    const upload = await prisma.audioUpload.findUnique({ where: { id } });
+
+    if (!upload || upload.uploadedBy !== user.id) {
+      return NextResponse.json({ error: 'Upload not found' }, { status: 404 });
+    }
+
+    if (upload.status !== 'UPLOADING' && upload.status !== 'ASSEMBLED') {
+      return NextResponse.json({ error: 'Upload is already finished' }, { status: 409 });
+    }
+
+    await abortAudioUpload(upload);
+
+    return NextResponse.json({ success: true });
+  },
+  [withErrorHandling, withAuth, withAudit('audio.upload.cancel')]
+);
+
+export { getUpload as GET, cancelUpload as DELETE };
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { audioUploadStartSchema } from '@/lib/validations';
+import { validateAudioUpload } from '@/lib/r2-storage';
+import { startAudioUpload } from '@/lib/audio-uploads';
+
+// POST /api/newsroom/uploads - Start a direct-to-R2 multipart audio upload
+const startUpload = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: string | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const data = audioUploadStartSchema.parse(await req.json());
+
+    const validation = validateAudioUpload(data);
+    if (!validation.valid) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const upload = await startAudioUpload(data, user.id);
+
+    return NextResponse.json({
+      upload: {
+        id: upload.id,
+        partSize: upload.partSize,
+        status: upload.status,
+      },
+    }, { status: 201 });
+  },
+  [withErrorHandling, withAuth, withAudit('audio.upload.start')]
+);
+
+export { startUpload as POST };
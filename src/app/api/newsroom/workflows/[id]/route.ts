@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { workflowUpdateSchema } from '@/lib/validations';
+import { canManageWorkflows } from '@/lib/permissions';
+import { validateWorkflowDefinition } from '@/lib/workflow';
+import { toWorkflowDefinition, workflowInclude } from '@/lib/workflow-resolver';
+import { Prisma, StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/workflows/[id]
+const getWorkflow = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const workflow = await prisma.workflow.findUnique({ where: { id }, include: workflowInclude });
+    if (!workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ workflow });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// PATCH /api/newsroom/workflows/[id] - Update stages, transitions and desks
+const updateWorkflow = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageWorkflows(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const existing = await prisma.workflow.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    const body = await req.json();
+    const { categoryIds, transitions, ...data } = workflowUpdateSchema.parse(body);
+
+    // Validate the definition as it will look after the update
+    const current = toWorkflowDefinition(existing);
+    const definitionError = validateWorkflowDefinition({
+      name: data.name ?? current.name,
+      stages: data.stages ?? current.stages,
+      requiresTranslation: data.requiresTranslation ?? current.requiresTranslation,
+      overrideRoles: data.overrideRoles ?? current.overrideRoles,
+      unpublishRoles: data.unpublishRoles ?? current.unpublishRoles,
+      transitions: transitions ?? current.transitions,
+    });
+    if (definitionError) {
+      return NextResponse.json({ error: definitionError }, { status: 400 });
+    }
+
+    if (data.name && data.name !== existing.name) {
+      const duplicate = await prisma.workflow.findUnique({ where: { name: data.name } });
+      if (duplicate) {
+        return NextResponse.json({ error: 'A workflow with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const workflow = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.workflow.updateMany({ where: { isDefault: true, id: { not: id } }, data: { isDefault: false } });
+      }
+
+      return tx.workflow.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(transitions && { transitions: transitions as unknown as Prisma.InputJsonValue }),
+          ...(categoryIds && { categories: { set: categoryIds.map((categoryId) => ({ id: categoryId })) } }),
+        },
+        include: workflowInclude,
+      });
+    });
+
+    return NextResponse.json({ workflow });
+  },
+  [withErrorHandling, withAuth, withAudit('workflow.update')]
+);
+
+// DELETE /api/newsroom/workflows/[id] - Desks using it fall back to the default workflow
+const deleteWorkflow = createHandler(
+  async (req: NextRequest, { params }: { params: Promise<Record<string, string>> }) => {
+    const { id } = await params;
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageWorkflows(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const workflow = await prisma.workflow.findUnique({ where: { id } });
+    if (!workflow) {
+      return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
+    }
+
+    await prisma.workflow.delete({ where: { id } });
+
+    return NextResponse.json({ message: 'Workflow deleted' });
+  },
+  [withErrorHandling, withAuth, withAudit('workflow.delete')]
+);
+
+export { getWorkflow as GET, updateWorkflow as PATCH, deleteWorkflow as DELETE };
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { createHandler, withAuth, withErrorHandling, withAudit } from '@/lib/api-handler';
+import { workflowCreateSchema } from '@/lib/validations';
+import { canManageWorkflows } from '@/lib/permissions';
+import { validateWorkflowDefinition } from '@/lib/workflow';
+import { getDefaultWorkflow, workflowInclude } from '@/lib/workflow-resolver';
+import { Prisma, StaffRole } from '@prisma/client';
+
+// GET /api/newsroom/workflows - List workflows and the one stories fall back to
+const listWorkflows = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!user.staffRole) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const [workflows, defaultWorkflow] = await Promise.all([
+      prisma.workflow.findMany({
+        include: workflowInclude,
+        orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      }),
+      getDefaultWorkflow(),
+    ]);
+
+    return NextResponse.json({ workflows, defaultWorkflow });
+  },
+  [withErrorHandling, withAuth]
+);
+
+// POST /api/newsroom/workflows - Create a workflow and assign it to desks
+const createWorkflow = createHandler(
+  async (req: NextRequest) => {
+    const user = (req as NextRequest & { user: { id: string; staffRole: StaffRole | null } }).user;
+
+    if (!canManageWorkflows(user.staffRole)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const body = await req.json();
+    const { categoryIds, ...data } = workflowCreateSchema.parse(body);
+
+    const definitionError = validateWorkflowDefinition(data);
+    if (definitionError) {
+      return NextResponse.json({ error: definitionError }, { status: 400 });
+    }
+
+    const existing = await prisma.workflow.findUnique({ where: { name: data.name } });
+    if (existing) {
+      return NextResponse.json({ error: 'A workflow with this name already exists' }, { status: 409 });
+    }
+
+    const workflow = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.workflow.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+
+      return tx.workflow.create({
+        data: {
+          ...data,
+          transitions: data.transitions as unknown as Prisma.InputJsonValue,
+          categories: { connect: categoryIds.map((id) => ({ id })) },
+        },
+        include: workflowInclude,
+      });
+    });
+
+    return NextResponse.json({ workflow }, { status: 201 });
+  },
+  [withErrorHandling, withAuth, withAudit('workflow.create')]
+);
+
+export { listWorkflows as GET, createWorkflow as POST };
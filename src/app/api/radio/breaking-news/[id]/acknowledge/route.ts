@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+
+// POST /api/radio/breaking-news/[id]/acknowledge - Acknowledge an alert on behalf of the user's station
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const stationId = session.user.userType === 'RADIO' ? session.user.radioStationId : null;
+    if (!stationId) {
+      return NextResponse.json(
+        { error: 'Only station users can acknowledge alerts' },
+        { status: 403 }
+      );
+    }
+
+    const recipient = await prisma.breakingNewsAlertStation.findUnique({
+      where: { alertId_stationId: { alertId: id, stationId } },
+    });
+
+    if (!recipient) {
+      return NextResponse.json(
+        { error: 'Alert not found' },
+        { status: 404 }
+      );
+    }
+
+    // The first acknowledgement from anyone at the station stands
+    if (recipient.acknowledgedAt) {
+      return NextResponse.json({
+        message: 'Alert already acknowledged',
+        acknowledgedAt: recipient.acknowledgedAt,
+      });
+    }
+
+    const acknowledged = await prisma.breakingNewsAlertStation.update({
+      where: { id: recipient.id },
+      data: { acknowledgedAt: new Date(), acknowledgedById: session.user.id },
+    });
+
+    return NextResponse.json({
+      message: 'Alert acknowledged',
+      acknowledgedAt: acknowledged.acknowledgedAt,
+    });
+
+  } catch (error) {
+    console.error('Error acknowledging breaking news alert:', error);
+    return NextResponse.json(
+      { error: 'Failed to acknowledge alert' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { breakingNewsUrl } from '@/lib/breaking-news';
+
+// GET /api/radio/breaking-news - Breaking news alerts the user's station hasn't acknowledged
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Alerts go to stations; staff previewing the station zone have none
+    const stationId = session.user.userType === 'RADIO' ? session.user.radioStationId : null;
+    if (!stationId) {
+      return NextResponse.json({ alerts: [] });
+    }
+
+    const pending = await prisma.breakingNewsAlertStation.findMany({
+      where: { stationId, acknowledgedAt: null },
+      include: {
+        alert: {
+          select: { id: true, headline: true, message: true, storyId: true, bulletinId: true, createdAt: true },
+        },
+      },
+      orderBy: { alert: { createdAt: 'desc' } },
+    });
+
+    return NextResponse.json({
+      alerts: pending.map(({ alert }) => ({ ...alert, url: breakingNewsUrl(alert) })),
+    });
+
+  } catch (error) {
+    console.error('Error fetching breaking news alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch breaking news alerts' },
+      { status: 500 }
+    );
+  }
+}
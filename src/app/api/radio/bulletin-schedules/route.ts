@@ -2,9 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
+import { bulletinDayOf, formatBulletinDay, parseBulletinDay, resolveScheduleType } from '@/lib/bulletin-generation';
 
-// GET /api/radio/bulletin-schedules - Get active bulletin schedules
-export async function GET(_req: NextRequest) {
+// GET /api/radio/bulletin-schedules - Get the active bulletin schedules running on a day
+// (today in South Africa unless ?date=YYYY-MM-DD is given)
+export async function GET(req: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
 
@@ -18,7 +21,7 @@ export async function GET(_req: NextRequest) {
       include: { radioStation: true },
     });
 
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa'];
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES;
 
     if (session.user.userType === 'RADIO') {
       if (!user?.radioStation) {
@@ -51,9 +54,17 @@ export async function GET(_req: NextRequest) {
 
     const languageEnums = allowedLanguages.map(l => languageMap[l] || l.toUpperCase());
 
+    const dateParam = req.nextUrl.searchParams.get('date');
+    const day = dateParam ? parseBulletinDay(dateParam) : bulletinDayOf();
+    if (!day) {
+      return NextResponse.json({ error: 'date must be in YYYY-MM-DD format' }, { status: 400 });
+    }
+    const { scheduleType, holiday } = await resolveScheduleType(day);
+
     const schedules = await prisma.bulletinSchedule.findMany({
       where: {
         isActive: true,
+        scheduleType,
         language: { in: languageEnums as any },
       },
       select: {
@@ -81,6 +92,9 @@ export async function GET(_req: NextRequest) {
 
     return NextResponse.json({
       schedules: transformedSchedules,
+      date: formatBulletinDay(day),
+      scheduleType,
+      holiday,
     });
   } catch (error) {
     console.error('Error fetching bulletin schedules:', error);
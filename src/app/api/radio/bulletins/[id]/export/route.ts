@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { LANGUAGE_DISPLAY_NAMES } from '@/lib/language-utils';
+import { isStoryAvailableToStation, resolveStationAccess } from '@/lib/station-access';
+import { isReleasedToStation, releasedToStationWhere } from '@/lib/release-window';
+import { AUDIO_TRIM_SELECT, usageAudioClip, type AudioTrim } from '@/lib/audio-trim';
+import { renderTrimmedAudio, type TrimSource } from '@/lib/audio-processing';
+import {
+  BULLETIN_EXPORT_FORMATS,
+  buildBulletinScript,
+  isBulletinExportFormat,
+  renderBulletinExport,
+  type BulletinExportFormat,
+} from '@/lib/bulletin-export';
+
+const PLAYLIST_FORMATS: BulletinExportFormat[] = ['m3u', 'xspf'];
+
+function exportFilename(title: string, extension: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'bulletin'}.${extension}`;
+}
+
+// Stored address of a trimmed clip, or null to fall back to the render address
+async function renderedUrl(clip: TrimSource, trim: AudioTrim): Promise<string | null> {
+  try {
+    return await renderTrimmedAudio(clip, trim);
+  } catch (error) {
+    console.error('Error rendering trimmed audio for export:', error);
+    return null;
+  }
+}
+
+// GET /api/radio/bulletins/[id]/export?format=pdf|txt|ssml|m3u|xspf - Download a bulletin for broadcast
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const format = req.nextUrl.searchParams.get('format') ?? 'pdf';
+    if (!isBulletinExportFormat(format)) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 });
+    }
+
+    const result = await resolveStationAccess(session.user);
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { access } = result;
+
+    const bulletin = await prisma.bulletin.findUnique({
+      where: { id },
+      include: {
+        schedule: {
+          select: {
+            title: true,
+            time: true,
+          },
+        },
+        bulletinStories: {
+          // Stories still embargoed or exclusive to other stations are left out
+          where: { story: releasedToStationWhere(access) },
+          include: {
+            story: {
+              include: {
+                category: {
+                  select: {
+                    name: true,
+                    parentId: true,
+                  },
+                },
+                classifications: {
+                  select: {
+                    classification: {
+                      select: {
+                        type: true,
+                        name: true,
+                      },
+                    },
+                  },
+                },
+                audioClips: {
+                  select: {
+                    id: true,
+                    ...AUDIO_TRIM_SELECT,
+                    audioClip: {
+                      select: {
+                        url: true,
+                        filename: true,
+                        mimeType: true,
+                        duration: true,
+                        processedAt: true,
+                        originalName: true,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          orderBy: { order: 'asc' },
+        },
+      },
+    });
+
+    // Only allow access to published bulletins for radio users
+    if (!bulletin || (session.user.userType === 'RADIO' && bulletin.status !== 'PUBLISHED')) {
+      return NextResponse.json({ error: 'Bulletin not found' }, { status: 404 });
+    }
+
+    if (!isReleasedToStation(bulletin, access)) {
+      return NextResponse.json({ error: 'Bulletin not yet released to this station' }, { status: 403 });
+    }
+
+    if (!access.allowedLanguages.includes(LANGUAGE_DISPLAY_NAMES[bulletin.language])) {
+      return NextResponse.json({ error: 'Bulletin language not available to this station' }, { status: 403 });
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin;
+    const stories = bulletin.bulletinStories
+      .map(bs => bs.story)
+      .filter(story => isStoryAvailableToStation(story, access));
+
+    // Playout systems fetch playlist entries without a session, so trims are
+    // rendered up front, one at a time, and listed at their stored address
+    const playlist = PLAYLIST_FORMATS.includes(format);
+    const scriptStories = [];
+    for (const story of stories) {
+      const audioClips = [];
+      for (const sac of story.audioClips) {
+        const clip = usageAudioClip('story', sac);
+        const url = clip.trim && playlist ? await renderedUrl(sac.audioClip, clip.trim) : null;
+        audioClips.push({ ...clip, url: url ?? new URL(clip.url, appUrl).toString() });
+      }
+      scriptStories.push({ ...story, audioClips });
+    }
+
+    const script = buildBulletinScript({ ...bulletin, stories: scriptStories });
+
+    const { contentType, extension } = BULLETIN_EXPORT_FORMATS[format];
+    const body = renderBulletinExport(script, format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${exportFilename(bulletin.title, extension)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting radio bulletin:', error);
+    return NextResponse.json({ error: 'Failed to export bulletin' }, { status: 500 });
+  }
+}
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { getBulletinCorrections } from '@/lib/bulletin-revisions';
+import { resolveStationAccess } from '@/lib/station-access';
+import { isReleasedToStation, releasedToStationWhere } from '@/lib/release-window';
+import { AUDIO_TRIM_SELECT, usageAudioClip } from '@/lib/audio-trim';
 
 // GET /api/radio/bulletins/[id] - Get a single published bulletin
 export async function GET(
@@ -16,6 +20,12 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    const result = await resolveStationAccess(session.user);
+    if (result.error !== undefined) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { access } = result;
+
     const bulletin = await prisma.bulletin.findUnique({
       where: { id },
       include: {
@@ -41,6 +51,8 @@ export async function GET(
           },
         },
         bulletinStories: {
+          // Stories still embargoed or exclusive to other stations are left out
+          where: { story: releasedToStationWhere(access) },
           include: {
             story: {
               include: {
@@ -61,6 +73,7 @@ export async function GET(
                 audioClips: {
                   select: {
                     id: true,
+                    ...AUDIO_TRIM_SELECT,
                     audioClip: {
                       select: {
                         id: true,
@@ -90,6 +103,11 @@ export async function GET(
       return NextResponse.json({ error: 'Bulletin not found' }, { status: 404 });
     }
 
+    // Embargoed or exclusive bulletins stay hidden until released to the station
+    if (!isReleasedToStation(bulletin, access)) {
+      return NextResponse.json({ error: 'Bulletin not yet released to this station' }, { status: 403 });
+    }
+
     const reverseLanguageMap: Record<string, string> = {
       'ENGLISH': 'English',
       'AFRIKAANS': 'Afrikaans',
@@ -105,12 +123,15 @@ export async function GET(
         story: {
           ...bs.story,
           audioUrl: bs.story.audioClips?.[0]?.audioClip?.url || null,
-          audioClips: bs.story.audioClips?.map((sac: any) => sac.audioClip) || [],
+          audioClips: bs.story.audioClips?.map((sac: any) => usageAudioClip('story', sac)) || [],
         },
       })),
     };
 
-    return NextResponse.json({ bulletin: transformed });
+    // Corrections issued since publishing, with what each one changed
+    const corrections = bulletin.correctedAt ? await getBulletinCorrections(id) : [];
+
+    return NextResponse.json({ bulletin: { ...transformed, corrections } });
   } catch (error) {
     console.error('Error fetching radio bulletin:', error);
     return NextResponse.json({ error: 'Failed to fetch bulletin' }, { status: 500 });
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
+import { stationAccessFor, STAFF_STATION_ACCESS } from '@/lib/station-access';
+import { releasedToStationWhere } from '@/lib/release-window';
+import { AUDIO_TRIM_SELECT, usageAudioClip } from '@/lib/audio-trim';
 
 // GET /api/radio/bulletins - Get published bulletins for radio stations
 export async function GET(req: NextRequest) {
@@ -18,7 +22,7 @@ export async function GET(req: NextRequest) {
       include: { radioStation: true },
     });
 
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa'];
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES;
 
     if (session.user.userType === 'RADIO') {
       if (!user?.radioStation) {
@@ -56,9 +60,12 @@ export async function GET(req: NextRequest) {
       languageFilter = allowedLanguages.map(l => languageMap[l] || l.toUpperCase());
     }
 
+    const access = user?.radioStation ? stationAccessFor(user.radioStation) : STAFF_STATION_ACCESS;
     const where: any = {
       status: 'PUBLISHED' as const,
       language: { in: languageFilter as any },
+      // Held back while embargoed or exclusive to other stations
+      ...releasedToStationWhere(access),
     };
 
     // Filter by schedule if specified
@@ -92,6 +99,8 @@ export async function GET(req: NextRequest) {
             },
           },
           bulletinStories: {
+            // Stories still embargoed or exclusive to other stations are left out
+            where: { story: releasedToStationWhere(access) },
             include: {
               story: {
                 select: {
@@ -101,6 +110,7 @@ export async function GET(req: NextRequest) {
                   audioClips: {
                     select: {
                       id: true,
+                      ...AUDIO_TRIM_SELECT,
                       audioClip: {
                         select: {
                           id: true,
@@ -143,7 +153,7 @@ export async function GET(req: NextRequest) {
         story: {
           ...bs.story,
           audioUrl: bs.story.audioClips?.[0]?.audioClip?.url || null,
-          audioClips: bs.story.audioClips?.map((sac: any) => sac.audioClip) || [],
+          audioClips: bs.story.audioClips?.map((sac: any) => usageAudioClip('story', sac)) || [],
         },
       })),
     }));
@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { ClassificationType } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 // GET /api/radio/categories - Get categories available to the radio station
 export async function GET(_req: NextRequest) {
@@ -47,7 +48,7 @@ export async function GET(_req: NextRequest) {
       station = {
         id: 'staff-access',
         name: 'Newskoop',
-        allowedLanguages: ['English', 'Afrikaans', 'Xhosa'],
+        allowedLanguages: DEFAULT_STATION_LANGUAGES,
         allowedReligions: ['Christian', 'Muslim', 'Neutral'],
         hasContentAccess: true,
         isActive: true,
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+
+// DELETE /api/radio/feed-tokens/[id] - Revoke a feed token; feeds using it stop working
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.userType !== 'RADIO') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { isPrimaryContact: true, radioStationId: true },
+    });
+
+    if (!user?.isPrimaryContact) {
+      return NextResponse.json(
+        { error: 'Only the primary contact can manage feed tokens' },
+        { status: 403 }
+      );
+    }
+
+    const feedToken = await prisma.stationFeedToken.findUnique({ where: { id } });
+
+    if (!feedToken || feedToken.stationId !== user.radioStationId) {
+      return NextResponse.json({ error: 'Feed token not found' }, { status: 404 });
+    }
+
+    if (!feedToken.revokedAt) {
+      await prisma.stationFeedToken.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: session.user.id,
+          action: 'station.feed_token.revoke',
+          entityType: 'STATION',
+          entityId: feedToken.stationId,
+          metadata: { feedTokenId: id, label: feedToken.label },
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking feed token:', error);
+    return NextResponse.json({ error: 'Failed to revoke feed token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getServerSession } from 'next-auth';
+import { authOptions, generateToken } from '@/lib/auth';
+import { feedTokenCreateSchema } from '@/lib/validations';
+import { hashFeedToken } from '@/lib/station-access';
+
+const feedTokenSelect = {
+  id: true,
+  label: true,
+  tokenHint: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} as const;
+
+// GET /api/radio/feed-tokens - The station's RSS feed tokens
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Feed tokens belong to stations; staff previewing the station zone have none
+    const stationId = session.user.userType === 'RADIO' ? session.user.radioStationId : null;
+    if (!stationId) {
+      return NextResponse.json({ tokens: [] });
+    }
+
+    const tokens = await prisma.stationFeedToken.findMany({
+      where: { stationId },
+      select: feedTokenSelect,
+      orderBy: [{ revokedAt: { sort: 'desc', nulls: 'first' } }, { createdAt: 'desc' }],
+    });
+
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    console.error('Error fetching feed tokens:', error);
+    return NextResponse.json({ error: 'Failed to fetch feed tokens' }, { status: 500 });
+  }
+}
+
+// POST /api/radio/feed-tokens - Issue a feed token for a playout system or podcast app
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.userType !== 'RADIO') {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { isPrimaryContact: true, radioStationId: true },
+    });
+
+    if (!user?.radioStationId) {
+      return NextResponse.json({ error: 'User is not associated with a station' }, { status: 400 });
+    }
+
+    if (!user.isPrimaryContact) {
+      return NextResponse.json(
+        { error: 'Only the primary contact can manage feed tokens' },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { label } = feedTokenCreateSchema.parse(body);
+
+    // Only the hash is stored, so this response is the one chance to copy the token
+    const token = generateToken(24);
+    const feedToken = await prisma.stationFeedToken.create({
+      data: {
+        stationId: user.radioStationId,
+        tokenHash: hashFeedToken(token),
+        tokenHint: token.slice(-4),
+        label,
+        createdById: session.user.id,
+      },
+      select: feedTokenSelect,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.user.id,
+        action: 'station.feed_token.create',
+        entityType: 'STATION',
+        entityId: user.radioStationId,
+        metadata: { feedTokenId: feedToken.id, label },
+      },
+    });
+
+    return NextResponse.json({ token: { ...feedToken, token } }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating feed token:', error);
+    return NextResponse.json({ error: 'Failed to create feed token' }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { Prisma, ClassificationType } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function flattenPodcastEpisodeAudio(episode: any) {
@@ -28,7 +29,7 @@ export async function GET(req: NextRequest) {
     });
 
     let station = null;
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa'];
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES;
     let blockedCategories: string[] = [];
 
     if (session.user.userType === 'RADIO') {
@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { Prisma, ClassificationType } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 // GET /api/radio/podcasts - Get filtered podcasts for radio stations
 export async function GET(req: NextRequest) {
@@ -19,7 +20,7 @@ export async function GET(req: NextRequest) {
     });
 
     let station = null;
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa'];
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES;
     let _allowedReligions = ['Christian', 'Muslim', 'Neutral'];
     let blockedCategories: string[] = [];
 
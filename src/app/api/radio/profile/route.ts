@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 const updateProfileSchema = z.object({
   firstName: z.string().min(1, 'First name is required').optional(),
@@ -40,7 +41,7 @@ export async function GET() {
       station = {
         id: 'staff-access',
         name: 'Newskoop',
-        allowedLanguages: ['English', 'Afrikaans', 'Xhosa'],
+        allowedLanguages: DEFAULT_STATION_LANGUAGES,
         hasContentAccess: true,
         isActive: true,
         province: 'GAUTENG',
@@ -94,7 +95,7 @@ export async function PATCH(request: NextRequest) {
       // For STAFF users, allow any of the standard languages
       const allowedLanguages = session.user.userType === 'RADIO' && user?.radioStation
         ? user.radioStation.allowedLanguages
-        : ['English', 'Afrikaans', 'Xhosa'];
+        : DEFAULT_STATION_LANGUAGES;
 
       if (!allowedLanguages.includes(validatedData.defaultLanguagePreference)) {
         return NextResponse.json(
@@ -3,6 +3,9 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { ClassificationType } from '@prisma/client';
+import { stationAccessFor } from '@/lib/station-access';
+import { releasedToStationWhere } from '@/lib/release-window';
+import { AUDIO_TRIM_SELECT, usageAudioClip } from '@/lib/audio-trim';
 
 // GET /api/radio/recent-stories - Get recent stories by category
 export async function GET(req: NextRequest) {
@@ -103,21 +106,26 @@ export async function GET(req: NextRequest) {
             },
           },
         },
-        // Must have at least one allowed religion classification
-        AND: {
-          classifications: {
-            some: {
-              classificationId: {
-                in: religionClassifications.map(c => c.id),
+        AND: [
+          // Must have at least one allowed religion classification
+          {
+            classifications: {
+              some: {
+                classificationId: {
+                  in: religionClassifications.map(c => c.id),
+                },
               },
             },
           },
-        },
+          // Held back while embargoed or exclusive to other stations
+          releasedToStationWhere(stationAccessFor(station)),
+        ],
       },
       include: {
         audioClips: {
           select: {
             id: true,
+            ...AUDIO_TRIM_SELECT,
             audioClip: {
               select: {
                 id: true,
@@ -144,7 +152,7 @@ export async function GET(req: NextRequest) {
         title: story.title,
         content: story.content,
         publishedAt: story.publishedAt,
-        audioClips: story.audioClips.map((sac: any) => sac.audioClip),
+        audioClips: story.audioClips.map((sac: any) => usageAudioClip('story', sac)),
         tags: story.tags.map(t => t.tag),
       })),
       category: {
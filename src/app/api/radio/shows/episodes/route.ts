@@ -3,6 +3,8 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { Prisma, ClassificationType } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
+import { usageAudioClip } from '@/lib/audio-trim';
 
 // Flatten episode audioClips from join-table format to flat AudioClip objects
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -10,7 +12,7 @@ function flattenEpisodeAudio(episode: any) {
   if (!episode) return episode;
   return {
     ...episode,
-    audioClips: episode.audioClips?.map((eac: any) => eac.audioClip) || [],
+    audioClips: episode.audioClips?.map((eac: any) => usageAudioClip('episode', eac)) || [],
   };
 }
 
@@ -30,7 +32,7 @@ export async function GET(req: NextRequest) {
     });
 
     let station = null;
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa'];
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES;
     let blockedCategories: string[] = [];
 
     if (session.user.userType === 'RADIO') {
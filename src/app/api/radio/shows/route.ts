@@ -3,6 +3,7 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { Prisma, ClassificationType } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 // GET /api/radio/shows - Get filtered shows for radio stations
 export async function GET(req: NextRequest) {
@@ -25,7 +26,7 @@ export async function GET(req: NextRequest) {
 
     // Handle different user types
     let station = null;
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa']; // Default for STAFF users
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES; // Default for STAFF users
     let _allowedReligions = ['Christian', 'Muslim', 'Neutral'];
     let blockedCategories: string[] = [];
 
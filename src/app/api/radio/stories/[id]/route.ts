@@ -3,6 +3,9 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { ClassificationType } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
+import { stationAccessFor } from '@/lib/station-access';
+import { isReleasedToStation } from '@/lib/release-window';
 
 // GET /api/radio/stories/[id] - Get individual story for radio stations
 export async function GET(
@@ -29,7 +32,7 @@ export async function GET(
 
     // Handle different user types
     let station = null;
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa']; // Default for STAFF users
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES; // Default for STAFF users
     let _hasContentAccess = true;
 
     if (session.user.userType === 'RADIO') {
@@ -58,7 +61,7 @@ export async function GET(
       station = {
         id: 'staff-access',
         name: 'Newskoop',
-        allowedLanguages: ['English', 'Afrikaans', 'Xhosa'],
+        allowedLanguages: DEFAULT_STATION_LANGUAGES,
         allowedReligions: ['Christian', 'Muslim', 'Neutral'],
         hasContentAccess: true,
         isActive: true,
@@ -139,6 +142,14 @@ export async function GET(
       );
     }
 
+    // Check if story is embargoed or exclusive to other stations
+    if (session.user.userType === 'RADIO' && user?.radioStation && !isReleasedToStation(story, stationAccessFor(user.radioStation))) {
+      return NextResponse.json(
+        { error: 'Story not available' },
+        { status: 403 }
+      );
+    }
+
     // Check if story category is blocked by station
     if (story.categoryId && (station as any).blockedCategories?.includes(story.categoryId)) {
       return NextResponse.json(
@@ -3,6 +3,10 @@ import { prisma } from '@/lib/prisma';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { ClassificationType } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
+import { stationAccessFor, STAFF_STATION_ACCESS } from '@/lib/station-access';
+import { releasedToStationWhere } from '@/lib/release-window';
+import { AUDIO_TRIM_SELECT, usageAudioClip } from '@/lib/audio-trim';
 
 // GET /api/radio/stories - Get filtered stories for radio stations
 export async function GET(req: NextRequest) {
@@ -25,7 +29,7 @@ export async function GET(req: NextRequest) {
 
     // Handle different user types
     let station = null;
-    let allowedLanguages = ['English', 'Afrikaans', 'Xhosa']; // Default for STAFF users
+    let allowedLanguages = DEFAULT_STATION_LANGUAGES; // Default for STAFF users
     let _hasContentAccess = true;
 
     if (session.user.userType === 'RADIO') {
@@ -54,7 +58,7 @@ export async function GET(req: NextRequest) {
       station = {
         id: 'staff-access',
         name: 'Newskoop',
-        allowedLanguages: ['English', 'Afrikaans', 'Xhosa'],
+        allowedLanguages: DEFAULT_STATION_LANGUAGES,
         allowedReligions: ['Christian', 'Muslim', 'Neutral'],
         hasContentAccess: true,
         isActive: true,
@@ -174,10 +178,16 @@ export async function GET(req: NextRequest) {
       whereClause.categoryId = 'invalid-category-id';
     }
 
+    // Embargoed and exclusive stories are held back until released to this station
+    const releaseWhere = releasedToStationWhere(
+      session.user.userType === 'RADIO' && user?.radioStation ? stationAccessFor(user.radioStation) : STAFF_STATION_ACCESS
+    );
+
     // Build shared filter for both count and findMany
     const sharedWhere = {
       ...whereClause,
       AND: [
+        releaseWhere,
         // Must have at least one allowed language classification
         {
           classifications: {
@@ -234,6 +244,7 @@ export async function GET(req: NextRequest) {
           audioClips: {
             select: {
               id: true,
+              ...AUDIO_TRIM_SELECT,
               audioClip: {
                 select: {
                   id: true,
@@ -259,7 +270,7 @@ export async function GET(req: NextRequest) {
       ...story,
       tags: story.tags.map((st: any) => st.tag),
       classifications: story.classifications.map((sc: any) => sc.classification),
-      audioClips: story.audioClips.map((sac: any) => sac.audioClip),
+      audioClips: story.audioClips.map((sac: any) => usageAudioClip('story', sac)),
     }));
 
     const responseData = {
@@ -272,7 +283,7 @@ export async function GET(req: NextRequest) {
       },
       station: {
         name: station?.name || 'Newskoop',
-        allowedLanguages: station?.allowedLanguages || ['English', 'Afrikaans', 'Xhosa'],
+        allowedLanguages: station?.allowedLanguages || DEFAULT_STATION_LANGUAGES,
         allowedReligions: station?.allowedReligions || ['Christian', 'Muslim', 'Neutral'],
       },
     };
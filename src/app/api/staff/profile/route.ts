@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 const updateProfileSchema = z.object({
   firstName: z.string().min(1, 'First name is required').optional(),
@@ -77,7 +78,7 @@ export async function PATCH(request: NextRequest) {
 
     // Validate language preference against available languages
     if (validatedData.defaultLanguagePreference) {
-      const availableLanguages = ['English', 'Afrikaans', 'Xhosa'];
+      const availableLanguages = DEFAULT_STATION_LANGUAGES;
       
       if (!availableLanguages.includes(validatedData.defaultLanguagePreference)) {
         return NextResponse.json(
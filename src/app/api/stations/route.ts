@@ -8,6 +8,7 @@ import { generatePassword } from '@/lib/auth';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import bcrypt from 'bcryptjs';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 export async function POST(request: Request) {
   try {
@@ -68,7 +69,7 @@ export async function POST(request: Request) {
           contactNumber: data.contactNumber || null,
           isActive: data.hasContentAccess ?? true,
           hasContentAccess: data.hasContentAccess ?? true,
-          allowedLanguages: data.allowedLanguages || ['English', 'Afrikaans', 'Xhosa'],
+          allowedLanguages: data.allowedLanguages || DEFAULT_STATION_LANGUAGES,
           allowedReligions: data.allowedReligions || ['Christian', 'Muslim', 'Neutral'],
           blockedCategories: data.blockedCategories || [],
         },
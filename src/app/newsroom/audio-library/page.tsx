@@ -1,39 +1,71 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { useSession } from 'next-auth/react';
 import {
   MagnifyingGlassIcon,
   MusicalNoteIcon,
   PencilIcon,
   TrashIcon,
   DocumentTextIcon,
+  FolderIcon,
 } from '@heroicons/react/24/outline';
 import toast from 'react-hot-toast';
 import { formatDateShort } from '@/lib/format';
+import { AUDIO_RIGHTS_SOURCE_LABELS } from '@/lib/audio-rights';
+import { canManageAudioCollections } from '@/lib/permissions';
 
 import { Container } from '@/components/ui/container';
 import { PageHeader } from '@/components/ui/page-header';
 import { Badge } from '@/components/ui/badge';
 import { Text } from '@/components/ui/text';
+import { Button } from '@/components/ui/button';
 import { Input, InputGroup } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
 import { formatDuration, formatFileSize } from '@/lib/format-utils';
 import { Pagination } from '@/components/ui/pagination';
 import { AudioClipEditModal } from '@/components/newsroom/AudioClipEditModal';
 import { AudioClipDeleteModal } from '@/components/newsroom/AudioClipDeleteModal';
+import { AudioProcessingStatus } from '@/components/newsroom/AudioProcessingStatus';
+import { AudioClipWarnings } from '@/components/newsroom/AudioClipWarnings';
+import { AudioClipUsageModal } from '@/components/newsroom/AudioClipUsageModal';
+import { AudioCollectionModal } from '@/components/newsroom/AudioCollectionModal';
 
 import {
   useAudioLibrary,
+  useAudioCollections,
+  useDeleteAudioCollection,
   useUpdateAudioClip,
   useDeleteAudioClip,
+  useReprocessAudioClip,
   type AudioClip,
+  type AudioClipUpdate,
+  type AudioCollection,
 } from '@/hooks/use-audio-library';
 
+// Stories, show episodes and podcast episodes the clip is attached to
+function usageCount(clip: AudioClip): number {
+  if (!clip._count) return 0;
+  return clip._count.stories + (clip._count.episodes ?? 0) + (clip._count.podcastEpisodes ?? 0);
+}
+
 export default function AudioLibraryPage() {
+  const { data: session } = useSession();
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [collectionId, setCollectionId] = useState('');
   const [page, setPage] = useState(1);
 
+  // Collection modal state
+  const [showCollectionEditor, setShowCollectionEditor] = useState(false);
+  const [editingCollection, setEditingCollection] = useState<AudioCollection | null>(null);
+  const [deletingCollection, setDeletingCollection] = useState<AudioCollection | null>(null);
+
+  // Usage modal state
+  const [usageClip, setUsageClip] = useState<AudioClip | null>(null);
+
   // Edit modal state
   const [editingClip, setEditingClip] = useState<AudioClip | null>(null);
 
@@ -51,17 +83,24 @@ export default function AudioLibraryPage() {
 
   const { data, isLoading, error } = useAudioLibrary({
     query: debouncedQuery || undefined,
+    collectionId: collectionId || undefined,
     page,
     perPage: 20,
   });
+  const { data: collectionsData } = useAudioCollections();
+  const collections = collectionsData?.collections ?? [];
+  const selectedCollection = collections.find(collection => collection.id === collectionId) ?? null;
+  const canManageCollections = canManageAudioCollections(session?.user?.staffRole ?? null);
 
   const updateMutation = useUpdateAudioClip();
   const deleteMutation = useDeleteAudioClip();
+  const reprocessMutation = useReprocessAudioClip();
+  const deleteCollectionMutation = useDeleteAudioCollection();
 
   const clips: AudioClip[] = data?.clips || [];
   const pagination = data?.pagination;
 
-  const handleEditSave = useCallback(async (data: { title?: string; description?: string; tags?: string[] }) => {
+  const handleEditSave = useCallback(async (data: AudioClipUpdate) => {
     if (!editingClip) return;
     try {
       await updateMutation.mutateAsync({ id: editingClip.id, data });
@@ -83,26 +122,86 @@ export default function AudioLibraryPage() {
     }
   }, [deletingClip, deleteMutation]);
 
+  const handleReprocess = useCallback(async (id: string) => {
+    try {
+      await reprocessMutation.mutateAsync(id);
+      toast.success('Audio clip queued for processing');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reprocess');
+    }
+  }, [reprocessMutation]);
+
+  const handleDeleteCollection = async () => {
+    if (!deletingCollection) return;
+    try {
+      await deleteCollectionMutation.mutateAsync(deletingCollection.id);
+      toast.success('Collection deleted');
+      setDeletingCollection(null);
+      setCollectionId('');
+      setPage(1);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete collection');
+    }
+  };
+
+  const openCollectionEditor = (collection: AudioCollection | null) => {
+    setEditingCollection(collection);
+    setShowCollectionEditor(true);
+  };
+
   const formatDate = formatDateShort;
 
   return (
     <Container>
       <div className="space-y-6">
-        <PageHeader title="Audio Library" />
+        <PageHeader
+          title="Audio Library"
+          action={canManageCollections ? { label: 'New Collection', onClick: () => openCollectionEditor(null) } : undefined}
+        />
 
         {/* Search */}
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-          <div className="w-full sm:max-w-md">
-            <InputGroup>
-              <MagnifyingGlassIcon data-slot="icon" />
-              <Input
-                type="search"
-                placeholder="Search by name, tag, or source story..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                aria-label="Search audio clips"
-              />
-            </InputGroup>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center w-full sm:max-w-2xl">
+            <div className="w-full sm:max-w-md">
+              <InputGroup>
+                <MagnifyingGlassIcon data-slot="icon" />
+                <Input
+                  type="search"
+                  placeholder="Search by name, tag, source story or rights holder..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  aria-label="Search audio clips"
+                />
+              </InputGroup>
+            </div>
+            <div className="w-full sm:w-56">
+              <Select
+                value={collectionId}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                  setCollectionId(e.target.value);
+                  setPage(1);
+                }}
+                aria-label="Collection"
+              >
+                <option value="">All collections</option>
+                <option value="none">Not in a collection</option>
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>
+                    {collection.name} ({collection._count?.clips ?? 0})
+                  </option>
+                ))}
+              </Select>
+            </div>
+            {selectedCollection && canManageCollections && (
+              <div className="flex items-center gap-2">
+                <Button outline onClick={() => openCollectionEditor(selectedCollection)} title="Edit collection">
+                  <PencilIcon className="h-4 w-4" />
+                </Button>
+                <Button outline onClick={() => setDeletingCollection(selectedCollection)} title="Delete collection">
+                  <TrashIcon className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            )}
           </div>
           {pagination && (
             <Text className="text-sm text-zinc-500">
@@ -130,12 +229,14 @@ export default function AudioLibraryPage() {
           <div className="text-center py-16">
             <MusicalNoteIcon className="h-16 w-16 mx-auto mb-4 text-zinc-300" />
             <Text className="text-zinc-500 text-lg mb-2">
-              {searchQuery ? 'No clips found' : 'No audio clips yet'}
+              {searchQuery ? 'No clips found' : collectionId ? 'No clips in this collection' : 'No audio clips yet'}
             </Text>
             <Text className="text-zinc-400 text-sm">
               {searchQuery
                 ? 'Try a different search term'
-                : 'Audio clips appear here when added to stories'}
+                : collectionId
+                  ? 'Edit a clip to add it to a collection'
+                  : 'Audio clips appear here when added to stories'}
             </Text>
           </div>
         ) : (
@@ -182,29 +283,61 @@ export default function AudioLibraryPage() {
                       originalName: clip.title || clip.originalName,
                       duration: clip.duration ?? null,
                       mimeType: clip.mimeType,
+                      waveform: clip.waveform,
                     }}
                     compact
                   />
                 </div>
 
-                {/* Tags */}
-                {clip.tags && clip.tags.length > 0 && (
+                {/* Processing */}
+                <div className="mb-3">
+                  <AudioProcessingStatus
+                    clip={clip}
+                    onRetry={() => handleReprocess(clip.id)}
+                    isRetrying={reprocessMutation.isPending && reprocessMutation.variables === clip.id}
+                  />
+                </div>
+
+                {/* Collection and tags */}
+                {(clip.collection || (clip.tags && clip.tags.length > 0)) && (
                   <div className="flex flex-wrap gap-1 mb-3">
+                    {clip.collection && (
+                      <Badge color="zinc" className="text-xs">
+                        <FolderIcon className="h-3 w-3" />
+                        {clip.collection.name}
+                      </Badge>
+                    )}
                     {clip.tags.map((tag) => (
                       <Badge key={tag} color="blue" className="text-xs">{tag}</Badge>
                     ))}
                   </div>
                 )}
 
+                {/* Rights */}
+                <AudioClipWarnings clip={clip} className="flex flex-wrap gap-1 mb-2" />
+                {(clip.rightsSource || clip.copyrightHolder) && (
+                  <Text className="text-xs text-zinc-500 mb-2">
+                    {[
+                      clip.rightsSource ? AUDIO_RIGHTS_SOURCE_LABELS[clip.rightsSource] : null,
+                      clip.copyrightHolder ? `© ${clip.copyrightHolder}` : null,
+                    ].filter(Boolean).join(' · ')}
+                  </Text>
+                )}
+
                 {/* Metadata */}
                 <div className="flex items-center gap-3 text-xs text-zinc-400 flex-wrap">
                   <span>{formatDuration(clip.duration)}</span>
                   {clip.fileSize && <span>{formatFileSize(clip.fileSize)}</span>}
-                  {clip._count && clip._count.stories > 0 && (
-                    <span className="flex items-center gap-1">
+                  {usageCount(clip) > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setUsageClip(clip)}
+                      className="flex items-center gap-1 hover:text-zinc-600 underline-offset-2 hover:underline"
+                      title="Show where this clip is used"
+                    >
                       <DocumentTextIcon className="h-3 w-3" />
-                      {clip._count.stories} {clip._count.stories === 1 ? 'story' : 'stories'}
-                    </span>
+                      Used in {usageCount(clip)} {usageCount(clip) === 1 ? 'place' : 'places'}
+                    </button>
                   )}
                   {clip.sourceStory && (
                     <span className="truncate" title={`Source: ${clip.sourceStory.title}`}>
@@ -253,6 +386,32 @@ export default function AudioLibraryPage() {
         linkedStoryCount={deletingClip?._count?.stories || 0}
         isLoading={deleteMutation.isPending}
       />
+
+      {/* Usage Modal */}
+      <AudioClipUsageModal
+        isOpen={!!usageClip}
+        onClose={() => setUsageClip(null)}
+        clipId={usageClip?.id ?? ''}
+        clipName={usageClip?.title || usageClip?.originalName || ''}
+      />
+
+      {/* Collection Modals */}
+      <AudioCollectionModal
+        open={showCollectionEditor}
+        onClose={() => setShowCollectionEditor(false)}
+        collection={editingCollection}
+      />
+
+      <ConfirmDialog
+        open={!!deletingCollection}
+        onClose={() => setDeletingCollection(null)}
+        onConfirm={handleDeleteCollection}
+        title={`Delete "${deletingCollection?.name}"?`}
+        description="The clips in this collection stay in the library; they just won't be in a collection any more."
+        confirmLabel="Delete"
+        variant="danger"
+        isPending={deleteCollectionMutation.isPending}
+      />
     </Container>
   );
 }
@@ -14,6 +14,7 @@ import { Avatar } from '@/components/ui/avatar';
 import { DescriptionList, DescriptionTerm, DescriptionDetails } from '@/components/ui/description-list';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
 import { formatLanguage } from '@/lib/language-utils';
+import type { Province } from '@prisma/client';
 import {
   PencilIcon,
   PaperAirplaneIcon,
@@ -23,12 +24,20 @@ import {
   ArchiveBoxIcon,
   XMarkIcon,
   SpeakerWaveIcon,
+  DocumentCheckIcon,
+  MegaphoneIcon,
 } from '@heroicons/react/24/outline';
 import { Dialog } from '@headlessui/react';
 import { Select } from '@/components/ui/select';
 import { Heading } from '@/components/ui/heading';
 import { Text } from '@/components/ui/text';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { BulletinCorrectionModal } from '@/components/newsroom/bulletins/BulletinCorrectionModal';
+import { BreakingNewsModal } from '@/components/newsroom/BreakingNewsModal';
+import { BreakingNewsAlerts } from '@/components/newsroom/BreakingNewsAlerts';
+import { ReleaseWindowCard } from '@/components/newsroom/ReleaseWindowCard';
+import { BulletinCorrections } from '@/components/shared/BulletinCorrections';
+import { useBulletinCorrections } from '@/hooks/use-bulletin-corrections';
 
 interface BulletinStory {
   id: string;
@@ -71,6 +80,11 @@ interface Bulletin {
   language: string;
   scheduledFor?: string;
   publishedAt?: string;
+  correctedAt?: string | null;
+  embargoUntil: string | null;
+  exclusiveUntil: string | null;
+  exclusiveStationIds: string[];
+  exclusiveProvinces: Province[];
   createdAt: string;
   updatedAt: string;
   author: {
@@ -111,6 +125,8 @@ export default function BulletinViewPage() {
   const bulletinId = params.id as string;
   const [isUpdating, setIsUpdating] = useState(false);
   const [showReviewerModal, setShowReviewerModal] = useState(false);
+  const [showCorrectionModal, setShowCorrectionModal] = useState(false);
+  const [showBreakingNewsModal, setShowBreakingNewsModal] = useState(false);
   const [selectedReviewerId, setSelectedReviewerId] = useState<string>('');
   const [confirmAction, setConfirmAction] = useState<{ status: string; message: string; title: string; description: string; label: string; variant: 'danger' | 'warning' } | null>(null);
 
@@ -125,6 +141,8 @@ export default function BulletinViewPage() {
 
   const bulletin: Bulletin = data?.bulletin;
 
+  const { data: correctionsData } = useBulletinCorrections(bulletinId, !!bulletin?.correctedAt);
+
   // Fetch available reviewers (SUB_EDITOR and above)
   const { data: reviewersData, isLoading: isLoadingReviewers } = useQuery({
     queryKey: ['bulletin-reviewers'],
@@ -203,9 +221,12 @@ export default function BulletinViewPage() {
   const canApprove = bulletin?.status === 'IN_REVIEW' && isSubEditorOrAbove;
   const canSchedule = bulletin?.status === 'APPROVED' && isSubEditorOrAbove;
   const canArchive = bulletin?.status === 'PUBLISHED' && isEditor;
+  // Published bulletins are changed through a correction, never edited in place
+  const canCorrect = bulletin?.status === 'PUBLISHED' && isEditor;
+  const canSendBreakingNews = bulletin?.status === 'PUBLISHED' && isEditor;
   const canEdit = (bulletin?.status === 'DRAFT' && (isAuthor || isEditor)) ||
                   (bulletin?.status === 'NEEDS_REVISION' && (isAuthor || isEditor)) ||
-                  isEditor;
+                  (isEditor && bulletin?.status !== 'PUBLISHED');
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -266,6 +287,7 @@ export default function BulletinViewPage() {
               <Badge color={getStatusColor(bulletin.status)}>
                 {bulletin.status.replace('_', ' ')}
               </Badge>
+              {bulletin.correctedAt && <Badge color="amber">Corrected</Badge>}
             </div>
             <div className="flex items-center gap-2">
               <span className="text-sm text-zinc-500 dark:text-zinc-400">Language:</span>
@@ -395,6 +417,26 @@ export default function BulletinViewPage() {
               </Button>
             )}
 
+            {/* Correction - new revision of a PUBLISHED bulletin */}
+            {canCorrect && (
+              <Button
+                color="white"
+                onClick={() => setShowCorrectionModal(true)}
+                disabled={isUpdating}
+              >
+                <DocumentCheckIcon className="h-4 w-4 mr-2" />
+                Issue Correction
+              </Button>
+            )}
+
+            {/* Breaking news alert to stations - PUBLISHED only */}
+            {canSendBreakingNews && (
+              <Button color="white" onClick={() => setShowBreakingNewsModal(true)}>
+                <MegaphoneIcon className="h-4 w-4 mr-2" />
+                Breaking News
+              </Button>
+            )}
+
             {/* Archive - PUBLISHED → ARCHIVED */}
             {canArchive && (
               <Button
@@ -419,7 +461,10 @@ export default function BulletinViewPage() {
 
       <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main Content - Preview Style */}
-        <div className="lg:col-span-2">
+        <div className="lg:col-span-2 space-y-6">
+          <BulletinCorrections corrections={correctionsData?.corrections ?? []} />
+          {bulletin.status === 'PUBLISHED' && <BreakingNewsAlerts bulletinId={bulletin.id} />}
+
           <Card className="p-6">
             <Heading level={2} className="text-lg font-semibold text-zinc-900 mb-4">
               Bulletin Content
@@ -518,6 +563,13 @@ export default function BulletinViewPage() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Embargo and exclusivity for stations */}
+          <ReleaseWindowCard
+            target={{ bulletinId: bulletin.id }}
+            content={bulletin}
+            canEdit={!!isSubEditorOrAbove && bulletin.status !== 'ARCHIVED'}
+          />
+
           {/* Bulletin Details */}
           <Card className="p-6">
             <h3 className="text-lg font-semibold text-zinc-900 mb-4">Bulletin Details</h3>
@@ -638,6 +690,23 @@ export default function BulletinViewPage() {
         variant={confirmAction?.variant || 'warning'}
       />
 
+      {canCorrect && (
+        <BulletinCorrectionModal
+          open={showCorrectionModal}
+          onClose={() => setShowCorrectionModal(false)}
+          bulletin={bulletin}
+        />
+      )}
+
+      {canSendBreakingNews && (
+        <BreakingNewsModal
+          open={showBreakingNewsModal}
+          onClose={() => setShowBreakingNewsModal(false)}
+          target={{ bulletinId: bulletin.id }}
+          defaultHeadline={bulletin.title}
+        />
+      )}
+
       {/* Reviewer Selection Modal */}
       <Dialog
         open={showReviewerModal}
@@ -21,6 +21,7 @@ import {
   EyeIcon,
   CheckCircleIcon,
   MagnifyingGlassIcon,
+  FlagIcon,
 } from '@heroicons/react/24/outline';
 import { Input, InputGroup } from '@/components/ui/input';
 import { formatDateTime } from '@/lib/format';
@@ -30,7 +31,7 @@ interface Bulletin {
   id: string;
   title: string;
   slug: string;
-  language: 'ENGLISH' | 'AFRIKAANS' | 'XHOSA';
+  language: 'ENGLISH' | 'AFRIKAANS' | 'XHOSA' | 'ZULU';
   status: string;
   scheduledFor: string | null;
   publishedAt: string | null;
@@ -224,6 +225,12 @@ export default function BulletinsPage() {
           title="Bulletins"
           actions={
             <div className="flex items-center space-x-3">
+              <Link href="/newsroom/bulletins/picks">
+                <Button color="white">
+                  <FlagIcon className="h-4 w-4 mr-2" />
+                  Picks
+                </Button>
+              </Link>
               <Link href="/newsroom/bulletins/schedules">
                 <Button color="white">
                   <CalendarDaysIcon className="h-4 w-4 mr-2" />
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format, subDays } from 'date-fns';
+import type { StoryLanguage } from '@prisma/client';
+import { FlagIcon } from '@heroicons/react/24/outline';
+import { Container } from '@/components/ui/container';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Field, Label } from '@/components/ui/fieldset';
+import { EmptyState } from '@/components/ui/empty-state';
+import { formatLanguage } from '@/lib/language-utils';
+import { formatUserName } from '@/lib/format';
+import { getLanguageColor } from '@/lib/color-system';
+import { formatFlagDays } from '@/components/newsroom/BulletinFlagModal';
+import { useBulletinPicks, useUnusedBulletinPicks, type BulletinFlag } from '@/hooks/use-bulletin-flags';
+
+const LANGUAGES: StoryLanguage[] = ['ENGLISH', 'AFRIKAANS', 'XHOSA', 'ZULU'];
+
+function slotLabel(flag: BulletinFlag) {
+  return flag.schedule ? `${flag.schedule.title} (${flag.schedule.time})` : 'Any slot';
+}
+
+function PickRow({ flag, children }: { flag: BulletinFlag; children?: React.ReactNode }) {
+  return (
+    <li className="flex items-start justify-between gap-4 p-4">
+      <div className="min-w-0">
+        <Link href={`/newsroom/stories/${flag.story.id}`} className="font-medium text-zinc-900 hover:underline">
+          {flag.story.title}
+        </Link>
+        <div className="mt-1 flex flex-wrap items-center gap-2">
+          <Badge color={getLanguageColor(flag.language)}>{formatLanguage(flag.language)}</Badge>
+          {flag.story.category && <Badge color="zinc">{flag.story.category.name}</Badge>}
+          <Text className="text-xs text-zinc-500">
+            {slotLabel(flag)} · {formatFlagDays(flag)} · Flagged by {formatUserName(flag.flaggedBy)}
+          </Text>
+        </div>
+      </div>
+      <div className="flex flex-shrink-0 flex-wrap justify-end gap-2">{children}</div>
+    </li>
+  );
+}
+
+export default function BulletinPicksPage() {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [date, setDate] = useState(today);
+  const [language, setLanguage] = useState<StoryLanguage | ''>('');
+  const [reportFrom, setReportFrom] = useState(format(subDays(new Date(), 7), 'yyyy-MM-dd'));
+  const [reportTo, setReportTo] = useState(today);
+
+  const { data: picksData, isLoading: picksLoading } = useBulletinPicks(date, language);
+  const { data: unusedData, isLoading: unusedLoading } = useUnusedBulletinPicks(reportFrom, reportTo);
+
+  const picks = picksData?.picks ?? [];
+  const unused = unusedData?.flags ?? [];
+
+  return (
+    <Container className="py-8">
+      <div className="mb-8">
+        <Heading level={1} className="text-3xl font-bold text-zinc-900">
+          Bulletin Picks
+        </Heading>
+        <Text className="text-zinc-600 mt-2">
+          Stories flagged for bulletins, taken from the flag history, and the picks that never made it to air
+        </Text>
+      </div>
+
+      <Card className="p-6 mb-8">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between mb-4">
+          <Heading level={2}>Picks for the day</Heading>
+          <div className="flex gap-3">
+            <Field>
+              <Label>Day</Label>
+              <Input
+                type="date"
+                value={date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value || today)}
+              />
+            </Field>
+            <Field>
+              <Label>Language</Label>
+              <Select
+                value={language}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setLanguage(e.target.value as StoryLanguage | '')}
+              >
+                <option value="">All languages</option>
+                {LANGUAGES.map(code => (
+                  <option key={code} value={code}>
+                    {formatLanguage(code)}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+          </div>
+        </div>
+
+        {picksLoading ? (
+          <Text className="text-zinc-600">Loading picks...</Text>
+        ) : picks.length === 0 ? (
+          <EmptyState icon={FlagIcon} title="No picks" description="No stories are flagged for bulletins on this day." />
+        ) : (
+          <ul className="divide-y divide-zinc-100 rounded-lg border border-zinc-200">
+            {picks.map(pick => (
+              <PickRow key={pick.id} flag={pick}>
+                {pick.bulletins.length === 0 ? (
+                  <Badge color="amber">Not in a bulletin yet</Badge>
+                ) : (
+                  pick.bulletins.map(bulletin => (
+                    <Link key={bulletin.id} href={`/newsroom/bulletins/${bulletin.id}`}>
+                      <Badge color={bulletin.status === 'PUBLISHED' ? 'green' : 'blue'}>{bulletin.title}</Badge>
+                    </Link>
+                  ))
+                )}
+              </PickRow>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between mb-4">
+          <div>
+            <Heading level={2}>Unused picks</Heading>
+            <Text className="text-sm text-zinc-600">
+              Picks that ended in this period without the story going out in a matching bulletin
+            </Text>
+          </div>
+          <div className="flex gap-3">
+            <Field>
+              <Label>From</Label>
+              <Input
+                type="date"
+                value={reportFrom}
+                max={reportTo}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReportFrom(e.target.value || reportFrom)}
+              />
+            </Field>
+            <Field>
+              <Label>To</Label>
+              <Input
+                type="date"
+                value={reportTo}
+                min={reportFrom}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setReportTo(e.target.value || reportTo)}
+              />
+            </Field>
+          </div>
+        </div>
+
+        {unusedLoading ? (
+          <Text className="text-zinc-600">Loading report...</Text>
+        ) : unused.length === 0 ? (
+          <EmptyState icon={FlagIcon} title="Nothing missed" description="Every pick in this period made it into a bulletin." />
+        ) : (
+          <ul className="divide-y divide-zinc-100 rounded-lg border border-zinc-200">
+            {unused.map(flag => (
+              <PickRow key={flag.id} flag={flag}>
+                <Badge color="red">Not used</Badge>
+              </PickRow>
+            ))}
+          </ul>
+        )}
+      </Card>
+    </Container>
+  );
+}
@@ -23,6 +23,8 @@ import {
 import { BulletinScheduleManager } from '@/components/newsroom/bulletins/BulletinScheduleManager';
 import { getLanguageColor } from '@/lib/color-system';
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { ReadingSpeedSettings } from '@/components/newsroom/bulletins/ReadingSpeedSettings';
+import { formatDuration } from '@/lib/bulletin-duration';
 
 function getPublishTime(airTime: string): string {
   if (!airTime) return '';
@@ -44,9 +46,10 @@ interface BulletinSchedule {
   id: string;
   title: string;
   time: string;
-  language: 'ENGLISH' | 'AFRIKAANS' | 'XHOSA';
+  language: 'ENGLISH' | 'AFRIKAANS' | 'XHOSA' | 'ZULU';
   scheduleType: 'WEEKDAY' | 'WEEKEND' | 'PUBLIC_HOLIDAY';
   isActive: boolean;
+  targetDuration: number | null;
   creator: {
     id: string;
     firstName: string;
@@ -237,6 +240,12 @@ export default function BulletinSchedulesPage() {
                         <ClockIcon className="h-4 w-4" />
                         Publishes: {formatTime12h(getPublishTime(schedule.time))}
                       </span>
+                      {schedule.targetDuration && (
+                        <>
+                          <span>•</span>
+                          <span>Target {formatDuration(schedule.targetDuration)}</span>
+                        </>
+                      )}
                       <span>•</span>
                       <span>{schedule._count.bulletins} bulletins</span>
                       <span>•</span>
@@ -289,6 +298,9 @@ export default function BulletinSchedulesPage() {
         </div>
       )}
 
+      {/* Newsreader speeds used for on-air estimates */}
+      <ReadingSpeedSettings canEdit={!!isEditor} />
+
       {/* Create/Edit Modal */}
       {(showCreateModal || editingSchedule) && (
         <BulletinScheduleManager
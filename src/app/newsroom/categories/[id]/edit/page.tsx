@@ -17,6 +17,7 @@ import { Button } from "@/components/ui/button";
 import { Divider } from "@/components/ui/divider";
 import { Select } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { Text } from "@/components/ui/text";
 import { useCategories, useUpdateCategory, useDeleteCategory } from "@/hooks/use-categories";
 import { useSession } from "next-auth/react";
 import { ConfirmDialog } from '@/components/ui/confirm-dialog';
@@ -30,6 +31,8 @@ const categorySchema = z.object({
   description: z.string().optional(),
   descriptionAfrikaans: z.string().optional(),
   parentId: z.string().optional(),
+  minWords: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
+  maxWords: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
 });
 
 type CategoryFormData = z.infer<typeof categorySchema>;
@@ -69,6 +72,8 @@ export default function EditCategoryPage() {
         description: category.description || "",
         descriptionAfrikaans: category.descriptionAfrikaans || "",
         parentId: category.parent?.id || "",
+        minWords: category.minWords?.toString() ?? "",
+        maxWords: category.maxWords?.toString() ?? "",
       });
     }
   }, [category, reset]);
@@ -76,7 +81,15 @@ export default function EditCategoryPage() {
   const onSubmit = async (formData: CategoryFormData) => {
     if (!canEdit) return;
     try {
-      await updateCategory.mutateAsync({ id: categoryId, data: formData });
+      const { minWords, maxWords, ...rest } = formData;
+      await updateCategory.mutateAsync({
+        id: categoryId,
+        data: {
+          ...rest,
+          minWords: minWords ? Number(minWords) : null,
+          maxWords: maxWords ? Number(maxWords) : null,
+        },
+      });
       toast.success("Category updated successfully!");
       router.push("/newsroom/categories");
     } catch (error: unknown) {
@@ -205,6 +218,35 @@ export default function EditCategoryPage() {
                       ))}
                   </Select>
                 </Field>
+                <div className="grid grid-cols-2 gap-4">
+                  <Field>
+                    <Label htmlFor="minWords">Minimum words</Label>
+                    <Input
+                      id="minWords"
+                      type="number"
+                      min={1}
+                      {...register("minWords")}
+                      placeholder="No minimum"
+                      disabled={!canEdit}
+                    />
+                    {errors.minWords && <ErrorMessage>{errors.minWords.message}</ErrorMessage>}
+                  </Field>
+                  <Field>
+                    <Label htmlFor="maxWords">Maximum words</Label>
+                    <Input
+                      id="maxWords"
+                      type="number"
+                      min={1}
+                      {...register("maxWords")}
+                      placeholder="No maximum"
+                      disabled={!canEdit}
+                    />
+                    {errors.maxWords && <ErrorMessage>{errors.maxWords.message}</ErrorMessage>}
+                  </Field>
+                </div>
+                <Text className="text-sm text-zinc-500">
+                  Word-count target for stories in this category, shown in the house-style check. Subcategories without one use this.
+                </Text>
               </FieldGroup>
             </Fieldset>
           </Card>
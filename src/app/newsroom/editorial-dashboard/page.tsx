@@ -12,6 +12,8 @@ import { PipelineOverview } from '@/components/newsroom/editorial-dashboard/Pipe
 import { QueueDetail } from '@/components/newsroom/editorial-dashboard/QueueDetail';
 import { TeamWorkload } from '@/components/newsroom/editorial-dashboard/TeamWorkload';
 import { TimeSensitiveContent } from '@/components/newsroom/editorial-dashboard/TimeSensitiveContent';
+import { TranslationEffortTable } from '@/components/newsroom/editorial-dashboard/TranslationEffortTable';
+import type { TranslationEffort } from '@/lib/editorial-metrics';
 import { ReassignModal } from '@/components/newsroom/editorial-dashboard/ReassignModal';
 import { DiaryWidget } from '@/components/newsroom/diary/DiaryWidget';
 import { RealtimeStatus } from '@/components/ui/RealtimeStatus';
@@ -41,6 +43,7 @@ interface DashboardData {
     bottleneckCount: number;
   };
   timeSensitiveStories: any[];
+  translationEffort: TranslationEffort[];
   timestamp: string;
 }
 
@@ -263,6 +266,14 @@ export default function EditorialDashboardPage() {
         />
       </div>
 
+      {/* Machine vs human translation effort */}
+      <div className="mb-8">
+        <TranslationEffortTable
+          effort={data?.translationEffort || []}
+          isLoading={isLoading}
+        />
+      </div>
+
       {/* Newsroom Diary */}
       <div className="mb-8">
         <DiaryWidget />
@@ -37,6 +37,7 @@ import { ArrowLeftIcon, TrashIcon, MusicalNoteIcon } from '@heroicons/react/24/o
 import { toast } from 'react-hot-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { formatDuration, formatFileSize } from '@/lib/format-utils';
+import { uploadPercent } from '@/lib/resumable-upload';
 
 interface AudioFile {
   id: string;
@@ -73,6 +74,7 @@ export default function PodcastEpisodeDetailPage({
   const [showUnpublishConfirm, setShowUnpublishConfirm] = useState(false);
   const [stagedFiles, setStagedFiles] = useState<AudioFile[]>([]);
   const [fileUploadKey, setFileUploadKey] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
   const { data: episode, isLoading } = usePodcastEpisode(podcastId, episodeId);
   const updateEpisode = useUpdatePodcastEpisode();
@@ -129,12 +131,17 @@ export default function PodcastEpisodeDetailPage({
     if (stagedFiles.length === 0) return;
     try {
       const files = stagedFiles.map(af => af.file);
-      await uploadAudio.mutateAsync({ podcastId, episodeId, files });
+      await uploadAudio.mutateAsync({
+        podcastId, episodeId, files,
+        onProgress: (progress) => setUploadProgress(uploadPercent(progress)),
+      });
       toast.success('Audio files uploaded successfully');
       setStagedFiles([]);
       setFileUploadKey(prev => prev + 1);
     } catch (error: any) {
       toast.error(error.message || 'Failed to upload audio files');
+    } finally {
+      setUploadProgress(null);
     }
   };
 
@@ -336,7 +343,6 @@ export default function PodcastEpisodeDetailPage({
                 onFilesChange={handleFilesStaged}
                 acceptedTypes={['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/ogg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/webm']}
                 maxFiles={5}
-                maxFileSize={100}
                 existingCount={episode.audioClips?.length || 0}
               />
               {stagedFiles.length > 0 && (
@@ -346,7 +352,7 @@ export default function PodcastEpisodeDetailPage({
                   disabled={uploadAudio.isPending}
                 >
                   {uploadAudio.isPending
-                    ? 'Uploading...'
+                    ? `Uploading${uploadProgress !== null ? ` ${uploadProgress}%` : ''}...`
                     : `Upload ${stagedFiles.length} File${stagedFiles.length !== 1 ? 's' : ''}`}
                 </Button>
               )}
@@ -355,6 +355,7 @@ export default function NewsroomProfilePage() {
                         <option value="English">English</option>
                         <option value="Afrikaans">Afrikaans</option>
                         <option value="Xhosa">Xhosa</option>
+                        <option value="Zulu">Zulu</option>
                       </Select>
                     </div>
 
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import toast from 'react-hot-toast';
+import { useSession } from 'next-auth/react';
+import {
+  PencilIcon,
+  TrashIcon,
+  ChatBubbleBottomCenterTextIcon,
+  MagnifyingGlassIcon,
+} from '@heroicons/react/24/outline';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/ui/page-header';
+import { Text } from '@/components/ui/text';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input, InputGroup } from '@/components/ui/input';
+import { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from '@/components/ui/table';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { EmptyState } from '@/components/ui/empty-state';
+import { CardSkeleton } from '@/components/ui/skeleton';
+import { PronunciationEntryModal } from '@/components/newsroom/PronunciationEntryModal';
+import { usePronunciations, useDeletePronunciation } from '@/hooks/use-pronunciations';
+import type { PronunciationEntry } from '@/hooks/use-pronunciations';
+import { canManagePronunciations } from '@/lib/permissions';
+
+export default function PronunciationsPage() {
+  const { data: session } = useSession();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [editing, setEditing] = useState<PronunciationEntry | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<PronunciationEntry | null>(null);
+
+  const { data, isLoading, error } = usePronunciations();
+  const deleteMutation = useDeletePronunciation();
+
+  const canManage = canManagePronunciations(session?.user?.staffRole ?? null);
+
+  const entries = useMemo(() => {
+    const all = data?.entries || [];
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return all;
+    return all.filter(entry =>
+      entry.term.toLowerCase().includes(query) || entry.guide.toLowerCase().includes(query)
+    );
+  }, [data?.entries, searchQuery]);
+
+  const openEditor = (entry: PronunciationEntry | null) => {
+    setEditing(entry);
+    setShowEditor(true);
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      toast.success('Pronunciation deleted');
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete pronunciation');
+    }
+  };
+
+  return (
+    <Container>
+      <PageHeader
+        title="Pronunciations"
+        description="How to say names and places, suggested to editors and shown to newsreaders"
+        action={canManage ? { label: 'New Entry', onClick: () => openEditor(null) } : undefined}
+      />
+
+      <div className="mt-8 max-w-sm">
+        <InputGroup>
+          <MagnifyingGlassIcon data-slot="icon" />
+          <Input
+            value={searchQuery}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
+            placeholder="Search names..."
+          />
+        </InputGroup>
+      </div>
+
+      <div className="mt-6">
+        {isLoading ? (
+          <CardSkeleton />
+        ) : error ? (
+          <Card className="p-6">
+            <Text className="text-red-600">Failed to load the pronunciation dictionary. Please refresh.</Text>
+          </Card>
+        ) : entries.length === 0 ? (
+          <EmptyState
+            icon={ChatBubbleBottomCenterTextIcon}
+            title={searchQuery ? 'No matching names' : 'No pronunciations yet'}
+            description="Add names and places newsreaders often need help saying."
+            action={canManage && !searchQuery ? { label: 'New Entry', onClick: () => openEditor(null) } : undefined}
+          />
+        ) : (
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeader>Name</TableHeader>
+                <TableHeader>Say it as</TableHeader>
+                <TableHeader>Notes</TableHeader>
+                {canManage && <TableHeader className="text-right">Actions</TableHeader>}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="font-medium">{entry.term}</TableCell>
+                  <TableCell>
+                    <Badge color="purple">{entry.guide}</Badge>
+                  </TableCell>
+                  <TableCell className="text-zinc-500">{entry.notes}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <Button outline onClick={() => openEditor(entry)} title="Edit">
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button outline onClick={() => setDeleteTarget(entry)} title="Delete">
+                          <TrashIcon className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <PronunciationEntryModal
+        open={showEditor}
+        onClose={() => setShowEditor(false)}
+        entry={editing}
+      />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title={`Delete "${deleteTarget?.term}"?`}
+        description="Notes already in stories stay, but editors will no longer be prompted to add this one."
+        confirmLabel="Delete"
+        variant="danger"
+        isPending={deleteMutation.isPending}
+      />
+    </Container>
+  );
+}
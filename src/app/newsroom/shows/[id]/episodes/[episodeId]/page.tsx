@@ -27,16 +27,20 @@ import {
   useDeleteEpisode,
   useUploadEpisodeAudio,
   useDeleteEpisodeAudio,
+  useTrimEpisodeAudio,
   useLinkAudioToEpisode,
   usePublishEpisode,
   useUnpublishEpisode
 } from '@/hooks/use-episodes';
 import { AudioPickerModal } from '@/components/newsroom/AudioPickerModal';
+import { AudioTrimEditor } from '@/components/newsroom/AudioTrimEditor';
+import type { AudioTrimFields } from '@/lib/audio-trim';
 import { canManageShows, canPublishEpisode } from '@/lib/permissions';
-import { ArrowLeftIcon, TrashIcon, MusicalNoteIcon } from '@heroicons/react/24/outline';
+import { ArrowLeftIcon, TrashIcon, MusicalNoteIcon, ScissorsIcon } from '@heroicons/react/24/outline';
 import { toast } from 'react-hot-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { formatDuration, formatFileSize } from '@/lib/format-utils';
+import { uploadPercent } from '@/lib/resumable-upload';
 
 // AudioFile type from FileUpload component
 interface AudioFile {
@@ -72,15 +76,18 @@ export default function EpisodeDetailPage({
   const [scheduledDate, setScheduledDate] = useState('');
   const [showAudioPicker, setShowAudioPicker] = useState(false);
   const [deleteAudioId, setDeleteAudioId] = useState<string | null>(null);
+  const [trimAudioId, setTrimAudioId] = useState<string | null>(null);
   const [showUnpublishConfirm, setShowUnpublishConfirm] = useState(false);
   const [stagedFiles, setStagedFiles] = useState<AudioFile[]>([]);
   const [fileUploadKey, setFileUploadKey] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
 
   const { data: episode, isLoading } = useEpisode(showId, episodeId);
   const updateEpisode = useUpdateEpisode();
   const deleteEpisode = useDeleteEpisode();
   const uploadAudio = useUploadEpisodeAudio();
   const deleteAudio = useDeleteEpisodeAudio();
+  const trimAudio = useTrimEpisodeAudio();
   const linkAudio = useLinkAudioToEpisode(showId, episodeId);
   const publishEpisode = usePublishEpisode();
   const unpublishEpisode = useUnpublishEpisode();
@@ -135,13 +142,18 @@ export default function EpisodeDetailPage({
     if (stagedFiles.length === 0) return;
     try {
       const files = stagedFiles.map(af => af.file);
-      await uploadAudio.mutateAsync({ showId, episodeId, files });
+      await uploadAudio.mutateAsync({
+        showId, episodeId, files,
+        onProgress: (progress) => setUploadProgress(uploadPercent(progress)),
+      });
       toast.success('Audio files uploaded successfully');
       // Reset staged files and FileUpload component
       setStagedFiles([]);
       setFileUploadKey(prev => prev + 1);
     } catch (error: any) {
       toast.error(error.message || 'Failed to upload audio files');
+    } finally {
+      setUploadProgress(null);
     }
   };
 
@@ -165,6 +177,17 @@ export default function EpisodeDetailPage({
     }
   };
 
+  const handleTrimSave = async (trim: AudioTrimFields) => {
+    if (!trimAudioId) return;
+    try {
+      await trimAudio.mutateAsync({ showId, episodeId, audioClipId: trimAudioId, trim });
+      toast.success('Trim saved');
+      setTrimAudioId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save trim');
+    }
+  };
+
   const handlePublish = async () => {
     if (!episode?.audioClips || episode.audioClips.length === 0) {
       toast.error('Please upload at least one audio file before publishing');
@@ -343,7 +366,6 @@ export default function EpisodeDetailPage({
                 onFilesChange={handleFilesStaged}
                 acceptedTypes={['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/ogg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/webm']}
                 maxFiles={5}
-                maxFileSize={100}
                 existingCount={episode.audioClips?.length || 0}
               />
               {stagedFiles.length > 0 && (
@@ -353,7 +375,7 @@ export default function EpisodeDetailPage({
                   disabled={uploadAudio.isPending}
                 >
                   {uploadAudio.isPending
-                    ? 'Uploading...'
+                    ? `Uploading${uploadProgress !== null ? ` ${uploadProgress}%` : ''}...`
                     : `Upload ${stagedFiles.length} File${stagedFiles.length !== 1 ? 's' : ''}`}
                 </Button>
               )}
@@ -387,16 +409,23 @@ export default function EpisodeDetailPage({
                       <span>
                         Uploaded {formatDistanceToNow(new Date(clip.createdAt), { addSuffix: true })}
                       </span>
+                      {clip.trim && <Badge color="zinc">Trimmed</Badge>}
                     </div>
                     {canManage && (
-                      <Button
-                        color="red"
-                        onClick={() => setDeleteAudioId(clip.id)}
-                        disabled={deleteAudio.isPending}
-                      >
-                        <TrashIcon className="w-4 h-4" />
-                        Delete
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        <Button color="white" onClick={() => setTrimAudioId(clip.id)}>
+                          <ScissorsIcon className="w-4 h-4" />
+                          Trim
+                        </Button>
+                        <Button
+                          color="red"
+                          onClick={() => setDeleteAudioId(clip.id)}
+                          disabled={deleteAudio.isPending}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                          Delete
+                        </Button>
+                      </div>
                     )}
                   </div>
                 </div>
@@ -493,6 +522,18 @@ export default function EpisodeDetailPage({
         isPending={deleteAudio.isPending}
       />
 
+      {/* Audio Trim Editor */}
+      {trimAudioId && (
+        <AudioTrimEditor
+          isOpen
+          onClose={() => setTrimAudioId(null)}
+          clipId={trimAudioId}
+          trim={episode.audioClips?.find(clip => clip.id === trimAudioId)?.trim ?? null}
+          onSave={handleTrimSave}
+          isSaving={trimAudio.isPending}
+        />
+      )}
+
       {/* Unpublish Confirmation */}
       <ConfirmDialog
         open={showUnpublishConfirm}
@@ -16,6 +16,7 @@ import {
   ChevronRightIcon,
   PlusIcon,
   FlagIcon,
+  MegaphoneIcon,
   NewspaperIcon,
 } from '@heroicons/react/24/outline';
 import { FlagIcon as FlagIconSolid } from '@heroicons/react/24/solid';
@@ -40,8 +41,17 @@ import { WorkflowBar, StageProgressCard } from '@/components/newsroom/WorkflowBa
 import { CategoryModal } from '@/components/newsroom/CategoryModal';
 import { TagModal } from '@/components/newsroom/TagModal';
 import { ReassignButton } from '@/components/newsroom/ReassignButton';
-
-import { useStory, useDeleteStory, useToggleStoryBulletinFlag } from '@/hooks/use-stories';
+import { StoryVersionHistory } from '@/components/newsroom/StoryVersionHistory';
+import { SourceChangesBanner } from '@/components/newsroom/SourceChangesBanner';
+import { BreakingNewsModal } from '@/components/newsroom/BreakingNewsModal';
+import { BulletinFlagModal } from '@/components/newsroom/BulletinFlagModal';
+import { BreakingNewsAlerts } from '@/components/newsroom/BreakingNewsAlerts';
+import { ReleaseWindowCard } from '@/components/newsroom/ReleaseWindowCard';
+import { useStoryWorkflow } from '@/hooks/use-workflows';
+import { useStoryStyleCheck } from '@/hooks/use-style-check';
+import { STAFF_ROLE_LABELS, findTransition, type WorkflowAction } from '@/lib/workflow';
+
+import { useStory, useDeleteStory } from '@/hooks/use-stories';
 import { useCategories } from '@/hooks/use-categories';
 import { useTags, useCreateTag } from '@/hooks/use-tags';
 import { useClassifications } from '@/hooks/use-classifications';
@@ -51,12 +61,19 @@ import {
   canDeleteStoryByStage,
   canFlagStoryForBulletin,
   canRequestRevision,
+  canSendBreakingNews,
+  canSetReleaseWindow,
+  canWorkOnTranslation,
 } from '@/lib/permissions';
 import { StaffRole, StoryStage, AudioClip } from '@prisma/client';
 import { StageBadge } from '@/components/ui/stage-badge';
 import { RevisionRequestBanner } from '@/components/ui/revision-request-banner';
 import { useQuery } from '@tanstack/react-query';
+import { usageAudioClip, type AudioTrimFields } from '@/lib/audio-trim';
 
+// Workflow actions offered through the stage transition dialog; translation
+// steps have their own buttons in the workflow bar
+const PRIMARY_STAGE_ACTIONS: WorkflowAction[] = ['submit_for_review', 'send_for_approval', 'approve_story', 'publish_story'];
 
 // Helper: should show edit button (stage-based)
 function canShowEditButton(
@@ -109,8 +126,11 @@ export default function StoryDetailPage() {
   const [showTranslationModal, setShowTranslationModal] = useState(false);
   const [isTranslating, setIsTranslating] = useState(false);
   const [showStageTransitionModal, setShowStageTransitionModal] = useState(false);
+  const [showSkipTranslationModal, setShowSkipTranslationModal] = useState(false);
   const [showRevisionModal, setShowRevisionModal] = useState(false);
   const [isRequestingRevision, setIsRequestingRevision] = useState(false);
+  const [showBreakingNewsModal, setShowBreakingNewsModal] = useState(false);
+  const [showBulletinFlagModal, setShowBulletinFlagModal] = useState(false);
 
   // Metadata state for modals
   const [metadataCategoryId, setMetadataCategoryId] = useState<string | null>(null);
@@ -129,6 +149,8 @@ export default function StoryDetailPage() {
 
   // Fetch single story
   const { data: story, isLoading } = useStory(storyId);
+  const { data: workflowState } = useStoryWorkflow(storyId);
+  const styleCheck = useStoryStyleCheck(story?.content ?? null, story?.language ?? 'ENGLISH', story?.categoryId ?? null);
 
   // Fetch categories, tags, and classifications for modals
   const { data: categoriesData } = useCategories(true); // flat=true to get all categories including nested
@@ -187,93 +209,52 @@ export default function StoryDetailPage() {
 
   // Mutations
   const deleteStoryMutation = useDeleteStory();
-  const toggleBulletinFlagMutation = useToggleStoryBulletinFlag();
 
-  // Determine next stage action based on current stage and user role
+  // Determine next stage action from the story's workflow definition
   const getNextStageAction = () => {
-    if (!story || !session?.user?.staffRole || !story.stage) return null;
-
-    const userRole = session.user.staffRole as StaffRole;
-    const stage = story.stage as StoryStage;
-    const isAuthor = story.authorId === session.user.id;
-
-    // DRAFT -> Submit for Review (Intern only)
-    if (stage === 'DRAFT' && userRole === 'INTERN' && isAuthor) {
-      return {
-        action: 'submit_for_review',
-        label: 'Submit for Review',
-        icon: ArrowUpCircleIcon,
-        color: 'primary' as const,
-        requiresAssignment: true,
-        assignmentLabel: 'Assign Journalist Reviewer',
-        assignmentRoles: ['JOURNALIST' as StaffRole],
-      };
-    }
-
-    // DRAFT -> Send for Approval (Journalist only)
-    if (stage === 'DRAFT' && userRole === 'JOURNALIST' && isAuthor) {
-      return {
-        action: 'send_for_approval',
-        label: 'Send for Approval',
-        icon: ArrowUpCircleIcon,
-        color: 'primary' as const,
-        requiresAssignment: true,
-        assignmentLabel: 'Assign Sub-Editor for Approval',
-        assignmentRoles: ['SUB_EDITOR' as StaffRole],
-      };
-    }
-
-    // DRAFT -> Approve Story (Sub-Editor and above can self-approve)
-    if (stage === 'DRAFT' && ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole) && isAuthor) {
-      return {
-        action: 'approve_story',
-        label: 'Approve Story',
-        icon: CheckCircleIcon,
-        color: 'primary' as const,
-        requiresAssignment: false,
-      };
-    }
-
-    // NEEDS_JOURNALIST_REVIEW -> Send for Approval or Request Revision (Journalist reviewing)
-    if (stage === 'NEEDS_JOURNALIST_REVIEW' && userRole === 'JOURNALIST' && !isAuthor) {
-      return {
-        action: 'send_for_approval',
-        label: 'Send for Approval',
-        icon: CheckCircleIcon,
-        color: 'primary' as const,
-        requiresAssignment: true,
-        assignmentLabel: 'Assign Sub-Editor for Approval',
-        assignmentRoles: ['SUB_EDITOR' as StaffRole],
-      };
-    }
-
-    // NEEDS_SUB_EDITOR_APPROVAL -> Approve or Request Revision (Sub-Editor)
-    if (stage === 'NEEDS_SUB_EDITOR_APPROVAL' && ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole)) {
-      return {
-        action: 'approve_story',
-        label: 'Approve Story',
-        icon: CheckCircleIcon,
-        color: 'primary' as const,
-        requiresAssignment: false,
-      };
-    }
-
-    // TRANSLATED -> Publish Story (Sub-Editor and above)
-    if (stage === 'TRANSLATED' && ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole)) {
-      return {
-        action: 'publish_story',
-        label: 'Publish Story',
-        icon: CheckCircleIcon,
-        color: 'primary' as const,
-        requiresAssignment: false,
-      };
-    }
-
-    return null;
+    if (!story || !session?.user?.staffRole || !story.stage || !workflowState) return null;
+
+    // Drafts are moved on by their author
+    if (story.stage === 'DRAFT' && story.authorId !== session.user.id) return null;
+
+    const transition = workflowState.transitions.find(t => PRIMARY_STAGE_ACTIONS.includes(t.action));
+    if (!transition) return null;
+
+    return {
+      action: transition.action,
+      label: transition.label,
+      icon: transition.assignmentRoles.length > 0 ? ArrowUpCircleIcon : CheckCircleIcon,
+      color: 'primary' as const,
+      requiresAssignment: transition.assignmentRoles.length > 0,
+      assignmentLabel: `Assign ${transition.assignmentRoles.map(role => STAFF_ROLE_LABELS[role]).join(' or ')}`,
+      assignmentRoles: transition.assignmentRoles,
+      checklist: transition.checklist,
+      requireStyleCheck: !!transition.requireStyleCheck,
+    };
   };
 
   const nextAction = getNextStageAction();
 
+  // Skipping translation publishes straight away, so it asks for the
+  // workflow's publish checklist
+  const markTranslatedTransition = workflowState?.transitions.find(t => t.action === 'mark_as_translated');
+  const skipTranslationPublish = workflowState && markTranslatedTransition
+    ? findTransition(workflowState.workflow, 'publish_story', markTranslatedTransition.to, story?.author?.staffRole ?? null)
+    : null;
+
+  // Ticked automatically once the copy has no house-style errors
+  const styleErrors = styleCheck.issues.filter(issue => issue.severity === 'error');
+  const styleChecklistItem = {
+    id: 'style-check',
+    label: 'House style check passes',
+    description: styleCheck.passes
+      ? 'No house-style errors in the copy.'
+      : `Edit the story to fix: ${styleErrors.map(issue => issue.match ?? issue.message).join(', ')}`,
+    checked: styleCheck.passes,
+    required: true,
+    disabled: true,
+  };
+
   // Determine if user can request revision (uses imported canRequestRevision from permissions.ts)
   const showRevisionButton = canRequestRevision(
     (session?.user?.staffRole as StaffRole) ?? null,
@@ -425,21 +406,6 @@ export default function StoryDetailPage() {
     }
   };
 
-  // Toggle bulletin flag handler
-  const handleToggleBulletinFlag = async () => {
-    if (!story) return;
-    try {
-      await toggleBulletinFlagMutation.mutateAsync({
-        id: storyId,
-        flagged: !story.flaggedForBulletin,
-      });
-      toast.success(story.flaggedForBulletin ? 'Story unflagged for bulletin' : 'Story flagged for bulletin');
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to toggle bulletin flag';
-      toast.error(errorMessage);
-    }
-  };
-
   // Modal handlers - each saves immediately
   const handleCategorySelected = async (categoryId: string) => {
     setIsSavingMetadata(true);
@@ -688,13 +654,14 @@ export default function StoryDetailPage() {
   const localityClassification = getClassificationByType('LOCALITY');
 
   // Workflow bar action handlers
-  const handleMarkReadyToPublish = async () => {
+  const handleMarkReadyToPublish = async (checklistData?: Record<string, boolean>) => {
     try {
       const response = await fetch(`/api/newsroom/stories/${storyId}/stage`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           action: 'mark_as_translated',
+          checklistData,
         }),
       });
 
@@ -707,6 +674,7 @@ export default function StoryDetailPage() {
       const newStage = result.story?.stage || result.stage;
       if (newStage === 'PUBLISHED') {
         toast.success('Story published successfully');
+        setShowSkipTranslationModal(false);
       } else {
         toast.success('Story marked as ready to publish');
       }
@@ -734,13 +702,15 @@ export default function StoryDetailPage() {
     ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(session.user.staffRole);
 
   const showSkipTranslation = !story.isTranslation &&
+    !workflowState?.workflow.requiresTranslation &&
+    !!skipTranslationPublish &&
     story.stage === 'APPROVED' &&
     (!story.translations || story.translations.length === 0) &&
     (!translationsData?.stories || translationsData.stories.length === 0) &&
     session?.user?.staffRole &&
     ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(session.user.staffRole);
 
-  const showReviewForPublishing = story.status === 'READY_TO_PUBLISH' &&
+  const showReviewForPublishing = story.stage === 'TRANSLATED' &&
     session?.user?.staffRole &&
     ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(session.user.staffRole);
 
@@ -752,6 +722,7 @@ export default function StoryDetailPage() {
         storyId={storyId}
         stage={story.stage}
         authorRole={story.author.staffRole}
+        workflowName={workflowState?.workflow.name}
         assignedReviewer={story.assignedReviewer}
         assignedApprover={story.assignedApprover}
         nextAction={nextAction}
@@ -763,12 +734,26 @@ export default function StoryDetailPage() {
         isTranslating={isTranslating}
         onStageTransition={() => setShowStageTransitionModal(true)}
         onRevisionRequest={() => setShowRevisionModal(true)}
-        onMarkReadyToPublish={handleMarkReadyToPublish}
+        onMarkReadyToPublish={() => handleMarkReadyToPublish()}
         onCreateTranslation={handleSendForTranslation}
-        onSkipTranslation={handleMarkReadyToPublish}
+        onSkipTranslation={() => setShowSkipTranslationModal(true)}
         onReviewForPublishing={() => router.push(`/newsroom/stories/${storyId}/publish`)}
       />
 
+      {/* Original edited since this translation was made */}
+      {story.isTranslation && story.sourceChangedAt && (
+        <div className="mb-8">
+          <SourceChangesBanner
+            storyId={storyId}
+            canAcknowledge={canWorkOnTranslation(
+              (session?.user?.staffRole as StaffRole) ?? null,
+              story.authorId,
+              session?.user?.id ?? ''
+            )}
+          />
+        </div>
+      )}
+
       {/* Main Grid Layout */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main Content - Zone 2: Story Preview */}
@@ -868,15 +853,22 @@ export default function StoryDetailPage() {
                     <Button
                       color="white"
                       className={story.flaggedForBulletin ? "!bg-amber-100 !border-amber-300 !text-amber-800" : ""}
-                      onClick={handleToggleBulletinFlag}
-                      disabled={toggleBulletinFlagMutation.isPending}
+                      onClick={() => setShowBulletinFlagModal(true)}
                     >
                       {story.flaggedForBulletin ? (
                         <FlagIconSolid className="h-4 w-4 mr-2" />
                       ) : (
                         <FlagIcon className="h-4 w-4 mr-2" />
                       )}
-                      {story.flaggedForBulletin ? 'Unflag' : 'Flag'}
+                      {story.flaggedForBulletin ? 'Flagged' : 'Flag'}
+                    </Button>
+                  )}
+
+                  {/* Breaking News Button */}
+                  {story.stage === 'PUBLISHED' && canSendBreakingNews(session?.user?.staffRole ?? null) && (
+                    <Button color="white" onClick={() => setShowBreakingNewsModal(true)}>
+                      <MegaphoneIcon className="h-4 w-4 mr-2" />
+                      Breaking News
                     </Button>
                   )}
 
@@ -989,8 +981,8 @@ export default function StoryDetailPage() {
                     </div>
                   </div>
                   <div className="space-y-2">
-                    {story.audioClips.map((sac: { id: string; audioClip: AudioClip }) => {
-                      const clip = sac.audioClip;
+                    {story.audioClips.map((sac: { id: string; audioClip: AudioClip } & Partial<AudioTrimFields>) => {
+                      const clip = usageAudioClip('story', sac);
                       return (
                         <CustomAudioPlayer
                           key={clip.id}
@@ -1152,10 +1144,33 @@ export default function StoryDetailPage() {
               </div>
             </Card>
           )}
+
+          {story.stage === 'PUBLISHED' && <BreakingNewsAlerts storyId={story.id} />}
+
+          {/* Revision History */}
+          <StoryVersionHistory
+            storyId={story.id}
+            canRestore={canShowEditButton(
+              session?.user?.staffRole ?? null,
+              story.authorId,
+              session?.user?.id || '',
+              story.stage,
+              story.assignedReviewerId,
+              story.assignedApproverId,
+              story.isTranslation
+            )}
+          />
         </div>
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Embargo and exclusivity for stations */}
+          <ReleaseWindowCard
+            target={{ storyId: story.id }}
+            content={story}
+            canEdit={canSetReleaseWindow(session?.user?.staffRole ?? null)}
+          />
+
           {/* Translation Info - Show if this is a translation */}
           {story.isTranslation && story.originalStoryId && (
             <Card className="p-6">
@@ -1194,6 +1209,7 @@ export default function StoryDetailPage() {
                       <div className="flex items-center gap-2">
                         <Badge color="blue">{translation.language}</Badge>
                         <StageBadge stage={translation.stage} />
+                        {translation.sourceChangedAt && <Badge color="amber">Source changed</Badge>}
                       </div>
                       <Text className="text-sm text-zinc-600 dark:text-zinc-400 mt-1">
                         by {translation.author.firstName} {translation.author.lastName}
@@ -1208,7 +1224,7 @@ export default function StoryDetailPage() {
           {/* Stage Progress Card */}
           <Card className="p-6">
             <Heading level={3} className="mb-4">Workflow</Heading>
-            <StageProgressCard currentStage={story.stage} authorRole={story.author?.role} />
+            <StageProgressCard currentStage={story.stage} authorRole={story.author?.staffRole} steps={workflowState?.steps} />
             <div className="mt-4 pt-4 border-t border-zinc-100">
               <div className="flex items-center justify-between">
                 <Text className="text-sm text-zinc-500">Last modified</Text>
@@ -1548,6 +1564,26 @@ export default function StoryDetailPage() {
         onTagCreate={handleCreateTag}
       />
 
+      {/* Breaking News Modal */}
+      {story.stage === 'PUBLISHED' && (
+        <BreakingNewsModal
+          open={showBreakingNewsModal}
+          onClose={() => setShowBreakingNewsModal(false)}
+          target={{ storyId: story.id }}
+          defaultHeadline={story.title}
+        />
+      )}
+
+      {/* Bulletin Flag Modal */}
+      {canFlagStoryForBulletin(session?.user?.staffRole ?? null) && (
+        <BulletinFlagModal
+          open={showBulletinFlagModal}
+          onClose={() => setShowBulletinFlagModal(false)}
+          storyId={story.id}
+          storyLanguage={story.language}
+        />
+      )}
+
       {/* Stage Transition Modal */}
       {nextAction && (
         <StageTransitionModal
@@ -1562,20 +1598,26 @@ export default function StoryDetailPage() {
           assignmentLabel={nextAction.assignmentLabel}
           assignmentRoles={nextAction.assignmentRoles}
           users={users}
-          checklistItems={
-            nextAction.action === 'publish_story'
-              ? [
-                  { id: 'content', label: 'Final content review complete', checked: false, required: true },
-                  { id: 'translations', label: 'All translations verified and complete', checked: false, required: true },
-                  { id: 'audio', label: 'Audio quality checked', checked: false, required: true },
-                  { id: 'metadata', label: 'Categorization and tags verified', checked: false, required: true },
-                ]
-              : [
-                  { id: 'content', label: 'Content is complete and accurate', checked: false, required: true },
-                  { id: 'grammar', label: 'Grammar and spelling checked', checked: false, required: true },
-                  { id: 'sources', label: 'Sources verified', checked: false, required: true },
-                ]
-          }
+          checklistItems={[
+            ...nextAction.checklist.map(item => ({ ...item, checked: false, required: true })),
+            ...(nextAction.requireStyleCheck ? [styleChecklistItem] : []),
+          ]}
+        />
+      )}
+
+      {/* Skip Translation Modal */}
+      {skipTranslationPublish && (
+        <StageTransitionModal
+          isOpen={showSkipTranslationModal}
+          onClose={() => setShowSkipTranslationModal(false)}
+          onSubmit={data => handleMarkReadyToPublish(data.checklistData)}
+          title="Skip Translation"
+          description="The story will be published without translations. Complete the checklist below to publish it."
+          actionLabel={skipTranslationPublish.label}
+          checklistItems={[
+            ...skipTranslationPublish.checklist.map(item => ({ ...item, checked: false, required: true })),
+            ...(skipTranslationPublish.requireStyleCheck ? [styleChecklistItem] : []),
+          ]}
         />
       )}
 
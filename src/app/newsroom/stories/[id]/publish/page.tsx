@@ -1,12 +1,12 @@
 "use client";
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { useForm, SubmitHandler } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import toast from "react-hot-toast";
 import { LoadingSpinner } from "@/components/ui/loading-spinner";
 
@@ -28,30 +28,23 @@ import {
   CheckCircleIcon,
   ExclamationTriangleIcon,
   CalendarDaysIcon,
+  ClockIcon,
   MusicalNoteIcon
 } from "@heroicons/react/24/outline";
 import { useStory } from "@/hooks/use-stories";
 import { formatLanguage } from "@/lib/language-utils";
+import type { WorkflowChecklistItem } from "@/lib/workflow";
 
-// Create schema factory function that can access the current auto-validation state
-const createPublishSchema = (allTranslationsApproved: boolean) => z.object({
+const publishSchema = z.object({
   followUpDate: z.string().optional(),
   followUpNote: z.string().optional(),
   publishImmediately: z.boolean(),
-  
-  // Pre-publish checklist items
-  contentReviewed: z.boolean().refine(val => val, "Content review must be confirmed"),
-  translationsVerified: z.boolean().refine(
-    val => val || allTranslationsApproved, 
-    "Translation verification must be confirmed"
-  ),
-  audioQualityChecked: z.boolean().refine(val => val, "Audio quality check must be confirmed"),
   followUpRequired: z.boolean().optional(), // Optional checkbox
   
   scheduledPublishAt: z.string().optional(),
 });
 
-type PublishFormData = z.infer<ReturnType<typeof createPublishSchema>>;
+type PublishFormData = z.infer<typeof publishSchema>;
 
 export default function PublishStoryPage() {
   const router = useRouter();
@@ -60,6 +53,11 @@ export default function PublishStoryPage() {
   const storyId = params.id as string;
   const { data: story, isLoading, error } = useStory(storyId);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUpdatingSchedule, setIsUpdatingSchedule] = useState(false);
+  const [rescheduleAt, setRescheduleAt] = useState('');
+  // The workflow's publish checklist, ticked off by item id
+  const [checklist, setChecklist] = useState<Record<string, boolean>>({});
+  const queryClient = useQueryClient();
   // Check if story can be published
   const { data: publishStatus } = useQuery({
     queryKey: ['publishStatus', storyId],
@@ -73,17 +71,7 @@ export default function PublishStoryPage() {
     enabled: !!storyId && !!story,
   });
 
-  // Calculate auto-validation state early so we can use it in schema creation
   const translations = story?.translations || [];
-  const allTranslationsApproved = translations.length > 0 && translations.every((t: any) =>
-    t.stage === "APPROVED" || t.stage === "TRANSLATED" || t.stage === "PUBLISHED"
-  );
-
-  // Create memoized resolver to update when auto-validation state changes
-  const publishResolver = useMemo(() => 
-    zodResolver(createPublishSchema(allTranslationsApproved)), 
-    [allTranslationsApproved]
-  );
 
   // Check permissions
   useEffect(() => {
@@ -108,13 +96,9 @@ export default function PublishStoryPage() {
     watch,
     setValue,
     trigger,
-    formState: { errors },
   } = useForm<PublishFormData>({
-    resolver: publishResolver,
+    resolver: zodResolver(publishSchema),
     defaultValues: {
-      contentReviewed: false,
-      translationsVerified: false,
-      audioQualityChecked: false,
       followUpRequired: false,
       publishImmediately: true,
       followUpDate: '',
@@ -123,23 +107,14 @@ export default function PublishStoryPage() {
   });
 
   const watchPublishImmediately = watch('publishImmediately');
-  const watchedValues = watch();
   
   const canPublish = publishStatus?.canPublish || false;
   const publishIssues = publishStatus?.issues || [];
-  
-  // Automatically update form state when translations are auto-approved
-  useEffect(() => {
-    if (allTranslationsApproved && !watchedValues.translationsVerified) {
-      setValue('translationsVerified', true);
-      trigger('translationsVerified');
-    }
-  }, [allTranslationsApproved, watchedValues.translationsVerified, setValue, trigger]);
+  const scheduledPublishAt: string | null = publishStatus?.checks?.scheduledPublishAt || null;
+  const checklistItems: WorkflowChecklistItem[] = publishStatus?.checklist || [];
 
-  // Custom validation for form completeness - translations are always required
-  const isFormValid = watchedValues.contentReviewed && 
-    watchedValues.audioQualityChecked && 
-    (watchedValues.translationsVerified || allTranslationsApproved);
+  // Every checklist item must be ticked before publishing or scheduling
+  const isFormValid = checklistItems.every(item => checklist[item.id]);
 
   const onSubmit: SubmitHandler<PublishFormData> = async (formData: PublishFormData) => {
     if (!canPublish) {
@@ -147,12 +122,6 @@ export default function PublishStoryPage() {
       return;
     }
 
-    // Validate translations - all translations must be verified (either manually or automatically)
-    if (!formData.translationsVerified && !allTranslationsApproved) {
-      toast.error("Please confirm that all translations have been verified.");
-      return;
-    }
-
     setIsSubmitting(true);
     try {
       const response = await fetch(`/api/newsroom/stories/${storyId}/publish`, {
@@ -160,7 +129,7 @@ export default function PublishStoryPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, checklistData: checklist }),
       });
 
       if (!response.ok) {
@@ -192,6 +161,60 @@ export default function PublishStoryPage() {
     }
   };
 
+  const handleReschedule = async () => {
+    if (!rescheduleAt) {
+      toast.error("Please choose a new publish date and time.");
+      return;
+    }
+
+    setIsUpdatingSchedule(true);
+    try {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/publish`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ scheduledPublishAt: new Date(rescheduleAt).toISOString() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to reschedule story');
+      }
+
+      toast.success("Story rescheduled");
+      setRescheduleAt('');
+      await queryClient.invalidateQueries({ queryKey: ['publishStatus', storyId] });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to reschedule story";
+      toast.error(errorMessage);
+    } finally {
+      setIsUpdatingSchedule(false);
+    }
+  };
+
+  const handleCancelSchedule = async () => {
+    setIsUpdatingSchedule(true);
+    try {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/publish`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to cancel scheduled publishing');
+      }
+
+      toast.success("Scheduled publishing cancelled");
+      await queryClient.invalidateQueries({ queryKey: ['publishStatus', storyId] });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to cancel scheduled publishing";
+      toast.error(errorMessage);
+    } finally {
+      setIsUpdatingSchedule(false);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -319,6 +342,49 @@ export default function PublishStoryPage() {
           </Card>
         )}
 
+        {/* Existing Schedule Callout */}
+        {scheduledPublishAt && (
+          <Card className="p-4 mt-6 border-blue-200 bg-blue-50">
+            <div className="flex items-start gap-3">
+              <ClockIcon className="h-5 w-5 text-blue-600 mt-0.5 flex-shrink-0" />
+              <div className="flex-1">
+                <Heading level={5} className="text-blue-800 mb-1">
+                  Scheduled for {formatDate(scheduledPublishAt)}
+                </Heading>
+                <Text className="text-sm text-blue-700 mb-3">
+                  This story and its approved translations will publish automatically at the scheduled time.
+                  You can move the publish time or cancel the schedule below.
+                </Text>
+                <div className="flex flex-wrap items-center gap-3">
+                  <Input
+                    type="datetime-local"
+                    aria-label="New publish date and time"
+                    value={rescheduleAt}
+                    onChange={(e) => setRescheduleAt(e.target.value)}
+                    className="max-w-xs"
+                  />
+                  <Button
+                    type="button"
+                    color="white"
+                    onClick={handleReschedule}
+                    disabled={isUpdatingSchedule || !rescheduleAt}
+                  >
+                    Reschedule
+                  </Button>
+                  <Button
+                    type="button"
+                    color="red"
+                    onClick={handleCancelSchedule}
+                    disabled={isUpdatingSchedule}
+                  >
+                    Cancel Schedule
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </Card>
+        )}
+
         {/* Publication Status Callout */}
         {canPublish && (
           <Card className={`p-4 mt-6 ${isFormValid ? 'border-green-200 bg-green-50' : 'border-amber-200 bg-amber-50'}`}>
@@ -461,79 +527,16 @@ export default function PublishStoryPage() {
                 )}
                 
                 <CheckboxGroup>
-                  {/* Content Review */}
-                  <CheckboxField>
-                    <Checkbox
-                      id="contentReviewed"
-                      checked={watch('contentReviewed') || false}
-                      onChange={(checked) => {
-                        setValue('contentReviewed', checked);
-                        trigger('contentReviewed');
-                      }}
-                    />
-                    <Label htmlFor="contentReviewed">
-                      Content Review Complete
-                    </Label>
-                    <Description>
-                      Final review of story content and editorial quality
-                    </Description>
-                    {errors.contentReviewed && (
-                      <Text className="text-sm text-red-600 mt-1">{errors.contentReviewed.message}</Text>
-                    )}
-                  </CheckboxField>
-
-                  {/* Translation Verification */}
-                  <CheckboxField>
-                    <div className="flex items-center gap-2">
+                  {checklistItems.map(item => (
+                    <CheckboxField key={item.id}>
                       <Checkbox
-                        id="translationsVerified"
-                        checked={watch('translationsVerified') || allTranslationsApproved}
-                        onChange={(checked) => {
-                          setValue('translationsVerified', checked);
-                          trigger('translationsVerified');
-                        }}
-                        disabled={allTranslationsApproved}
+                        id={`checklist-${item.id}`}
+                        checked={checklist[item.id] || false}
+                        onChange={(checked) => setChecklist(current => ({ ...current, [item.id]: checked }))}
                       />
-                      {allTranslationsApproved && (
-                        <CheckCircleIcon className="h-5 w-5 text-green-600" />
-                      )}
-                    </div>
-                    <Label htmlFor="translationsVerified">
-                      Translation Verification
-                      {allTranslationsApproved && (
-                        <span className="ml-2 text-sm text-green-600 font-normal">(Auto-verified)</span>
-                      )}
-                    </Label>
-                    <Description>
-                      {allTranslationsApproved 
-                        ? "All translations are approved and automatically verified"
-                        : "All required translations have been approved and are ready for publishing"}
-                    </Description>
-                    {errors.translationsVerified && (
-                      <Text className="text-sm text-red-600 mt-1">{errors.translationsVerified.message}</Text>
-                    )}
-                  </CheckboxField>
-
-                  {/* Audio Quality */}
-                  <CheckboxField>
-                    <Checkbox
-                      id="audioQualityChecked"
-                      checked={watch('audioQualityChecked') || false}
-                      onChange={(checked) => {
-                        setValue('audioQualityChecked', checked);
-                        trigger('audioQualityChecked');
-                      }}
-                    />
-                    <Label htmlFor="audioQualityChecked">
-                      Audio Quality Verification
-                    </Label>
-                    <Description>
-                      Audio clips tested for quality and compatibility
-                    </Description>
-                    {errors.audioQualityChecked && (
-                      <Text className="text-sm text-red-600 mt-1">{errors.audioQualityChecked.message}</Text>
-                    )}
-                  </CheckboxField>
+                      <Label htmlFor={`checklist-${item.id}`}>{item.label}</Label>
+                    </CheckboxField>
+                  ))}
 
                   {/* Follow-up Required */}
                   <CheckboxField>
@@ -25,7 +25,14 @@ import { Divider } from '@/components/ui/divider';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
 import { FileUpload } from '@/components/ui/file-upload';
 import { AudioPickerModal } from '@/components/newsroom/AudioPickerModal';
+import { TranslationAids } from '@/components/newsroom/TranslationAids';
+import { SourceChangesBanner } from '@/components/newsroom/SourceChangesBanner';
 import { useLinkAudioToStory } from '@/hooks/use-audio-library';
+import { useGlossaryTerms } from '@/hooks/use-glossary';
+import { findGlossaryMatches, highlightGlossaryTerms } from '@/lib/glossary';
+import { htmlToPlainText } from '@/lib/text-diff';
+import { uploadAudioFiles, uploadPercent } from '@/lib/resumable-upload';
+import type { TranslationLanguage } from '@prisma/client';
 
 interface AudioFile {
   id: string;
@@ -54,6 +61,7 @@ export default function TranslatePage() {
   const [removedAudioIds, setRemovedAudioIds] = useState<string[]>([]);
   const [newAudioFiles, setNewAudioFiles] = useState<AudioFile[]>([]);
   const [showAudioPicker, setShowAudioPicker] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const linkAudioMutation = useLinkAudioToStory(storyId);
 
   const {
@@ -97,6 +105,11 @@ export default function TranslatePage() {
 
   const originalStory = originalStoryData;
 
+  // Approved term translations for the target language
+  const targetLanguage = translationStory?.language as TranslationLanguage | undefined;
+  const { data: glossaryData } = useGlossaryTerms(targetLanguage, !!translationStory?.isTranslation);
+  const glossaryTerms = glossaryData?.terms || [];
+
   // Load existing translation content if it exists
   useEffect(() => {
     if (translationStory) {
@@ -119,42 +132,23 @@ export default function TranslatePage() {
   // Save translation mutation
   const saveMutation = useMutation({
     mutationFn: async (data: TranslationFormData) => {
-      let response;
-
-      // If there are new audio files or removed audio clips, use FormData
-      if (newAudioFiles.length > 0 || removedAudioIds.length > 0) {
-        const formData = new FormData();
-
-        // Add story data
-        formData.append('title', data.title);
-        formData.append('content', data.content);
-
-        // Add removed audio IDs
-        if (removedAudioIds.length > 0) {
-          formData.append('removedAudioIds', JSON.stringify(removedAudioIds));
-        }
-
-        // Add new audio files
-        newAudioFiles.forEach((audioFile, index) => {
-          formData.append(`audioFile_${index}`, audioFile.file);
-        });
-        formData.append('audioFilesCount', String(newAudioFiles.length));
-
-        response = await fetch(`/api/newsroom/stories/${storyId}`, {
-          method: 'PATCH',
-          body: formData,
-        });
-      } else {
-        // No audio changes, use regular JSON
-        response = await fetch(`/api/newsroom/stories/${storyId}`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            title: data.title,
-            content: data.content,
-          }),
-        });
-      }
+      // Send new audio straight to storage; the story only carries the upload ids
+      const uploadIds = newAudioFiles.length > 0
+        ? await uploadAudioFiles(newAudioFiles.map(audioFile => audioFile.file), {
+            onProgress: (progress) => setUploadProgress(uploadPercent(progress)),
+          })
+        : undefined;
+
+      const response = await fetch(`/api/newsroom/stories/${storyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: data.title,
+          content: data.content,
+          removedAudioIds: removedAudioIds.length > 0 ? removedAudioIds : undefined,
+          uploadIds,
+        }),
+      });
 
       if (!response.ok) {
         const error = await response.json();
@@ -171,6 +165,9 @@ export default function TranslatePage() {
     onError: (error: Error) => {
       toast.error(error.message || 'Failed to save translation');
     },
+    onSettled: () => {
+      setUploadProgress(null);
+    },
   });
 
   const onSubmit = (data: TranslationFormData) => {
@@ -245,6 +242,11 @@ export default function TranslatePage() {
     );
   }
 
+  const glossaryMatches = findGlossaryMatches(
+    `${originalStory.title}\n${htmlToPlainText(originalStory.content)}`,
+    glossaryTerms
+  );
+
   // Calculate word counts
   const originalWordCount = originalStory.content
     .replace(/<[^>]*>/g, '')
@@ -289,6 +291,8 @@ export default function TranslatePage() {
           }
         />
 
+        <SourceChangesBanner storyId={storyId} canAcknowledge={isAuthorizedTranslator} />
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Left: Translation Form */}
           <div>
@@ -303,6 +307,15 @@ export default function TranslatePage() {
                 </Badge>
               </div>
 
+              {translationStory.translationDraft && (
+                <div className="rounded-md bg-blue-50 p-3 mb-6">
+                  <Text className="text-sm text-blue-800">
+                    This translation was pre-filled with a machine draft ({translationStory.translationDraft.provider}).
+                    Post-edit it carefully: check every sentence against the original before submitting.
+                  </Text>
+                </div>
+              )}
+
               <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
                 <Fieldset>
                   <FieldGroup>
@@ -410,8 +423,10 @@ export default function TranslatePage() {
                           <FileUpload
                             onFilesChange={setNewAudioFiles}
                             maxFiles={5}
-                            maxFileSize={100}
                           />
+                          {uploadProgress !== null && (
+                            <Text className="mt-2 text-sm">Uploading audio... {uploadProgress}%</Text>
+                          )}
                         </div>
 
                         {/* Audio Picker Modal */}
@@ -457,9 +472,9 @@ export default function TranslatePage() {
             </Card>
           </div>
 
-          {/* Right: Original Story (Read-Only) */}
-          <div>
-            <Card className="p-6 sticky top-6">
+          {/* Right: Original Story (Read-Only) and translation aids */}
+          <div className="space-y-6">
+            <Card className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <Heading level={3}>Original Story</Heading>
                 <Badge color="blue">
@@ -493,7 +508,7 @@ export default function TranslatePage() {
                 <div className="prose max-w-none">
                   <div
                     className="text-zinc-700 dark:text-zinc-300 leading-relaxed space-y-4"
-                    dangerouslySetInnerHTML={{ __html: originalStory.content }}
+                    dangerouslySetInnerHTML={{ __html: highlightGlossaryTerms(originalStory.content, glossaryTerms) }}
                   />
                 </div>
 
@@ -543,6 +558,8 @@ export default function TranslatePage() {
                 </Button>
               </div>
             </Card>
+
+            <TranslationAids storyId={storyId} glossaryMatches={glossaryMatches} />
           </div>
         </div>
       </div>
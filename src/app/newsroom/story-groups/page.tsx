@@ -0,0 +1,298 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { Container } from '@/components/ui/container';
+import { PageHeader } from '@/components/ui/page-header';
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { StageBadge } from '@/components/ui/stage-badge';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { CardSkeleton } from '@/components/ui/skeleton';
+import {
+  RectangleStackIcon,
+  ClockIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline';
+import {
+  useStoryGroups,
+  useUpdateStoryGroup,
+  useDeleteStoryGroup,
+  usePublishStoryGroup,
+  useCancelStoryGroupSchedule,
+} from '@/hooks/use-story-groups';
+import type { StoryGroup } from '@/hooks/use-story-groups';
+import { StoryGroupModal } from '@/components/newsroom/story-groups/StoryGroupModal';
+
+export default function StoryGroupsPage() {
+  const [includePublished, setIncludePublished] = useState(false);
+  const [modalOpen, setModalOpen] = useState(false);
+  const [scheduleInputs, setScheduleInputs] = useState<Record<string, string>>({});
+  const [deleteTarget, setDeleteTarget] = useState<StoryGroup | null>(null);
+
+  const { data, isLoading, error } = useStoryGroups(includePublished);
+  const updateMutation = useUpdateStoryGroup();
+  const deleteMutation = useDeleteStoryGroup();
+  const publishMutation = usePublishStoryGroup();
+  const cancelScheduleMutation = useCancelStoryGroupSchedule();
+
+  const groups = data?.groups || [];
+
+  const handlePublishNow = async (group: StoryGroup) => {
+    try {
+      const result = await publishMutation.mutateAsync({ id: group.id });
+      toast.success(`Published ${result.published} stories from "${group.name}"`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to publish story group');
+    }
+  };
+
+  const handleSchedule = async (group: StoryGroup) => {
+    const value = scheduleInputs[group.id];
+    if (!value) {
+      toast.error('Choose a date and time to schedule the release');
+      return;
+    }
+
+    try {
+      const result = await publishMutation.mutateAsync({
+        id: group.id,
+        scheduledPublishAt: new Date(value).toISOString(),
+      });
+      if (result.blocking?.length > 0) {
+        toast.success('Group scheduled. It will be released once all stories are ready.');
+      } else {
+        toast.success('Group scheduled for publishing');
+      }
+      setScheduleInputs(prev => ({ ...prev, [group.id]: '' }));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to schedule story group');
+    }
+  };
+
+  const handleCancelSchedule = async (group: StoryGroup) => {
+    try {
+      await cancelScheduleMutation.mutateAsync(group.id);
+      toast.success('Scheduled release cancelled');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel schedule');
+    }
+  };
+
+  const handleRemoveStory = async (group: StoryGroup, storyId: string) => {
+    try {
+      await updateMutation.mutateAsync({ id: group.id, data: { removeStoryIds: [storyId] } });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to remove story');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      await deleteMutation.mutateAsync(deleteTarget.id);
+      toast.success('Story group deleted');
+      setDeleteTarget(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete story group');
+    }
+  };
+
+  return (
+    <Container>
+      <div className="space-y-6">
+        <PageHeader
+          title="Story Groups"
+          description="Release related stories and their translations together"
+          action={{
+            label: 'New Group',
+            onClick: () => setModalOpen(true),
+          }}
+        />
+
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="includePublished"
+            checked={includePublished}
+            onChange={(e) => setIncludePublished(e.target.checked)}
+            className="h-4 w-4 rounded border-zinc-300 text-kelly-green focus:ring-kelly-green"
+          />
+          <label htmlFor="includePublished" className="text-sm text-zinc-700">
+            Show published groups
+          </label>
+        </div>
+
+        {isLoading ? (
+          <CardSkeleton />
+        ) : error ? (
+          <Card className="p-8 text-center">
+            <Text className="text-red-600">Failed to load story groups</Text>
+          </Card>
+        ) : groups.length === 0 ? (
+          <Card className="p-12 text-center">
+            <RectangleStackIcon className="h-16 w-16 text-zinc-300 mx-auto mb-4" />
+            <Heading level={3} className="text-zinc-500 mb-2">
+              No story groups
+            </Heading>
+            <Text className="text-zinc-400 mb-6">
+              Group related stories to publish them in every language at the same moment.
+            </Text>
+            <Button color="primary" onClick={() => setModalOpen(true)}>
+              New Group
+            </Button>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => {
+              const members = group.readiness.stories.filter(s => !s.isTranslation);
+              const isPublished = !!group.publishedAt;
+
+              return (
+                <Card key={group.id} className="p-5">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1 flex-wrap">
+                        <Text className="font-semibold text-zinc-900">{group.name}</Text>
+                        {isPublished ? (
+                          <Badge color="green">Published</Badge>
+                        ) : group.readiness.ready ? (
+                          <Badge color="emerald">Ready</Badge>
+                        ) : (
+                          <Badge color="amber">{group.readiness.blocking.length} blocking</Badge>
+                        )}
+                        {group.publishTogether && <Badge color="zinc">Publish together</Badge>}
+                        {group.scheduledPublishAt && !isPublished && (
+                          <Badge color="blue">
+                            Scheduled {format(new Date(group.scheduledPublishAt), 'MMM d, yyyy h:mm a')}
+                          </Badge>
+                        )}
+                      </div>
+                      {group.description && (
+                        <Text className="text-sm text-zinc-600">{group.description}</Text>
+                      )}
+
+                      {/* Per-language readiness */}
+                      <div className="flex flex-wrap gap-2 mt-3">
+                        {group.readiness.byLanguage.map((lang) => (
+                          <Badge key={lang.language} color={lang.blocking > 0 ? 'amber' : 'green'}>
+                            {lang.language}: {lang.ready + lang.published}/{lang.total}
+                          </Badge>
+                        ))}
+                      </div>
+
+                      {/* Member stories */}
+                      <div className="mt-3 space-y-1">
+                        {members.map((story) => (
+                          <div key={story.id} className="flex items-center gap-2 text-sm">
+                            <Link
+                              href={`/newsroom/stories/${story.id}`}
+                              className="text-kelly-green hover:underline truncate"
+                            >
+                              {story.title}
+                            </Link>
+                            {story.stage && <StageBadge stage={story.stage} />}
+                            {!isPublished && (
+                              <button
+                                type="button"
+                                onClick={() => handleRemoveStory(group, story.id)}
+                                className="text-zinc-400 hover:text-zinc-600"
+                                title="Remove from group"
+                              >
+                                <XMarkIcon className="h-4 w-4" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+
+                      {/* Blocking stories */}
+                      {!isPublished && group.readiness.blocking.length > 0 && (
+                        <div className="mt-3 rounded-md bg-amber-50 p-3">
+                          <Text className="text-sm font-medium text-amber-800 mb-1">
+                            Waiting on:
+                          </Text>
+                          <ul className="text-sm text-amber-700 list-disc list-inside">
+                            {group.readiness.blocking.map((story) => (
+                              <li key={story.id}>
+                                <Link href={`/newsroom/stories/${story.id}`} className="hover:underline">
+                                  {story.title}
+                                </Link>{' '}
+                                ({story.language}, {story.sourceChangedAt ? 'original changed' : story.stage ?? 'no stage'})
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+
+                    {!isPublished && (
+                      <div className="flex flex-col items-end gap-2 flex-shrink-0">
+                        <div className="flex items-center gap-2">
+                          <Button
+                            color="primary"
+                            onClick={() => handlePublishNow(group)}
+                            disabled={!group.readiness.ready || publishMutation.isPending}
+                          >
+                            Publish Now
+                          </Button>
+                          <Button outline onClick={() => setDeleteTarget(group)} title="Delete group">
+                            <TrashIcon className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="datetime-local"
+                            value={scheduleInputs[group.id] || ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setScheduleInputs(prev => ({ ...prev, [group.id]: e.target.value }))
+                            }
+                          />
+                          <Button
+                            outline
+                            onClick={() => handleSchedule(group)}
+                            disabled={publishMutation.isPending}
+                          >
+                            <ClockIcon className="h-4 w-4" />
+                            {group.scheduledPublishAt ? 'Reschedule' : 'Schedule'}
+                          </Button>
+                        </div>
+                        {group.scheduledPublishAt && (
+                          <Button
+                            outline
+                            onClick={() => handleCancelSchedule(group)}
+                            disabled={cancelScheduleMutation.isPending}
+                          >
+                            Cancel Schedule
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <StoryGroupModal open={modalOpen} onClose={() => setModalOpen(false)} />
+
+      <ConfirmDialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Delete story group"
+        description={`Delete "${deleteTarget?.name}"? The stories themselves are kept and can be published individually.`}
+        isPending={deleteMutation.isPending}
+      />
+    </Container>
+  );
+}
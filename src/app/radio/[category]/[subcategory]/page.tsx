@@ -17,6 +17,7 @@ import {
   ArrowLeftIcon,
   ChevronRightIcon,
 } from '@heroicons/react/24/outline';
+import { languageShortCode } from '@/lib/language-utils';
 
 export default function SubCategoryPage() {
   const params = useParams();
@@ -159,9 +160,7 @@ export default function SubCategoryPage() {
                             : 'bg-white text-zinc-600 border-zinc-300 hover:border-kelly-green hover:text-kelly-green'
                         }`}
                       >
-                        {language === 'English' ? 'EN' :
-                         language === 'Afrikaans' ? 'AF' :
-                         language === 'Xhosa' ? 'XH' : language}
+                        {languageShortCode(language)}
                       </button>
                     ))}
                   </div>
@@ -15,6 +15,7 @@ import {
   NewspaperIcon,
   ArrowLeftIcon,
 } from '@heroicons/react/24/outline';
+import { languageShortCode } from '@/lib/language-utils';
 
 export default function CategoryPage() {
   const params = useParams();
@@ -124,9 +125,7 @@ export default function CategoryPage() {
                             : 'bg-white text-zinc-600 border-zinc-300 hover:border-kelly-green hover:text-kelly-green'
                         }`}
                       >
-                        {language === 'English' ? 'EN' :
-                         language === 'Afrikaans' ? 'AF' :
-                         language === 'Xhosa' ? 'XH' : language}
+                        {languageShortCode(language)}
                       </button>
                     ))}
                   </div>
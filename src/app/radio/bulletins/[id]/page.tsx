@@ -13,12 +13,17 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { PageHeader } from '@/components/ui/page-header';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
+import { BulletinCorrections } from '@/components/shared/BulletinCorrections';
+import type { BulletinCorrection } from '@/hooks/use-bulletin-corrections';
+import { addPronunciationHints } from '@/lib/pronunciation';
+import { Dropdown, DropdownButton, DropdownItem, DropdownLabel, DropdownMenu } from '@/components/ui/dropdown';
 import {
   ArrowLeftIcon,
   CalendarIcon,
   UserIcon,
   PrinterIcon,
   ArrowDownTrayIcon,
+  ChevronDownIcon,
   SpeakerWaveIcon,
 } from '@heroicons/react/24/outline';
 
@@ -61,6 +66,8 @@ interface Bulletin {
   status: string;
   publishedAt: string | null;
   scheduledFor: string | null;
+  correctedAt: string | null;
+  corrections: BulletinCorrection[];
   author?: {
     firstName: string;
     lastName: string;
@@ -162,45 +169,9 @@ export default function BulletinDetailPage() {
     printWindow.onload = () => { printWindow.print(); printWindow.close(); };
   };
 
-  const handleDownload = () => {
-    if (!bulletin) return;
-
-    const stripHtml = (html: string) => html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ');
-
-    const storiesText = bulletin.bulletinStories
-      .map((bs, idx) => `${idx + 1}. ${bs.story.title}\n${stripHtml(bs.story.content || '')}`)
-      .join('\n\n');
-
-    const textContent = `
-${bulletin.title}
-
-Published: ${bulletin.publishedAt ? new Date(bulletin.publishedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : 'N/A'}
-Author: ${bulletin.author ? `${bulletin.author.firstName} ${bulletin.author.lastName}` : 'NewsKoop'}
-Language: ${bulletin.languageDisplay}
-${bulletin.schedule ? `Schedule: ${bulletin.schedule.title}` : ''}
-
---- INTRODUCTION ---
-${stripHtml(bulletin.intro)}
-
---- STORIES ---
-${storiesText}
-
---- OUTRO ---
-${stripHtml(bulletin.outro)}
-
----
-Downloaded from NewsKoop Radio Station Zone
-    `.trim();
-
-    const blob = new Blob([textContent], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${bulletin.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // Exports are rendered server-side so they honour the station's content restrictions
+  const handleExport = (format: string) => {
+    window.location.assign(`/api/radio/bulletins/${bulletinId}/export?format=${format}`);
   };
 
   if (isLoading) {
@@ -269,6 +240,7 @@ Downloaded from NewsKoop Radio Station Zone
                   </div>
                 )}
                 <Badge color="blue">{bulletin.languageDisplay}</Badge>
+                {bulletin.correctedAt && <Badge color="amber">Corrected</Badge>}
                 {bulletin.schedule && (
                   <Badge color="zinc">{bulletin.schedule.title}</Badge>
                 )}
@@ -283,10 +255,30 @@ Downloaded from NewsKoop Radio Station Zone
                   <ArrowLeftIcon className="h-4 w-4 mr-2" />
                   Back
                 </Button>
-                <Button color="white" onClick={handleDownload}>
-                  <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
-                  Download
-                </Button>
+                <Dropdown>
+                  <DropdownButton color="white">
+                    <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                    Export
+                    <ChevronDownIcon className="h-4 w-4 ml-1" />
+                  </DropdownButton>
+                  <DropdownMenu anchor="bottom end">
+                    <DropdownItem onClick={() => handleExport('pdf')}>
+                      <DropdownLabel>Newsreader script (PDF)</DropdownLabel>
+                    </DropdownItem>
+                    <DropdownItem onClick={() => handleExport('txt')}>
+                      <DropdownLabel>Autocue text</DropdownLabel>
+                    </DropdownItem>
+                    <DropdownItem onClick={() => handleExport('ssml')}>
+                      <DropdownLabel>Autocue SSML</DropdownLabel>
+                    </DropdownItem>
+                    <DropdownItem onClick={() => handleExport('m3u')}>
+                      <DropdownLabel>Audio playlist (M3U)</DropdownLabel>
+                    </DropdownItem>
+                    <DropdownItem onClick={() => handleExport('xspf')}>
+                      <DropdownLabel>Audio playlist (XSPF)</DropdownLabel>
+                    </DropdownItem>
+                  </DropdownMenu>
+                </Dropdown>
                 <Button color="white" onClick={handlePrint}>
                   <PrinterIcon className="h-4 w-4 mr-2" />
                   Print
@@ -296,6 +288,13 @@ Downloaded from NewsKoop Radio Station Zone
           />
         </div>
 
+        {/* Corrections issued since publishing */}
+        {bulletin.corrections.length > 0 && (
+          <div className="mb-6">
+            <BulletinCorrections corrections={bulletin.corrections} />
+          </div>
+        )}
+
         {/* Bulletin Content */}
         <Card className="p-6 bg-white shadow-lg">
           <Heading level={2} className="text-lg font-semibold text-zinc-900 mb-4">
@@ -310,7 +309,7 @@ Downloaded from NewsKoop Radio Station Zone
               </div>
               <div className="prose prose-sm max-w-none text-zinc-700">
                 {bulletin.intro ? (
-                  <div dangerouslySetInnerHTML={{ __html: bulletin.intro }} />
+                  <div dangerouslySetInnerHTML={{ __html: addPronunciationHints(bulletin.intro) }} />
                 ) : (
                   <p className="text-zinc-500 italic">No introduction provided</p>
                 )}
@@ -338,7 +337,7 @@ Downloaded from NewsKoop Radio Station Zone
                   {/* Story Content */}
                   <div className="prose prose-sm max-w-none text-zinc-700">
                     {bs.story.content ? (
-                      <div dangerouslySetInnerHTML={{ __html: bs.story.content }} />
+                      <div dangerouslySetInnerHTML={{ __html: addPronunciationHints(bs.story.content) }} />
                     ) : (
                       <p className="text-zinc-500 italic">No content available</p>
                     )}
@@ -372,7 +371,7 @@ Downloaded from NewsKoop Radio Station Zone
               </div>
               <div className="prose prose-sm max-w-none text-zinc-700">
                 {bulletin.outro ? (
-                  <div dangerouslySetInnerHTML={{ __html: bulletin.outro }} />
+                  <div dangerouslySetInnerHTML={{ __html: addPronunciationHints(bulletin.outro) }} />
                 ) : (
                   <p className="text-zinc-500 italic">No outro provided</p>
                 )}
@@ -11,6 +11,7 @@ import { DataList, type DataListColumn } from '@/components/ui/data-list';
 import { PageHeader } from '@/components/ui/page-header';
 import { MegaphoneIcon } from '@heroicons/react/24/outline';
 import { formatDateLong } from '@/lib/format';
+import { languageShortCode } from '@/lib/language-utils';
 
 interface BulletinStory {
   id: string;
@@ -33,6 +34,7 @@ interface Bulletin {
   status: string;
   publishedAt: string | null;
   scheduledFor: string | null;
+  correctedAt: string | null;
   storyCount: number;
   author?: {
     firstName: string;
@@ -162,6 +164,11 @@ export default function BulletinsPage() {
               <Badge color="blue" className="text-xs">
                 {bulletin.languageDisplay}
               </Badge>
+              {bulletin.correctedAt && (
+                <Badge color="amber" className="text-xs">
+                  Corrected
+                </Badge>
+              )}
               {bulletin.storyCount > 0 && (
                 <Badge color="zinc" className="text-xs">
                   {bulletin.storyCount} {bulletin.storyCount === 1 ? 'story' : 'stories'}
@@ -195,6 +202,11 @@ export default function BulletinsPage() {
             <Badge color="blue" className="text-xs">
               {bulletin.languageDisplay}
             </Badge>
+            {bulletin.correctedAt && (
+              <Badge color="amber" className="text-xs">
+                Corrected
+              </Badge>
+            )}
             {bulletin.storyCount > 0 && (
               <Badge color="zinc" className="text-xs">
                 {bulletin.storyCount} stories
@@ -229,9 +241,7 @@ export default function BulletinsPage() {
                             : 'bg-white text-zinc-600 border-zinc-300 hover:border-kelly-green hover:text-kelly-green'
                         }`}
                       >
-                        {lang === 'English' ? 'EN' :
-                         lang === 'Afrikaans' ? 'AF' :
-                         lang === 'Xhosa' ? 'XH' : lang}
+                        {languageShortCode(lang)}
                       </button>
                     ))}
                   </div>
@@ -242,6 +252,11 @@ export default function BulletinsPage() {
         </div>
 
         {/* Schedule Tabs */}
+        {schedulesData?.holiday && (
+          <p className="mb-3 text-sm text-zinc-600">
+            Today is {schedulesData.holiday}, so the public holiday bulletin schedule applies.
+          </p>
+        )}
         {schedules.length > 0 && (
           <div className="mb-6 overflow-x-auto">
             <div className="flex gap-2 pb-2" role="tablist" aria-label="Filter by schedule">
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { RadioNavbar } from '@/components/radio/RadioNavbar';
+import { BreakingNewsBanner } from '@/components/radio/BreakingNewsBanner';
 
 export default function RadioLayout({
   children,
@@ -53,6 +54,7 @@ export default function RadioLayout({
       
       {/* Main Content */}
       <main className="pt-16"> {/* Offset for fixed navbar */}
+        <BreakingNewsBanner />
         {children}
       </main>
     </div>
@@ -17,6 +17,7 @@ import {
   SpeakerWaveIcon,
   MegaphoneIcon,
 } from '@heroicons/react/24/outline';
+import { languageShortCode } from '@/lib/language-utils';
 
 export default function RadioDashboard() {
   const { data: session } = useSession();
@@ -149,9 +150,7 @@ export default function RadioDashboard() {
                           : 'bg-white text-zinc-600 border-zinc-300 hover:border-kelly-green hover:text-kelly-green'
                       }`}
                     >
-                      {language === 'English' ? 'EN' :
-                       language === 'Afrikaans' ? 'AF' :
-                       language === 'Xhosa' ? 'XH' : language}
+                      {languageShortCode(language)}
                     </button>
                   ))}
                 </div>
@@ -270,9 +269,7 @@ export default function RadioDashboard() {
                           : 'bg-white text-zinc-600 border-zinc-300 hover:border-kelly-green hover:text-kelly-green'
                       }`}
                     >
-                      {language === 'English' ? 'EN' :
-                       language === 'Afrikaans' ? 'AF' :
-                       language === 'Xhosa' ? 'XH' : language}
+                      {languageShortCode(language)}
                     </button>
                   ))}
                 </div>
@@ -356,9 +353,7 @@ export default function RadioDashboard() {
                           : 'bg-white text-zinc-600 border-zinc-300 hover:border-kelly-green hover:text-kelly-green'
                       }`}
                     >
-                      {language === 'English' ? 'EN' :
-                       language === 'Afrikaans' ? 'AF' :
-                       language === 'Xhosa' ? 'XH' : language}
+                      {languageShortCode(language)}
                     </button>
                   ))}
                 </div>
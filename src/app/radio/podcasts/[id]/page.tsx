@@ -18,6 +18,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
 import { formatDuration, formatFileSize } from '@/lib/format-utils';
+import { CopyFeedButton } from '@/components/radio/CopyFeedButton';
 
 interface AudioClip {
   id: string;
@@ -42,6 +43,7 @@ interface Episode {
 interface PodcastData {
   id: string;
   title: string;
+  slug: string;
   description: string;
   coverImageUrl?: string;
   category?: { id: string; name: string; slug: string };
@@ -193,11 +195,12 @@ export default function PodcastDetailPage({ params }: { params: Promise<{ id: st
                     {podcast.description || 'No description available'}
                   </Text>
 
-                  <div className="flex items-center gap-6 text-sm text-zinc-600">
+                  <div className="flex items-center justify-between gap-6 text-sm text-zinc-600">
                     <div className="flex items-center gap-2">
                       <PlayCircleIcon className="h-5 w-5" />
                       <span>{episodes.length} {episodes.length === 1 ? 'Episode' : 'Episodes'}</span>
                     </div>
+                    <CopyFeedButton kind="podcasts" slug={podcast.slug} />
                   </div>
                 </div>
               </div>
@@ -28,7 +28,9 @@ import {
   GlobeAltIcon,
   CheckCircleIcon,
   ExclamationCircleIcon,
+  RssIcon,
 } from '@heroicons/react/24/outline';
+import { FeedTokensPanel } from '@/components/radio/FeedTokensPanel';
 
 const profileSchema = z.object({
   firstName: z.string().min(1, 'First name is required'),
@@ -259,6 +261,7 @@ export default function ProfilePage() {
     { id: 'preferences', label: 'Preferences', icon: Cog6ToothIcon },
     { id: 'security', label: 'Security', icon: ShieldCheckIcon },
     { id: 'station', label: 'Station Info', icon: BuildingOfficeIcon },
+    { id: 'feeds', label: 'Feeds', icon: RssIcon },
   ];
 
   return (
@@ -810,6 +813,11 @@ export default function ProfilePage() {
                 </div>
               </div>
             )}
+
+            {/* Feeds Tab */}
+            {activeTab === 'feeds' && (
+              <FeedTokensPanel isPrimaryContact={!!user?.isPrimaryContact} />
+            )}
           </div>
         </Card>
       </Container>
@@ -18,6 +18,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
 import { formatDuration, formatFileSize } from '@/lib/format-utils';
+import { CopyFeedButton } from '@/components/radio/CopyFeedButton';
 
 // AudioClip type aligned with Prisma schema
 interface AudioClip {
@@ -58,6 +59,7 @@ interface SubShow {
 interface Show {
   id: string;
   title: string;
+  slug: string;
   description: string;
   coverImageUrl?: string;
   category?: {
@@ -243,11 +245,12 @@ export default function ShowDetailPage({ params }: { params: Promise<{ id: strin
                     {show.description || 'No description available'}
                   </Text>
 
-                  <div className="flex items-center gap-6 text-sm text-zinc-600">
+                  <div className="flex items-center justify-between gap-6 text-sm text-zinc-600">
                     <div className="flex items-center gap-2">
                       <PlayCircleIcon className="h-5 w-5" />
                       <span>{episodes.length} {episodes.length === 1 ? 'Episode' : 'Episodes'}</span>
                     </div>
+                    <CopyFeedButton kind="shows" slug={show.slug} />
                   </div>
                 </div>
               </div>
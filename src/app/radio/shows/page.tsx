@@ -19,6 +19,7 @@ import {
   MusicalNoteIcon,
   CalendarIcon,
 } from '@heroicons/react/24/outline';
+import { DEFAULT_STATION_LANGUAGES, languageShortCode } from '@/lib/language-utils';
 
 interface Show {
   id: string;
@@ -164,7 +165,7 @@ export default function ShowsPage() {
               <div className="flex items-center gap-2">
                 <Text className="text-sm text-zinc-600">Language:</Text>
                 <div className="flex gap-1">
-                  {(stationData?.allowedLanguages || ['English', 'Afrikaans', 'Xhosa']).map((lang: string) => (
+                  {(stationData?.allowedLanguages || DEFAULT_STATION_LANGUAGES).map((lang: string) => (
                     <button
                       key={lang}
                       onClick={() => setSelectedLanguage(lang)}
@@ -174,9 +175,7 @@ export default function ShowsPage() {
                           : 'bg-white text-zinc-600 border-zinc-300 hover:border-kelly-green hover:text-kelly-green'
                       }`}
                     >
-                      {lang === 'English' ? 'EN' :
-                       lang === 'Afrikaans' ? 'AF' :
-                       lang === 'Xhosa' ? 'XH' : lang}
+                      {languageShortCode(lang)}
                     </button>
                   ))}
                 </div>
@@ -383,9 +382,7 @@ function EpisodeCard({ episode }: { episode: Episode }) {
           <div className="flex gap-1">
             {languageClassifications.map(c => (
               <Badge key={c.id} color="zinc" className="text-xs">
-                {c.name === 'English' ? 'EN' :
-                 c.name === 'Afrikaans' ? 'AF' :
-                 c.name === 'Xhosa' ? 'XH' : c.name}
+                {languageShortCode(c.name)}
               </Badge>
             ))}
           </div>
@@ -15,6 +15,8 @@ import { Avatar } from '@/components/ui/avatar';
 import { PageHeader } from '@/components/ui/page-header';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
 import { LanguageToggle } from '@/components/radio/LanguageToggle';
+import { formatLanguage } from '@/lib/language-utils';
+import { addPronunciationHints } from '@/lib/pronunciation';
 import {
   ArrowLeftIcon,
   CalendarIcon,
@@ -99,11 +101,9 @@ export default function StoryDetailPage() {
   
   translations.forEach((t: any) => {
     if (t.status === 'PUBLISHED' && t.translatedStory) {
-      if (t.targetLanguage === 'AFRIKAANS' && !availableLanguages.includes('Afrikaans')) {
-        availableLanguages.push('Afrikaans');
-      }
-      if (t.targetLanguage === 'XHOSA' && !availableLanguages.includes('Xhosa')) {
-        availableLanguages.push('Xhosa');
+      const languageName = formatLanguage(t.targetLanguage);
+      if (languageName && !availableLanguages.includes(languageName)) {
+        availableLanguages.push(languageName);
       }
     }
   });
@@ -393,7 +393,7 @@ Downloaded from NewsKoop Radio Station Zone
           <div className="prose prose-lg max-w-none mb-8">
             <div 
               className="text-zinc-800 leading-relaxed"
-              dangerouslySetInnerHTML={{ __html: displayContent?.content || '<p>Content not available</p>' }}
+              dangerouslySetInnerHTML={{ __html: addPronunciationHints(displayContent?.content || '<p>Content not available</p>') }}
             />
           </div>
 
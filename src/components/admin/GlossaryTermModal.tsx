@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { useCreateGlossaryTerm, useUpdateGlossaryTerm } from '@/hooks/use-glossary';
+import type { GlossaryTerm, GlossaryTermFormData } from '@/hooks/use-glossary';
+import { LANGUAGE_DISPLAY_NAMES, TRANSLATION_LANGUAGES, type TranslationLanguageCode } from '@/lib/language-utils';
+
+interface GlossaryTermModalProps {
+  open: boolean;
+  onClose: () => void;
+  term: GlossaryTerm | null;
+  defaultLanguage?: TranslationLanguageCode;
+}
+
+export function GlossaryTermModal({ open, onClose, term, defaultLanguage = 'AFRIKAANS' }: GlossaryTermModalProps) {
+  const [source, setSource] = useState('');
+  const [language, setLanguage] = useState<TranslationLanguageCode>(defaultLanguage);
+  const [translation, setTranslation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const createMutation = useCreateGlossaryTerm();
+  const updateMutation = useUpdateGlossaryTerm();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setSource(term?.term ?? '');
+    setLanguage(term?.language ?? defaultLanguage);
+    setTranslation(term?.translation ?? '');
+    setNotes(term?.notes ?? '');
+    setError('');
+  }, [open, term, defaultLanguage]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!source.trim() || !translation.trim()) {
+      setError('Term and translation are required');
+      return;
+    }
+
+    const data: GlossaryTermFormData = {
+      term: source.trim(),
+      language,
+      translation: translation.trim(),
+      notes: notes.trim() || null,
+    };
+
+    try {
+      if (term) {
+        await updateMutation.mutateAsync({ id: term.id, data });
+      } else {
+        await createMutation.mutateAsync({ ...data, notes: data.notes ?? undefined });
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose}>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{term ? `Edit "${term.term}"` : 'New Glossary Term'}</DialogTitle>
+        <DialogDescription>
+          Translators see the approved translation whenever the term appears in a story they are translating.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Term</Label>
+              <Description>As it appears in English stories, e.g. a title or place name.</Description>
+              <Input
+                value={source}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSource(e.target.value)}
+                placeholder="e.g. Premier"
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Language</Label>
+              <Select
+                value={language}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setLanguage(e.target.value as TranslationLanguageCode)}
+              >
+                {TRANSLATION_LANGUAGES.map((code) => (
+                  <option key={code} value={code}>{LANGUAGE_DISPLAY_NAMES[code]}</option>
+                ))}
+              </Select>
+            </Field>
+
+            <Field>
+              <Label>Translation</Label>
+              <Input
+                value={translation}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTranslation(e.target.value)}
+                placeholder="e.g. iNkulumbuso"
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Notes</Label>
+              <Input
+                value={notes}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNotes(e.target.value)}
+                placeholder="Optional usage notes..."
+              />
+            </Field>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : term ? 'Save Term' : 'Add Term'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
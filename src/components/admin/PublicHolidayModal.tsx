@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { useCreatePublicHoliday, useUpdatePublicHoliday } from '@/hooks/use-public-holidays';
+import type { PublicHoliday, PublicHolidayFormData } from '@/hooks/use-public-holidays';
+
+interface PublicHolidayModalProps {
+  open: boolean;
+  onClose: () => void;
+  holiday: PublicHoliday | null;
+}
+
+export function PublicHolidayModal({ open, onClose, holiday }: PublicHolidayModalProps) {
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+
+  const createMutation = useCreatePublicHoliday();
+  const updateMutation = useUpdatePublicHoliday();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setDate(holiday?.date ?? '');
+    setName(holiday?.name ?? '');
+    setError('');
+  }, [open, holiday]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!date || !name.trim()) {
+      setError('Date and name are required');
+      return;
+    }
+
+    const data: PublicHolidayFormData = { date, name: name.trim() };
+
+    try {
+      if (holiday?.id) {
+        await updateMutation.mutateAsync({ id: holiday.id, data });
+      } else {
+        await createMutation.mutateAsync(data);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose}>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{holiday ? `Edit "${holiday.name}"` : 'New Public Holiday'}</DialogTitle>
+        <DialogDescription>
+          Bulletins on this day use the public holiday schedule instead of the weekday or weekend one.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDate(e.target.value)}
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Name</Label>
+              <Description>As it should appear to editors, e.g. the reason the day was declared.</Description>
+              <Input
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="e.g. Local Government Elections"
+                required
+              />
+            </Field>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : holiday ? 'Save Holiday' : 'Add Holiday'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
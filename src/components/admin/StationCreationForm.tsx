@@ -17,6 +17,7 @@ import { Divider } from '@/components/ui/divider';
 import toast from 'react-hot-toast';
 import { TrashIcon, PlusIcon, InfoIcon } from 'lucide-react';
 import { Province } from '@prisma/client';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 // Get province values from Prisma enum
 const provinces = Object.values(Province).filter(p => p !== 'NATIONAL') as Province[];
@@ -104,7 +105,7 @@ export default function StationCreationForm() {
     defaultValues: {
       province: Province.GAUTENG,
       hasContentAccess: true,
-      allowedLanguages: ['English', 'Afrikaans', 'Xhosa'],
+      allowedLanguages: DEFAULT_STATION_LANGUAGES,
       allowedReligions: ['Christian', 'Muslim', 'Neutral'],
       blockedCategories: [],
       additionalUsers: []
@@ -354,7 +355,7 @@ export default function StationCreationForm() {
                     <Label>Allowed Languages</Label>
                     <Description>Select languages this station can access</Description>
                     <div className="mt-2 space-y-2">
-                      {['English', 'Afrikaans', 'Xhosa'].map((language) => (
+                      {DEFAULT_STATION_LANGUAGES.map((language) => (
                         <CheckboxField key={language}>
                           <Checkbox
                             id={`language-${language}`}
@@ -18,6 +18,7 @@ import { Avatar } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import toast from 'react-hot-toast';
 import { TrashIcon, PlusIcon, InfoIcon } from 'lucide-react';
+import { DEFAULT_STATION_LANGUAGES } from '@/lib/language-utils';
 
 // Province enum matching Prisma schema
 const provinces = [
@@ -147,7 +148,7 @@ export default function StationEditForm({ station }: StationEditFormProps) {
       contactNumber: station.contactNumber || '',
       isActive: station.isActive,
       hasContentAccess: station.hasContentAccess,
-      allowedLanguages: station.allowedLanguages || ['English', 'Afrikaans', 'Xhosa'],
+      allowedLanguages: station.allowedLanguages || DEFAULT_STATION_LANGUAGES,
       allowedReligions: station.allowedReligions || ['Christian', 'Muslim', 'Neutral'],
       blockedCategories: station.blockedCategories || [],
       primaryContactId: primaryContact?.id || '',
@@ -174,7 +175,7 @@ export default function StationEditForm({ station }: StationEditFormProps) {
       contactNumber: station.contactNumber || '',
       isActive: station.isActive,
       hasContentAccess: station.hasContentAccess,
-      allowedLanguages: station.allowedLanguages || ['English', 'Afrikaans', 'Xhosa'],
+      allowedLanguages: station.allowedLanguages || DEFAULT_STATION_LANGUAGES,
       allowedReligions: station.allowedReligions || ['Christian', 'Muslim', 'Neutral'],
       blockedCategories: station.blockedCategories || [],
       primaryContactId: primaryContact?.id || '',
@@ -387,7 +388,7 @@ export default function StationEditForm({ station }: StationEditFormProps) {
               <Label>Allowed Languages</Label>
               <Description>Select languages this station can access</Description>
               <div className="mt-2 space-y-2">
-                {['English', 'Afrikaans', 'Xhosa'].map((language) => (
+                {DEFAULT_STATION_LANGUAGES.map((language) => (
                   <CheckboxField key={language}>
                     <Checkbox
                       id={`language-${language}`}
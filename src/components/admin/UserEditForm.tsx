@@ -25,7 +25,7 @@ type User = {
   mobileNumber?: string | null;
   userType: 'STAFF' | 'RADIO';
   staffRole?: 'SUPERADMIN' | 'ADMIN' | 'EDITOR' | 'SUB_EDITOR' | 'JOURNALIST' | 'INTERN' | null;
-  translationLanguage?: 'AFRIKAANS' | 'XHOSA' | null;
+  translationLanguage?: 'AFRIKAANS' | 'XHOSA' | 'ZULU' | null;
   isActive: boolean;
   isPrimaryContact: boolean;
   isContentProducer: boolean;
@@ -46,7 +46,7 @@ const userEditSchema = z.object({
   staffRole: z.enum(['SUPERADMIN', 'ADMIN', 'EDITOR', 'SUB_EDITOR', 'JOURNALIST', 'INTERN']).optional(),
   translationLanguage: z.union([
     z.literal(''),
-    z.enum(['AFRIKAANS', 'XHOSA']),
+    z.enum(['AFRIKAANS', 'XHOSA', 'ZULU']),
     z.undefined()
   ]).optional(),
   isActive: z.boolean(),
@@ -288,6 +288,7 @@ export function UserEditForm({ user }: UserEditFormProps) {
                   <option value="">None</option>
                   <option value="AFRIKAANS">Can translate to Afrikaans</option>
                   <option value="XHOSA">Can translate to Xhosa</option>
+                  <option value="ZULU">Can translate to Zulu</option>
                 </Select>
                 {errors.translationLanguage && (
                   <p className="mt-1 text-sm text-red-600">{errors.translationLanguage.message}</p>
@@ -0,0 +1,446 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import clsx from 'clsx';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { StaffRole, StoryStage } from '@prisma/client';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { useCategories } from '@/hooks/use-categories';
+import { useCreateWorkflow, useUpdateWorkflow } from '@/hooks/use-workflows';
+import type { Workflow, WorkflowFormData } from '@/hooks/use-workflows';
+import {
+  WORKFLOW_ACTIONS,
+  STAGE_LABELS,
+  STAFF_ROLE_LABELS,
+  DEFAULT_WORKFLOW,
+  type WorkflowAction,
+  type WorkflowDefinition,
+  type WorkflowTransition,
+} from '@/lib/workflow';
+
+const ALL_STAGES = Object.keys(STAGE_LABELS) as StoryStage[];
+const ALL_ROLES = Object.keys(STAFF_ROLE_LABELS) as StaffRole[];
+
+const ACTION_LABELS: Record<WorkflowAction, string> = {
+  submit_for_review: 'Submit for review',
+  send_for_approval: 'Send for approval',
+  approve_story: 'Approve',
+  send_for_translation: 'Send for translation',
+  mark_as_translated: 'Mark as translated',
+  publish_story: 'Publish',
+};
+
+// Checklists are edited one item per line
+interface TransitionDraft extends Omit<WorkflowTransition, 'checklist'> {
+  checklistText: string;
+}
+
+interface WorkflowEditorModalProps {
+  open: boolean;
+  onClose: () => void;
+  // Workflow being edited, or a definition to start a new one from
+  workflow: Workflow | null;
+  template?: WorkflowDefinition;
+}
+
+function toDraft(transition: WorkflowTransition): TransitionDraft {
+  const { checklist, ...rest } = transition;
+  return { ...rest, checklistText: checklist.map(item => item.label).join('\n') };
+}
+
+function fromDraft(draft: TransitionDraft): WorkflowTransition {
+  const { checklistText, ...rest } = draft;
+  const used = new Set<string>();
+  const checklist = checklistText
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((label) => {
+      const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'item';
+      let id = base;
+      for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+      used.add(id);
+      return { id, label };
+    });
+  return { ...rest, checklist };
+}
+
+function RoleToggles({
+  value,
+  onChange,
+}: {
+  value: StaffRole[];
+  onChange: (roles: StaffRole[]) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {ALL_ROLES.map((role) => {
+        const selected = value.includes(role);
+        return (
+          <button
+            key={role}
+            type="button"
+            onClick={() => onChange(selected ? value.filter(r => r !== role) : [...value, role])}
+            className={clsx(
+              'px-2 py-0.5 rounded-md text-xs font-medium border transition-colors',
+              selected
+                ? 'bg-kelly-green/10 border-kelly-green text-kelly-green'
+                : 'bg-white border-zinc-200 text-zinc-500 hover:border-zinc-300'
+            )}
+          >
+            {STAFF_ROLE_LABELS[role]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export function WorkflowEditorModal({ open, onClose, workflow, template = DEFAULT_WORKFLOW }: WorkflowEditorModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [requiresTranslation, setRequiresTranslation] = useState(false);
+  const [stages, setStages] = useState<StoryStage[]>([]);
+  const [overrideRoles, setOverrideRoles] = useState<StaffRole[]>([]);
+  const [unpublishRoles, setUnpublishRoles] = useState<StaffRole[]>([]);
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [transitions, setTransitions] = useState<TransitionDraft[]>([]);
+  const [error, setError] = useState('');
+
+  const { data: categoriesData } = useCategories(true);
+  const categories: { id: string; name: string; level: number }[] = categoriesData?.categories || [];
+
+  const createMutation = useCreateWorkflow();
+  const updateMutation = useUpdateWorkflow();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    const source = workflow ?? template;
+    setName(workflow ? workflow.name : template.id ? `${template.name} copy` : template.name);
+    setDescription(workflow?.description ?? '');
+    setIsDefault(workflow?.isDefault ?? false);
+    setRequiresTranslation(source.requiresTranslation);
+    setStages(source.stages);
+    setOverrideRoles(source.overrideRoles);
+    setUnpublishRoles(source.unpublishRoles);
+    setCategoryIds(workflow?.categories.map(c => c.id) ?? []);
+    setTransitions(source.transitions.map(toDraft));
+    setError('');
+  }, [open, workflow, template]);
+
+  const updateTransition = (index: number, changes: Partial<TransitionDraft>) => {
+    setTransitions(prev => prev.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  };
+
+  const addTransition = () => {
+    setTransitions(prev => [
+      ...prev,
+      {
+        action: 'approve_story',
+        label: 'Approve Story',
+        from: stages[0] ?? 'DRAFT',
+        to: stages[1] ?? 'PUBLISHED',
+        allowedRoles: [],
+        authorRoles: [],
+        assignmentRoles: [],
+        checklistText: '',
+        requireStyleCheck: false,
+      },
+    ]);
+  };
+
+  const toggleStage = (stage: StoryStage) => {
+    // Keep stages in pipeline order whichever order they are ticked in
+    setStages(prev =>
+      prev.includes(stage) ? prev.filter(s => s !== stage) : ALL_STAGES.filter(s => s === stage || prev.includes(s))
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    const data: WorkflowFormData = {
+      name: name.trim(),
+      description: description.trim() || null,
+      isDefault,
+      requiresTranslation,
+      stages,
+      overrideRoles,
+      unpublishRoles,
+      transitions: transitions.map(fromDraft),
+      categoryIds,
+    };
+
+    try {
+      if (workflow) {
+        await updateMutation.mutateAsync({ id: workflow.id, data });
+      } else {
+        await createMutation.mutateAsync({ ...data, description: data.description ?? undefined });
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="5xl">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{workflow ? `Edit ${workflow.name}` : 'New Workflow'}</DialogTitle>
+        <DialogDescription>
+          Choose the stages stories pass through, who may move them between stages and what must be checked at each step.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-6 max-h-[65vh] overflow-y-auto pr-1">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field>
+                <Label>Name</Label>
+                <Input
+                  value={name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                  placeholder="e.g. Sport desk"
+                  required
+                />
+              </Field>
+              <Field>
+                <Label>Description</Label>
+                <Input
+                  value={description}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDescription(e.target.value)}
+                  placeholder="Optional notes..."
+                />
+              </Field>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <label className="flex items-center gap-2 text-sm text-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={isDefault}
+                  onChange={(e) => setIsDefault(e.target.checked)}
+                  className="h-4 w-4 rounded border-zinc-300 text-kelly-green focus:ring-kelly-green"
+                />
+                Default workflow (used by desks without their own)
+              </label>
+              <label className="flex items-center gap-2 text-sm text-zinc-700">
+                <input
+                  type="checkbox"
+                  checked={requiresTranslation}
+                  onChange={(e) => setRequiresTranslation(e.target.checked)}
+                  className="h-4 w-4 rounded border-zinc-300 text-kelly-green focus:ring-kelly-green"
+                />
+                Translation is mandatory before publishing
+              </label>
+            </div>
+
+            <Field>
+              <Label>Stages</Label>
+              <Description>Must start at Draft and end at Published.</Description>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {ALL_STAGES.map((stage) => (
+                  <label key={stage} className="flex items-center gap-2 text-sm text-zinc-700">
+                    <input
+                      type="checkbox"
+                      checked={stages.includes(stage)}
+                      onChange={() => toggleStage(stage)}
+                      className="h-4 w-4 rounded border-zinc-300 text-kelly-green focus:ring-kelly-green"
+                    />
+                    {STAGE_LABELS[stage]}
+                  </label>
+                ))}
+              </div>
+            </Field>
+
+            <Field>
+              <Label>Override roles</Label>
+              <Description>These roles may move a story between any two stages.</Description>
+              <div className="mt-2">
+                <RoleToggles value={overrideRoles} onChange={setOverrideRoles} />
+              </div>
+            </Field>
+
+            <Field>
+              <Label>Unpublish roles</Label>
+              <Description>These roles may take a published story back to draft.</Description>
+              <div className="mt-2">
+                <RoleToggles value={unpublishRoles} onChange={setUnpublishRoles} />
+              </div>
+            </Field>
+
+            <Field>
+              <Label>Desks</Label>
+              <Description>Stories in these categories (and their sub-categories) follow this workflow.</Description>
+              <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 max-h-40 overflow-y-auto">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm text-zinc-700">
+                    <input
+                      type="checkbox"
+                      checked={categoryIds.includes(category.id)}
+                      onChange={(e) =>
+                        setCategoryIds(prev =>
+                          e.target.checked ? [...prev, category.id] : prev.filter(id => id !== category.id)
+                        )
+                      }
+                      className="h-4 w-4 rounded border-zinc-300 text-kelly-green focus:ring-kelly-green"
+                    />
+                    <span className={clsx(category.level > 1 && 'text-zinc-500')}>{category.name}</span>
+                  </label>
+                ))}
+              </div>
+            </Field>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <Text className="text-sm font-medium text-zinc-900">Transitions</Text>
+                <Button type="button" outline onClick={addTransition}>
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Add transition
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                {transitions.map((transition, index) => (
+                  <div key={index} className="rounded-md border border-zinc-200 p-3 space-y-3">
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                      <Field>
+                        <Label>Action</Label>
+                        <Select
+                          value={transition.action}
+                          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                            updateTransition(index, { action: e.target.value as WorkflowAction })
+                          }
+                        >
+                          {WORKFLOW_ACTIONS.map((action) => (
+                            <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                          ))}
+                        </Select>
+                      </Field>
+                      <Field>
+                        <Label>Button label</Label>
+                        <Input
+                          value={transition.label}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateTransition(index, { label: e.target.value })}
+                          required
+                        />
+                      </Field>
+                      <Field>
+                        <Label>From</Label>
+                        <Select
+                          value={transition.from}
+                          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                            updateTransition(index, { from: e.target.value as StoryStage })
+                          }
+                        >
+                          {stages.map((stage) => (
+                            <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+                          ))}
+                        </Select>
+                      </Field>
+                      <Field>
+                        <Label>To</Label>
+                        <Select
+                          value={transition.to}
+                          onChange={(e: React.ChangeEvent<HTMLSelectElement>) =>
+                            updateTransition(index, { to: e.target.value as StoryStage })
+                          }
+                        >
+                          {stages.map((stage) => (
+                            <option key={stage} value={stage}>{STAGE_LABELS[stage]}</option>
+                          ))}
+                        </Select>
+                      </Field>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div>
+                        <Text className="text-xs font-medium text-zinc-700 mb-1">Who may do this</Text>
+                        <RoleToggles
+                          value={transition.allowedRoles}
+                          onChange={(roles) => updateTransition(index, { allowedRoles: roles })}
+                        />
+                      </div>
+                      <div>
+                        <Text className="text-xs font-medium text-zinc-700 mb-1">For stories written by (none = anyone)</Text>
+                        <RoleToggles
+                          value={transition.authorRoles}
+                          onChange={(roles) => updateTransition(index, { authorRoles: roles })}
+                        />
+                      </div>
+                      <div>
+                        <Text className="text-xs font-medium text-zinc-700 mb-1">Must be assigned to (none = no assignment)</Text>
+                        <RoleToggles
+                          value={transition.assignmentRoles}
+                          onChange={(roles) => updateTransition(index, { assignmentRoles: roles })}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-end gap-3">
+                      <Field className="flex-1">
+                        <Label>Required checklist (one item per line)</Label>
+                        <Textarea
+                          value={transition.checklistText}
+                          onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                            updateTransition(index, { checklistText: e.target.value })
+                          }
+                          rows={2}
+                        />
+                        <label className="mt-2 flex items-center gap-2 text-sm text-zinc-700">
+                          <input
+                            type="checkbox"
+                            checked={!!transition.requireStyleCheck}
+                            onChange={(e) => updateTransition(index, { requireStyleCheck: e.target.checked })}
+                            className="h-4 w-4 rounded border-zinc-300 text-kelly-green focus:ring-kelly-green"
+                          />
+                          Block until the story passes the house-style check
+                        </label>
+                      </Field>
+                      <Button
+                        type="button"
+                        color="white"
+                        onClick={() => setTransitions(prev => prev.filter((_, i) => i !== index))}
+                        title="Remove transition"
+                      >
+                        <TrashIcon className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : workflow ? 'Save Workflow' : 'Create Workflow'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
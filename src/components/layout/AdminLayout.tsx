@@ -17,6 +17,9 @@ import {
   ChartBarIcon,
   ServerIcon,
   ClipboardDocumentListIcon,
+  ArrowsRightLeftIcon,
+  BookOpenIcon,
+  CalendarDaysIcon,
 } from '@heroicons/react/24/outline'
 import { usePathname } from 'next/navigation'
 import Link from 'next/link'
@@ -86,6 +89,9 @@ export function AdminLayout({ children }: AdminLayoutProps) {
         { name: 'Users', href: '/admin/users', icon: UsersIcon },
         { name: 'Radio Stations', href: '/admin/stations', icon: RadioIcon },
         { name: 'Announcements', href: '/admin/announcements', icon: MegaphoneIcon },
+        { name: 'Workflows', href: '/admin/workflows', icon: ArrowsRightLeftIcon },
+        { name: 'Glossary', href: '/admin/glossary', icon: BookOpenIcon },
+        { name: 'Public Holidays', href: '/admin/public-holidays', icon: CalendarDaysIcon },
       ],
     })
 
@@ -22,6 +22,8 @@ import {
   MusicalNoteIcon,
   CalendarDaysIcon,
   MicrophoneIcon,
+  RectangleStackIcon,
+  ChatBubbleBottomCenterTextIcon,
 } from '@heroicons/react/24/outline'
 import { usePathname } from 'next/navigation'
 import Link from 'next/link'
@@ -98,6 +100,10 @@ export function NewsroomLayout({ children }: NewsroomLayoutProps) {
       contentItems.push({ name: 'Bulletins', href: '/newsroom/bulletins', icon: RadioIcon })
     }
 
+    if (role && ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(role)) {
+      contentItems.push({ name: 'Story Groups', href: '/newsroom/story-groups', icon: RectangleStackIcon })
+    }
+
     if (contentItems.length > 0) {
       groups.push({ label: 'Content', items: contentItems })
     }
@@ -110,6 +116,9 @@ export function NewsroomLayout({ children }: NewsroomLayoutProps) {
       organisationItems.push({ name: 'Tags', href: '/newsroom/tags', icon: TagIcon })
     }
 
+    // The pronunciation dictionary is useful to everyone writing copy
+    organisationItems.push({ name: 'Pronunciations', href: '/newsroom/pronunciations', icon: ChatBubbleBottomCenterTextIcon })
+
     if (role && ['SUPERADMIN', 'ADMIN', 'EDITOR'].includes(role)) {
       organisationItems.push({ name: 'Classifications', href: '/newsroom/classifications', icon: AdjustmentsHorizontalIcon })
     }
@@ -9,17 +9,24 @@ import { Heading } from '@/components/ui/heading';
 import { Text } from '@/components/ui/text';
 import { Input } from '@/components/ui/input';
 import { Field, Label } from '@/components/ui/fieldset';
+import { Select } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { AUDIO_RIGHTS_SOURCE_LABELS, rightsDay } from '@/lib/audio-rights';
+import {
+  useAudioCollections,
+  type AudioClip,
+  type AudioClipUpdate,
+  type AudioRightsSource,
+} from '@/hooks/use-audio-library';
 
 interface AudioClipEditModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (data: { title?: string; description?: string; tags?: string[] }) => void;
-  clip: {
-    title?: string | null;
-    description?: string | null;
-    tags?: string[];
-  } | null;
+  onSave: (data: AudioClipUpdate) => void;
+  clip: Pick<
+    AudioClip,
+    'title' | 'description' | 'tags' | 'collection' | 'rightsSource' | 'copyrightHolder' | 'licenceExpiry' | 'doNotReuseAfter' | 'rightsNotes'
+  > | null;
   isLoading?: boolean;
 }
 
@@ -33,12 +40,26 @@ export function AudioClipEditModal({
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [tagsInput, setTagsInput] = useState('');
+  const [collectionId, setCollectionId] = useState('');
+  const [rightsSource, setRightsSource] = useState('');
+  const [copyrightHolder, setCopyrightHolder] = useState('');
+  const [licenceExpiry, setLicenceExpiry] = useState('');
+  const [doNotReuseAfter, setDoNotReuseAfter] = useState('');
+  const [rightsNotes, setRightsNotes] = useState('');
+
+  const { data: collectionsData } = useAudioCollections();
 
   useEffect(() => {
     if (clip) {
       setTitle(clip.title || '');
       setDescription(clip.description || '');
       setTagsInput(clip.tags?.join(', ') || '');
+      setCollectionId(clip.collection?.id || '');
+      setRightsSource(clip.rightsSource || '');
+      setCopyrightHolder(clip.copyrightHolder || '');
+      setLicenceExpiry(rightsDay(clip.licenceExpiry ?? null) || '');
+      setDoNotReuseAfter(rightsDay(clip.doNotReuseAfter ?? null) || '');
+      setRightsNotes(clip.rightsNotes || '');
     }
   }, [clip]);
 
@@ -52,6 +73,12 @@ export function AudioClipEditModal({
       title: title || undefined,
       description: description || undefined,
       tags,
+      collectionId: collectionId || null,
+      rightsSource: (rightsSource || null) as AudioRightsSource | null,
+      copyrightHolder: copyrightHolder.trim() || null,
+      licenceExpiry: licenceExpiry || null,
+      doNotReuseAfter: doNotReuseAfter || null,
+      rightsNotes: rightsNotes || null,
     });
   };
 
@@ -60,7 +87,7 @@ export function AudioClipEditModal({
       <div className="fixed inset-0 bg-black/30" aria-hidden="true" />
 
       <div className="fixed inset-0 flex items-center justify-center p-4">
-        <Dialog.Panel className="mx-auto max-w-md w-full bg-white rounded-lg shadow-xl">
+        <Dialog.Panel className="mx-auto max-w-lg w-full max-h-[90vh] overflow-y-auto bg-white rounded-lg shadow-xl">
           <div className="p-6">
             <div className="flex items-center justify-between mb-4">
               <Dialog.Title as={Heading} level={3}>
@@ -100,6 +127,69 @@ export function AudioClipEditModal({
                 />
                 <Text className="text-xs text-zinc-500 mt-1">Separate tags with commas</Text>
               </Field>
+
+              <Field>
+                <Label>Collection</Label>
+                <Select value={collectionId} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCollectionId(e.target.value)}>
+                  <option value="">No collection</option>
+                  {(collectionsData?.collections ?? []).map(collection => (
+                    <option key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </Select>
+              </Field>
+            </div>
+
+            <div className="mt-6 pt-4 border-t border-zinc-200 space-y-4">
+              <Heading level={4}>Rights</Heading>
+
+              <div className="grid grid-cols-2 gap-4">
+                <Field>
+                  <Label>Source</Label>
+                  <Select value={rightsSource} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRightsSource(e.target.value)}>
+                    <option value="">Not recorded</option>
+                    {Object.entries(AUDIO_RIGHTS_SOURCE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </Select>
+                </Field>
+
+                <Field>
+                  <Label>Copyright holder</Label>
+                  <Input
+                    value={copyrightHolder}
+                    onChange={(e) => setCopyrightHolder(e.target.value)}
+                    placeholder="e.g. SABC, the contributor"
+                  />
+                </Field>
+
+                <Field>
+                  <Label>Licence expires</Label>
+                  <Input type="date" value={licenceExpiry} onChange={(e) => setLicenceExpiry(e.target.value)} />
+                </Field>
+
+                <Field>
+                  <Label>Do not reuse after</Label>
+                  <Input type="date" value={doNotReuseAfter} onChange={(e) => setDoNotReuseAfter(e.target.value)} />
+                </Field>
+              </div>
+              <Text className="text-xs text-zinc-500">
+                The clip must not go to air from the day its licence expires. After the reuse date it can stay where it
+                is already used, but should not be added anywhere new.
+              </Text>
+
+              <Field>
+                <Label>Rights notes</Label>
+                <Textarea
+                  value={rightsNotes}
+                  onChange={(e) => setRightsNotes(e.target.value)}
+                  placeholder="Credit line, conditions of use..."
+                  rows={2}
+                />
+              </Field>
             </div>
 
             <div className="flex justify-end gap-3 mt-6">
@@ -0,0 +1,131 @@
+'use client';
+
+import Link from 'next/link';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Text } from '@/components/ui/text';
+import { formatDateShort, formatDateTime } from '@/lib/format';
+import { useAudioClipUsage } from '@/hooks/use-audio-library';
+
+interface AudioClipUsageModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clipId: string;
+  clipName: string;
+}
+
+function UsageSection({ title, empty, children }: { title: string; empty: boolean; children: React.ReactNode }) {
+  return (
+    <div>
+      <Text className="text-sm font-medium text-zinc-900 mb-2">{title}</Text>
+      {empty ? (
+        <Text className="text-sm text-zinc-400">None</Text>
+      ) : (
+        <ul className="divide-y divide-zinc-100 border border-zinc-200 rounded-md">{children}</ul>
+      )}
+    </div>
+  );
+}
+
+function UsageRow({ href, title, detail, status }: { href: string; title: string; detail?: string; status: string }) {
+  return (
+    <li className="flex items-center justify-between gap-3 px-3 py-2">
+      <div className="min-w-0">
+        <Link href={href} className="text-sm font-medium text-zinc-900 hover:text-kelly-green truncate block">
+          {title}
+        </Link>
+        {detail && <Text className="text-xs text-zinc-500 truncate">{detail}</Text>}
+      </div>
+      <Badge color="zinc" className="text-xs flex-shrink-0">{status.replace(/_/g, ' ').toLowerCase()}</Badge>
+    </li>
+  );
+}
+
+/**
+ * Everywhere a library clip is used: stories, the bulletins they run in,
+ * and show and podcast episodes.
+ */
+export function AudioClipUsageModal({ isOpen, onClose, clipId, clipName }: AudioClipUsageModalProps) {
+  const { data: usage, isLoading, error } = useAudioClipUsage(isOpen ? clipId : '');
+
+  return (
+    <Dialog open={isOpen} onClose={onClose} size="2xl">
+      <DialogTitle>Where this clip is used</DialogTitle>
+      <DialogDescription>{clipName}</DialogDescription>
+
+      <DialogBody>
+        {isLoading ? (
+          <Text className="text-center py-8">Loading usage...</Text>
+        ) : error || !usage ? (
+          <Text className="text-center py-8 text-red-600">Failed to load usage</Text>
+        ) : (
+          <div className="space-y-5">
+            {usage.onAirToday && (
+              <div className="rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+                This clip has been used on air today.
+              </div>
+            )}
+
+            <UsageSection title={`Stories (${usage.stories.length})`} empty={usage.stories.length === 0}>
+              {usage.stories.map(({ id, story }) => (
+                <UsageRow
+                  key={id}
+                  href={`/newsroom/stories/${story.id}`}
+                  title={story.title}
+                  detail={story.publishedAt ? `Published ${formatDateTime(story.publishedAt)}` : undefined}
+                  status={story.stage ?? story.status}
+                />
+              ))}
+            </UsageSection>
+
+            <UsageSection title={`Bulletins (${usage.bulletins.length})`} empty={usage.bulletins.length === 0}>
+              {usage.bulletins.map(bulletin => (
+                <UsageRow
+                  key={bulletin.id}
+                  href={`/newsroom/bulletins/${bulletin.id}`}
+                  title={bulletin.title}
+                  detail={bulletin.scheduledFor ? `On air ${formatDateTime(bulletin.scheduledFor)}` : undefined}
+                  status={bulletin.status}
+                />
+              ))}
+            </UsageSection>
+
+            <UsageSection title={`Show episodes (${usage.episodes.length})`} empty={usage.episodes.length === 0}>
+              {usage.episodes.map(({ id, episode }) => (
+                <UsageRow
+                  key={id}
+                  href={`/newsroom/shows/${episode.show.id}/episodes/${episode.id}`}
+                  title={`${episode.show.title} #${episode.episodeNumber}: ${episode.title}`}
+                  detail={episode.publishedAt ? `Published ${formatDateShort(episode.publishedAt)}` : undefined}
+                  status={episode.status}
+                />
+              ))}
+            </UsageSection>
+
+            <UsageSection
+              title={`Podcast episodes (${usage.podcastEpisodes.length})`}
+              empty={usage.podcastEpisodes.length === 0}
+            >
+              {usage.podcastEpisodes.map(({ id, episode }) => (
+                <UsageRow
+                  key={id}
+                  href={`/newsroom/podcasts/${episode.podcast.id}/episodes/${episode.id}`}
+                  title={`${episode.podcast.title} #${episode.episodeNumber}: ${episode.title}`}
+                  detail={episode.publishedAt ? `Published ${formatDateShort(episode.publishedAt)}` : undefined}
+                  status={episode.status}
+                />
+              ))}
+            </UsageSection>
+          </div>
+        )}
+      </DialogBody>
+
+      <DialogActions>
+        <Button plain onClick={onClose}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
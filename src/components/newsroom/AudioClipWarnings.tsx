@@ -0,0 +1,36 @@
+'use client';
+
+import { ExclamationTriangleIcon } from '@heroicons/react/20/solid';
+
+import { Badge } from '@/components/ui/badge';
+import { audioClipWarnings } from '@/lib/audio-rights';
+import type { AudioClip } from '@/hooks/use-audio-library';
+
+interface AudioClipWarningsProps {
+  clip: Pick<AudioClip, 'licenceExpiry' | 'doNotReuseAfter' | 'onAirToday'>;
+  className?: string;
+}
+
+/**
+ * Badges for a clip whose rights have lapsed or which has gone to air today.
+ */
+export function AudioClipWarnings({ clip, className }: AudioClipWarningsProps) {
+  const warnings = audioClipWarnings({
+    licenceExpiry: clip.licenceExpiry ?? null,
+    doNotReuseAfter: clip.doNotReuseAfter ?? null,
+    onAirToday: clip.onAirToday,
+  });
+
+  if (warnings.length === 0) return null;
+
+  return (
+    <div className={className ?? 'flex flex-wrap gap-1'}>
+      {warnings.map(warning => (
+        <Badge key={warning.kind} color={warning.severity === 'error' ? 'red' : 'amber'} className="text-xs">
+          <ExclamationTriangleIcon className="h-3 w-3" />
+          {warning.message}
+        </Badge>
+      ))}
+    </div>
+  );
+}
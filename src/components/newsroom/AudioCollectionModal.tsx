@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Field, Label } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { Textarea } from '@/components/ui/textarea';
+import { useCreateAudioCollection, useUpdateAudioCollection } from '@/hooks/use-audio-library';
+import type { AudioCollection } from '@/hooks/use-audio-library';
+
+interface AudioCollectionModalProps {
+  open: boolean;
+  onClose: () => void;
+  collection: AudioCollection | null;
+}
+
+export function AudioCollectionModal({ open, onClose, collection }: AudioCollectionModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [error, setError] = useState('');
+
+  const createMutation = useCreateAudioCollection();
+  const updateMutation = useUpdateAudioCollection();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setName(collection?.name ?? '');
+    setDescription(collection?.description ?? '');
+    setError('');
+  }, [open, collection]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    try {
+      if (collection) {
+        await updateMutation.mutateAsync({
+          id: collection.id,
+          data: { name: name.trim(), description: description.trim() || null },
+        });
+      } else {
+        await createMutation.mutateAsync({ name: name.trim(), description: description.trim() || undefined });
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose}>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{collection ? `Edit "${collection.name}"` : 'New Collection'}</DialogTitle>
+        <DialogDescription>
+          Collections group clips in the audio library, e.g. by programme, series or source.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Name</Label>
+              <Input
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="e.g. Parliament actualities"
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Description</Label>
+              <Textarea
+                value={description}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDescription(e.target.value)}
+                placeholder="Optional"
+                rows={2}
+              />
+            </Field>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : collection ? 'Save Collection' : 'Add Collection'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
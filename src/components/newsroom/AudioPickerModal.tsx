@@ -10,9 +10,12 @@ import { Text } from '@/components/ui/text';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
 import { Input, InputGroup } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
+import { AudioClipWarnings } from '@/components/newsroom/AudioClipWarnings';
 import { formatDuration } from '@/lib/format-utils';
-import { useAudioLibrary, type AudioClip } from '@/hooks/use-audio-library';
+import { audioClipWarnings } from '@/lib/audio-rights';
+import { useAudioLibrary, useAudioCollections, type AudioClip } from '@/hooks/use-audio-library';
 
 interface AudioPickerModalProps {
   isOpen: boolean;
@@ -32,6 +35,7 @@ export function AudioPickerModal({
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [collectionId, setCollectionId] = useState('');
 
   // Debounce search
   useEffect(() => {
@@ -41,13 +45,25 @@ export function AudioPickerModal({
 
   const { data, isLoading: isLoadingClips } = useAudioLibrary({
     query: debouncedQuery || undefined,
+    collectionId: collectionId || undefined,
     perPage: 50,
   });
+  const { data: collectionsData } = useAudioCollections();
 
   const clips: AudioClip[] = (data?.clips || []).filter(
     (clip: AudioClip) => !excludeClipIds.includes(clip.id)
   );
 
+  // Selected clips that need a second look before they are attached
+  const flaggedSelections = clips.filter(clip =>
+    selectedIds.includes(clip.id) &&
+    audioClipWarnings({
+      licenceExpiry: clip.licenceExpiry ?? null,
+      doNotReuseAfter: clip.doNotReuseAfter ?? null,
+      onAirToday: clip.onAirToday,
+    }).length > 0
+  );
+
   const handleToggle = useCallback((clipId: string) => {
     setSelectedIds(prev =>
       prev.includes(clipId)
@@ -60,12 +76,14 @@ export function AudioPickerModal({
     onConfirm(selectedIds);
     setSelectedIds([]);
     setSearchQuery('');
+    setCollectionId('');
     onClose();
   };
 
   const handleClose = () => {
     setSelectedIds([]);
     setSearchQuery('');
+    setCollectionId('');
     onClose();
   };
 
@@ -75,16 +93,33 @@ export function AudioPickerModal({
         <DialogTitle>Browse Audio Library</DialogTitle>
       </div>
 
-      <div className="mt-4">
-        <InputGroup>
-          <MagnifyingGlassIcon className="h-5 w-5 text-zinc-400" data-slot="icon" />
-          <Input
-            type="search"
-            placeholder="Search by name, tag, or story..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-          />
-        </InputGroup>
+      <div className="mt-4 flex flex-col gap-2 sm:flex-row">
+        <div className="flex-1">
+          <InputGroup>
+            <MagnifyingGlassIcon className="h-5 w-5 text-zinc-400" data-slot="icon" />
+            <Input
+              type="search"
+              placeholder="Search by name, tag, or story..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </InputGroup>
+        </div>
+        <div className="sm:w-56">
+          <Select
+            value={collectionId}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCollectionId(e.target.value)}
+            aria-label="Collection"
+          >
+            <option value="">All collections</option>
+            <option value="none">Not in a collection</option>
+            {(collectionsData?.collections ?? []).map(collection => (
+              <option key={collection.id} value={collection.id}>
+                {collection.name}
+              </option>
+            ))}
+          </Select>
+        </div>
       </div>
 
       <DialogBody>
@@ -131,6 +166,7 @@ export function AudioPickerModal({
                         </Text>
                       )}
                     </div>
+                    <AudioClipWarnings clip={clip} className="flex flex-wrap gap-1 mt-1" />
                     {clip.uploader && (
                       <Text className="text-xs text-zinc-400 mt-1">
                         by {clip.uploader.firstName} {clip.uploader.lastName}
@@ -144,6 +180,7 @@ export function AudioPickerModal({
                           originalName: clip.title || clip.originalName,
                           duration: clip.duration ?? null,
                           mimeType: clip.mimeType,
+                          waveform: clip.waveform,
                         }}
                         compact
                       />
@@ -156,6 +193,15 @@ export function AudioPickerModal({
         </div>
       </DialogBody>
 
+      {flaggedSelections.length > 0 && (
+        <div className="mt-4 rounded-md bg-amber-50 p-3 text-sm text-amber-800">
+          {flaggedSelections.length === 1
+            ? `"${flaggedSelections[0].title || flaggedSelections[0].originalName}" has`
+            : `${flaggedSelections.length} of the selected clips have`}{' '}
+          rights or on-air warnings. Check them before attaching.
+        </div>
+      )}
+
       <DialogActions>
         {selectedIds.length > 0 && (
           <div className="mr-auto">
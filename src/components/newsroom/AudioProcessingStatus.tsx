@@ -0,0 +1,69 @@
+'use client';
+
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+
+import { Badge } from '@/components/ui/badge';
+import type { AudioClip, AudioProcessingStatus as Status } from '@/hooks/use-audio-library';
+
+const STATUS_BADGES: Record<Status, { label: string; color: 'zinc' | 'amber' | 'green' | 'red' }> = {
+  PENDING: { label: 'Queued', color: 'zinc' },
+  PROCESSING: { label: 'Processing', color: 'amber' },
+  READY: { label: 'Normalised', color: 'green' },
+  FAILED: { label: 'Processing failed', color: 'red' },
+};
+
+function formatChannels(channels: number): string {
+  if (channels === 1) return 'mono';
+  if (channels === 2) return 'stereo';
+  return `${channels} channels`;
+}
+
+// Measurements of the upload, e.g. "-16.2 LUFS · peak -0.3 dBTP · 48 kHz stereo"
+function describeSourceAudio(clip: AudioClip): string | null {
+  const parts: string[] = [];
+  if (clip.loudness != null) parts.push(`${clip.loudness.toFixed(1)} LUFS`);
+  if (clip.truePeak != null) parts.push(`peak ${clip.truePeak.toFixed(1)} dBTP`);
+  const format = [
+    clip.sampleRate ? `${clip.sampleRate / 1000} kHz` : null,
+    clip.channels ? formatChannels(clip.channels) : null,
+  ].filter(Boolean).join(' ');
+  if (format) parts.push(format);
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+interface AudioProcessingStatusProps {
+  clip: AudioClip;
+  onRetry?: () => void;
+  isRetrying?: boolean;
+}
+
+export function AudioProcessingStatus({ clip, onRetry, isRetrying = false }: AudioProcessingStatusProps) {
+  if (!clip.processingStatus) return null;
+
+  const badge = STATUS_BADGES[clip.processingStatus];
+  const source = describeSourceAudio(clip);
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-zinc-500 flex-wrap">
+      <Badge color={badge.color} className="text-xs">{badge.label}</Badge>
+      {clip.processingStatus === 'READY' && source && (
+        <span title="Measured on the upload; stations get an MP3 at -23 LUFS">Original: {source}</span>
+      )}
+      {clip.processingError && clip.processingStatus !== 'READY' && (
+        <span className="text-red-600 truncate" title={clip.processingError}>
+          {clip.processingError}
+        </span>
+      )}
+      {clip.processingStatus === 'FAILED' && onRetry && (
+        <button
+          onClick={onRetry}
+          disabled={isRetrying}
+          className="flex items-center gap-1 text-zinc-600 hover:text-zinc-900 disabled:opacity-50"
+        >
+          <ArrowPathIcon className="h-3 w-3" />
+          {isRetrying ? 'Queuing...' : 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { PlayIcon, StopIcon } from '@heroicons/react/24/solid';
+
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Field, Label } from '@/components/ui/fieldset';
+import { Input } from '@/components/ui/input';
+import { Text } from '@/components/ui/text';
+import { Waveform } from '@/components/ui/waveform';
+import { formatDuration } from '@/lib/format-utils';
+import { useAudioClip } from '@/hooks/use-audio-library';
+import {
+  UNTRIMMED,
+  trimmedDuration,
+  validateTrim,
+  type AudioTrim,
+  type AudioTrimFields,
+} from '@/lib/audio-trim';
+
+interface AudioTrimEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clipId: string;
+  trim: AudioTrim | null;
+  onSave: (trim: AudioTrimFields) => void;
+  isSaving?: boolean;
+}
+
+// Seconds to one decimal place for the number inputs
+function roundSeconds(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+// Unset fields are stored as null so an untouched usage plays the clip as-is
+function toFields(trim: AudioTrim, duration: number): AudioTrimFields {
+  return {
+    trimStart: trim.trimStart > 0 ? trim.trimStart : null,
+    trimEnd: trim.trimEnd !== null && trim.trimEnd < duration ? trim.trimEnd : null,
+    fadeIn: trim.fadeIn > 0 ? trim.fadeIn : null,
+    fadeOut: trim.fadeOut > 0 ? trim.fadeOut : null,
+  };
+}
+
+/**
+ * Set in/out points and fades for a clip's use in a story or episode. The
+ * clip in the library is left as it is.
+ */
+export function AudioTrimEditor({ isOpen, onClose, clipId, trim, onSave, isSaving = false }: AudioTrimEditorProps) {
+  const { data: clip, isLoading } = useAudioClip(isOpen ? clipId : '');
+  const [draft, setDraft] = useState<AudioTrim>(trim ?? UNTRIMMED);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    if (isOpen) setDraft(trim ?? UNTRIMMED);
+  }, [isOpen, trim]);
+
+  const duration: number = clip?.duration ?? 0;
+  const end = draft.trimEnd ?? duration;
+  const peaks: number[] = Array.isArray(clip?.waveform) ? clip.waveform : [];
+  const error = clip ? validateTrim(draft, duration || null) : null;
+
+  const update = (changes: Partial<AudioTrim>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const stopPreview = () => {
+    audioRef.current?.pause();
+    setIsPreviewing(false);
+  };
+
+  const startPreview = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = draft.trimStart;
+    try {
+      await audio.play();
+      setIsPreviewing(true);
+    } catch {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (audio && audio.currentTime >= end) stopPreview();
+  };
+
+  const handleClose = () => {
+    stopPreview();
+    onClose();
+  };
+
+  const handleSave = () => {
+    stopPreview();
+    onSave(toFields(draft, duration));
+  };
+
+  return (
+    <Dialog open={isOpen} onClose={handleClose} size="2xl">
+      <DialogTitle>Trim audio</DialogTitle>
+      <DialogDescription>
+        Set where this clip starts and ends here, and fade it in or out. The clip in the audio library is not changed.
+      </DialogDescription>
+
+      <DialogBody>
+        {isLoading || !clip ? (
+          <Text className="text-center py-8">Loading clip...</Text>
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <Text className="font-medium text-zinc-900 truncate">{clip.originalName}</Text>
+              {peaks.length > 0 ? (
+                <div className="h-20 mt-2">
+                  <Waveform
+                    peaks={peaks}
+                    selection={duration > 0 ? { start: draft.trimStart / duration, end: end / duration } : undefined}
+                  />
+                </div>
+              ) : (
+                <Text className="mt-2 text-sm text-zinc-500">
+                  The waveform appears once the clip has been processed.
+                </Text>
+              )}
+              <input
+                type="range"
+                aria-label="Start"
+                min={0}
+                max={duration}
+                step={0.1}
+                value={draft.trimStart}
+                onChange={(e) => update({ trimStart: Math.min(Number(e.target.value), end) })}
+                className="w-full mt-2 accent-kelly-green"
+              />
+              <input
+                type="range"
+                aria-label="End"
+                min={0}
+                max={duration}
+                step={0.1}
+                value={end}
+                onChange={(e) => update({ trimEnd: Math.max(Number(e.target.value), draft.trimStart) })}
+                className="w-full accent-kelly-green"
+              />
+              <div className="flex justify-between text-xs text-zinc-500">
+                <span>{formatDuration(draft.trimStart)}</span>
+                <span>Length {formatDuration(trimmedDuration(duration, draft))} of {formatDuration(duration)}</span>
+                <span>{formatDuration(end)}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              <Field>
+                <Label>Start (s)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={draft.trimStart}
+                  onChange={(e) => update({ trimStart: roundSeconds(Number(e.target.value) || 0) })}
+                />
+              </Field>
+              <Field>
+                <Label>End (s)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={duration}
+                  step={0.1}
+                  value={roundSeconds(end)}
+                  onChange={(e) => update({ trimEnd: roundSeconds(Number(e.target.value) || 0) })}
+                />
+              </Field>
+              <Field>
+                <Label>Fade in (s)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={30}
+                  step={0.1}
+                  value={draft.fadeIn}
+                  onChange={(e) => update({ fadeIn: roundSeconds(Number(e.target.value) || 0) })}
+                />
+              </Field>
+              <Field>
+                <Label>Fade out (s)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={30}
+                  step={0.1}
+                  value={draft.fadeOut}
+                  onChange={(e) => update({ fadeOut: roundSeconds(Number(e.target.value) || 0) })}
+                />
+              </Field>
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="flex items-center gap-3">
+              <audio ref={audioRef} src={clip.url} preload="metadata" onTimeUpdate={handleTimeUpdate} onEnded={stopPreview} />
+              <Button
+                color="white"
+                onClick={isPreviewing ? stopPreview : startPreview}
+                disabled={!!error}
+                className="flex items-center gap-2"
+              >
+                {isPreviewing ? <StopIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+                {isPreviewing ? 'Stop' : 'Preview'}
+              </Button>
+              <Text className="text-xs text-zinc-500">Preview plays the trimmed section without fades.</Text>
+            </div>
+          </div>
+        )}
+      </DialogBody>
+
+      <DialogActions>
+        <Button plain onClick={() => setDraft(UNTRIMMED)} disabled={isSaving}>
+          Reset
+        </Button>
+        <Button plain onClick={handleClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button color="primary" onClick={handleSave} disabled={isSaving || !clip || !!error}>
+          {isSaving ? 'Saving...' : 'Save trim'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { MegaphoneIcon } from '@heroicons/react/24/outline';
+
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { useBreakingNewsAlert, useBreakingNewsAlerts } from '@/hooks/use-breaking-news';
+
+function AlertStations({ alertId }: { alertId: string }) {
+  const { data, isLoading } = useBreakingNewsAlert(alertId);
+
+  if (isLoading) {
+    return <Text className="text-sm text-zinc-500">Loading stations...</Text>;
+  }
+
+  return (
+    <ul className="divide-y divide-zinc-100">
+      {data?.alert.stations.map(recipient => (
+        <li key={recipient.id} className="flex items-center justify-between py-2 text-sm">
+          <span className="text-zinc-900">{recipient.station.name}</span>
+          {recipient.acknowledgedAt ? (
+            <span className="text-zinc-500">
+              Acknowledged {format(new Date(recipient.acknowledgedAt), 'MMM d, h:mm a')}
+              {recipient.acknowledgedBy && ` by ${recipient.acknowledgedBy.firstName} ${recipient.acknowledgedBy.lastName}`}
+            </span>
+          ) : (
+            <Badge color="amber">Not acknowledged</Badge>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Breaking news alerts sent about a story or bulletin and which stations
+ * have acknowledged them.
+ */
+export function BreakingNewsAlerts(filters: { storyId: string } | { bulletinId: string }) {
+  const { data } = useBreakingNewsAlerts(filters);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const alerts = data?.alerts ?? [];
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <MegaphoneIcon className="h-6 w-6 text-red-600" />
+        <Heading level={3}>Breaking News Alerts</Heading>
+      </div>
+
+      <div className="space-y-4">
+        {alerts.map(alert => (
+          <div key={alert.id} className="rounded-lg border border-zinc-200 p-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-zinc-900">{alert.headline}</p>
+                <Text className="text-xs text-zinc-500">
+                  Sent {format(new Date(alert.createdAt), 'MMM d, yyyy h:mm a')} by {alert.createdBy.firstName}{' '}
+                  {alert.createdBy.lastName}
+                </Text>
+              </div>
+              <button
+                type="button"
+                onClick={() => setExpandedId(expandedId === alert.id ? null : alert.id)}
+                className="flex-shrink-0"
+              >
+                <Badge color={alert.acknowledgedCount === alert.stationCount ? 'green' : 'amber'}>
+                  {alert.acknowledgedCount}/{alert.stationCount} acknowledged
+                </Badge>
+              </button>
+            </div>
+            {expandedId === alert.id && (
+              <div className="mt-3 border-t border-zinc-100 pt-2">
+                <AlertStations alertId={alert.id} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
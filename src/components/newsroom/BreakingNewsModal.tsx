@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { useSendBreakingNews } from '@/hooks/use-breaking-news';
+
+interface BreakingNewsModalProps {
+  open: boolean;
+  onClose: () => void;
+  // The published story or bulletin the alert is about
+  target: { storyId: string } | { bulletinId: string };
+  defaultHeadline: string;
+}
+
+export function BreakingNewsModal({ open, onClose, target, defaultHeadline }: BreakingNewsModalProps) {
+  const [headline, setHeadline] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const sendMutation = useSendBreakingNews();
+
+  useEffect(() => {
+    if (!open) return;
+    setHeadline(defaultHeadline);
+    setMessage('');
+    setError('');
+  }, [open, defaultHeadline]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!headline.trim()) {
+      setError('Headline is required');
+      return;
+    }
+
+    try {
+      const result = await sendMutation.mutateAsync({
+        ...target,
+        headline: headline.trim(),
+        message: message.trim() || undefined,
+      });
+      toast.success(
+        `Breaking news sent to ${result.stationsAlerted} station${result.stationsAlerted === 1 ? '' : 's'}`
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose}>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Send Breaking News</DialogTitle>
+        <DialogDescription>
+          Every station that receives this content gets a banner and chime in the station zone until they
+          acknowledge it, and their primary contacts are emailed.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Headline *</Label>
+              <Input
+                value={headline}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHeadline(e.target.value)}
+                maxLength={200}
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Message</Label>
+              <Description>Optional instructions for the stations, e.g. when to run it.</Description>
+              <Textarea
+                value={message}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setMessage(e.target.value)}
+                maxLength={1000}
+                rows={3}
+              />
+            </Field>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={sendMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" color="red" disabled={sendMutation.isPending}>
+            {sendMutation.isPending ? 'Sending...' : 'Send Alert'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
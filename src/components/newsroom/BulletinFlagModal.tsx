@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import { format } from 'date-fns';
+import { useQuery } from '@tanstack/react-query';
+import type { StoryLanguage } from '@prisma/client';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { formatLanguage } from '@/lib/language-utils';
+import { formatUserName } from '@/lib/format';
+import { useFlagStoryForBulletin, useStoryBulletinFlags, type BulletinFlag } from '@/hooks/use-bulletin-flags';
+
+interface BulletinFlagModalProps {
+  open: boolean;
+  onClose: () => void;
+  storyId: string;
+  storyLanguage: StoryLanguage;
+}
+
+interface ScheduleOption {
+  id: string;
+  title: string;
+  time: string;
+  language: StoryLanguage;
+  scheduleType: string;
+}
+
+// Stored days come back as UTC-midnight timestamps
+const flagDay = (value: string) => value.slice(0, 10);
+
+export function formatFlagDays(flag: Pick<BulletinFlag, 'startDate' | 'endDate'>) {
+  const start = flagDay(flag.startDate);
+  const end = flagDay(flag.endDate);
+  const label = (day: string) => format(new Date(`${day}T00:00:00`), 'EEE d MMM');
+  return start === end ? label(start) : `${label(start)} – ${label(end)}`;
+}
+
+export function BulletinFlagModal({ open, onClose, storyId, storyLanguage }: BulletinFlagModalProps) {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [scheduleId, setScheduleId] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [error, setError] = useState('');
+
+  const { data: flagsData } = useStoryBulletinFlags(storyId, open);
+  const flagMutation = useFlagStoryForBulletin(storyId);
+
+  const { data: schedulesData } = useQuery<{ schedules: ScheduleOption[] }>({
+    queryKey: ['bulletin-schedules'],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/bulletins/schedules?active=true`);
+      if (!response.ok) throw new Error('Failed to fetch schedules');
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    setScheduleId('');
+    setStartDate(today);
+    setEndDate(today);
+    setError('');
+  }, [open, today]);
+
+  const flags = flagsData?.flags ?? [];
+  const current = flags.filter(flag => !flag.removedAt && flagDay(flag.endDate) >= today);
+  const past = flags.filter(flag => !current.includes(flag));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (endDate < startDate) {
+      setError('The last day cannot be before the first');
+      return;
+    }
+
+    try {
+      await flagMutation.mutateAsync({ flagged: true, scheduleId: scheduleId || null, startDate, endDate });
+      toast.success('Story flagged for bulletin');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleWithdraw = async (flagId: string) => {
+    try {
+      await flagMutation.mutateAsync({ flagged: false, flagId });
+      toast.success('Pick withdrawn');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to withdraw pick');
+    }
+  };
+
+  const slotLabel = (flag: BulletinFlag) =>
+    flag.schedule ? `${flag.schedule.title} (${flag.schedule.time})` : `Any ${formatLanguage(flag.language)} bulletin`;
+
+  return (
+    <Dialog open={open} onClose={onClose} size="2xl">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Flag for Bulletin</DialogTitle>
+        <DialogDescription>
+          Pick this story for a bulletin slot or for every bulletin in its language, on one day or several. Picks are
+          kept as history, so you can see later whether the story went out.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Bulletin slot</Label>
+              <Select value={scheduleId} onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setScheduleId(e.target.value)}>
+                <option value="">Any {formatLanguage(storyLanguage)} bulletin</option>
+                {(schedulesData?.schedules ?? []).map(schedule => (
+                  <option key={schedule.id} value={schedule.id}>
+                    {schedule.title} · {schedule.time} · {formatLanguage(schedule.language)}
+                  </option>
+                ))}
+              </Select>
+            </Field>
+
+            <div className="grid grid-cols-2 gap-4">
+              <Field>
+                <Label>First day</Label>
+                <Input
+                  type="date"
+                  min={today}
+                  value={startDate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    setStartDate(e.target.value);
+                    if (endDate < e.target.value) setEndDate(e.target.value);
+                  }}
+                />
+              </Field>
+              <Field>
+                <Label>Last day</Label>
+                <Description>Up to two weeks.</Description>
+                <Input
+                  type="date"
+                  min={startDate}
+                  value={endDate}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEndDate(e.target.value)}
+                />
+              </Field>
+            </div>
+
+            {current.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 mb-2">Current picks</label>
+                <ul className="divide-y divide-zinc-100 rounded-lg border border-zinc-200">
+                  {current.map(flag => (
+                    <li key={flag.id} className="flex items-center justify-between gap-3 p-3">
+                      <div>
+                        <Text className="text-sm font-medium text-zinc-900">
+                          {formatFlagDays(flag)} · {slotLabel(flag)}
+                        </Text>
+                        <Text className="text-xs text-zinc-500">Flagged by {formatUserName(flag.flaggedBy)}</Text>
+                      </div>
+                      <Button
+                        type="button"
+                        plain
+                        onClick={() => handleWithdraw(flag.id)}
+                        disabled={flagMutation.isPending}
+                      >
+                        Withdraw
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {past.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 mb-2">History</label>
+                <ul className="max-h-48 overflow-y-auto divide-y divide-zinc-100 rounded-lg border border-zinc-200">
+                  {past.map(flag => (
+                    <li key={flag.id} className="flex items-center justify-between gap-3 p-3">
+                      <div>
+                        <Text className="text-sm text-zinc-900">
+                          {formatFlagDays(flag)} · {slotLabel(flag)}
+                        </Text>
+                        <Text className="text-xs text-zinc-500">
+                          Flagged by {formatUserName(flag.flaggedBy)}
+                          {flag.removedBy && `, withdrawn by ${formatUserName(flag.removedBy)}`}
+                        </Text>
+                      </div>
+                      {flag.used ? (
+                        <Badge color="green">Used</Badge>
+                      ) : flag.removedAt ? (
+                        <Badge color="zinc">Withdrawn</Badge>
+                      ) : (
+                        <Badge color="red">Not used</Badge>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={flagMutation.isPending}>
+            Close
+          </Button>
+          <Button type="submit" color="primary" disabled={flagMutation.isPending}>
+            {flagMutation.isPending ? 'Saving...' : 'Flag'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
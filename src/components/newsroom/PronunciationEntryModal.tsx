@@ -0,0 +1,123 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { useCreatePronunciation, useUpdatePronunciation } from '@/hooks/use-pronunciations';
+import type { PronunciationEntry, PronunciationEntryFormData } from '@/hooks/use-pronunciations';
+
+interface PronunciationEntryModalProps {
+  open: boolean;
+  onClose: () => void;
+  entry: PronunciationEntry | null;
+}
+
+export function PronunciationEntryModal({ open, onClose, entry }: PronunciationEntryModalProps) {
+  const [term, setTerm] = useState('');
+  const [guide, setGuide] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  const createMutation = useCreatePronunciation();
+  const updateMutation = useUpdatePronunciation();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  useEffect(() => {
+    if (!open) return;
+    setTerm(entry?.term ?? '');
+    setGuide(entry?.guide ?? '');
+    setNotes(entry?.notes ?? '');
+    setError('');
+  }, [open, entry]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!term.trim() || !guide.trim()) {
+      setError('Name and pronunciation are required');
+      return;
+    }
+
+    const data: PronunciationEntryFormData = {
+      term: term.trim(),
+      guide: guide.trim(),
+      notes: notes.trim() || null,
+    };
+
+    try {
+      if (entry) {
+        await updateMutation.mutateAsync({ id: entry.id, data });
+      } else {
+        await createMutation.mutateAsync(data);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose}>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>{entry ? `Edit "${entry.term}"` : 'New Pronunciation'}</DialogTitle>
+        <DialogDescription>
+          Editors are prompted to add this note whenever the name appears in a story or bulletin.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Name</Label>
+              <Description>A person, place or word as it is spelled in copy.</Description>
+              <Input
+                value={term}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTerm(e.target.value)}
+                placeholder="e.g. Gqeberha"
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Say it as</Label>
+              <Description>Phonetic spelling with the stressed syllable in capitals.</Description>
+              <Input
+                value={guide}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGuide(e.target.value)}
+                placeholder="e.g. geh-BEH-ha"
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Notes</Label>
+              <Input
+                value={notes}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNotes(e.target.value)}
+                placeholder="Optional, e.g. the Gq is a click"
+              />
+            </Field>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : entry ? 'Save Entry' : 'Add Entry'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
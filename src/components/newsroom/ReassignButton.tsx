@@ -13,7 +13,7 @@ interface ReassignButtonProps {
   storyTitle: string;
   currentAssignee: string | null;
   type: ReassignmentType;
-  targetLanguage?: string; // Required for translator type (AFRIKAANS, XHOSA)
+  targetLanguage?: string; // Required for translator type (AFRIKAANS, XHOSA, ZULU)
   compact?: boolean;
   onReassigned?: () => void;
 }
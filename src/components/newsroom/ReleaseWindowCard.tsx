@@ -0,0 +1,99 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ClockIcon } from '@heroicons/react/24/outline';
+
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { formatTimeRemaining, getReleaseStatus, PROVINCE_LABELS } from '@/lib/release-window';
+import { useNewsroomStations } from '@/hooks/use-release-window';
+import { ReleaseWindowModal, type ReleaseWindowValues } from './ReleaseWindowModal';
+
+interface ReleaseWindowCardProps {
+  target: { storyId: string } | { bulletinId: string };
+  content: ReleaseWindowValues;
+  canEdit: boolean;
+}
+
+/**
+ * The embargo and exclusivity window of a story or bulletin, counting down
+ * to the next release.
+ */
+export function ReleaseWindowCard({ target, content, canEdit }: ReleaseWindowCardProps) {
+  const [showModal, setShowModal] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const hasExclusive = content.exclusiveStationIds.length > 0;
+  const { data: stationsData } = useNewsroomStations(hasExclusive);
+
+  // Re-render each minute so the countdown stays current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const status = getReleaseStatus(content, now);
+  const isSet = !!content.embargoUntil || !!content.exclusiveUntil;
+  if (!isSet && !canEdit) return null;
+
+  const stationNames = new Map((stationsData?.stations ?? []).map(station => [station.id, station.name]));
+  const exclusiveTo = [
+    ...content.exclusiveStationIds.map(id => stationNames.get(id) ?? 'Unknown station'),
+    ...content.exclusiveProvinces.map(province => PROVINCE_LABELS[province]),
+  ];
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ClockIcon className="h-5 w-5 text-zinc-500" />
+          <Heading level={3}>Station Release</Heading>
+        </div>
+        {canEdit && (
+          <Button color="white" onClick={() => setShowModal(true)}>
+            {isSet ? 'Edit' : 'Set Embargo'}
+          </Button>
+        )}
+      </div>
+
+      {status.state === 'embargoed' && (
+        <div className="space-y-1">
+          <Badge color="red">Embargoed · {formatTimeRemaining(status.until, now)} left</Badge>
+          <Text className="text-sm text-zinc-600">
+            No station sees this until {format(status.until, 'MMM d, yyyy h:mm a')}.
+          </Text>
+        </div>
+      )}
+
+      {status.state === 'exclusive' && (
+        <div className="space-y-1">
+          <Badge color="purple">Exclusive · {formatTimeRemaining(status.until, now)} left</Badge>
+          <Text className="text-sm text-zinc-600">
+            Only {exclusiveTo.join(', ')} until {format(status.until, 'MMM d, yyyy h:mm a')}.
+          </Text>
+        </div>
+      )}
+
+      {status.state === 'released' && (
+        <Text className="text-sm text-zinc-600">
+          {isSet ? 'The release window has passed; every station can see this.' : 'Released to every station on publish.'}
+        </Text>
+      )}
+
+      {status.state === 'embargoed' && content.exclusiveUntil && (
+        <Text className="text-sm text-zinc-600 mt-2">
+          Then exclusive to {exclusiveTo.join(', ')} until{' '}
+          {format(new Date(content.exclusiveUntil), 'MMM d, yyyy h:mm a')}.
+        </Text>
+      )}
+
+      {canEdit && (
+        <ReleaseWindowModal open={showModal} onClose={() => setShowModal(false)} target={target} current={content} />
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import toast from 'react-hot-toast';
+import type { Province } from '@prisma/client';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox, CheckboxField } from '@/components/ui/checkbox';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { PROVINCE_LABELS } from '@/lib/release-window';
+import { useNewsroomStations, useSetReleaseWindow } from '@/hooks/use-release-window';
+
+export interface ReleaseWindowValues {
+  embargoUntil: string | null;
+  exclusiveUntil: string | null;
+  exclusiveStationIds: string[];
+  exclusiveProvinces: Province[];
+}
+
+interface ReleaseWindowModalProps {
+  open: boolean;
+  onClose: () => void;
+  target: { storyId: string } | { bulletinId: string };
+  current: ReleaseWindowValues;
+}
+
+// "YYYY-MM-DDTHH:mm" in local time for a datetime-local input
+function toLocalInput(value: string | null) {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function toggle<T>(values: T[], value: T, on: boolean) {
+  return on ? [...values, value] : values.filter(v => v !== value);
+}
+
+export function ReleaseWindowModal({ open, onClose, target, current }: ReleaseWindowModalProps) {
+  const [embargoUntil, setEmbargoUntil] = useState('');
+  const [exclusiveUntil, setExclusiveUntil] = useState('');
+  const [stationIds, setStationIds] = useState<string[]>([]);
+  const [provinces, setProvinces] = useState<Province[]>([]);
+  const [error, setError] = useState('');
+
+  const { data: stationsData } = useNewsroomStations(open);
+  const releaseMutation = useSetReleaseWindow(target);
+
+  useEffect(() => {
+    if (!open) return;
+    setEmbargoUntil(toLocalInput(current.embargoUntil));
+    setExclusiveUntil(toLocalInput(current.exclusiveUntil));
+    setStationIds(current.exclusiveStationIds);
+    setProvinces(current.exclusiveProvinces);
+    setError('');
+  }, [open, current]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const hasRecipients = stationIds.length + provinces.length > 0;
+    if (exclusiveUntil && !hasRecipients) {
+      setError('Choose the stations or provinces that get the exclusive');
+      return;
+    }
+    if (hasRecipients && !exclusiveUntil) {
+      setError('Set when the exclusive ends');
+      return;
+    }
+    if (embargoUntil && exclusiveUntil && new Date(exclusiveUntil) <= new Date(embargoUntil)) {
+      setError('The exclusive must end after the embargo lifts');
+      return;
+    }
+
+    try {
+      await releaseMutation.mutateAsync({
+        embargoUntil: fromLocalInput(embargoUntil),
+        exclusiveUntil: fromLocalInput(exclusiveUntil),
+        exclusiveStationIds: stationIds,
+        exclusiveProvinces: provinces,
+      });
+      toast.success('Release window updated');
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const handleClear = () => {
+    setEmbargoUntil('');
+    setExclusiveUntil('');
+    setStationIds([]);
+    setProvinces([]);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="2xl">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Embargo & Exclusivity</DialogTitle>
+        <DialogDescription>
+          Stations see nothing before the embargo lifts. Until the exclusive ends, only the stations and provinces
+          you choose see it; after that it goes to every station as usual.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Embargoed until</Label>
+              <Description>Leave empty to release as soon as it is published.</Description>
+              <Input
+                type="datetime-local"
+                value={embargoUntil}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmbargoUntil(e.target.value)}
+              />
+            </Field>
+
+            <Field>
+              <Label>Exclusive until</Label>
+              <Input
+                type="datetime-local"
+                value={exclusiveUntil}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExclusiveUntil(e.target.value)}
+              />
+            </Field>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 mb-2">Exclusive to provinces</label>
+              <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {(Object.keys(PROVINCE_LABELS) as Province[]).map(province => (
+                  <CheckboxField key={province}>
+                    <Checkbox
+                      checked={provinces.includes(province)}
+                      onChange={(checked: boolean) => setProvinces(values => toggle(values, province, checked))}
+                    />
+                    <Label>{PROVINCE_LABELS[province]}</Label>
+                  </CheckboxField>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 mb-2">Exclusive to stations</label>
+              <div className="max-h-48 overflow-y-auto rounded-lg border border-zinc-200 p-3 space-y-2">
+                {(stationsData?.stations ?? []).map(station => (
+                  <CheckboxField key={station.id}>
+                    <Checkbox
+                      checked={stationIds.includes(station.id)}
+                      onChange={(checked: boolean) => setStationIds(values => toggle(values, station.id, checked))}
+                    />
+                    <Label>
+                      {station.name} <span className="text-zinc-500">({PROVINCE_LABELS[station.province]})</span>
+                    </Label>
+                  </CheckboxField>
+                ))}
+              </div>
+            </div>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" plain onClick={handleClear} disabled={releaseMutation.isPending} className="mr-auto">
+            Clear all
+          </Button>
+          <Button type="button" color="white" onClick={onClose} disabled={releaseMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={releaseMutation.isPending}>
+            {releaseMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import toast from 'react-hot-toast';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DiffText } from '@/components/ui/diff-text';
+import { useSourceChanges, useAcknowledgeSourceChanges } from '@/hooks/use-translation-source';
+
+const CHANGE_LABELS = {
+  added: { label: 'Added', color: 'green' },
+  removed: { label: 'Removed', color: 'red' },
+  changed: { label: 'Changed', color: 'amber' },
+} as const;
+
+interface SourceChangesBannerProps {
+  storyId: string;
+  // Only the translator (or a sub-editor and above) can mark the translation as up to date
+  canAcknowledge: boolean;
+}
+
+/**
+ * Warns that the original story was edited after this translation was made,
+ * listing the paragraphs that changed since.
+ */
+export function SourceChangesBanner({ storyId, canAcknowledge }: SourceChangesBannerProps) {
+  const { data } = useSourceChanges(storyId);
+  const acknowledgeMutation = useAcknowledgeSourceChanges(storyId);
+
+  if (!data?.stale) return null;
+
+  const handleAcknowledge = async () => {
+    try {
+      await acknowledgeMutation.mutateAsync();
+      toast.success('Translation marked as up to date');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to mark translation as up to date');
+    }
+  };
+
+  const hasDiff = !!data.titleChange || data.paragraphs.length > 0;
+
+  return (
+    <Card className="p-6 border-amber-300 bg-amber-50">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start gap-3">
+          <ExclamationTriangleIcon className="h-6 w-6 text-amber-600 flex-shrink-0" />
+          <div>
+            <Heading level={4} className="text-amber-900">Source changed</Heading>
+            <Text className="text-sm text-amber-800">
+              The original story was edited
+              {data.sourceChangedAt ? ` on ${new Date(data.sourceChangedAt).toLocaleString()}` : ''} after
+              this translation was started
+              {data.sourceVersionNumber && data.currentVersionNumber
+                ? ` (version ${data.sourceVersionNumber} → ${data.currentVersionNumber})`
+                : ''}
+              . Update the translation, then mark it as up to date. It cannot be published until then.
+            </Text>
+          </div>
+        </div>
+        {canAcknowledge && (
+          <Button color="white" onClick={handleAcknowledge} disabled={acknowledgeMutation.isPending}>
+            {acknowledgeMutation.isPending ? 'Saving...' : 'Mark as up to date'}
+          </Button>
+        )}
+      </div>
+
+      {hasDiff ? (
+        <div className="mt-4 space-y-3 max-h-96 overflow-y-auto">
+          {data.titleChange && (
+            <div className="rounded-lg bg-white p-3 border border-amber-200">
+              <Badge color="amber" className="mb-2">Title</Badge>
+              <DiffText segments={data.titleChange} />
+            </div>
+          )}
+          {data.paragraphs.map((change, index) => (
+            <div key={index} className="rounded-lg bg-white p-3 border border-amber-200">
+              <div className="flex items-center gap-2 mb-2">
+                <Badge color={CHANGE_LABELS[change.type].color}>{CHANGE_LABELS[change.type].label}</Badge>
+                <Text className="text-xs text-zinc-500">Paragraph {change.position + 1}</Text>
+              </div>
+              <DiffText segments={change.segments} />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <Text className="mt-4 text-sm text-amber-800">
+          The earlier version of the original is not available, so the changed paragraphs cannot be shown.
+        </Text>
+      )}
+    </Card>
+  );
+}
@@ -24,6 +24,9 @@ import { Text } from '@/components/ui/text';
 import { StaffRole } from '@prisma/client';
 import { type AudioClip } from '@/hooks/use-audio-library';
 import { MusicalNoteIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { usePronunciationEditor } from '@/hooks/use-pronunciations';
+import { useStoryStyleCheck } from '@/hooks/use-style-check';
+import { uploadAudioFiles, uploadPercent } from '@/lib/resumable-upload';
 
 // Dynamically import RichTextEditor to reduce initial bundle size
 const RichTextEditor = dynamic(
@@ -52,9 +55,13 @@ type StoryCreateFormData = z.infer<typeof storyCreateSchema>;
 
 export function StoryCreateForm() {
   const { data: session } = useSession();
+  const pronunciationEditor = usePronunciationEditor();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [content, setContent] = useState('');
+  // New stories are written in English and have no category yet
+  const styleCheck = useStoryStyleCheck(content, 'ENGLISH');
   const [audioFiles, setAudioFiles] = useState<AudioFile[]>([]);
   const [showReviewerModal, setShowReviewerModal] = useState(false);
   const [submitAction, setSubmitAction] = useState<'draft' | 'review'>('draft');
@@ -121,11 +128,13 @@ export function StoryCreateForm() {
         formData.append('reviewerId', reviewerId);
       }
       
-      // Add audio files
-      audioFiles.forEach((audioFile, index) => {
-        formData.append(`audioFile_${index}`, audioFile.file);
-      });
-      formData.append('audioFilesCount', String(audioFiles.length));
+      // Send audio straight to storage; the story only carries the upload ids
+      if (audioFiles.length > 0) {
+        const uploadIds = await uploadAudioFiles(audioFiles.map(audioFile => audioFile.file), {
+          onProgress: (progress) => setUploadProgress(uploadPercent(progress)),
+        });
+        formData.append('uploadIds', JSON.stringify(uploadIds));
+      }
 
       // Add library clip IDs
       if (libraryClips.length > 0) {
@@ -162,6 +171,7 @@ export function StoryCreateForm() {
       return null;
     } finally {
       setIsSubmitting(false);
+      setUploadProgress(null);
     }
   };
 
@@ -220,6 +230,8 @@ export function StoryCreateForm() {
                     Write your story here. Include all the important details and make it engaging for readers.
                   </Description>
                   <RichTextEditor
+                    {...pronunciationEditor}
+                    styleCheck={styleCheck}
                     content={content}
                     onChange={(newContent) => {
                       setContent(newContent);
@@ -246,8 +258,10 @@ export function StoryCreateForm() {
             <FileUpload
               onFilesChange={setAudioFiles}
               maxFiles={5}
-              maxFileSize={100}
             />
+            {uploadProgress !== null && (
+              <Text className="mt-2 text-sm">Uploading audio... {uploadProgress}%</Text>
+            )}
 
             <div className="mt-4 flex items-center gap-3">
               <div className="flex-1 border-t border-zinc-200" />
@@ -0,0 +1,97 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Text } from '@/components/ui/text';
+import { DiffText } from '@/components/ui/diff-text';
+import { diffWords, htmlToPlainText } from '@/lib/text-diff';
+
+export interface StoryEditConflict {
+  title: string;
+  content: string;
+  updatedAt: string;
+  updatedBy: { id: string; firstName: string; lastName: string } | null;
+}
+
+interface StoryEditConflictDialogProps {
+  conflict: StoryEditConflict | null;
+  mine: { title: string; content: string };
+  onReloadTheirs: () => void;
+  onKeepMine: () => void;
+  onClose: () => void;
+  isSaving?: boolean;
+}
+
+export function StoryEditConflictDialog({
+  conflict,
+  mine,
+  onReloadTheirs,
+  onKeepMine,
+  onClose,
+  isSaving = false,
+}: StoryEditConflictDialogProps) {
+  // Show how the saved version differs from what this editor is about to save
+  const changes = useMemo(() => {
+    if (!conflict) return null;
+    return {
+      title: conflict.title !== mine.title ? diffWords(conflict.title, mine.title) : null,
+      content: conflict.content !== mine.content
+        ? diffWords(htmlToPlainText(conflict.content), htmlToPlainText(mine.content))
+        : null,
+    };
+  }, [conflict, mine]);
+
+  const editorName = conflict?.updatedBy
+    ? `${conflict.updatedBy.firstName} ${conflict.updatedBy.lastName}`
+    : 'Someone else';
+
+  return (
+    <Dialog open={!!conflict} onClose={onClose} size="3xl">
+      <DialogTitle>This story was changed while you were editing</DialogTitle>
+      <DialogDescription>
+        {editorName} saved this story
+        {conflict ? ` at ${new Date(conflict.updatedAt).toLocaleTimeString()}` : ''}. Compare their saved
+        version with yours, then reload their changes or save yours over them.
+      </DialogDescription>
+
+      <DialogBody>
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+          <div className="flex items-center gap-4 text-xs">
+            <span><del className="bg-red-100 text-red-900">Removed</del> only in their version</span>
+            <span><ins className="bg-green-100 text-green-900 no-underline">Added</ins> only in yours</span>
+          </div>
+          {changes?.title && (
+            <div>
+              <Text className="text-sm font-medium text-zinc-700 mb-1">Title</Text>
+              <DiffText segments={changes.title} />
+            </div>
+          )}
+          {changes?.content && (
+            <div>
+              <Text className="text-sm font-medium text-zinc-700 mb-1">Content</Text>
+              <DiffText segments={changes.content} />
+            </div>
+          )}
+          {changes && !changes.title && !changes.content && (
+            <Text className="text-sm text-zinc-500">
+              Their title and content match yours; they changed other details.
+            </Text>
+          )}
+        </div>
+      </DialogBody>
+
+      <DialogActions>
+        <Button color="white" onClick={onClose} disabled={isSaving}>
+          Keep editing
+        </Button>
+        <Button outline onClick={onReloadTheirs} disabled={isSaving}>
+          Reload their changes
+        </Button>
+        <Button color="red" onClick={onKeepMine} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save mine over theirs'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -5,7 +5,7 @@ import { useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import toast from 'react-hot-toast';
-import { MusicalNoteIcon, CheckCircleIcon, ArrowLeftIcon, TrashIcon, FolderOpenIcon } from '@heroicons/react/24/outline';
+import { MusicalNoteIcon, CheckCircleIcon, ArrowLeftIcon, TrashIcon, FolderOpenIcon, ExclamationTriangleIcon, ScissorsIcon } from '@heroicons/react/24/outline';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import dynamic from 'next/dynamic';
 
@@ -22,11 +22,18 @@ import { CustomAudioPlayer } from '@/components/ui/audio-player';
 import { FileUpload } from '@/components/ui/file-upload';
 import { ReviewerSelectionModal } from './ReviewerSelectionModal';
 import { AudioPickerModal } from './AudioPickerModal';
-import { useLinkAudioToStory } from '@/hooks/use-audio-library';
+import { AudioTrimEditor } from './AudioTrimEditor';
+import { useLinkAudioToStory, useTrimStoryAudio } from '@/hooks/use-audio-library';
+import { usageAudioClip, type AudioTrimFields } from '@/lib/audio-trim';
+import { uploadAudioFiles, uploadPercent } from '@/lib/resumable-upload';
+import { useStoryWorkflow } from '@/hooks/use-workflows';
 import { RevisionRequestBanner } from '@/components/ui/revision-request-banner';
 import { ReviewStatusBanner } from '@/components/ui/review-status-banner';
 import { StageBadge } from '@/components/ui/stage-badge';
 import { StageProgressCard } from '@/components/newsroom/WorkflowBar';
+import { StoryEditConflictDialog } from './StoryEditConflictDialog';
+import type { StoryEditConflict } from './StoryEditConflictDialog';
+import { useStoryPresence } from '@/hooks/realtime';
 
 // Dynamically import RichTextEditor to reduce initial bundle size
 const RichTextEditor = dynamic(
@@ -42,7 +49,10 @@ import {
   getAvailableStatusTransitions,
 } from '@/lib/permissions';
 import { invalidateDashboardQueries } from '@/lib/query-invalidation';
-import { StoryStatus, StaffRole, StoryStage } from '@prisma/client';
+import { legacyStatusForStage } from '@/lib/story-stage';
+import { StoryStatus, StaffRole, StoryStage, StoryLanguage } from '@prisma/client';
+import { usePronunciationEditor } from '@/hooks/use-pronunciations';
+import { useStoryStyleCheck } from '@/hooks/use-style-check';
 
 // Audio file interface for uploads
 interface AudioFile {
@@ -60,6 +70,7 @@ interface Story {
   content: string | null;
   status: StoryStatus;
   stage: StoryStage | null;
+  language: StoryLanguage;
   categoryId: string | null;
   authorId: string;
   createdAt: string;
@@ -94,7 +105,12 @@ interface Story {
       mimeType: string;
       title?: string | null;
       tags?: string[];
+      waveform?: number[] | null;
     };
+    trimStart?: number | null;
+    trimEnd?: number | null;
+    fadeIn?: number | null;
+    fadeOut?: number | null;
     createdAt: string;
   }>;
 }
@@ -113,6 +129,7 @@ interface StoryEditFormProps {
 
 export function StoryEditForm({ storyId }: StoryEditFormProps) {
   const { data: session } = useSession();
+  const pronunciationEditor = usePronunciationEditor();
   const router = useRouter();
   const queryClient = useQueryClient();
 
@@ -121,11 +138,24 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [story, setStory] = useState<Story | null>(null);
   const [content, setContent] = useState('');
+  const styleCheck = useStoryStyleCheck(content, story?.language ?? 'ENGLISH', story?.categoryId ?? null);
   const [showReviewerModal, setShowReviewerModal] = useState(false);
   const [removedAudioIds, setRemovedAudioIds] = useState<string[]>([]);
   const [newAudioFiles, setNewAudioFiles] = useState<AudioFile[]>([]);
   const [showAudioPicker, setShowAudioPicker] = useState(false);
+  const [trimmingAudioId, setTrimmingAudioId] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [conflict, setConflict] = useState<StoryEditConflict | null>(null);
+  const [pendingSave, setPendingSave] = useState<StoryEditFormData | null>(null);
   const linkAudioMutation = useLinkAudioToStory(storyId);
+  const trimAudioMutation = useTrimStoryAudio(storyId);
+  const { data: workflowState } = useStoryWorkflow(storyId);
+
+  // Other users with this story open in the editor
+  const otherEditors = useStoryPresence(
+    storyId,
+    session?.user ? `${session.user.firstName} ${session.user.lastName}` : undefined
+  );
 
   const {
     register,
@@ -181,44 +211,33 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
     loadStory();
   }, [storyId, reset, router]);
 
-  const onSubmit: SubmitHandler<StoryEditFormData> = async (data) => {
+  // Save the story; the server answers 409 if it changed since expectedUpdatedAt
+  const saveStory = async (data: StoryEditFormData, expectedUpdatedAt?: string) => {
     setIsSubmitting(true);
     try {
-      let response;
-
-      // If there are new audio files, use FormData
-      if (newAudioFiles.length > 0) {
-        const formData = new FormData();
-
-        // Add story data
-        formData.append('title', data.title);
-        formData.append('content', data.content);
-
-        // Add removed audio IDs
-        if (removedAudioIds.length > 0) {
-          formData.append('removedAudioIds', JSON.stringify(removedAudioIds));
-        }
-
-        // Add new audio files
-        newAudioFiles.forEach((audioFile, index) => {
-          formData.append(`audioFile_${index}`, audioFile.file);
-        });
-        formData.append('audioFilesCount', String(newAudioFiles.length));
+      // Send new audio straight to storage; the story only carries the upload ids
+      const uploadIds = newAudioFiles.length > 0
+        ? await uploadAudioFiles(newAudioFiles.map(audioFile => audioFile.file), {
+            onProgress: (progress) => setUploadProgress(uploadPercent(progress)),
+          })
+        : undefined;
+
+      const response = await fetch(`/api/newsroom/stories/${storyId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...data,
+          removedAudioIds: removedAudioIds.length > 0 ? removedAudioIds : undefined,
+          uploadIds,
+          expectedUpdatedAt,
+        }),
+      });
 
-        response = await fetch(`/api/newsroom/stories/${storyId}`, {
-          method: 'PATCH',
-          body: formData,
-        });
-      } else {
-        // No new files, use JSON
-        response = await fetch(`/api/newsroom/stories/${storyId}`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            ...data,
-            removedAudioIds: removedAudioIds.length > 0 ? removedAudioIds : undefined,
-          }),
-        });
+      if (response.status === 409) {
+        const conflictData = await response.json();
+        setPendingSave(data);
+        setConflict(conflictData.current);
+        return;
       }
 
       if (!response.ok) {
@@ -235,9 +254,33 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
       toast.error(error instanceof Error ? error.message : 'Failed to update story');
     } finally {
       setIsSubmitting(false);
+      setUploadProgress(null);
     }
   };
 
+  const onSubmit: SubmitHandler<StoryEditFormData> = async (data) => {
+    await saveStory(data, story?.updatedAt);
+  };
+
+  // Conflict: discard local edits and load the version someone else saved
+  const handleReloadTheirs = () => {
+    if (!conflict || !story) return;
+    setStory({ ...story, title: conflict.title, content: conflict.content, updatedAt: conflict.updatedAt });
+    setContent(conflict.content);
+    reset({ title: conflict.title, content: conflict.content });
+    setConflict(null);
+    setPendingSave(null);
+    toast.success('Loaded the latest saved version');
+  };
+
+  // Conflict: save local edits over the newer version (it stays in revision history)
+  const handleKeepMine = async () => {
+    if (!conflict || !pendingSave) return;
+    const expectedUpdatedAt = conflict.updatedAt;
+    setConflict(null);
+    await saveStory(pendingSave, expectedUpdatedAt);
+  };
+
   const handleSubmitForReview = () => {
     // Show the reviewer modal
     setShowReviewerModal(true);
@@ -286,9 +329,16 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
       const updateResponse = await fetch(`/api/newsroom/stories/${storyId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({ ...formData, expectedUpdatedAt: story?.updatedAt }),
       });
 
+      if (updateResponse.status === 409) {
+        const conflictData = await updateResponse.json();
+        setPendingSave(formData);
+        setConflict(conflictData.current);
+        return;
+      }
+
       if (!updateResponse.ok) {
         throw new Error('Failed to save changes');
       }
@@ -429,7 +479,7 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
     );
   }
 
-  const statusActions = getStatusActions(story.status);
+  const statusActions = getStatusActions(legacyStatusForStage(story.stage ?? 'DRAFT'));
 
   return (
     <Container>
@@ -445,6 +495,23 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
         </Button>
       </div>
 
+      {/* Presence Banner - Other users editing this story */}
+      {otherEditors.length > 0 && (
+        <Card className="mb-6 p-4 bg-amber-50 border-amber-200 dark:bg-amber-950 dark:border-amber-800">
+          <div className="flex items-start gap-3">
+            <ExclamationTriangleIcon className="h-5 w-5 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
+            <div className="flex-1">
+              <Text className="font-semibold text-amber-900 dark:text-amber-100">
+                {otherEditors.map(e => e.name).join(', ')} {otherEditors.length === 1 ? 'is' : 'are'} also editing this story
+              </Text>
+              <Text className="text-sm text-amber-700 dark:text-amber-300 mt-1">
+                If they save first, you will be asked to reload their changes or save yours over them.
+              </Text>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* Contextual Banners */}
       {/* Review Status Banner - Show when story is under review */}
       {story.authorId === session?.user?.id &&
@@ -564,6 +631,8 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
                     <Field>
                       <Label htmlFor="content">Story Content *</Label>
                       <RichTextEditor
+                        {...pronunciationEditor}
+                        styleCheck={styleCheck}
                         content={content}
                         onChange={(newContent) => {
                           setContent(newContent);
@@ -601,19 +670,33 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
                 </div>
               ) : (
                 <div className="space-y-3">
-                  {story.audioClips.filter((sac) => !removedAudioIds.includes(sac.audioClip.id)).map((sac) => (
+                  {story.audioClips.filter((sac) => !removedAudioIds.includes(sac.audioClip.id)).map((sac) => {
+                    const clip = usageAudioClip('story', sac);
+                    return (
                     <div key={sac.id} className="relative group">
                       <CustomAudioPlayer
                         clip={{
-                          id: sac.audioClip.id,
-                          url: sac.audioClip.url,
-                          originalName: sac.audioClip.title || sac.audioClip.originalName || sac.audioClip.filename,
-                          duration: sac.audioClip.duration ?? null,
-                          mimeType: sac.audioClip.mimeType,
+                          id: clip.id,
+                          url: clip.url,
+                          originalName: clip.title || clip.originalName || clip.filename,
+                          duration: clip.duration ?? null,
+                          mimeType: clip.mimeType,
+                          waveform: clip.waveform,
                         }}
                         onError={() => toast.error('Failed to play audio file')}
                         compact
                       />
+                      {clip.trim && (
+                        <Badge color="zinc" className="absolute top-2 right-20 text-xs">Trimmed</Badge>
+                      )}
+                      <button
+                        type="button"
+                        className="absolute top-2 right-10 p-1.5 rounded-md text-zinc-600 hover:bg-zinc-100 dark:hover:bg-zinc-800 opacity-0 group-hover:opacity-100 transition-opacity"
+                        onClick={() => setTrimmingAudioId(sac.audioClip.id)}
+                        title="Trim audio clip"
+                      >
+                        <ScissorsIcon className="h-4 w-4" />
+                      </button>
                       <button
                         type="button"
                         className="absolute top-2 right-2 p-1.5 rounded-md text-red-600 hover:bg-red-50 dark:hover:bg-red-950 opacity-0 group-hover:opacity-100 transition-opacity"
@@ -623,7 +706,8 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
                         <TrashIcon className="h-4 w-4" />
                       </button>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
 
@@ -643,8 +727,10 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
                 <FileUpload
                   onFilesChange={setNewAudioFiles}
                   maxFiles={5}
-                  maxFileSize={100}
                 />
+                {uploadProgress !== null && (
+                  <Text className="mt-2 text-sm">Uploading audio... {uploadProgress}%</Text>
+                )}
               </div>
             </Card>
 
@@ -670,6 +756,32 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
               isLoading={linkAudioMutation.isPending}
             />
 
+            {/* Audio Trim Editor */}
+            {trimmingAudioId && (
+              <AudioTrimEditor
+                isOpen
+                onClose={() => setTrimmingAudioId(null)}
+                clipId={trimmingAudioId}
+                trim={usageAudioClip('story', story.audioClips!.find(sac => sac.audioClip.id === trimmingAudioId)!).trim}
+                onSave={async (trim: AudioTrimFields) => {
+                  try {
+                    await trimAudioMutation.mutateAsync({ audioClipId: trimmingAudioId, trim });
+                    // Refresh story data
+                    const response = await fetch(`/api/newsroom/stories/${storyId}`);
+                    if (response.ok) {
+                      const data = await response.json();
+                      setStory(data);
+                    }
+                    setTrimmingAudioId(null);
+                    toast.success('Trim saved');
+                  } catch (error) {
+                    toast.error(error instanceof Error ? error.message : 'Failed to save trim');
+                  }
+                }}
+                isSaving={trimAudioMutation.isPending}
+              />
+            )}
+
             {/* Form Actions - Fixed at bottom of form area */}
             <div className="flex items-center justify-between pt-4">
               <Button
@@ -696,7 +808,7 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
           {/* Workflow Card */}
           <Card className="p-6">
             <Heading level={3} className="mb-4">Workflow</Heading>
-            {story.stage && <StageProgressCard currentStage={story.stage} authorRole={story.author?.staffRole} />}
+            {story.stage && <StageProgressCard currentStage={story.stage} authorRole={story.author?.staffRole} steps={workflowState?.steps} />}
             <div className="mt-4 pt-4 border-t border-zinc-100 dark:border-zinc-800">
               <div className="flex items-center justify-between">
                 <Text className="text-sm text-zinc-500">Last modified</Text>
@@ -792,6 +904,16 @@ export function StoryEditForm({ storyId }: StoryEditFormProps) {
         storyTitle={story?.title || ''}
         isLoading={isSubmitting}
       />
+
+      {/* Concurrent Edit Conflict Dialog */}
+      <StoryEditConflictDialog
+        conflict={conflict}
+        mine={pendingSave ?? { title: '', content: '' }}
+        onReloadTheirs={handleReloadTheirs}
+        onKeepMine={handleKeepMine}
+        onClose={() => setConflict(null)}
+        isSaving={isSubmitting}
+      />
     </Container>
   );
 } 
\ No newline at end of file
@@ -1,5 +1,4 @@
-import { useState, useEffect, KeyboardEvent, Fragment } from 'react';
-import { createPortal } from 'react-dom';
+import { useState, KeyboardEvent, Fragment } from 'react';
 import { useRouter } from 'next/navigation';
 import {
   ChevronRightIcon,
@@ -8,8 +7,6 @@ import {
   EyeIcon,
 } from '@heroicons/react/24/outline';
 import { Badge } from '@/components/ui/badge';
-import { Button } from '@/components/ui/button';
-import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
 import { StageBadge } from '@/components/ui/stage-badge';
 import clsx from 'clsx';
 import type { StoryStage } from '@prisma/client';
@@ -95,17 +92,9 @@ export function StoryGroupRow({ story, index: _index = 0 }: StoryGroupRowProps)
   const router = useRouter();
   const { data: session } = useSession();
   const [isExpanded, setIsExpanded] = useState(false);
-  const [showPublishModal, setShowPublishModal] = useState(false);
-  const [isPublishing, setIsPublishing] = useState(false);
-  const [isMounted, setIsMounted] = useState(false);
   const translations = story.translations || [];
   const hasTranslations = translations.length > 0;
 
-  // Ensure portal only renders on client side to avoid hydration mismatch
-  useEffect(() => {
-    setIsMounted(true);
-  }, []);
-
   // Check if entire group is ready to publish together
   const isGroupReadyToPublish =
     story.stage === 'TRANSLATED' &&
@@ -127,38 +116,6 @@ export function StoryGroupRow({ story, index: _index = 0 }: StoryGroupRowProps)
     });
   };
 
-  // Handle group publish
-  const handlePublishGroup = async () => {
-    if (!isGroupReadyToPublish || !userCanPublish) return;
-
-    setIsPublishing(true);
-    try {
-      const response = await fetch(`/api/newsroom/stories/${story.id}/publish`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          publishImmediately: true,
-          contentReviewed: true,
-          translationsVerified: true,
-          audioQualityChecked: true,
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to publish group');
-      }
-
-      // Refresh the page to show updated status
-      window.location.reload();
-    } catch (error) {
-      console.error('Error publishing group:', error);
-      alert(error instanceof Error ? error.message : 'Failed to publish group');
-    } finally {
-      setIsPublishing(false);
-      setShowPublishModal(false);
-    }
-  };
 
   return (
     <Fragment>
@@ -267,12 +224,12 @@ export function StoryGroupRow({ story, index: _index = 0 }: StoryGroupRowProps)
             >
               <EyeIcon className="h-5 w-5" aria-hidden="true" />
             </button>
+            {/* Publishing goes through the publish page and its checklist */}
             {isGroupReadyToPublish && userCanPublish && (
               <button
                 type="button"
-                onClick={() => setShowPublishModal(true)}
+                onClick={() => router.push(`/newsroom/stories/${story.id}/publish`)}
                 className="rounded-md p-1.5 text-kelly-green hover:bg-green-50 hover:text-green-700 dark:hover:bg-green-900/20 transition-colors"
-                disabled={isPublishing}
                 aria-label={`Publish story group: ${story.title}`}
               >
                 <RocketLaunchIcon className="h-5 w-5" aria-hidden="true" />
@@ -344,70 +301,6 @@ export function StoryGroupRow({ story, index: _index = 0 }: StoryGroupRowProps)
           </tr>
         ))}
 
-      {/* Publish Group Confirmation Modal - rendered via portal */}
-      {isMounted && createPortal(
-        <Dialog open={showPublishModal} onClose={() => setShowPublishModal(false)}>
-          <div className="flex items-start gap-3">
-            <div className="flex-shrink-0">
-              <RocketLaunchIcon className="h-6 w-6 text-green-600" aria-hidden="true" />
-            </div>
-            <div className="flex-1 min-w-0">
-              <DialogTitle>Publish Story Group</DialogTitle>
-              <DialogDescription>
-                You are about to publish the following stories together:
-              </DialogDescription>
-            </div>
-          </div>
-          <DialogBody>
-            <ul className="space-y-3 mb-4">
-              <li className="flex items-start gap-2">
-                <Badge color="blue" className="text-xs mt-0.5 flex-shrink-0 whitespace-nowrap">Original</Badge>
-                <div className="flex-1 min-w-0">
-                  <div className="font-medium text-sm text-zinc-900 dark:text-zinc-100 break-words">
-                    {story.title}
-                  </div>
-                  <div className="text-xs text-zinc-500">
-                    {languageMap[story.language] || story.language}
-                  </div>
-                </div>
-              </li>
-              {translations.map((t) => (
-                <li key={t.id} className="flex items-start gap-2">
-                  <Badge color="purple" className="text-xs mt-0.5 flex-shrink-0 whitespace-nowrap">Translation</Badge>
-                  <div className="flex-1 min-w-0">
-                    <div className="font-medium text-sm text-zinc-900 dark:text-zinc-100 break-words">
-                      {t.title}
-                    </div>
-                    <div className="text-xs text-zinc-500">
-                      {languageMap[t.language] || t.language}
-                    </div>
-                  </div>
-                </li>
-              ))}
-            </ul>
-            <p className="text-sm text-zinc-600 dark:text-zinc-400">
-              All {1 + translations.length} stories will be published immediately and made available to radio stations.
-            </p>
-          </DialogBody>
-          <DialogActions>
-            <Button
-              onClick={() => setShowPublishModal(false)}
-              color="white"
-              disabled={isPublishing}
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handlePublishGroup}
-              color="primary"
-              disabled={isPublishing}
-            >
-              {isPublishing ? 'Publishing...' : 'Publish Group'}
-            </Button>
-          </DialogActions>
-        </Dialog>,
-        document.body
-      )}
     </Fragment>
   );
 }
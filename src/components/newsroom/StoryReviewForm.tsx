@@ -99,11 +99,12 @@ function getCategoryBreadcrumb(category: Category | undefined): string {
 }
 
 // Helper to map language tag names to StoryLanguage enum values
-function mapLanguageTagToStoryLanguage(languageTagName: string): 'ENGLISH' | 'AFRIKAANS' | 'XHOSA' | null {
-  const languageMap: Record<string, 'ENGLISH' | 'AFRIKAANS' | 'XHOSA'> = {
+function mapLanguageTagToStoryLanguage(languageTagName: string): 'ENGLISH' | 'AFRIKAANS' | 'XHOSA' | 'ZULU' | null {
+  const languageMap: Record<string, 'ENGLISH' | 'AFRIKAANS' | 'XHOSA' | 'ZULU'> = {
     'English': 'ENGLISH',
     'Afrikaans': 'AFRIKAANS',
     'Xhosa': 'XHOSA',
+    'Zulu': 'ZULU',
   };
   return languageMap[languageTagName] || null;
 }
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { ClockIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import type { StoryVersionChangeType } from '@prisma/client';
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select } from '@/components/ui/select';
+import { StageBadge } from '@/components/ui/stage-badge';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import { DiffText } from '@/components/ui/diff-text';
+import {
+  useStoryVersions,
+  useStoryVersionComparison,
+  useRestoreStoryVersion,
+} from '@/hooks/use-story-versions';
+import type { StoryVersionSummary } from '@/hooks/use-story-versions';
+
+const CHANGE_LABELS: Record<StoryVersionChangeType, string> = {
+  INITIAL: 'Original',
+  EDIT: 'Edited',
+  STAGE_CHANGE: 'Stage change',
+  RESTORE: 'Restored',
+};
+
+interface StoryVersionHistoryProps {
+  storyId: string;
+  canRestore: boolean;
+}
+
+function versionLabel(version: StoryVersionSummary) {
+  return `v${version.versionNumber} · ${format(new Date(version.createdAt), 'MMM d, h:mm a')}`;
+}
+
+export function StoryVersionHistory({ storyId, canRestore }: StoryVersionHistoryProps) {
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<StoryVersionSummary | null>(null);
+
+  const { data, isLoading } = useStoryVersions(storyId);
+  const versions = data?.versions || [];
+  const latest = versions[0];
+
+  // Default comparison: selected version against the latest one
+  const effectiveToId = toId ?? latest?.id ?? null;
+  const { data: comparison, isLoading: isComparing } = useStoryVersionComparison(storyId, fromId, effectiveToId);
+
+  const restoreMutation = useRestoreStoryVersion(storyId);
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+    try {
+      await restoreMutation.mutateAsync(restoreTarget.id);
+      toast.success(`Restored version ${restoreTarget.versionNumber}`);
+      setRestoreTarget(null);
+      setFromId(null);
+      setToId(null);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore version');
+    }
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ClockIcon className="h-5 w-5 text-zinc-500" />
+        <Heading level={3}>Revision History</Heading>
+      </div>
+
+      {versions.length === 0 ? (
+        <Text className="text-sm text-zinc-500">
+          No earlier versions yet. A version is saved each time the story is edited or changes stage.
+        </Text>
+      ) : (
+        <div className="space-y-4">
+          <ul className="divide-y divide-zinc-100 border border-zinc-200 rounded-md">
+            {versions.map((version) => {
+              const isSelected = version.id === fromId;
+              const isLatest = version.id === latest?.id;
+
+              return (
+                <li
+                  key={version.id}
+                  className={`flex items-center justify-between gap-3 px-3 py-2 ${isSelected ? 'bg-kelly-green/5' : ''}`}
+                >
+                  <button
+                    type="button"
+                    className="flex-1 min-w-0 text-left"
+                    onClick={() => setFromId(isSelected ? null : version.id)}
+                  >
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <Text className="font-medium text-zinc-900">v{version.versionNumber}</Text>
+                      <Badge color={version.changeType === 'RESTORE' ? 'amber' : 'zinc'}>
+                        {CHANGE_LABELS[version.changeType]}
+                        {version.restoredFromVersion ? ` from v${version.restoredFromVersion}` : ''}
+                      </Badge>
+                      {version.stage && <StageBadge stage={version.stage} />}
+                      {isLatest && <Badge color="green">Current</Badge>}
+                    </div>
+                    <Text className="text-xs text-zinc-500 mt-0.5">
+                      {version.changedBy.firstName} {version.changedBy.lastName} ·{' '}
+                      {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+                    </Text>
+                  </button>
+                  {canRestore && !isLatest && (
+                    <Button outline onClick={() => setRestoreTarget(version)} title="Restore this version">
+                      <ArrowUturnLeftIcon className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          {fromId && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm text-zinc-700">
+                <span>Comparing</span>
+                <Select
+                  value={fromId}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFromId(e.target.value)}
+                >
+                  {versions.map((v) => (
+                    <option key={v.id} value={v.id}>{versionLabel(v)}</option>
+                  ))}
+                </Select>
+                <span>with</span>
+                <Select
+                  value={effectiveToId ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setToId(e.target.value)}
+                >
+                  {versions.map((v) => (
+                    <option key={v.id} value={v.id}>{versionLabel(v)}</option>
+                  ))}
+                </Select>
+              </div>
+
+              {fromId === effectiveToId ? (
+                <Text className="text-sm text-zinc-500">Select two different versions to compare.</Text>
+              ) : isComparing || !comparison ? (
+                <Text className="text-sm text-zinc-500">Loading changes...</Text>
+              ) : (
+                <div className="space-y-4 rounded-md border border-zinc-200 p-4">
+                  {!comparison.changes.title && !comparison.changes.content && !comparison.changes.stage && (
+                    <Text className="text-sm text-zinc-500">No differences between these versions.</Text>
+                  )}
+                  {comparison.changes.stage && (
+                    <div className="flex items-center gap-2">
+                      <Text className="text-sm font-medium text-zinc-700">Stage:</Text>
+                      {comparison.changes.stage.from ? <StageBadge stage={comparison.changes.stage.from} /> : <span>—</span>}
+                      <span className="text-zinc-400">→</span>
+                      {comparison.changes.stage.to ? <StageBadge stage={comparison.changes.stage.to} /> : <span>—</span>}
+                    </div>
+                  )}
+                  {comparison.changes.title && (
+                    <div>
+                      <Text className="text-sm font-medium text-zinc-700 mb-1">Title</Text>
+                      <DiffText segments={comparison.changes.title} />
+                    </div>
+                  )}
+                  {comparison.changes.content && (
+                    <div>
+                      <Text className="text-sm font-medium text-zinc-700 mb-1">Content</Text>
+                      <DiffText segments={comparison.changes.content} />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={!!restoreTarget}
+        onClose={() => setRestoreTarget(null)}
+        onConfirm={handleRestore}
+        title={`Restore version ${restoreTarget?.versionNumber}?`}
+        description="The story's title and content will be replaced with this version. The current text stays in the history and can be restored again."
+        confirmLabel="Restore"
+        variant="warning"
+        isPending={restoreMutation.isPending}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+
+import toast from 'react-hot-toast';
+import { BookOpenIcon, ClipboardDocumentIcon, CircleStackIcon } from '@heroicons/react/24/outline';
+
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useTranslationMemory } from '@/hooks/use-translation-memory';
+import type { GlossaryEntry } from '@/lib/glossary';
+
+interface TranslationAidsProps {
+  storyId: string;
+  // Glossary entries for the target language that appear in the original story
+  glossaryMatches: GlossaryEntry[];
+}
+
+async function copyToClipboard(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success('Copied to clipboard');
+  } catch {
+    toast.error('Failed to copy');
+  }
+}
+
+export function TranslationAids({ storyId, glossaryMatches }: TranslationAidsProps) {
+  const { data, isLoading } = useTranslationMemory(storyId);
+  const segments = (data?.segments || []).filter(segment => segment.suggestions.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <BookOpenIcon className="h-5 w-5 text-zinc-600" />
+          <Heading level={4}>Glossary</Heading>
+          {glossaryMatches.length > 0 && <Badge color="amber">{glossaryMatches.length}</Badge>}
+        </div>
+        {glossaryMatches.length === 0 ? (
+          <Text className="text-sm text-zinc-500">No glossary terms appear in this story.</Text>
+        ) : (
+          <ul className="divide-y divide-zinc-100 text-sm">
+            {glossaryMatches.map((entry) => (
+              <li key={entry.term} className="py-2 flex items-start justify-between gap-3">
+                <div>
+                  <span className="text-zinc-500">{entry.term}</span>
+                  <span className="text-zinc-400 mx-2">→</span>
+                  <span className="font-medium text-zinc-900">{entry.translation}</span>
+                  {entry.notes && <Text className="text-xs text-zinc-500 mt-0.5">{entry.notes}</Text>}
+                </div>
+                <Button plain onClick={() => copyToClipboard(entry.translation)} title="Copy translation">
+                  <ClipboardDocumentIcon className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex items-center gap-2 mb-4">
+          <CircleStackIcon className="h-5 w-5 text-zinc-600" />
+          <Heading level={4}>Translation Memory</Heading>
+          {segments.length > 0 && <Badge color="blue">{segments.length}</Badge>}
+        </div>
+        {isLoading ? (
+          <Text className="text-sm text-zinc-500">Looking up earlier translations...</Text>
+        ) : segments.length === 0 ? (
+          <Text className="text-sm text-zinc-500">
+            No earlier translations match paragraphs in this story.
+          </Text>
+        ) : (
+          <div className="space-y-4">
+            {segments.map((segment) => (
+              <div key={segment.position} className="border border-zinc-200 rounded-lg p-3">
+                <Text className="text-xs text-zinc-500 mb-2">
+                  Paragraph {segment.position + 1}: {segment.sourceText}
+                </Text>
+                <ul className="space-y-2">
+                  {segment.suggestions.map((suggestion, index) => (
+                    <li key={index} className="flex items-start justify-between gap-3 bg-zinc-50 rounded-md p-2">
+                      <div className="text-sm text-zinc-900">
+                        <Badge color={suggestion.score === 1 ? 'green' : 'zinc'} className="mr-2">
+                          {Math.round(suggestion.score * 100)}%
+                        </Badge>
+                        {suggestion.targetText}
+                        {suggestion.score < 1 && (
+                          <Text className="text-xs text-zinc-500 mt-1">Translated from: {suggestion.sourceText}</Text>
+                        )}
+                      </div>
+                      <Button plain onClick={() => copyToClipboard(suggestion.targetText)} title="Copy translation">
+                        <ClipboardDocumentIcon className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ import {
 } from '@heroicons/react/24/outline';
 import { StoryStage, StaffRole } from '@prisma/client';
 import clsx from 'clsx';
+import { Badge } from '@/components/ui/badge';
+import { DEFAULT_WORKFLOW, STAGE_LABELS, getWorkflowSteps } from '@/lib/workflow';
 
 interface StageAction {
   action: string;
@@ -26,6 +28,7 @@ interface WorkflowBarProps {
   storyId: string;
   stage: StoryStage;
   authorRole?: StaffRole | null;
+  workflowName?: string;
   assignedReviewer?: { firstName: string; lastName: string } | null;
   assignedApprover?: { firstName: string; lastName: string } | null;
   nextAction: StageAction | null;
@@ -46,32 +49,20 @@ interface WorkflowBarProps {
 // Badge-style stage progress - exported for use in sidebar
 export function StageProgressCard({
   currentStage,
-  authorRole
+  authorRole,
+  steps,
 }: {
   currentStage: StoryStage;
   authorRole?: StaffRole | null;
+  // Stages from the story's workflow; falls back to the built-in workflow
+  steps?: StoryStage[];
 }) {
-  const getWorkflowSteps = () => {
-    const baseSteps = [
-      { stage: 'DRAFT' as StoryStage, label: 'Draft', shortLabel: 'D' },
-    ];
-
-    if (authorRole === 'INTERN') {
-      baseSteps.push({ stage: 'NEEDS_JOURNALIST_REVIEW' as StoryStage, label: 'Review', shortLabel: 'R' });
-    }
-
-    baseSteps.push(
-      { stage: 'NEEDS_SUB_EDITOR_APPROVAL' as StoryStage, label: 'Approval', shortLabel: 'A' },
-      { stage: 'TRANSLATED' as StoryStage, label: 'Translated', shortLabel: 'T' },
-      { stage: 'PUBLISHED' as StoryStage, label: 'Published', shortLabel: 'P' },
-    );
-
-    return baseSteps;
-  };
-
-  const steps = getWorkflowSteps();
-  const displayStage = currentStage === 'APPROVED' ? 'TRANSLATED' : currentStage;
-  const currentStepIndex = steps.findIndex(step => step.stage === displayStage);
+  const workflowSteps = (steps ?? getWorkflowSteps(DEFAULT_WORKFLOW, authorRole ?? null)).map(stage => ({
+    stage,
+    label: STAGE_LABELS[stage],
+    shortLabel: STAGE_LABELS[stage].charAt(0),
+  }));
+  const currentStepIndex = workflowSteps.findIndex(step => step.stage === currentStage);
 
   const getStepStatus = (stepIndex: number): 'completed' | 'current' | 'upcoming' => {
     if (stepIndex < currentStepIndex) return 'completed';
@@ -81,9 +72,9 @@ export function StageProgressCard({
 
   return (
     <div className="flex items-center flex-wrap gap-1">
-      {steps.map((step, index) => {
+      {workflowSteps.map((step, index) => {
         const status = getStepStatus(index);
-        const isLast = index === steps.length - 1;
+        const isLast = index === workflowSteps.length - 1;
 
         return (
           <div key={step.stage} className="flex items-center">
@@ -121,6 +112,7 @@ export function StageProgressCard({
 }
 
 export function WorkflowBar({
+  workflowName,
   nextAction,
   showRevisionButton,
   showMarkReadyToPublish,
@@ -141,14 +133,21 @@ export function WorkflowBar({
     <div className="sticky top-0 z-20 bg-white/95 backdrop-blur border-b border-zinc-200 -mx-4 px-4 sm:-mx-6 sm:px-6 lg:-mx-8 lg:px-8 py-3 mb-6">
       <div className="flex items-center justify-between gap-3">
         {/* Left: Navigation */}
-        <Button
-          color="white"
-          onClick={() => router.push('/newsroom/stories')}
-          className="flex-shrink-0"
-        >
-          <ArrowLeftIcon className="h-4 w-4 sm:mr-2" />
-          <span className="hidden sm:inline">Stories</span>
-        </Button>
+        <div className="flex items-center gap-3 min-w-0">
+          <Button
+            color="white"
+            onClick={() => router.push('/newsroom/stories')}
+            className="flex-shrink-0"
+          >
+            <ArrowLeftIcon className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">Stories</span>
+          </Button>
+          {workflowName && (
+            <Badge color="zinc" className="hidden md:inline-flex truncate">
+              {workflowName} workflow
+            </Badge>
+          )}
+        </div>
 
         {/* Right: Workflow Actions */}
         <div className="flex items-center gap-2 flex-shrink-0">
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import dynamic from 'next/dynamic';
+import toast from 'react-hot-toast';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox, CheckboxField } from '@/components/ui/checkbox';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { useIssueBulletinCorrection } from '@/hooks/use-bulletin-corrections';
+import type { BulletinCorrectionData } from '@/hooks/use-bulletin-corrections';
+import { usePronunciationEditor } from '@/hooks/use-pronunciations';
+
+// Dynamically import RichTextEditor to reduce initial bundle size
+const RichTextEditor = dynamic(
+  () => import('@/components/ui/rich-text-editor').then(mod => ({ default: mod.RichTextEditor })),
+  {
+    loading: () => <div className="border border-zinc-300 rounded-lg p-4 min-h-[120px] animate-pulse bg-zinc-50">Loading editor...</div>,
+    ssr: false
+  }
+);
+
+interface BulletinCorrectionModalProps {
+  open: boolean;
+  onClose: () => void;
+  bulletin: {
+    id: string;
+    title: string;
+    intro: string;
+    outro: string;
+    bulletinStories?: Array<{ order: number; story?: { id: string; title: string } }>;
+  };
+}
+
+export function BulletinCorrectionModal({ open, onClose, bulletin }: BulletinCorrectionModalProps) {
+  const pronunciationEditor = usePronunciationEditor();
+  const [title, setTitle] = useState('');
+  const [intro, setIntro] = useState('');
+  const [outro, setOutro] = useState('');
+  const [keptStoryIds, setKeptStoryIds] = useState<string[]>([]);
+  const [correctionNote, setCorrectionNote] = useState('');
+  const [error, setError] = useState('');
+
+  const correctionMutation = useIssueBulletinCorrection(bulletin.id);
+
+  const stories = [...(bulletin.bulletinStories ?? [])]
+    .sort((a, b) => a.order - b.order)
+    .flatMap(bs => (bs.story ? [bs.story] : []));
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(bulletin.title);
+    setIntro(bulletin.intro);
+    setOutro(bulletin.outro);
+    setKeptStoryIds((bulletin.bulletinStories ?? []).flatMap(bs => (bs.story ? [bs.story.id] : [])));
+    setCorrectionNote('');
+    setError('');
+  }, [open, bulletin]);
+
+  const toggleStory = (storyId: string, keep: boolean) => {
+    setKeptStoryIds(ids => (keep ? [...ids, storyId] : ids.filter(id => id !== storyId)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!correctionNote.trim()) {
+      setError('Explain what was corrected for the stations');
+      return;
+    }
+    if (keptStoryIds.length === 0) {
+      setError('A bulletin needs at least one story');
+      return;
+    }
+
+    const data: BulletinCorrectionData = { correctionNote: correctionNote.trim() };
+    if (title.trim() !== bulletin.title) data.title = title.trim();
+    if (intro !== bulletin.intro) data.intro = intro;
+    if (outro !== bulletin.outro) data.outro = outro;
+    if (keptStoryIds.length !== stories.length) {
+      data.storyIds = stories.map(story => story.id).filter(id => keptStoryIds.includes(id));
+    }
+
+    try {
+      const result = await correctionMutation.mutateAsync(data);
+      toast.success(
+        result.stationsNotified > 0
+          ? `Correction issued. ${result.stationsNotified} station${result.stationsNotified === 1 ? '' : 's'} notified.`
+          : 'Correction issued'
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="3xl">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Issue Correction</DialogTitle>
+        <DialogDescription>
+          The corrected bulletin replaces the published one. Stations see the correction note and what changed,
+          and stations that already opened this bulletin are notified by email. Correct story text in the story
+          itself before issuing the correction.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Correction note *</Label>
+              <Description>Shown to stations with the corrected bulletin.</Description>
+              <Textarea
+                value={correctionNote}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setCorrectionNote(e.target.value)}
+                placeholder="e.g. An earlier version misstated the number of households affected."
+                rows={3}
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Title</Label>
+              <Input
+                value={title}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTitle(e.target.value)}
+                required
+              />
+            </Field>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 mb-2">Intro</label>
+              <RichTextEditor {...pronunciationEditor} content={intro} onChange={setIntro} className="min-h-24" />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 mb-2">Stories</label>
+              <div className="space-y-2">
+                {stories.map((story, index) => (
+                  <CheckboxField key={story.id}>
+                    <Checkbox
+                      checked={keptStoryIds.includes(story.id)}
+                      onChange={(checked: boolean) => toggleStory(story.id, checked)}
+                    />
+                    <Label>{index + 1}. {story.title}</Label>
+                  </CheckboxField>
+                ))}
+              </div>
+              <Text className="text-xs text-zinc-500 mt-1">Untick a story to drop it from the bulletin.</Text>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 mb-2">Outro</label>
+              <RichTextEditor {...pronunciationEditor} content={outro} onChange={setOutro} className="min-h-24" />
+            </div>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" color="white" onClick={onClose} disabled={correctionMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={correctionMutation.isPending}>
+            {correctionMutation.isPending ? 'Issuing...' : 'Issue Correction'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
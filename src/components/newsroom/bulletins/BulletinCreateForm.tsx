@@ -16,6 +16,7 @@ import { StorySelector } from '@/components/newsroom/bulletins/StorySelector';
 import { StoryList } from '@/components/newsroom/bulletins/StoryList';
 import { BulletinPreview } from '@/components/newsroom/bulletins/BulletinPreview';
 import { StoryQuickEditModal } from '@/components/newsroom/bulletins/StoryQuickEditModal';
+import type { BulletinSchedule } from '@/components/newsroom/bulletins/BulletinScheduleManager';
 import { Heading } from '@/components/ui/heading';
 import { Text } from '@/components/ui/text';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
@@ -29,6 +30,7 @@ import {
   SpeakerWaveIcon,
   PencilSquareIcon,
 } from '@heroicons/react/24/outline';
+import { usePronunciationEditor } from '@/hooks/use-pronunciations';
 
 // Dynamically import RichTextEditor to reduce initial bundle size
 const RichTextEditor = dynamic(
@@ -75,6 +77,13 @@ interface SelectedStory {
   }>;
 }
 
+interface SchedulesResponse {
+  schedules: BulletinSchedule[];
+  date: string;
+  scheduleType: BulletinSchedule['scheduleType'];
+  holiday: string | null;
+}
+
 interface BulletinCreateFormProps {
   onSuccess: (bulletin: any) => void;
   onCancel: () => void;
@@ -89,10 +98,11 @@ const steps = [
 ];
 
 export function BulletinCreateForm({ onSuccess, onCancel }: BulletinCreateFormProps) {
+  const pronunciationEditor = usePronunciationEditor();
   const [selectedStories, setSelectedStories] = useState<SelectedStory[]>([]);
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [selectedSchedule, setSelectedSchedule] = useState<any>(null);
+  const [selectedSchedule, setSelectedSchedule] = useState<BulletinSchedule | null>(null);
   const [editingStory, setEditingStory] = useState<SelectedStory | null>(null);
 
   const {
@@ -117,27 +127,30 @@ export function BulletinCreateForm({ onSuccess, onCancel }: BulletinCreateFormPr
   const watchedIntro = watch('intro');
   const watchedOutro = watch('outro');
 
-  // Fetch all active schedules
+  // Fetch the active schedules running on the chosen date (weekday, weekend or public holiday)
   const { data: schedulesData } = useQuery({
-    queryKey: ['bulletin-schedules'],
-    queryFn: async () => {
-      const response = await fetch(`/api/newsroom/bulletins/schedules?active=true`);
+    queryKey: ['bulletin-schedules', watchedScheduledDate],
+    queryFn: async (): Promise<SchedulesResponse> => {
+      const params = new URLSearchParams({ active: 'true', date: watchedScheduledDate });
+      const response = await fetch(`/api/newsroom/bulletins/schedules?${params}`);
       if (!response.ok) throw new Error('Failed to fetch schedules');
       return response.json();
     },
+    enabled: !!watchedScheduledDate,
   });
 
   const schedules = useMemo(() => schedulesData?.schedules || [], [schedulesData?.schedules]);
 
-  // Update selected schedule when schedule ID changes
+  // Update selected schedule when schedule ID changes, dropping it if the new date runs other slots
   useEffect(() => {
     if (watchedScheduleId) {
-      const schedule = schedules.find((s: any) => s.id === watchedScheduleId);
-      setSelectedSchedule(schedule);
+      const schedule = schedules.find((s) => s.id === watchedScheduleId);
+      setSelectedSchedule(schedule || null);
+      if (!schedule && schedulesData) setValue('scheduleId', '');
     } else {
       setSelectedSchedule(null);
     }
-  }, [watchedScheduleId, schedules]);
+  }, [watchedScheduleId, schedules, schedulesData, setValue]);
 
   // Clear stories when language changes (schedule change)
   useEffect(() => {
@@ -368,36 +381,11 @@ export function BulletinCreateForm({ onSuccess, onCancel }: BulletinCreateFormPr
                 Select Schedule & Date
               </Heading>
               <Text className="text-zinc-600">
-                Choose the bulletin schedule and the date for this bulletin.
+                Choose the date, then one of the schedule slots that runs on that day.
               </Text>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <label className="block text-sm font-medium text-zinc-700 mb-2">
-                  Bulletin Schedule *
-                </label>
-                <Select
-                  {...register('scheduleId')}
-                  data-invalid={!!errors.scheduleId}
-                >
-                  <option value="">Select a bulletin schedule...</option>
-                  {schedules.map((schedule: any) => (
-                    <option key={schedule.id} value={schedule.id}>
-                      {schedule.title} - {schedule.language} (on-air {schedule.time}) - {schedule.scheduleType.replace('_', ' ')}
-                    </option>
-                  ))}
-                </Select>
-                {errors.scheduleId && (
-                  <p className="text-red-600 text-sm mt-1">{errors.scheduleId.message}</p>
-                )}
-                {schedules.length === 0 && (
-                  <Text className="text-sm text-amber-600 mt-1">
-                    No active schedules found. Please create a schedule first.
-                  </Text>
-                )}
-              </div>
-
               <div>
                 <label className="block text-sm font-medium text-zinc-700 mb-2">
                   Bulletin Date *
@@ -430,6 +418,41 @@ export function BulletinCreateForm({ onSuccess, onCancel }: BulletinCreateFormPr
                   </div>
                 )}
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-zinc-700 mb-2">
+                  Bulletin Schedule *
+                </label>
+                <Select
+                  {...register('scheduleId')}
+                  data-invalid={!!errors.scheduleId}
+                  disabled={!watchedScheduledDate}
+                >
+                  <option value="">
+                    {watchedScheduledDate ? 'Select a bulletin schedule...' : 'Choose a date first...'}
+                  </option>
+                  {schedules.map((schedule) => (
+                    <option key={schedule.id} value={schedule.id}>
+                      {schedule.title} - {schedule.language} (on-air {schedule.time}) - {schedule.scheduleType.replace('_', ' ')}
+                    </option>
+                  ))}
+                </Select>
+                {errors.scheduleId && (
+                  <p className="text-red-600 text-sm mt-1">{errors.scheduleId.message}</p>
+                )}
+                {schedulesData && (
+                  <Text className="text-xs text-zinc-500 mt-1">
+                    {schedulesData.holiday
+                      ? `${schedulesData.holiday} is a public holiday, so public holiday slots are shown.`
+                      : `Showing ${schedulesData.scheduleType.toLowerCase()} slots for this date.`}
+                  </Text>
+                )}
+                {schedulesData && schedules.length === 0 && (
+                  <Text className="text-sm text-amber-600 mt-1">
+                    No active {schedulesData.scheduleType.replace('_', ' ').toLowerCase()} schedules found. Please create a schedule first.
+                  </Text>
+                )}
+              </div>
             </div>
 
             {selectedSchedule && (
@@ -602,6 +625,7 @@ export function BulletinCreateForm({ onSuccess, onCancel }: BulletinCreateFormPr
                 This text will appear at the beginning of the bulletin before any stories.
               </Text>
               <RichTextEditor
+                {...pronunciationEditor}
                 content={watchedIntro}
                 onChange={(content) => setValue('intro', content)}
                 placeholder="Write the introduction for your bulletin..."
@@ -687,6 +711,7 @@ export function BulletinCreateForm({ onSuccess, onCancel }: BulletinCreateFormPr
                 This text will appear at the end of the bulletin after all stories.
               </Text>
               <RichTextEditor
+                {...pronunciationEditor}
                 content={watchedOutro}
                 onChange={(content) => setValue('outro', content)}
                 placeholder="Write the outro for your bulletin..."
@@ -751,6 +776,7 @@ export function BulletinCreateForm({ onSuccess, onCancel }: BulletinCreateFormPr
               })()}
               scheduleTitle={selectedSchedule?.title}
               scheduleTime={selectedSchedule?.time}
+              targetDuration={selectedSchedule?.targetDuration}
             />
 
             {/* Navigation */}
@@ -0,0 +1,62 @@
+'use client';
+
+import { ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { Text } from '@/components/ui/text';
+import { useReadingSpeeds } from '@/hooks/use-reading-speeds';
+import {
+  DEFAULT_READING_SPEEDS,
+  estimateBulletinDuration,
+  formatDuration,
+  type BulletinDurationInput,
+} from '@/lib/bulletin-duration';
+import type { StoryLanguage } from '@prisma/client';
+
+interface BulletinDurationProps extends BulletinDurationInput {
+  language: string;
+  // Schedule's target on-air length in seconds
+  targetSeconds?: number | null;
+  className?: string;
+}
+
+/**
+ * Live estimate of a bulletin's on-air length (read copy plus audio clips),
+ * compared with the schedule's target length when it has one.
+ */
+export function BulletinDuration({ language, targetSeconds, className = '', ...bulletin }: BulletinDurationProps) {
+  const { data } = useReadingSpeeds();
+  const speeds = data?.speeds ?? DEFAULT_READING_SPEEDS;
+  const wordsPerMinute = speeds[language.toUpperCase() as StoryLanguage] ?? DEFAULT_READING_SPEEDS.ENGLISH;
+
+  const estimate = estimateBulletinDuration(bulletin, wordsPerMinute);
+  const overrun = targetSeconds ? estimate.totalSeconds - targetSeconds : 0;
+
+  const tone = !targetSeconds
+    ? 'border-zinc-200 bg-white'
+    : overrun > 0
+    ? 'border-red-300 bg-red-50'
+    : 'border-green-300 bg-green-50';
+
+  return (
+    <div className={`rounded-md border p-3 ${tone} ${className}`}>
+      <div className="flex items-center gap-2">
+        <ClockIcon className="h-4 w-4 text-zinc-500" />
+        <Text className="text-sm font-medium text-zinc-900">
+          Estimated on-air: {formatDuration(estimate.totalSeconds)}
+          {targetSeconds ? ` of ${formatDuration(targetSeconds)}` : ''}
+        </Text>
+      </div>
+      <Text className="text-xs text-zinc-500 mt-1">
+        {estimate.wordCount} words read at {wordsPerMinute} wpm ({formatDuration(estimate.readSeconds)})
+        {estimate.audioSeconds > 0 ? ` + ${formatDuration(estimate.audioSeconds)} audio` : ''}
+      </Text>
+      {overrun > 0 && (
+        <div className="flex items-center gap-1 mt-2 text-red-700">
+          <ExclamationTriangleIcon className="h-4 w-4" />
+          <Text className="text-xs font-medium text-red-700">
+            Runs {formatDuration(overrun)} over the slot. Trim copy or drop a story.
+          </Text>
+        </div>
+      )}
+    </div>
+  );
+}
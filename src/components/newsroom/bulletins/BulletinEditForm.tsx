@@ -14,9 +14,11 @@ import { Badge } from '@/components/ui/badge';
 import { StorySelector } from '@/components/newsroom/bulletins/StorySelector';
 import { StoryList } from '@/components/newsroom/bulletins/StoryList';
 import { BulletinPreview } from '@/components/newsroom/bulletins/BulletinPreview';
+import { BulletinDuration } from '@/components/newsroom/bulletins/BulletinDuration';
 import { StoryQuickEditModal } from '@/components/newsroom/bulletins/StoryQuickEditModal';
 import { Heading } from '@/components/ui/heading';
 import { Text } from '@/components/ui/text';
+import { usePronunciationEditor } from '@/hooks/use-pronunciations';
 
 // Dynamically import RichTextEditor to reduce initial bundle size
 const RichTextEditor = dynamic(
@@ -71,6 +73,7 @@ interface BulletinEditFormProps {
 
 export function BulletinEditForm({ bulletin, onSuccess, onCancel }: BulletinEditFormProps) {
   const queryClient = useQueryClient();
+  const pronunciationEditor = usePronunciationEditor();
   const [selectedStories, setSelectedStories] = useState<SelectedStory[]>([]);
   const [activeTab, setActiveTab] = useState<'stories' | 'form' | 'preview'>('stories');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -289,6 +292,17 @@ export function BulletinEditForm({ bulletin, onSuccess, onCancel }: BulletinEdit
         </nav>
       </Card>
 
+      {/* Live on-air estimate (the preview tab shows its own) */}
+      {activeTab !== 'preview' && (
+        <BulletinDuration
+          intro={watch('intro')}
+          outro={watch('outro')}
+          stories={selectedStories}
+          language={selectedSchedule?.language || bulletin.language}
+          targetSeconds={selectedSchedule?.targetDuration}
+        />
+      )}
+
       {/* Stories Tab (Step 1) */}
       {activeTab === 'stories' && (
         <div className="space-y-6">
@@ -427,6 +441,7 @@ export function BulletinEditForm({ bulletin, onSuccess, onCancel }: BulletinEdit
                 Introduction *
               </label>
               <RichTextEditor
+                {...pronunciationEditor}
                 content={watch('intro')}
                 onChange={(content) => setValue('intro', content)}
                 placeholder="Write the introduction for your bulletin..."
@@ -442,6 +457,7 @@ export function BulletinEditForm({ bulletin, onSuccess, onCancel }: BulletinEdit
                 Outro *
               </label>
               <RichTextEditor
+                {...pronunciationEditor}
                 content={watch('outro')}
                 onChange={(content) => setValue('outro', content)}
                 placeholder="Write the outro for your bulletin..."
@@ -516,6 +532,7 @@ export function BulletinEditForm({ bulletin, onSuccess, onCancel }: BulletinEdit
             })()}
             scheduleTitle={selectedSchedule?.title}
             scheduleTime={selectedSchedule?.time}
+            targetDuration={selectedSchedule?.targetDuration}
           />
         </Card>
       )}
@@ -13,6 +13,7 @@ import {
 } from '@heroicons/react/24/outline';
 import { formatDateTimeFull } from '@/lib/format';
 import { getLanguageColor } from '@/lib/color-system';
+import { BulletinDuration } from '@/components/newsroom/bulletins/BulletinDuration';
 
 interface Story {
   id: string;
@@ -51,6 +52,8 @@ interface BulletinPreviewProps {
   scheduledFor?: string;
   scheduleTitle?: string;
   scheduleTime?: string;
+  // Schedule's target on-air length in seconds
+  targetDuration?: number | null;
 }
 
 export function BulletinPreview({
@@ -62,6 +65,7 @@ export function BulletinPreview({
   scheduledFor,
   scheduleTitle,
   scheduleTime,
+  targetDuration,
 }: BulletinPreviewProps) {
   return (
     <div className="space-y-6">
@@ -104,6 +108,14 @@ export function BulletinPreview({
             )}
           </div>
         )}
+
+        <BulletinDuration
+          intro={intro}
+          outro={outro}
+          stories={stories}
+          language={language}
+          targetSeconds={targetDuration}
+        />
       </Card>
 
       {/* Bulletin Content Preview */}
@@ -17,17 +17,22 @@ const scheduleSchema = z.object({
   language: z.enum(['ENGLISH', 'AFRIKAANS', 'XHOSA', 'ZULU']),
   scheduleType: z.enum(['WEEKDAY', 'WEEKEND', 'PUBLIC_HOLIDAY']),
   isActive: z.boolean(),
+  targetMinutes: z.string().regex(/^(\d+(\.\d+)?)?$/, 'Enter a length in minutes, e.g. 3 or 2.5'),
 });
 
 type ScheduleFormData = z.infer<typeof scheduleSchema>;
 
-interface BulletinSchedule {
+type SchedulePayload = Omit<ScheduleFormData, 'targetMinutes'> & { targetDuration: number | null };
+
+export interface BulletinSchedule {
   id: string;
   title: string;
   time: string;
   language: 'ENGLISH' | 'AFRIKAANS' | 'XHOSA' | 'ZULU';
   scheduleType: 'WEEKDAY' | 'WEEKEND' | 'PUBLIC_HOLIDAY';
   isActive: boolean;
+  targetDuration: number | null;
+  creator?: { firstName: string; lastName: string } | null;
 }
 
 interface BulletinScheduleManagerProps {
@@ -79,19 +84,21 @@ export function BulletinScheduleManager({
       language: schedule.language,
       scheduleType: schedule.scheduleType,
       isActive: schedule.isActive,
+      targetMinutes: schedule.targetDuration ? String(schedule.targetDuration / 60) : '',
     } : {
       title: '',
       time: '',
       language: 'ENGLISH',
       scheduleType: defaultType,
       isActive: true,
+      targetMinutes: '',
     },
   });
 
   const watchedTime = watch('time');
 
   const createMutation = useMutation({
-    mutationFn: async (data: ScheduleFormData) => {
+    mutationFn: async (data: SchedulePayload) => {
       const response = await fetch('/api/newsroom/bulletins/schedules', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -106,7 +113,7 @@ export function BulletinScheduleManager({
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: ScheduleFormData) => {
+    mutationFn: async (data: SchedulePayload) => {
       const response = await fetch(`/api/newsroom/bulletins/schedules/${schedule!.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
@@ -118,13 +125,18 @@ export function BulletinScheduleManager({
     },
   });
 
-  const onSubmit = async (data: ScheduleFormData) => {
+  const onSubmit = async ({ targetMinutes, ...data }: ScheduleFormData) => {
+    const payload: SchedulePayload = {
+      ...data,
+      targetDuration: targetMinutes ? Math.round(Number(targetMinutes) * 60) || null : null,
+    };
+
     try {
       setIsSubmitting(true);
       if (schedule) {
-        await updateMutation.mutateAsync(data);
+        await updateMutation.mutateAsync(payload);
       } else {
-        await createMutation.mutateAsync(data);
+        await createMutation.mutateAsync(payload);
       }
       onSuccess();
     } catch (error) {
@@ -243,6 +255,26 @@ export function BulletinScheduleManager({
               )}
             </div>
 
+            {/* Target Length */}
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 mb-1">
+                Target Length (minutes)
+              </label>
+              <Input
+                {...register('targetMinutes')}
+                inputMode="decimal"
+                placeholder="e.g., 3"
+                data-invalid={!!errors.targetMinutes}
+              />
+              {errors.targetMinutes ? (
+                <p className="text-red-600 text-sm mt-1">{errors.targetMinutes.message}</p>
+              ) : (
+                <p className="text-xs text-zinc-500 mt-1">
+                  Editors are warned when a bulletin&apos;s estimated on-air time runs over this.
+                </p>
+              )}
+            </div>
+
             {/* Active Status */}
             <div className="flex items-center">
               <input
@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { useReadingSpeeds, useUpdateReadingSpeeds } from '@/hooks/use-reading-speeds';
+import type { ReadingSpeeds } from '@/lib/bulletin-duration';
+
+const LANGUAGES: Array<{ code: keyof ReadingSpeeds; label: string }> = [
+  { code: 'ENGLISH', label: 'English' },
+  { code: 'AFRIKAANS', label: 'Afrikaans' },
+  { code: 'XHOSA', label: 'Xhosa' },
+  { code: 'ZULU', label: 'Zulu' },
+];
+
+interface ReadingSpeedSettingsProps {
+  canEdit: boolean;
+}
+
+/**
+ * Newsreader words per minute per language, used to estimate how long a
+ * bulletin runs on air.
+ */
+export function ReadingSpeedSettings({ canEdit }: ReadingSpeedSettingsProps) {
+  const { data } = useReadingSpeeds();
+  const updateMutation = useUpdateReadingSpeeds();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!data?.speeds) return;
+    setValues(Object.fromEntries(Object.entries(data.speeds).map(([code, wpm]) => [code, String(wpm)])));
+  }, [data?.speeds]);
+
+  const handleSave = async () => {
+    const speeds = Object.fromEntries(
+      Object.entries(values).map(([code, value]) => [code, Number(value)])
+    ) as Partial<ReadingSpeeds>;
+
+    try {
+      await updateMutation.mutateAsync(speeds);
+      toast.success('Reading speeds updated');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update reading speeds');
+    }
+  };
+
+  return (
+    <Card className="p-6 mt-8">
+      <Heading level={3} className="text-lg font-semibold text-zinc-900">
+        Reading Speed
+      </Heading>
+      <Text className="text-sm text-zinc-600 mt-1">
+        Words per minute a newsreader covers in each language. Bulletin editors see the estimated on-air
+        time against each schedule&apos;s target length.
+      </Text>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+        {LANGUAGES.map(({ code, label }) => (
+          <div key={code}>
+            <label className="block text-sm font-medium text-zinc-700 mb-1">{label}</label>
+            <Input
+              type="number"
+              min={60}
+              max={300}
+              value={values[code] ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setValues({ ...values, [code]: e.target.value })}
+              disabled={!canEdit}
+            />
+          </div>
+        ))}
+      </div>
+
+      {canEdit && (
+        <div className="flex justify-end mt-4">
+          <Button color="primary" onClick={handleSave} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? 'Saving...' : 'Save Speeds'}
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { Dialog, DialogTitle, DialogBody, DialogActions } from '@/components/ui/
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Text } from '@/components/ui/text';
+import { usePronunciationEditor } from '@/hooks/use-pronunciations';
 
 const RichTextEditor = dynamic(
   () => import('@/components/ui/rich-text-editor').then(mod => ({ default: mod.RichTextEditor })),
@@ -31,6 +32,7 @@ interface StoryQuickEditModalProps {
 }
 
 export function StoryQuickEditModal({ isOpen, onClose, story, onSaved }: StoryQuickEditModalProps) {
+  const pronunciationEditor = usePronunciationEditor();
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [isSaving, setIsSaving] = useState(false);
@@ -103,6 +105,7 @@ export function StoryQuickEditModal({ isOpen, onClose, story, onSaved }: StoryQu
           <div>
             <label className="block text-sm font-medium text-zinc-700 mb-1">Content</label>
             <RichTextEditor
+              {...pronunciationEditor}
               content={content}
               onChange={setContent}
               placeholder="Edit the story content..."
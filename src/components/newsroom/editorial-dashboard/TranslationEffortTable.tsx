@@ -0,0 +1,77 @@
+'use client';
+
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Table, TableHead, TableBody, TableRow, TableHeader, TableCell } from '@/components/ui/table';
+import { TranslationEffort } from '@/lib/editorial-metrics';
+import { LanguageIcon } from '@heroicons/react/24/outline';
+
+interface TranslationEffortTableProps {
+  effort: TranslationEffort[];
+  isLoading?: boolean;
+}
+
+function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  if (hours < 24) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+}
+
+export function TranslationEffortTable({ effort, isLoading }: TranslationEffortTableProps) {
+  if (isLoading) {
+    return (
+      <Card className="p-6">
+        <div className="animate-pulse">
+          <div className="h-6 bg-zinc-200 rounded w-48 mb-4"></div>
+          <div className="h-24 bg-zinc-100 rounded"></div>
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <LanguageIcon className="h-6 w-6 text-purple-600" />
+        <Heading level={2} className="text-xl font-semibold text-zinc-900">
+          Translation Effort
+        </Heading>
+      </div>
+      <Text className="text-sm text-zinc-500 mb-4">
+        Finished translations from the last 90 days, machine-drafted versus translated from scratch
+      </Text>
+
+      {effort.length === 0 ? (
+        <div className="text-center py-8 text-zinc-400">
+          <Text>No finished translations yet</Text>
+        </div>
+      ) : (
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableHeader>Draft</TableHeader>
+              <TableHeader className="text-right">Translations</TableHeader>
+              <TableHeader className="text-right">Draft changed</TableHeader>
+              <TableHeader className="text-right">Time to submit</TableHeader>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {effort.map((row) => (
+              <TableRow key={row.provider ?? 'human'}>
+                <TableCell className="font-medium">
+                  {row.provider ? `Machine (${row.provider})` : 'Human only'}
+                </TableCell>
+                <TableCell className="text-right">{row.translations}</TableCell>
+                <TableCell className="text-right">
+                  {row.averagePostEditRatio === null ? '—' : `${Math.round(row.averagePostEditRatio * 100)}%`}
+                </TableCell>
+                <TableCell className="text-right">{formatHours(row.averageTurnaroundHours)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+}
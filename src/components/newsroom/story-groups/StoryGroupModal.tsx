@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import { useCreateStoryGroup } from '@/hooks/use-story-groups';
+import { useStories } from '@/hooks/use-stories';
+import { MagnifyingGlassIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface StoryGroupModalProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface SelectedStory {
+  id: string;
+  title: string;
+}
+
+export function StoryGroupModal({ open, onClose }: StoryGroupModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [publishTogether, setPublishTogether] = useState(true);
+  const [selectedStories, setSelectedStories] = useState<SelectedStory[]>([]);
+  const [storySearch, setStorySearch] = useState('');
+  const [showStorySearch, setShowStorySearch] = useState(false);
+  const [error, setError] = useState('');
+
+  const createMutation = useCreateStoryGroup();
+
+  // Only original stories can be grouped; translations follow their original
+  const { data: storiesData } = useStories({
+    query: storySearch,
+    isTranslation: false,
+    perPage: 8,
+  });
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setDescription('');
+      setPublishTogether(true);
+      setSelectedStories([]);
+      setStorySearch('');
+      setShowStorySearch(false);
+      setError('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!name.trim()) {
+      setError('Name is required');
+      return;
+    }
+    if (selectedStories.length === 0) {
+      setError('Add at least one story to the group');
+      return;
+    }
+
+    try {
+      await createMutation.mutateAsync({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        publishTogether,
+        storyIds: selectedStories.map(s => s.id),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
+  const stories: { id: string; title: string; stage?: string }[] = (storiesData?.stories || []).filter(
+    (story: { id: string; stage?: string }) =>
+      story.stage !== 'PUBLISHED' && !selectedStories.some(s => s.id === story.id)
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} size="lg">
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>New Story Group</DialogTitle>
+
+        <DialogBody>
+          <div className="space-y-5">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Name</Label>
+              <Input
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="e.g. Budget Speech 2026"
+                required
+              />
+            </Field>
+
+            <Field>
+              <Label>Description</Label>
+              <Textarea
+                value={description}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setDescription(e.target.value)}
+                placeholder="Optional notes..."
+                rows={2}
+              />
+            </Field>
+
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                id="publishTogether"
+                checked={publishTogether}
+                onChange={(e) => setPublishTogether(e.target.checked)}
+                className="h-4 w-4 rounded border-zinc-300 text-kelly-green focus:ring-kelly-green"
+              />
+              <label htmlFor="publishTogether" className="text-sm text-zinc-700">
+                Publish together (stories can only be released as a group)
+              </label>
+            </div>
+
+            <Field>
+              <Label>Stories</Label>
+              <Description>Translations are included automatically with their original story.</Description>
+              {selectedStories.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {selectedStories.map((story) => (
+                    <div
+                      key={story.id}
+                      className="flex items-center gap-2 p-2 bg-zinc-50 rounded-md border border-zinc-200"
+                    >
+                      <Text className="flex-1 text-sm text-zinc-900 truncate">{story.title}</Text>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedStories(prev => prev.filter(s => s.id !== story.id))}
+                        className="text-zinc-400 hover:text-zinc-600"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="relative mt-2">
+                <div className="relative">
+                  <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-zinc-400" />
+                  <Input
+                    value={storySearch}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                      setStorySearch(e.target.value);
+                      setShowStorySearch(true);
+                    }}
+                    onFocus={() => setShowStorySearch(true)}
+                    placeholder="Search stories to add..."
+                    className="pl-9"
+                  />
+                </div>
+                {showStorySearch && storySearch.length > 0 && stories.length > 0 && (
+                  <div className="absolute z-10 mt-1 w-full bg-white rounded-md shadow-lg border border-zinc-200 max-h-48 overflow-y-auto">
+                    {stories.map((story) => (
+                      <button
+                        key={story.id}
+                        type="button"
+                        className="w-full text-left px-3 py-2 text-sm text-zinc-900 hover:bg-zinc-50 border-b border-zinc-100 last:border-b-0"
+                        onClick={() => {
+                          setSelectedStories(prev => [...prev, { id: story.id, title: story.title }]);
+                          setStorySearch('');
+                          setShowStorySearch(false);
+                        }}
+                      >
+                        {story.title}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </Field>
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          <Button type="button" outline onClick={onClose} disabled={createMutation.isPending}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={createMutation.isPending}>
+            {createMutation.isPending ? 'Creating...' : 'Create Group'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
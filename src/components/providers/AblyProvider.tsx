@@ -108,7 +108,8 @@ export function AblyProvider({ children }: { children: ReactNode }) {
 
   // Set up automatic cache invalidation subscriptions
   useEffect(() => {
-    if (!client || !isConnected) return;
+    // Only staff tokens can subscribe to the newsroom channels
+    if (!client || !isConnected || !session?.user?.staffRole) return;
 
     const currentUserId = session?.user?.id;
 
@@ -211,7 +212,7 @@ export function AblyProvider({ children }: { children: ReactNode }) {
       episodesChannel.unsubscribe();
       dashboardChannel.unsubscribe();
     };
-  }, [client, isConnected, session?.user?.id, queryClient]);
+  }, [client, isConnected, session?.user?.id, session?.user?.staffRole, queryClient]);
 
   // Tab visibility optimization
   useEffect(() => {
@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useQueryClient } from '@tanstack/react-query';
+import type * as Ably from 'ably';
+import toast from 'react-hot-toast';
+import { MegaphoneIcon } from '@heroicons/react/24/solid';
+
+import { Container } from '@/components/ui/container';
+import { Button } from '@/components/ui/button';
+import { useAbly } from '@/components/providers/AblyProvider';
+import { stationChannel } from '@/lib/ably/channels';
+import type { BreakingNewsAlertEvent } from '@/lib/ably/types';
+import { useAcknowledgeBreakingNews, useStationBreakingNews } from '@/hooks/use-breaking-news';
+
+// Two short rising tones, synthesised so no audio asset is needed
+function playChime() {
+  try {
+    const context = new AudioContext();
+    [880, 1320].forEach((frequency, index) => {
+      const start = context.currentTime + index * 0.25;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.4);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.4);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch {
+    // Browsers block audio until the user has interacted with the page
+  }
+}
+
+/**
+ * Breaking news alerts for the signed-in user's station. Alerts stay on
+ * screen until someone at the station acknowledges them.
+ */
+export function BreakingNewsBanner() {
+  const { data: session } = useSession();
+  const queryClient = useQueryClient();
+  const { client, isConnected, connectionHealthy } = useAbly();
+
+  const stationId = session?.user?.userType === 'RADIO' ? session.user.radioStationId : null;
+
+  // Poll when realtime is off or unhealthy so alerts still arrive
+  const { data } = useStationBreakingNews(!stationId ? false : client && connectionHealthy ? false : 60000);
+  const acknowledgeMutation = useAcknowledgeBreakingNews();
+
+  useEffect(() => {
+    if (!client || !isConnected || !stationId) return;
+
+    const channel = client.channels.get(stationChannel(stationId));
+    const handleEvent = (message: Ably.Message) => {
+      const event = message.data as BreakingNewsAlertEvent;
+      if (event.type !== 'breaking_news:alert') return;
+
+      playChime();
+      queryClient.invalidateQueries({ queryKey: ['radio-breaking-news'] });
+    };
+    channel.subscribe(handleEvent);
+
+    return () => {
+      channel.unsubscribe(handleEvent);
+    };
+  }, [client, isConnected, stationId, queryClient]);
+
+  const alerts = data?.alerts ?? [];
+  if (!stationId || alerts.length === 0) return null;
+
+  const handleAcknowledge = async (alertId: string) => {
+    try {
+      await acknowledgeMutation.mutateAsync(alertId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to acknowledge alert');
+    }
+  };
+
+  return (
+    <div className="bg-red-600 text-white">
+      <Container>
+        <div className="divide-y divide-red-500">
+          {alerts.map(alert => (
+            <div key={alert.id} className="flex flex-col gap-3 py-3 sm:flex-row sm:items-center">
+              <MegaphoneIcon className="hidden h-6 w-6 flex-shrink-0 sm:block" />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-bold uppercase tracking-wider text-red-100">Breaking News</p>
+                <Link href={alert.url} className="font-semibold hover:underline">
+                  {alert.headline}
+                </Link>
+                {alert.message && <p className="text-sm text-red-50 whitespace-pre-wrap">{alert.message}</p>}
+              </div>
+              <Button
+                color="white"
+                onClick={() => handleAcknowledge(alert.id)}
+                disabled={acknowledgeMutation.isPending}
+              >
+                Acknowledge
+              </Button>
+            </div>
+          ))}
+        </div>
+      </Container>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import Link from 'next/link';
 import { Badge } from '@/components/ui/badge';
 import { Text } from '@/components/ui/text';
 import { Heading } from '@/components/ui/heading';
+import { languageShortCode } from '@/lib/language-utils';
 import { FinanceHierarchicalMenu } from './CategoryMegaMenuFinance';
 import { ShowsHierarchicalMenu } from './CategoryMegaMenuShows';
 import { 
@@ -200,9 +201,7 @@ export function CategoryMegaMenu({ category, onClose }: CategoryMegaMenuProps) {
                       <div className="flex gap-1">
                         {story.tags?.filter((tag: any) => tag.category === 'LANGUAGE').slice(0, 2).map((tag: any) => (
                           <Badge key={tag.id} color="zinc" className="text-xs">
-                            {tag.name === 'English' ? 'EN' : 
-                             tag.name === 'Afrikaans' ? 'AF' : 
-                             tag.name === 'Xhosa' ? 'XH' : tag.name}
+                            {languageShortCode(tag.name)}
                           </Badge>
                         ))}
                       </div>
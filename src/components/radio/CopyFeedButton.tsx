@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { RssIcon } from '@heroicons/react/24/outline';
+import { useFeedTokens, feedUrl, type FeedKind } from '@/hooks/use-feed-tokens';
+
+interface CopyFeedButtonProps {
+  kind: FeedKind;
+  slug: string;
+}
+
+// Copies the programme's RSS address. Tokens are only shown when issued, so
+// the station pastes in the one it gave the app that is subscribing.
+export function CopyFeedButton({ kind, slug }: CopyFeedButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useState('');
+  const { data } = useFeedTokens();
+  const hasActiveToken = !!data?.tokens.some(t => !t.revokedAt);
+
+  const handleOpen = () => {
+    if (!hasActiveToken) {
+      toast.error('Create a feed token under Profile & Settings → Feeds first');
+      return;
+    }
+    setOpen(true);
+  };
+
+  const handleClose = () => {
+    setOpen(false);
+    setToken('');
+  };
+
+  const handleCopy = async () => {
+    if (!token.trim()) return;
+    await navigator.clipboard.writeText(feedUrl(kind, slug, token.trim()));
+    toast.success('Feed address copied');
+    handleClose();
+  };
+
+  return (
+    <>
+      <Button color="white" onClick={handleOpen} className="flex items-center gap-2">
+        <RssIcon className="h-4 w-4" />
+        Copy RSS feed
+      </Button>
+
+      <Dialog open={open} onClose={handleClose}>
+        <DialogTitle>Copy RSS feed</DialogTitle>
+        <DialogDescription>
+          Paste the feed token of the app that will subscribe. If you no longer have it, create a new token under
+          Profile &amp; Settings → Feeds.
+        </DialogDescription>
+        <DialogBody>
+          <Input
+            value={token}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setToken(e.target.value)}
+            placeholder="Feed token"
+            autoFocus
+          />
+        </DialogBody>
+        <DialogActions>
+          <Button color="white" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button color="primary" onClick={handleCopy} disabled={!token.trim()}>
+            Copy address
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ConfirmDialog } from '@/components/ui/confirm-dialog';
+import {
+  useFeedTokens,
+  useCreateFeedToken,
+  useRevokeFeedToken,
+  type FeedToken,
+  type IssuedFeedToken,
+} from '@/hooks/use-feed-tokens';
+import { ClipboardDocumentIcon, RssIcon } from '@heroicons/react/24/outline';
+
+interface FeedTokensPanelProps {
+  isPrimaryContact: boolean;
+}
+
+export function FeedTokensPanel({ isPrimaryContact }: FeedTokensPanelProps) {
+  const [label, setLabel] = useState('');
+  const [revokeTarget, setRevokeTarget] = useState<FeedToken | null>(null);
+  // Only the hash is stored, so a new token can be copied until the panel is left
+  const [issued, setIssued] = useState<IssuedFeedToken | null>(null);
+
+  const { data, isLoading } = useFeedTokens();
+  const createMutation = useCreateFeedToken();
+  const revokeMutation = useRevokeFeedToken();
+
+  const tokens = data?.tokens ?? [];
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+    try {
+      const { token } = await createMutation.mutateAsync(label.trim());
+      setIssued(token);
+      setLabel('');
+      toast.success('Feed token created');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create feed token');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokeTarget) return;
+    try {
+      await revokeMutation.mutateAsync(revokeTarget.id);
+      toast.success('Feed token revoked');
+      setRevokeTarget(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke feed token');
+    }
+  };
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast.success('Token copied to clipboard');
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Heading level={3} className="text-lg font-semibold text-zinc-900 mb-1">
+          Podcast & Show Feeds
+        </Heading>
+        <Text className="text-zinc-600">
+          Playout systems and podcast apps can subscribe to any podcast or show your station has access to.
+          Use &ldquo;Copy RSS feed&rdquo; on a podcast or show page to get its address. Each address carries one of
+          the tokens below, so give every system its own token and revoke it if the address leaks. A token is only
+          shown once, when it is created, so keep it somewhere safe.
+        </Text>
+      </div>
+
+      {isPrimaryContact ? (
+        <form onSubmit={handleCreate} className="flex items-end gap-3">
+          <div className="flex-1">
+            <Text className="text-sm font-medium text-zinc-700 mb-1">New token</Text>
+            <Input
+              value={label}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLabel(e.target.value)}
+              placeholder="e.g. Studio playout"
+              maxLength={100}
+            />
+          </div>
+          <Button type="submit" color="primary" disabled={!label.trim() || createMutation.isPending}>
+            {createMutation.isPending ? 'Creating...' : 'Create Token'}
+          </Button>
+        </form>
+      ) : (
+        <div className="p-4 bg-amber-50 rounded-lg">
+          <Text className="text-sm text-amber-800">
+            Only your station&apos;s primary contact can create or revoke feed tokens.
+          </Text>
+        </div>
+      )}
+
+      {issued && (
+        <div className="p-4 bg-green-50 rounded-lg space-y-2">
+          <Text className="text-sm text-green-800">
+            Copy the token for &ldquo;{issued.label}&rdquo; now. It will not be shown again.
+          </Text>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 min-w-0 truncate rounded bg-white px-2 py-1 text-sm text-zinc-900">
+              {issued.token}
+            </code>
+            <Button plain onClick={() => copyToken(issued.token)} title="Copy token">
+              <ClipboardDocumentIcon className="h-4 w-4" />
+            </Button>
+            <Button color="white" onClick={() => setIssued(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Text className="text-zinc-500">Loading feed tokens...</Text>
+      ) : tokens.length === 0 ? (
+        <div className="text-center py-8 border border-dashed border-zinc-300 rounded-lg">
+          <RssIcon className="h-8 w-8 text-zinc-400 mx-auto mb-2" />
+          <Text className="text-zinc-500">No feed tokens yet</Text>
+        </div>
+      ) : (
+        <ul className="divide-y divide-zinc-200 border border-zinc-200 rounded-lg">
+          {tokens.map(token => (
+            <li key={token.id} className="flex items-center justify-between gap-4 p-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <Text className="font-medium text-zinc-900">{token.label}</Text>
+                  {token.revokedAt && <Badge color="red">Revoked</Badge>}
+                </div>
+                <Text className="text-sm text-zinc-500">
+                  Ends in &hellip;{token.tokenHint}
+                  {' · '}
+                  Created {new Date(token.createdAt).toLocaleDateString()} by {token.createdBy.firstName}{' '}
+                  {token.createdBy.lastName}
+                  {' · '}
+                  {token.lastUsedAt
+                    ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}`
+                    : 'Never used'}
+                </Text>
+              </div>
+              {!token.revokedAt && isPrimaryContact && (
+                <Button color="white" onClick={() => setRevokeTarget(token)} className="shrink-0">
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={!!revokeTarget}
+        onClose={() => setRevokeTarget(null)}
+        onConfirm={handleRevoke}
+        title={`Revoke "${revokeTarget?.label}"?`}
+        description="Every feed address using this token stops working straight away. This cannot be undone."
+        confirmLabel="Revoke"
+        variant="danger"
+        isPending={revokeMutation.isPending}
+      />
+    </div>
+  );
+}
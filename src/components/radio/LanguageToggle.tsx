@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { LanguageIcon } from '@heroicons/react/24/outline';
 import clsx from 'clsx';
+import { DEFAULT_STATION_LANGUAGES, languageShortCode } from '@/lib/language-utils';
 
 interface LanguageToggleProps {
   selectedLanguage: string;
@@ -11,12 +12,6 @@ interface LanguageToggleProps {
   availableLanguages: string[];
 }
 
-const LANGUAGE_CODES = {
-  'English': 'EN',
-  'Afrikaans': 'AF', 
-  'Xhosa': 'XH',
-} as const;
-
 export function LanguageToggle({
   selectedLanguage,
   onLanguageChange,
@@ -25,7 +20,7 @@ export function LanguageToggle({
   const [isOpen, setIsOpen] = useState(false);
 
   const filteredLanguages = availableLanguages.filter(lang => 
-    Object.keys(LANGUAGE_CODES).includes(lang)
+    DEFAULT_STATION_LANGUAGES.includes(lang)
   );
 
   if (filteredLanguages.length <= 1) {
@@ -48,7 +43,7 @@ export function LanguageToggle({
       >
         <LanguageIcon className="h-5 w-5" aria-hidden="true" />
         <span className="font-mono font-bold tracking-wider">
-          {LANGUAGE_CODES[selectedLanguage as keyof typeof LANGUAGE_CODES] || 'EN'}
+          {DEFAULT_STATION_LANGUAGES.includes(selectedLanguage) ? languageShortCode(selectedLanguage) : 'EN'}
         </span>
         <span className="text-sm font-normal hidden sm:inline">
           {selectedLanguage}
@@ -85,7 +80,7 @@ export function LanguageToggle({
           >
             <div className="py-2">
               {filteredLanguages.map((language) => {
-                const code = LANGUAGE_CODES[language as keyof typeof LANGUAGE_CODES];
+                const code = languageShortCode(language);
                 const isSelected = language === selectedLanguage;
 
                 return (
@@ -8,6 +8,7 @@ import { Text } from '@/components/ui/text';
 import { Heading } from '@/components/ui/heading';
 import { Avatar } from '@/components/ui/avatar';
 import { CustomAudioPlayer } from '@/components/ui/audio-player';
+import { languageShortCode } from '@/lib/language-utils';
 import { 
   CalendarIcon,
   MusicalNoteIcon,
@@ -84,9 +85,7 @@ export function StoryCard({ story, selectedLanguage }: StoryCardProps) {
                 color={selectedLanguage && c.name === selectedLanguage ? "green" : "zinc"}
                 className="text-xs"
               >
-                {c.name === 'English' ? 'EN' :
-                 c.name === 'Afrikaans' ? 'AF' :
-                 c.name === 'Xhosa' ? 'XH' : c.name}
+                {languageShortCode(c.name)}
               </Badge>
             ))}
           </div>
@@ -0,0 +1,111 @@
+'use client';
+
+import { format } from 'date-fns';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+import { Card } from '@/components/ui/card';
+import { Heading } from '@/components/ui/heading';
+import { Text } from '@/components/ui/text';
+import { Badge } from '@/components/ui/badge';
+import { DiffText } from '@/components/ui/diff-text';
+import type { BulletinCorrection } from '@/hooks/use-bulletin-corrections';
+import type { ParagraphChange } from '@/lib/text-diff';
+
+const PARAGRAPH_LABELS = {
+  added: { label: 'Added', color: 'green' },
+  removed: { label: 'Removed', color: 'red' },
+  changed: { label: 'Changed', color: 'amber' },
+} as const;
+
+const STORY_LABELS = {
+  added: { label: 'Story added', color: 'green' },
+  removed: { label: 'Story removed', color: 'red' },
+  edited: { label: 'Story edited', color: 'amber' },
+} as const;
+
+function ParagraphChanges({ changes }: { changes: ParagraphChange[] }) {
+  return (
+    <div className="space-y-2">
+      {changes.map((change, index) => (
+        <div key={index} className="rounded-md bg-zinc-50 p-2">
+          <Badge color={PARAGRAPH_LABELS[change.type].color} className="mb-1">
+            {PARAGRAPH_LABELS[change.type].label}
+          </Badge>
+          <DiffText segments={change.segments} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CorrectionSection({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-lg bg-white p-3 border border-amber-200">
+      <Text className="text-xs font-medium uppercase tracking-wide text-zinc-500 mb-2">{label}</Text>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * Corrections issued after a bulletin was published, newest first, each with
+ * its note and what it changed.
+ */
+export function BulletinCorrections({ corrections }: { corrections: BulletinCorrection[] }) {
+  if (corrections.length === 0) return null;
+
+  return (
+    <Card className="p-6 border-amber-300 bg-amber-50">
+      <div className="flex items-center gap-2 mb-4">
+        <ExclamationTriangleIcon className="h-6 w-6 text-amber-600" />
+        <Heading level={3} className="text-amber-900">
+          {corrections.length === 1 ? 'Correction' : `${corrections.length} Corrections`}
+        </Heading>
+      </div>
+
+      <div className="space-y-6">
+        {corrections.map(correction => {
+          const { changes } = correction;
+          return (
+            <div key={correction.id} className="space-y-3">
+              <div>
+                <Text className="text-sm text-amber-800">
+                  Corrected {format(new Date(correction.createdAt), 'MMM d, yyyy h:mm a')} by{' '}
+                  {correction.createdBy.firstName} {correction.createdBy.lastName}
+                </Text>
+                <p className="mt-1 whitespace-pre-wrap text-sm font-medium text-amber-900">{correction.correctionNote}</p>
+              </div>
+
+              {changes.title && (
+                <CorrectionSection label="Title">
+                  <DiffText segments={changes.title} />
+                </CorrectionSection>
+              )}
+              {changes.intro.length > 0 && (
+                <CorrectionSection label="Intro">
+                  <ParagraphChanges changes={changes.intro} />
+                </CorrectionSection>
+              )}
+              {changes.stories.map(story => (
+                <CorrectionSection key={story.storyId} label={story.title}>
+                  <Badge color={STORY_LABELS[story.change].color} className="mb-2">
+                    {STORY_LABELS[story.change].label}
+                  </Badge>
+                  {story.change !== 'removed' && <ParagraphChanges changes={story.paragraphs} />}
+                </CorrectionSection>
+              ))}
+              {changes.reordered && (
+                <Text className="text-sm text-amber-800">The running order of the stories changed.</Text>
+              )}
+              {changes.outro.length > 0 && (
+                <CorrectionSection label="Outro">
+                  <ParagraphChanges changes={changes.outro} />
+                </CorrectionSection>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -1,4 +1,8 @@
-import { useStories, type Story } from '@/hooks/use-stories';
+import { useQueries } from '@tanstack/react-query';
+import type { StoryStage } from '@prisma/client';
+import type { Story } from '@/hooks/use-stories';
+import { useWorkflows } from '@/hooks/use-workflows';
+import { STAGE_LABELS } from '@/lib/workflow';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Text } from '@/components/ui/text';
@@ -7,7 +11,6 @@ import clsx from 'clsx';
 import {
   DocumentTextIcon,
   ClockIcon,
-  ExclamationTriangleIcon,
   CheckCircleIcon,
   EyeIcon,
   ArrowRightIcon,
@@ -29,81 +32,55 @@ const stageStyles: Record<string, { bg: string; border: string; icon: string }>
   teal: { bg: 'bg-teal-50', border: 'border-teal-200', icon: 'text-teal-600' },
 };
 
+const STAGE_ICONS: Record<StoryStage, React.ComponentType<{ className?: string }>> = {
+  DRAFT: PencilIcon,
+  NEEDS_JOURNALIST_REVIEW: ClockIcon,
+  NEEDS_SUB_EDITOR_APPROVAL: DocumentTextIcon,
+  APPROVED: CheckCircleIcon,
+  TRANSLATED: LanguageIcon,
+  PUBLISHED: EyeIcon,
+};
+
 export function StoryPipelineView() {
-  // Fetch stories in all stages of the editorial process
-  const { data: draftData, isLoading: l1, error: e1 } = useStories({ status: 'DRAFT', page: 1, perPage: 1 });
-  const { data: inReviewData, isLoading: l2, error: e2 } = useStories({ status: 'IN_REVIEW', page: 1, perPage: 1 });
-  const { data: needsRevisionData, isLoading: l3, error: e3 } = useStories({ status: 'NEEDS_REVISION', page: 1, perPage: 1 });
-  const { data: pendingApprovalData, isLoading: l4, error: e4 } = useStories({ status: 'PENDING_APPROVAL', page: 1, perPage: 1 });
-  const { data: approvedData, isLoading: l5, error: e5 } = useStories({ status: 'APPROVED', page: 1, perPage: 1 });
-  const { data: pendingTranslationData, isLoading: l6, error: e6 } = useStories({ status: 'PENDING_TRANSLATION', page: 1, perPage: 1 });
-  const { data: readyToPublishData, isLoading: l7, error: e7 } = useStories({ status: 'READY_TO_PUBLISH', page: 1, perPage: 1 });
-  const { data: publishedData, isLoading: l8, error: e8 } = useStories({ status: 'PUBLISHED', page: 1, perPage: 1 });
+  // Pipeline columns come from the default workflow definition
+  const { data: workflowsData, isLoading: isLoadingWorkflow, error: workflowError } = useWorkflows();
+  const stages = workflowsData?.defaultWorkflow.stages ?? [];
 
-  const isLoading = l1 || l2 || l3 || l4 || l5 || l6 || l7 || l8;
-  const hasError = e1 || e2 || e3 || e4 || e5 || e6 || e7 || e8;
+  // Count stories in each stage (shares the cache with useStories)
+  const stageQueries = useQueries({
+    queries: stages.map((stage) => {
+      const filters = { stage, page: 1, perPage: 1 };
+      return {
+        queryKey: ['stories', filters],
+        queryFn: async () => {
+          const params = new URLSearchParams({ stage, page: '1', perPage: '1' });
+          const response = await fetch(`/api/newsroom/stories?${params}`);
+          if (!response.ok) {
+            throw new Error('Failed to fetch stories');
+          }
+          return response.json();
+        },
+      };
+    }),
+  });
 
-  const draftCount = draftData?.pagination?.total || 0;
-  const inReviewCount = inReviewData?.pagination?.total || 0;
-  const needsRevisionCount = needsRevisionData?.pagination?.total || 0;
-  const pendingApprovalCount = pendingApprovalData?.pagination?.total || 0;
-  const approvedCount = approvedData?.pagination?.total || 0;
-  const pendingTranslationCount = pendingTranslationData?.pagination?.total || 0;
-  const readyToPublishCount = readyToPublishData?.pagination?.total || 0;
-  const publishedCount = publishedData?.pagination?.total || 0;
+  const isLoading = isLoadingWorkflow || stageQueries.some(query => query.isLoading);
+  const hasError = workflowError || stageQueries.some(query => query.error);
 
-  const pipelineStages = [
-    {
-      name: 'Draft',
-      icon: PencilIcon,
-      color: STAGE_COLORS.DRAFT || 'zinc',
-      count: draftCount,
-    },
-    {
-      name: 'In Review',
-      icon: ClockIcon,
-      color: STAGE_COLORS.IN_REVIEW || 'amber',
-      count: inReviewCount,
-    },
-    {
-      name: 'Needs Revision',
-      icon: ExclamationTriangleIcon,
-      color: STAGE_COLORS.NEEDS_REVISION || 'red',
-      count: needsRevisionCount,
-    },
-    {
-      name: 'Pending Approval',
-      icon: DocumentTextIcon,
-      color: STAGE_COLORS.PENDING_APPROVAL || 'blue',
-      count: pendingApprovalCount,
-    },
-    {
-      name: 'Approved',
-      icon: CheckCircleIcon,
-      color: STAGE_COLORS.APPROVED || 'emerald',
-      count: approvedCount,
-    },
-    {
-      name: 'Pending Translation',
-      icon: LanguageIcon,
-      color: STAGE_COLORS.PENDING_TRANSLATION || 'purple',
-      count: pendingTranslationCount,
-    },
-    {
-      name: 'Ready to Publish',
-      icon: CheckCircleIcon,
-      color: STAGE_COLORS.READY_TO_PUBLISH || 'green',
-      count: readyToPublishCount,
-    },
-    {
-      name: 'Published',
-      icon: EyeIcon,
-      color: STAGE_COLORS.PUBLISHED || 'teal',
-      count: publishedCount,
-    }
-  ];
+  const pipelineStages = stages.map((stage, index) => ({
+    stage,
+    name: STAGE_LABELS[stage],
+    icon: STAGE_ICONS[stage],
+    color: STAGE_COLORS[stage] || 'zinc',
+    count: stageQueries[index]?.data?.pagination?.total || 0,
+  }));
 
-  const totalInPipeline = draftCount + inReviewCount + needsRevisionCount + pendingApprovalCount + approvedCount + pendingTranslationCount + readyToPublishCount;
+  const publishedIndex = stages.indexOf('PUBLISHED');
+  const publishedData = publishedIndex === -1 ? undefined : stageQueries[publishedIndex]?.data;
+  const publishedCount = publishedData?.pagination?.total || 0;
+  const totalInPipeline = pipelineStages
+    .filter(stage => stage.stage !== 'PUBLISHED')
+    .reduce((total, stage) => total + stage.count, 0);
   const publishedToday = publishedData?.stories?.filter((story: Story) => {
     const today = new Date().toDateString();
     return new Date(story.publishedAt || story.updatedAt).toDateString() === today;
@@ -124,13 +101,13 @@ export function StoryPipelineView() {
       <div className="mb-6">
         <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-2">Story Pipeline</h3>
         <Text className="text-zinc-600 dark:text-zinc-400">
-          Complete overview of stories moving through the editorial process
+          Stories at each stage of the {workflowsData?.defaultWorkflow.name ?? 'editorial'} workflow
         </Text>
       </div>
 
       {isLoading ? (
-        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
-          {[...Array(8)].map((_, i) => (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {[...Array(6)].map((_, i) => (
             <div key={i} className="border border-zinc-200 rounded-lg p-4 h-32 animate-pulse bg-zinc-50">
               <div className="flex flex-col items-center space-y-2 justify-center h-full">
                 <div className="h-6 w-6 bg-zinc-200 rounded" />
@@ -141,11 +118,11 @@ export function StoryPipelineView() {
           ))}
         </div>
       ) : (
-      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         {pipelineStages.map((stage, index) => {
           const styles = stageStyles[stage.color] || stageStyles.zinc;
           return (
-            <div key={stage.name} className="relative">
+            <div key={stage.stage} className="relative">
               {/* Stage Card */}
               <div className={clsx(
                 styles.bg,
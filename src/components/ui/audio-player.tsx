@@ -8,8 +8,12 @@ import {
 } from '@heroicons/react/24/solid';
 import { AudioClip as PrismaAudioClip } from '@prisma/client';
 import { formatDuration } from '@/lib/format-utils';
+import { Waveform } from '@/components/ui/waveform';
 
-type AudioClip = Pick<PrismaAudioClip, 'id' | 'url' | 'originalName' | 'duration' | 'mimeType'>;
+type AudioClip = Pick<PrismaAudioClip, 'id' | 'url' | 'originalName' | 'duration' | 'mimeType'> & {
+  // Stored peaks; drawn in place of the progress bar when present
+  waveform?: unknown;
+};
 
 // Type for local File objects (before upload)
 interface LocalAudioFile {
@@ -188,6 +192,7 @@ export function CustomAudioPlayer({
   }, [handleTimeUpdate, handleLoadedMetadata, handleEnded, handleError]);
 
   const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+  const peaks = Array.isArray(clip?.waveform) && clip.waveform.length > 0 ? (clip.waveform as number[]) : null;
 
   // Show error state if no audio source
   if (!audioUrl) {
@@ -233,13 +238,17 @@ export function CustomAudioPlayer({
 
           {/* Progress Bar - Inline */}
           <div className="flex-1 flex items-center gap-2">
-            <div className="relative flex-1 h-1.5 rounded-full has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-kelly-green has-[:focus-visible]:ring-offset-2">
-              <div className="absolute inset-0 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
-                <div
-                  className="h-full bg-kelly-green transition-all"
-                  style={{ width: `${progress}%` }}
-                />
-              </div>
+            <div className={`relative flex-1 ${peaks ? 'h-8' : 'h-1.5'} rounded-full has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-kelly-green has-[:focus-visible]:ring-offset-2`}>
+              {peaks ? (
+                <Waveform peaks={peaks} progress={progress / 100} className="absolute inset-0" />
+              ) : (
+                <div className="absolute inset-0 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-kelly-green transition-all"
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+              )}
               <input
                 type="range"
                 min="0"
@@ -309,14 +318,18 @@ export function CustomAudioPlayer({
         {/* Progress Section */}
         <div className="flex-1 flex flex-col gap-1">
           {/* Progress Bar */}
-          <div className="relative h-2 rounded-full has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-kelly-green has-[:focus-visible]:ring-offset-2">
+          <div className={`relative ${peaks ? 'h-12' : 'h-2'} rounded-full has-[:focus-visible]:ring-2 has-[:focus-visible]:ring-kelly-green has-[:focus-visible]:ring-offset-2`}>
             {/* Progress Fill */}
-            <div className="absolute inset-0 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-kelly-green transition-all"
-                style={{ width: `${progress}%` }}
-              />
-            </div>
+            {peaks ? (
+              <Waveform peaks={peaks} progress={progress / 100} className="absolute inset-0" />
+            ) : (
+              <div className="absolute inset-0 bg-zinc-200 dark:bg-zinc-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-kelly-green transition-all"
+                  style={{ width: `${progress}%` }}
+                />
+              </div>
+            )}
 
             {/* Seek Input */}
             <input
@@ -10,6 +10,8 @@ export interface ChecklistItem {
   checked: boolean;
   required: boolean;
   description?: string;
+  // Worked out automatically rather than ticked by hand; shows `checked`
+  disabled?: boolean;
 }
 
 export interface BlockingChecklistProps {
@@ -31,8 +33,9 @@ export function BlockingChecklist({
         <CheckboxField key={item.id} className="flex items-start gap-3">
           <Checkbox
             name={item.id}
-            checked={values[item.id] || false}
+            checked={item.disabled ? item.checked : values[item.id] || false}
             onChange={(checked) => onChange(item.id, checked)}
+            disabled={item.disabled}
           />
           <div className="flex-1">
             <Label className="text-sm font-medium text-zinc-900 dark:text-zinc-100 cursor-pointer">
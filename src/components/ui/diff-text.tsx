@@ -0,0 +1,25 @@
+import type { DiffSegment } from '@/lib/text-diff';
+
+export function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed text-zinc-800">
+      {segments.map((segment, index) => {
+        if (segment.type === 'insert') {
+          return (
+            <ins key={index} className="bg-green-100 text-green-900 no-underline">
+              {segment.value}
+            </ins>
+          );
+        }
+        if (segment.type === 'delete') {
+          return (
+            <del key={index} className="bg-red-100 text-red-900">
+              {segment.value}
+            </del>
+          );
+        }
+        return <span key={index}>{segment.value}</span>;
+      })}
+    </div>
+  );
+}
@@ -25,7 +25,7 @@ interface FileUploadProps {
 export function FileUpload({
   onFilesChange,
   maxFiles = 5,
-  maxFileSize = 100, // 100MB default — matches server limit
+  maxFileSize = 250, // 250MB default — matches server limit (MAX_AUDIO_SIZE)
   acceptedTypes = ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/mp4', 'audio/x-m4a', 'audio/aac', 'audio/webm'],
   className,
   existingCount = 0,
@@ -0,0 +1,73 @@
+import { Mark, mergeAttributes, type Editor } from '@tiptap/react';
+import { wholeWordPattern } from '@/lib/text-utils';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    pronunciation: {
+      setPronunciation: (guide: string) => ReturnType;
+      unsetPronunciation: () => ReturnType;
+    };
+  }
+}
+
+/**
+ * A phonetic note on a name or place, stored as
+ * <span data-pronunciation="guide">term</span> so exports and the radio
+ * site can pick it up.
+ */
+export const Pronunciation = Mark.create({
+  name: 'pronunciation',
+  inclusive: false,
+
+  addAttributes() {
+    return {
+      guide: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-pronunciation'),
+        renderHTML: attributes => ({ 'data-pronunciation': attributes.guide }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-pronunciation]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setPronunciation:
+        guide =>
+        ({ commands }) =>
+          commands.setMark(this.name, { guide }),
+      unsetPronunciation:
+        () =>
+        ({ commands }) =>
+          commands.unsetMark(this.name, { extendEmptyMarkRange: true }),
+    };
+  },
+});
+
+/**
+ * Mark every whole-word occurrence of a term in the document with its guide.
+ */
+export function applyPronunciationEverywhere(editor: Editor, term: string, guide: string) {
+  const { state } = editor;
+  const markType = state.schema.marks.pronunciation;
+  const pattern = wholeWordPattern([term]);
+  if (!pattern) return;
+  const tr = state.tr;
+
+  state.doc.descendants((node, pos) => {
+    if (!node.isText || !node.text) return;
+    for (const match of node.text.matchAll(pattern)) {
+      const from = pos + match.index;
+      tr.addMark(from, from + match[0].length, markType.create({ guide }));
+    }
+  });
+
+  if (tr.docChanged) editor.view.dispatch(tr);
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Dialog, DialogTitle, DialogDescription, DialogBody, DialogActions } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox, CheckboxField } from '@/components/ui/checkbox';
+import { Field, Label, Description } from '@/components/ui/fieldset';
+import { Text } from '@/components/ui/text';
+import type { PronunciationGuide } from '@/lib/pronunciation';
+
+interface PronunciationNoteDialogProps {
+  open: boolean;
+  onClose: () => void;
+  term: string;
+  currentGuide: string;
+  dictionary: PronunciationGuide[];
+  // null removes the note
+  onSave: (guide: string | null) => void;
+  onAddToDictionary?: (entry: PronunciationGuide) => Promise<unknown>;
+}
+
+export function PronunciationNoteDialog({
+  open,
+  onClose,
+  term,
+  currentGuide,
+  dictionary,
+  onSave,
+  onAddToDictionary,
+}: PronunciationNoteDialogProps) {
+  const [guide, setGuide] = useState('');
+  const [saveToDictionary, setSaveToDictionary] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const canAddToDictionary = !!onAddToDictionary;
+  const known = dictionary.find(entry => entry.term.toLowerCase() === term.toLowerCase());
+  // Close spellings, e.g. "Gqeberha" while noting "Gqeberha's"
+  const similar = dictionary
+    .filter(entry => entry !== known)
+    .filter(entry => {
+      const a = entry.term.toLowerCase();
+      const b = term.toLowerCase();
+      return a.includes(b) || b.includes(a);
+    })
+    .slice(0, 5);
+
+  useEffect(() => {
+    if (!open) return;
+    setGuide(currentGuide || known?.guide || '');
+    setSaveToDictionary(!known && canAddToDictionary);
+    setError('');
+  }, [open, currentGuide, known, canAddToDictionary]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setError('');
+
+    if (!guide.trim()) {
+      setError('Enter how the name is said');
+      return;
+    }
+
+    if (saveToDictionary && onAddToDictionary) {
+      setIsSaving(true);
+      try {
+        await onAddToDictionary({ term, guide: guide.trim() });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to add to the dictionary');
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+
+    onSave(guide.trim());
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose}>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Pronunciation for &ldquo;{term}&rdquo;</DialogTitle>
+        <DialogDescription>
+          Newsreaders see this as a hover hint on the radio site and next to the name in bulletin scripts.
+        </DialogDescription>
+
+        <DialogBody>
+          <div className="space-y-4">
+            {error && (
+              <div className="rounded-md bg-red-50 p-3">
+                <Text className="text-sm text-red-700">{error}</Text>
+              </div>
+            )}
+
+            <Field>
+              <Label>Say it as</Label>
+              <Description>Phonetic spelling with the stressed syllable in capitals, e.g. geh-BEH-ha.</Description>
+              <Input
+                value={guide}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setGuide(e.target.value)}
+                autoFocus
+              />
+            </Field>
+
+            {known && (
+              <Text className="text-sm text-zinc-600">
+                Dictionary: <strong>{known.guide}</strong>
+              </Text>
+            )}
+
+            {similar.length > 0 && (
+              <div>
+                <Text className="text-sm text-zinc-600 mb-2">Similar dictionary entries</Text>
+                <div className="flex flex-wrap gap-2">
+                  {similar.map(entry => (
+                    <button
+                      key={entry.term}
+                      type="button"
+                      onClick={() => setGuide(entry.guide)}
+                      className="rounded-full border border-zinc-300 px-2 py-0.5 text-xs text-zinc-700 hover:bg-zinc-100"
+                    >
+                      {entry.term} · {entry.guide}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {!known && canAddToDictionary && (
+              <CheckboxField>
+                <Checkbox checked={saveToDictionary} onChange={(checked: boolean) => setSaveToDictionary(checked)} />
+                <Label>Add to the pronunciation dictionary</Label>
+              </CheckboxField>
+            )}
+          </div>
+        </DialogBody>
+
+        <DialogActions>
+          {currentGuide && (
+            <Button type="button" plain onClick={() => onSave(null)} disabled={isSaving} className="mr-auto">
+              Remove note
+            </Button>
+          )}
+          <Button type="button" color="white" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" color="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
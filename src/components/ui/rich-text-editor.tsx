@@ -1,9 +1,11 @@
 'use client';
 
+import { useState } from 'react';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
 import { 
+  Speech,
   Bold,
   Italic,
   List,
@@ -16,12 +18,24 @@ import {
   Heading3,
 } from 'lucide-react';
 import clsx from 'clsx';
+import { Pronunciation, applyPronunciationEverywhere } from './pronunciation-mark';
+import { PronunciationNoteDialog } from './pronunciation-note-dialog';
+import { StyleCheckPanel } from './style-check-panel';
+import { findPronunciationSuggestions, type PronunciationGuide } from '@/lib/pronunciation';
+import type { StyleCheckResult } from '@/lib/style-check';
 
 interface RichTextEditorProps {
   content?: string;
   onChange?: (content: string) => void;
   placeholder?: string;
   className?: string;
+  // Pronunciation dictionary; when given, editors can add phonetic notes and
+  // known names in the copy are suggested
+  pronunciations?: PronunciationGuide[];
+  // Save a new note to the dictionary
+  onAddPronunciation?: (entry: PronunciationGuide) => Promise<unknown>;
+  // House-style check of the current content, shown under the editor
+  styleCheck?: StyleCheckResult;
 }
 
 export function RichTextEditor({
@@ -29,7 +43,12 @@ export function RichTextEditor({
   onChange,
   placeholder = 'Start writing your story...',
   className,
+  pronunciations,
+  onAddPronunciation,
+  styleCheck,
 }: RichTextEditorProps) {
+  const [noteRange, setNoteRange] = useState<{ from: number; to: number; term: string; guide: string } | null>(null);
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -45,6 +64,7 @@ export function RichTextEditor({
       Placeholder.configure({
         placeholder,
       }),
+      Pronunciation,
     ],
     content,
     immediatelyRender: false,
@@ -63,6 +83,30 @@ export function RichTextEditor({
     return null;
   }
 
+  const suggestions = pronunciations ? findPronunciationSuggestions(editor.getHTML(), pronunciations) : [];
+
+  // Note the selected word, or edit the note under the cursor
+  const openNoteDialog = () => {
+    if (editor.isActive('pronunciation')) {
+      editor.chain().focus().extendMarkRange('pronunciation').run();
+    }
+    const { from, to } = editor.state.selection;
+    const term = editor.state.doc.textBetween(from, to, ' ').trim();
+    if (!term) return;
+    setNoteRange({ from, to, term, guide: editor.getAttributes('pronunciation').guide ?? '' });
+  };
+
+  const saveNote = (guide: string | null) => {
+    if (!noteRange) return;
+    const chain = editor.chain().focus().setTextSelection({ from: noteRange.from, to: noteRange.to });
+    if (guide) {
+      chain.setPronunciation(guide).run();
+    } else {
+      chain.unsetPronunciation().run();
+    }
+    setNoteRange(null);
+  };
+
   const ToolbarButton = ({ 
     onClick, 
     isActive, 
@@ -152,6 +196,20 @@ export function RichTextEditor({
           </ToolbarButton>
         </div>
 
+        {pronunciations && (
+          <>
+            <div className="w-px h-6 bg-zinc-300 mx-1" />
+
+            <ToolbarButton
+              onClick={openNoteDialog}
+              isActive={editor.isActive('pronunciation')}
+              disabled={editor.state.selection.empty && !editor.isActive('pronunciation')}
+            >
+              <Speech className="h-4 w-4" />
+            </ToolbarButton>
+          </>
+        )}
+
         <div className="w-px h-6 bg-zinc-300 mx-1" />
 
         <div className="flex items-center gap-1">
@@ -170,10 +228,41 @@ export function RichTextEditor({
         </div>
       </div>
 
+      {/* Dictionary names found in the copy without a note yet */}
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-zinc-200 bg-amber-50 text-xs">
+          <span className="text-amber-800">Add pronunciation:</span>
+          {suggestions.map(entry => (
+            <button
+              key={entry.term}
+              type="button"
+              onClick={() => applyPronunciationEverywhere(editor, entry.term, entry.guide)}
+              className="rounded-full border border-amber-300 bg-white px-2 py-0.5 text-amber-900 hover:bg-amber-100"
+            >
+              {entry.term} <span className="text-amber-600">· {entry.guide}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Editor */}
       <div className="min-h-[200px] bg-white">
         <EditorContent editor={editor} />
       </div>
+
+      {styleCheck && <StyleCheckPanel editor={editor} result={styleCheck} />}
+
+      {pronunciations && (
+        <PronunciationNoteDialog
+          open={!!noteRange}
+          onClose={() => setNoteRange(null)}
+          term={noteRange?.term ?? ''}
+          currentGuide={noteRange?.guide ?? ''}
+          dictionary={pronunciations}
+          onSave={saveNote}
+          onAddToDictionary={onAddPronunciation}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -12,6 +12,9 @@ export interface ChecklistItem {
   label: string;
   checked: boolean;
   required: boolean;
+  description?: string;
+  // Worked out automatically rather than ticked by hand; shows `checked`
+  disabled?: boolean;
 }
 
 export interface StageTransitionModalProps {
@@ -67,7 +70,7 @@ export function StageTransitionModal({
   // Check if all required items are checked
   const allRequiredChecked = checklistItems
     .filter(item => item.required)
-    .every(item => checklist[item.id]);
+    .every(item => (item.disabled ? item.checked : checklist[item.id]));
 
   // Check if assignment is valid
   const isAssignmentValid = !requiresAssignment || assignedUserId !== '';
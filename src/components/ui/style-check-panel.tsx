@@ -0,0 +1,96 @@
+'use client';
+
+import type { Editor } from '@tiptap/react';
+import clsx from 'clsx';
+import { formatDuration } from '@/lib/bulletin-duration';
+import type { StyleCheckResult, StyleIssue } from '@/lib/style-check';
+
+interface StyleCheckPanelProps {
+  editor: Editor;
+  result: StyleCheckResult;
+}
+
+// First place the exact text appears in the document, within a single text node
+function findText(editor: Editor, text: string): { from: number; to: number } | null {
+  let found: { from: number; to: number } | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    if (found) return false;
+    if (!node.isText || !node.text) return;
+    const index = node.text.indexOf(text);
+    if (index !== -1) found = { from: pos + index, to: pos + index + text.length };
+  });
+  return found;
+}
+
+/**
+ * Word count, reading time and house-style issues shown under the editor.
+ * Issues can be found in the copy, and fixed when the rule has a replacement.
+ */
+export function StyleCheckPanel({ editor, result }: StyleCheckPanelProps) {
+  const { wordCount, readingSeconds, wordTarget, issues } = result;
+
+  const showIssue = (issue: StyleIssue) => {
+    const range = issue.match ? findText(editor, issue.match) : null;
+    if (range) editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+  };
+
+  const fixIssue = (issue: StyleIssue) => {
+    const range = issue.match ? findText(editor, issue.match) : null;
+    if (range && issue.suggestion) editor.chain().focus().insertContentAt(range, issue.suggestion).run();
+  };
+
+  const target = wordTarget
+    ? [wordTarget.minWords, wordTarget.maxWords].every(n => n !== null)
+      ? `${wordTarget.minWords}–${wordTarget.maxWords}`
+      : wordTarget.minWords !== null
+      ? `at least ${wordTarget.minWords}`
+      : `at most ${wordTarget.maxWords}`
+    : null;
+
+  return (
+    <div className="border-t border-zinc-200 bg-zinc-50 px-3 py-2 text-xs text-zinc-600">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <span>{wordCount} words</span>
+        <span>{formatDuration(readingSeconds)} to read</span>
+        {target && <span>Target {target} words ({wordTarget?.categoryName})</span>}
+        <span className={clsx('ml-auto font-medium', issues.length === 0 ? 'text-green-700' : 'text-amber-700')}>
+          {issues.length === 0 ? 'House style OK' : `${issues.length} style ${issues.length === 1 ? 'issue' : 'issues'}`}
+        </span>
+      </div>
+      {issues.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {issues.map((issue, index) => (
+            <li key={`${issue.kind}-${issue.match ?? index}`} className="flex items-baseline gap-2">
+              <span
+                className={clsx(
+                  'inline-block h-2 w-2 shrink-0 rounded-full',
+                  issue.severity === 'error' ? 'bg-red-500' : 'bg-amber-400'
+                )}
+              />
+              {issue.match && (
+                <button
+                  type="button"
+                  onClick={() => showIssue(issue)}
+                  className="font-medium text-zinc-900 underline decoration-dotted hover:text-kelly-green"
+                  title="Show in the copy"
+                >
+                  {issue.match}
+                </button>
+              )}
+              <span>{issue.message}</span>
+              {issue.match && issue.suggestion && (
+                <button
+                  type="button"
+                  onClick={() => fixIssue(issue)}
+                  className="text-kelly-green hover:underline"
+                >
+                  Use &ldquo;{issue.suggestion}&rdquo;
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
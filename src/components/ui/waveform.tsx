@@ -0,0 +1,57 @@
+'use client';
+
+import clsx from 'clsx';
+
+interface WaveformProps {
+  // Peak levels between 0 and 1
+  peaks: number[];
+  // Share of the clip played so far, 0-1
+  progress?: number;
+  // Optional highlighted region, as shares of the clip (e.g. a trim)
+  selection?: { start: number; end: number };
+  className?: string;
+}
+
+/**
+ * Bar waveform drawn from stored peak data; bars before the playhead are
+ * filled in.
+ */
+export function Waveform({ peaks, progress = 0, selection, className }: WaveformProps) {
+  const width = peaks.length;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} 100`}
+      preserveAspectRatio="none"
+      className={clsx('w-full h-full', className)}
+      aria-hidden="true"
+    >
+      {selection && (
+        <rect
+          x={selection.start * width}
+          y={0}
+          width={Math.max(0, (selection.end - selection.start) * width)}
+          height={100}
+          className="fill-kelly-green/10"
+        />
+      )}
+      {peaks.map((peak, index) => {
+        const height = Math.max(2, peak * 100);
+        const played = index / width < progress;
+        const outside = selection && (index / width < selection.start || index / width >= selection.end);
+        return (
+          <rect
+            key={index}
+            x={index + 0.15}
+            y={(100 - height) / 2}
+            width={0.7}
+            height={height}
+            className={clsx(
+              outside ? 'fill-zinc-200 dark:fill-zinc-700' : played ? 'fill-kelly-green' : 'fill-zinc-400 dark:fill-zinc-500'
+            )}
+          />
+        );
+      })}
+    </svg>
+  );
+}
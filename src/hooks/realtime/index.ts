@@ -1,2 +1,4 @@
 export { useAblyConnection } from './useAblyConnection';
 export { useChannel } from './useChannel';
+export { useStoryPresence } from './useStoryPresence';
+export type { StoryEditor } from './useStoryPresence';
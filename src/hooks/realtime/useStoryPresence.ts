@@ -0,0 +1,72 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type * as Ably from 'ably';
+import { useAbly } from '@/components/providers/AblyProvider';
+import { CHANNELS } from '@/lib/ably/channels';
+
+export interface StoryEditor {
+  clientId: string;
+  name: string;
+  since: number;
+}
+
+interface StoryPresenceData {
+  storyId: string;
+  name: string;
+}
+
+/**
+ * Announce that the current user is editing a story and list the other
+ * users editing it. Presence is shared on the stories channel and filtered
+ * by storyId, so no per-story channel capability is needed.
+ */
+export function useStoryPresence(storyId: string, name: string | undefined) {
+  const { client, isConnected } = useAbly();
+  const [editors, setEditors] = useState<StoryEditor[]>([]);
+
+  useEffect(() => {
+    if (!client || !isConnected || !storyId || !name) return;
+
+    const channel = client.channels.get(CHANNELS.STORIES);
+    const ownClientId = client.auth.clientId;
+    let active = true;
+
+    const refresh = async () => {
+      const members = await channel.presence.get();
+      if (!active) return;
+
+      setEditors(
+        members
+          .filter((member) => {
+            const data = member.data as StoryPresenceData | undefined;
+            return data?.storyId === storyId && member.clientId !== ownClientId;
+          })
+          .map((member) => ({
+            clientId: member.clientId,
+            name: (member.data as StoryPresenceData).name,
+            since: member.timestamp,
+          }))
+      );
+    };
+
+    const handlePresence = (_message: Ably.PresenceMessage) => {
+      refresh().catch(() => {});
+    };
+
+    channel.presence.subscribe(handlePresence);
+    channel.presence
+      .enter({ storyId, name } satisfies StoryPresenceData)
+      .then(refresh)
+      .catch(() => {});
+
+    return () => {
+      active = false;
+      channel.presence.unsubscribe(handlePresence);
+      channel.presence.leave().catch(() => {});
+      setEditors([]);
+    };
+  }, [client, isConnected, storyId, name]);
+
+  return editors;
+}
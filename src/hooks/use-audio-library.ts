@@ -1,4 +1,19 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { AudioTrimFields } from '@/lib/audio-trim';
+
+export type AudioProcessingStatus = 'PENDING' | 'PROCESSING' | 'READY' | 'FAILED';
+
+export type AudioRightsSource = 'STAFF' | 'CONTRIBUTOR' | 'AGENCY' | 'LICENSED' | 'PUBLIC_DOMAIN';
+
+export interface AudioCollection {
+  id: string;
+  name: string;
+  description?: string | null;
+  createdAt: string;
+  _count?: {
+    clips: number;
+  };
+}
 
 export interface AudioClip {
   id: string;
@@ -11,6 +26,27 @@ export interface AudioClip {
   title?: string | null;
   description?: string | null;
   tags: string[];
+  collection?: {
+    id: string;
+    name: string;
+  } | null;
+  rightsSource?: AudioRightsSource | null;
+  copyrightHolder?: string | null;
+  licenceExpiry?: string | null;
+  doNotReuseAfter?: string | null;
+  rightsNotes?: string | null;
+  // Linked to something that has gone, or is going, to air today
+  onAirToday?: boolean;
+  processingStatus?: AudioProcessingStatus;
+  processingError?: string | null;
+  processedAt?: string | null;
+  originalUrl?: string | null;
+  loudness?: number | null;
+  truePeak?: number | null;
+  sampleRate?: number | null;
+  channels?: number | null;
+  normalisedLoudness?: number | null;
+  waveform?: number[] | null;
   createdAt: string;
   updatedAt?: string;
   uploader?: {
@@ -24,12 +60,70 @@ export interface AudioClip {
   } | null;
   _count?: {
     stories: number;
+    episodes?: number;
+    podcastEpisodes?: number;
   };
 }
 
+// Library details a clip's uploader or a sub-editor can change; rights days
+// are YYYY-MM-DD and null clears a value
+export interface AudioClipUpdate {
+  title?: string;
+  description?: string;
+  tags?: string[];
+  collectionId?: string | null;
+  rightsSource?: AudioRightsSource | null;
+  copyrightHolder?: string | null;
+  licenceExpiry?: string | null;
+  doNotReuseAfter?: string | null;
+  rightsNotes?: string | null;
+}
+
+export interface AudioClipUsage {
+  stories: {
+    id: string;
+    createdAt: string;
+    story: { id: string; title: string; language: string; stage: string | null; status: string; publishedAt: string | null };
+  }[];
+  bulletins: {
+    id: string;
+    title: string;
+    status: string;
+    scheduledFor: string | null;
+    publishedAt: string | null;
+  }[];
+  episodes: {
+    id: string;
+    createdAt: string;
+    episode: {
+      id: string;
+      title: string;
+      episodeNumber: number;
+      status: string;
+      publishedAt: string | null;
+      show: { id: string; title: string };
+    };
+  }[];
+  podcastEpisodes: {
+    id: string;
+    createdAt: string;
+    episode: {
+      id: string;
+      title: string;
+      episodeNumber: number;
+      status: string;
+      publishedAt: string | null;
+      podcast: { id: string; title: string };
+    };
+  }[];
+  onAirToday: boolean;
+}
+
 export interface AudioLibraryFilters {
   query?: string;
   tags?: string[];
+  // A collection id, or "none" for clips not in any collection
+  collectionId?: string;
   page?: number;
   perPage?: number;
 }
@@ -43,6 +137,7 @@ export function useAudioLibrary(filters: AudioLibraryFilters = {}) {
 
       if (filters.query) params.set('query', filters.query);
       if (filters.tags && filters.tags.length > 0) params.set('tags', filters.tags.join(','));
+      if (filters.collectionId) params.set('collectionId', filters.collectionId);
       if (filters.page) params.set('page', String(filters.page));
       if (filters.perPage) params.set('perPage', String(filters.perPage));
 
@@ -50,6 +145,13 @@ export function useAudioLibrary(filters: AudioLibraryFilters = {}) {
       if (!response.ok) throw new Error('Failed to fetch audio library');
       return response.json();
     },
+    // Keep checking while clips on the page are still being processed
+    refetchInterval: (query) => {
+      const clips: AudioClip[] = query.state.data?.clips ?? [];
+      return clips.some(clip => clip.processingStatus === 'PENDING' || clip.processingStatus === 'PROCESSING')
+        ? 30000
+        : false;
+    },
   });
 }
 
@@ -71,7 +173,7 @@ export function useUpdateAudioClip() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ id, data }: { id: string; data: { title?: string; description?: string; tags?: string[] } }) => {
+    mutationFn: async ({ id, data }: { id: string; data: AudioClipUpdate }) => {
       const response = await fetch(`/api/newsroom/audio-library/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
@@ -88,6 +190,107 @@ export function useUpdateAudioClip() {
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['audio-library'] });
       queryClient.invalidateQueries({ queryKey: ['audio-clip', id] });
+      queryClient.invalidateQueries({ queryKey: ['audio-collections'] });
+    },
+  });
+}
+
+// Where a clip is used: stories, bulletins, show and podcast episodes
+export function useAudioClipUsage(id: string) {
+  return useQuery<AudioClipUsage>({
+    queryKey: ['audio-clip-usage', id],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/audio-library/${id}/usage`);
+      if (!response.ok) throw new Error('Failed to fetch audio clip usage');
+      return response.json();
+    },
+    enabled: !!id,
+  });
+}
+
+// Fetch audio library collections
+export function useAudioCollections() {
+  return useQuery<{ collections: AudioCollection[] }>({
+    queryKey: ['audio-collections'],
+    queryFn: async () => {
+      const response = await fetch('/api/newsroom/audio-library/collections');
+      if (!response.ok) throw new Error('Failed to fetch collections');
+      return response.json();
+    },
+  });
+}
+
+// Create an audio library collection
+export function useCreateAudioCollection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { name: string; description?: string }) => {
+      const response = await fetch('/api/newsroom/audio-library/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create collection');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['audio-collections'] });
+    },
+  });
+}
+
+// Rename an audio library collection
+export function useUpdateAudioCollection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { name?: string; description?: string | null } }) => {
+      const response = await fetch(`/api/newsroom/audio-library/collections/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update collection');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['audio-collections'] });
+      queryClient.invalidateQueries({ queryKey: ['audio-library'] });
+    },
+  });
+}
+
+// Delete an audio library collection; its clips stay in the library
+export function useDeleteAudioCollection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/audio-library/collections/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete collection');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['audio-collections'] });
+      queryClient.invalidateQueries({ queryKey: ['audio-library'] });
     },
   });
 }
@@ -116,6 +319,30 @@ export function useDeleteAudioClip() {
   });
 }
 
+// Queue a clip to be loudness-normalised again
+export function useReprocessAudioClip() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/audio-library/${id}/process`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reprocess audio clip');
+      }
+
+      return response.json();
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ['audio-library'] });
+      queryClient.invalidateQueries({ queryKey: ['audio-clip', id] });
+    },
+  });
+}
+
 // Link existing library clips to a story
 export function useLinkAudioToStory(storyId: string) {
   const queryClient = useQueryClient();
@@ -165,3 +392,28 @@ export function useUnlinkAudioFromStory(storyId: string) {
     },
   });
 }
+
+// Set the trim and fades for a clip in a story
+export function useTrimStoryAudio(storyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ audioClipId, trim }: { audioClipId: string; trim: AudioTrimFields }) => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/audio?clipId=${audioClipId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(trim),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save trim');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story', storyId] });
+    },
+  });
+}
@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+export interface BreakingNewsAlertSummary {
+  id: string;
+  headline: string;
+  message: string | null;
+  storyId: string | null;
+  bulletinId: string | null;
+  createdAt: string;
+  createdBy: { id: string; firstName: string; lastName: string };
+  story: { id: string; title: string } | null;
+  bulletin: { id: string; title: string } | null;
+  stationCount: number;
+  acknowledgedCount: number;
+}
+
+export interface BreakingNewsAlertDetail extends Omit<BreakingNewsAlertSummary, 'stationCount' | 'acknowledgedCount'> {
+  stations: Array<{
+    id: string;
+    acknowledgedAt: string | null;
+    station: { id: string; name: string; province: string };
+    acknowledgedBy: { id: string; firstName: string; lastName: string } | null;
+  }>;
+}
+
+export interface StationBreakingNewsAlert {
+  id: string;
+  headline: string;
+  message: string | null;
+  url: string;
+  createdAt: string;
+}
+
+export interface BreakingNewsFormData {
+  storyId?: string;
+  bulletinId?: string;
+  headline: string;
+  message?: string;
+}
+
+// Fetch recent breaking news alerts, optionally for one story or bulletin
+export function useBreakingNewsAlerts(filters: { storyId?: string; bulletinId?: string } = {}, enabled = true) {
+  return useQuery<{ alerts: BreakingNewsAlertSummary[] }>({
+    queryKey: ['breaking-news', filters],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (filters.storyId) params.set('storyId', filters.storyId);
+      if (filters.bulletinId) params.set('bulletinId', filters.bulletinId);
+      const response = await fetch(`/api/newsroom/breaking-news?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch breaking news alerts');
+      }
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+// Fetch which stations have acknowledged an alert
+export function useBreakingNewsAlert(alertId: string | null) {
+  return useQuery<{ alert: BreakingNewsAlertDetail }>({
+    queryKey: ['breaking-news-alert', alertId],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/breaking-news/${alertId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch breaking news alert');
+      }
+      return response.json();
+    },
+    enabled: !!alertId,
+  });
+}
+
+// Push a breaking news alert to stations
+export function useSendBreakingNews() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: BreakingNewsFormData) => {
+      const response = await fetch('/api/newsroom/breaking-news', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to send breaking news alert');
+      }
+
+      return response.json() as Promise<{ stationsAlerted: number; emailsSent: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['breaking-news'] });
+    },
+  });
+}
+
+// Breaking news alerts the signed-in user's station hasn't acknowledged
+export function useStationBreakingNews(refetchInterval: number | false = false) {
+  return useQuery<{ alerts: StationBreakingNewsAlert[] }>({
+    queryKey: ['radio-breaking-news'],
+    queryFn: async () => {
+      const response = await fetch('/api/radio/breaking-news');
+      if (!response.ok) {
+        throw new Error('Failed to fetch breaking news alerts');
+      }
+      return response.json();
+    },
+    refetchInterval,
+  });
+}
+
+// Acknowledge an alert for the whole station
+export function useAcknowledgeBreakingNews() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (alertId: string) => {
+      const response = await fetch(`/api/radio/breaking-news/${alertId}/acknowledge`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to acknowledge alert');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['radio-breaking-news'] });
+    },
+  });
+}
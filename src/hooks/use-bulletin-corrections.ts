@@ -0,0 +1,62 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { BulletinRevisionChanges } from '@/lib/bulletin-revisions';
+
+export interface BulletinCorrection {
+  id: string;
+  revisionNumber: number;
+  correctionNote: string;
+  createdAt: string;
+  createdBy: { id: string; firstName: string; lastName: string };
+  changes: BulletinRevisionChanges;
+}
+
+export interface BulletinCorrectionData {
+  correctionNote: string;
+  title?: string;
+  intro?: string;
+  outro?: string;
+  // New running order; stories left out are dropped
+  storyIds?: string[];
+}
+
+// Fetch the corrections issued for a published bulletin
+export function useBulletinCorrections(bulletinId: string, enabled = true) {
+  return useQuery<{ corrections: BulletinCorrection[] }>({
+    queryKey: ['bulletin-corrections', bulletinId],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/bulletins/${bulletinId}/corrections`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch bulletin corrections');
+      }
+      return response.json();
+    },
+    enabled: !!bulletinId && enabled,
+  });
+}
+
+// Issue a correction to a published bulletin
+export function useIssueBulletinCorrection(bulletinId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: BulletinCorrectionData) => {
+      const response = await fetch(`/api/newsroom/bulletins/${bulletinId}/corrections`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to issue correction');
+      }
+
+      return response.json() as Promise<{ stationsNotified: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bulletin', bulletinId] });
+      queryClient.invalidateQueries({ queryKey: ['bulletin-corrections', bulletinId] });
+      queryClient.invalidateQueries({ queryKey: ['bulletins'] });
+    },
+  });
+}
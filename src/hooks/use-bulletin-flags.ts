@@ -0,0 +1,120 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { BulletinStatus, StoryLanguage, StoryStage } from '@prisma/client';
+
+interface FlagUser {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface BulletinFlag {
+  id: string;
+  storyId: string;
+  language: StoryLanguage;
+  // YYYY-MM-DD at UTC midnight, as stored
+  startDate: string;
+  endDate: string;
+  scheduleId: string | null;
+  flaggedAt: string;
+  removedAt: string | null;
+  story: {
+    id: string;
+    title: string;
+    stage: StoryStage;
+    language: StoryLanguage;
+    category: { name: string } | null;
+  };
+  flaggedBy: FlagUser;
+  removedBy: FlagUser | null;
+  schedule: { id: string; title: string; time: string } | null;
+}
+
+export interface BulletinPick extends BulletinFlag {
+  // Bulletins on the day the story has already been placed in
+  bulletins: { id: string; title: string; status: BulletinStatus; scheduledFor: string | null }[];
+}
+
+export interface StoryBulletinFlag extends BulletinFlag {
+  used: boolean;
+}
+
+export interface FlagStoryData {
+  flagged: boolean;
+  scheduleId?: string | null;
+  startDate?: string;
+  endDate?: string;
+  flagId?: string;
+}
+
+// Fetch the picks for a day (YYYY-MM-DD), optionally for one language
+export function useBulletinPicks(date: string, language?: StoryLanguage | '') {
+  return useQuery<{ date: string; picks: BulletinPick[] }>({
+    queryKey: ['bulletin-flags', 'picks', date, language],
+    queryFn: async () => {
+      const params = new URLSearchParams({ date });
+      if (language) params.append('language', language);
+      const response = await fetch(`/api/newsroom/bulletin-flags?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch bulletin picks');
+      }
+      return response.json();
+    },
+  });
+}
+
+// Fetch picks that ended between two days without making it into a bulletin
+export function useUnusedBulletinPicks(from: string, to: string) {
+  return useQuery<{ from: string; to: string; flags: BulletinFlag[] }>({
+    queryKey: ['bulletin-flags', 'unused', from, to],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from, to });
+      const response = await fetch(`/api/newsroom/bulletin-flags/unused?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch unused picks');
+      }
+      return response.json();
+    },
+  });
+}
+
+// Fetch every pick made for a story
+export function useStoryBulletinFlags(storyId: string, enabled = true) {
+  return useQuery<{ flags: StoryBulletinFlag[] }>({
+    queryKey: ['bulletin-flags', 'story', storyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/flag`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch bulletin flags');
+      }
+      return response.json();
+    },
+    enabled: enabled && !!storyId,
+  });
+}
+
+// Flag a story for a slot or run of days, or withdraw its picks
+export function useFlagStoryForBulletin(storyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: FlagStoryData) => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/flag`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update bulletin flag');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['bulletin-flags'] });
+      queryClient.invalidateQueries({ queryKey: ['stories'] });
+      queryClient.invalidateQueries({ queryKey: ['story', storyId] });
+    },
+  });
+}
@@ -12,6 +12,8 @@ export interface Category {
   level: number;
   isParent: boolean;
   isEditable: boolean;
+  minWords: number | null;
+  maxWords: number | null;
   createdAt: string;
   updatedAt: string;
   parent?: {
@@ -42,6 +44,8 @@ export interface UpdateCategoryData {
   descriptionAfrikaans?: string;
   color?: string;
   parentId?: string;
+  minWords?: number | null;
+  maxWords?: number | null;
 }
 
 // Fetch categories
@@ -1,5 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Episode, CreateEpisodeData, UpdateEpisodeData, PublishEpisodeData } from './use-shows';
+import type { AudioTrimFields } from '@/lib/audio-trim';
+import { uploadAudioFiles, type UploadProgress } from '@/lib/resumable-upload';
 
 // Fetch episodes for a show
 export function useEpisodes(showId: string | null) {
@@ -127,7 +129,7 @@ export function useDeleteEpisode() {
   });
 }
 
-// Upload episode audio via direct-to-R2 presigned URLs
+// Upload episode audio straight to R2, then attach it to the episode
 export function useUploadEpisodeAudio() {
   const queryClient = useQueryClient();
 
@@ -135,60 +137,22 @@ export function useUploadEpisodeAudio() {
     mutationFn: async ({
       showId,
       episodeId,
-      files
+      files,
+      onProgress,
     }: {
       showId: string;
       episodeId: string;
-      files: File[]
+      files: File[];
+      onProgress?: (progress: UploadProgress) => void;
     }) => {
-      // Step 1: Upload each file directly to R2 via presigned URLs
-      const uploads = await Promise.all(
-        files.map(async (file) => {
-          // Get presigned URL from server
-          const presignRes = await fetch('/api/newsroom/upload', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              filename: file.name,
-              contentType: file.type,
-              fileSize: file.size,
-              folder: 'newsroom/shows/audio',
-            }),
-          });
-
-          if (!presignRes.ok) {
-            const err = await presignRes.json().catch(() => ({ error: 'Failed to prepare upload' }));
-            throw new Error(err.error || 'Failed to prepare upload');
-          }
-
-          const { presignedUrl, key, publicUrl } = await presignRes.json();
-
-          // Upload file directly to R2
-          const uploadRes = await fetch(presignedUrl, {
-            method: 'PUT',
-            headers: { 'Content-Type': file.type },
-            body: file,
-          });
-
-          if (!uploadRes.ok) {
-            throw new Error(`Failed to upload ${file.name} to storage`);
-          }
-
-          return {
-            key,
-            publicUrl,
-            originalName: file.name,
-            fileSize: file.size,
-            mimeType: file.type,
-          };
-        })
-      );
+      // Step 1: Send each file straight to R2 in resumable parts
+      const uploadIds = await uploadAudioFiles(files, { folder: 'newsroom/shows/audio', onProgress });
 
-      // Step 2: Confirm uploads with the server to create DB records
+      // Step 2: Finalise the uploads to create the clips and attach them to the episode
       const response = await fetch(`/api/newsroom/shows/${showId}/episodes/${episodeId}/audio`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ uploads }),
+        body: JSON.stringify({ uploadIds }),
       });
 
       if (!response.ok) {
@@ -331,3 +295,44 @@ export function useUnpublishEpisode() {
     },
   });
 }
+
+// Set the trim and fades for a clip in an episode
+export function useTrimEpisodeAudio() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      showId,
+      episodeId,
+      audioClipId,
+      trim,
+    }: {
+      showId: string;
+      episodeId: string;
+      audioClipId: string;
+      trim: AudioTrimFields;
+    }) => {
+      const response = await fetch(
+        `/api/newsroom/shows/${showId}/episodes/${episodeId}/audio?audioClipId=${audioClipId}`,
+        {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(trim),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Failed to save trim' }));
+        throw new Error(error.error || 'Failed to save trim');
+      }
+
+      return response.json();
+    },
+    onSuccess: (data, variables) => {
+      if (data.episode) {
+        queryClient.setQueryData(['episodes', variables.showId, variables.episodeId], data.episode);
+      }
+      queryClient.invalidateQueries({ queryKey: ['episodes', variables.showId, variables.episodeId] });
+    },
+  });
+}
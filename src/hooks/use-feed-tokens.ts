@@ -0,0 +1,84 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+export interface FeedToken {
+  id: string;
+  label: string;
+  tokenHint: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+  createdBy: { id: string; firstName: string; lastName: string };
+}
+
+// A token as returned when it is issued, the only time the token itself is sent
+export type IssuedFeedToken = FeedToken & { token: string };
+
+export type FeedKind = 'podcasts' | 'shows';
+
+// Address a playout system or podcast app subscribes to
+export function feedUrl(kind: FeedKind, slug: string, token: string): string {
+  return `${window.location.origin}/api/feeds/${kind}/${slug}?token=${token}`;
+}
+
+// Fetch the station's feed tokens
+export function useFeedTokens(enabled: boolean = true) {
+  return useQuery<{ tokens: FeedToken[] }>({
+    queryKey: ['feed-tokens'],
+    queryFn: async () => {
+      const response = await fetch('/api/radio/feed-tokens');
+      if (!response.ok) {
+        throw new Error('Failed to fetch feed tokens');
+      }
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+// Issue a feed token
+export function useCreateFeedToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (label: string): Promise<{ token: IssuedFeedToken }> => {
+      const response = await fetch('/api/radio/feed-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create feed token');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['feed-tokens'] });
+    },
+  });
+}
+
+// Revoke a feed token; feeds using it stop working straight away
+export function useRevokeFeedToken() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/radio/feed-tokens/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to revoke feed token');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['feed-tokens'] });
+    },
+  });
+}
@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { TranslationLanguage } from '@prisma/client';
+
+export interface GlossaryTerm {
+  id: string;
+  term: string;
+  language: TranslationLanguage;
+  translation: string;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GlossaryTermFormData {
+  term: string;
+  language: TranslationLanguage;
+  translation: string;
+  notes?: string | null;
+}
+
+// Fetch glossary terms, optionally for a single target language
+export function useGlossaryTerms(language?: TranslationLanguage, enabled: boolean = true) {
+  return useQuery<{ terms: GlossaryTerm[] }>({
+    queryKey: ['glossary', language ?? 'all'],
+    queryFn: async () => {
+      const params = language ? `?language=${language}` : '';
+      const response = await fetch(`/api/newsroom/glossary${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch glossary');
+      }
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+// Create glossary term
+export function useCreateGlossaryTerm() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: GlossaryTermFormData) => {
+      const response = await fetch('/api/newsroom/glossary', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create glossary term');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['glossary'] });
+    },
+  });
+}
+
+// Update glossary term
+export function useUpdateGlossaryTerm() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<GlossaryTermFormData> }) => {
+      const response = await fetch(`/api/newsroom/glossary/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update glossary term');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['glossary'] });
+    },
+  });
+}
+
+// Delete glossary term
+export function useDeleteGlossaryTerm() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/glossary/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete glossary term');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['glossary'] });
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { PodcastEpisode, CreatePodcastEpisodeData, UpdatePodcastEpisodeData, PublishPodcastEpisodeData } from './use-podcasts';
+import { uploadAudioFiles, type UploadProgress } from '@/lib/resumable-upload';
 
 // Fetch episodes for a podcast
 export function usePodcastEpisodes(podcastId: string | null) {
@@ -127,7 +128,7 @@ export function useDeletePodcastEpisode() {
   });
 }
 
-// Upload episode audio via direct-to-R2 presigned URLs
+// Upload episode audio straight to R2, then attach it to the episode
 export function useUploadPodcastEpisodeAudio() {
   const queryClient = useQueryClient();
 
@@ -135,60 +136,22 @@ export function useUploadPodcastEpisodeAudio() {
     mutationFn: async ({
       podcastId,
       episodeId,
-      files
+      files,
+      onProgress,
     }: {
       podcastId: string;
       episodeId: string;
-      files: File[]
+      files: File[];
+      onProgress?: (progress: UploadProgress) => void;
     }) => {
-      // Step 1: Upload each file directly to R2 via presigned URLs
-      const uploads = await Promise.all(
-        files.map(async (file) => {
-          // Get presigned URL from server
-          const presignRes = await fetch('/api/newsroom/upload', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              filename: file.name,
-              contentType: file.type,
-              fileSize: file.size,
-              folder: 'newsroom/podcasts/audio',
-            }),
-          });
-
-          if (!presignRes.ok) {
-            const err = await presignRes.json().catch(() => ({ error: 'Failed to prepare upload' }));
-            throw new Error(err.error || 'Failed to prepare upload');
-          }
-
-          const { presignedUrl, key, publicUrl } = await presignRes.json();
-
-          // Upload file directly to R2
-          const uploadRes = await fetch(presignedUrl, {
-            method: 'PUT',
-            headers: { 'Content-Type': file.type },
-            body: file,
-          });
-
-          if (!uploadRes.ok) {
-            throw new Error(`Failed to upload ${file.name} to storage`);
-          }
-
-          return {
-            key,
-            publicUrl,
-            originalName: file.name,
-            fileSize: file.size,
-            mimeType: file.type,
-          };
-        })
-      );
+      // Step 1: Send each file straight to R2 in resumable parts
+      const uploadIds = await uploadAudioFiles(files, { folder: 'newsroom/podcasts/audio', onProgress });
 
-      // Step 2: Confirm uploads with the server to create DB records
+      // Step 2: Finalise the uploads to create the clips and attach them to the episode
       const response = await fetch(`/api/newsroom/podcasts/${podcastId}/episodes/${episodeId}/audio`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ uploads }),
+        body: JSON.stringify({ uploadIds }),
       });
 
       if (!response.ok) {
@@ -0,0 +1,124 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useSession } from 'next-auth/react';
+import { canManagePronunciations } from '@/lib/permissions';
+import type { PronunciationGuide } from '@/lib/pronunciation';
+
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  guide: string;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PronunciationEntryFormData {
+  term: string;
+  guide: string;
+  notes?: string | null;
+}
+
+// Fetch the pronunciation dictionary
+export function usePronunciations(enabled: boolean = true) {
+  return useQuery<{ entries: PronunciationEntry[] }>({
+    queryKey: ['pronunciations'],
+    queryFn: async () => {
+      const response = await fetch('/api/newsroom/pronunciations');
+      if (!response.ok) {
+        throw new Error('Failed to fetch pronunciations');
+      }
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+// Create pronunciation entry
+export function useCreatePronunciation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: PronunciationEntryFormData) => {
+      const response = await fetch('/api/newsroom/pronunciations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add pronunciation');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pronunciations'] });
+    },
+  });
+}
+
+// Update pronunciation entry
+export function useUpdatePronunciation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<PronunciationEntryFormData> }) => {
+      const response = await fetch(`/api/newsroom/pronunciations/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update pronunciation');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pronunciations'] });
+    },
+  });
+}
+
+// Delete pronunciation entry
+export function useDeletePronunciation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/pronunciations/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete pronunciation');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pronunciations'] });
+    },
+  });
+}
+
+const NO_ENTRIES: PronunciationEntry[] = [];
+
+// Props for the rich-text editor that turn on pronunciation notes, with
+// saving to the dictionary for those allowed to maintain it
+export function usePronunciationEditor() {
+  const { data: session } = useSession();
+  const { data } = usePronunciations();
+  const createMutation = useCreatePronunciation();
+
+  return {
+    pronunciations: data?.entries ?? NO_ENTRIES,
+    onAddPronunciation: canManagePronunciations(session?.user?.staffRole ?? null)
+      ? (entry: PronunciationGuide) => createMutation.mutateAsync(entry)
+      : undefined,
+  };
+}
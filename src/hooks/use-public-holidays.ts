@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+
+export interface PublicHoliday {
+  // "YYYY-MM-DD"
+  date: string;
+  name: string;
+  // Statutory holidays are built in; custom ones were added by an admin
+  source: 'STATUTORY' | 'CUSTOM';
+  id?: string;
+}
+
+export interface PublicHolidayFormData {
+  date: string;
+  name: string;
+}
+
+// Fetch the public holidays for a year
+export function usePublicHolidays(year: number) {
+  return useQuery<{ year: number; holidays: PublicHoliday[] }>({
+    queryKey: ['public-holidays', year],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/public-holidays?year=${year}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch public holidays');
+      }
+      return response.json();
+    },
+  });
+}
+
+// Declare an ad-hoc public holiday
+export function useCreatePublicHoliday() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: PublicHolidayFormData) => {
+      const response = await fetch('/api/newsroom/public-holidays', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to add public holiday');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['public-holidays'] });
+    },
+  });
+}
+
+// Update an ad-hoc public holiday
+export function useUpdatePublicHoliday() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<PublicHolidayFormData> }) => {
+      const response = await fetch(`/api/newsroom/public-holidays/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update public holiday');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['public-holidays'] });
+    },
+  });
+}
+
+// Delete an ad-hoc public holiday
+export function useDeletePublicHoliday() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/public-holidays/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete public holiday');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['public-holidays'] });
+    },
+  });
+}
@@ -0,0 +1,42 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { ReadingSpeeds } from '@/lib/bulletin-duration';
+
+// Fetch newsreader words per minute for every bulletin language
+export function useReadingSpeeds() {
+  return useQuery<{ speeds: ReadingSpeeds }>({
+    queryKey: ['reading-speeds'],
+    queryFn: async () => {
+      const response = await fetch('/api/newsroom/bulletins/reading-speeds');
+      if (!response.ok) {
+        throw new Error('Failed to fetch reading speeds');
+      }
+      return response.json();
+    },
+  });
+}
+
+// Update words per minute for one or more languages
+export function useUpdateReadingSpeeds() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (speeds: Partial<ReadingSpeeds>) => {
+      const response = await fetch('/api/newsroom/bulletins/reading-speeds', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(speeds),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update reading speeds');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reading-speeds'] });
+      queryClient.invalidateQueries({ queryKey: ['bulletin'] });
+    },
+  });
+}
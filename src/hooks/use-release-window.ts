@@ -0,0 +1,66 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { Province } from '@prisma/client';
+
+export interface ReleaseWindowData {
+  // ISO timestamps; null clears them
+  embargoUntil: string | null;
+  exclusiveUntil: string | null;
+  exclusiveStationIds: string[];
+  exclusiveProvinces: Province[];
+}
+
+export interface NewsroomStation {
+  id: string;
+  name: string;
+  province: Province;
+}
+
+// Fetch active stations to offer as exclusive recipients
+export function useNewsroomStations(enabled = true) {
+  return useQuery<{ stations: NewsroomStation[] }>({
+    queryKey: ['newsroom-stations'],
+    queryFn: async () => {
+      const response = await fetch('/api/newsroom/stations');
+      if (!response.ok) {
+        throw new Error('Failed to fetch stations');
+      }
+      return response.json();
+    },
+    enabled,
+  });
+}
+
+// Set or clear the embargo and exclusivity window of a story or bulletin
+export function useSetReleaseWindow(target: { storyId: string } | { bulletinId: string }) {
+  const queryClient = useQueryClient();
+  const url =
+    'storyId' in target
+      ? `/api/newsroom/stories/${target.storyId}/release`
+      : `/api/newsroom/bulletins/${target.bulletinId}/release`;
+
+  return useMutation({
+    mutationFn: async (data: ReleaseWindowData) => {
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update release window');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      if ('storyId' in target) {
+        queryClient.invalidateQueries({ queryKey: ['story', target.storyId] });
+        queryClient.invalidateQueries({ queryKey: ['stories'] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['bulletin', target.bulletinId] });
+        queryClient.invalidateQueries({ queryKey: ['bulletins'] });
+      }
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { EpisodeStatus } from '@prisma/client';
+import type { AudioTrim } from '@/lib/audio-trim';
 
 // Types for show data
 export interface Show {
@@ -71,6 +72,10 @@ export interface Episode {
     duration: number | null;
     fileSize?: number;
     mimeType: string;
+    waveform?: number[] | null;
+    // This episode's trim; url then serves the trimmed audio and sourceUrl the whole clip
+    trim?: AudioTrim | null;
+    sourceUrl?: string;
     createdAt: string;
   }>;
   publisher?: {
@@ -197,7 +197,7 @@ export interface UpdateStoryStatusData {
   assignedToId?: string;
   reviewerId?: string;
   categoryId?: string;
-  language?: 'ENGLISH' | 'AFRIKAANS' | 'XHOSA';
+  language?: 'ENGLISH' | 'AFRIKAANS' | 'XHOSA' | 'ZULU';
   tagIds?: string[];
   classificationIds?: string[];
 }
@@ -352,31 +352,3 @@ export function useDeleteStory() {
     },
   });
 }
-
-// Toggle story bulletin flag mutation
-export function useToggleStoryBulletinFlag() {
-  const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: async ({ id, flagged }: { id: string; flagged: boolean }) => {
-      const response = await fetch(`/api/newsroom/stories/${id}/flag`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ flagged }),
-      });
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to toggle bulletin flag');
-      }
-
-      return response.json();
-    },
-    onSuccess: (_, { id }) => {
-      queryClient.invalidateQueries({ queryKey: ['stories'] });
-      queryClient.invalidateQueries({ queryKey: ['story', id] });
-    },
-  });
-}
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { StoryLanguage, StoryStage } from '@prisma/client';
+
+export interface StoryGroupStory {
+  id: string;
+  title: string;
+  language: StoryLanguage;
+  stage: StoryStage | null;
+  isTranslation: boolean;
+  originalStoryId: string | null;
+  sourceChangedAt: string | null;
+}
+
+export interface StoryGroupReadiness {
+  ready: boolean;
+  stories: StoryGroupStory[];
+  blocking: StoryGroupStory[];
+  byLanguage: {
+    language: StoryLanguage;
+    total: number;
+    ready: number;
+    published: number;
+    blocking: number;
+  }[];
+}
+
+export interface StoryGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  publishTogether: boolean;
+  scheduledPublishAt: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  readiness: StoryGroupReadiness;
+}
+
+export interface CreateStoryGroupData {
+  name: string;
+  description?: string;
+  publishTogether?: boolean;
+  storyIds: string[];
+}
+
+export interface UpdateStoryGroupData {
+  name?: string;
+  description?: string | null;
+  publishTogether?: boolean;
+  addStoryIds?: string[];
+  removeStoryIds?: string[];
+}
+
+// Fetch story groups with readiness
+export function useStoryGroups(includePublished = false) {
+  return useQuery<{ groups: StoryGroup[] }>({
+    queryKey: ['story-groups', { includePublished }],
+    queryFn: async () => {
+      const params = includePublished ? '?includePublished=true' : '';
+      const response = await fetch(`/api/newsroom/story-groups${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch story groups');
+      }
+      return response.json();
+    },
+  });
+}
+
+// Create story group
+export function useCreateStoryGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateStoryGroupData) => {
+      const response = await fetch('/api/newsroom/story-groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create story group');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story-groups'] });
+    },
+  });
+}
+
+// Update story group details or membership
+export function useUpdateStoryGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateStoryGroupData }) => {
+      const response = await fetch(`/api/newsroom/story-groups/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update story group');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story-groups'] });
+    },
+  });
+}
+
+// Delete story group (member stories are kept)
+export function useDeleteStoryGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/story-groups/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete story group');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story-groups'] });
+    },
+  });
+}
+
+// Publish a group now, or schedule it when scheduledPublishAt is given
+export function usePublishStoryGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, scheduledPublishAt }: { id: string; scheduledPublishAt?: string }) => {
+      const response = await fetch(`/api/newsroom/story-groups/${id}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(scheduledPublishAt ? { scheduledPublishAt } : {}),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to publish story group');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story-groups'] });
+      queryClient.invalidateQueries({ queryKey: ['stories'] });
+    },
+  });
+}
+
+// Cancel a scheduled group release
+export function useCancelStoryGroupSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/story-groups/${id}/publish`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to cancel scheduled publishing');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story-groups'] });
+    },
+  });
+}
@@ -0,0 +1,80 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { StoryStage, StoryVersionChangeType } from '@prisma/client';
+import type { DiffSegment } from '@/lib/text-diff';
+
+export interface StoryVersionSummary {
+  id: string;
+  versionNumber: number;
+  title: string;
+  stage: StoryStage | null;
+  changeType: StoryVersionChangeType;
+  restoredFromVersion: number | null;
+  createdAt: string;
+  changedBy: { id: string; firstName: string; lastName: string };
+}
+
+export interface StoryVersionComparison {
+  from: StoryVersionSummary;
+  to: StoryVersionSummary;
+  changes: {
+    title: DiffSegment[] | null;
+    content: DiffSegment[] | null;
+    stage: { from: StoryStage | null; to: StoryStage | null } | null;
+  };
+}
+
+// Fetch revision history for a story
+export function useStoryVersions(storyId: string) {
+  return useQuery<{ versions: StoryVersionSummary[] }>({
+    queryKey: ['story-versions', storyId],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/versions`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch story versions');
+      }
+      return response.json();
+    },
+    enabled: !!storyId,
+  });
+}
+
+// Diff two versions of a story
+export function useStoryVersionComparison(storyId: string, fromId: string | null, toId: string | null) {
+  return useQuery<StoryVersionComparison>({
+    queryKey: ['story-versions', storyId, 'compare', fromId, toId],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: fromId!, to: toId! });
+      const response = await fetch(`/api/newsroom/stories/${storyId}/versions/compare?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to compare story versions');
+      }
+      return response.json();
+    },
+    enabled: !!storyId && !!fromId && !!toId && fromId !== toId,
+  });
+}
+
+// Restore the title and content of an earlier version
+export function useRestoreStoryVersion(storyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (versionId: string) => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/versions/${versionId}/restore`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to restore version');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story-versions', storyId] });
+      queryClient.invalidateQueries({ queryKey: ['story', storyId] });
+      queryClient.invalidateQueries({ queryKey: ['stories'] });
+    },
+  });
+}
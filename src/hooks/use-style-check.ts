@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import type { StoryLanguage } from '@prisma/client';
+import { useCategories } from './use-categories';
+import { useReadingSpeeds } from './use-reading-speeds';
+import { checkStoryStyle, resolveWordTarget, type StyleCheckResult, type WordTargetCategory } from '@/lib/style-check';
+
+const NO_CATEGORIES: WordTargetCategory[] = [];
+
+// House-style check of story copy, using its category's word target and the
+// configured reading speed for its language
+export function useStoryStyleCheck(
+  content: string | null,
+  language: StoryLanguage,
+  categoryId: string | null = null
+): StyleCheckResult {
+  const { data: categoriesData } = useCategories(true);
+  const { data: speedsData } = useReadingSpeeds();
+
+  const categories: WordTargetCategory[] = categoriesData?.categories ?? NO_CATEGORIES;
+  const wordsPerMinute = speedsData?.speeds[language];
+
+  return useMemo(
+    () =>
+      checkStoryStyle(content, {
+        language,
+        wordTarget: resolveWordTarget(categoryId, categories),
+        wordsPerMinute,
+      }),
+    [content, language, categoryId, categories, wordsPerMinute]
+  );
+}
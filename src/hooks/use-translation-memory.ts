@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import type { SegmentSuggestions } from '@/lib/translation-memory';
+
+// Fetch earlier translations of the original story's paragraphs for a translation
+export function useTranslationMemory(storyId: string, enabled: boolean = true) {
+  return useQuery<{ segments: SegmentSuggestions[] }>({
+    queryKey: ['story', storyId, 'translation-memory'],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/translation-memory`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch translation memory');
+      }
+      return response.json();
+    },
+    enabled: !!storyId && enabled,
+  });
+}
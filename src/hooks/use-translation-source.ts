@@ -0,0 +1,50 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { DiffSegment, ParagraphChange } from '@/lib/text-diff';
+
+export interface TranslationSourceChanges {
+  stale: boolean;
+  sourceChangedAt: string | null;
+  sourceVersionNumber: number | null;
+  currentVersionNumber: number | null;
+  titleChange: DiffSegment[] | null;
+  paragraphs: ParagraphChange[];
+}
+
+// Fetch edits made to the original story since a translation was made from it
+export function useSourceChanges(storyId: string, enabled: boolean = true) {
+  return useQuery<TranslationSourceChanges>({
+    queryKey: ['story', storyId, 'source-changes'],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/source-changes`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch source changes');
+      }
+      return response.json();
+    },
+    enabled: !!storyId && enabled,
+  });
+}
+
+// Mark a translation as up to date with the latest version of its original
+export function useAcknowledgeSourceChanges(storyId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/source-changes`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to mark translation as up to date');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['story', storyId] });
+      queryClient.invalidateQueries({ queryKey: ['stories'] });
+    },
+  });
+}
@@ -0,0 +1,141 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { StaffRole, StoryStage } from '@prisma/client';
+import type { WorkflowDefinition, WorkflowTransition } from '@/lib/workflow';
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  requiresTranslation: boolean;
+  stages: StoryStage[];
+  overrideRoles: StaffRole[];
+  unpublishRoles: StaffRole[];
+  transitions: WorkflowTransition[];
+  categories: { id: string; name: string; slug: string }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkflowFormData {
+  name: string;
+  description?: string | null;
+  isDefault: boolean;
+  requiresTranslation: boolean;
+  stages: StoryStage[];
+  overrideRoles: StaffRole[];
+  unpublishRoles: StaffRole[];
+  transitions: WorkflowTransition[];
+  categoryIds: string[];
+}
+
+export interface StoryWorkflowState {
+  workflow: WorkflowDefinition;
+  steps: StoryStage[];
+  transitions: WorkflowTransition[];
+}
+
+// Fetch configured workflows and the default stories fall back to
+export function useWorkflows() {
+  return useQuery<{ workflows: Workflow[]; defaultWorkflow: WorkflowDefinition }>({
+    queryKey: ['workflows'],
+    queryFn: async () => {
+      const response = await fetch('/api/newsroom/workflows');
+      if (!response.ok) {
+        throw new Error('Failed to fetch workflows');
+      }
+      return response.json();
+    },
+  });
+}
+
+// Fetch the workflow a story follows and the transitions open to the current user
+export function useStoryWorkflow(storyId: string) {
+  return useQuery<StoryWorkflowState>({
+    queryKey: ['story', storyId, 'workflow'],
+    queryFn: async () => {
+      const response = await fetch(`/api/newsroom/stories/${storyId}/workflow`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch story workflow');
+      }
+      return response.json();
+    },
+    enabled: !!storyId,
+  });
+}
+
+// Create workflow
+export function useCreateWorkflow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: WorkflowFormData) => {
+      const response = await fetch('/api/newsroom/workflows', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create workflow');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      queryClient.invalidateQueries({ queryKey: ['story'] });
+    },
+  });
+}
+
+// Update workflow
+export function useUpdateWorkflow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<WorkflowFormData> }) => {
+      const response = await fetch(`/api/newsroom/workflows/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update workflow');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      queryClient.invalidateQueries({ queryKey: ['story'] });
+    },
+  });
+}
+
+// Delete workflow
+export function useDeleteWorkflow() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/newsroom/workflows/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to delete workflow');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflows'] });
+      queryClient.invalidateQueries({ queryKey: ['story'] });
+    },
+  });
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseLoudnormStats,
+  measureArgs,
+  renderArgs,
+  renditionKey,
+  computeWaveformPeaks,
+  trimArgs,
+  trimmedKey,
+  LOUDNESS_TARGET,
+} from '../audio-processing';
+
+const ffmpegOutput = `Input #0, wav, from 'input.wav':
+  Duration: 00:01:35.00, bitrate: 1536 kb/s
+[Parsed_loudnorm_0 @ 0x55d5c8c3a2c0]
+{
+	"input_i" : "-16.42",
+	"input_tp" : "-0.31",
+	"input_lra" : "5.80",
+	"input_thresh" : "-26.71",
+	"output_i" : "-23.02",
+	"output_tp" : "-6.90",
+	"output_lra" : "5.60",
+	"output_thresh" : "-33.30",
+	"normalization_type" : "linear",
+	"target_offset" : "0.02"
+}
+`;
+
+describe('parseLoudnormStats', () => {
+  it('reads the loudnorm JSON block from ffmpeg stderr', () => {
+    expect(parseLoudnormStats(ffmpegOutput)).toEqual({
+      inputI: -16.42,
+      inputTp: -0.31,
+      inputLra: 5.8,
+      inputThresh: -26.71,
+      outputI: -23.02,
+      outputTp: -6.9,
+      targetOffset: 0.02,
+    });
+  });
+
+  it('reads silence as minus infinity', () => {
+    const silent = ffmpegOutput.replace('"-16.42"', '"-inf"');
+    expect(parseLoudnormStats(silent).inputI).toBe(-Infinity);
+  });
+
+  it('fails when ffmpeg printed no measurement', () => {
+    expect(() => parseLoudnormStats('Invalid data found when processing input')).toThrow(/No loudness measurement/);
+  });
+});
+
+describe('ffmpeg arguments', () => {
+  it('measures against the EBU R128 target', () => {
+    const args = measureArgs('/tmp/in.wav');
+    expect(args).toContain(`loudnorm=I=${LOUDNESS_TARGET.integrated}:TP=${LOUDNESS_TARGET.truePeak}:LRA=${LOUDNESS_TARGET.range}:print_format=json`);
+    expect(args.slice(-3)).toEqual(['-f', 'null', '-']);
+  });
+
+  it('applies the measured values linearly and encodes MP3 with at most two channels', () => {
+    const args = renderArgs('/tmp/in.wav', '/tmp/out.mp3', parseLoudnormStats(ffmpegOutput), 6);
+    const filter = args[args.indexOf('-af') + 1];
+
+    expect(filter).toContain('measured_I=-16.42');
+    expect(filter).toContain('offset=0.02');
+    expect(filter).toContain('linear=true');
+    expect(args[args.indexOf('-ac') + 1]).toBe('2');
+    expect(args[args.indexOf('-codec:a') + 1]).toBe('libmp3lame');
+    expect(args.at(-1)).toBe('/tmp/out.mp3');
+  });
+});
+
+describe('renditionKey', () => {
+  it('puts the rendition next to the upload', () => {
+    expect(renditionKey('newsroom/audio/1700000000-interview.wav')).toBe('newsroom/audio/1700000000-interview.r128.mp3');
+    expect(renditionKey('newsroom/audio/1700000000-clip.mp3')).toBe('newsroom/audio/1700000000-clip.r128.mp3');
+    expect(renditionKey('newsroom/audio/noextension')).toBe('newsroom/audio/noextension.r128.mp3');
+  });
+});
+
+describe('computeWaveformPeaks', () => {
+  it('takes the loudest sample in each bucket, scaled to the loudest bucket', () => {
+    const samples = Int16Array.from([100, -200, 50, 0, -400, 300, 10, 20]);
+    expect(computeWaveformPeaks(samples, 4)).toEqual([0.5, 0.13, 1, 0.05]);
+  });
+
+  it('never returns more points than samples', () => {
+    expect(computeWaveformPeaks(Int16Array.from([1000, -1000]), 200)).toEqual([1, 1]);
+  });
+
+  it('leaves silence flat', () => {
+    expect(computeWaveformPeaks(new Int16Array(10), 5)).toEqual([0, 0, 0, 0, 0]);
+    expect(computeWaveformPeaks(new Int16Array(0))).toEqual([]);
+  });
+});
+
+describe('trimArgs', () => {
+  it('seeks to the start, cuts to the trimmed length and fades at both ends', () => {
+    const args = trimArgs('in.mp3', 'out.mp3', { trimStart: 5, trimEnd: 65, fadeIn: 1, fadeOut: 2 }, 90);
+    expect(args.slice(args.indexOf('-ss'), args.indexOf('-ss') + 2)).toEqual(['-ss', '5']);
+    expect(args.slice(args.indexOf('-t'), args.indexOf('-t') + 2)).toEqual(['-t', '60']);
+    expect(args[args.indexOf('-af') + 1]).toBe('afade=t=in:st=0:d=1,afade=t=out:st=58:d=2');
+    expect(args[args.length - 1]).toBe('out.mp3');
+  });
+
+  it('plays to the end of the clip and skips the filter without fades', () => {
+    const args = trimArgs('in.mp3', 'out.mp3', { trimStart: 10, trimEnd: null, fadeIn: 0, fadeOut: 0 }, 90);
+    expect(args[args.indexOf('-t') + 1]).toBe('80');
+    expect(args).not.toContain('-af');
+  });
+});
+
+describe('trimmedKey', () => {
+  const trim = { trimStart: 1.5, trimEnd: null, fadeIn: 0, fadeOut: 0.25 };
+
+  it('names the render after the trim', () => {
+    expect(trimmedKey({ filename: 'newsroom/audio/clip.mp3', processedAt: null }, trim))
+      .toBe('newsroom/audio/clip.trim-upload-1500-end-0-250.mp3');
+  });
+
+  it('renders afresh when the clip is reprocessed', () => {
+    const first = trimmedKey({ filename: 'newsroom/audio/clip.r128.mp3', processedAt: new Date('2026-10-19T08:00:00Z') }, trim);
+    const again = trimmedKey({ filename: 'newsroom/audio/clip.r128.mp3', processedAt: new Date('2026-10-19T09:00:00Z') }, trim);
+    expect(first).toMatch(/^newsroom\/audio\/clip\.r128\.trim-\w+-1500-end-0-250\.mp3$/);
+    expect(again).not.toBe(first);
+  });
+});
+
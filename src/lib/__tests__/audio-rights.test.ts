@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { audioClipWarnings, isLicenceExpired, isPastReuseDate, rightsDay } from '../audio-rights';
+
+// Midday, so the local calendar day is the same in any nearby time zone
+const now = new Date('2026-10-19T12:00:00Z');
+const noRights = { licenceExpiry: null, doNotReuseAfter: null };
+
+describe('rightsDay', () => {
+  it('reads the day from stored UTC-midnight dates and API strings', () => {
+    expect(rightsDay(new Date('2026-10-19T00:00:00Z'))).toBe('2026-10-19');
+    expect(rightsDay('2026-10-19T00:00:00.000Z')).toBe('2026-10-19');
+    expect(rightsDay(null)).toBeNull();
+  });
+});
+
+describe('isLicenceExpired', () => {
+  it('expires from the start of the expiry day', () => {
+    expect(isLicenceExpired({ ...noRights, licenceExpiry: '2026-10-20T00:00:00.000Z' }, now)).toBe(false);
+    expect(isLicenceExpired({ ...noRights, licenceExpiry: '2026-10-19T00:00:00.000Z' }, now)).toBe(true);
+    expect(isLicenceExpired({ ...noRights, licenceExpiry: '2026-10-01T00:00:00.000Z' }, now)).toBe(true);
+  });
+
+  it('goes by the South African day, not the server clock', () => {
+    // 23:00 UTC is already 01:00 the next day in South Africa
+    const lateEvening = new Date('2026-10-19T23:00:00Z');
+    expect(isLicenceExpired({ ...noRights, licenceExpiry: '2026-10-20T00:00:00.000Z' }, lateEvening)).toBe(true);
+    expect(isPastReuseDate({ ...noRights, doNotReuseAfter: '2026-10-19T00:00:00.000Z' }, lateEvening)).toBe(true);
+  });
+
+  it('never expires without an expiry day', () => {
+    expect(isLicenceExpired(noRights, now)).toBe(false);
+  });
+});
+
+describe('isPastReuseDate', () => {
+  it('allows reuse up to and including the last day', () => {
+    expect(isPastReuseDate({ ...noRights, doNotReuseAfter: '2026-10-19T00:00:00.000Z' }, now)).toBe(false);
+    expect(isPastReuseDate({ ...noRights, doNotReuseAfter: '2026-10-18T00:00:00.000Z' }, now)).toBe(true);
+    expect(isPastReuseDate(noRights, now)).toBe(false);
+  });
+});
+
+describe('audioClipWarnings', () => {
+  it('has nothing to say about a clip with open rights that is not on air', () => {
+    expect(audioClipWarnings({ ...noRights, onAirToday: false }, now)).toEqual([]);
+  });
+
+  it('reports an expired licence as an error', () => {
+    const warnings = audioClipWarnings({ ...noRights, licenceExpiry: '2026-10-01T00:00:00.000Z' }, now);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ kind: 'licence-expired', severity: 'error' });
+    expect(warnings[0].message).toContain('Oct 1, 2026');
+  });
+
+  it('leaves out the reuse warning once the licence has expired', () => {
+    const warnings = audioClipWarnings(
+      { licenceExpiry: '2026-10-01T00:00:00.000Z', doNotReuseAfter: '2026-09-01T00:00:00.000Z' },
+      now
+    );
+    expect(warnings.map(w => w.kind)).toEqual(['licence-expired']);
+  });
+
+  it('warns about reuse and on-air use, most serious first', () => {
+    const warnings = audioClipWarnings(
+      { ...noRights, doNotReuseAfter: '2026-10-18T00:00:00.000Z', onAirToday: true },
+      now
+    );
+    expect(warnings.map(w => w.kind)).toEqual(['do-not-reuse', 'on-air-today']);
+    expect(warnings.every(w => w.severity === 'warning')).toBe(true);
+  });
+});
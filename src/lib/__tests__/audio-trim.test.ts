@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { trimOf, trimmedDuration, validateTrim, sliceWaveform, usageAudioClip, renderPath } from '../audio-trim';
+
+describe('trimOf', () => {
+  it('is null for a usage that plays the whole clip', () => {
+    expect(trimOf({})).toBeNull();
+    expect(trimOf({ trimStart: null, trimEnd: null, fadeIn: null, fadeOut: null })).toBeNull();
+    expect(trimOf({ trimStart: 0, fadeIn: 0 })).toBeNull();
+  });
+
+  it('fills unset fields with their defaults', () => {
+    expect(trimOf({ fadeOut: 2 })).toEqual({ trimStart: 0, trimEnd: null, fadeIn: 0, fadeOut: 2 });
+  });
+});
+
+describe('trimmedDuration', () => {
+  it('measures from the start to the end point or the end of the clip', () => {
+    expect(trimmedDuration(90, null)).toBe(90);
+    expect(trimmedDuration(90, { trimStart: 10, trimEnd: 40, fadeIn: 0, fadeOut: 0 })).toBe(30);
+    expect(trimmedDuration(90, { trimStart: 10, trimEnd: null, fadeIn: 0, fadeOut: 0 })).toBe(80);
+    expect(trimmedDuration(90, { trimStart: 10, trimEnd: 200, fadeIn: 0, fadeOut: 0 })).toBe(80);
+  });
+});
+
+describe('validateTrim', () => {
+  const trim = { trimStart: 5, trimEnd: 65, fadeIn: 1, fadeOut: 2 };
+
+  it('accepts a trim inside the clip', () => {
+    expect(validateTrim(trim, 90)).toBeNull();
+    expect(validateTrim(trim, null)).toBeNull();
+  });
+
+  it('rejects an end before the start', () => {
+    expect(validateTrim({ ...trim, trimEnd: 5 }, 90)).toMatch(/end must come after the start/);
+  });
+
+  it('rejects a start past the end of the clip', () => {
+    expect(validateTrim({ ...trim, trimStart: 95, trimEnd: null }, 90)).toMatch(/past the end/);
+  });
+
+  it('rejects fades longer than the trimmed audio', () => {
+    expect(validateTrim({ ...trim, fadeIn: 40, fadeOut: 30 }, 90)).toMatch(/fades are longer/);
+  });
+});
+
+describe('sliceWaveform', () => {
+  const peaks = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1];
+
+  it('keeps the peaks inside the trim', () => {
+    expect(sliceWaveform(peaks, 100, { trimStart: 20, trimEnd: 50, fadeIn: 0, fadeOut: 0 })).toEqual([0.3, 0.4, 0.5]);
+    expect(sliceWaveform(peaks, 100, { trimStart: 80, trimEnd: null, fadeIn: 0, fadeOut: 0 })).toEqual([0.9, 1]);
+  });
+
+  it('returns the whole waveform when untrimmed', () => {
+    expect(sliceWaveform(peaks, 100, null)).toBe(peaks);
+  });
+});
+
+describe('usageAudioClip', () => {
+  const audioClip = { id: 'clip-1', url: 'https://cdn.example.com/clip.mp3', duration: 100, waveform: [0.5, 1, 0.5, 1] };
+
+  it('passes an untrimmed clip through', () => {
+    expect(usageAudioClip('story', { id: 'usage-1', audioClip })).toEqual({
+      ...audioClip,
+      usageId: 'usage-1',
+      sourceUrl: audioClip.url,
+      trim: null,
+    });
+  });
+
+  it('plays a trimmed clip from the render address with its trimmed length', () => {
+    const clip = usageAudioClip('episode', { id: 'usage-2', audioClip, trimStart: 50, trimEnd: null });
+    expect(clip.url).toBe(renderPath('episode', 'usage-2'));
+    expect(clip.url).toBe('/api/audio/render/episode/usage-2');
+    expect(clip.sourceUrl).toBe(audioClip.url);
+    expect(clip.duration).toBe(50);
+    expect(clip.waveform).toEqual([0.5, 1]);
+    expect(clip.trim).toEqual({ trimStart: 50, trimEnd: null, fadeIn: 0, fadeOut: 0 });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { onAirDay, onAirTodayWhere } from '../audio-usage';
+
+describe('onAirDay', () => {
+  it('spans the South African calendar day', () => {
+    expect(onAirDay(new Date('2026-10-19T10:00:00Z'))).toEqual({
+      day: '2026-10-19',
+      start: new Date('2026-10-18T22:00:00Z'),
+      end: new Date('2026-10-19T22:00:00Z'),
+    });
+  });
+
+  it('moves to the next day at local midnight', () => {
+    expect(onAirDay(new Date('2026-10-19T22:30:00Z')).day).toBe('2026-10-20');
+    expect(onAirDay(new Date('2026-10-19T21:59:00Z')).day).toBe('2026-10-19');
+  });
+});
+
+describe('onAirTodayWhere', () => {
+  it('looks at stories, bulletins and both kinds of episode published today', () => {
+    const today = { gte: new Date('2026-10-18T22:00:00Z'), lt: new Date('2026-10-19T22:00:00Z') };
+    const where = onAirTodayWhere(new Date('2026-10-19T10:00:00Z'));
+
+    expect(where.OR).toHaveLength(3);
+    expect(where.OR).toContainEqual({ episodes: { some: { episode: { publishedAt: today } } } });
+    expect(where.OR).toContainEqual({ podcastEpisodes: { some: { episode: { publishedAt: today } } } });
+    expect(JSON.stringify(where.OR?.[0])).toContain('bulletinStories');
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { breakingNewsUrl, filterBreakingNewsStations, type BreakingNewsContent } from '../breaking-news';
+
+const stations: Parameters<typeof filterBreakingNewsStations>[1] = [
+  { id: 'english', province: 'GAUTENG', allowedLanguages: ['English'], allowedReligions: ['Christian', 'Neutral'], blockedCategories: [] },
+  { id: 'afrikaans', province: 'WESTERN_CAPE', allowedLanguages: ['Afrikaans'], allowedReligions: ['Christian', 'Neutral'], blockedCategories: [] },
+  { id: 'muslim', province: 'WESTERN_CAPE', allowedLanguages: ['English', 'Afrikaans'], allowedReligions: ['Muslim', 'Neutral'], blockedCategories: [] },
+  { id: 'no-sport', province: 'GAUTENG', allowedLanguages: ['English'], allowedReligions: ['Christian', 'Neutral'], blockedCategories: ['sport'] },
+];
+
+const unrestricted = { embargoUntil: null, exclusiveUntil: null, exclusiveStationIds: [], exclusiveProvinces: [] };
+
+const story: BreakingNewsContent = {
+  kind: 'story',
+  id: 'story-1',
+  language: 'ENGLISH',
+  categoryId: 'news',
+  category: { parentId: null },
+  classifications: [],
+  ...unrestricted,
+};
+
+describe('filterBreakingNewsStations', () => {
+  it('alerts every station that takes the language', () => {
+    expect(filterBreakingNewsStations(story, stations)).toEqual(['english', 'muslim', 'no-sport']);
+  });
+
+  it('skips stations that block the category or its parent', () => {
+    const sport = { ...story, categoryId: 'rugby', category: { parentId: 'sport' } };
+    expect(filterBreakingNewsStations(sport, stations)).toEqual(['english', 'muslim']);
+  });
+
+  it('skips stations without the story religion', () => {
+    const christian = { ...story, classifications: [{ classification: { type: 'RELIGION', name: 'Christian' } }] };
+    expect(filterBreakingNewsStations(christian, stations)).toEqual(['english', 'no-sport']);
+  });
+
+  it('skips the category and religion rules for bulletins', () => {
+    const bulletin: BreakingNewsContent = { kind: 'bulletin', id: 'bulletin-1', language: 'AFRIKAANS', ...unrestricted };
+    expect(filterBreakingNewsStations(bulletin, stations)).toEqual(['afrikaans', 'muslim']);
+  });
+
+  it('leaves out stations the content is not yet released to', () => {
+    const exclusive = { ...story, exclusiveUntil: new Date(Date.now() + 3600_000), exclusiveProvinces: ['WESTERN_CAPE' as const] };
+    expect(filterBreakingNewsStations(exclusive, stations)).toEqual(['muslim']);
+    expect(filterBreakingNewsStations({ ...story, embargoUntil: new Date(Date.now() + 3600_000) }, stations)).toEqual([]);
+  });
+});
+
+describe('breakingNewsUrl', () => {
+  it('links to the story or bulletin in the station zone', () => {
+    expect(breakingNewsUrl({ storyId: 'story-1', bulletinId: null })).toBe('/radio/story/story-1');
+    expect(breakingNewsUrl({ storyId: null, bulletinId: 'bulletin-1' })).toBe('/radio/bulletins/bulletin-1');
+  });
+});
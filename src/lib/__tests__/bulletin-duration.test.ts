@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { countWords, estimateBulletinDuration, formatDuration } from '../bulletin-duration';
+
+const words = (count: number) => `<p>${Array.from({ length: count }, () => 'word').join(' ')}</p>`;
+
+describe('countWords', () => {
+  it('counts words in rich text, ignoring markup', () => {
+    expect(countWords('<p>Good <strong>morning</strong>,</p><p>South Africa</p>')).toBe(4);
+  });
+
+  it('returns 0 for empty content', () => {
+    expect(countWords(null)).toBe(0);
+    expect(countWords('')).toBe(0);
+    expect(countWords('<p></p>')).toBe(0);
+  });
+});
+
+describe('estimateBulletinDuration', () => {
+  it('reads intro, outro and stories at the given words per minute', () => {
+    const estimate = estimateBulletinDuration(
+      { intro: words(20), outro: words(20), stories: [{ content: words(80) }, { content: words(40) }] },
+      160
+    );
+
+    expect(estimate.wordCount).toBe(160);
+    expect(estimate.readSeconds).toBe(60);
+    expect(estimate.totalSeconds).toBe(60);
+    expect(estimate.stories).toEqual([
+      { readSeconds: 30, audioSeconds: 0 },
+      { readSeconds: 15, audioSeconds: 0 },
+    ]);
+  });
+
+  it('adds the duration of attached audio clips', () => {
+    const estimate = estimateBulletinDuration(
+      {
+        intro: '',
+        outro: '',
+        stories: [{ content: words(110), audioClips: [{ duration: 25 }, { duration: null }, { duration: 12 }] }],
+      },
+      110
+    );
+
+    expect(estimate.audioSeconds).toBe(37);
+    expect(estimate.totalSeconds).toBe(97);
+  });
+
+  it('takes longer for the same text at a slower speed', () => {
+    const bulletin = { intro: words(30), outro: words(30), stories: [{ content: words(240) }] };
+
+    expect(estimateBulletinDuration(bulletin, 150).totalSeconds).toBe(120);
+    expect(estimateBulletinDuration(bulletin, 100).totalSeconds).toBe(180);
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats seconds as m:ss', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(95)).toBe('1:35');
+    expect(formatDuration(600)).toBe('10:00');
+  });
+});
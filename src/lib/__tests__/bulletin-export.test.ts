@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildBulletinScript,
+  isBulletinExportFormat,
+  renderM3u,
+  renderPlainText,
+  renderSsml,
+  renderXspf,
+  type BulletinExportInput,
+} from '../bulletin-export';
+
+const bulletin: BulletinExportInput = {
+  title: 'Morning News',
+  language: 'ENGLISH',
+  scheduledFor: new Date('2026-10-20T04:00:00Z'),
+  publishedAt: null,
+  schedule: { title: '06:00 Bulletin', time: '06:00' },
+  intro: '<p>Good morning, here is the news.</p>',
+  outro: '<p>That was the news.</p>',
+  stories: [
+    {
+      title: 'Water cuts in Gqeberha',
+      content: '<p>Residents of <span data-pronunciation="geh-BEH-ha">Gqeberha</span> face cuts.</p><p>Repairs & tests continue.</p>',
+      category: { name: 'Local' },
+      audioClips: [{ url: 'https://cdn.example.com/clip-1.mp3', duration: 25, originalName: 'mayor.mp3' }],
+    },
+    {
+      title: 'Rugby',
+      content: '<p>The Boks won.</p>',
+      category: null,
+      audioClips: [
+        { url: 'https://cdn.example.com/clip-2.mp3', duration: null, originalName: 'coach.mp3' },
+        { url: 'https://cdn.example.com/clip-3.mp3', duration: 12, originalName: 'captain.mp3' },
+      ],
+    },
+  ],
+};
+
+describe('isBulletinExportFormat', () => {
+  it('accepts the export formats', () => {
+    expect(['pdf', 'txt', 'ssml', 'm3u', 'xspf'].every(isBulletinExportFormat)).toBe(true);
+  });
+
+  it('rejects unknown formats and inherited object keys', () => {
+    expect(isBulletinExportFormat('docx')).toBe(false);
+    expect(isBulletinExportFormat('toString')).toBe(false);
+    expect(isBulletinExportFormat('__proto__')).toBe(false);
+  });
+});
+
+describe('buildBulletinScript', () => {
+  it('numbers stories in running order', () => {
+    const script = buildBulletinScript(bulletin);
+
+    expect(script.stories.map(story => `${story.number}. ${story.title}`)).toEqual(['1. Water cuts in Gqeberha', '2. Rugby']);
+    expect(script.stories[0].paragraphs).toEqual(['Residents of Gqeberha [geh-BEH-ha] face cuts.', 'Repairs & tests continue.']);
+    expect(script.stories[0].pronunciations).toEqual([{ term: 'Gqeberha', guide: 'geh-BEH-ha' }]);
+    expect(script.airTime).toEqual(bulletin.scheduledFor);
+  });
+});
+
+describe('renderPlainText', () => {
+  it('lays out intro, stories with inline pronunciation notes, and outro', () => {
+    const text = renderPlainText(buildBulletinScript(bulletin));
+
+    expect(text).toContain('INTRO\n\nGood morning, here is the news.');
+    expect(text).toContain('1. WATER CUTS IN GQEBERHA\n\nResidents of Gqeberha [geh-BEH-ha] face cuts.');
+    expect(text).toContain('[AUDIO: mayor.mp3 (0:25)]');
+    expect(text.indexOf('OUTRO')).toBeGreaterThan(text.indexOf('2. RUGBY'));
+  });
+});
+
+describe('renderSsml', () => {
+  it('escapes text and sets the language', () => {
+    const ssml = renderSsml(buildBulletinScript({ ...bulletin, language: 'AFRIKAANS' }));
+
+    expect(ssml).toContain('xml:lang="af-ZA"');
+    expect(ssml).toContain('<p>Repairs &amp; tests continue.</p>');
+    expect(ssml.match(/<break time="1s"\/>/g)).toHaveLength(3);
+  });
+
+  it('speaks noted terms as their pronunciation guide', () => {
+    const ssml = renderSsml(
+      buildBulletinScript({ ...bulletin, intro: '<p>News from <span data-pronunciation="MSUN-doo-zee">Msunduzi</span>.</p>' })
+    );
+
+    expect(ssml).toContain('<p>News from <sub alias="MSUN-doo-zee">Msunduzi</sub>.</p>');
+    expect(ssml).toContain('<p>Residents of <sub alias="geh-BEH-ha">Gqeberha</sub> face cuts.</p>');
+  });
+});
+
+describe('playlists', () => {
+  it('lists audio clips in bulletin order as M3U', () => {
+    const m3u = renderM3u(buildBulletinScript(bulletin));
+
+    expect(m3u.split('\n').slice(0, 8)).toEqual([
+      '#EXTM3U',
+      '#PLAYLIST:Morning News',
+      '#EXTINF:25,1. Water cuts in Gqeberha - mayor.mp3',
+      'https://cdn.example.com/clip-1.mp3',
+      '#EXTINF:-1,2. Rugby - coach.mp3',
+      'https://cdn.example.com/clip-2.mp3',
+      '#EXTINF:12,2. Rugby - captain.mp3',
+      'https://cdn.example.com/clip-3.mp3',
+    ]);
+  });
+
+  it('lists audio clips in bulletin order as XSPF', () => {
+    const xspf = renderXspf(buildBulletinScript(bulletin));
+    const locations = [...xspf.matchAll(/<location>(.*?)<\/location>/g)].map(match => match[1]);
+
+    expect(locations).toEqual([
+      'https://cdn.example.com/clip-1.mp3',
+      'https://cdn.example.com/clip-2.mp3',
+      'https://cdn.example.com/clip-3.mp3',
+    ]);
+    expect(xspf).toContain('<duration>25000</duration>');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { flagDay, flagSpanDays, isFlagUsed, placementOf, type FlagWindow } from '../bulletin-flags';
+
+const flag = (overrides: Partial<FlagWindow> = {}): FlagWindow => ({
+  language: 'ENGLISH',
+  startDate: new Date('2026-10-19T00:00:00Z'),
+  endDate: new Date('2026-10-21T00:00:00Z'),
+  scheduleId: null,
+  ...overrides,
+});
+
+describe('flagDay', () => {
+  it('formats a stored date as YYYY-MM-DD', () => {
+    expect(flagDay(new Date('2026-10-19T00:00:00Z'))).toBe('2026-10-19');
+  });
+});
+
+describe('flagSpanDays', () => {
+  it('counts both the first and last day', () => {
+    expect(flagSpanDays('2026-10-19', '2026-10-19')).toBe(1);
+    expect(flagSpanDays('2026-10-19', '2026-10-21')).toBe(3);
+    expect(flagSpanDays('2026-12-30', '2027-01-02')).toBe(4);
+  });
+});
+
+describe('placementOf', () => {
+  const bulletin = {
+    language: 'ENGLISH' as const,
+    scheduleId: 'morning',
+    scheduledFor: null,
+    publishedAt: null,
+    createdAt: new Date('2026-10-18T10:00:00Z'),
+  };
+
+  it('places a bulletin on its scheduled South African day', () => {
+    // 23:30 UTC on the 19th is already the 20th in South Africa
+    const placement = placementOf({ ...bulletin, scheduledFor: new Date('2026-10-19T23:30:00Z') });
+    expect(placement).toEqual({ day: '2026-10-20', language: 'ENGLISH', scheduleId: 'morning' });
+  });
+
+  it('falls back to when the bulletin was published, then created', () => {
+    expect(placementOf({ ...bulletin, publishedAt: new Date('2026-10-19T08:00:00Z') }).day).toBe('2026-10-19');
+    expect(placementOf(bulletin).day).toBe('2026-10-18');
+  });
+});
+
+describe('isFlagUsed', () => {
+  it('is used by a bulletin in the same language on one of its days', () => {
+    expect(isFlagUsed(flag(), [{ day: '2026-10-20', language: 'ENGLISH', scheduleId: 'morning' }])).toBe(true);
+    expect(isFlagUsed(flag(), [{ day: '2026-10-21', language: 'ENGLISH', scheduleId: null }])).toBe(true);
+  });
+
+  it('is not used outside its days or in another language', () => {
+    expect(isFlagUsed(flag(), [{ day: '2026-10-22', language: 'ENGLISH', scheduleId: null }])).toBe(false);
+    expect(isFlagUsed(flag(), [{ day: '2026-10-18', language: 'ENGLISH', scheduleId: null }])).toBe(false);
+    expect(isFlagUsed(flag(), [{ day: '2026-10-20', language: 'AFRIKAANS', scheduleId: null }])).toBe(false);
+    expect(isFlagUsed(flag(), [])).toBe(false);
+  });
+
+  it('only counts the picked slot when flagged for one', () => {
+    const slotFlag = flag({ scheduleId: 'morning' });
+    expect(isFlagUsed(slotFlag, [{ day: '2026-10-20', language: 'ENGLISH', scheduleId: 'evening' }])).toBe(false);
+    expect(isFlagUsed(slotFlag, [{ day: '2026-10-20', language: 'ENGLISH', scheduleId: 'morning' }])).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bulletinDayOf,
+  bulletinSlotTime,
+  comingBulletinDay,
+  formatBulletinDay,
+  orderFlaggedStories,
+  parseBulletinDay,
+  scheduleTypeForDay,
+} from '../bulletin-generation';
+
+const story = (id: string, category: string | null, flaggedAt: string | null) => ({
+  id,
+  title: id,
+  flaggedAt: flaggedAt ? new Date(flaggedAt) : null,
+  category: category ? { name: category } : null,
+});
+
+describe('bulletinDayOf', () => {
+  it('returns the South African calendar day', () => {
+    expect(bulletinDayOf(new Date('2026-10-19T12:00:00Z'))).toEqual({ year: 2026, month: 10, day: 19 });
+    expect(bulletinDayOf(new Date('2026-10-19T22:30:00Z'))).toEqual({ year: 2026, month: 10, day: 20 });
+  });
+});
+
+describe('comingBulletinDay', () => {
+  it('returns the next South African calendar day', () => {
+    expect(comingBulletinDay(new Date('2026-10-19T18:00:00Z'))).toEqual({ year: 2026, month: 10, day: 20 });
+  });
+
+  it('uses SAST rather than UTC to decide the current day', () => {
+    // 23:00 UTC on the 19th is already 01:00 on the 20th in South Africa
+    expect(comingBulletinDay(new Date('2026-10-19T23:00:00Z'))).toEqual({ year: 2026, month: 10, day: 21 });
+  });
+
+  it('rolls over month and year ends', () => {
+    expect(comingBulletinDay(new Date('2026-12-31T12:00:00Z'))).toEqual({ year: 2027, month: 1, day: 1 });
+  });
+});
+
+describe('parseBulletinDay / formatBulletinDay', () => {
+  it('round-trips a valid date', () => {
+    const day = parseBulletinDay('2026-03-05');
+    expect(day).toEqual({ year: 2026, month: 3, day: 5 });
+    expect(formatBulletinDay(day!)).toBe('2026-03-05');
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    expect(parseBulletinDay('2026-3-5')).toBeNull();
+    expect(parseBulletinDay('tomorrow')).toBeNull();
+    expect(parseBulletinDay('2026-02-30')).toBeNull();
+  });
+});
+
+describe('scheduleTypeForDay', () => {
+  it('returns WEEKEND for Saturday and Sunday', () => {
+    expect(scheduleTypeForDay({ year: 2026, month: 10, day: 24 })).toBe('WEEKEND');
+    expect(scheduleTypeForDay({ year: 2026, month: 10, day: 25 })).toBe('WEEKEND');
+  });
+
+  it('returns WEEKDAY for Monday to Friday', () => {
+    expect(scheduleTypeForDay({ year: 2026, month: 10, day: 19 })).toBe('WEEKDAY');
+    expect(scheduleTypeForDay({ year: 2026, month: 10, day: 23 })).toBe('WEEKDAY');
+  });
+
+  it('returns PUBLIC_HOLIDAY on a holiday, whatever the weekday', () => {
+    expect(scheduleTypeForDay({ year: 2026, month: 9, day: 24 }, true)).toBe('PUBLIC_HOLIDAY');
+    expect(scheduleTypeForDay({ year: 2026, month: 12, day: 26 }, true)).toBe('PUBLIC_HOLIDAY');
+  });
+});
+
+describe('bulletinSlotTime', () => {
+  it('converts a SAST slot time to UTC', () => {
+    expect(bulletinSlotTime({ year: 2026, month: 10, day: 20 }, '06:00').toISOString()).toBe(
+      '2026-10-20T04:00:00.000Z'
+    );
+  });
+
+  it('falls on the previous UTC day for early-morning slots', () => {
+    expect(bulletinSlotTime({ year: 2026, month: 10, day: 20 }, '01:30').toISOString()).toBe(
+      '2026-10-19T23:30:00.000Z'
+    );
+  });
+});
+
+describe('orderFlaggedStories', () => {
+  it('groups by category in order of first flag, keeping flag order within a category', () => {
+    const ordered = orderFlaggedStories([
+      story('sport-2', 'Sport', '2026-10-19T10:00:00Z'),
+      story('politics-1', 'Politics', '2026-10-19T08:00:00Z'),
+      story('sport-1', 'Sport', '2026-10-19T09:00:00Z'),
+      story('politics-2', 'Politics', '2026-10-19T11:00:00Z'),
+    ]);
+
+    expect(ordered.map(s => s.id)).toEqual(['politics-1', 'politics-2', 'sport-1', 'sport-2']);
+  });
+
+  it('puts stories without a flag time at the end of their category', () => {
+    const ordered = orderFlaggedStories([
+      story('undated', 'Sport', null),
+      story('sport-1', 'Sport', '2026-10-19T09:00:00Z'),
+      story('uncategorised', null, '2026-10-19T12:00:00Z'),
+    ]);
+
+    expect(ordered.map(s => s.id)).toEqual(['sport-1', 'undated', 'uncategorised']);
+  });
+
+  it('does not modify the input array', () => {
+    const input = [story('b', 'News', '2026-10-19T10:00:00Z'), story('a', 'News', '2026-10-19T09:00:00Z')];
+    orderFlaggedStories(input);
+    expect(input.map(s => s.id)).toEqual(['b', 'a']);
+  });
+});
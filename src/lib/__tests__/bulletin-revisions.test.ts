@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { diffBulletinSnapshots, type BulletinSnapshot } from '../bulletin-revisions';
+
+const published: BulletinSnapshot = {
+  title: 'Morning News',
+  intro: '<p>Good morning.</p>',
+  outro: '<p>That was the news.</p>',
+  stories: [
+    { storyId: 'water', title: 'Water cuts', content: '<p>Ten thousand homes are without water.</p><p>Repairs continue.</p>' },
+    { storyId: 'rugby', title: 'Rugby', content: '<p>The Boks won.</p>' },
+    { storyId: 'taxi', title: 'Taxi strike', content: '<p>Taxis are off the road.</p>' },
+  ],
+};
+
+describe('diffBulletinSnapshots', () => {
+  it('reports nothing for an unchanged bulletin', () => {
+    expect(diffBulletinSnapshots(published, published)).toEqual({
+      title: null,
+      intro: [],
+      outro: [],
+      stories: [],
+      reordered: false,
+    });
+  });
+
+  it('lists reworded paragraphs of an edited story', () => {
+    const corrected = {
+      ...published,
+      stories: [
+        { ...published.stories[0], content: '<p>Two thousand homes are without water.</p><p>Repairs continue.</p>' },
+        ...published.stories.slice(1),
+      ],
+    };
+
+    const changes = diffBulletinSnapshots(published, corrected);
+
+    expect(changes.stories).toHaveLength(1);
+    expect(changes.stories[0]).toMatchObject({ storyId: 'water', change: 'edited' });
+    expect(changes.stories[0].paragraphs).toHaveLength(1);
+    expect(changes.stories[0].paragraphs[0]).toMatchObject({
+      type: 'changed',
+      before: 'Ten thousand homes are without water.',
+      after: 'Two thousand homes are without water.',
+    });
+  });
+
+  it('reports dropped stories and a changed running order', () => {
+    const corrected = { ...published, stories: [published.stories[2], published.stories[0]] };
+
+    const changes = diffBulletinSnapshots(published, corrected);
+
+    expect(changes.stories).toEqual([
+      expect.objectContaining({ storyId: 'rugby', change: 'removed' }),
+    ]);
+    expect(changes.reordered).toBe(true);
+  });
+
+  it('does not count a dropped story as a reorder', () => {
+    const corrected = { ...published, stories: [published.stories[0], published.stories[2]] };
+    expect(diffBulletinSnapshots(published, corrected).reordered).toBe(false);
+  });
+
+  it('diffs the title, intro and outro', () => {
+    const changes = diffBulletinSnapshots(published, {
+      ...published,
+      title: 'Morning News (corrected)',
+      intro: '<p>Good morning, South Africa.</p>',
+    });
+
+    expect(changes.title).toEqual([
+      { type: 'equal', value: 'Morning News' },
+      { type: 'insert', value: ' (corrected)' },
+    ]);
+    expect(changes.intro).toHaveLength(1);
+    expect(changes.outro).toEqual([]);
+  });
+});
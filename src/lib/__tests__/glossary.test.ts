@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { findGlossaryMatches, highlightGlossaryTerms, type GlossaryEntry } from '../glossary';
+
+const zulu: GlossaryEntry[] = [
+  { term: 'Premier', translation: 'iNkulumbuso' },
+  { term: 'Premier League', translation: 'i-Premier League', notes: 'Football only' },
+];
+
+describe('findGlossaryMatches', () => {
+  it('finds whole-word terms in order of appearance', () => {
+    const matches = findGlossaryMatches('The premier spoke after the Premier League final.', zulu);
+    expect(matches.map(m => m.term)).toEqual(['Premier', 'Premier League']);
+  });
+
+  it('ignores terms inside longer words', () => {
+    expect(findGlossaryMatches('The premiere was sold out.', zulu)).toEqual([]);
+  });
+});
+
+describe('highlightGlossaryTerms', () => {
+  it('marks terms in text without touching tags', () => {
+    const html = highlightGlossaryTerms('<p class="Premier">The Premier spoke.</p>', zulu);
+    expect(html).toBe('<p class="Premier">The <mark class="glossary-term" title="iNkulumbuso">Premier</mark> spoke.</p>');
+  });
+
+  it('prefers the longest term and includes notes in the hint', () => {
+    const html = highlightGlossaryTerms('<p>Premier League</p>', zulu);
+    expect(html).toBe('<p><mark class="glossary-term" title="i-Premier League (Football only)">Premier League</mark></p>');
+  });
+
+  it('leaves content alone when the glossary is empty', () => {
+    expect(highlightGlossaryTerms('<p>Premier</p>', [])).toBe('<p>Premier</p>');
+  });
+});
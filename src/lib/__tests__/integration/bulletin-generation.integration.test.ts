@@ -0,0 +1,76 @@
+/**
+ * Bulletin Generation — Integration Tests (Real API)
+ *
+ * Runs the /api/cron/generate-bulletins job for a set day and checks a draft
+ * is created for each active schedule slot, audited against the schedule's owner.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { prisma } from '@/lib/prisma';
+import { createTestUser, createTestBulletinSchedule, cleanupTestData, BASE_URL } from './test-helpers';
+
+const SUFFIX = 'bg';
+
+// A Wednesday that is not a public holiday, so weekday schedules apply
+const GENERATION_DAY = '2031-03-12';
+
+let editorId: string;
+let scheduleId: string;
+
+function runCron(query = '') {
+  return fetch(`${BASE_URL}/api/cron/generate-bulletins${query}`, {
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+}
+
+beforeAll(async () => {
+  await cleanupTestData(SUFFIX);
+
+  const editor = await createTestUser('EDITOR', SUFFIX);
+  editorId = editor.id;
+
+  const schedule = await createTestBulletinSchedule({
+    suffix: SUFFIX,
+    label: 'morning',
+    time: '07:00',
+    createdById: editorId,
+  });
+  scheduleId = schedule.id;
+}, 30000);
+
+afterAll(async () => {
+  await cleanupTestData(SUFFIX);
+}, 30000);
+
+describe('Bulletin generation cron (API Integration)', () => {
+  it('rejects calls without the cron secret', async () => {
+    const res = await fetch(`${BASE_URL}/api/cron/generate-bulletins`);
+    expect(res.status).toBe(401);
+  });
+
+  it('creates a draft for the schedule slot and audits it against the schedule owner', async () => {
+    const res = await runCron(`?date=${GENERATION_DAY}`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+
+    const created = body.created.find((entry: { scheduleId: string }) => entry.scheduleId === scheduleId);
+    expect(created).toBeDefined();
+
+    const bulletin = await prisma.bulletin.findUnique({ where: { id: created.bulletinId } });
+    expect(bulletin?.status).toBe('DRAFT');
+    expect(bulletin?.authorId).toBe(editorId);
+
+    const audit = await prisma.auditLog.findFirst({
+      where: { action: 'AUTO_GENERATE_BULLETIN', entityId: created.bulletinId },
+    });
+    expect(audit?.userId).toBe(editorId);
+  });
+
+  it('skips a slot that already has a bulletin', async () => {
+    const res = await runCron(`?date=${GENERATION_DAY}`);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.skipped.map((entry: { scheduleId: string }) => entry.scheduleId)).toContain(scheduleId);
+  });
+});
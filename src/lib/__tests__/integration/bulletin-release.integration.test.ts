@@ -0,0 +1,116 @@
+/**
+ * Bulletin Release Windows — Integration Tests (Real API)
+ *
+ * A published bulletin can carry stories that are still embargoed or
+ * exclusive to other stations. Checks the radio bulletin list, detail and
+ * export endpoints leave those stories out for a station.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { BulletinStatus, StoryStage, StoryStatus } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  createTestUser,
+  createTestCategory,
+  createTestStory,
+  createTestStation,
+  createTestRadioUser,
+  createTestBulletin,
+  createSessionCookie,
+  apiFetch,
+  cleanupTestData,
+} from './test-helpers';
+
+const SUFFIX = 'br'; // bulletin-release
+
+let bulletinId: string;
+let releasedStory: { id: string; title: string };
+let embargoedStory: { id: string; title: string };
+let exclusiveStory: { id: string; title: string };
+let radioCookie: string;
+
+function storyIds(bulletin: { bulletinStories: Array<{ story: { id: string } }> }) {
+  return bulletin.bulletinStories.map(bs => bs.story.id);
+}
+
+beforeAll(async () => {
+  await cleanupTestData(SUFFIX);
+
+  const editor = await createTestUser('EDITOR', SUFFIX);
+  const category = await createTestCategory('news', SUFFIX);
+
+  const published = { authorId: editor.id, stage: StoryStage.PUBLISHED, status: StoryStatus.PUBLISHED, publishedAt: new Date() };
+  [releasedStory, embargoedStory, exclusiveStory] = await Promise.all([
+    createTestStory({ suffix: SUFFIX, label: 'released', ...published }),
+    createTestStory({ suffix: SUFFIX, label: 'embargoed', ...published }),
+    createTestStory({ suffix: SUFFIX, label: 'exclusive', ...published }),
+  ]);
+
+  const station = await createTestStation({ suffix: SUFFIX, label: 'station', allowedLanguages: ['English'] });
+  const otherStation = await createTestStation({ suffix: SUFFIX, label: 'other', allowedLanguages: ['English'] });
+
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  await prisma.story.update({ where: { id: embargoedStory.id }, data: { embargoUntil: tomorrow } });
+  await prisma.story.update({
+    where: { id: exclusiveStory.id },
+    data: { exclusiveUntil: tomorrow, exclusiveStationIds: [otherStation.id] },
+  });
+
+  const bulletin = await createTestBulletin({
+    suffix: SUFFIX,
+    label: 'bulletin',
+    authorId: editor.id,
+    categoryId: category.id,
+    status: BulletinStatus.PUBLISHED,
+  });
+  bulletinId = bulletin.id;
+  await prisma.bulletin.update({ where: { id: bulletinId }, data: { publishedAt: new Date() } });
+  await prisma.bulletinStory.createMany({
+    data: [releasedStory, embargoedStory, exclusiveStory].map((story, index) => ({
+      bulletinId,
+      storyId: story.id,
+      order: index + 1,
+    })),
+  });
+
+  const radioUser = await createTestRadioUser(SUFFIX, station.id);
+  radioCookie = await createSessionCookie({
+    id: radioUser.id,
+    email: radioUser.email,
+    firstName: radioUser.firstName,
+    lastName: radioUser.lastName,
+    userType: radioUser.userType,
+    radioStationId: station.id,
+  });
+}, 30000);
+
+afterAll(async () => {
+  await cleanupTestData(SUFFIX);
+}, 30000);
+
+describe('Bulletin release windows (API Integration)', () => {
+  it('leaves unreleased stories out of the bulletin detail', async () => {
+    const res = await apiFetch(`/api/radio/bulletins/${bulletinId}`, radioCookie);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(storyIds(body.bulletin)).toEqual([releasedStory.id]);
+  });
+
+  it('leaves unreleased stories out of the bulletin list', async () => {
+    const res = await apiFetch('/api/radio/bulletins?perPage=100', radioCookie);
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    const bulletin = body.bulletins.find((b: { id: string }) => b.id === bulletinId);
+    expect(bulletin).toBeDefined();
+    expect(storyIds(bulletin)).toEqual([releasedStory.id]);
+  });
+
+  it('leaves unreleased stories out of exported scripts', async () => {
+    const res = await apiFetch(`/api/radio/bulletins/${bulletinId}/export?format=txt`, radioCookie);
+    expect(res.status).toBe(200);
+    const script = await res.text();
+    expect(script).toContain(releasedStory.title);
+    expect(script).not.toContain(embargoedStory.title);
+    expect(script).not.toContain(exclusiveStory.title);
+  });
+});
@@ -4,18 +4,26 @@
  * Hits the actual POST /api/newsroom/stories/[id]/stage endpoint with real
  * session cookies to verify stage transitions, permission checks, and
  * approval-gate validations work end-to-end through the full stack.
+ *
+ * The legacy status parity tests check that stage alone answers everything the
+ * retired status column used to, before that column is dropped.
  */
 
 import {
   StoryStage,
+  StoryStatus,
   ClassificationType,
   StaffRole,
 } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { legacyStatusForStage, resolveLegacyStage, stageForLegacyStatus } from '@/lib/story-stage';
 import {
   createTestUser,
   createTestCategory,
   createTestClassification,
   createTestStory,
+  createTestStation,
+  createTestRadioUser,
   createSessionCookie,
   apiFetch,
   cleanupTestData,
@@ -23,6 +31,11 @@ import {
 
 const SUFFIX = 'ef'; // editorial-flow
 
+// Checklist the default workflow requires on review and approval steps
+const REVIEW_CHECKLIST = { content: true, grammar: true, sources: true };
+// Checklist the default workflow requires before publishing
+const PUBLISH_CHECKLIST = { content: true, translations: true, audio: true, metadata: true };
+
 // Shared references
 let intern: { id: string; email: string; firstName: string; lastName: string; userType: string; staffRole: string | null };
 let journalist: typeof intern;
@@ -30,6 +43,8 @@ let subEditor: typeof intern;
 let internCookie: string;
 let journalistCookie: string;
 let subEditorCookie: string;
+let legacyAuthorId: string;
+let radioCookie: string;
 let categoryId: string;
 let langClassId: string;
 let relClassId: string;
@@ -68,6 +83,23 @@ beforeAll(async () => {
   );
   langClassId = langClass.id;
   relClassId = relClass.id;
+
+  // Dedicated author so legacy-status filters only see the parity fixtures
+  const legacyAuthor = await createTestUser('JOURNALIST', SUFFIX, 'legacy_author');
+  legacyAuthorId = legacyAuthor.id;
+
+  const station = await createTestStation({
+    suffix: SUFFIX,
+    label: 'parity',
+    allowedLanguages: [langClass.name],
+    allowedReligions: [relClass.name],
+  });
+  const radioUser = await createTestRadioUser(SUFFIX, station.id, 'radio_parity');
+  radioCookie = await createSessionCookie({
+    id: radioUser.id, email: radioUser.email,
+    firstName: radioUser.firstName, lastName: radioUser.lastName,
+    userType: radioUser.userType, radioStationId: station.id,
+  });
 }, 30000);
 
 afterAll(async () => {
@@ -92,6 +124,7 @@ describe('Editorial Flow (API Integration)', () => {
       method: 'POST',
       body: JSON.stringify({
         action: 'submit_for_review',
+        checklistData: REVIEW_CHECKLIST,
         assignedUserId: journalist.id,
       }),
     });
@@ -114,6 +147,7 @@ describe('Editorial Flow (API Integration)', () => {
       method: 'POST',
       body: JSON.stringify({
         action: 'send_for_approval',
+        checklistData: REVIEW_CHECKLIST,
         assignedUserId: subEditor.id,
       }),
     });
@@ -136,7 +170,7 @@ describe('Editorial Flow (API Integration)', () => {
 
     const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
       method: 'POST',
-      body: JSON.stringify({ action: 'approve_story' }),
+      body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
     });
 
     expect(res.status).toBe(400);
@@ -157,7 +191,7 @@ describe('Editorial Flow (API Integration)', () => {
 
     const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
       method: 'POST',
-      body: JSON.stringify({ action: 'approve_story' }),
+      body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
     });
 
     expect(res.status).toBe(400);
@@ -178,7 +212,7 @@ describe('Editorial Flow (API Integration)', () => {
 
     const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
       method: 'POST',
-      body: JSON.stringify({ action: 'approve_story' }),
+      body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
     });
 
     expect(res.status).toBe(400);
@@ -199,7 +233,7 @@ describe('Editorial Flow (API Integration)', () => {
 
     const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
       method: 'POST',
-      body: JSON.stringify({ action: 'approve_story' }),
+      body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
     });
 
     expect(res.status).toBe(200);
@@ -220,7 +254,7 @@ describe('Editorial Flow (API Integration)', () => {
 
     const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, internCookie, {
       method: 'POST',
-      body: JSON.stringify({ action: 'approve_story' }),
+      body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
     });
 
     expect(res.status).toBe(403);
@@ -243,6 +277,7 @@ describe('Editorial Flow (API Integration)', () => {
       method: 'POST',
       body: JSON.stringify({
         action: 'submit_for_review',
+        checklistData: REVIEW_CHECKLIST,
         assignedUserId: journalist.id,
       }),
     });
@@ -255,6 +290,7 @@ describe('Editorial Flow (API Integration)', () => {
       method: 'POST',
       body: JSON.stringify({
         action: 'send_for_approval',
+        checklistData: REVIEW_CHECKLIST,
         assignedUserId: subEditor.id,
       }),
     });
@@ -265,7 +301,7 @@ describe('Editorial Flow (API Integration)', () => {
     // 3. NEEDS_SUB_EDITOR_APPROVAL → APPROVED (sub-editor approves)
     res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
       method: 'POST',
-      body: JSON.stringify({ action: 'approve_story' }),
+      body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
     });
     expect(res.status).toBe(200);
     body = await res.json();
@@ -275,7 +311,7 @@ describe('Editorial Flow (API Integration)', () => {
     //    so mark_as_translated publishes directly)
     res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
       method: 'POST',
-      body: JSON.stringify({ action: 'mark_as_translated' }),
+      body: JSON.stringify({ action: 'mark_as_translated', checklistData: PUBLISH_CHECKLIST }),
     });
     expect(res.status).toBe(200);
     body = await res.json();
@@ -283,6 +319,115 @@ describe('Editorial Flow (API Integration)', () => {
     expect(body.story.status).toBe('PUBLISHED');
   });
 
+  it('transition rejected when the workflow checklist is incomplete', async () => {
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'incomplete_checklist',
+      authorId: journalist.id,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.NEEDS_SUB_EDITOR_APPROVAL,
+      categoryId: categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+
+    const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
+      method: 'POST',
+      body: JSON.stringify({ action: 'approve_story', checklistData: { content: true } }),
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.missingChecklistItems).toEqual(['grammar', 'sources']);
+  });
+
+  it('skipping translation requires the publish checklist', async () => {
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'skip_checklist',
+      authorId: journalist.id,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.APPROVED,
+      categoryId: categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+
+    const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
+      method: 'POST',
+      body: JSON.stringify({ action: 'mark_as_translated' }),
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.missingChecklistItems).toEqual(['content', 'translations', 'audio', 'metadata']);
+
+    const unchanged = await prisma.story.findUnique({ where: { id: story.id } });
+    expect(unchanged?.stage).toBe(StoryStage.APPROVED);
+  });
+
+  it('publishing or scheduling from the publish page requires the publish checklist', async () => {
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'publish_page_checklist',
+      authorId: journalist.id,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.TRANSLATED,
+      categoryId: categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+
+    const scheduledPublishAt = new Date(Date.now() + 60 * 60_000).toISOString();
+    for (const body of [
+      { publishImmediately: true, checklistData: { content: true } },
+      { publishImmediately: false, scheduledPublishAt },
+    ]) {
+      const res = await apiFetch(`/api/newsroom/stories/${story.id}/publish`, subEditorCookie, {
+        method: 'POST',
+        body: JSON.stringify(body),
+      });
+
+      expect(res.status).toBe(400);
+      const data = await res.json();
+      expect(data.missingChecklistItems).toEqual(expect.arrayContaining(['translations', 'audio', 'metadata']));
+    }
+
+    const unchanged = await prisma.story.findUnique({ where: { id: story.id } });
+    expect(unchanged?.stage).toBe(StoryStage.TRANSLATED);
+    expect(unchanged?.scheduledPublishAt).toBeNull();
+  });
+
+  it('skipping translation does not publish one story of a publish-together group', async () => {
+    const group = await prisma.storyGroup.create({
+      data: { name: `Test Group ${SUFFIX}`, publishTogether: true },
+    });
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'skip_group',
+      authorId: journalist.id,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.APPROVED,
+      categoryId: categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+    await prisma.story.update({ where: { id: story.id }, data: { storyGroupId: group.id } });
+
+    try {
+      const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, subEditorCookie, {
+        method: 'POST',
+        body: JSON.stringify({ action: 'mark_as_translated', checklistData: PUBLISH_CHECKLIST }),
+      });
+
+      expect(res.status).toBe(400);
+      const body = await res.json();
+      expect(body.error).toContain('must be published with the group');
+
+      const unchanged = await prisma.story.findUnique({ where: { id: story.id } });
+      expect(unchanged?.stage).toBe(StoryStage.APPROVED);
+    } finally {
+      await prisma.story.update({ where: { id: story.id }, data: { storyGroupId: null } });
+      await prisma.storyGroup.delete({ where: { id: group.id } });
+    }
+  });
+
   it('returns 401 without authentication', async () => {
     const res = await fetch('http://localhost:3099/api/newsroom/stories/fake-id/stage', {
       method: 'POST',
@@ -292,3 +437,152 @@ describe('Editorial Flow (API Integration)', () => {
     expect(res.status).toBe(401);
   });
 });
+
+describe('Legacy status parity (API Integration)', () => {
+  const LEGACY_STATUSES: StoryStatus[] = [
+    StoryStatus.DRAFT,
+    StoryStatus.IN_REVIEW,
+    StoryStatus.PENDING_APPROVAL,
+    StoryStatus.APPROVED,
+    StoryStatus.READY_TO_PUBLISH,
+    StoryStatus.PUBLISHED,
+  ];
+
+  // Stories as they looked before stages: legacy status set, stage left at the DRAFT default
+  const legacyStories = new Map<StoryStatus, string>();
+
+  beforeAll(async () => {
+    for (const status of LEGACY_STATUSES) {
+      const story = await createTestStory({
+        suffix: SUFFIX,
+        label: `legacy_${status.toLowerCase()}`,
+        authorId: legacyAuthorId,
+        authorRole: StaffRole.JOURNALIST,
+        status,
+        stage: StoryStage.DRAFT,
+        categoryId: categoryId,
+        classificationIds: [langClassId, relClassId],
+        publishedAt: status === StoryStatus.PUBLISHED ? new Date('2026-01-01') : undefined,
+      });
+      legacyStories.set(status, story.id);
+    }
+
+    // Same mapping the migrate-story-stages script applies
+    for (const id of legacyStories.values()) {
+      const story = await prisma.story.findUniqueOrThrow({
+        where: { id },
+        select: { status: true, stage: true, _count: { select: { revisionRequests: true } } },
+      });
+      const stage = resolveLegacyStage({
+        status: story.status,
+        stage: story.stage,
+        hasRevisionRequests: story._count.revisionRequests > 0,
+      });
+      await prisma.story.update({ where: { id }, data: { stage, status: legacyStatusForStage(stage) } });
+    }
+  }, 30000);
+
+  it('migrates every legacy status onto the matching stage', async () => {
+    for (const [status, id] of legacyStories) {
+      const story = await prisma.story.findUniqueOrThrow({ where: { id }, select: { stage: true } });
+      expect(story.stage).toBe(stageForLegacyStatus(status));
+    }
+  });
+
+  it('legacy status filters return the same stories as stage filters', async () => {
+    for (const [status, id] of legacyStories) {
+      const stage = stageForLegacyStatus(status)!;
+
+      const byStatus = await apiFetch(
+        `/api/newsroom/stories?authorId=${legacyAuthorId}&status=${status}&perPage=100`,
+        subEditorCookie
+      );
+      const byStage = await apiFetch(
+        `/api/newsroom/stories?authorId=${legacyAuthorId}&stage=${stage}&perPage=100`,
+        subEditorCookie
+      );
+      expect(byStatus.status).toBe(200);
+      expect(byStage.status).toBe(200);
+
+      const statusIds = (await byStatus.json()).stories.map((s: { id: string }) => s.id).sort();
+      const stageIds = (await byStage.json()).stories.map((s: { id: string }) => s.id).sort();
+      expect(statusIds).toEqual(stageIds);
+      expect(statusIds).toContain(id);
+    }
+  });
+
+  it('radio only serves stories the legacy status considered published', async () => {
+    const res = await apiFetch('/api/radio/stories?perPage=100', radioCookie);
+    expect(res.status).toBe(200);
+
+    const ids = (await res.json()).stories.map((s: { id: string }) => s.id);
+    for (const [status, id] of legacyStories) {
+      if (status === StoryStatus.PUBLISHED) {
+        expect(ids).toContain(id);
+      } else {
+        expect(ids).not.toContain(id);
+      }
+    }
+  });
+
+  it('keeps status in step with stage through the stage workflow', async () => {
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'parity_pipeline',
+      authorId: journalist.id,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.DRAFT,
+      categoryId: categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+
+    const steps = [
+      { cookie: journalistCookie, body: { action: 'send_for_approval', checklistData: REVIEW_CHECKLIST, assignedUserId: subEditor.id } },
+      { cookie: subEditorCookie, body: { action: 'approve_story', checklistData: REVIEW_CHECKLIST } },
+      { cookie: subEditorCookie, body: { action: 'mark_as_translated', checklistData: PUBLISH_CHECKLIST } },
+    ];
+
+    for (const step of steps) {
+      const res = await apiFetch(`/api/newsroom/stories/${story.id}/stage`, step.cookie, {
+        method: 'POST',
+        body: JSON.stringify(step.body),
+      });
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.story.status).toBe(legacyStatusForStage(body.story.stage));
+    }
+  });
+
+  it('legacy status endpoint moves the stage', async () => {
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'legacy_endpoint',
+      authorId: intern.id,
+      authorRole: StaffRole.INTERN,
+      stage: StoryStage.DRAFT,
+    });
+
+    const res = await apiFetch(`/api/newsroom/stories/${story.id}/status`, internCookie, {
+      method: 'PATCH',
+      body: JSON.stringify({ status: 'IN_REVIEW', reviewerId: journalist.id }),
+    });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.stage).toBe('NEEDS_JOURNALIST_REVIEW');
+    expect(body.status).toBe('IN_REVIEW');
+  });
+
+  it('editorial metrics queue migrated stories by stage', async () => {
+    const res = await apiFetch('/api/newsroom/dashboard/editorial-metrics', subEditorCookie);
+    expect(res.status).toBe(200);
+
+    const body = await res.json();
+    const reviewIds = body.queues.review.map((s: { id: string }) => s.id);
+    const approvalIds = body.queues.approval.map((s: { id: string }) => s.id);
+
+    expect(reviewIds).toContain(legacyStories.get(StoryStatus.IN_REVIEW));
+    expect(approvalIds).toContain(legacyStories.get(StoryStatus.PENDING_APPROVAL));
+    expect(approvalIds).not.toContain(legacyStories.get(StoryStatus.DRAFT));
+  });
+});
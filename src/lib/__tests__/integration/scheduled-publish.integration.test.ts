@@ -0,0 +1,91 @@
+/**
+ * Scheduled Publishing — Integration Tests (Real API)
+ *
+ * Runs the /api/cron/publish-scheduled-stories job against due stories and
+ * checks they are published and audited against the user who scheduled them.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { prisma } from '@/lib/prisma';
+import { createTestUser, createTestStory, cleanupTestData, BASE_URL } from './test-helpers';
+import { StoryStage, StoryStatus } from '@prisma/client';
+
+const SUFFIX = 'sp';
+
+let editorId: string;
+let journalistId: string;
+
+function runCron() {
+  return fetch(`${BASE_URL}/api/cron/publish-scheduled-stories`, {
+    headers: { Authorization: `Bearer ${process.env.CRON_SECRET}` },
+  });
+}
+
+beforeAll(async () => {
+  await cleanupTestData(SUFFIX);
+
+  const editor = await createTestUser('EDITOR', SUFFIX);
+  const journalist = await createTestUser('JOURNALIST', SUFFIX);
+  editorId = editor.id;
+  journalistId = journalist.id;
+}, 30000);
+
+afterAll(async () => {
+  await cleanupTestData(SUFFIX);
+}, 30000);
+
+describe('Scheduled publishing cron (API Integration)', () => {
+  it('rejects calls without the cron secret', async () => {
+    const res = await fetch(`${BASE_URL}/api/cron/publish-scheduled-stories`);
+    expect(res.status).toBe(401);
+  });
+
+  it('publishes a story once its scheduled time has passed', async () => {
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'due',
+      authorId: journalistId,
+      stage: StoryStage.TRANSLATED,
+      status: StoryStatus.APPROVED,
+    });
+    await prisma.story.update({
+      where: { id: story.id },
+      data: { scheduledPublishAt: new Date(Date.now() - 60_000), publishedBy: editorId },
+    });
+
+    const res = await runCron();
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.success).toBe(true);
+    expect(body.published).toBeGreaterThanOrEqual(1);
+
+    const published = await prisma.story.findUnique({ where: { id: story.id } });
+    expect(published?.stage).toBe(StoryStage.PUBLISHED);
+    expect(published?.publishedAt).not.toBeNull();
+
+    const audit = await prisma.auditLog.findFirst({
+      where: { action: 'AUTO_PUBLISH_STORY', entityId: story.id },
+    });
+    expect(audit?.userId).toBe(editorId);
+  });
+
+  it('leaves a story scheduled for later alone', async () => {
+    const story = await createTestStory({
+      suffix: SUFFIX,
+      label: 'later',
+      authorId: journalistId,
+      stage: StoryStage.TRANSLATED,
+      status: StoryStatus.APPROVED,
+    });
+    await prisma.story.update({
+      where: { id: story.id },
+      data: { scheduledPublishAt: new Date(Date.now() + 60 * 60_000), publishedBy: editorId },
+    });
+
+    const res = await runCron();
+    expect(res.status).toBe(200);
+
+    const unchanged = await prisma.story.findUnique({ where: { id: story.id } });
+    expect(unchanged?.stage).toBe(StoryStage.TRANSLATED);
+  });
+});
@@ -5,6 +5,8 @@
  * 1. Approving one translation doesn't auto-advance the parent
  * 2. Approving ALL translations auto-advances the parent to TRANSLATED
  * 3. Publishing the parent cascades PUBLISHED to all translations
+ * 4. Translations can only be assigned from the target language's translator pool
+ * 5. Editing the original flags its translations as stale and blocks publishing
  *
  * Uses real HTTP calls through the full stack.
  */
@@ -29,6 +31,10 @@ import {
 
 const SUFFIX = 'tc'; // translation-cascade
 
+// Checklists the default workflow requires on approval and publishing
+const REVIEW_CHECKLIST = { content: true, grammar: true, sources: true };
+const PUBLISH_CHECKLIST = { content: true, translations: true, audio: true, metadata: true };
+
 // Shared references
 let subEditorCookie: string;
 let authorId: string;
@@ -78,6 +84,7 @@ describe('Translation Cascade (API Integration)', () => {
   let parentStoryId: string;
   let translationAId: string;
   let translationBId: string;
+  let translationCId: string;
 
   beforeAll(async () => {
     // Create parent story at APPROVED stage with all required fields
@@ -93,7 +100,7 @@ describe('Translation Cascade (API Integration)', () => {
     });
     parentStoryId = parent.id;
 
-    // Create two translation stories at NEEDS_SUB_EDITOR_APPROVAL
+    // Create three translation stories at NEEDS_SUB_EDITOR_APPROVAL
     // (so we can use approve_story action which triggers the cascade logic)
     const transA = await createTestStory({
       suffix: SUFFIX,
@@ -122,6 +129,20 @@ describe('Translation Cascade (API Integration)', () => {
       classificationIds: [langClassId, relClassId],
     });
     translationBId = transB.id;
+
+    const transC = await createTestStory({
+      suffix: SUFFIX,
+      label: 'trans_zulu',
+      authorId,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.NEEDS_SUB_EDITOR_APPROVAL,
+      language: StoryLanguage.ZULU,
+      isTranslation: true,
+      originalStoryId: parentStoryId,
+      categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+    translationCId = transC.id;
   });
 
   it('approving one translation does NOT auto-advance parent', async () => {
@@ -131,7 +152,7 @@ describe('Translation Cascade (API Integration)', () => {
       subEditorCookie,
       {
         method: 'POST',
-        body: JSON.stringify({ action: 'approve_story' }),
+        body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
       }
     );
 
@@ -140,7 +161,7 @@ describe('Translation Cascade (API Integration)', () => {
     // Translation approval sets stage to TRANSLATED (not APPROVED) for translations
     expect(body.story.stage).toBe('TRANSLATED');
 
-    // Parent should still be at APPROVED (translation B is still pending)
+    // Parent should still be at APPROVED (translations B and C are still pending)
     const parent = await prisma.story.findUnique({
       where: { id: parentStoryId },
       select: { stage: true },
@@ -149,19 +170,21 @@ describe('Translation Cascade (API Integration)', () => {
   });
 
   it('approving ALL translations auto-advances parent to TRANSLATED', async () => {
-    // Approve translation B via the API
-    const res = await apiFetch(
-      `/api/newsroom/stories/${translationBId}/stage`,
-      subEditorCookie,
-      {
-        method: 'POST',
-        body: JSON.stringify({ action: 'approve_story' }),
-      }
-    );
+    // Approve translations B and C via the API
+    for (const translationId of [translationBId, translationCId]) {
+      const res = await apiFetch(
+        `/api/newsroom/stories/${translationId}/stage`,
+        subEditorCookie,
+        {
+          method: 'POST',
+          body: JSON.stringify({ action: 'approve_story', checklistData: REVIEW_CHECKLIST }),
+        }
+      );
 
-    expect(res.status).toBe(200);
-    const body = await res.json();
-    expect(body.story.stage).toBe('TRANSLATED');
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.story.stage).toBe('TRANSLATED');
+    }
 
     // Now ALL translations are approved — parent should auto-advance to TRANSLATED
     const parent = await prisma.story.findUnique({
@@ -178,7 +201,7 @@ describe('Translation Cascade (API Integration)', () => {
       subEditorCookie,
       {
         method: 'POST',
-        body: JSON.stringify({ action: 'publish_story' }),
+        body: JSON.stringify({ action: 'publish_story', checklistData: PUBLISH_CHECKLIST }),
       }
     );
 
@@ -196,7 +219,7 @@ describe('Translation Cascade (API Integration)', () => {
       select: { id: true, stage: true, status: true, publishedAt: true },
     });
 
-    expect(translations.length).toBe(2);
+    expect(translations.length).toBe(3);
     for (const t of translations) {
       expect(t.stage).toBe('PUBLISHED');
       expect(t.status).toBe('PUBLISHED');
@@ -204,3 +227,167 @@ describe('Translation Cascade (API Integration)', () => {
     }
   });
 });
+
+describe('Zulu translation assignment (API Integration)', () => {
+  let parentStoryId: string;
+  let zuluTranslatorId: string;
+  let xhosaTranslatorId: string;
+
+  beforeAll(async () => {
+    const parent = await createTestStory({
+      suffix: SUFFIX,
+      label: 'zulu_parent',
+      authorId,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.APPROVED,
+      status: StoryStatus.APPROVED,
+      categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+    parentStoryId = parent.id;
+
+    const zuluTranslator = await createTestUser('JOURNALIST', SUFFIX, 'zulu_translator');
+    await prisma.user.update({
+      where: { id: zuluTranslator.id },
+      data: { translationLanguage: 'ZULU' },
+    });
+    zuluTranslatorId = zuluTranslator.id;
+
+    const xhosaTranslator = await createTestUser('JOURNALIST', SUFFIX, 'xhosa_translator');
+    await prisma.user.update({
+      where: { id: xhosaTranslator.id },
+      data: { translationLanguage: 'XHOSA' },
+    });
+    xhosaTranslatorId = xhosaTranslator.id;
+  });
+
+  it('rejects a translator outside the Zulu pool', async () => {
+    const res = await apiFetch(
+      `/api/newsroom/stories/${parentStoryId}/create-translations`,
+      subEditorCookie,
+      {
+        method: 'POST',
+        body: JSON.stringify({ translations: [{ language: 'ZULU', assignedToId: xhosaTranslatorId }] }),
+      }
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  it('creates a Zulu translation assigned to a Zulu translator', async () => {
+    const res = await apiFetch(
+      `/api/newsroom/stories/${parentStoryId}/create-translations`,
+      subEditorCookie,
+      {
+        method: 'POST',
+        body: JSON.stringify({ translations: [{ language: 'ZULU', assignedToId: zuluTranslatorId }] }),
+      }
+    );
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.translations).toHaveLength(1);
+    expect(body.translations[0].language).toBe('ZULU');
+    expect(body.translations[0].author.id).toBe(zuluTranslatorId);
+    expect(body.translations[0].stage).toBe('DRAFT');
+  });
+});
+
+describe('Stale translations (API Integration)', () => {
+  let parentStoryId: string;
+  let translationId: string;
+
+  beforeAll(async () => {
+    const parent = await createTestStory({
+      suffix: SUFFIX,
+      label: 'stale_parent',
+      authorId,
+      authorRole: StaffRole.JOURNALIST,
+      stage: StoryStage.APPROVED,
+      status: StoryStatus.APPROVED,
+      categoryId,
+      classificationIds: [langClassId, relClassId],
+    });
+    parentStoryId = parent.id;
+
+    const translator = await createTestUser('JOURNALIST', SUFFIX, 'afrikaans_translator');
+    await prisma.user.update({
+      where: { id: translator.id },
+      data: { translationLanguage: 'AFRIKAANS' },
+    });
+
+    const res = await apiFetch(
+      `/api/newsroom/stories/${parentStoryId}/create-translations`,
+      subEditorCookie,
+      {
+        method: 'POST',
+        body: JSON.stringify({ translations: [{ language: 'AFRIKAANS', assignedToId: translator.id }] }),
+      }
+    );
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    translationId = body.translations[0].id;
+  });
+
+  it('records the version of the original the translation was made from', async () => {
+    const translation = await prisma.story.findUnique({
+      where: { id: translationId },
+      select: { sourceVersionNumber: true, sourceChangedAt: true },
+    });
+
+    expect(translation?.sourceVersionNumber).toBe(1);
+    expect(translation?.sourceChangedAt).toBeNull();
+  });
+
+  it('flags the translation when the original is edited', async () => {
+    const res = await apiFetch(`/api/newsroom/stories/${parentStoryId}`, subEditorCookie, {
+      method: 'PATCH',
+      body: JSON.stringify({ content: '<p>Test story content for stale_parent</p><p>A late correction.</p>' }),
+    });
+    expect(res.status).toBe(200);
+
+    const translation = await prisma.story.findUnique({
+      where: { id: translationId },
+      select: { sourceChangedAt: true },
+    });
+    expect(translation?.sourceChangedAt).not.toBeNull();
+
+    const changesRes = await apiFetch(`/api/newsroom/stories/${translationId}/source-changes`, subEditorCookie);
+    expect(changesRes.status).toBe(200);
+    const changes = await changesRes.json();
+    expect(changes.stale).toBe(true);
+    expect(changes.paragraphs).toContainEqual(
+      expect.objectContaining({ type: 'added', after: 'A late correction.' })
+    );
+  });
+
+  it('blocks publishing while a translation is stale', async () => {
+    await prisma.story.update({ where: { id: translationId }, data: { stage: 'TRANSLATED' } });
+    await prisma.story.update({ where: { id: parentStoryId }, data: { stage: 'TRANSLATED' } });
+
+    const res = await apiFetch(`/api/newsroom/stories/${parentStoryId}/stage`, subEditorCookie, {
+      method: 'POST',
+      body: JSON.stringify({ action: 'publish_story', checklistData: PUBLISH_CHECKLIST }),
+    });
+
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.staleTranslations.map((t: { id: string }) => t.id)).toEqual([translationId]);
+  });
+
+  it('publishes once the translation is marked up to date', async () => {
+    const ackRes = await apiFetch(`/api/newsroom/stories/${translationId}/source-changes`, subEditorCookie, {
+      method: 'POST',
+    });
+    expect(ackRes.status).toBe(200);
+    const ack = await ackRes.json();
+    expect(ack.sourceChangedAt).toBeNull();
+    expect(ack.sourceVersionNumber).toBeGreaterThan(1);
+
+    const res = await apiFetch(`/api/newsroom/stories/${parentStoryId}/stage`, subEditorCookie, {
+      method: 'POST',
+      body: JSON.stringify({ action: 'publish_story', checklistData: PUBLISH_CHECKLIST }),
+    });
+    expect(res.status).toBe(200);
+  });
+});
@@ -3,7 +3,11 @@ import {
   formatLanguage,
   formatLanguages,
   getLanguageOptions,
+  languageCodeFromName,
+  languageShortCode,
+  DEFAULT_STATION_LANGUAGES,
   LANGUAGE_DISPLAY_NAMES,
+  TRANSLATION_LANGUAGES,
 } from '../language-utils';
 
 describe('Language Support', () => {
@@ -116,4 +120,26 @@ describe('Language Support', () => {
       expect(LANGUAGE_DISPLAY_NAMES.ZULU).toBe('Zulu');
     });
   });
+
+  describe('Station Languages', () => {
+    it('Stations accept every language by default', () => {
+      expect(DEFAULT_STATION_LANGUAGES).toEqual(['English', 'Afrikaans', 'Xhosa', 'Zulu']);
+    });
+
+    it('Every language except English is a translation target', () => {
+      expect(TRANSLATION_LANGUAGES).toEqual(['AFRIKAANS', 'XHOSA', 'ZULU']);
+    });
+
+    it('Display names map back to language codes', () => {
+      expect(languageCodeFromName('Zulu')).toBe('ZULU');
+      expect(languageCodeFromName('Afrikaans')).toBe('AFRIKAANS');
+      expect(languageCodeFromName('French')).toBeNull();
+    });
+
+    it('Display names abbreviate to short codes', () => {
+      expect(languageShortCode('English')).toBe('EN');
+      expect(languageShortCode('Zulu')).toBe('ZU');
+      expect(languageShortCode('French')).toBe('French');
+    });
+  });
 });
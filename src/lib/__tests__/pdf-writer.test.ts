@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { measureText, renderTextPdf, wrapText } from '../pdf-writer';
+
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('wrapText', () => {
+  it('keeps every line within the width', () => {
+    const text = 'The quick brown fox jumps over the lazy dog '.repeat(10);
+    const lines = wrapText(text, 'F1', 12, 200);
+
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) expect(measureText(line, 'F1', 12)).toBeLessThanOrEqual(200);
+    expect(lines.join(' ')).toBe(text.trim());
+  });
+
+  it('splits words longer than a line', () => {
+    const lines = wrapText('x'.repeat(100), 'F1', 12, 100);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join('')).toBe('x'.repeat(100));
+  });
+});
+
+describe('renderTextPdf', () => {
+  it('writes a complete PDF document', () => {
+    const pdf = decode(renderTextPdf([{ text: 'Bulletin', style: 'title' }, { text: 'Good morning.' }], { title: 'Bulletin' }));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('/Count 1');
+    expect(pdf).toContain('(Good morning.) Tj');
+  });
+
+  it('points the cross-reference table at each object', () => {
+    const pdf = decode(renderTextPdf([{ text: 'Hello' }]));
+    const offsets = pdf.match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('adds pages for long content', () => {
+    const blocks = Array.from({ length: 80 }, (_, index) => ({ text: `Paragraph ${index + 1}` }));
+    const pdf = decode(renderTextPdf(blocks, { footer: 'Bulletin' }));
+
+    expect(pdf).toMatch(/\/Count [2-9]/);
+    expect(pdf).toContain('(Bulletin  |  Page 1 of');
+  });
+
+  it('escapes parentheses and encodes accented letters', () => {
+    const pdf = decode(renderTextPdf([{ text: 'Môre (Tuesday) \\ ‘news’' }]));
+    expect(pdf).toContain('(M\\364re \\(Tuesday\\) \\\\ \\221news\\222) Tj');
+  });
+});
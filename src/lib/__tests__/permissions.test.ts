@@ -256,6 +256,86 @@ describe('Stage-Based Story Workflow', () => {
     });
   });
 
+  describe('Parity with the fixed stage matrix the default workflow replaced', () => {
+    const ALL_STAGES = Object.values(StoryStage);
+    const STAGE_ORDER: StoryStage[] = [
+      'DRAFT', 'NEEDS_JOURNALIST_REVIEW', 'NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED', 'TRANSLATED', 'PUBLISHED',
+    ];
+    const everyOtherStage = Object.fromEntries(
+      ALL_STAGES.map(stage => [stage, ALL_STAGES.filter(s => s !== stage)])
+    ) as Record<StoryStage, StoryStage[]>;
+
+    const previousMatrix: Record<StaffRole, Record<StoryStage, StoryStage[]>> = {
+      INTERN: {
+        DRAFT: ['NEEDS_JOURNALIST_REVIEW'],
+        NEEDS_JOURNALIST_REVIEW: [],
+        NEEDS_SUB_EDITOR_APPROVAL: [],
+        APPROVED: [],
+        TRANSLATED: [],
+        PUBLISHED: [],
+      },
+      JOURNALIST: {
+        DRAFT: ['NEEDS_SUB_EDITOR_APPROVAL'],
+        NEEDS_JOURNALIST_REVIEW: ['NEEDS_SUB_EDITOR_APPROVAL', 'DRAFT'],
+        NEEDS_SUB_EDITOR_APPROVAL: [],
+        APPROVED: [],
+        TRANSLATED: [],
+        PUBLISHED: [],
+      },
+      SUB_EDITOR: {
+        DRAFT: ['NEEDS_JOURNALIST_REVIEW', 'NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED'],
+        NEEDS_JOURNALIST_REVIEW: ['NEEDS_SUB_EDITOR_APPROVAL', 'DRAFT'],
+        NEEDS_SUB_EDITOR_APPROVAL: ['APPROVED', 'DRAFT'],
+        APPROVED: ['TRANSLATED', 'DRAFT'],
+        TRANSLATED: ['PUBLISHED', 'APPROVED'],
+        PUBLISHED: [],
+      },
+      EDITOR: {
+        DRAFT: ['NEEDS_JOURNALIST_REVIEW', 'NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED', 'TRANSLATED', 'PUBLISHED'],
+        NEEDS_JOURNALIST_REVIEW: ['NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED', 'DRAFT'],
+        NEEDS_SUB_EDITOR_APPROVAL: ['APPROVED', 'DRAFT'],
+        APPROVED: ['TRANSLATED', 'DRAFT'],
+        TRANSLATED: ['PUBLISHED', 'APPROVED'],
+        PUBLISHED: ['DRAFT'],
+      },
+      ADMIN: everyOtherStage,
+      SUPERADMIN: everyOtherStage,
+    };
+
+    const moves = Object.values(StaffRole).flatMap(role =>
+      ALL_STAGES.flatMap(from => ALL_STAGES.filter(to => to !== from).map(to => ({ role, from, to })))
+    );
+
+    it('still allows every move the matrix allowed', () => {
+      const lost = moves.filter(
+        ({ role, from, to }) => previousMatrix[role][from].includes(to) && !canUpdateStoryStage(role, from, to)
+      );
+      expect(lost).toEqual([]);
+    });
+
+    // The stage route never limited who could submit an intern's draft for review
+    it('only adds skipping translation and submitting for review to the forward moves', () => {
+      const added = moves.filter(
+        ({ role, from, to }) =>
+          STAGE_ORDER.indexOf(to) > STAGE_ORDER.indexOf(from) &&
+          !previousMatrix[role][from].includes(to) &&
+          canUpdateStoryStage(role, from, to)
+      );
+      expect(added).toEqual([
+        { role: 'EDITOR', from: 'APPROVED', to: 'PUBLISHED' },
+        { role: 'SUB_EDITOR', from: 'APPROVED', to: 'PUBLISHED' },
+        { role: 'JOURNALIST', from: 'DRAFT', to: 'NEEDS_JOURNALIST_REVIEW' },
+      ]);
+    });
+
+    it('only lets editors and admins unpublish', () => {
+      const unpublishers = Object.values(StaffRole).filter(role =>
+        canUpdateStoryStage(role, StoryStage.PUBLISHED, StoryStage.DRAFT)
+      );
+      expect(unpublishers.sort()).toEqual(['ADMIN', 'EDITOR', 'SUPERADMIN']);
+    });
+  });
+
   describe('Revision Requests', () => {
     const reviewerId = 'reviewer-123';
     const _approverId = 'approver-456';
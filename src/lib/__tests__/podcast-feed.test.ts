@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { buildPodcastFeed, feedLanguage, podcastGuid, type FeedChannel, type FeedEpisode } from '../podcast-feed';
+
+const channel: FeedChannel = {
+  title: 'Farm & Field',
+  description: 'Weekly <b>agri</b> news',
+  link: 'https://app.example/radio/podcasts/p1',
+  feedUrl: 'https://app.example/api/feeds/podcasts/farm-and-field',
+  imageUrl: 'https://cdn.example/cover.jpg',
+  language: 'en-za',
+  category: 'Agriculture',
+  author: 'Newskoop',
+  updatedAt: new Date('2026-10-19T08:00:00Z'),
+};
+
+const episode = (overrides: Partial<FeedEpisode> = {}): FeedEpisode => ({
+  id: 'ep-1',
+  title: 'Maize prices "up"',
+  description: null,
+  content: '<p>Prices rose in Mbombela.</p>',
+  episodeNumber: 3,
+  publishedAt: new Date('2026-10-18T06:00:00Z'),
+  coverImage: null,
+  duration: null,
+  audioClips: [{ url: 'https://cdn.example/ep1.mp3?a=1&b=2', mimeType: 'audio/mpeg', fileSize: 1234, duration: 95 }],
+  ...overrides,
+});
+
+describe('buildPodcastFeed', () => {
+  it('writes the channel with iTunes and Podcasting 2.0 tags', () => {
+    const xml = buildPodcastFeed(channel, []);
+
+    expect(xml).toContain('<title>Farm &amp; Field</title>');
+    expect(xml).toContain('<description><![CDATA[Weekly <b>agri</b> news]]></description>');
+    expect(xml).toContain('<itunes:category text="Agriculture"/>');
+    expect(xml).toContain('<itunes:block>Yes</itunes:block>');
+    expect(xml).toContain('<podcast:locked>yes</podcast:locked>');
+    expect(xml).toContain(`<podcast:guid>${podcastGuid(channel.feedUrl)}</podcast:guid>`);
+  });
+
+  it('uses the first audio clip as the enclosure', () => {
+    const xml = buildPodcastFeed(channel, [episode()]);
+
+    expect(xml).toContain('<title>Maize prices &quot;up&quot;</title>');
+    expect(xml).toContain('<enclosure url="https://cdn.example/ep1.mp3?a=1&amp;b=2" length="1234" type="audio/mpeg"/>');
+    expect(xml).toContain('<itunes:duration>95</itunes:duration>');
+    expect(xml).toContain('<podcast:episode>3</podcast:episode>');
+    expect(xml).toContain('<pubDate>Sun, 18 Oct 2026 06:00:00 GMT</pubDate>');
+    expect(xml).toContain('<description><![CDATA[Prices rose in Mbombela.]]></description>');
+  });
+
+  it('leaves out episodes without audio', () => {
+    const xml = buildPodcastFeed(channel, [episode({ id: 'silent', audioClips: [] }), episode()]);
+
+    expect(xml).not.toContain('silent');
+    expect(xml.match(/<item>/g)).toHaveLength(1);
+  });
+});
+
+describe('feedLanguage', () => {
+  it('maps the first known language and falls back to English', () => {
+    expect(feedLanguage(['Zulu', 'English'])).toBe('zu-za');
+    expect(feedLanguage(['Sesotho'])).toBe('en-za');
+    expect(feedLanguage([])).toBe('en-za');
+  });
+});
+
+describe('podcastGuid', () => {
+  it('matches the Podcasting 2.0 reference value', () => {
+    expect(podcastGuid('https://mp3s.nashownotes.com/pc20rss.xml')).toBe('917393e3-1b1e-5cef-ace4-edaa54e1f810');
+    expect(podcastGuid('http://mp3s.nashownotes.com/pc20rss.xml/')).toBe('917393e3-1b1e-5cef-ace4-edaa54e1f810');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findPronunciationSuggestions,
+  addPronunciationHints,
+  inlinePronunciations,
+  extractPronunciationNotes,
+} from '../pronunciation';
+
+const dictionary = [
+  { term: 'Gqeberha', guide: 'geh-BEH-ha' },
+  { term: 'Mbombela', guide: 'm-bom-BEH-la' },
+  { term: 'Port Elizabeth', guide: 'port ih-LIZ-uh-beth' },
+];
+
+describe('findPronunciationSuggestions', () => {
+  it('finds dictionary names in the copy, whole words only and ignoring case', () => {
+    const html = '<p>Flooding in MBOMBELA and gqeberha, not Gqeberhaville.</p>';
+    expect(findPronunciationSuggestions(html, dictionary).map(e => e.term)).toEqual(['Mbombela', 'Gqeberha']);
+  });
+
+  it('skips names that already carry a note', () => {
+    const html = '<p><span data-pronunciation="geh-BEH-ha">Gqeberha</span> and Mbombela</p>';
+    expect(findPronunciationSuggestions(html, dictionary).map(e => e.term)).toEqual(['Mbombela']);
+  });
+
+  it('matches names across formatting and returns each once', () => {
+    const html = '<p>Port Elizabeth</p><p>Port Elizabeth again</p>';
+    expect(findPronunciationSuggestions(html, dictionary).map(e => e.term)).toEqual(['Port Elizabeth']);
+  });
+
+  it('returns nothing for an empty dictionary', () => {
+    expect(findPronunciationSuggestions('<p>Gqeberha</p>', [])).toEqual([]);
+  });
+});
+
+describe('addPronunciationHints', () => {
+  it('adds a hover hint to each note', () => {
+    expect(addPronunciationHints('<p>In <span data-pronunciation="geh-BEH-ha">Gqeberha</span> today</p>')).toBe(
+      '<p>In <span data-pronunciation="geh-BEH-ha" class="pronunciation-hint" title="Say: geh-BEH-ha">Gqeberha</span> today</p>'
+    );
+  });
+
+  it('leaves other spans alone', () => {
+    const html = '<p><span class="highlight">Mbombela</span></p>';
+    expect(addPronunciationHints(html)).toBe(html);
+  });
+});
+
+describe('inlinePronunciations', () => {
+  it('writes the guide after the name', () => {
+    expect(inlinePronunciations('<p><span data-pronunciation="m-bom-BEH-la">Mbombela</span> council</p>')).toBe(
+      '<p>Mbombela [m-bom-BEH-la] council</p>'
+    );
+  });
+
+  it('drops empty notes', () => {
+    expect(inlinePronunciations('<p><span data-pronunciation=" ">Mbombela</span></p>')).toBe('<p>Mbombela</p>');
+  });
+});
+
+describe('extractPronunciationNotes', () => {
+  it('reads notes from marked-up terms, once per term', () => {
+    const html =
+      '<p><span data-pronunciation="geh-BEH-ha">Gqeberha</span> and <span class="x" data-pronunciation="MSUN-doo-zee">Msunduzi</span>, ' +
+      'again <span data-pronunciation="geh-BEH-ha">gqeberha</span></p>';
+
+    expect(extractPronunciationNotes(html)).toEqual([
+      { term: 'Gqeberha', guide: 'geh-BEH-ha' },
+      { term: 'Msunduzi', guide: 'MSUN-doo-zee' },
+    ]);
+  });
+
+  it('returns nothing for content without notes', () => {
+    expect(extractPronunciationNotes('<p>Plain</p>')).toEqual([]);
+    expect(extractPronunciationNotes(null)).toEqual([]);
+  });
+});
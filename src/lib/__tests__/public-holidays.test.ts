@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { statutoryHolidays } from '../public-holidays';
+
+const dates = (year: number) => statutoryHolidays(year).map(holiday => holiday.date);
+const named = (year: number, name: string) => statutoryHolidays(year).find(holiday => holiday.name === name)?.date;
+
+describe('statutoryHolidays', () => {
+  it('includes every fixed-date holiday', () => {
+    expect(dates(2026)).toEqual(
+      expect.arrayContaining([
+        '2026-01-01',
+        '2026-03-21',
+        '2026-04-27',
+        '2026-05-01',
+        '2026-06-16',
+        '2026-08-09',
+        '2026-09-24',
+        '2026-12-16',
+        '2026-12-25',
+        '2026-12-26',
+      ])
+    );
+  });
+
+  it('places Good Friday and Family Day around Easter', () => {
+    expect(named(2026, 'Good Friday')).toBe('2026-04-03');
+    expect(named(2026, 'Family Day')).toBe('2026-04-06');
+    expect(named(2025, 'Good Friday')).toBe('2025-04-18');
+    expect(named(2025, 'Family Day')).toBe('2025-04-21');
+    expect(named(2027, 'Good Friday')).toBe('2027-03-26');
+  });
+
+  it('makes the Monday after a Sunday holiday a public holiday', () => {
+    // National Women's Day 2026 falls on a Sunday
+    expect(named(2026, "National Women's Day (observed)")).toBe('2026-08-10');
+    // Human Rights Day 2027 falls on a Sunday
+    expect(named(2027, 'Human Rights Day (observed)')).toBe('2027-03-22');
+  });
+
+  it('does not add a substitute when the Monday is already a holiday', () => {
+    // Christmas 2022 fell on a Sunday; the Monday is the Day of Goodwill anyway
+    const holidays = statutoryHolidays(2022);
+    expect(holidays.filter(holiday => holiday.date === '2022-12-26')).toHaveLength(1);
+    expect(holidays.some(holiday => holiday.name === 'Christmas Day (observed)')).toBe(false);
+  });
+
+  it('does not add substitutes for Saturday holidays', () => {
+    // Day of Goodwill 2026 falls on a Saturday
+    expect(dates(2026)).not.toContain('2026-12-28');
+  });
+
+  it('returns holidays in date order, all marked statutory', () => {
+    const holidays = statutoryHolidays(2026);
+    expect(holidays.map(holiday => holiday.date)).toEqual([...dates(2026)].sort());
+    expect(holidays.every(holiday => holiday.source === 'STATUTORY')).toBe(true);
+    expect(holidays).toHaveLength(13);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { STAFF_STATION_ACCESS, type StationAccess } from '../station-access';
+import { formatTimeRemaining, getReleaseStatus, isReleasedToStation, type ReleaseWindow } from '../release-window';
+
+const station: StationAccess = {
+  stationId: 'station-1',
+  province: 'GAUTENG',
+  allowedLanguages: ['English'],
+  allowedReligions: ['Christian', 'Neutral'],
+  blockedCategories: [],
+};
+
+const now = new Date('2026-10-19T10:00:00Z');
+
+describe('isReleasedToStation', () => {
+  const open: ReleaseWindow = { embargoUntil: null, exclusiveUntil: null, exclusiveStationIds: [], exclusiveProvinces: [] };
+
+  it('hides content until the embargo lifts', () => {
+    const embargoed = { ...open, embargoUntil: new Date('2026-10-19T12:00:00Z') };
+    expect(isReleasedToStation(embargoed, station, now)).toBe(false);
+    expect(isReleasedToStation(embargoed, station, new Date('2026-10-19T12:00:00Z'))).toBe(true);
+  });
+
+  it('limits an exclusive to the listed stations and provinces until it ends', () => {
+    const exclusive = { ...open, exclusiveUntil: new Date('2026-10-19T12:00:00Z'), exclusiveStationIds: ['station-2'] };
+    expect(isReleasedToStation(exclusive, station, now)).toBe(false);
+    expect(isReleasedToStation({ ...exclusive, exclusiveStationIds: ['station-1'] }, station, now)).toBe(true);
+    expect(isReleasedToStation({ ...exclusive, exclusiveProvinces: ['GAUTENG'] }, station, now)).toBe(true);
+    expect(isReleasedToStation(exclusive, station, new Date('2026-10-19T13:00:00Z'))).toBe(true);
+  });
+
+  it('lets staff preview embargoed content', () => {
+    expect(isReleasedToStation({ ...open, embargoUntil: new Date('2026-10-20T00:00:00Z') }, STAFF_STATION_ACCESS, now)).toBe(true);
+  });
+});
+
+describe('getReleaseStatus', () => {
+  it('reports the embargo first, then the exclusive', () => {
+    const content = { embargoUntil: '2026-10-19T12:00:00.000Z', exclusiveUntil: '2026-10-19T18:00:00.000Z' };
+    expect(getReleaseStatus(content, now)).toEqual({ state: 'embargoed', until: new Date('2026-10-19T12:00:00Z') });
+    expect(getReleaseStatus(content, new Date('2026-10-19T13:00:00Z'))).toEqual({
+      state: 'exclusive',
+      until: new Date('2026-10-19T18:00:00Z'),
+    });
+    expect(getReleaseStatus(content, new Date('2026-10-19T18:00:00Z'))).toEqual({ state: 'released' });
+  });
+});
+
+describe('formatTimeRemaining', () => {
+  it('rounds up to the minute and drops the smallest unit past a day', () => {
+    expect(formatTimeRemaining(new Date('2026-10-19T10:00:30Z'), now)).toBe('1m');
+    expect(formatTimeRemaining(new Date('2026-10-19T13:20:00Z'), now)).toBe('3h 20m');
+    expect(formatTimeRemaining(new Date('2026-10-21T13:20:00Z'), now)).toBe('2d 3h');
+  });
+});
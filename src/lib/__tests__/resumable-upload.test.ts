@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  partCount,
+  partRange,
+  missingParts,
+  retryDelay,
+  uploadPercent,
+  AUDIO_UPLOAD_PART_SIZE,
+} from '../resumable-upload';
+
+const MB = 1024 * 1024;
+
+describe('partCount', () => {
+  it('splits a file into whole parts with a shorter last part', () => {
+    expect(partCount(20 * MB, 8 * MB)).toBe(3);
+    expect(partCount(16 * MB, 8 * MB)).toBe(2);
+  });
+
+  it('always has at least one part', () => {
+    expect(partCount(1, AUDIO_UPLOAD_PART_SIZE)).toBe(1);
+    expect(partCount(0, AUDIO_UPLOAD_PART_SIZE)).toBe(1);
+  });
+
+  it('keeps the largest upload within R2 part limits', () => {
+    expect(AUDIO_UPLOAD_PART_SIZE).toBeGreaterThanOrEqual(5 * MB);
+    expect(partCount(250 * MB, AUDIO_UPLOAD_PART_SIZE)).toBeLessThanOrEqual(10000);
+  });
+});
+
+describe('partRange', () => {
+  it('gives the byte range of each part', () => {
+    expect(partRange(1, 20 * MB, 8 * MB)).toEqual({ start: 0, end: 8 * MB });
+    expect(partRange(2, 20 * MB, 8 * MB)).toEqual({ start: 8 * MB, end: 16 * MB });
+    expect(partRange(3, 20 * MB, 8 * MB)).toEqual({ start: 16 * MB, end: 20 * MB });
+  });
+});
+
+describe('missingParts', () => {
+  it('lists the parts still to send when resuming', () => {
+    expect(missingParts(5, [1, 2, 4])).toEqual([3, 5]);
+    expect(missingParts(3, [])).toEqual([1, 2, 3]);
+    expect(missingParts(2, [2, 1])).toEqual([]);
+  });
+});
+
+describe('retryDelay', () => {
+  it('backs off exponentially up to 30 seconds', () => {
+    expect([1, 2, 3, 4].map(retryDelay)).toEqual([1000, 2000, 4000, 8000]);
+    expect(retryDelay(10)).toBe(30_000);
+  });
+});
+
+describe('uploadPercent', () => {
+  it('rounds down so 100% means every byte is stored', () => {
+    expect(uploadPercent({ uploadedBytes: 999, totalBytes: 1000 })).toBe(99);
+    expect(uploadPercent({ uploadedBytes: 1000, totalBytes: 1000 })).toBe(100);
+    expect(uploadPercent({ uploadedBytes: 0, totalBytes: 0 })).toBe(100);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hashFeedToken,
+  isStoryAvailableToStation,
+  isProgrammeAvailableToStation,
+  STAFF_STATION_ACCESS,
+  type StationAccess,
+} from '../station-access';
+
+const station: StationAccess = {
+  stationId: 'station-1',
+  province: 'GAUTENG',
+  allowedLanguages: ['English'],
+  allowedReligions: ['Christian', 'Neutral'],
+  blockedCategories: ['sport'],
+};
+
+const religion = (name: string) => ({ classification: { type: 'RELIGION', name } });
+
+describe('isStoryAvailableToStation', () => {
+  it('excludes stories in a blocked category or subcategory', () => {
+    expect(isStoryAvailableToStation({ categoryId: 'sport' }, station)).toBe(false);
+    expect(isStoryAvailableToStation({ categoryId: 'rugby', category: { parentId: 'sport' } }, station)).toBe(false);
+    expect(isStoryAvailableToStation({ categoryId: 'politics', category: { parentId: null } }, station)).toBe(true);
+  });
+
+  it('requires one of the station religions when a story is classified by religion', () => {
+    expect(isStoryAvailableToStation({ categoryId: null, classifications: [religion('Muslim')] }, station)).toBe(false);
+    expect(
+      isStoryAvailableToStation({ categoryId: null, classifications: [religion('Muslim'), religion('Neutral')] }, station)
+    ).toBe(true);
+    expect(
+      isStoryAvailableToStation({ categoryId: null, classifications: [{ classification: { type: 'LANGUAGE', name: 'Zulu' } }] }, station)
+    ).toBe(true);
+  });
+
+  it('lets staff see everything', () => {
+    expect(isStoryAvailableToStation({ categoryId: 'sport', classifications: [religion('Muslim')] }, STAFF_STATION_ACCESS)).toBe(true);
+  });
+});
+
+describe('isProgrammeAvailableToStation', () => {
+  const language = (name: string) => ({ classification: { type: 'LANGUAGE', name } });
+
+  it('requires one of the station languages when a programme is classified by language', () => {
+    expect(isProgrammeAvailableToStation({ categoryId: null, classifications: [language('Zulu')] }, station)).toBe(false);
+    expect(
+      isProgrammeAvailableToStation({ categoryId: null, classifications: [language('Zulu'), language('English')] }, station)
+    ).toBe(true);
+    expect(isProgrammeAvailableToStation({ categoryId: null, classifications: [] }, station)).toBe(true);
+  });
+
+  it('applies the story category and religion rules', () => {
+    expect(isProgrammeAvailableToStation({ categoryId: 'sport', classifications: [language('English')] }, station)).toBe(false);
+    expect(isProgrammeAvailableToStation({ categoryId: null, classifications: [religion('Muslim')] }, station)).toBe(false);
+  });
+});
+
+describe('hashFeedToken', () => {
+  it('matches the hex SHA-256 the migration gave existing tokens', () => {
+    expect(hashFeedToken('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateGroupReadiness } from '../story-groups';
+import type { GroupStory } from '../story-groups';
+
+function story(overrides: Partial<GroupStory>): GroupStory {
+  return {
+    id: 'story-1',
+    title: 'Budget speech',
+    language: 'ENGLISH',
+    stage: 'TRANSLATED',
+    isTranslation: false,
+    originalStoryId: null,
+    sourceChangedAt: null,
+    ...overrides,
+  };
+}
+
+describe('evaluateGroupReadiness', () => {
+  it('is ready when every story and translation is approved or translated', () => {
+    const readiness = evaluateGroupReadiness([
+      story({ id: 'a' }),
+      story({ id: 'b', stage: 'APPROVED' }),
+      story({ id: 'a-af', language: 'AFRIKAANS', stage: 'APPROVED', isTranslation: true, originalStoryId: 'a' }),
+    ]);
+
+    expect(readiness.ready).toBe(true);
+    expect(readiness.blocking).toHaveLength(0);
+  });
+
+  it('is blocked by a translation still in progress', () => {
+    const readiness = evaluateGroupReadiness([
+      story({ id: 'a' }),
+      story({ id: 'a-xh', language: 'XHOSA', stage: 'DRAFT', isTranslation: true, originalStoryId: 'a' }),
+    ]);
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.blocking.map(s => s.id)).toEqual(['a-xh']);
+  });
+
+  it('is blocked by an approved translation whose original changed since', () => {
+    const readiness = evaluateGroupReadiness([
+      story({ id: 'a' }),
+      story({
+        id: 'a-af',
+        language: 'AFRIKAANS',
+        stage: 'APPROVED',
+        isTranslation: true,
+        originalStoryId: 'a',
+        sourceChangedAt: new Date('2026-10-19T08:00:00Z'),
+      }),
+    ]);
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.blocking.map(s => s.id)).toEqual(['a-af']);
+    expect(readiness.byLanguage.find(l => l.language === 'AFRIKAANS')?.blocking).toBe(1);
+  });
+
+  it('treats a missing stage as blocking', () => {
+    const readiness = evaluateGroupReadiness([story({ stage: null })]);
+
+    expect(readiness.ready).toBe(false);
+    expect(readiness.blocking).toHaveLength(1);
+  });
+
+  it('does not block on already-published stories', () => {
+    const readiness = evaluateGroupReadiness([
+      story({ id: 'a', stage: 'PUBLISHED' }),
+      story({ id: 'b', stage: 'APPROVED' }),
+    ]);
+
+    expect(readiness.ready).toBe(true);
+  });
+
+  it('is not ready when the group is empty or fully published', () => {
+    expect(evaluateGroupReadiness([]).ready).toBe(false);
+    expect(evaluateGroupReadiness([story({ stage: 'PUBLISHED' })]).ready).toBe(false);
+  });
+
+  it('summarises readiness per language, sorted by language', () => {
+    const readiness = evaluateGroupReadiness([
+      story({ id: 'a' }),
+      story({ id: 'b', stage: 'PUBLISHED' }),
+      story({ id: 'a-xh', language: 'XHOSA', stage: 'NEEDS_JOURNALIST_REVIEW', isTranslation: true, originalStoryId: 'a' }),
+      story({ id: 'a-af', language: 'AFRIKAANS', stage: 'APPROVED', isTranslation: true, originalStoryId: 'a' }),
+    ]);
+
+    expect(readiness.byLanguage).toEqual([
+      { language: 'AFRIKAANS', total: 1, ready: 1, published: 0, blocking: 0 },
+      { language: 'ENGLISH', total: 2, ready: 1, published: 1, blocking: 0 },
+      { language: 'XHOSA', total: 1, ready: 0, published: 0, blocking: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { StoryStage } from '@prisma/client';
+import {
+  legacyStatusForStage,
+  legacyStatusWhere,
+  resolveLegacyStage,
+  stageForLegacyStatus,
+} from '../story-stage';
+
+describe('legacy status mapping', () => {
+  it('round-trips every stage through its legacy status', () => {
+    for (const stage of Object.values(StoryStage)) {
+      expect(stageForLegacyStatus(legacyStatusForStage(stage))).toBe(stage);
+    }
+  });
+
+  it('folds revision and translation statuses into the surrounding stages', () => {
+    expect(stageForLegacyStatus('NEEDS_REVISION')).toBe('DRAFT');
+    expect(stageForLegacyStatus('PENDING_TRANSLATION')).toBe('APPROVED');
+  });
+
+  it('filters legacy statuses by stage, except ARCHIVED', () => {
+    expect(legacyStatusWhere('PENDING_APPROVAL')).toEqual({ stage: 'NEEDS_SUB_EDITOR_APPROVAL' });
+    expect(legacyStatusWhere('ARCHIVED')).toEqual({ status: 'ARCHIVED' });
+  });
+});
+
+describe('resolveLegacyStage', () => {
+  it('fills in a missing stage from the status', () => {
+    expect(resolveLegacyStage({ status: 'READY_TO_PUBLISH', stage: null, hasRevisionRequests: false })).toBe('TRANSLATED');
+    expect(resolveLegacyStage({ status: 'ARCHIVED', stage: null, hasRevisionRequests: false })).toBe('DRAFT');
+  });
+
+  it('moves stories left at the default DRAFT stage to their legacy status', () => {
+    expect(resolveLegacyStage({ status: 'PUBLISHED', stage: 'DRAFT', hasRevisionRequests: false })).toBe('PUBLISHED');
+  });
+
+  it('keeps DRAFT for stories sent back through a revision request', () => {
+    expect(resolveLegacyStage({ status: 'PUBLISHED', stage: 'DRAFT', hasRevisionRequests: true })).toBe('DRAFT');
+  });
+
+  it('trusts a stage that has already moved on', () => {
+    expect(resolveLegacyStage({ status: 'DRAFT', stage: 'APPROVED', hasRevisionRequests: false })).toBe('APPROVED');
+    expect(resolveLegacyStage({ status: 'ARCHIVED', stage: 'PUBLISHED', hasRevisionRequests: false })).toBe('PUBLISHED');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { checkStoryStyle, resolveWordTarget, type WordTargetCategory } from '../style-check';
+
+const english = { language: 'ENGLISH' as const };
+
+describe('checkStoryStyle', () => {
+  it('counts words and estimates reading time at the language speed', () => {
+    const result = checkStoryStyle('<p>' + 'word '.repeat(160) + '</p>', { ...english, wordsPerMinute: 160 });
+    expect(result.wordCount).toBe(160);
+    expect(result.readingSeconds).toBe(60);
+    expect(result.issues).toEqual([]);
+    expect(result.passes).toBe(true);
+  });
+
+  it('warns when the story misses its word target', () => {
+    const wordTarget = { minWords: 100, maxWords: 200, categoryName: 'Sport' };
+    const short = checkStoryStyle('<p>Too short.</p>', { ...english, wordTarget });
+    expect(short.issues).toEqual([expect.objectContaining({ kind: 'length', severity: 'warning' })]);
+    expect(short.passes).toBe(true);
+
+    const long = checkStoryStyle(`<p>${'word '.repeat(201)}</p>`, { ...english, wordTarget });
+    expect(long.issues[0].message).toContain('at most 200');
+  });
+
+  it('flags banned phrases once each as errors, with a replacement', () => {
+    const result = checkStoryStyle('<p>In order to help, In Order To win.</p>', english);
+    expect(result.issues).toEqual([
+      { kind: 'banned', severity: 'error', message: 'Avoid "in order to"', match: 'In order to', suggestion: 'to' },
+    ]);
+    expect(result.passes).toBe(false);
+  });
+
+  it('flags old and misspelt place names', () => {
+    const result = checkStoryStyle('<p>From port elizabeth to Kwa-Zulu Natal.</p>', english);
+    expect(result.issues.map(issue => [issue.match, issue.suggestion])).toEqual([
+      ['port elizabeth', 'Gqeberha'],
+      ['Kwa-Zulu Natal', 'KwaZulu-Natal'],
+    ]);
+    expect(result.issues[0].message).toBe('Use Gqeberha (renamed in 2021)');
+    expect(result.issues[1].message).toBe('Spell it KwaZulu-Natal');
+    expect(checkStoryStyle('<p>Rain in KwaZulu-Natal.</p>', english).issues).toEqual([]);
+  });
+
+  it('accepts a place name in any case', () => {
+    const result = checkStoryStyle('<p>Wind from the north west reached Kwazulu-Natal and CAPE TOWN.</p>', english);
+    expect(result.issues).toEqual([]);
+  });
+
+  it('checks English number and date formatting', () => {
+    const result = checkStoryStyle(
+      '<p>About 12,500 people, or 40%, came on 19/10/2026. 3 were hurt.</p><p>It ends on October 21st and the 30th November.</p>',
+      english
+    );
+    expect(result.issues.map(issue => [issue.kind, issue.match, issue.suggestion])).toEqual([
+      ['number', '12,500', '12 500'],
+      ['number', '40%', '40 percent'],
+      ['number', '3', undefined],
+      ['date', '19/10/2026', undefined],
+      ['date', '30th November', '30 November'],
+      ['date', 'October 21st', '21 October'],
+    ]);
+    expect(result.passes).toBe(true);
+  });
+
+  it('uses the rule set for the story language', () => {
+    const result = checkStoryStyle('<p>Ten einde 1.500 mense te help, op die 19de Oktober in Port Elizabeth.</p>', {
+      language: 'AFRIKAANS',
+    });
+    expect(result.issues.map(issue => [issue.kind, issue.suggestion])).toEqual([
+      ['banned', 'om'],
+      ['place', 'Gqeberha'],
+      ['number', '1 500'],
+      ['date', '19 Oktober'],
+    ]);
+    expect(checkStoryStyle('<p>In order to</p>', { language: 'ZULU' }).issues).toEqual([]);
+  });
+});
+
+describe('resolveWordTarget', () => {
+  const categories: WordTargetCategory[] = [
+    { id: 'news', name: 'News', parentId: null, minWords: 80, maxWords: 250 },
+    { id: 'local', name: 'Local', parentId: 'news', minWords: null, maxWords: null },
+    { id: 'sport', name: 'Sport', parentId: null, minWords: null, maxWords: null },
+    { id: 'rugby', name: 'Rugby', parentId: 'sport', minWords: null, maxWords: 150 },
+  ];
+
+  it('uses the category target, else the nearest parent with one', () => {
+    expect(resolveWordTarget('rugby', categories)).toEqual({ minWords: null, maxWords: 150, categoryName: 'Rugby' });
+    expect(resolveWordTarget('local', categories)).toEqual({ minWords: 80, maxWords: 250, categoryName: 'News' });
+  });
+
+  it('has no target without a category or a configured one', () => {
+    expect(resolveWordTarget(null, categories)).toBeNull();
+    expect(resolveWordTarget('sport', categories)).toBeNull();
+  });
+});
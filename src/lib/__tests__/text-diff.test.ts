@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { diffParagraphs, diffWords, htmlToParagraphs, htmlToPlainText } from '../text-diff';
+
+describe('htmlToPlainText', () => {
+  it('turns block tags into line breaks and strips inline tags', () => {
+    expect(htmlToPlainText('<p>First <strong>para</strong></p><p>Second</p>')).toBe('First para\nSecond');
+  });
+
+  it('decodes common entities', () => {
+    expect(htmlToPlainText('<p>Fish &amp; chips&nbsp;&lt;3</p>')).toBe('Fish & chips <3');
+  });
+});
+
+describe('diffWords', () => {
+  it('returns a single equal segment for identical text', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', value: 'same text' }]);
+  });
+
+  it('marks a replaced word as delete then insert', () => {
+    expect(diffWords('The minister said', 'The premier said')).toEqual([
+      { type: 'equal', value: 'The ' },
+      { type: 'delete', value: 'minister' },
+      { type: 'insert', value: 'premier' },
+      { type: 'equal', value: ' said' },
+    ]);
+  });
+
+  it('handles pure insertions and deletions', () => {
+    expect(diffWords('', 'new')).toEqual([{ type: 'insert', value: 'new' }]);
+    expect(diffWords('old', '')).toEqual([{ type: 'delete', value: 'old' }]);
+  });
+
+  it('reconstructs both inputs from the segments', () => {
+    const before = 'Load shedding moves to stage 2 tonight in Cape Town';
+    const after = 'Load shedding moves to stage 4 from tonight across Cape Town';
+    const segments = diffWords(before, after);
+
+    const rebuiltBefore = segments.filter(s => s.type !== 'insert').map(s => s.value).join('');
+    const rebuiltAfter = segments.filter(s => s.type !== 'delete').map(s => s.value).join('');
+
+    expect(rebuiltBefore).toBe(before);
+    expect(rebuiltAfter).toBe(after);
+  });
+});
+
+describe('htmlToParagraphs', () => {
+  it('splits block tags into trimmed paragraphs and drops empty ones', () => {
+    expect(htmlToParagraphs('<p> First </p><p></p><p>Second<br>line</p>')).toEqual(['First', 'Second', 'line']);
+  });
+
+  it('treats headings and list items as paragraphs', () => {
+    const html = '<p>The <strong>Premier</strong> visited Durban.</p><h2>Reaction</h2><ul><li>Residents welcomed it.</li></ul>';
+    expect(htmlToParagraphs(html)).toEqual(['The Premier visited Durban.', 'Reaction', 'Residents welcomed it.']);
+  });
+});
+
+describe('diffParagraphs', () => {
+  it('returns no changes for identical paragraphs', () => {
+    expect(diffParagraphs(['One', 'Two'], ['One', 'Two'])).toEqual([]);
+  });
+
+  it('pairs a reworded paragraph into a single change with a word diff', () => {
+    const changes = diffParagraphs(
+      ['Intro', 'The minister said', 'Outro'],
+      ['Intro', 'The premier said', 'Outro']
+    );
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0]).toMatchObject({
+      type: 'changed',
+      position: 1,
+      before: 'The minister said',
+      after: 'The premier said',
+    });
+    expect(changes[0].segments).toContainEqual({ type: 'insert', value: 'premier' });
+  });
+
+  it('reports added and removed paragraphs with their position in the newer text', () => {
+    expect(diffParagraphs(['One', 'Two', 'Three'], ['One', 'Three', 'Four'])).toEqual([
+      { type: 'removed', position: 1, before: 'Two', after: null, segments: [{ type: 'delete', value: 'Two' }] },
+      { type: 'added', position: 2, before: null, after: 'Four', segments: [{ type: 'insert', value: 'Four' }] },
+    ]);
+  });
+});
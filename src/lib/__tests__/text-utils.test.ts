@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { escapeRegExp, escapeXml, wholeWordPattern } from '../text-utils';
+
+describe('escapeRegExp', () => {
+  it('matches special characters literally', () => {
+    expect(new RegExp(escapeRegExp('R2.5 (approx)')).test('costs R2.5 (approx) each')).toBe(true);
+    expect(new RegExp(escapeRegExp('R2.5')).test('R205')).toBe(false);
+  });
+});
+
+describe('wholeWordPattern', () => {
+  it('matches whole words in any case, longest term first', () => {
+    const pattern = wholeWordPattern(['Premier', 'Premier League'])!;
+    expect([...'The premier league and the Premier'.matchAll(pattern)].map(match => match[0])).toEqual([
+      'premier league',
+      'Premier',
+    ]);
+  });
+
+  it('does not match inside longer words, including accented ones', () => {
+    const pattern = wholeWordPattern(['bal'])!;
+    expect('balance ballé'.match(pattern)).toBeNull();
+  });
+
+  it('returns null when there are no terms', () => {
+    expect(wholeWordPattern([])).toBeNull();
+    expect(wholeWordPattern(['  '])).toBeNull();
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeXml(`<Tom & "Jerry's">`)).toBe('&lt;Tom &amp; &quot;Jerry&apos;s&quot;&gt;');
+  });
+});
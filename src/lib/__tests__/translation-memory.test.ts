@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignSegments,
+  hashSegment,
+  segmentSimilarity,
+} from '../translation-memory';
+
+describe('alignSegments', () => {
+  it('pairs paragraphs by position', () => {
+    const pairs = alignSegments(
+      '<p>Good morning.</p><p>Here is the news.</p>',
+      '<p>Sawubona.</p><p>Nazi izindaba.</p>'
+    );
+    expect(pairs).toEqual([
+      { position: 0, sourceText: 'Good morning.', targetText: 'Sawubona.' },
+      { position: 1, sourceText: 'Here is the news.', targetText: 'Nazi izindaba.' },
+    ]);
+  });
+
+  it('skips translations that merged or split paragraphs', () => {
+    expect(alignSegments('<p>One.</p><p>Two.</p>', '<p>Kunye. Kubili.</p>')).toEqual([]);
+  });
+});
+
+describe('segment matching', () => {
+  it('hashes paragraphs regardless of case and spacing', () => {
+    expect(hashSegment('Here is  the News.')).toBe(hashSegment('here is the news.'));
+    expect(hashSegment('Here is the news.')).not.toBe(hashSegment('Here is the weather.'));
+  });
+
+  it('scores word overlap between paragraphs', () => {
+    expect(segmentSimilarity('The Premier visited Durban', 'the premier visited Durban')).toBe(1);
+    expect(segmentSimilarity('The Premier visited Durban today', 'The Premier visited Pietermaritzburg today')).toBe(0.8);
+    expect(segmentSimilarity('Rain expected', 'Load shedding tonight')).toBe(0);
+  });
+});
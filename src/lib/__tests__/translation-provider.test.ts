@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createDictionaryProvider,
+  draftTranslation,
+  getTranslationProvider,
+  noopTranslationProvider,
+  postEditRatio,
+} from '../translation-provider';
+import type { TranslationProvider } from '../translation-provider';
+
+const dictionary = createDictionaryProvider(async () => [
+  { term: 'Premier', translation: 'Premier' },
+  { term: 'Good morning', translation: 'Goeiemôre' },
+  { term: 'Premier League', translation: 'Premierliga' },
+  { term: 'news', translation: 'nuus' },
+]);
+
+describe('createDictionaryProvider', () => {
+  it('substitutes known terms in the title and in text between tags', async () => {
+    const draft = await dictionary.translate({
+      title: 'Good morning from the news desk',
+      content: '<p class="news">Good morning. Here is the <strong>news</strong>.</p>',
+      targetLanguage: 'AFRIKAANS',
+    });
+
+    expect(draft).toEqual({
+      title: 'Goeiemôre from the nuus desk',
+      content: '<p class="news">Goeiemôre. Here is the <strong>nuus</strong>.</p>',
+    });
+  });
+
+  it('prefers the longest term and only matches whole words', async () => {
+    const draft = await dictionary.translate({
+      title: 'Premier League newsletter',
+      content: '<p>The Premier League resumes.</p>',
+      targetLanguage: 'AFRIKAANS',
+    });
+
+    expect(draft?.title).toBe('Premierliga newsletter');
+    expect(draft?.content).toBe('<p>The Premierliga resumes.</p>');
+  });
+
+  it('returns no draft when no term matches', async () => {
+    const draft = await dictionary.translate({
+      title: 'Weather',
+      content: '<p>Sunny skies.</p>',
+      targetLanguage: 'AFRIKAANS',
+    });
+
+    expect(draft).toBeNull();
+  });
+});
+
+describe('getTranslationProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to the no-op provider when unset or unknown', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getTranslationProvider(undefined)).toBe(noopTranslationProvider);
+    expect(getTranslationProvider('does-not-exist')).toBe(noopTranslationProvider);
+  });
+
+  it('selects a provider by name', () => {
+    expect(getTranslationProvider('dictionary').name).toBe('dictionary');
+  });
+});
+
+describe('draftTranslation', () => {
+  it('treats a failing provider as no draft', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing: TranslationProvider = {
+      name: 'failing',
+      translate: async () => {
+        throw new Error('quota exceeded');
+      },
+    };
+
+    await expect(
+      draftTranslation(failing, { title: 'T', content: '<p>C</p>', targetLanguage: 'ZULU' })
+    ).resolves.toBeNull();
+  });
+});
+
+describe('postEditRatio', () => {
+  it('is 0 when the draft was kept as-is', () => {
+    expect(postEditRatio('<p>Goeiemôre almal</p>', '<p>Goeiemôre almal</p>')).toBe(0);
+  });
+
+  it('is 1 when the draft was rewritten', () => {
+    expect(postEditRatio('<p>one two</p>', '<p>three four</p>')).toBe(1);
+  });
+
+  it('reflects the share of words changed', () => {
+    expect(postEditRatio('<p>a b c d</p>', '<p>a b c e</p>')).toBeCloseTo(0.25);
+  });
+});
@@ -141,6 +141,18 @@ describe('Story Content Validation', () => {
       };
       expect(storyUpdateSchema.safeParse(update).success).toBe(true);
     });
+
+    it('Update with the updatedAt the editor loaded', () => {
+      const update = {
+        content: '<p>Updated</p>',
+        expectedUpdatedAt: '2026-10-19T08:30:00.000Z',
+      };
+      expect(storyUpdateSchema.safeParse(update).success).toBe(true);
+    });
+
+    it('Rejects a malformed expectedUpdatedAt', () => {
+      expect(storyUpdateSchema.safeParse({ title: 'T', expectedUpdatedAt: 'yesterday' }).success).toBe(false);
+    });
   });
 });
 
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WORKFLOW,
+  canMoveStory,
+  canPerformTransition,
+  findTransition,
+  getAvailableTransitions,
+  getMissingChecklistItems,
+  getWorkflowSteps,
+  validateWorkflowDefinition,
+  type WorkflowDefinition,
+} from '../workflow';
+
+// A desk where journalists send straight to an editor and translation is mandatory
+const sportWorkflow: WorkflowDefinition = {
+  id: 'sport',
+  name: 'Sport',
+  stages: ['DRAFT', 'NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED', 'TRANSLATED', 'PUBLISHED'],
+  requiresTranslation: true,
+  overrideRoles: [],
+  unpublishRoles: [],
+  transitions: [
+    {
+      action: 'send_for_approval',
+      label: 'Send to Sport Editor',
+      from: 'DRAFT',
+      to: 'NEEDS_SUB_EDITOR_APPROVAL',
+      allowedRoles: ['INTERN', 'JOURNALIST'],
+      authorRoles: [],
+      assignmentRoles: ['EDITOR'],
+      checklist: [{ id: 'scores', label: 'Scores and fixtures checked' }],
+    },
+    {
+      action: 'approve_story',
+      label: 'Approve',
+      from: 'NEEDS_SUB_EDITOR_APPROVAL',
+      to: 'APPROVED',
+      allowedRoles: ['EDITOR'],
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: [],
+    },
+    {
+      action: 'publish_story',
+      label: 'Publish',
+      from: 'TRANSLATED',
+      to: 'PUBLISHED',
+      allowedRoles: ['EDITOR'],
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: [],
+    },
+  ],
+};
+
+describe('default workflow', () => {
+  it('routes intern stories through journalist review', () => {
+    const [next] = getAvailableTransitions(DEFAULT_WORKFLOW, 'DRAFT', 'INTERN', 'INTERN');
+    expect(next.action).toBe('submit_for_review');
+    expect(next.to).toBe('NEEDS_JOURNALIST_REVIEW');
+    expect(next.assignmentRoles).toEqual(['JOURNALIST']);
+  });
+
+  it('lets any staff member submit an intern draft for review', () => {
+    const transition = findTransition(DEFAULT_WORKFLOW, 'submit_for_review', 'DRAFT', 'INTERN')!;
+    for (const role of ['INTERN', 'JOURNALIST', 'SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'] as const) {
+      expect(canPerformTransition(DEFAULT_WORKFLOW, transition, role)).toBe(true);
+    }
+  });
+
+  it('sends journalist stories straight to approval', () => {
+    const transition = findTransition(DEFAULT_WORKFLOW, 'send_for_approval', 'DRAFT', 'JOURNALIST');
+    expect(transition?.to).toBe('NEEDS_SUB_EDITOR_APPROVAL');
+    expect(findTransition(DEFAULT_WORKFLOW, 'submit_for_review', 'DRAFT', 'JOURNALIST')).toBeNull();
+  });
+
+  it('lets sub-editors approve their own drafts', () => {
+    const [next] = getAvailableTransitions(DEFAULT_WORKFLOW, 'DRAFT', 'SUB_EDITOR', 'SUB_EDITOR');
+    expect(next.action).toBe('approve_story');
+  });
+
+  it('only shows the review step for intern stories', () => {
+    expect(getWorkflowSteps(DEFAULT_WORKFLOW, 'INTERN')).toContain('NEEDS_JOURNALIST_REVIEW');
+    expect(getWorkflowSteps(DEFAULT_WORKFLOW, 'JOURNALIST')).not.toContain('NEEDS_JOURNALIST_REVIEW');
+  });
+});
+
+describe('desk workflows', () => {
+  it('applies a different approval chain', () => {
+    expect(getAvailableTransitions(sportWorkflow, 'NEEDS_SUB_EDITOR_APPROVAL', 'JOURNALIST', 'SUB_EDITOR')).toEqual([]);
+    expect(getAvailableTransitions(sportWorkflow, 'NEEDS_SUB_EDITOR_APPROVAL', 'JOURNALIST', 'EDITOR')).toHaveLength(1);
+  });
+
+  it('reports checklist items that were not ticked', () => {
+    const transition = findTransition(sportWorkflow, 'send_for_approval', 'DRAFT', 'JOURNALIST')!;
+    expect(getMissingChecklistItems(transition, undefined).map(item => item.id)).toEqual(['scores']);
+    expect(getMissingChecklistItems(transition, { scores: true })).toEqual([]);
+  });
+
+  it('only allows skipping translation when it is optional', () => {
+    expect(canMoveStory(sportWorkflow, 'EDITOR', 'APPROVED', 'PUBLISHED')).toBe(false);
+    expect(canMoveStory(DEFAULT_WORKFLOW, 'SUB_EDITOR', 'APPROVED', 'PUBLISHED')).toBe(true);
+  });
+
+  it('lets whoever moves a story on also send it back', () => {
+    expect(canMoveStory(sportWorkflow, 'EDITOR', 'NEEDS_SUB_EDITOR_APPROVAL', 'DRAFT')).toBe(true);
+    expect(canMoveStory(sportWorkflow, 'JOURNALIST', 'NEEDS_SUB_EDITOR_APPROVAL', 'DRAFT')).toBe(false);
+  });
+
+  it('only lets the unpublish roles take a published story back to draft', () => {
+    expect(canMoveStory(sportWorkflow, 'EDITOR', 'PUBLISHED', 'DRAFT')).toBe(false);
+    expect(canMoveStory({ ...sportWorkflow, unpublishRoles: ['EDITOR'] }, 'EDITOR', 'PUBLISHED', 'DRAFT')).toBe(true);
+    expect(canMoveStory({ ...sportWorkflow, unpublishRoles: ['EDITOR'] }, 'EDITOR', 'PUBLISHED', 'APPROVED')).toBe(false);
+  });
+});
+
+describe('validateWorkflowDefinition', () => {
+  it('accepts the built-in and desk workflows', () => {
+    expect(validateWorkflowDefinition(DEFAULT_WORKFLOW)).toBeNull();
+    expect(validateWorkflowDefinition(sportWorkflow)).toBeNull();
+  });
+
+  it('rejects transitions into stages the workflow does not use', () => {
+    const broken = {
+      ...sportWorkflow,
+      stages: sportWorkflow.stages.filter(stage => stage !== 'APPROVED'),
+    };
+    expect(validateWorkflowDefinition(broken)).toMatch(/not part of this workflow/);
+  });
+
+  it('requires the workflow to end at Published', () => {
+    expect(validateWorkflowDefinition({ ...sportWorkflow, stages: ['DRAFT', 'APPROVED'] })).toMatch(/Published/);
+  });
+});
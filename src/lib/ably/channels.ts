@@ -9,3 +9,7 @@ export const CHANNELS = {
 } as const;
 
 export type ChannelName = (typeof CHANNELS)[keyof typeof CHANNELS];
+
+// Per-station channel for alerts pushed to the radio interface. Radio users
+// may only subscribe to their own station's channel (see /api/ably/token).
+export const stationChannel = (stationId: string) => `station:${stationId}`;
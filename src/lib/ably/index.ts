@@ -1,5 +1,5 @@
 // Main exports for Ably real-time integration
-export { CHANNELS, type ChannelName } from './channels';
+export { CHANNELS, stationChannel, type ChannelName } from './channels';
 export { isRealtimeEnabled, isRealtimeAvailable } from './feature-flag';
 export {
   publishEvent,
@@ -10,6 +10,7 @@ export {
   publishPodcastEvent,
   publishPodcastEpisodeEvent,
   publishDashboardEvent,
+  publishStationEvent,
   createEvent,
 } from './publisher';
 export type {
@@ -18,6 +19,7 @@ export type {
   StoryStageChangedEvent,
   StoryAssignedEvent,
   BulletinEvent,
+  BreakingNewsAlertEvent,
   ShowEvent,
   EpisodeEvent,
   PodcastEvent,
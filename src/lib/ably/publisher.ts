@@ -1,5 +1,5 @@
 import Ably from 'ably';
-import { CHANNELS } from './channels';
+import { CHANNELS, stationChannel } from './channels';
 import type { RealtimeEvent } from './types';
 import { isRealtimeEnabled, isRealtimeAvailable } from './feature-flag';
 
@@ -51,6 +51,9 @@ export const publishPodcastEpisodeEvent = (event: RealtimeEvent) =>
 export const publishDashboardEvent = (event: RealtimeEvent) =>
   publishEvent(CHANNELS.DASHBOARD, event);
 
+export const publishStationEvent = (stationId: string, event: RealtimeEvent) =>
+  publishEvent(stationChannel(stationId), event);
+
 // Helper to create events
 export function createEvent<T>(
   type: string,
@@ -49,6 +49,18 @@ export type BulletinEvent =
   | ({ type: 'bulletin:status_changed'; metadata: { previousStatus: string; newStatus: string } } & RealtimeEvent)
   | ({ type: 'bulletin:stories_reordered' } & RealtimeEvent);
 
+// Breaking news pushed to a station channel
+export interface BreakingNewsAlertEvent extends RealtimeEvent {
+  type: 'breaking_news:alert';
+  entityType: 'story' | 'bulletin';
+  data: {
+    alertId: string;
+    headline: string;
+    message: string | null;
+    url: string;
+  };
+}
+
 // Show/Episode events
 export type ShowEvent =
   | ({ type: 'show:created' } & RealtimeEvent)
@@ -0,0 +1,432 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { parseBuffer } from 'music-metadata';
+import ffmpegStatic from 'ffmpeg-static';
+import { prisma } from './prisma';
+import { downloadAudioFile, findAudioFile, putAudioFile } from './r2-storage';
+import { trimmedDuration, type AudioTrim } from './audio-trim';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * EBU R128 broadcast loudness. The range is as wide as loudnorm allows so
+ * speech keeps its dynamics and the gain is applied linearly where possible.
+ */
+export const LOUDNESS_TARGET = {
+  integrated: -23,
+  truePeak: -1,
+  range: 20,
+};
+
+// Standard rendition stations receive, whatever format was uploaded
+export const RENDITION_FORMAT = {
+  mimeType: 'audio/mpeg',
+  extension: 'mp3',
+  bitrate: '192k',
+  sampleRate: 44100,
+};
+
+// Bars in a clip's waveform, and the rate audio is decoded at to find them
+export const WAVEFORM_POINTS = 200;
+const WAVEFORM_SAMPLE_RATE = 2000;
+
+// A clip is marked FAILED after this many attempts
+export const MAX_PROCESSING_ATTEMPTS = 3;
+
+// A clip left PROCESSING this long was abandoned by a run that died
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+// The binary ffmpeg-static installs, unless FFMPEG_PATH points elsewhere
+const FFMPEG = process.env.FFMPEG_PATH || ffmpegStatic || 'ffmpeg';
+
+export interface LoudnormStats {
+  inputI: number;
+  inputTp: number;
+  inputLra: number;
+  inputThresh: number;
+  outputI: number;
+  outputTp: number;
+  targetOffset: number;
+}
+
+/**
+ * Read the JSON block loudnorm prints at the end of ffmpeg's stderr.
+ */
+export function parseLoudnormStats(stderr: string): LoudnormStats {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('No loudness measurement in ffmpeg output');
+  }
+
+  const raw = JSON.parse(stderr.slice(start, end + 1)) as Record<string, string>;
+  // Silence measures as "-inf"
+  const value = (key: string) => {
+    const text = raw[key];
+    if (text === undefined) throw new Error(`Loudness measurement is missing ${key}`);
+    return text === '-inf' ? -Infinity : text === 'inf' ? Infinity : Number(text);
+  };
+
+  return {
+    inputI: value('input_i'),
+    inputTp: value('input_tp'),
+    inputLra: value('input_lra'),
+    inputThresh: value('input_thresh'),
+    outputI: value('output_i'),
+    outputTp: value('output_tp'),
+    targetOffset: value('target_offset'),
+  };
+}
+
+function loudnormFilter(measured?: LoudnormStats): string {
+  const target = `I=${LOUDNESS_TARGET.integrated}:TP=${LOUDNESS_TARGET.truePeak}:LRA=${LOUDNESS_TARGET.range}`;
+  if (!measured) return `loudnorm=${target}:print_format=json`;
+
+  return [
+    `loudnorm=${target}`,
+    `measured_I=${measured.inputI}`,
+    `measured_TP=${measured.inputTp}`,
+    `measured_LRA=${measured.inputLra}`,
+    `measured_thresh=${measured.inputThresh}`,
+    `offset=${measured.targetOffset}`,
+    'linear=true',
+    'print_format=json',
+  ].join(':');
+}
+
+/**
+ * ffmpeg arguments for the first loudnorm pass, which only measures.
+ */
+export function measureArgs(input: string): string[] {
+  return ['-hide_banner', '-nostats', '-i', input, '-af', loudnormFilter(), '-f', 'null', '-'];
+}
+
+/**
+ * ffmpeg arguments for the second pass, which applies the gain measured in
+ * the first and encodes the MP3 rendition.
+ */
+export function renderArgs(input: string, output: string, measured: LoudnormStats, channels: number | null): string[] {
+  return [
+    '-hide_banner',
+    '-nostats',
+    '-y',
+    '-i', input,
+    '-af', loudnormFilter(measured),
+    '-vn',
+    '-ar', String(RENDITION_FORMAT.sampleRate),
+    '-ac', String(Math.min(channels ?? 2, 2)),
+    '-codec:a', 'libmp3lame',
+    '-b:a', RENDITION_FORMAT.bitrate,
+    output,
+  ];
+}
+
+/**
+ * ffmpeg arguments that decode audio to mono 16-bit PCM on stdout, for
+ * finding waveform peaks.
+ */
+export function waveformArgs(input: string): string[] {
+  return ['-hide_banner', '-nostats', '-i', input, '-vn', '-ac', '1', '-ar', String(WAVEFORM_SAMPLE_RATE), '-f', 's16le', '-'];
+}
+
+/**
+ * Peak level of each of `points` equal slices of the audio, scaled so the
+ * loudest is 1 and rounded to keep the stored JSON small.
+ */
+export function computeWaveformPeaks(samples: Int16Array, points: number = WAVEFORM_POINTS): number[] {
+  if (samples.length === 0) return [];
+
+  const buckets = Math.min(points, samples.length);
+  const peaks: number[] = [];
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const from = Math.floor((bucket * samples.length) / buckets);
+    const to = Math.floor(((bucket + 1) * samples.length) / buckets);
+    let peak = 0;
+    for (let i = from; i < to; i++) {
+      const level = Math.abs(samples[i]);
+      if (level > peak) peak = level;
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks);
+  if (loudest === 0) return peaks;
+  return peaks.map(peak => Math.round((peak / loudest) * 100) / 100);
+}
+
+/**
+ * ffmpeg arguments that cut a clip to a trim and apply its fades.
+ */
+export function trimArgs(input: string, output: string, trim: AudioTrim, duration: number): string[] {
+  const length = trimmedDuration(duration, trim);
+  const fades = [
+    trim.fadeIn > 0 ? `afade=t=in:st=0:d=${trim.fadeIn}` : null,
+    trim.fadeOut > 0 ? `afade=t=out:st=${Math.max(0, length - trim.fadeOut)}:d=${trim.fadeOut}` : null,
+  ].filter((filter): filter is string => filter !== null);
+
+  return [
+    '-hide_banner',
+    '-nostats',
+    '-y',
+    '-ss', String(trim.trimStart),
+    '-i', input,
+    '-t', String(length),
+    ...(fades.length > 0 ? ['-af', fades.join(',')] : []),
+    '-vn',
+    '-codec:a', 'libmp3lame',
+    '-b:a', RENDITION_FORMAT.bitrate,
+    output,
+  ];
+}
+
+// The clip fields needed to cut a trim from it
+export interface TrimSource {
+  url: string;
+  filename: string;
+  mimeType: string;
+  duration: number | null;
+  processedAt: Date | null;
+}
+
+/**
+ * Storage key for a trimmed render. The trim and the time the clip was last
+ * processed are part of the key, so a changed trim or a reprocessed clip
+ * renders afresh and an unchanged one is served from storage.
+ */
+export function trimmedKey(clip: Pick<TrimSource, 'filename' | 'processedAt'>, trim: AudioTrim): string {
+  const extension = path.extname(clip.filename);
+  const base = extension ? clip.filename.slice(0, -extension.length) : clip.filename;
+  const version = clip.processedAt ? clip.processedAt.getTime().toString(36) : 'upload';
+  const ms = (seconds: number | null) => (seconds === null ? 'end' : String(Math.round(seconds * 1000)));
+  return `${base}.trim-${version}-${ms(trim.trimStart)}-${ms(trim.trimEnd)}-${ms(trim.fadeIn)}-${ms(trim.fadeOut)}.${RENDITION_FORMAT.extension}`;
+}
+
+/**
+ * Storage key for a clip's rendition, next to the upload so the two are
+ * easy to find together.
+ */
+export function renditionKey(filename: string): string {
+  const extension = path.extname(filename);
+  const base = extension ? filename.slice(0, -extension.length) : filename;
+  return `${base}.r128.${RENDITION_FORMAT.extension}`;
+}
+
+let ffmpegCheck: Promise<boolean> | null = null;
+
+/**
+ * Whether ffmpeg can be run here, e.g. not when ffmpeg-static's download
+ * failed at install. Checked once per process.
+ */
+export function isFfmpegAvailable(): Promise<boolean> {
+  ffmpegCheck ??= execFileAsync(FFMPEG, ['-version']).then(
+    () => true,
+    () => false
+  );
+  return ffmpegCheck;
+}
+
+function ffmpegError(error: unknown): Error {
+  // ffmpeg puts the reason on the last line of stderr
+  const stderr = (error as { stderr?: string | Buffer }).stderr?.toString().trim();
+  const reason = stderr ? stderr.split('\n').pop() : error instanceof Error ? error.message : 'Unknown error';
+  return new Error(`ffmpeg failed: ${reason}`);
+}
+
+async function runFfmpeg(args: string[]): Promise<string> {
+  try {
+    const { stderr } = await execFileAsync(FFMPEG, args, { maxBuffer: 10 * 1024 * 1024 });
+    return stderr;
+  } catch (error) {
+    throw ffmpegError(error);
+  }
+}
+
+async function readWaveform(file: string): Promise<number[]> {
+  try {
+    const { stdout } = await execFileAsync(FFMPEG, waveformArgs(file), {
+      encoding: 'buffer',
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    const samples = new Int16Array(stdout.buffer, stdout.byteOffset, Math.floor(stdout.length / 2));
+    return computeWaveformPeaks(samples);
+  } catch (error) {
+    throw ffmpegError(error);
+  }
+}
+
+/**
+ * Take a clip for processing unless another run already has it.
+ */
+async function claimClip(id: string): Promise<boolean> {
+  const { count } = await prisma.audioClip.updateMany({
+    where: {
+      id,
+      OR: [
+        { processingStatus: 'PENDING' },
+        { processingStatus: 'PROCESSING', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+      ],
+    },
+    data: { processingStatus: 'PROCESSING', processingAttempts: { increment: 1 } },
+  });
+  return count === 1;
+}
+
+/**
+ * Normalise one clip to the broadcast loudness target and store an MP3
+ * rendition alongside the upload. Failures are recorded on the clip and
+ * retried on later runs until MAX_PROCESSING_ATTEMPTS is reached.
+ */
+export async function processAudioClip(id: string): Promise<'ready' | 'failed' | 'skipped'> {
+  if (!(await claimClip(id))) return 'skipped';
+
+  const clip = await prisma.audioClip.findUniqueOrThrow({ where: { id } });
+  // Reprocessing starts again from the upload, not the previous rendition
+  const sourceUrl = clip.originalUrl ?? clip.url;
+  const sourceMimeType = clip.originalMimeType ?? clip.mimeType;
+  // Once processed, filename is already the rendition's key
+  const key = clip.originalUrl ? clip.filename : renditionKey(clip.filename);
+  const workDir = await mkdtemp(path.join(tmpdir(), 'audio-'));
+
+  try {
+    const source = await downloadAudioFile(sourceUrl);
+    const input = path.join(workDir, `input${path.extname(sourceUrl)}`);
+    const output = path.join(workDir, `output.${RENDITION_FORMAT.extension}`);
+    await writeFile(input, source);
+
+    let sampleRate: number | null = null;
+    let channels: number | null = null;
+    try {
+      const metadata = await parseBuffer(new Uint8Array(source), { mimeType: sourceMimeType });
+      sampleRate = metadata.format.sampleRate ?? null;
+      channels = metadata.format.numberOfChannels ?? null;
+    } catch {
+      // Non-fatal: ffmpeg reads formats music-metadata can't
+    }
+
+    const measured = parseLoudnormStats(await runFfmpeg(measureArgs(input)));
+    if (!Number.isFinite(measured.inputI)) {
+      throw new Error('Clip is silent');
+    }
+
+    const rendered = parseLoudnormStats(await runFfmpeg(renderArgs(input, output, measured, channels)));
+    const rendition = await readFile(output);
+    const waveform = await readWaveform(output);
+
+    let duration = clip.duration;
+    try {
+      const metadata = await parseBuffer(new Uint8Array(rendition), { mimeType: RENDITION_FORMAT.mimeType });
+      if (metadata.format.duration) duration = Math.round(metadata.format.duration);
+    } catch {
+      // Keep the duration measured at upload
+    }
+
+    const url = await putAudioFile(key, rendition, RENDITION_FORMAT.mimeType);
+
+    await prisma.audioClip.update({
+      where: { id },
+      data: {
+        processingStatus: 'READY',
+        processingError: null,
+        processedAt: new Date(),
+        originalUrl: clip.originalUrl ?? clip.url,
+        originalMimeType: clip.originalMimeType ?? clip.mimeType,
+        originalFileSize: clip.originalUrl ? clip.originalFileSize : clip.fileSize,
+        url,
+        filename: key,
+        mimeType: RENDITION_FORMAT.mimeType,
+        fileSize: rendition.length,
+        duration,
+        loudness: measured.inputI,
+        truePeak: Number.isFinite(measured.inputTp) ? measured.inputTp : null,
+        sampleRate,
+        channels,
+        normalisedLoudness: Number.isFinite(rendered.outputI) ? rendered.outputI : null,
+        waveform,
+      },
+    });
+
+    return 'ready';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Audio processing failed for clip ${id}:`, error);
+
+    await prisma.audioClip.update({
+      where: { id },
+      data: {
+        processingStatus: clip.processingAttempts >= MAX_PROCESSING_ATTEMPTS ? 'FAILED' : 'PENDING',
+        processingError: message,
+      },
+    });
+
+    return 'failed';
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Process queued clips, oldest first, until the batch is done or the
+ * deadline passes. Clips not reached stay queued for the next run.
+ */
+export async function processPendingAudioClips(options: { limit: number; deadline: number }) {
+  const clips = await prisma.audioClip.findMany({
+    where: {
+      OR: [
+        { processingStatus: 'PENDING' },
+        { processingStatus: 'PROCESSING', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+      ],
+    },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    take: options.limit,
+  });
+
+  const summary = { ready: 0, failed: 0, skipped: 0, remaining: 0 };
+
+  for (const [index, clip] of clips.entries()) {
+    if (Date.now() > options.deadline) {
+      summary.remaining = clips.length - index;
+      break;
+    }
+    summary[await processAudioClip(clip.id)]++;
+  }
+
+  return summary;
+}
+
+/**
+ * URL of a clip cut to a trim with its fades, rendering it on first request
+ * and serving the stored copy after that. Null when the trim hasn't been
+ * rendered yet and ffmpeg isn't available to render it.
+ */
+export async function renderTrimmedAudio(clip: TrimSource, trim: AudioTrim): Promise<string | null> {
+  const key = trimmedKey(clip, trim);
+  const rendered = await findAudioFile(key);
+  if (rendered) return rendered;
+  if (!(await isFfmpegAvailable())) return null;
+
+  const workDir = await mkdtemp(path.join(tmpdir(), 'audio-trim-'));
+  try {
+    const input = path.join(workDir, `input${path.extname(clip.filename)}`);
+    const output = path.join(workDir, `output.${RENDITION_FORMAT.extension}`);
+    const source = await downloadAudioFile(clip.url);
+    await writeFile(input, source);
+
+    let duration = clip.duration;
+    if (duration === null) {
+      const metadata = await parseBuffer(new Uint8Array(source), { mimeType: clip.mimeType });
+      duration = metadata.format.duration ?? null;
+    }
+    if (duration === null) {
+      throw new Error('Clip length is unknown');
+    }
+
+    await runFfmpeg(trimArgs(input, output, trim, duration));
+    return await putAudioFile(key, await readFile(output), RENDITION_FORMAT.mimeType);
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,102 @@
+import type { AudioRightsSource } from '@prisma/client';
+import { formatDateShort } from './format';
+import { bulletinDayOf, formatBulletinDay } from './bulletin-day';
+
+// Rights metadata on library clips, and the warnings shown when picking a
+// clip whose rights have lapsed or which has already gone to air today.
+
+export const AUDIO_RIGHTS_SOURCE_LABELS: Record<AudioRightsSource, string> = {
+  STAFF: 'Staff recording',
+  CONTRIBUTOR: 'Contributor',
+  AGENCY: 'News agency',
+  LICENSED: 'Licensed',
+  PUBLIC_DOMAIN: 'Public domain',
+};
+
+export const AUDIO_RIGHTS_SELECT = {
+  rightsSource: true,
+  copyrightHolder: true,
+  licenceExpiry: true,
+  doNotReuseAfter: true,
+  rightsNotes: true,
+} as const;
+
+/**
+ * A clip's rights days. Stored days come back from the API as UTC-midnight
+ * timestamps.
+ */
+export interface AudioRights {
+  licenceExpiry: Date | string | null;
+  doNotReuseAfter: Date | string | null;
+}
+
+export type AudioClipWarningKind = 'licence-expired' | 'do-not-reuse' | 'on-air-today';
+
+export interface AudioClipWarning {
+  kind: AudioClipWarningKind;
+  message: string;
+  // An expired licence means the clip must not go to air; the rest are for
+  // the producer to weigh up
+  severity: 'error' | 'warning';
+}
+
+/**
+ * A stored rights day as YYYY-MM-DD, for comparing and for date inputs.
+ */
+export function rightsDay(value: Date | string | null): string | null {
+  if (!value) return null;
+  return (typeof value === 'string' ? value : value.toISOString()).slice(0, 10);
+}
+
+// Rights days are South African calendar days, whatever the reader's clock
+function today(now: Date): string {
+  return formatBulletinDay(bulletinDayOf(now));
+}
+
+/**
+ * Whether the clip's licence has run out: it expires at the start of the
+ * expiry day.
+ */
+export function isLicenceExpired(rights: AudioRights, now = new Date()): boolean {
+  const expiry = rightsDay(rights.licenceExpiry);
+  return !!expiry && expiry <= today(now);
+}
+
+/**
+ * Whether the clip is past its "do not reuse after" day, so it must not be
+ * added anywhere new.
+ */
+export function isPastReuseDate(rights: AudioRights, now = new Date()): boolean {
+  const lastDay = rightsDay(rights.doNotReuseAfter);
+  return !!lastDay && lastDay < today(now);
+}
+
+/**
+ * Reasons to think twice before using a clip, most serious first.
+ */
+export function audioClipWarnings(
+  clip: AudioRights & { onAirToday?: boolean },
+  now = new Date()
+): AudioClipWarning[] {
+  const warnings: AudioClipWarning[] = [];
+
+  if (isLicenceExpired(clip, now)) {
+    warnings.push({
+      kind: 'licence-expired',
+      message: `Licence expired ${formatDateShort(`${rightsDay(clip.licenceExpiry)}T00:00:00`)}`,
+      severity: 'error',
+    });
+  } else if (isPastReuseDate(clip, now)) {
+    warnings.push({
+      kind: 'do-not-reuse',
+      message: `Not to be reused after ${formatDateShort(`${rightsDay(clip.doNotReuseAfter)}T00:00:00`)}`,
+      severity: 'warning',
+    });
+  }
+
+  if (clip.onAirToday) {
+    warnings.push({ kind: 'on-air-today', message: 'Already used on air today', severity: 'warning' });
+  }
+
+  return warnings;
+}
@@ -0,0 +1,110 @@
+// Non-destructive trims and fades on a clip's use in a story or episode.
+// The clip itself is never changed; trimmed audio is rendered on demand.
+
+export type AudioUsageKind = 'story' | 'episode';
+
+// Stored on StoryAudioClip / EpisodeAudioClip, in seconds; null when unset
+export interface AudioTrimFields {
+  trimStart: number | null;
+  trimEnd: number | null;
+  fadeIn: number | null;
+  fadeOut: number | null;
+}
+
+export interface AudioTrim {
+  trimStart: number;
+  // null plays to the end of the clip
+  trimEnd: number | null;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export const AUDIO_TRIM_SELECT = {
+  trimStart: true,
+  trimEnd: true,
+  fadeIn: true,
+  fadeOut: true,
+} as const;
+
+export const UNTRIMMED: AudioTrim = { trimStart: 0, trimEnd: null, fadeIn: 0, fadeOut: 0 };
+
+/**
+ * The trim on a usage, or null when it plays the whole clip untouched.
+ */
+export function trimOf(fields: Partial<AudioTrimFields>): AudioTrim | null {
+  const trim: AudioTrim = {
+    trimStart: fields.trimStart ?? 0,
+    trimEnd: fields.trimEnd ?? null,
+    fadeIn: fields.fadeIn ?? 0,
+    fadeOut: fields.fadeOut ?? 0,
+  };
+  const untouched = trim.trimStart === 0 && trim.trimEnd === null && trim.fadeIn === 0 && trim.fadeOut === 0;
+  return untouched ? null : trim;
+}
+
+/**
+ * Length of the trimmed audio in seconds.
+ */
+export function trimmedDuration(duration: number, trim: AudioTrim | null): number {
+  if (!trim) return duration;
+  const end = trim.trimEnd === null ? duration : Math.min(trim.trimEnd, duration);
+  return Math.max(0, end - trim.trimStart);
+}
+
+/**
+ * Problems with a trim for a clip of the given length, or null if it's usable.
+ */
+export function validateTrim(trim: AudioTrim, duration: number | null): string | null {
+  if (trim.trimStart < 0) return 'The start cannot be before the beginning of the clip';
+  if (trim.trimEnd !== null && trim.trimEnd <= trim.trimStart) return 'The end must come after the start';
+  if (duration !== null && trim.trimStart >= duration) return 'The start is past the end of the clip';
+  if (trim.fadeIn < 0 || trim.fadeOut < 0) return 'Fades cannot be negative';
+
+  const length = trimmedDuration(duration ?? trim.trimEnd ?? Infinity, trim);
+  if (trim.fadeIn + trim.fadeOut > length) return 'The fades are longer than the trimmed clip';
+  return null;
+}
+
+/**
+ * The part of a clip's waveform that survives the trim.
+ */
+export function sliceWaveform(peaks: number[], duration: number, trim: AudioTrim | null): number[] {
+  if (!trim || duration <= 0 || peaks.length === 0) return peaks;
+  const from = Math.floor((trim.trimStart / duration) * peaks.length);
+  const to = trim.trimEnd === null ? peaks.length : Math.ceil((Math.min(trim.trimEnd, duration) / duration) * peaks.length);
+  return peaks.slice(from, Math.max(from + 1, to));
+}
+
+/**
+ * Address that serves the trimmed audio for a usage.
+ */
+export function renderPath(kind: AudioUsageKind, usageId: string): string {
+  return `/api/audio/render/${kind}/${usageId}`;
+}
+
+/**
+ * Flatten a story or episode audio usage to its clip. Trimmed usages play
+ * from the render address, and keep the clip's own address as sourceUrl for
+ * editing the trim.
+ */
+export function usageAudioClip<T extends { url: string; duration?: number | null; waveform?: unknown }>(
+  kind: AudioUsageKind,
+  usage: Partial<AudioTrimFields> & { id: string; audioClip: T }
+): T & { usageId: string; sourceUrl: string; trim: AudioTrim | null } {
+  const clip = usage.audioClip;
+  const trim = trimOf(usage);
+  if (!trim) return { ...clip, usageId: usage.id, sourceUrl: clip.url, trim };
+
+  const duration = typeof clip.duration === 'number' ? clip.duration : null;
+  return {
+    ...clip,
+    usageId: usage.id,
+    url: renderPath(kind, usage.id),
+    duration: duration === null ? clip.duration : Math.round(trimmedDuration(duration, trim)),
+    waveform: Array.isArray(clip.waveform) && duration !== null
+      ? sliceWaveform(clip.waveform as number[], duration, trim)
+      : clip.waveform,
+    sourceUrl: clip.url,
+    trim,
+  };
+}
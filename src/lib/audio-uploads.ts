@@ -0,0 +1,205 @@
+import { prisma } from '@/lib/prisma';
+import {
+  audioUploadKey,
+  createMultipartUpload,
+  listUploadedParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  deleteAudioFile,
+  readAudioDuration,
+} from '@/lib/r2-storage';
+import { AUDIO_UPLOAD_PART_SIZE, partCount } from '@/lib/resumable-upload';
+
+// Unfinished uploads are given up on after a day
+export const AUDIO_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// An upload left FINALISING this long was abandoned by a request that died
+const STALE_FINALISING_MS = 5 * 60 * 1000;
+
+export type AudioUploadResult =
+  | { clipIds: string[]; error?: undefined }
+  | { clipIds?: undefined; error: string; status: number };
+
+/**
+ * Start a multipart upload to R2 and record it against the uploader.
+ */
+export async function startAudioUpload(
+  file: { filename: string; mimeType: string; fileSize: number; folder: string },
+  userId: string
+) {
+  const key = audioUploadKey(file.filename, file.folder);
+  const uploadId = await createMultipartUpload(key, file.mimeType);
+
+  return prisma.audioUpload.create({
+    data: {
+      key,
+      uploadId,
+      originalName: file.filename,
+      mimeType: file.mimeType,
+      fileSize: file.fileSize,
+      partSize: AUDIO_UPLOAD_PART_SIZE,
+      uploadedBy: userId,
+    },
+  });
+}
+
+/**
+ * Take an upload for finalising unless another request already has it.
+ */
+async function claimUpload(id: string): Promise<boolean> {
+  const { count } = await prisma.audioUpload.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: { in: ['UPLOADING', 'ASSEMBLED'] } },
+        { status: 'FINALISING', updatedAt: { lt: new Date(Date.now() - STALE_FINALISING_MS) } },
+      ],
+    },
+    data: { status: 'FINALISING' },
+  });
+  return count === 1;
+}
+
+/**
+ * Complete the given uploads and create an AudioClip for each, ready to be
+ * linked to a story or episode. Uploads already finalised return their
+ * existing clip, so a retried request doesn't make duplicates, and each
+ * upload is claimed first so concurrent requests don't either.
+ */
+export async function finaliseAudioUploads(
+  uploadIds: string[],
+  userId: string,
+  clipData: { sourceStoryId?: string } = {}
+): Promise<AudioUploadResult> {
+  const uploads = await prisma.audioUpload.findMany({
+    where: { id: { in: uploadIds }, uploadedBy: userId },
+  });
+
+  if (uploads.length !== new Set(uploadIds).size) {
+    return { error: 'Upload not found', status: 404 };
+  }
+
+  const clipIds: string[] = [];
+
+  for (const id of uploadIds) {
+    const upload = uploads.find(u => u.id === id)!;
+
+    if (upload.status === 'COMPLETED' && upload.audioClipId) {
+      clipIds.push(upload.audioClipId);
+      continue;
+    }
+
+    if (!(await claimUpload(id))) {
+      // Another request finished it since we looked
+      const current = await prisma.audioUpload.findUniqueOrThrow({ where: { id } });
+      if (current.status === 'COMPLETED' && current.audioClipId) {
+        clipIds.push(current.audioClipId);
+        continue;
+      }
+      if (current.status === 'FINALISING') {
+        return { error: `The upload of ${upload.originalName} is already being finalised`, status: 409 };
+      }
+      return { error: `The upload of ${upload.originalName} was cancelled`, status: 409 };
+    }
+
+    // A request that died after R2 assembled the file left its address;
+    // the multipart upload is gone by then, so go straight to the clip
+    let { url } = await prisma.audioUpload.findUniqueOrThrow({ where: { id }, select: { url: true } });
+    let audioClipId: string;
+    try {
+      if (!url) {
+        const parts = await listUploadedParts(upload.key, upload.uploadId);
+        const received = parts.reduce((sum, part) => sum + part.size, 0);
+        if (parts.length !== partCount(upload.fileSize, upload.partSize) || received !== upload.fileSize) {
+          await releaseUpload(id, false);
+          return { error: `The upload of ${upload.originalName} is not finished`, status: 409 };
+        }
+
+        url = await completeMultipartUpload(upload.key, upload.uploadId, parts);
+        await prisma.audioUpload.update({ where: { id }, data: { url } });
+      }
+
+      const duration = await readAudioDuration(upload.key, upload.mimeType, upload.fileSize);
+
+      const audioClip = await prisma.audioClip.create({
+        data: {
+          filename: upload.key,
+          originalName: upload.originalName,
+          url,
+          fileSize: upload.fileSize,
+          mimeType: upload.mimeType,
+          duration: duration ?? null,
+          uploadedBy: userId,
+          sourceStoryId: clipData.sourceStoryId,
+        },
+        select: { id: true },
+      });
+      audioClipId = audioClip.id;
+    } catch (error) {
+      await releaseUpload(id, !!url);
+      throw error;
+    }
+
+    await prisma.audioUpload.update({
+      where: { id: upload.id },
+      data: { status: 'COMPLETED', completedAt: new Date(), audioClipId },
+    });
+
+    clipIds.push(audioClipId);
+  }
+
+  return { clipIds };
+}
+
+/**
+ * Hand a claimed upload back so the browser can send the rest or retry.
+ * Once R2 has assembled the file there are no parts left to send, and a
+ * retry only has to make the clip.
+ */
+async function releaseUpload(id: string, assembled: boolean): Promise<void> {
+  await prisma.audioUpload.updateMany({
+    where: { id, status: 'FINALISING' },
+    data: { status: assembled ? 'ASSEMBLED' : 'UPLOADING' },
+  });
+}
+
+/**
+ * Discard an upload and whatever R2 has received for it, or the file R2
+ * assembled from it.
+ */
+export async function abortAudioUpload(upload: { id: string; key: string; uploadId: string; url: string | null }): Promise<void> {
+  try {
+    if (upload.url) {
+      await deleteAudioFile(upload.url);
+    } else {
+      await abortMultipartUpload(upload.key, upload.uploadId);
+    }
+  } catch (error) {
+    // R2 drops stale multipart uploads itself; still mark ours as aborted
+    console.error(`Failed to discard upload ${upload.id}:`, error);
+  }
+
+  await prisma.audioUpload.update({
+    where: { id: upload.id },
+    data: { status: 'ABORTED' },
+  });
+}
+
+/**
+ * Abort uploads left unfinished for longer than AUDIO_UPLOAD_TTL_MS.
+ */
+export async function abortStaleAudioUploads(now: Date = new Date()): Promise<number> {
+  const stale = await prisma.audioUpload.findMany({
+    where: {
+      status: { in: ['UPLOADING', 'FINALISING', 'ASSEMBLED'] },
+      createdAt: { lt: new Date(now.getTime() - AUDIO_UPLOAD_TTL_MS) },
+    },
+    select: { id: true, key: true, uploadId: true, url: true },
+  });
+
+  for (const upload of stale) {
+    await abortAudioUpload(upload);
+  }
+
+  return stale.length;
+}
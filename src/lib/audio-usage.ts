@@ -0,0 +1,69 @@
+import type { BulletinStatus, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { bulletinDayOf, bulletinSlotTime, comingBulletinDay, formatBulletinDay } from './bulletin-generation';
+
+// Bulletins that count as going to air on the day they're scheduled for
+const ON_AIR_BULLETIN_STATUSES: BulletinStatus[] = ['APPROVED', 'SCHEDULED', 'PUBLISHED'];
+
+/**
+ * The South African calendar day `now` falls on, as UTC instants.
+ */
+export function onAirDay(now: Date = new Date()): { day: string; start: Date; end: Date } {
+  const day = bulletinDayOf(now);
+  return {
+    day: formatBulletinDay(day),
+    start: bulletinSlotTime(day, '00:00'),
+    end: bulletinSlotTime(comingBulletinDay(now), '00:00'),
+  };
+}
+
+/**
+ * Clips that have gone, or are going, to air today: linked to a story that
+ * was published today or runs in one of today's bulletins, or to a show or
+ * podcast episode published today.
+ */
+export function onAirTodayWhere(now: Date = new Date()): Prisma.AudioClipWhereInput {
+  const { start, end } = onAirDay(now);
+  const today = { gte: start, lt: end };
+
+  return {
+    OR: [
+      {
+        stories: {
+          some: {
+            story: {
+              OR: [
+                { publishedAt: today },
+                {
+                  bulletinStories: {
+                    some: {
+                      bulletin: {
+                        status: { in: ON_AIR_BULLETIN_STATUSES },
+                        OR: [{ scheduledFor: today }, { publishedAt: today }],
+                      },
+                    },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      { episodes: { some: { episode: { publishedAt: today } } } },
+      { podcastEpisodes: { some: { episode: { publishedAt: today } } } },
+    ],
+  };
+}
+
+/**
+ * Which of the given clips have been used on air today.
+ */
+export async function findClipsOnAirToday(clipIds: string[], now: Date = new Date()): Promise<Set<string>> {
+  if (clipIds.length === 0) return new Set();
+
+  const clips = await prisma.audioClip.findMany({
+    where: { id: { in: clipIds }, ...onAirTodayWhere(now) },
+    select: { id: true },
+  });
+  return new Set(clips.map(clip => clip.id));
+}
@@ -0,0 +1,156 @@
+import type { Province, StoryLanguage } from '@prisma/client';
+import { prisma } from './prisma';
+import { LANGUAGE_DISPLAY_NAMES } from './language-utils';
+import { isStoryAvailableToStation, stationAccessFor } from './station-access';
+import { isReleasedToStation, type ReleaseWindow } from './release-window';
+import { createEvent, publishStationEvent } from './ably';
+import { generateBreakingNewsEmail, sendEmail } from './email';
+
+export type BreakingNewsContent = ReleaseWindow &
+  (
+    | {
+        kind: 'story';
+        id: string;
+        language: StoryLanguage;
+        categoryId: string | null;
+        category: { parentId: string | null } | null;
+        classifications: Array<{ classification: { type: string; name: string } }>;
+      }
+    | { kind: 'bulletin'; id: string; language: StoryLanguage }
+  );
+
+const RELEASE_WINDOW_SELECT = {
+  embargoUntil: true,
+  exclusiveUntil: true,
+  exclusiveStationIds: true,
+  exclusiveProvinces: true,
+} as const;
+
+/**
+ * Where the alert takes radio users in the station zone.
+ */
+export function breakingNewsUrl(alert: { storyId: string | null; bulletinId: string | null }): string {
+  return alert.storyId ? `/radio/story/${alert.storyId}` : `/radio/bulletins/${alert.bulletinId}`;
+}
+
+/**
+ * Load the published story or bulletin an alert is about, with what is
+ * needed to decide which stations receive it. Null if it isn't published.
+ */
+export async function findBreakingNewsContent(
+  target: { storyId?: string; bulletinId?: string }
+): Promise<BreakingNewsContent | null> {
+  if (target.storyId) {
+    const story = await prisma.story.findFirst({
+      where: { id: target.storyId, stage: 'PUBLISHED' },
+      select: {
+        id: true,
+        language: true,
+        categoryId: true,
+        category: { select: { parentId: true } },
+        classifications: { select: { classification: { select: { type: true, name: true } } } },
+        ...RELEASE_WINDOW_SELECT,
+      },
+    });
+    return story ? { kind: 'story', ...story } : null;
+  }
+
+  const bulletin = await prisma.bulletin.findFirst({
+    where: { id: target.bulletinId, status: 'PUBLISHED' },
+    select: { id: true, language: true, ...RELEASE_WINDOW_SELECT },
+  });
+  return bulletin ? { kind: 'bulletin', ...bulletin } : null;
+}
+
+/**
+ * The stations among those given that may receive the content now, using
+ * the same language, category, religion and release window rules as the
+ * station zone listings.
+ */
+export function filterBreakingNewsStations(
+  content: BreakingNewsContent,
+  stations: Array<{
+    id: string;
+    province: Province;
+    allowedLanguages: string[];
+    allowedReligions: string[];
+    blockedCategories: string[];
+  }>,
+  now = new Date()
+): string[] {
+  const language = LANGUAGE_DISPLAY_NAMES[content.language];
+
+  return stations
+    .filter(station => station.allowedLanguages.includes(language))
+    .filter(station => {
+      const access = stationAccessFor(station);
+      return (
+        isReleasedToStation(content, access, now) &&
+        (content.kind === 'bulletin' || isStoryAvailableToStation(content, access))
+      );
+    })
+    .map(station => station.id);
+}
+
+/**
+ * Active stations with content access that should be alerted about the content.
+ */
+export async function breakingNewsRecipientStations(content: BreakingNewsContent): Promise<string[]> {
+  const stations = await prisma.station.findMany({
+    where: { isActive: true, hasContentAccess: true },
+    select: { id: true, province: true, allowedLanguages: true, allowedReligions: true, blockedCategories: true },
+  });
+
+  return filterBreakingNewsStations(content, stations);
+}
+
+/**
+ * Push a newly created alert to each recipient station's channel and email
+ * the stations' primary contacts. Returns the number of emails sent.
+ */
+export async function deliverBreakingNewsAlert(alert: {
+  id: string;
+  headline: string;
+  message: string | null;
+  storyId: string | null;
+  bulletinId: string | null;
+  createdById: string;
+  stations: Array<{ stationId: string }>;
+}): Promise<number> {
+  const url = breakingNewsUrl(alert);
+  const stationIds = alert.stations.map(station => station.stationId);
+
+  await Promise.all(
+    stationIds.map(stationId =>
+      publishStationEvent(
+        stationId,
+        createEvent(
+          'breaking_news:alert',
+          alert.storyId ? 'story' : 'bulletin',
+          (alert.storyId ?? alert.bulletinId)!,
+          alert.createdById,
+          { alertId: alert.id, headline: alert.headline, message: alert.message, url }
+        )
+      )
+    )
+  );
+
+  const contacts = await prisma.user.findMany({
+    where: { radioStationId: { in: stationIds }, isPrimaryContact: true, isActive: true },
+    select: { id: true, email: true, firstName: true },
+  });
+
+  const results = await Promise.allSettled(
+    contacts.map(contact => {
+      const { subject, html, type } = generateBreakingNewsEmail(contact.firstName, { ...alert, url });
+      return sendEmail({ to: contact.email, subject, html, type, userId: contact.id });
+    })
+  );
+
+  const failed = results.filter(result => result.status === 'rejected').length;
+  if (failed > 0) {
+    console.error(`Failed to send ${failed} of ${contacts.length} breaking news emails`);
+  }
+
+  return contacts.length - failed;
+}
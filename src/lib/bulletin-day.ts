@@ -0,0 +1,54 @@
+// Calendar days bulletins run on, free of server imports so client code can
+// use them too. Schedule times are South African local time (SAST, UTC+2, no
+// daylight saving)
+const SAST_OFFSET_MINUTES = 120;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BulletinDay {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export function formatBulletinDay({ year, month, day }: BulletinDay): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function parseBulletinDay(value: string): BulletinDay | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) return null;
+  return { year, month, day };
+}
+
+/**
+ * The South African calendar day `now` falls on.
+ */
+export function bulletinDayOf(now: Date = new Date()): BulletinDay {
+  const local = new Date(now.getTime() + SAST_OFFSET_MINUTES * 60 * 1000);
+  return { year: local.getUTCFullYear(), month: local.getUTCMonth() + 1, day: local.getUTCDate() };
+}
+
+/**
+ * A calendar day as the UTC-midnight Date Prisma uses for `@db.Date` columns.
+ */
+export function bulletinDayDate({ year, month, day }: BulletinDay): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * The South African calendar day after the one `now` falls on.
+ */
+export function comingBulletinDay(now: Date = new Date()): BulletinDay {
+  return bulletinDayOf(new Date(now.getTime() + DAY_MS));
+}
+
+/**
+ * The on-air instant of a schedule slot ("HH:MM" local time) on a given day.
+ */
+export function bulletinSlotTime({ year, month, day }: BulletinDay, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes) - SAST_OFFSET_MINUTES * 60 * 1000);
+}
@@ -0,0 +1,74 @@
+import type { StoryLanguage } from '@prisma/client';
+import { htmlToPlainText } from './text-diff';
+
+export type ReadingSpeeds = Record<StoryLanguage, number>;
+
+// Newsreader words per minute when no speed has been configured. Xhosa and Zulu
+// are agglutinative, so the same news takes fewer (longer) words.
+export const DEFAULT_READING_SPEEDS: ReadingSpeeds = {
+  ENGLISH: 160,
+  AFRIKAANS: 150,
+  XHOSA: 110,
+  ZULU: 110,
+};
+
+export interface BulletinDurationInput {
+  intro: string;
+  outro: string;
+  stories: Array<{
+    content: string | null;
+    audioClips?: Array<{ duration: number | null }>;
+  }>;
+}
+
+export interface BulletinDurationEstimate {
+  // All durations are in seconds
+  totalSeconds: number;
+  readSeconds: number;
+  audioSeconds: number;
+  wordCount: number;
+  wordsPerMinute: number;
+  stories: Array<{ readSeconds: number; audioSeconds: number }>;
+}
+
+export function countWords(html: string | null): number {
+  if (!html) return 0;
+  return htmlToPlainText(html).match(/\S+/g)?.length ?? 0;
+}
+
+/**
+ * Estimated on-air length of a bulletin: intro, outro and story copy read at
+ * the language's words-per-minute, plus every attached audio clip.
+ */
+export function estimateBulletinDuration(
+  bulletin: BulletinDurationInput,
+  wordsPerMinute: number
+): BulletinDurationEstimate {
+  const readSeconds = (words: number) => Math.round((words / wordsPerMinute) * 60);
+
+  const stories = bulletin.stories.map(story => {
+    const words = countWords(story.content);
+    const audioSeconds = (story.audioClips ?? []).reduce((sum, clip) => sum + (clip.duration ?? 0), 0);
+    return { words, readSeconds: readSeconds(words), audioSeconds };
+  });
+
+  const wordCount = countWords(bulletin.intro) + countWords(bulletin.outro) + stories.reduce((sum, story) => sum + story.words, 0);
+  const audioSeconds = stories.reduce((sum, story) => sum + story.audioSeconds, 0);
+
+  return {
+    totalSeconds: readSeconds(wordCount) + audioSeconds,
+    readSeconds: readSeconds(wordCount),
+    audioSeconds,
+    wordCount,
+    wordsPerMinute,
+    stories: stories.map(({ readSeconds, audioSeconds }) => ({ readSeconds, audioSeconds })),
+  };
+}
+
+/**
+ * Seconds as "m:ss", e.g. 95 -> "1:35".
+ */
+export function formatDuration(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,247 @@
+import type { StoryLanguage } from '@prisma/client';
+import { htmlToParagraphs } from './text-diff';
+import { LANGUAGE_DISPLAY_NAMES } from './language-utils';
+import { extractPronunciationNotes, inlinePronunciations, type PronunciationGuide } from './pronunciation';
+import { renderTextPdf, type PdfBlock } from './pdf-writer';
+import { escapeRegExp, escapeXml } from './text-utils';
+
+export type BulletinExportFormat = 'pdf' | 'txt' | 'ssml' | 'm3u' | 'xspf';
+
+export const BULLETIN_EXPORT_FORMATS: Record<BulletinExportFormat, { contentType: string; extension: string }> = {
+  pdf: { contentType: 'application/pdf', extension: 'pdf' },
+  txt: { contentType: 'text/plain; charset=utf-8', extension: 'txt' },
+  ssml: { contentType: 'application/ssml+xml; charset=utf-8', extension: 'ssml' },
+  m3u: { contentType: 'audio/x-mpegurl; charset=utf-8', extension: 'm3u' },
+  xspf: { contentType: 'application/xspf+xml; charset=utf-8', extension: 'xspf' },
+};
+
+/**
+ * Whether a requested format is one we export. Only the formats themselves
+ * count, not keys inherited from Object.prototype such as "toString".
+ */
+export function isBulletinExportFormat(format: string): format is BulletinExportFormat {
+  return Object.hasOwn(BULLETIN_EXPORT_FORMATS, format);
+}
+
+const SSML_LANGUAGES: Record<StoryLanguage, string> = {
+  ENGLISH: 'en-ZA',
+  AFRIKAANS: 'af-ZA',
+  XHOSA: 'xh-ZA',
+  ZULU: 'zu-ZA',
+};
+
+export interface BulletinExportInput {
+  title: string;
+  language: StoryLanguage;
+  scheduledFor: Date | null;
+  publishedAt: Date | null;
+  schedule?: { title: string; time: string } | null;
+  intro: string;
+  outro: string;
+  stories: Array<{
+    title: string;
+    content: string | null;
+    category?: { name: string } | null;
+    audioClips: Array<{ url: string; duration: number | null; originalName: string }>;
+  }>;
+}
+
+export interface BulletinScript {
+  title: string;
+  language: StoryLanguage;
+  airTime: Date | null;
+  scheduleTitle: string | null;
+  intro: string[];
+  outro: string[];
+  // Every note in the intro, stories and outro
+  pronunciations: PronunciationGuide[];
+  stories: Array<{
+    number: number;
+    title: string;
+    category: string | null;
+    paragraphs: string[];
+    pronunciations: PronunciationGuide[];
+    audio: Array<{ url: string; duration: number | null; name: string }>;
+  }>;
+}
+
+// Copy as the newsreader sees it, with pronunciation notes after their terms
+function scriptParagraphs(html: string): string[] {
+  return htmlToParagraphs(inlinePronunciations(html));
+}
+
+export function buildBulletinScript(bulletin: BulletinExportInput): BulletinScript {
+  return {
+    title: bulletin.title,
+    language: bulletin.language,
+    airTime: bulletin.scheduledFor ?? bulletin.publishedAt,
+    scheduleTitle: bulletin.schedule?.title ?? null,
+    intro: scriptParagraphs(bulletin.intro),
+    outro: scriptParagraphs(bulletin.outro),
+    pronunciations: extractPronunciationNotes(
+      [bulletin.intro, ...bulletin.stories.map(story => story.content ?? ''), bulletin.outro].join('')
+    ),
+    stories: bulletin.stories.map((story, index) => ({
+      number: index + 1,
+      title: story.title,
+      category: story.category?.name ?? null,
+      paragraphs: scriptParagraphs(story.content ?? ''),
+      pronunciations: extractPronunciationNotes(story.content),
+      audio: story.audioClips.map(clip => ({ url: clip.url, duration: clip.duration, name: clip.originalName })),
+    })),
+  };
+}
+
+function formatAirTime(date: Date | null): string | null {
+  return date
+    ? date.toLocaleString('en-ZA', { dateStyle: 'full', timeStyle: 'short', timeZone: 'Africa/Johannesburg' })
+    : null;
+}
+
+function formatClipLength(seconds: number | null): string {
+  if (!seconds) return '';
+  return ` (${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')})`;
+}
+
+function scriptHeader(script: BulletinScript): string {
+  return [LANGUAGE_DISPLAY_NAMES[script.language], script.scheduleTitle, formatAirTime(script.airTime)]
+    .filter(Boolean)
+    .join(' | ');
+}
+
+/**
+ * Printable newsreader script: intro, numbered stories with audio cues, and
+ * outro. Pronunciation notes sit in the copy after their terms.
+ */
+export function renderScriptPdf(script: BulletinScript): Uint8Array<ArrayBuffer> {
+  const blocks: PdfBlock[] = [
+    { text: script.title, style: 'title' },
+    { text: scriptHeader(script), style: 'meta' },
+    { text: 'INTRO', style: 'heading', spaceBefore: 18 },
+    ...script.intro.map((text): PdfBlock => ({ text, spaceBefore: 6 })),
+  ];
+
+  for (const story of script.stories) {
+    blocks.push({ text: `${story.number}. ${story.title}`, style: 'heading', spaceBefore: 18 });
+    if (story.category) blocks.push({ text: story.category, style: 'meta' });
+    blocks.push(...story.paragraphs.map((text): PdfBlock => ({ text, spaceBefore: 6 })));
+    for (const clip of story.audio) {
+      blocks.push({ text: `[AUDIO: ${clip.name}${formatClipLength(clip.duration)}]`, style: 'note', spaceBefore: 6 });
+    }
+  }
+
+  blocks.push(
+    { text: 'OUTRO', style: 'heading', spaceBefore: 18 },
+    ...script.outro.map((text): PdfBlock => ({ text, spaceBefore: 6 }))
+  );
+
+  return renderTextPdf(blocks, { title: script.title, footer: script.title });
+}
+
+/**
+ * Plain-text script for studio autocue: one paragraph per line, with blank
+ * lines between sections.
+ */
+export function renderPlainText(script: BulletinScript): string {
+  const sections = [
+    [script.title.toUpperCase(), scriptHeader(script)],
+    ['INTRO', ...script.intro],
+    ...script.stories.map(story => [
+      `${story.number}. ${story.title.toUpperCase()}`,
+      ...story.paragraphs,
+      ...story.audio.map(clip => `[AUDIO: ${clip.name}${formatClipLength(clip.duration)}]`),
+    ]),
+    ['OUTRO', ...script.outro],
+  ];
+  return `${sections.map(lines => lines.join('\n\n')).join('\n\n\n')}\n`;
+}
+
+/**
+ * SSML for text-to-speech and autocue systems that read it, with pauses
+ * between the intro, stories and outro. Terms with a pronunciation note are
+ * spoken as their guide.
+ */
+export function renderSsml(script: BulletinScript): string {
+  const speak = (text: string) =>
+    script.pronunciations.reduce(
+      (ssml, note) =>
+        ssml.replace(
+          new RegExp(`(${escapeRegExp(escapeXml(note.term))}) \\[${escapeRegExp(escapeXml(note.guide))}\\]`, 'gi'),
+          (_match, term: string) => `<sub alias="${escapeXml(note.guide)}">${term}</sub>`
+        ),
+      escapeXml(text)
+    );
+  const paragraphs = (texts: string[]) => texts.map(text => `    <p>${speak(text)}</p>`);
+  const body = [
+    ...paragraphs(script.intro),
+    ...script.stories.flatMap(story => ['    <break time="1s"/>', ...paragraphs(story.paragraphs)]),
+    '    <break time="1s"/>',
+    ...paragraphs(script.outro),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<speak version="1.1" xmlns="http://www.w3.org/2001/10/synthesis" xml:lang="${SSML_LANGUAGES[script.language]}">`,
+    body.join('\n'),
+    '</speak>',
+    '',
+  ].join('\n');
+}
+
+function playlistEntries(script: BulletinScript) {
+  return script.stories.flatMap(story =>
+    story.audio.map(clip => ({ ...clip, title: `${story.number}. ${story.title} - ${clip.name}` }))
+  );
+}
+
+/**
+ * Extended M3U playlist of the bulletin's audio clips in running order.
+ */
+export function renderM3u(script: BulletinScript): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${script.title}`];
+  for (const entry of playlistEntries(script)) {
+    lines.push(`#EXTINF:${entry.duration ?? -1},${entry.title}`, entry.url);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * XSPF playlist of the bulletin's audio clips in running order.
+ */
+export function renderXspf(script: BulletinScript): string {
+  const tracks = playlistEntries(script).map(entry =>
+    [
+      '    <track>',
+      `      <location>${escapeXml(entry.url)}</location>`,
+      `      <title>${escapeXml(entry.title)}</title>`,
+      ...(entry.duration ? [`      <duration>${Math.round(entry.duration * 1000)}</duration>`] : []),
+      '    </track>',
+    ].join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(script.title)}</title>`,
+    '  <trackList>',
+    ...tracks,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+}
+
+export function renderBulletinExport(script: BulletinScript, format: BulletinExportFormat): string | Uint8Array<ArrayBuffer> {
+  switch (format) {
+    case 'pdf':
+      return renderScriptPdf(script);
+    case 'txt':
+      return renderPlainText(script);
+    case 'ssml':
+      return renderSsml(script);
+    case 'm3u':
+      return renderM3u(script);
+    case 'xspf':
+      return renderXspf(script);
+  }
+}
@@ -0,0 +1,227 @@
+import { BulletinStatus, Prisma, StoryLanguage } from '@prisma/client';
+import { prisma } from './prisma';
+import { BulletinDay, bulletinDayDate, bulletinDayOf, formatBulletinDay } from './bulletin-generation';
+
+// Longest run of days a single pick may cover
+export const MAX_FLAG_DAYS = 14;
+
+// A bulletin only counts as using a pick once it has gone out
+const AIRED_STATUSES: BulletinStatus[] = ['PUBLISHED', 'ARCHIVED'];
+
+export interface FlagWindow {
+  language: StoryLanguage;
+  startDate: Date;
+  endDate: Date;
+  scheduleId: string | null;
+}
+
+export interface BulletinPlacement {
+  day: string; // YYYY-MM-DD, South African time
+  language: StoryLanguage;
+  scheduleId: string | null;
+}
+
+const FLAG_INCLUDE = {
+  story: {
+    select: {
+      id: true,
+      title: true,
+      stage: true,
+      language: true,
+      category: { select: { name: true } },
+    },
+  },
+  flaggedBy: { select: { id: true, firstName: true, lastName: true } },
+  removedBy: { select: { id: true, firstName: true, lastName: true } },
+  schedule: { select: { id: true, title: true, time: true } },
+} satisfies Prisma.BulletinFlagInclude;
+
+/**
+ * `@db.Date` values as YYYY-MM-DD.
+ */
+export function flagDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Number of days a pick covers, counting both ends.
+ */
+export function flagSpanDays(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+/**
+ * Flags that have not been withdrawn and cover the day.
+ */
+export function flagsActiveOnWhere(day: BulletinDay): Prisma.BulletinFlagWhereInput {
+  const date = bulletinDayDate(day);
+  return { removedAt: null, startDate: { lte: date }, endDate: { gte: date } };
+}
+
+/**
+ * Where a story sat in a bulletin, reduced to what matters for matching picks.
+ * Bulletins are placed on their scheduled day, falling back to when they went
+ * out or were created.
+ */
+export function placementOf(bulletin: {
+  language: StoryLanguage;
+  scheduleId: string | null;
+  scheduledFor: Date | null;
+  publishedAt: Date | null;
+  createdAt: Date;
+}): BulletinPlacement {
+  const when = bulletin.scheduledFor ?? bulletin.publishedAt ?? bulletin.createdAt;
+  return { day: formatBulletinDay(bulletinDayOf(when)), language: bulletin.language, scheduleId: bulletin.scheduleId };
+}
+
+/**
+ * A pick is used when the story ran in a bulletin of the same language on one
+ * of its days, and in the picked slot if it was flagged for one.
+ */
+export function isFlagUsed(flag: FlagWindow, placements: BulletinPlacement[]): boolean {
+  const start = flagDay(flag.startDate);
+  const end = flagDay(flag.endDate);
+  return placements.some(
+    placement =>
+      placement.language === flag.language &&
+      placement.day >= start &&
+      placement.day <= end &&
+      (!flag.scheduleId || placement.scheduleId === flag.scheduleId)
+  );
+}
+
+/**
+ * Keep the flaggedForBulletin fields on stories in step with the flags active
+ * today, so story lists can keep filtering and sorting on them. The earliest
+ * active flag wins. Pass story ids to sync just those stories.
+ */
+export async function syncStoryFlagState(
+  storyIds?: string[],
+  client: Prisma.TransactionClient = prisma,
+  now: Date = new Date()
+) {
+  const flags = await client.bulletinFlag.findMany({
+    where: { ...flagsActiveOnWhere(bulletinDayOf(now)), ...(storyIds && { storyId: { in: storyIds } }) },
+    orderBy: { flaggedAt: 'asc' },
+    select: { storyId: true, flaggedAt: true, flaggedById: true },
+  });
+
+  const earliest = new Map<string, { flaggedAt: Date; flaggedById: string }>();
+  for (const flag of flags) {
+    if (!earliest.has(flag.storyId)) earliest.set(flag.storyId, flag);
+  }
+  const flaggedIds = [...earliest.keys()];
+
+  const cleared = await client.story.updateMany({
+    where: {
+      flaggedForBulletin: true,
+      id: storyIds ? { in: storyIds, notIn: flaggedIds } : { notIn: flaggedIds },
+    },
+    data: { flaggedForBulletin: false, flaggedForBulletinAt: null, flaggedForBulletinById: null },
+  });
+
+  for (const [id, flag] of earliest) {
+    await client.story.update({
+      where: { id },
+      data: {
+        flaggedForBulletin: true,
+        flaggedForBulletinAt: flag.flaggedAt,
+        flaggedForBulletinById: flag.flaggedById,
+      },
+    });
+  }
+
+  return { flagged: flaggedIds.length, cleared: cleared.count };
+}
+
+/**
+ * Bulletins each story has been placed in, keyed by story id.
+ */
+async function placementsForStories(storyIds: string[], where: Prisma.BulletinWhereInput = {}) {
+  const bulletinStories = await prisma.bulletinStory.findMany({
+    where: { storyId: { in: storyIds }, bulletin: where },
+    select: {
+      storyId: true,
+      bulletin: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          language: true,
+          scheduleId: true,
+          scheduledFor: true,
+          publishedAt: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  const byStory = new Map<string, (typeof bulletinStories)[number]['bulletin'][]>();
+  for (const { storyId, bulletin } of bulletinStories) {
+    byStory.set(storyId, [...(byStory.get(storyId) ?? []), bulletin]);
+  }
+  return byStory;
+}
+
+/**
+ * The picks for a day, derived from the flags that cover it, with the
+ * bulletins on that day each story has already been placed in.
+ */
+export async function getBulletinPicks(day: BulletinDay, language?: StoryLanguage) {
+  const flags = await prisma.bulletinFlag.findMany({
+    where: { ...flagsActiveOnWhere(day), ...(language && { language }) },
+    include: FLAG_INCLUDE,
+    orderBy: { flaggedAt: 'asc' },
+  });
+
+  const dayString = formatBulletinDay(day);
+  const placements = await placementsForStories([...new Set(flags.map(flag => flag.storyId))]);
+
+  return flags.map(flag => {
+    const bulletins = (placements.get(flag.storyId) ?? []).filter(bulletin => {
+      const placement = placementOf(bulletin);
+      return placement.day === dayString && isFlagUsed(flag, [placement]);
+    });
+    return {
+      ...flag,
+      bulletins: bulletins.map(({ id, title, status, scheduledFor }) => ({ id, title, status, scheduledFor })),
+    };
+  });
+}
+
+/**
+ * Picks whose days ended between `from` and `to` without the story going out
+ * in a matching bulletin. Picks still running today are left out.
+ */
+export async function getUnusedBulletinFlags(from: BulletinDay, to: BulletinDay, now: Date = new Date()) {
+  const flags = await prisma.bulletinFlag.findMany({
+    where: {
+      removedAt: null,
+      endDate: { gte: bulletinDayDate(from), lte: bulletinDayDate(to), lt: bulletinDayDate(bulletinDayOf(now)) },
+    },
+    include: FLAG_INCLUDE,
+    orderBy: [{ endDate: 'desc' }, { flaggedAt: 'asc' }],
+  });
+
+  const placements = await placementsForStories(
+    [...new Set(flags.map(flag => flag.storyId))],
+    { status: { in: AIRED_STATUSES } }
+  );
+
+  return flags.filter(flag => !isFlagUsed(flag, (placements.get(flag.storyId) ?? []).map(placementOf)));
+}
+
+/**
+ * Every pick made for a story, newest first, marked with whether it was used.
+ */
+export async function getStoryBulletinFlags(storyId: string) {
+  const flags = await prisma.bulletinFlag.findMany({
+    where: { storyId },
+    include: FLAG_INCLUDE,
+    orderBy: { flaggedAt: 'desc' },
+  });
+
+  const placements = (await placementsForStories([storyId], { status: { in: AIRED_STATUSES } })).get(storyId) ?? [];
+  return flags.map(flag => ({ ...flag, used: isFlagUsed(flag, placements.map(placementOf)) }));
+}
@@ -0,0 +1,232 @@
+import { BulletinScheduleType, Prisma, StoryLanguage } from '@prisma/client';
+import { prisma } from './prisma';
+import { generateSlug, generateUniqueBulletinSlug } from './slug-utils';
+import { findPublicHoliday } from './public-holidays';
+import { type BulletinDay, bulletinDayDate, bulletinSlotTime, formatBulletinDay } from './bulletin-day';
+
+export {
+  type BulletinDay,
+  formatBulletinDay,
+  parseBulletinDay,
+  bulletinDayOf,
+  bulletinDayDate,
+  comingBulletinDay,
+  bulletinSlotTime,
+} from './bulletin-day';
+
+export interface FlaggedStory {
+  id: string;
+  title: string;
+  flaggedAt: Date | null;
+  category: { name: string } | null;
+}
+
+export interface GeneratedBulletin {
+  bulletinId: string;
+  scheduleId: string;
+  title: string;
+  scheduledFor: Date;
+  storyCount: number;
+}
+
+export interface BulletinGenerationResult {
+  day: string;
+  scheduleType: BulletinScheduleType;
+  // Name of the public holiday the day falls on, if any
+  holiday: string | null;
+  created: GeneratedBulletin[];
+  // Schedule slots that already had a bulletin for this day
+  skipped: { scheduleId: string; bulletinId: string }[];
+}
+
+/**
+ * Which set of schedules runs on a day: public holiday slots replace the
+ * weekday or weekend slots the day would otherwise get.
+ */
+export function scheduleTypeForDay({ year, month, day }: BulletinDay, isPublicHoliday = false): BulletinScheduleType {
+  if (isPublicHoliday) return 'PUBLIC_HOLIDAY';
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return weekday === 0 || weekday === 6 ? 'WEEKEND' : 'WEEKDAY';
+}
+
+/**
+ * Schedule type for a day, consulting the public holiday calendar.
+ */
+export async function resolveScheduleType(
+  day: BulletinDay,
+  client: Prisma.TransactionClient = prisma
+): Promise<{ scheduleType: BulletinScheduleType; holiday: string | null }> {
+  const holiday = await findPublicHoliday(formatBulletinDay(day), client);
+  return { scheduleType: scheduleTypeForDay(day, !!holiday), holiday: holiday?.name ?? null };
+}
+
+/**
+ * Running order for flagged stories: stories are grouped by category, categories
+ * follow the order their first story was flagged in, and stories within a
+ * category keep their flag order. Stories without a flag time go last.
+ */
+export function orderFlaggedStories<T extends FlaggedStory>(stories: T[]): T[] {
+  const flagTime = (story: FlaggedStory) => story.flaggedAt?.getTime() ?? Number.POSITIVE_INFINITY;
+  const byFlagTime = [...stories].sort((a, b) => flagTime(a) - flagTime(b));
+
+  const categoryRank = new Map<string, number>();
+  for (const story of byFlagTime) {
+    const category = story.category?.name ?? '';
+    if (!categoryRank.has(category)) categoryRank.set(category, categoryRank.size);
+  }
+
+  return byFlagTime.sort(
+    (a, b) => categoryRank.get(a.category?.name ?? '')! - categoryRank.get(b.category?.name ?? '')!
+  );
+}
+
+export async function findOrCreateBulletinCategory(client: Prisma.TransactionClient = prisma) {
+  const category = await client.category.findFirst({ where: { slug: 'news-bulletins' } });
+  if (category) return category;
+
+  return client.category.create({
+    data: {
+      name: 'News Bulletins',
+      slug: 'news-bulletins',
+      description: 'News bulletins for radio stations',
+      level: 1,
+      isParent: true,
+      isEditable: false,
+    },
+  });
+}
+
+/**
+ * Published stories picked for a schedule slot on a day: flags in the slot's
+ * language that cover the day and are either for any slot or for this one.
+ * A story flagged more than once is ordered by its earliest flag.
+ */
+export async function getFlaggedStoriesForSlot(day: BulletinDay, schedule: { id: string; language: StoryLanguage }) {
+  const date = bulletinDayDate(day);
+  const flags = await prisma.bulletinFlag.findMany({
+    where: {
+      removedAt: null,
+      startDate: { lte: date },
+      endDate: { gte: date },
+      language: schedule.language,
+      OR: [{ scheduleId: null }, { scheduleId: schedule.id }],
+      story: { stage: 'PUBLISHED' },
+    },
+    orderBy: { flaggedAt: 'asc' },
+    select: {
+      flaggedAt: true,
+      story: { select: { id: true, title: true, category: { select: { name: true } } } },
+    },
+  });
+
+  const stories = new Map<string, FlaggedStory>();
+  for (const flag of flags) {
+    if (!stories.has(flag.story.id)) stories.set(flag.story.id, { ...flag.story, flaggedAt: flag.flaggedAt });
+  }
+
+  return orderFlaggedStories([...stories.values()]);
+}
+
+/**
+ * Create a draft bulletin for every active schedule slot on a day, pre-filled
+ * with the stories flagged for that slot on the day. Slots that already have a
+ * bulletin are left alone, so the job can safely run more than once.
+ * Intro and outro are carried over from the schedule's most recent bulletin.
+ */
+export async function generateBulletinDrafts(day: BulletinDay): Promise<BulletinGenerationResult> {
+  const { scheduleType, holiday } = await resolveScheduleType(day);
+  const result: BulletinGenerationResult = {
+    day: formatBulletinDay(day),
+    scheduleType,
+    holiday,
+    created: [],
+    skipped: [],
+  };
+
+  const schedules = await prisma.bulletinSchedule.findMany({
+    where: { scheduleType, isActive: true },
+    orderBy: { time: 'asc' },
+  });
+  if (schedules.length === 0) return result;
+
+  const category = await findOrCreateBulletinCategory();
+
+  for (const schedule of schedules) {
+    const scheduledFor = bulletinSlotTime(day, schedule.time);
+
+    const existing = await prisma.bulletin.findFirst({
+      where: { scheduleId: schedule.id, scheduledFor },
+      select: { id: true },
+    });
+    if (existing) {
+      result.skipped.push({ scheduleId: schedule.id, bulletinId: existing.id });
+      continue;
+    }
+
+    const stories = await getFlaggedStoriesForSlot(day, schedule);
+
+    const previous = await prisma.bulletin.findFirst({
+      where: { scheduleId: schedule.id },
+      orderBy: { createdAt: 'desc' },
+      select: { intro: true, outro: true },
+    });
+
+    const slug = await generateUniqueBulletinSlug(generateSlug(`${schedule.title} ${result.day}`));
+
+    const bulletin = await prisma.$transaction(async (tx) => {
+      const created = await tx.bulletin.create({
+        data: {
+          title: schedule.title,
+          slug,
+          intro: previous?.intro ?? '',
+          outro: previous?.outro ?? '',
+          language: schedule.language,
+          scheduleId: schedule.id,
+          scheduledFor,
+          authorId: schedule.createdBy,
+          categoryId: category.id,
+          status: 'DRAFT',
+        },
+        select: { id: true },
+      });
+
+      if (stories.length > 0) {
+        await tx.bulletinStory.createMany({
+          data: stories.map((story, index) => ({
+            bulletinId: created.id,
+            storyId: story.id,
+            order: index + 1,
+          })),
+        });
+      }
+
+      // Generated drafts are audited against the schedule's owner, who also authors them
+      await tx.auditLog.create({
+        data: {
+          userId: schedule.createdBy,
+          action: 'AUTO_GENERATE_BULLETIN',
+          entityType: 'BULLETIN',
+          entityId: created.id,
+          metadata: {
+            title: schedule.title,
+            scheduleId: schedule.id,
+            scheduledFor: scheduledFor.toISOString(),
+            storyIds: stories.map(story => story.id),
+          },
+        },
+      });
+
+      return created;
+    });
+
+    result.created.push({
+      bulletinId: bulletin.id,
+      scheduleId: schedule.id,
+      title: schedule.title,
+      scheduledFor,
+      storyCount: stories.length,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,254 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { diffParagraphs, diffWords, htmlToParagraphs, type DiffSegment, type ParagraphChange } from './text-diff';
+import { generateBulletinCorrectionEmail, sendEmail } from './email';
+
+export interface BulletinRevisionStory {
+  storyId: string;
+  title: string;
+  content: string;
+}
+
+export interface BulletinSnapshot {
+  title: string;
+  intro: string;
+  outro: string;
+  stories: BulletinRevisionStory[];
+}
+
+export interface BulletinRevisionChanges {
+  title: DiffSegment[] | null;
+  intro: ParagraphChange[];
+  outro: ParagraphChange[];
+  stories: Array<{
+    storyId: string;
+    title: string;
+    change: 'added' | 'removed' | 'edited';
+    paragraphs: ParagraphChange[];
+  }>;
+  // The same stories now run in a different order
+  reordered: boolean;
+}
+
+async function snapshotBulletin(client: Prisma.TransactionClient, bulletinId: string): Promise<BulletinSnapshot | null> {
+  const bulletin = await client.bulletin.findUnique({
+    where: { id: bulletinId },
+    select: {
+      title: true,
+      intro: true,
+      outro: true,
+      bulletinStories: {
+        select: { story: { select: { id: true, title: true, content: true } } },
+        orderBy: { order: 'asc' },
+      },
+    },
+  });
+  if (!bulletin) return null;
+
+  return {
+    title: bulletin.title,
+    intro: bulletin.intro,
+    outro: bulletin.outro,
+    stories: bulletin.bulletinStories.map(({ story }) => ({
+      storyId: story.id,
+      title: story.title,
+      content: story.content ?? '',
+    })),
+  };
+}
+
+function isSameSnapshot(a: BulletinSnapshot, b: BulletinSnapshot): boolean {
+  return (
+    a.title === b.title &&
+    a.intro === b.intro &&
+    a.outro === b.outro &&
+    JSON.stringify(a.stories) === JSON.stringify(b.stories)
+  );
+}
+
+/**
+ * Snapshot a published bulletin as revision 1 if it has no history yet.
+ * Bulletins published before revisions existed get their baseline on the
+ * first correction; call this before mutating the bulletin.
+ */
+export async function ensureBaselineRevision(
+  client: Prisma.TransactionClient,
+  bulletinId: string
+): Promise<void> {
+  const existing = await client.bulletinRevision.count({ where: { bulletinId } });
+  if (existing > 0) return;
+
+  const [snapshot, bulletin] = await Promise.all([
+    snapshotBulletin(client, bulletinId),
+    client.bulletin.findUnique({
+      where: { id: bulletinId },
+      select: { authorId: true, publishedBy: true, publishedAt: true },
+    }),
+  ]);
+  if (!snapshot || !bulletin) return;
+
+  await client.bulletinRevision.create({
+    data: {
+      bulletinId,
+      revisionNumber: 1,
+      ...snapshot,
+      stories: snapshot.stories as unknown as Prisma.InputJsonValue,
+      createdById: bulletin.publishedBy ?? bulletin.authorId,
+      createdAt: bulletin.publishedAt ?? undefined,
+    },
+  });
+}
+
+/**
+ * Snapshot the bulletin as it now reads as the next revision. A revision
+ * without a correction note (a re-publish) is skipped when nothing changed
+ * since the latest snapshot; a correction is always recorded.
+ */
+export async function recordBulletinRevision(
+  client: Prisma.TransactionClient,
+  bulletinId: string,
+  { createdById, correctionNote }: { createdById: string; correctionNote?: string }
+) {
+  const [snapshot, latest] = await Promise.all([
+    snapshotBulletin(client, bulletinId),
+    client.bulletinRevision.findFirst({
+      where: { bulletinId },
+      orderBy: { revisionNumber: 'desc' },
+    }),
+  ]);
+
+  if (!snapshot) return null;
+
+  if (latest && !correctionNote && isSameSnapshot(toSnapshot(latest), snapshot)) {
+    return null;
+  }
+
+  return client.bulletinRevision.create({
+    data: {
+      bulletinId,
+      revisionNumber: (latest?.revisionNumber ?? 0) + 1,
+      ...snapshot,
+      stories: snapshot.stories as unknown as Prisma.InputJsonValue,
+      correctionNote,
+      createdById,
+    },
+  });
+}
+
+function toSnapshot(revision: { title: string; intro: string; outro: string; stories: Prisma.JsonValue }): BulletinSnapshot {
+  return {
+    title: revision.title,
+    intro: revision.intro,
+    outro: revision.outro,
+    stories: (revision.stories ?? []) as unknown as BulletinRevisionStory[],
+  };
+}
+
+/**
+ * What changed between two snapshots of a bulletin, paragraph by paragraph.
+ */
+export function diffBulletinSnapshots(before: BulletinSnapshot, after: BulletinSnapshot): BulletinRevisionChanges {
+  const beforeStories = new Map(before.stories.map(story => [story.storyId, story]));
+  const afterIds = new Set(after.stories.map(story => story.storyId));
+
+  const stories: BulletinRevisionChanges['stories'] = [];
+  for (const story of after.stories) {
+    const previous = beforeStories.get(story.storyId);
+    const paragraphs = diffParagraphs(htmlToParagraphs(previous?.content ?? ''), htmlToParagraphs(story.content));
+    if (!previous) {
+      stories.push({ storyId: story.storyId, title: story.title, change: 'added', paragraphs });
+    } else if (paragraphs.length > 0 || previous.title !== story.title) {
+      stories.push({ storyId: story.storyId, title: story.title, change: 'edited', paragraphs });
+    }
+  }
+  for (const story of before.stories) {
+    if (!afterIds.has(story.storyId)) {
+      stories.push({
+        storyId: story.storyId,
+        title: story.title,
+        change: 'removed',
+        paragraphs: diffParagraphs(htmlToParagraphs(story.content), []),
+      });
+    }
+  }
+
+  const keptBefore = before.stories.filter(story => afterIds.has(story.storyId)).map(story => story.storyId);
+  const keptAfter = after.stories.filter(story => beforeStories.has(story.storyId)).map(story => story.storyId);
+
+  return {
+    title: before.title !== after.title ? diffWords(before.title, after.title) : null,
+    intro: diffParagraphs(htmlToParagraphs(before.intro), htmlToParagraphs(after.intro)),
+    outro: diffParagraphs(htmlToParagraphs(before.outro), htmlToParagraphs(after.outro)),
+    stories,
+    reordered: keptBefore.join() !== keptAfter.join(),
+  };
+}
+
+/**
+ * Corrections issued for a bulletin, newest first, each with the changes it
+ * made to the revision before it.
+ */
+export async function getBulletinCorrections(bulletinId: string) {
+  const revisions = await prisma.bulletinRevision.findMany({
+    where: { bulletinId },
+    orderBy: { revisionNumber: 'asc' },
+    include: {
+      createdBy: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  });
+
+  return revisions
+    .flatMap((revision, index) => {
+      if (!revision.correctionNote || index === 0) return [];
+      const { stories: _stories, intro: _intro, outro: _outro, ...summary } = revision;
+      return [{ ...summary, changes: diffBulletinSnapshots(toSnapshot(revisions[index - 1]), toSnapshot(revision)) }];
+    })
+    .reverse();
+}
+
+/**
+ * Email the users of every station that opened the bulletin before it was
+ * corrected. Returns the number of stations notified.
+ */
+export async function notifyStationsOfCorrection(
+  bulletin: { id: string; title: string },
+  correction: { correctionNote: string; createdAt: Date }
+): Promise<number> {
+  const views = await prisma.contentView.findMany({
+    where: {
+      contentType: 'BULLETIN',
+      contentId: bulletin.id,
+      stationId: { not: null },
+      viewedAt: { lt: correction.createdAt },
+    },
+    select: { stationId: true },
+    distinct: ['stationId'],
+  });
+  const stationIds = views.map(view => view.stationId as string);
+  if (stationIds.length === 0) return 0;
+
+  const recipients = await prisma.user.findMany({
+    where: { radioStationId: { in: stationIds }, userType: 'RADIO', isActive: true },
+    select: { id: true, email: true, firstName: true },
+  });
+
+  const results = await Promise.allSettled(
+    recipients.map(recipient => {
+      const { subject, html, type } = generateBulletinCorrectionEmail(
+        recipient.firstName,
+        bulletin,
+        correction.correctionNote
+      );
+      return sendEmail({ to: recipient.email, subject, html, type, userId: recipient.id });
+    })
+  );
+
+  const failed = results.filter(result => result.status === 'rejected').length;
+  if (failed > 0) {
+    console.error(`Failed to send ${failed} of ${recipients.length} bulletin correction emails`);
+  }
+
+  return stationIds.length;
+}
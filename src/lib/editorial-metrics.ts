@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { StoryStage } from '@prisma/client';
+import { postEditRatio } from '@/lib/translation-provider';
 
 // ============================================================================
 // TYPES
@@ -589,3 +590,88 @@ export async function getTimeSensitiveStories(): Promise<TimeSensitiveStory[]> {
     };
   });
 }
+
+// ============================================================================
+// TRANSLATION EFFORT
+// ============================================================================
+
+export interface TranslationEffort {
+  // Translation provider that pre-filled the draft, or null for human-only translations
+  provider: string | null;
+  translations: number;
+  // Average share of the machine draft the translator changed (null without drafts)
+  averagePostEditRatio: number | null;
+  // Average hours from the translation being created to it leaving DRAFT
+  averageTurnaroundHours: number | null;
+}
+
+// How far back to compare finished translations
+const TRANSLATION_EFFORT_DAYS = 90;
+
+/**
+ * Compare machine-drafted translations with human-only ones, by provider
+ */
+export async function getTranslationEffort(): Promise<TranslationEffort[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - TRANSLATION_EFFORT_DAYS);
+
+  const translations = await prisma.story.findMany({
+    where: {
+      isTranslation: true,
+      stage: { in: ['TRANSLATED', 'PUBLISHED'] },
+      createdAt: { gte: since },
+    },
+    select: {
+      id: true,
+      content: true,
+      createdAt: true,
+      translationDraft: {
+        select: { provider: true, content: true },
+      },
+    },
+  });
+
+  if (translations.length === 0) return [];
+
+  // First snapshot out of DRAFT marks the translator handing the translation in
+  const submitted = await prisma.storyVersion.groupBy({
+    by: ['storyId'],
+    where: {
+      storyId: { in: translations.map((t) => t.id) },
+      stage: { not: 'DRAFT' },
+    },
+    _min: { createdAt: true },
+  });
+  const submittedAt = new Map(submitted.map((s) => [s.storyId, s._min.createdAt]));
+
+  const groups = new Map<string | null, { ratios: number[]; hours: number[]; count: number }>();
+  for (const translation of translations) {
+    const provider = translation.translationDraft?.provider ?? null;
+    const group = groups.get(provider) ?? { ratios: [], hours: [], count: 0 };
+    group.count += 1;
+
+    if (translation.translationDraft) {
+      group.ratios.push(postEditRatio(translation.translationDraft.content, translation.content));
+    }
+
+    const handedIn = submittedAt.get(translation.id);
+    if (handedIn) {
+      group.hours.push((handedIn.getTime() - translation.createdAt.getTime()) / (1000 * 60 * 60));
+    }
+
+    groups.set(provider, group);
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100 : null;
+
+  return Array.from(groups.entries())
+    .map(([provider, group]) => ({
+      provider,
+      translations: group.count,
+      averagePostEditRatio: average(group.ratios),
+      averageTurnaroundHours: average(group.hours),
+    }))
+    // Human-only translations last, as the baseline
+    .sort((a, b) => (a.provider === null ? 1 : b.provider === null ? -1 : a.provider.localeCompare(b.provider)));
+}
@@ -217,6 +217,78 @@ export function generatePasswordResetEmail(name: string, resetToken: string) {
   };
 }
 
+function escapeHtml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function generateBulletinCorrectionEmail(
+  name: string,
+  bulletin: { id: string; title: string },
+  correctionNote: string
+) {
+  return {
+    subject: `Correction: ${bulletin.title}`,
+    type: 'NOTIFICATION' as EmailType,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #1a365d;">Bulletin Corrected</h1>
+
+        <p>Hi ${escapeHtml(name)},</p>
+
+        <p>Your station opened the bulletin <strong>${escapeHtml(bulletin.title)}</strong>, which has since been corrected:</p>
+
+        <div style="background-color: #f7fafc; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p style="margin: 0; white-space: pre-wrap;">${escapeHtml(correctionNote)}</p>
+        </div>
+
+        <p>
+          <a
+            href="${process.env.NEXT_PUBLIC_APP_URL}/radio/bulletins/${bulletin.id}"
+            style="background-color: #3182ce; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;"
+          >
+            View Corrected Bulletin
+          </a>
+        </p>
+
+        <p>Please use the corrected version for any further broadcasts.</p>
+
+        <p>Best regards,<br>The Newskoop Team</p>
+      </div>
+    `,
+  };
+}
+
+export function generateBreakingNewsEmail(
+  name: string,
+  alert: { headline: string; message: string | null; url: string }
+) {
+  return {
+    subject: `BREAKING: ${alert.headline}`,
+    type: 'NOTIFICATION' as EmailType,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #c53030;">Breaking News</h1>
+
+        <p>Hi ${escapeHtml(name)},</p>
+
+        <h2 style="color: #1a365d;">${escapeHtml(alert.headline)}</h2>
+        ${alert.message ? `<p style="white-space: pre-wrap;">${escapeHtml(alert.message)}</p>` : ''}
+
+        <p>
+          <a
+            href="${process.env.NEXT_PUBLIC_APP_URL}${alert.url}"
+            style="background-color: #c53030; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;"
+          >
+            Open in Newskoop
+          </a>
+        </p>
+
+        <p>Best regards,<br>The Newskoop Team</p>
+      </div>
+    `,
+  };
+}
+
 interface SendMagicLinkParams {
   email: string;
   token: string;
@@ -0,0 +1,51 @@
+import { escapeXml, wholeWordPattern } from './text-utils';
+
+export interface GlossaryEntry {
+  term: string;
+  translation: string;
+  notes?: string | null;
+}
+
+function entryLookup(entries: GlossaryEntry[]): Map<string, GlossaryEntry> {
+  return new Map(entries.map(entry => [entry.term.trim().toLowerCase(), entry]));
+}
+
+/**
+ * Glossary entries whose term appears in the text, in order of first appearance.
+ */
+export function findGlossaryMatches(text: string, entries: GlossaryEntry[]): GlossaryEntry[] {
+  const pattern = wholeWordPattern(entries.map(entry => entry.term));
+  if (!pattern) return [];
+
+  const lookup = entryLookup(entries);
+  const found = new Map<string, GlossaryEntry>();
+  for (const match of text.matchAll(pattern)) {
+    const key = match[0].toLowerCase();
+    const entry = lookup.get(key);
+    if (entry && !found.has(key)) found.set(key, entry);
+  }
+  return [...found.values()];
+}
+
+/**
+ * Wrap glossary terms in rich-text (TipTap HTML) content with <mark> tags that
+ * show the approved translation on hover. Only text between tags is touched.
+ */
+export function highlightGlossaryTerms(html: string, entries: GlossaryEntry[]): string {
+  const pattern = wholeWordPattern(entries.map(entry => entry.term));
+  if (!pattern) return html;
+
+  const lookup = entryLookup(entries);
+  return html
+    .split(/(<[^>]*>)/)
+    .map((part) => {
+      if (part.startsWith('<')) return part;
+      return part.replace(pattern, (match) => {
+        const entry = lookup.get(match.toLowerCase());
+        if (!entry) return match;
+        const title = entry.notes ? `${entry.translation} (${entry.notes})` : entry.translation;
+        return `<mark class="glossary-term" title="${escapeXml(title)}">${match}</mark>`;
+      });
+    })
+    .join('');
+}
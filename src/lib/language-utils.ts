@@ -14,6 +14,48 @@ export const LANGUAGE_DISPLAY_NAMES: Record<LanguageCode, string> = {
   ZULU: 'Zulu',
 };
 
+/**
+ * Short codes shown on language badges and toggles
+ */
+export const LANGUAGE_SHORT_CODES: Record<LanguageCode, string> = {
+  ENGLISH: 'EN',
+  AFRIKAANS: 'AF',
+  XHOSA: 'XH',
+  ZULU: 'ZU',
+};
+
+/**
+ * Languages an English story can be translated into
+ */
+export const TRANSLATION_LANGUAGES = ['AFRIKAANS', 'XHOSA', 'ZULU'] as const satisfies readonly LanguageCode[];
+
+export type TranslationLanguageCode = (typeof TRANSLATION_LANGUAGES)[number];
+
+/**
+ * Language classification names a station receives unless it narrows them down
+ */
+export const DEFAULT_STATION_LANGUAGES: string[] = Object.values(LANGUAGE_DISPLAY_NAMES);
+
+/**
+ * Maps a language classification name (e.g. 'Zulu') back to its language code
+ * @param name - The display name used by language classifications
+ * @returns The language code, or null if the name is not a known language
+ */
+export function languageCodeFromName(name: string): LanguageCode | null {
+  const entry = Object.entries(LANGUAGE_DISPLAY_NAMES).find(([, displayName]) => displayName === name);
+  return entry ? (entry[0] as LanguageCode) : null;
+}
+
+/**
+ * Short code for a language classification name, falling back to the name itself
+ * @param name - The display name used by language classifications
+ * @returns The short code (e.g. 'ZU') or the original name
+ */
+export function languageShortCode(name: string): string {
+  const code = languageCodeFromName(name);
+  return code ? LANGUAGE_SHORT_CODES[code] : name;
+}
+
 /**
  * Formats a language code to a readable display name
  * @param languageCode - The technical language code (e.g., 'AFRIKAANS')
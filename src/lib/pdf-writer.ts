@@ -0,0 +1,215 @@
+/**
+ * Minimal PDF writer for text documents (scripts, run sheets) using the
+ * standard Helvetica fonts, so no font files or PDF library are needed.
+ * Text is encoded as WinAnsi, which covers the accented letters used in
+ * Afrikaans and the other Latin-script languages we publish in.
+ */
+
+export type PdfTextStyle = 'title' | 'heading' | 'body' | 'note' | 'meta';
+
+export interface PdfBlock {
+  text: string;
+  style?: PdfTextStyle;
+  // Extra space above the block, in points
+  spaceBefore?: number;
+}
+
+export interface PdfOptions {
+  title?: string;
+  // Printed at the bottom of every page, next to the page number
+  footer?: string;
+}
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+
+const STYLES: Record<PdfTextStyle, { font: 'F1' | 'F2' | 'F3'; size: number; leading: number }> = {
+  title: { font: 'F2', size: 20, leading: 26 },
+  heading: { font: 'F2', size: 14, leading: 20 },
+  // Newsreader copy is set large with generous leading so it reads easily on air
+  body: { font: 'F1', size: 13, leading: 20 },
+  note: { font: 'F3', size: 10, leading: 14 },
+  meta: { font: 'F1', size: 10, leading: 14 },
+};
+
+// Helvetica advance widths (1/1000 em) for characters 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Typographic characters outside Latin-1 mapped to their WinAnsi code points
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '…': 0x85,
+  '€': 0x80,
+};
+
+function winAnsiCode(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 160 && code <= 255) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63; // '?'
+}
+
+function charWidth(char: string, font: 'F1' | 'F2' | 'F3'): number {
+  const code = char.charCodeAt(0);
+  const width = code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  // Helvetica-Bold runs slightly wider; overestimate rather than overflow the margin
+  return font === 'F2' ? width * 1.08 : width;
+}
+
+export function measureText(text: string, font: 'F1' | 'F2' | 'F3', size: number): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char, font);
+  return (width / 1000) * size;
+}
+
+/**
+ * Break text into lines no wider than maxWidth. Words longer than a line are
+ * split across lines.
+ */
+export function wrapText(text: string, font: 'F1' | 'F2' | 'F3', size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    line = '';
+    for (const char of word) {
+      if (line && measureText(line + char, font, size) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+function pdfString(text: string): string {
+  let out = '(';
+  for (const char of text) {
+    const code = winAnsiCode(char);
+    if (char === '(' || char === ')' || char === '\\') out += `\\${char}`;
+    else if (code < 32 || code > 126) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += char;
+  }
+  return `${out})`;
+}
+
+interface PlacedLine {
+  text: string;
+  font: 'F1' | 'F2' | 'F3';
+  size: number;
+  y: number;
+}
+
+function layoutPages(blocks: PdfBlock[]): PlacedLine[][] {
+  const pages: PlacedLine[][] = [[]];
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const bottom = MARGIN + 24; // leave room for the footer
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const block of blocks) {
+    const style = STYLES[block.style ?? 'body'];
+    const lines = wrapText(block.text, style.font, style.size, contentWidth);
+    if (lines.length === 0) continue;
+
+    const atPageTop = pages[pages.length - 1].length === 0;
+    if (!atPageTop) y -= block.spaceBefore ?? 0;
+
+    // Keep headings with at least the first line of what follows
+    const keepTogether = block.style === 'heading' || block.style === 'title' ? style.leading * 3 : style.leading;
+    if (!atPageTop && y - keepTogether < bottom) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+
+    for (const text of lines) {
+      if (y - style.leading < bottom) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= style.leading;
+      pages[pages.length - 1].push({ text, font: style.font, size: style.size, y });
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Render text blocks as an A4 PDF document.
+ */
+export function renderTextPdf(blocks: PdfBlock[], options: PdfOptions = {}): Uint8Array<ArrayBuffer> {
+  const pages = layoutPages(blocks);
+  const objects: string[] = [];
+  const addObject = (body: string) => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = addObject(''); // filled in once the page tree exists
+  const pagesId = addObject('');
+  const fontIds = {
+    F1: addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+    F2: addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'),
+    F3: addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Oblique /Encoding /WinAnsiEncoding >>'),
+  };
+  const fontResources = Object.entries(fontIds).map(([name, id]) => `/${name} ${id} 0 R`).join(' ');
+
+  const pageIds = pages.map((lines, index) => {
+    const footer = [options.footer, `Page ${index + 1} of ${pages.length}`].filter(Boolean).join('  |  ');
+    const commands = [
+      ...lines.map(line => `BT /${line.font} ${line.size} Tf ${MARGIN} ${line.y.toFixed(2)} Td ${pdfString(line.text)} Tj ET`),
+      `BT /F1 8 Tf ${MARGIN} ${MARGIN - 8} Td ${pdfString(footer)} Tj ET`,
+    ].join('\n');
+
+    const contentId = addObject(`<< /Length ${commands.length} >>\nstream\n${commands}\nendstream`);
+    return addObject(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  const infoId = addObject(`<< /Title ${pdfString(options.title ?? '')} /Producer (Newskoop) >>`);
+
+  // Every string above is plain ASCII (non-ASCII text is octal-escaped), so
+  // string length equals byte length for the cross-reference offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(pdf);
+}
@@ -1,4 +1,5 @@
 import { StaffRole, StoryStatus, StoryStage } from '@prisma/client';
+import { DEFAULT_WORKFLOW, canMoveStory, getAvailableTransitions, type WorkflowDefinition } from './workflow';
 
 export type PermissionAction = 'create' | 'read' | 'update' | 'delete';
 
@@ -104,6 +105,10 @@ export function hasStoryPermission(userRole: StaffRole | null, action: Permissio
   return storyPermissions[userRole]?.actions.includes(action) || false;
 }
 
+/**
+ * @deprecated Legacy status matrix; the status route now checks stages with
+ * canUpdateStoryStage. Kept until the status column is dropped.
+ */
 export function canUpdateStoryStatus(userRole: StaffRole | null, currentStatus: StoryStatus, newStatus: StoryStatus): boolean {
   if (!userRole) return false;
   const permissions = storyPermissions[userRole];
@@ -196,6 +201,9 @@ export function canPublishStory(userRole: StaffRole | null): boolean {
   return storyPermissions[userRole]?.canPublish || false;
 }
 
+/**
+ * @deprecated Legacy status matrix; use getNextStageAction for stage-based actions.
+ */
 export function getAvailableStatusTransitions(userRole: StaffRole | null, currentStatus: StoryStatus): StoryStatus[] {
   if (!userRole) return [];
   const permissions = storyPermissions[userRole];
@@ -412,12 +420,13 @@ export function canRequestRevision(
 }
 
 /**
- * Get the next stage action for a story based on author role
+ * Get the next stage action for a story from its workflow definition
  */
 export function getNextStageAction(
   authorRole: StaffRole | null,
   currentStage: StoryStage | null,
-  userRole: StaffRole | null
+  userRole: StaffRole | null,
+  workflow: WorkflowDefinition = DEFAULT_WORKFLOW
 ): {
   action: string;
   label: string;
@@ -426,78 +435,15 @@ export function getNextStageAction(
 } | null {
   if (!authorRole || !currentStage || !userRole) return null;
 
-  // INTERN story path
-  if (authorRole === 'INTERN') {
-    if (currentStage === 'DRAFT') {
-      return {
-        action: 'submit_for_review',
-        label: 'Submit for Review',
-        requiresAssignment: true,
-        assignmentRole: ['JOURNALIST'],
-      };
-    }
-    if (currentStage === 'NEEDS_JOURNALIST_REVIEW' && canReviewStory(userRole)) {
-      return {
-        action: 'send_for_approval',
-        label: 'Send for Approval',
-        requiresAssignment: true,
-        assignmentRole: ['SUB_EDITOR', 'EDITOR'],
-      };
-    }
-  }
-
-  // JOURNALIST story path
-  if (authorRole === 'JOURNALIST') {
-    if (currentStage === 'DRAFT') {
-      return {
-        action: 'submit_for_approval',
-        label: 'Submit for Approval',
-        requiresAssignment: true,
-        assignmentRole: ['SUB_EDITOR', 'EDITOR'],
-      };
-    }
-  }
-
-  // SUB_EDITOR/EDITOR story path (can self-approve)
-  if (['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(authorRole)) {
-    if (currentStage === 'DRAFT' && canApproveStoryStage(userRole)) {
-      return {
-        action: 'approve_story',
-        label: 'Approve Story',
-        requiresAssignment: false,
-      };
-    }
-  }
-
-  // Approval stage
-  if (currentStage === 'NEEDS_SUB_EDITOR_APPROVAL' && canApproveStoryStage(userRole)) {
-    return {
-      action: 'approve_story',
-      label: 'Approve Story',
-      requiresAssignment: false,
-    };
-  }
-
-  // Translation stage
-  if (currentStage === 'APPROVED' && canSendForTranslation(userRole)) {
-    return {
-      action: 'send_for_translation',
-      label: 'Send for Translation',
-      requiresAssignment: true,
-      assignmentRole: ['JOURNALIST', 'SUB_EDITOR', 'EDITOR'],
-    };
-  }
-
-  // Publishing stage
-  if (currentStage === 'TRANSLATED' && canPublishStory(userRole)) {
-    return {
-      action: 'publish_story',
-      label: 'Publish Story',
-      requiresAssignment: false,
-    };
-  }
+  const [transition] = getAvailableTransitions(workflow, currentStage, authorRole, userRole);
+  if (!transition) return null;
 
-  return null;
+  return {
+    action: transition.action,
+    label: transition.label,
+    requiresAssignment: transition.assignmentRoles.length > 0,
+    assignmentRole: transition.assignmentRoles.length > 0 ? transition.assignmentRoles : undefined,
+  };
 }
 
 /**
@@ -528,69 +474,48 @@ export function getStageLockReason(stage: StoryStage | null, userRole?: StaffRol
 }
 
 /**
- * Check if user can transition from one stage to another
+ * Check if user can transition from one stage to another under a workflow
  */
 export function canUpdateStoryStage(
   userRole: StaffRole | null,
   currentStage: StoryStage | null,
-  targetStage: StoryStage | null
+  targetStage: StoryStage | null,
+  workflow: WorkflowDefinition = DEFAULT_WORKFLOW
 ): boolean {
-  if (!userRole || !currentStage || !targetStage) return false;
-
-  // Define allowed stage transitions by role
-  const stageTransitions: Record<StaffRole, Record<StoryStage, StoryStage[]>> = {
-    INTERN: {
-      DRAFT: ['NEEDS_JOURNALIST_REVIEW'],
-      NEEDS_JOURNALIST_REVIEW: [],
-      NEEDS_SUB_EDITOR_APPROVAL: [],
-      APPROVED: [],
-      TRANSLATED: [],
-      PUBLISHED: [],
-    },
-    JOURNALIST: {
-      DRAFT: ['NEEDS_SUB_EDITOR_APPROVAL'],
-      NEEDS_JOURNALIST_REVIEW: ['NEEDS_SUB_EDITOR_APPROVAL', 'DRAFT'], // Can approve or send back
-      NEEDS_SUB_EDITOR_APPROVAL: [],
-      APPROVED: [],
-      TRANSLATED: [],
-      PUBLISHED: [],
-    },
-    SUB_EDITOR: {
-      DRAFT: ['NEEDS_JOURNALIST_REVIEW', 'NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED'],
-      NEEDS_JOURNALIST_REVIEW: ['NEEDS_SUB_EDITOR_APPROVAL', 'DRAFT'],
-      NEEDS_SUB_EDITOR_APPROVAL: ['APPROVED', 'DRAFT'],
-      APPROVED: ['TRANSLATED', 'DRAFT'], // Can send for translation or send back
-      TRANSLATED: ['PUBLISHED', 'APPROVED'], // Can publish or send back
-      PUBLISHED: [],
-    },
-    EDITOR: {
-      DRAFT: ['NEEDS_JOURNALIST_REVIEW', 'NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED', 'TRANSLATED', 'PUBLISHED'],
-      NEEDS_JOURNALIST_REVIEW: ['NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED', 'DRAFT'],
-      NEEDS_SUB_EDITOR_APPROVAL: ['APPROVED', 'DRAFT'],
-      APPROVED: ['TRANSLATED', 'DRAFT'],
-      TRANSLATED: ['PUBLISHED', 'APPROVED'],
-      PUBLISHED: ['DRAFT'], // Can unpublish
-    },
-    ADMIN: {
-      DRAFT: Object.values(StoryStage).filter(s => s !== 'DRAFT'),
-      NEEDS_JOURNALIST_REVIEW: Object.values(StoryStage).filter(s => s !== 'NEEDS_JOURNALIST_REVIEW'),
-      NEEDS_SUB_EDITOR_APPROVAL: Object.values(StoryStage).filter(s => s !== 'NEEDS_SUB_EDITOR_APPROVAL'),
-      APPROVED: Object.values(StoryStage).filter(s => s !== 'APPROVED'),
-      TRANSLATED: Object.values(StoryStage).filter(s => s !== 'TRANSLATED'),
-      PUBLISHED: Object.values(StoryStage).filter(s => s !== 'PUBLISHED'),
-    },
-    SUPERADMIN: {
-      DRAFT: Object.values(StoryStage).filter(s => s !== 'DRAFT'),
-      NEEDS_JOURNALIST_REVIEW: Object.values(StoryStage).filter(s => s !== 'NEEDS_JOURNALIST_REVIEW'),
-      NEEDS_SUB_EDITOR_APPROVAL: Object.values(StoryStage).filter(s => s !== 'NEEDS_SUB_EDITOR_APPROVAL'),
-      APPROVED: Object.values(StoryStage).filter(s => s !== 'APPROVED'),
-      TRANSLATED: Object.values(StoryStage).filter(s => s !== 'TRANSLATED'),
-      PUBLISHED: Object.values(StoryStage).filter(s => s !== 'PUBLISHED'),
-    },
-  };
+  return canMoveStory(workflow, userRole, currentStage, targetStage);
+}
+
+/**
+ * Check if user can define editorial workflows (admins only)
+ */
+export function canManageWorkflows(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['ADMIN', 'SUPERADMIN'].includes(userRole);
+}
+
+/**
+ * Check if user can maintain the translation glossary (admins only)
+ */
+export function canManageGlossary(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['ADMIN', 'SUPERADMIN'].includes(userRole);
+}
+
+/**
+ * Check if user can add to and edit the pronunciation dictionary
+ * SUB_EDITOR and above
+ */
+export function canManagePronunciations(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole);
+}
 
-  const allowedTransitions = stageTransitions[userRole]?.[currentStage] || [];
-  return allowedTransitions.includes(targetStage);
+/**
+ * Check if user can declare ad-hoc public holidays (admins only)
+ */
+export function canManagePublicHolidays(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['ADMIN', 'SUPERADMIN'].includes(userRole);
 }
 
 // ============================================================================
@@ -738,4 +663,39 @@ export function canDeletePodcast(userRole: StaffRole | null, isContentProducer?:
 export function canFlagStoryForBulletin(userRole: StaffRole | null): boolean {
   if (!userRole) return false;
   return ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole);
-}
\ No newline at end of file
+}
+/**
+ * Check if user can change bulletin settings such as newsreader speeds
+ * EDITOR and above, matching who can manage bulletin schedules
+ */
+export function canConfigureBulletins(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole);
+}
+
+/**
+ * Check if user can push breaking news alerts to radio stations
+ * EDITOR and above, matching who can publish bulletins
+ */
+export function canSendBreakingNews(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole);
+}
+
+/**
+ * Check if user can embargo content or make it exclusive to some stations
+ * SUB_EDITOR and above, matching who can flag stories for bulletins
+ */
+export function canSetReleaseWindow(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole);
+}
+
+/**
+ * Check if user can create, rename and remove audio library collections
+ * SUB_EDITOR and above, matching who can edit any clip's library details
+ */
+export function canManageAudioCollections(userRole: StaffRole | null): boolean {
+  if (!userRole) return false;
+  return ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'].includes(userRole);
+}
@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { htmlToPlainText } from './text-diff';
+import { escapeXml } from './text-utils';
+
+export interface FeedChannel {
+  title: string;
+  description: string | null;
+  // Page for the programme on the radio site
+  link: string;
+  // Feed address without the token, which identifies the feed for podcast:guid
+  feedUrl: string;
+  imageUrl: string | null;
+  language: string;
+  category: string | null;
+  author: string;
+  updatedAt: Date;
+}
+
+export interface FeedEpisode {
+  id: string;
+  title: string;
+  description: string | null;
+  content: string | null;
+  episodeNumber: number;
+  publishedAt: Date | null;
+  coverImage: string | null;
+  duration: number | null;
+  audioClips: Array<{
+    url: string;
+    mimeType: string;
+    fileSize: number | null;
+    duration: number | null;
+  }>;
+}
+
+const FEED_LANGUAGES: Record<string, string> = {
+  English: 'en-za',
+  Afrikaans: 'af-za',
+  Xhosa: 'xh-za',
+  Zulu: 'zu-za',
+};
+
+// Namespace for podcast:guid, from the Podcasting 2.0 spec
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * RSS language code for a programme's language classifications, falling
+ * back to South African English.
+ */
+export function feedLanguage(languages: string[]): string {
+  for (const language of languages) {
+    if (FEED_LANGUAGES[language]) return FEED_LANGUAGES[language];
+  }
+  return FEED_LANGUAGES.English;
+}
+
+/**
+ * podcast:guid for a feed: a UUIDv5 of its address without the scheme or
+ * trailing slashes, so it stays the same wherever the feed is fetched from.
+ */
+export function podcastGuid(feedUrl: string): string {
+  const name = feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, '');
+  const namespace = Buffer.from(PODCAST_GUID_NAMESPACE.replace(/-/g, ''), 'hex');
+  const hash = createHash('sha1').update(namespace).update(name).digest();
+
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function renderItem(channel: FeedChannel, episode: FeedEpisode): string | null {
+  // Podcast apps ignore items without audio
+  const [audio] = episode.audioClips;
+  if (!audio) return null;
+
+  const duration = episode.duration ?? episode.audioClips.reduce((sum, clip) => sum + (clip.duration ?? 0), 0);
+  const summary = episode.description || (episode.content ? htmlToPlainText(episode.content) : '');
+
+  const lines = [
+    '    <item>',
+    `      <title>${escapeXml(episode.title)}</title>`,
+    `      <guid isPermaLink="false">${escapeXml(episode.id)}</guid>`,
+    `      <link>${escapeXml(channel.link)}</link>`,
+    episode.publishedAt ? `      <pubDate>${episode.publishedAt.toUTCString()}</pubDate>` : null,
+    `      <description>${cdata(summary)}</description>`,
+    episode.content ? `      <content:encoded>${cdata(episode.content)}</content:encoded>` : null,
+    `      <enclosure url="${escapeXml(audio.url)}" length="${audio.fileSize ?? 0}" type="${escapeXml(audio.mimeType)}"/>`,
+    duration > 0 ? `      <itunes:duration>${duration}</itunes:duration>` : null,
+    `      <itunes:episode>${episode.episodeNumber}</itunes:episode>`,
+    '      <itunes:episodeType>full</itunes:episodeType>',
+    '      <itunes:explicit>false</itunes:explicit>',
+    episode.coverImage ? `      <itunes:image href="${escapeXml(episode.coverImage)}"/>` : null,
+    `      <podcast:episode>${episode.episodeNumber}</podcast:episode>`,
+    '    </item>',
+  ];
+
+  return lines.filter((line): line is string => line !== null).join('\n');
+}
+
+/**
+ * RSS 2.0 feed for a podcast or show, with iTunes and Podcasting 2.0 tags.
+ * Episodes are listed in the order given; those without audio are left out.
+ */
+export function buildPodcastFeed(channel: FeedChannel, episodes: FeedEpisode[]): string {
+  const items = episodes
+    .map(episode => renderItem(channel, episode))
+    .filter((item): item is string => item !== null);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.link)}</link>`,
+    `    <description>${cdata(channel.description ?? channel.title)}</description>`,
+    `    <language>${channel.language}</language>`,
+    `    <lastBuildDate>${channel.updatedAt.toUTCString()}</lastBuildDate>`,
+    `    <itunes:author>${escapeXml(channel.author)}</itunes:author>`,
+    `    <itunes:summary>${cdata(channel.description ?? channel.title)}</itunes:summary>`,
+    channel.imageUrl ? `    <itunes:image href="${escapeXml(channel.imageUrl)}"/>` : null,
+    channel.imageUrl
+      ? `    <image><url>${escapeXml(channel.imageUrl)}</url><title>${escapeXml(channel.title)}</title><link>${escapeXml(channel.link)}</link></image>`
+      : null,
+    channel.category ? `    <itunes:category text="${escapeXml(channel.category)}"/>` : null,
+    '    <itunes:explicit>false</itunes:explicit>',
+    '    <itunes:type>episodic</itunes:type>',
+    // Private feed: directories must not list it
+    '    <itunes:block>Yes</itunes:block>',
+    '    <podcast:locked>yes</podcast:locked>',
+    `    <podcast:guid>${podcastGuid(channel.feedUrl)}</podcast:guid>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+  ];
+
+  return lines.filter((line): line is string => line !== null).join('\n') + '\n';
+}
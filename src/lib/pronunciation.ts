@@ -0,0 +1,79 @@
+import { htmlToPlainText } from './text-diff';
+import { wholeWordPattern } from './text-utils';
+
+export interface PronunciationGuide {
+  term: string;
+  guide: string;
+}
+
+// Rich text marks a name as <span data-pronunciation="guide">term</span>
+const NOTE_PATTERN = /<span\b([^>]*)\bdata-pronunciation="([^"]*)"([^>]*)>(.*?)<\/span>/gi;
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Dictionary entries whose term appears in the text but has not been marked
+ * up with a pronunciation note yet, in order of first appearance. Matching is
+ * whole-word and case-insensitive, longest term first.
+ */
+export function findPronunciationSuggestions<T extends PronunciationGuide>(html: string, entries: T[]): T[] {
+  const pattern = wholeWordPattern(entries.map(entry => entry.term));
+  if (!pattern) return [];
+
+  const lookup = new Map(entries.map(entry => [entry.term.trim().toLowerCase(), entry]));
+
+  // Only bare text counts: drop notes already in place, then the tags
+  const text = decodeEntities(html.replace(NOTE_PATTERN, ' ').replace(/<[^>]*>/g, ' '));
+
+  const found = new Map<string, T>();
+  for (const match of text.matchAll(pattern)) {
+    const key = match[0].toLowerCase();
+    const entry = lookup.get(key);
+    if (entry && !found.has(key)) found.set(key, entry);
+  }
+  return [...found.values()];
+}
+
+/**
+ * Pronunciation notes marked up in rich text, one per distinct term.
+ */
+export function extractPronunciationNotes(html: string | null): PronunciationGuide[] {
+  if (!html) return [];
+  const notes = new Map<string, PronunciationGuide>();
+  for (const match of html.matchAll(NOTE_PATTERN)) {
+    const term = htmlToPlainText(match[4]);
+    const guide = htmlToPlainText(match[2]);
+    if (term && guide && !notes.has(term.toLowerCase())) notes.set(term.toLowerCase(), { term, guide });
+  }
+  return [...notes.values()];
+}
+
+/**
+ * Give every pronunciation note in rich text a hover hint, for readers of
+ * the published copy.
+ */
+export function addPronunciationHints(html: string): string {
+  return html.replace(
+    NOTE_PATTERN,
+    (_match, _before, guide: string, _after, term: string) =>
+      `<span data-pronunciation="${guide}" class="pronunciation-hint" title="Say: ${guide}">${term}</span>`
+  );
+}
+
+/**
+ * Write each pronunciation note into the copy after its term, as
+ * "Gqeberha [geh-BEH-ha]", for scripts a newsreader reads from.
+ */
+export function inlinePronunciations(html: string): string {
+  return html.replace(NOTE_PATTERN, (_match, _before, guide: string, _after, term: string) =>
+    guide.trim() ? `${term} [${guide.trim()}]` : term
+  );
+}
@@ -0,0 +1,119 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+export type PublicHolidaySource = 'STATUTORY' | 'CUSTOM';
+
+export interface PublicHolidayEntry {
+  // Calendar date, "YYYY-MM-DD"
+  date: string;
+  name: string;
+  source: PublicHolidaySource;
+  // Set for admin-added days only
+  id?: string;
+}
+
+// Fixed-date holidays under the Public Holidays Act (Act 36 of 1994)
+const FIXED_HOLIDAYS: { month: number; day: number; name: string }[] = [
+  { month: 1, day: 1, name: "New Year's Day" },
+  { month: 3, day: 21, name: 'Human Rights Day' },
+  { month: 4, day: 27, name: 'Freedom Day' },
+  { month: 5, day: 1, name: "Workers' Day" },
+  { month: 6, day: 16, name: 'Youth Day' },
+  { month: 8, day: 9, name: "National Women's Day" },
+  { month: 9, day: 24, name: 'Heritage Day' },
+  { month: 12, day: 16, name: 'Day of Reconciliation' },
+  { month: 12, day: 25, name: 'Christmas Day' },
+  { month: 12, day: 26, name: 'Day of Goodwill' },
+];
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm), at UTC midnight.
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * South Africa's statutory public holidays for a year, sorted by date.
+ * A holiday falling on a Sunday makes the following Monday a public holiday,
+ * unless that Monday is a holiday already (e.g. Christmas on a Sunday).
+ */
+export function statutoryHolidays(year: number): PublicHolidayEntry[] {
+  const easter = easterSunday(year);
+  const holidays = [
+    ...FIXED_HOLIDAYS.map(({ month, day, name }) => ({ date: new Date(Date.UTC(year, month - 1, day)), name })),
+    { date: addDays(easter, -2), name: 'Good Friday' },
+    { date: addDays(easter, 1), name: 'Family Day' },
+  ];
+
+  const taken = new Set(holidays.map(holiday => toDateString(holiday.date)));
+  const substitutes = holidays
+    .filter(holiday => holiday.date.getUTCDay() === 0)
+    .map(holiday => ({ date: addDays(holiday.date, 1), name: `${holiday.name} (observed)` }))
+    .filter(holiday => !taken.has(toDateString(holiday.date)));
+
+  return [...holidays, ...substitutes]
+    .map(({ date, name }): PublicHolidayEntry => ({ date: toDateString(date), name, source: 'STATUTORY' }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Statutory holidays plus the days admins added for a year, sorted by date.
+ */
+export async function getPublicHolidays(
+  year: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<PublicHolidayEntry[]> {
+  const custom = await client.publicHoliday.findMany({
+    where: { date: { gte: new Date(Date.UTC(year, 0, 1)), lt: new Date(Date.UTC(year + 1, 0, 1)) } },
+    orderBy: { date: 'asc' },
+  });
+
+  return [
+    ...statutoryHolidays(year),
+    ...custom.map(
+      (holiday): PublicHolidayEntry => ({
+        id: holiday.id,
+        date: toDateString(holiday.date),
+        name: holiday.name,
+        source: 'CUSTOM',
+      })
+    ),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * The public holiday on a calendar date ("YYYY-MM-DD"), if any.
+ */
+export async function findPublicHoliday(
+  date: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<PublicHolidayEntry | null> {
+  const statutory = statutoryHolidays(Number(date.slice(0, 4))).find(holiday => holiday.date === date);
+  if (statutory) return statutory;
+
+  const custom = await client.publicHoliday.findUnique({ where: { date: new Date(`${date}T00:00:00Z`) } });
+  return custom ? { id: custom.id, date, name: custom.name, source: 'CUSTOM' } : null;
+}
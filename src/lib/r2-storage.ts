@@ -1,6 +1,18 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
+import type { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
-import { parseBuffer } from 'music-metadata';
+import { parseStream } from 'music-metadata';
 
 // Initialize R2 client
 const R2 = new S3Client({
@@ -15,63 +27,71 @@ const R2 = new S3Client({
 const BUCKET_NAME = process.env.R2_BUCKET_NAME || '';
 const PUBLIC_URL = process.env.R2_PUBLIC_URL || '';
 
-export interface BlobFile {
-  url: string;
-  pathname: string;
-  size: number;
-  uploadedAt: Date;
-  originalFilename: string;
-  format: string;
-  duration?: number;
+/**
+ * Delete audio file from R2
+ */
+export async function deleteAudioFile(url: string): Promise<void> {
+  try {
+    // Extract the key from the URL
+    const key = url.replace(`${PUBLIC_URL}/`, '');
+
+    await R2.send(new DeleteObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+    }));
+  } catch (error) {
+    console.error('R2 delete error:', error);
+    throw new Error(`Failed to delete file from R2: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
 }
 
 /**
- * Upload audio file to Cloudflare R2
+ * Delete every stored file for an audio clip: the file it serves and, once
+ * processed, the original upload
  */
-export async function uploadAudioFile(
-  file: File,
-  folder: string = 'newsroom/audio'
-): Promise<BlobFile> {
+export async function deleteAudioClipFiles(clip: { url: string; originalUrl?: string | null }): Promise<void> {
+  await deleteAudioFile(clip.url);
+  if (clip.originalUrl && clip.originalUrl !== clip.url) {
+    await deleteAudioFile(clip.originalUrl);
+  }
+}
+
+/**
+ * Download a stored audio file from R2
+ */
+export async function downloadAudioFile(url: string): Promise<Buffer> {
   try {
-    // Generate a unique filename with folder structure
-    const timestamp = Date.now();
-    const fileExtension = file.name.split('.').pop();
-    const sanitizedName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
-    const pathname = `${folder}/${timestamp}-${sanitizedName}`;
-
-    // Convert File to Buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // Extract audio duration from buffer
-    let duration: number | undefined;
-    try {
-      const metadata = await parseBuffer(new Uint8Array(buffer), { mimeType: file.type });
-      duration = metadata.format.duration ? Math.round(metadata.format.duration) : undefined;
-    } catch {
-      // Non-fatal: some formats may not have parseable duration
+    const key = url.replace(`${PUBLIC_URL}/`, '');
+
+    const response = await R2.send(new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+    }));
+
+    if (!response.Body) {
+      throw new Error('Empty response body');
     }
 
-    // Upload to R2
+    return Buffer.from(await response.Body.transformToByteArray());
+  } catch (error) {
+    console.error('R2 download error:', error);
+    throw new Error(`Failed to download file from R2: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Store a generated audio file (e.g. a processed rendition) at a known key
+ */
+export async function putAudioFile(key: string, body: Buffer, contentType: string): Promise<string> {
+  try {
     await R2.send(new PutObjectCommand({
       Bucket: BUCKET_NAME,
-      Key: pathname,
-      Body: buffer,
-      ContentType: file.type,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
     }));
 
-    // Construct the public URL
-    const url = `${PUBLIC_URL}/${pathname}`;
-
-    return {
-      url,
-      pathname,
-      size: file.size,
-      uploadedAt: new Date(),
-      originalFilename: file.name,
-      format: fileExtension || 'unknown',
-      duration,
-    };
+    return `${PUBLIC_URL}/${key}`;
   } catch (error) {
     console.error('R2 upload error:', error);
     throw new Error(`Failed to upload file to R2: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -79,20 +99,17 @@ export async function uploadAudioFile(
 }
 
 /**
- * Delete audio file from R2
+ * Public URL of a stored file, or null if nothing is stored at the key
  */
-export async function deleteAudioFile(url: string): Promise<void> {
+export async function findAudioFile(key: string): Promise<string | null> {
   try {
-    // Extract the key from the URL
-    const key = url.replace(`${PUBLIC_URL}/`, '');
-
-    await R2.send(new DeleteObjectCommand({
+    await R2.send(new HeadObjectCommand({
       Bucket: BUCKET_NAME,
       Key: key,
     }));
-  } catch (error) {
-    console.error('R2 delete error:', error);
-    throw new Error(`Failed to delete file from R2: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return `${PUBLIC_URL}/${key}`;
+  } catch {
+    return null;
   }
 }
 
@@ -130,52 +147,150 @@ export const ALLOWED_AUDIO_TYPES = [
   'audio/webm',    // WebM
 ];
 
-export const MAX_AUDIO_SIZE = 100 * 1024 * 1024; // 100MB
+// Uploads go straight from the browser to R2, so this is bounded by what
+// processing can hold in a function's temporary storage, not by request limits
+export const MAX_AUDIO_SIZE = 250 * 1024 * 1024; // 250MB
 
 /**
- * Generate a presigned PUT URL for direct client-to-R2 upload.
- * Returns the presigned URL and the key/public URL to store in the DB.
+ * Storage key for a new upload
  */
-export async function createPresignedUpload(
-  filename: string,
-  contentType: string,
-  folder: string = 'newsroom/audio',
-): Promise<{ presignedUrl: string; key: string; publicUrl: string }> {
-  const timestamp = Date.now();
+export function audioUploadKey(filename: string, folder: string = 'newsroom/audio'): string {
   const sanitizedName = filename.replace(/[^a-zA-Z0-9.-]/g, '_');
-  const key = `${folder}/${timestamp}-${sanitizedName}`;
+  return `${folder}/${Date.now()}-${sanitizedName}`;
+}
 
-  const command = new PutObjectCommand({
+/**
+ * Start a multipart upload; returns R2's id for it
+ */
+export async function createMultipartUpload(key: string, contentType: string): Promise<string> {
+  const response = await R2.send(new CreateMultipartUploadCommand({
     Bucket: BUCKET_NAME,
     Key: key,
     ContentType: contentType,
+  }));
+
+  if (!response.UploadId) {
+    throw new Error('R2 did not return an upload id');
+  }
+  return response.UploadId;
+}
+
+/**
+ * Presigned PUT URL for one part of a multipart upload
+ */
+export async function presignUploadPart(key: string, uploadId: string, partNumber: number): Promise<string> {
+  const command = new UploadPartCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    UploadId: uploadId,
+    PartNumber: partNumber,
   });
 
-  const presignedUrl = await getSignedUrl(R2, command, { expiresIn: 600 }); // 10 min
-  const publicUrl = `${PUBLIC_URL}/${key}`;
+  return getSignedUrl(R2, command, { expiresIn: 3600 }); // 1 hour
+}
+
+/**
+ * Parts R2 has received so far for a multipart upload
+ */
+export async function listUploadedParts(
+  key: string,
+  uploadId: string
+): Promise<Array<{ partNumber: number; etag: string; size: number }>> {
+  const parts: Array<{ partNumber: number; etag: string; size: number }> = [];
+  let marker: string | undefined;
 
-  return { presignedUrl, key, publicUrl };
+  do {
+    const response = await R2.send(new ListPartsCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      UploadId: uploadId,
+      PartNumberMarker: marker,
+    }));
+
+    for (const part of response.Parts ?? []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+      }
+    }
+    marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (marker);
+
+  return parts;
 }
 
 /**
- * Validate audio file before upload
+ * Join the received parts into the stored file; returns its public URL
  */
-export function validateAudioFile(file: File): { valid: boolean; error?: string } {
-  const allowedTypes = ALLOWED_AUDIO_TYPES;
+export async function completeMultipartUpload(
+  key: string,
+  uploadId: string,
+  parts: Array<{ partNumber: number; etag: string }>
+): Promise<string> {
+  await R2.send(new CompleteMultipartUploadCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    UploadId: uploadId,
+    MultipartUpload: {
+      Parts: parts.map(part => ({ PartNumber: part.partNumber, ETag: part.etag })),
+    },
+  }));
+
+  return `${PUBLIC_URL}/${key}`;
+}
+
+/**
+ * Discard a multipart upload and any parts already received
+ */
+export async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+  await R2.send(new AbortMultipartUploadCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+    UploadId: uploadId,
+  }));
+}
+
+// How much of an upload is read to find its length
+const DURATION_READ_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Duration in whole seconds of a stored audio file, read from the first few
+ * MB streamed from R2 so finalising an upload stays quick whatever its size.
+ * Undefined when the format doesn't say there, e.g. Ogg, which only gives
+ * its length at the end; processing measures those clips later.
+ */
+export async function readAudioDuration(key: string, mimeType: string, size: number): Promise<number | undefined> {
+  try {
+    const response = await R2.send(new GetObjectCommand({
+      Bucket: BUCKET_NAME,
+      Key: key,
+      Range: `bytes=0-${DURATION_READ_BYTES - 1}`,
+    }));
 
-  const maxSize = MAX_AUDIO_SIZE;
+    if (!response.Body) return undefined;
 
-  if (!allowedTypes.includes(file.type)) {
+    const metadata = await parseStream(response.Body as Readable, { mimeType, size });
+    return metadata.format.duration ? Math.round(metadata.format.duration) : undefined;
+  } catch {
+    // Non-fatal: some formats may not have parseable duration
+    return undefined;
+  }
+}
+
+/**
+ * Validate an audio file before starting its upload
+ */
+export function validateAudioUpload(file: { mimeType: string; fileSize: number }): { valid: boolean; error?: string } {
+  if (!ALLOWED_AUDIO_TYPES.includes(file.mimeType)) {
     return {
       valid: false,
-      error: `Invalid file type: ${file.type}. Only MP3, WAV, OGG, M4A, AAC, and WebM files are allowed.`,
+      error: `Invalid file type: ${file.mimeType}. Only MP3, WAV, OGG, M4A, AAC, and WebM files are allowed.`,
     };
   }
 
-  if (file.size > maxSize) {
+  if (file.fileSize > MAX_AUDIO_SIZE) {
     return {
       valid: false,
-      error: `File too large: ${file.name}. Maximum size is 100MB.`,
+      error: `File too large. Maximum size is ${MAX_AUDIO_SIZE / (1024 * 1024)}MB.`,
     };
   }
 
@@ -0,0 +1,29 @@
+import type { Prisma, StoryLanguage } from '@prisma/client';
+import { prisma } from './prisma';
+import { DEFAULT_READING_SPEEDS, type ReadingSpeeds } from './bulletin-duration';
+
+/**
+ * Configured words per minute for every language, falling back to the defaults.
+ */
+export async function getReadingSpeeds(client: Prisma.TransactionClient = prisma): Promise<ReadingSpeeds> {
+  const rows = await client.readingSpeed.findMany();
+  return rows.reduce<ReadingSpeeds>(
+    (speeds, row) => ({ ...speeds, [row.language]: row.wordsPerMinute }),
+    { ...DEFAULT_READING_SPEEDS }
+  );
+}
+
+export async function saveReadingSpeeds(
+  speeds: Partial<ReadingSpeeds>,
+  client: Prisma.TransactionClient = prisma
+): Promise<ReadingSpeeds> {
+  for (const [language, wordsPerMinute] of Object.entries(speeds)) {
+    if (wordsPerMinute === undefined) continue;
+    await client.readingSpeed.upsert({
+      where: { language: language as StoryLanguage },
+      create: { language: language as StoryLanguage, wordsPerMinute },
+      update: { wordsPerMinute },
+    });
+  }
+  return getReadingSpeeds(client);
+}
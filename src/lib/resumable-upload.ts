@@ -0,0 +1,230 @@
+// Browser side of direct-to-R2 audio uploads. Files are sent to R2 in parts
+// over presigned URLs; each part is retried on its own, and an unfinished
+// upload is picked up where it left off if the same file is chosen again.
+
+export type AudioUploadFolder = 'newsroom/audio' | 'newsroom/shows/audio' | 'newsroom/podcasts/audio';
+
+// R2 needs every part but the last to be the same size, and at least 5MB
+export const AUDIO_UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+export const MAX_PART_ATTEMPTS = 5;
+
+// Parts sent at once
+const PART_CONCURRENCY = 3;
+
+const RESUME_STORAGE_PREFIX = 'audio-upload:';
+
+export interface UploadProgress {
+  uploadedBytes: number;
+  totalBytes: number;
+}
+
+interface UploadSession {
+  id: string;
+  partSize: number;
+  parts: number[];
+}
+
+export function partCount(fileSize: number, partSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / partSize));
+}
+
+/**
+ * Bytes of a file that make up the given part (1-based)
+ */
+export function partRange(partNumber: number, fileSize: number, partSize: number): { start: number; end: number } {
+  const start = (partNumber - 1) * partSize;
+  return { start, end: Math.min(start + partSize, fileSize) };
+}
+
+/**
+ * Part numbers R2 has not yet received
+ */
+export function missingParts(total: number, received: number[]): number[] {
+  const done = new Set(received);
+  const missing: number[] = [];
+  for (let part = 1; part <= total; part++) {
+    if (!done.has(part)) missing.push(part);
+  }
+  return missing;
+}
+
+/**
+ * Whole-number percentage for progress labels
+ */
+export function uploadPercent(progress: UploadProgress): number {
+  if (progress.totalBytes === 0) return 100;
+  return Math.floor((progress.uploadedBytes / progress.totalBytes) * 100);
+}
+
+/**
+ * Wait before retrying a part: 1s, 2s, 4s... up to 30s
+ */
+export function retryDelay(attempt: number): number {
+  return Math.min(30_000, 1000 * 2 ** (attempt - 1));
+}
+
+function resumeKey(file: File): string {
+  return `${RESUME_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const error = await response.json().catch(() => ({ error: fallback }));
+  return error.error || fallback;
+}
+
+// The unfinished upload for this file, if there is one we can still add to
+async function resumeSession(file: File): Promise<UploadSession | null> {
+  const id = window.localStorage.getItem(resumeKey(file));
+  if (!id) return null;
+
+  const response = await fetch(`/api/newsroom/uploads/${id}`);
+  if (!response.ok) {
+    window.localStorage.removeItem(resumeKey(file));
+    return null;
+  }
+
+  const { upload } = await response.json();
+  if (upload.status !== 'UPLOADING') {
+    window.localStorage.removeItem(resumeKey(file));
+    return null;
+  }
+  return { id: upload.id, partSize: upload.partSize, parts: upload.parts };
+}
+
+async function startSession(file: File, folder: AudioUploadFolder): Promise<UploadSession> {
+  const response = await fetch('/api/newsroom/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      filename: file.name,
+      mimeType: file.type,
+      fileSize: file.size,
+      folder,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to prepare upload'));
+  }
+
+  const { upload } = await response.json();
+  window.localStorage.setItem(resumeKey(file), upload.id);
+  return { id: upload.id, partSize: upload.partSize, parts: [] };
+}
+
+async function presignParts(uploadId: string, partNumbers: number[]): Promise<Map<number, string>> {
+  const response = await fetch(`/api/newsroom/uploads/${uploadId}/parts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ partNumbers }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await readError(response, 'Failed to prepare upload'));
+  }
+
+  const { parts } = await response.json();
+  return new Map(parts.map((part: { partNumber: number; url: string }) => [part.partNumber, part.url]));
+}
+
+async function uploadPart(
+  file: File,
+  session: UploadSession,
+  partNumber: number,
+  url: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const { start, end } = partRange(partNumber, file.size, session.partSize);
+  let partUrl = url;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetch(partUrl, { method: 'PUT', body: file.slice(start, end), signal });
+      if (response.ok) return;
+      // An expired URL is refreshed rather than counted as a failure
+      if (response.status === 403) {
+        partUrl = (await presignParts(session.id, [partNumber])).get(partNumber) ?? partUrl;
+      }
+      if (attempt >= MAX_PART_ATTEMPTS) {
+        throw new Error(`Storage rejected part ${partNumber} of ${file.name} (${response.status})`);
+      }
+    } catch (error) {
+      if (signal?.aborted || attempt >= MAX_PART_ATTEMPTS) throw error;
+    }
+    await sleep(retryDelay(attempt), signal);
+  }
+}
+
+/**
+ * Upload a file straight to R2 and return the upload's id, ready to be
+ * finalised by the story or episode it belongs to.
+ */
+export async function uploadAudioDirect(
+  file: File,
+  {
+    folder = 'newsroom/audio',
+    onProgress,
+    signal,
+  }: { folder?: AudioUploadFolder; onProgress?: (progress: UploadProgress) => void; signal?: AbortSignal } = {}
+): Promise<string> {
+  const session = (await resumeSession(file)) ?? (await startSession(file, folder));
+  const total = partCount(file.size, session.partSize);
+  const remaining = missingParts(total, session.parts);
+
+  const partBytes = (partNumber: number) => {
+    const { start, end } = partRange(partNumber, file.size, session.partSize);
+    return end - start;
+  };
+  let uploadedBytes = session.parts.reduce((sum, partNumber) => sum + partBytes(partNumber), 0);
+  onProgress?.({ uploadedBytes, totalBytes: file.size });
+
+  const urls = remaining.length > 0 ? await presignParts(session.id, remaining) : new Map<number, string>();
+  const queue = [...remaining];
+
+  const worker = async () => {
+    for (let partNumber = queue.shift(); partNumber !== undefined; partNumber = queue.shift()) {
+      await uploadPart(file, session, partNumber, urls.get(partNumber)!, signal);
+      uploadedBytes += partBytes(partNumber);
+      onProgress?.({ uploadedBytes, totalBytes: file.size });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, queue.length) }, worker));
+
+  return session.id;
+}
+
+/**
+ * Upload several files one after another, reporting progress across all of
+ * them. Returns the upload ids in the order of the files.
+ */
+export async function uploadAudioFiles(
+  files: File[],
+  options: { folder?: AudioUploadFolder; onProgress?: (progress: UploadProgress) => void; signal?: AbortSignal } = {}
+): Promise<string[]> {
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  const uploadIds: string[] = [];
+  let doneBytes = 0;
+
+  for (const file of files) {
+    uploadIds.push(await uploadAudioDirect(file, {
+      folder: options.folder,
+      signal: options.signal,
+      onProgress: (progress) => options.onProgress?.({ uploadedBytes: doneBytes + progress.uploadedBytes, totalBytes }),
+    }));
+    doneBytes += file.size;
+  }
+
+  return uploadIds;
+}
+
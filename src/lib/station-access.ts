@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import type { Province } from '@prisma/client';
+import { prisma } from './prisma';
+import { DEFAULT_STATION_LANGUAGES } from './language-utils';
+
+const ALL_RELIGIONS = ['Christian', 'Muslim', 'Neutral'];
+
+/**
+ * The content a station is allowed to receive. Staff previewing the station
+ * zone get unrestricted access.
+ */
+export interface StationAccess {
+  stationId: string | null;
+  province: Province | null;
+  allowedLanguages: string[];
+  allowedReligions: string[];
+  blockedCategories: string[];
+}
+
+export type StationAccessResult =
+  | { access: StationAccess; error?: undefined }
+  | { access?: undefined; error: string; status: number };
+
+export const STAFF_STATION_ACCESS: StationAccess = {
+  stationId: null,
+  province: null,
+  allowedLanguages: DEFAULT_STATION_LANGUAGES,
+  allowedReligions: ALL_RELIGIONS,
+  blockedCategories: [],
+};
+
+export function stationAccessFor(station: {
+  id: string;
+  province: Province;
+  allowedLanguages: string[];
+  allowedReligions: string[];
+  blockedCategories: string[];
+}): StationAccess {
+  return {
+    stationId: station.id,
+    province: station.province,
+    allowedLanguages: station.allowedLanguages,
+    allowedReligions: station.allowedReligions,
+    blockedCategories: station.blockedCategories,
+  };
+}
+
+/**
+ * Resolve the content restrictions for a signed-in user of the station zone,
+ * with the same rules as the radio story and bulletin listings.
+ */
+export async function resolveStationAccess(user: { id: string; userType: string }): Promise<StationAccessResult> {
+  if (user.userType === 'STAFF') return { access: STAFF_STATION_ACCESS };
+  if (user.userType !== 'RADIO') return { error: 'Invalid user type', status: 403 };
+
+  const record = await prisma.user.findUnique({
+    where: { id: user.id },
+    include: { radioStation: true },
+  });
+  const station = record?.radioStation;
+
+  if (!station) {
+    return { error: 'No station associated with user', status: 400 };
+  }
+  if (!station.isActive || !station.hasContentAccess) {
+    return { error: 'Station does not have content access', status: 403 };
+  }
+
+  return { access: stationAccessFor(station) };
+}
+
+/**
+ * Whether a story may go out to a station: its category (or parent category)
+ * must not be blocked, and a story classified by religion must carry one of
+ * the station's religions.
+ */
+export function isStoryAvailableToStation(
+  story: {
+    categoryId: string | null;
+    category?: { parentId: string | null } | null;
+    classifications?: Array<{ classification: { type: string; name: string } }>;
+  },
+  access: StationAccess
+): boolean {
+  const blocked = new Set(access.blockedCategories);
+  if (story.categoryId && blocked.has(story.categoryId)) return false;
+  if (story.category?.parentId && blocked.has(story.category.parentId)) return false;
+
+  const religions = (story.classifications ?? [])
+    .filter(({ classification }) => classification.type === 'RELIGION')
+    .map(({ classification }) => classification.name);
+  return religions.length === 0 || religions.some(religion => access.allowedReligions.includes(religion));
+}
+
+/**
+ * Whether a podcast or show may go out to a station: the same category and
+ * religion rules as stories, and a programme classified by language must be
+ * in one of the station's languages.
+ */
+export function isProgrammeAvailableToStation(
+  programme: {
+    categoryId: string | null;
+    category?: { parentId: string | null } | null;
+    classifications?: Array<{ classification: { type: string; name: string } }>;
+  },
+  access: StationAccess
+): boolean {
+  if (!isStoryAvailableToStation(programme, access)) return false;
+
+  const languages = (programme.classifications ?? [])
+    .filter(({ classification }) => classification.type === 'LANGUAGE')
+    .map(({ classification }) => classification.name);
+  return languages.length === 0 || languages.some(language => access.allowedLanguages.includes(language));
+}
+
+// Feed apps poll often; "last used" only needs to be roughly right
+const FEED_TOKEN_USE_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Feed tokens are stored as a SHA-256 hash, so a leaked database does not
+ * leak working feed addresses.
+ */
+export function hashFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Resolve the content restrictions for a station feed token, for RSS
+ * requests that arrive without a session.
+ */
+export async function resolveFeedTokenAccess(token: string | null): Promise<StationAccessResult> {
+  if (!token) return { error: 'Feed token required', status: 401 };
+
+  const record = await prisma.stationFeedToken.findUnique({
+    where: { tokenHash: hashFeedToken(token) },
+    include: { station: true },
+  });
+
+  if (!record || record.revokedAt) {
+    return { error: 'Invalid or revoked feed token', status: 401 };
+  }
+  if (!record.station.isActive || !record.station.hasContentAccess) {
+    return { error: 'Station does not have content access', status: 403 };
+  }
+
+  const now = new Date();
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > FEED_TOKEN_USE_INTERVAL_MS) {
+    await prisma.stationFeedToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return { access: stationAccessFor(record.station) };
+}
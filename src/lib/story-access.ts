@@ -0,0 +1,61 @@
+import type { StaffRole } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * The story fields needed to decide whether a staff member may see it.
+ */
+export const STORY_ACCESS_SELECT = {
+  id: true,
+  authorId: true,
+  assignedToId: true,
+  reviewerId: true,
+  assignedReviewerId: true,
+  assignedApproverId: true,
+} as const;
+
+export interface StoryAccessFields {
+  id: string;
+  authorId: string;
+  assignedToId: string | null;
+  reviewerId: string | null;
+  assignedReviewerId: string | null;
+  assignedApproverId: string | null;
+}
+
+/**
+ * Whether a staff member may see a story (and its history). Interns only see
+ * their own stories; journalists see the ones they wrote or were put on, and
+ * the originals of translations they are writing. Everyone else sees all.
+ */
+export async function canViewStory(
+  user: { id: string; staffRole: StaffRole | string | null },
+  story: StoryAccessFields
+): Promise<boolean> {
+  if (user.staffRole === 'INTERN') {
+    return story.authorId === user.id;
+  }
+
+  if (user.staffRole !== 'JOURNALIST') {
+    return true;
+  }
+
+  const hasDirectAccess = story.authorId === user.id ||
+                          story.assignedToId === user.id ||
+                          story.reviewerId === user.id ||
+                          story.assignedReviewerId === user.id ||
+                          story.assignedApproverId === user.id;
+  if (hasDirectAccess) {
+    return true;
+  }
+
+  // The original of a translation they're working on
+  const translationByUser = await prisma.story.findFirst({
+    where: {
+      authorId: user.id,
+      originalStoryId: story.id,
+      isTranslation: true,
+    },
+    select: { id: true },
+  });
+  return !!translationByUser;
+}
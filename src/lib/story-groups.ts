@@ -0,0 +1,198 @@
+import { Prisma, StoryLanguage, StoryStage } from '@prisma/client';
+import { prisma } from './prisma';
+import { withLegacyStatus } from './story-stage';
+
+// Stages a story must be in before its group can be released
+export const GROUP_READY_STAGES: StoryStage[] = ['APPROVED', 'TRANSLATED'];
+
+export interface GroupStory {
+  id: string;
+  title: string;
+  language: StoryLanguage;
+  stage: StoryStage | null;
+  isTranslation: boolean;
+  originalStoryId: string | null;
+  sourceChangedAt: Date | null;
+}
+
+export interface LanguageReadiness {
+  language: StoryLanguage;
+  total: number;
+  ready: number;
+  published: number;
+  blocking: number;
+}
+
+export interface GroupReadiness {
+  ready: boolean;
+  stories: GroupStory[];
+  blocking: GroupStory[];
+  byLanguage: LanguageReadiness[];
+}
+
+function isReadyForRelease(story: GroupStory): boolean {
+  return !!story.stage && GROUP_READY_STAGES.includes(story.stage) && !story.sourceChangedAt;
+}
+
+/**
+ * Evaluate whether a story group can be released.
+ * Every story (member stories and their translations) must be APPROVED or
+ * TRANSLATED, and translations must be up to date with their original;
+ * already-published stories neither block nor get republished.
+ */
+export function evaluateGroupReadiness(stories: GroupStory[]): GroupReadiness {
+  const blocking = stories.filter(s => s.stage !== 'PUBLISHED' && !isReadyForRelease(s));
+
+  const languages = new Map<StoryLanguage, LanguageReadiness>();
+  for (const story of stories) {
+    const entry = languages.get(story.language) ?? {
+      language: story.language,
+      total: 0,
+      ready: 0,
+      published: 0,
+      blocking: 0,
+    };
+    entry.total += 1;
+    if (story.stage === 'PUBLISHED') {
+      entry.published += 1;
+    } else if (isReadyForRelease(story)) {
+      entry.ready += 1;
+    } else {
+      entry.blocking += 1;
+    }
+    languages.set(story.language, entry);
+  }
+
+  const hasUnpublished = stories.some(s => s.stage !== 'PUBLISHED');
+
+  return {
+    ready: stories.length > 0 && hasUnpublished && blocking.length === 0,
+    stories,
+    blocking,
+    byLanguage: Array.from(languages.values()).sort((a, b) =>
+      a.language.localeCompare(b.language)
+    ),
+  };
+}
+
+const groupStorySelect = {
+  id: true,
+  title: true,
+  language: true,
+  stage: true,
+  isTranslation: true,
+  originalStoryId: true,
+  sourceChangedAt: true,
+} as const;
+
+/**
+ * Load every story released by a group: the member stories plus the
+ * translations of those members (translations are not linked to the group directly).
+ */
+export async function getGroupStories(
+  groupId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<GroupStory[]> {
+  const members = await client.story.findMany({
+    where: { storyGroupId: groupId },
+    select: groupStorySelect,
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const memberIds = members.map(m => m.id);
+  const translations = memberIds.length > 0
+    ? await client.story.findMany({
+        where: {
+          originalStoryId: { in: memberIds },
+          isTranslation: true,
+        },
+        select: groupStorySelect,
+        orderBy: { createdAt: 'asc' },
+      })
+    : [];
+
+  // Guard against a translation that is also linked to the group directly
+  const seen = new Set(memberIds);
+  return [...members, ...translations.filter(t => !seen.has(t.id))];
+}
+
+export async function getGroupReadiness(
+  groupId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<GroupReadiness> {
+  return evaluateGroupReadiness(await getGroupStories(groupId, client));
+}
+
+/**
+ * Publish every unpublished story in the group inside the given transaction.
+ * Callers must check readiness first; this re-checks and throws if a story
+ * has moved out of a ready stage since.
+ */
+export async function publishStoryGroupTx(
+  tx: Prisma.TransactionClient,
+  groupId: string,
+  publishedBy: string | null
+): Promise<string[]> {
+  const readiness = await getGroupReadiness(groupId, tx);
+  if (!readiness.ready) {
+    throw new Error(
+      `Story group is not ready to publish. Blocking: ${readiness.blocking
+        .map(s => `${s.title} (${s.language}, ${s.stage})`)
+        .join(', ')}`
+    );
+  }
+
+  const toPublish = readiness.stories.filter(s => s.stage !== 'PUBLISHED').map(s => s.id);
+  const publishedAt = new Date();
+
+  await tx.story.updateMany({
+    where: { id: { in: toPublish } },
+    data: {
+      ...withLegacyStatus('PUBLISHED'),
+      publishedAt,
+      publishedBy,
+      scheduledPublishAt: null,
+    },
+  });
+
+  await tx.storyGroup.update({
+    where: { id: groupId },
+    data: {
+      publishedAt,
+      scheduledPublishAt: null,
+    },
+  });
+
+  return toPublish;
+}
+
+/**
+ * Check that stories can be added to a group: they must exist, be original
+ * (non-translation) stories and not already be published.
+ * Returns an error message, or null when all stories are valid.
+ */
+export async function validateGroupMembers(storyIds: string[]): Promise<string | null> {
+  const stories = await prisma.story.findMany({
+    where: { id: { in: storyIds } },
+    select: { id: true, title: true, isTranslation: true, stage: true },
+  });
+
+  const missing = storyIds.filter(id => !stories.some(s => s.id === id));
+  if (missing.length > 0) {
+    return `Stories not found: ${missing.join(', ')}`;
+  }
+
+  const translations = stories.filter(s => s.isTranslation);
+  if (translations.length > 0) {
+    return `Translations are released with their original story and cannot be added directly: ${translations
+      .map(s => s.title)
+      .join(', ')}`;
+  }
+
+  const published = stories.filter(s => s.stage === 'PUBLISHED');
+  if (published.length > 0) {
+    return `Published stories cannot be added to a group: ${published.map(s => s.title).join(', ')}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,74 @@
+import type { Prisma, StoryStage, StoryStatus } from '@prisma/client';
+
+// Compatibility layer between the legacy `status` column and `stage`. Stage is
+// the source of truth; status is only written alongside it so older readers
+// keep working until the column is dropped.
+
+/**
+ * Stage each legacy status corresponds to. ARCHIVED has no stage equivalent,
+ * so archived stories keep whatever stage they already have.
+ */
+export const LEGACY_STATUS_STAGE: Record<StoryStatus, StoryStage | null> = {
+  DRAFT: 'DRAFT',
+  IN_REVIEW: 'NEEDS_JOURNALIST_REVIEW',
+  NEEDS_REVISION: 'DRAFT',
+  PENDING_APPROVAL: 'NEEDS_SUB_EDITOR_APPROVAL',
+  PENDING_TRANSLATION: 'APPROVED',
+  APPROVED: 'APPROVED',
+  READY_TO_PUBLISH: 'TRANSLATED',
+  PUBLISHED: 'PUBLISHED',
+  ARCHIVED: null,
+};
+
+const STAGE_LEGACY_STATUS: Record<StoryStage, StoryStatus> = {
+  DRAFT: 'DRAFT',
+  NEEDS_JOURNALIST_REVIEW: 'IN_REVIEW',
+  NEEDS_SUB_EDITOR_APPROVAL: 'PENDING_APPROVAL',
+  APPROVED: 'APPROVED',
+  TRANSLATED: 'READY_TO_PUBLISH',
+  PUBLISHED: 'PUBLISHED',
+};
+
+export function stageForLegacyStatus(status: StoryStatus): StoryStage | null {
+  return LEGACY_STATUS_STAGE[status];
+}
+
+export function legacyStatusForStage(stage: StoryStage): StoryStatus {
+  return STAGE_LEGACY_STATUS[stage];
+}
+
+/**
+ * Update data for moving a story to a stage, keeping the legacy status in step.
+ */
+export function withLegacyStatus(stage: StoryStage): { stage: StoryStage; status: StoryStatus } {
+  return { stage, status: legacyStatusForStage(stage) };
+}
+
+/**
+ * Translate a legacy status filter into a stage filter. ARCHIVED still filters
+ * on status because no stage can express it.
+ */
+export function legacyStatusWhere(status: StoryStatus): Prisma.StoryWhereInput {
+  const stage = stageForLegacyStatus(status);
+  return stage ? { stage } : { status };
+}
+
+/**
+ * Work out the stage a story should have from its legacy status. Stories
+ * written before stages existed were given the DRAFT default, so a DRAFT stage
+ * is only trusted when the story has been sent back through a revision
+ * request; otherwise a status further along the pipeline wins.
+ */
+export function resolveLegacyStage(story: {
+  status: StoryStatus;
+  stage: StoryStage | null;
+  hasRevisionRequests: boolean;
+}): StoryStage {
+  const legacyStage = stageForLegacyStatus(story.status);
+
+  if (!story.stage) return legacyStage ?? 'DRAFT';
+  if (!legacyStage) return story.stage;
+  if (story.stage === 'DRAFT' && !story.hasRevisionRequests) return legacyStage;
+
+  return story.stage;
+}
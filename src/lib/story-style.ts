@@ -0,0 +1,26 @@
+import type { Prisma, StoryLanguage } from '@prisma/client';
+import { prisma } from './prisma';
+import { getReadingSpeeds } from './reading-speeds';
+import { checkStoryStyle, resolveWordTarget, type StyleCheckResult } from './style-check';
+
+/**
+ * Run the house-style check on a saved story, with its category's word
+ * target and the configured reading speed for its language.
+ */
+export async function checkSavedStoryStyle(
+  story: { content: string | null; language: StoryLanguage; categoryId: string | null },
+  client: Prisma.TransactionClient = prisma
+): Promise<StyleCheckResult> {
+  const [categories, speeds] = await Promise.all([
+    client.category.findMany({
+      select: { id: true, name: true, parentId: true, minWords: true, maxWords: true },
+    }),
+    getReadingSpeeds(client),
+  ]);
+
+  return checkStoryStyle(story.content, {
+    language: story.language,
+    wordTarget: resolveWordTarget(story.categoryId, categories),
+    wordsPerMinute: speeds[story.language],
+  });
+}
@@ -0,0 +1,112 @@
+import { Prisma, StoryVersionChangeType } from '@prisma/client';
+import { prisma } from './prisma';
+
+interface RecordVersionOptions {
+  changeType: StoryVersionChangeType;
+  changedById: string;
+  restoredFromVersion?: number;
+}
+
+/**
+ * Snapshot a story's pre-change state as version 1 if it has no history yet.
+ * Stories created before revision history existed get their baseline on the
+ * first edit or stage transition; call this before mutating the story.
+ */
+export async function ensureBaselineVersion(
+  client: Prisma.TransactionClient,
+  storyId: string
+): Promise<void> {
+  const existing = await client.storyVersion.count({ where: { storyId } });
+  if (existing > 0) return;
+
+  const story = await client.story.findUnique({
+    where: { id: storyId },
+    select: { title: true, content: true, stage: true, authorId: true, updatedAt: true },
+  });
+  if (!story) return;
+
+  await client.storyVersion.create({
+    data: {
+      storyId,
+      versionNumber: 1,
+      title: story.title,
+      content: story.content,
+      stage: story.stage,
+      changeType: 'INITIAL',
+      changedById: story.authorId,
+      createdAt: story.updatedAt,
+    },
+  });
+}
+
+/**
+ * Snapshot the story's current title, content and stage as the next version.
+ * Skipped when nothing versioned changed since the latest snapshot (e.g. a
+ * PATCH that only touched tags), so the history only lists real revisions.
+ */
+export async function recordStoryVersion(
+  client: Prisma.TransactionClient,
+  storyId: string,
+  { changeType, changedById, restoredFromVersion }: RecordVersionOptions
+) {
+  const [story, latest] = await Promise.all([
+    client.story.findUnique({
+      where: { id: storyId },
+      select: { title: true, content: true, stage: true },
+    }),
+    client.storyVersion.findFirst({
+      where: { storyId },
+      orderBy: { versionNumber: 'desc' },
+      select: { versionNumber: true, title: true, content: true, stage: true },
+    }),
+  ]);
+
+  if (!story) return null;
+
+  if (
+    latest &&
+    changeType !== 'RESTORE' &&
+    latest.title === story.title &&
+    latest.content === story.content &&
+    latest.stage === story.stage
+  ) {
+    return null;
+  }
+
+  return client.storyVersion.create({
+    data: {
+      storyId,
+      versionNumber: (latest?.versionNumber ?? 0) + 1,
+      title: story.title,
+      content: story.content,
+      stage: story.stage,
+      changeType,
+      changedById,
+      restoredFromVersion,
+    },
+  });
+}
+
+export const storyVersionSummarySelect = {
+  id: true,
+  versionNumber: true,
+  title: true,
+  stage: true,
+  changeType: true,
+  restoredFromVersion: true,
+  createdAt: true,
+  changedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} as const;
+
+export async function getStoryVersion(storyId: string, versionId: string) {
+  return prisma.storyVersion.findFirst({
+    where: { id: versionId, storyId },
+    include: {
+      changedBy: {
+        select: { id: true, firstName: true, lastName: true },
+      },
+    },
+  });
+}
@@ -0,0 +1,322 @@
+import type { StoryLanguage } from '@prisma/client';
+import { htmlToPlainText } from './text-diff';
+import { countWords, DEFAULT_READING_SPEEDS } from './bulletin-duration';
+import { wholeWordPattern } from './text-utils';
+
+export type StyleIssueKind = 'length' | 'banned' | 'number' | 'date' | 'place';
+
+// Errors break house style and can block a workflow step; warnings are advice
+export type StyleIssueSeverity = 'error' | 'warning';
+
+export interface StyleIssue {
+  kind: StyleIssueKind;
+  severity: StyleIssueSeverity;
+  message: string;
+  // The offending text as written, so the editor can find it
+  match?: string;
+  suggestion?: string;
+}
+
+export interface WordTarget {
+  minWords: number | null;
+  maxWords: number | null;
+  // Category the target was set on, which may be a parent of the story's
+  categoryName: string;
+}
+
+export interface StyleCheckOptions {
+  language: StoryLanguage;
+  wordTarget?: WordTarget | null;
+  wordsPerMinute?: number;
+}
+
+export interface StyleCheckResult {
+  wordCount: number;
+  readingSeconds: number;
+  wordTarget: WordTarget | null;
+  issues: StyleIssue[];
+  // No errors; warnings do not count against a story
+  passes: boolean;
+}
+
+interface BannedPhrase {
+  phrase: string;
+  suggestion?: string;
+  reason?: string;
+}
+
+interface PlaceName {
+  name: string;
+  variants: string[];
+  note?: string;
+}
+
+interface FormatRule {
+  kind: 'number' | 'date';
+  pattern: RegExp;
+  message: string;
+  suggest?: (match: string) => string;
+}
+
+interface StyleRuleSet {
+  banned: BannedPhrase[];
+  formats: FormatRule[];
+}
+
+// Official spellings and current names, checked in every language
+const PLACE_NAMES: PlaceName[] = [
+  { name: 'Gqeberha', variants: ['Port Elizabeth'], note: 'renamed in 2021' },
+  { name: 'Makhanda', variants: ['Grahamstown', 'Grahamstad'], note: 'renamed in 2018' },
+  { name: 'Mbombela', variants: ['Nelspruit'], note: 'renamed in 2009' },
+  { name: 'Polokwane', variants: ['Pietersburg'], note: 'renamed in 2005' },
+  { name: 'Mthatha', variants: ['Umtata'], note: 'renamed in 2004' },
+  { name: 'Qonce', variants: ["King William's Town"], note: 'renamed in 2021' },
+  { name: 'KwaZulu-Natal', variants: ['KwaZulu Natal', 'Kwa-Zulu Natal', 'Kwa Zulu Natal', 'Kwa-Zulu-Natal'] },
+  { name: 'Mpumalanga', variants: ['Mpumulanga'] },
+  { name: 'Gauteng', variants: ['Guateng'] },
+  { name: 'Johannesburg', variants: ['Johannesberg'] },
+  { name: 'Cape Town', variants: ['Capetown'] },
+  { name: 'Pietermaritzburg', variants: ['Pietermartizburg', 'Pietermaritzberg'] },
+  { name: 'Free State', variants: ['Orange Free State'], note: 'renamed in 1995' },
+  { name: 'North West', variants: ['North-West Province', 'Northwest Province'] },
+];
+
+const ENGLISH_MONTHS = 'January|February|March|April|May|June|July|August|September|October|November|December';
+const AFRIKAANS_MONTHS = 'Januarie|Februarie|Maart|April|Mei|Junie|Julie|Augustus|September|Oktober|November|Desember';
+
+// Newsreaders read figures aloud, so dates are written out and never numeric
+const NUMERIC_DATE: FormatRule = {
+  kind: 'date',
+  pattern: /\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b/g,
+  message: 'Write dates out in words, e.g. 19 October',
+};
+
+const ENGLISH_RULES: StyleRuleSet = {
+  banned: [
+    { phrase: 'at this point in time', suggestion: 'now' },
+    { phrase: 'in order to', suggestion: 'to' },
+    { phrase: 'going forward', suggestion: 'from now on' },
+    { phrase: 'each and every', suggestion: 'every' },
+    { phrase: 'first ever', suggestion: 'first' },
+    { phrase: 'whilst', suggestion: 'while' },
+    { phrase: 'amongst', suggestion: 'among' },
+    { phrase: 'it is understood that', reason: 'Say who understands it' },
+  ],
+  formats: [
+    {
+      kind: 'number',
+      pattern: /\b\d{1,3}(?:,\d{3})+\b/g,
+      message: 'Separate thousands with a space',
+      suggest: match => match.replace(/,/g, ' '),
+    },
+    {
+      kind: 'number',
+      pattern: /\d+(?:[.,]\d+)?\s?%/g,
+      message: 'Write "percent" in full',
+      suggest: match => `${match.replace(/\s?%/, '')} percent`,
+    },
+    {
+      kind: 'number',
+      pattern: /(?:^|(?<=[.!?]\s))\d+\b/gm,
+      message: 'Spell out a number that starts a sentence',
+    },
+    NUMERIC_DATE,
+    {
+      kind: 'date',
+      pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th) (${ENGLISH_MONTHS})\\b`, 'g'),
+      message: 'Leave out ordinals in dates',
+      suggest: match => match.replace(/(\d)(?:st|nd|rd|th)/, '$1'),
+    },
+    {
+      kind: 'date',
+      pattern: new RegExp(`\\b(${ENGLISH_MONTHS}) (\\d{1,2})(?:st|nd|rd|th)?\\b`, 'g'),
+      message: 'Put the day before the month',
+      suggest: match => {
+        const [, month, day] = match.match(/^(\S+) (\d{1,2})/) ?? [];
+        return `${day} ${month}`;
+      },
+    },
+  ],
+};
+
+const AFRIKAANS_RULES: StyleRuleSet = {
+  banned: [
+    { phrase: 'op hierdie stadium', suggestion: 'nou' },
+    { phrase: 'ten einde', suggestion: 'om' },
+    { phrase: 'met betrekking tot', suggestion: 'oor' },
+    { phrase: 'as gevolg van die feit dat', suggestion: 'omdat' },
+    { phrase: 'in die lig van die feit dat', suggestion: 'omdat' },
+  ],
+  formats: [
+    {
+      kind: 'number',
+      pattern: /\b\d{1,3}(?:\.\d{3})+\b/g,
+      message: 'Skei duisende met ’n spasie',
+      suggest: match => match.replace(/\./g, ' '),
+    },
+    {
+      kind: 'number',
+      pattern: /\d+(?:[.,]\d+)?\s?%/g,
+      message: 'Skryf "persent" voluit',
+      suggest: match => `${match.replace(/\s?%/, '')} persent`,
+    },
+    {
+      kind: 'number',
+      pattern: /(?:^|(?<=[.!?]\s))\d+\b/gm,
+      message: '’n Sin begin nie met ’n syfer nie',
+    },
+    { ...NUMERIC_DATE, message: 'Skryf datums in woorde, bv. 19 Oktober' },
+    {
+      kind: 'date',
+      pattern: new RegExp(`\\b(\\d{1,2})(?:ste|de) (${AFRIKAANS_MONTHS})\\b`, 'g'),
+      message: 'Laat die rangtelwoord in datums weg',
+      suggest: match => match.replace(/(\d)(?:ste|de)/, '$1'),
+    },
+  ],
+};
+
+// Xhosa and Zulu copy only gets the checks that don't depend on wording
+const NGUNI_RULES: StyleRuleSet = {
+  banned: [],
+  formats: [
+    {
+      kind: 'number',
+      pattern: /\b\d{1,3}(?:,\d{3})+\b/g,
+      message: 'Separate thousands with a space',
+      suggest: match => match.replace(/,/g, ' '),
+    },
+    NUMERIC_DATE,
+  ],
+};
+
+export const STYLE_RULE_SETS: Record<StoryLanguage, StyleRuleSet> = {
+  ENGLISH: ENGLISH_RULES,
+  AFRIKAANS: AFRIKAANS_RULES,
+  XHOSA: NGUNI_RULES,
+  ZULU: NGUNI_RULES,
+};
+
+// One issue per distinct piece of text, in the order it first appears
+function pushOnce(issues: StyleIssue[], seen: Set<string>, issue: StyleIssue) {
+  const key = `${issue.kind}:${issue.match?.toLowerCase()}`;
+  if (seen.has(key)) return;
+  seen.add(key);
+  issues.push(issue);
+}
+
+function checkWordTarget(wordCount: number, target: WordTarget | null): StyleIssue | null {
+  if (!target) return null;
+  if (target.minWords !== null && wordCount < target.minWords) {
+    return {
+      kind: 'length',
+      severity: 'warning',
+      message: `${wordCount} words is short for ${target.categoryName}; aim for at least ${target.minWords}`,
+    };
+  }
+  if (target.maxWords !== null && wordCount > target.maxWords) {
+    return {
+      kind: 'length',
+      severity: 'warning',
+      message: `${wordCount} words is long for ${target.categoryName}; aim for at most ${target.maxWords}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Check story copy against house style for its language: the category's
+ * word-count target, banned words and phrases, number and date formatting,
+ * and South African place-name spellings.
+ */
+export function checkStoryStyle(html: string | null, options: StyleCheckOptions): StyleCheckResult {
+  const text = html ? htmlToPlainText(html) : '';
+  const rules = STYLE_RULE_SETS[options.language];
+  const wordCount = countWords(html);
+  const wordsPerMinute = options.wordsPerMinute ?? DEFAULT_READING_SPEEDS[options.language];
+  const wordTarget = options.wordTarget ?? null;
+
+  const issues: StyleIssue[] = [];
+  const seen = new Set<string>();
+
+  const lengthIssue = checkWordTarget(wordCount, wordTarget);
+  if (lengthIssue) issues.push(lengthIssue);
+
+  const bannedPattern = wholeWordPattern(rules.banned.map(rule => rule.phrase));
+  if (bannedPattern) {
+    const lookup = new Map(rules.banned.map(rule => [rule.phrase.toLowerCase(), rule]));
+    for (const match of text.matchAll(bannedPattern)) {
+      const rule = lookup.get(match[0].toLowerCase());
+      if (!rule) continue;
+      pushOnce(issues, seen, {
+        kind: 'banned',
+        severity: 'error',
+        message: rule.reason ?? `Avoid "${rule.phrase}"`,
+        match: match[0],
+        suggestion: rule.suggestion,
+      });
+    }
+  }
+
+  for (const place of PLACE_NAMES) {
+    for (const match of text.matchAll(wholeWordPattern([place.name, ...place.variants])!)) {
+      // The name itself passes in any case, e.g. "north west" as a direction;
+      // only the old and misspelt variants are flagged
+      if (match[0].toLowerCase() === place.name.toLowerCase()) continue;
+      pushOnce(issues, seen, {
+        kind: 'place',
+        severity: 'error',
+        message: place.note ? `Use ${place.name} (${place.note})` : `Spell it ${place.name}`,
+        match: match[0],
+        suggestion: place.name,
+      });
+    }
+  }
+
+  for (const rule of rules.formats) {
+    for (const match of text.matchAll(rule.pattern)) {
+      pushOnce(issues, seen, {
+        kind: rule.kind,
+        severity: 'warning',
+        message: rule.message,
+        match: match[0],
+        suggestion: rule.suggest?.(match[0]),
+      });
+    }
+  }
+
+  return {
+    wordCount,
+    readingSeconds: Math.round((wordCount / wordsPerMinute) * 60),
+    wordTarget,
+    issues,
+    passes: !issues.some(issue => issue.severity === 'error'),
+  };
+}
+
+export interface WordTargetCategory {
+  id: string;
+  name: string;
+  parentId: string | null;
+  minWords: number | null;
+  maxWords: number | null;
+}
+
+/**
+ * The word-count target for a category: its own, or else the nearest
+ * parent's that has one.
+ */
+export function resolveWordTarget(categoryId: string | null, categories: WordTargetCategory[]): WordTarget | null {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const visited = new Set<string>();
+  let current = categoryId ? byId.get(categoryId) : undefined;
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    if (current.minWords !== null || current.maxWords !== null) {
+      return { minWords: current.minWords, maxWords: current.maxWords, categoryName: current.name };
+    }
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return null;
+}
@@ -0,0 +1,187 @@
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  value: string;
+}
+
+// Above this many tokens per side the LCS table gets too large; fall back to a whole-block replace
+const MAX_DIFF_TOKENS = 4000;
+
+const BLOCK_TAGS = /<\/(p|h[1-6]|li|blockquote|div)>|<br\s*\/?>/gi;
+
+/**
+ * Convert rich-text (TipTap HTML) content to plain text for diffing.
+ * Block-level tags become line breaks so paragraph changes stay readable.
+ */
+export function htmlToPlainText(html: string): string {
+  return html
+    .replace(BLOCK_TAGS, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Split into words and the whitespace between them, so joining the tokens gives back the input
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffOperation, value: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    segments.push({ type, value });
+  }
+}
+
+/**
+ * Word-level diff of two strings using a longest-common-subsequence table.
+ * Adjacent tokens of the same operation are merged into a single segment.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  // Trim the common prefix and suffix; edits are usually local
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  if (start > 0) pushSegment(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length > MAX_DIFF_TOKENS || midB.length > MAX_DIFF_TOKENS) {
+    if (midA.length > 0) pushSegment(segments, 'delete', midA.join(''));
+    if (midB.length > 0) pushSegment(segments, 'insert', midB.join(''));
+  } else {
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const lcs = new Uint16Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        pushSegment(segments, 'delete', midA[i]);
+        i++;
+      } else {
+        pushSegment(segments, 'insert', midB[j]);
+        j++;
+      }
+    }
+    while (i < midA.length) pushSegment(segments, 'delete', midA[i++]);
+    while (j < midB.length) pushSegment(segments, 'insert', midB[j++]);
+  }
+
+  if (endA < a.length) pushSegment(segments, 'equal', a.slice(endA).join(''));
+
+  return segments;
+}
+
+export interface ParagraphChange {
+  type: 'added' | 'removed' | 'changed';
+  // Index of the paragraph in the newer text (or where a removed one used to sit)
+  position: number;
+  before: string | null;
+  after: string | null;
+  segments: DiffSegment[];
+}
+
+/**
+ * Split rich-text (TipTap HTML) content into non-empty plain-text paragraphs.
+ */
+export function htmlToParagraphs(html: string): string[] {
+  return htmlToPlainText(html)
+    .split(/\n+/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Paragraph-level diff listing only the paragraphs that were added, removed or
+ * reworded. A removed paragraph directly followed by an added one is reported
+ * as a single change with a word-level diff.
+ */
+export function diffParagraphs(before: string[], after: string[]): ParagraphChange[] {
+  const rows = before.length + 1;
+  const cols = after.length + 1;
+  const lcs = new Uint16Array(rows * cols);
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = before[i] === after[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const changes: ParagraphChange[] = [];
+  let removed: string[] = [];
+  let added: { text: string; position: number }[] = [];
+
+  const flush = (position: number) => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({
+        type: 'changed',
+        position: added[k].position,
+        before: removed[k],
+        after: added[k].text,
+        segments: diffWords(removed[k], added[k].text),
+      });
+    }
+    for (const text of removed.slice(paired)) {
+      changes.push({ type: 'removed', position, before: text, after: null, segments: [{ type: 'delete', value: text }] });
+    }
+    for (const { text, position: addedAt } of added.slice(paired)) {
+      changes.push({ type: 'added', position: addedAt, before: null, after: text, segments: [{ type: 'insert', value: text }] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      flush(j);
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1])) {
+      removed.push(before[i++]);
+    } else {
+      added.push({ text: after[j], position: j });
+      j++;
+    }
+  }
+  flush(j);
+
+  return changes;
+}
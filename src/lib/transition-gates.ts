@@ -0,0 +1,52 @@
+import type { StoryLanguage } from '@prisma/client';
+import { getMissingChecklistItems, type WorkflowTransition } from './workflow';
+import { checkSavedStoryStyle } from './story-style';
+import type { StyleIssue } from './style-check';
+
+export interface TransitionBlock {
+  error: string;
+  missingChecklistItems?: string[];
+  styleIssues?: StyleIssue[];
+}
+
+/**
+ * Check a transition's checklist and house-style requirements. Returns why
+ * the story can't go ahead, or null when it can.
+ */
+export async function findTransitionBlock(
+  transition: WorkflowTransition,
+  checklistData: Record<string, boolean> | undefined,
+  story: { content: string | null; language: StoryLanguage; categoryId: string | null }
+): Promise<TransitionBlock | null> {
+  const missingItems = getMissingChecklistItems(transition, checklistData);
+  if (missingItems.length > 0) {
+    return {
+      error: `Complete the checklist before continuing: ${missingItems.map(item => item.label).join(', ')}`,
+      missingChecklistItems: missingItems.map(item => item.id),
+    };
+  }
+
+  if (transition.requireStyleCheck) {
+    const styleErrors = await findStyleErrors(story);
+    if (styleErrors.length > 0) {
+      return {
+        error: `Fix house style before continuing: ${styleErrors.map(issue => issue.match ?? issue.message).join(', ')}`,
+        styleIssues: styleErrors,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * House-style errors in a saved story; warnings don't hold it back.
+ */
+export async function findStyleErrors(story: {
+  content: string | null;
+  language: StoryLanguage;
+  categoryId: string | null;
+}): Promise<StyleIssue[]> {
+  const style = await checkSavedStoryStyle(story);
+  return style.issues.filter(issue => issue.severity === 'error');
+}
@@ -0,0 +1,182 @@
+import { createHash } from 'crypto';
+import type { Prisma, TranslationLanguage } from '@prisma/client';
+import { prisma } from './prisma';
+import { htmlToParagraphs } from './text-diff';
+
+export interface SegmentPair {
+  position: number;
+  sourceText: string;
+  targetText: string;
+}
+
+export interface TranslationSuggestion {
+  sourceText: string;
+  targetText: string;
+  // 1 for an exact match, lower for partial word overlap
+  score: number;
+  translationStoryId: string;
+}
+
+export interface SegmentSuggestions {
+  position: number;
+  sourceText: string;
+  suggestions: TranslationSuggestion[];
+}
+
+// Partial matches below this word overlap are too loose to be useful
+const MIN_SIMILARITY = 0.6;
+const MAX_SUGGESTIONS = 3;
+const MAX_CANDIDATES = 500;
+// Words used to find partial-match candidates, per segment
+const KEYWORDS_PER_SEGMENT = 3;
+const MIN_KEYWORD_LENGTH = 5;
+
+export function normalizeSegment(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function hashSegment(text: string): string {
+  return createHash('sha1').update(normalizeSegment(text)).digest('hex');
+}
+
+function segmentWords(text: string): string[] {
+  return normalizeSegment(text).match(/[\p{L}\p{N}']+/gu) ?? [];
+}
+
+/**
+ * Word overlap between two segments (Dice coefficient), from 0 to 1.
+ */
+export function segmentSimilarity(a: string, b: string): number {
+  const wordsA = new Set(segmentWords(a));
+  const wordsB = new Set(segmentWords(b));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * Pair original and translated paragraphs by position. Translations that
+ * merge or split paragraphs cannot be aligned reliably, so they yield no pairs.
+ */
+export function alignSegments(originalHtml: string, translationHtml: string): SegmentPair[] {
+  const source = htmlToParagraphs(originalHtml);
+  const target = htmlToParagraphs(translationHtml);
+  if (source.length === 0 || source.length !== target.length) return [];
+
+  return source.map((sourceText, position) => ({ position, sourceText, targetText: target[position] }));
+}
+
+function segmentKeywords(text: string): string[] {
+  return [...new Set(segmentWords(text))]
+    .filter(word => word.length >= MIN_KEYWORD_LENGTH)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, KEYWORDS_PER_SEGMENT);
+}
+
+/**
+ * Rebuild translation memory for the published translations among the given
+ * stories, or of the given original stories. Returns the number of pairs stored.
+ */
+export async function recordTranslationMemory(
+  storyIds: string[],
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  if (storyIds.length === 0) return 0;
+
+  const translations = await client.story.findMany({
+    where: {
+      isTranslation: true,
+      stage: 'PUBLISHED',
+      OR: [{ id: { in: storyIds } }, { originalStoryId: { in: storyIds } }],
+    },
+    select: {
+      id: true,
+      language: true,
+      content: true,
+      originalStory: { select: { content: true } },
+    },
+  });
+
+  let recorded = 0;
+
+  for (const translation of translations) {
+    if (!translation.originalStory || translation.language === 'ENGLISH') continue;
+
+    const pairs = alignSegments(translation.originalStory.content, translation.content);
+
+    await client.translationMemoryEntry.deleteMany({ where: { translationStoryId: translation.id } });
+    if (pairs.length === 0) continue;
+
+    await client.translationMemoryEntry.createMany({
+      data: pairs.map(pair => ({
+        ...pair,
+        language: translation.language as TranslationLanguage,
+        sourceHash: hashSegment(pair.sourceText),
+        translationStoryId: translation.id,
+      })),
+    });
+    recorded += pairs.length;
+  }
+
+  return recorded;
+}
+
+/**
+ * Suggest earlier translations for each paragraph of a source text. Exact
+ * matches come first, followed by paragraphs with a large word overlap.
+ */
+export async function findTranslationSuggestions(
+  sourceHtml: string,
+  language: TranslationLanguage,
+  options: { excludeStoryId?: string } = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<SegmentSuggestions[]> {
+  const segments = htmlToParagraphs(sourceHtml);
+  if (segments.length === 0) return [];
+
+  const hashes = [...new Set(segments.map(hashSegment))];
+  const keywords = [...new Set(segments.flatMap(segmentKeywords))];
+
+  const candidates = await client.translationMemoryEntry.findMany({
+    where: {
+      language,
+      ...(options.excludeStoryId && { translationStoryId: { not: options.excludeStoryId } }),
+      OR: [
+        { sourceHash: { in: hashes } },
+        ...keywords.map(keyword => ({ sourceText: { contains: keyword, mode: 'insensitive' as const } })),
+      ],
+    },
+    select: { sourceHash: true, sourceText: true, targetText: true, translationStoryId: true },
+    orderBy: { createdAt: 'desc' },
+    take: MAX_CANDIDATES,
+  });
+
+  return segments.map((sourceText, position) => {
+    const hash = hashSegment(sourceText);
+    const seen = new Set<string>();
+
+    const suggestions = candidates
+      .map(candidate => ({
+        sourceText: candidate.sourceText,
+        targetText: candidate.targetText,
+        score: candidate.sourceHash === hash ? 1 : segmentSimilarity(sourceText, candidate.sourceText),
+        translationStoryId: candidate.translationStoryId,
+      }))
+      .filter(suggestion => suggestion.score >= MIN_SIMILARITY)
+      // Stable sort keeps the most recent translation first among equal scores
+      .sort((a, b) => b.score - a.score)
+      .filter((suggestion) => {
+        const key = normalizeSegment(suggestion.targetText);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_SUGGESTIONS);
+
+    return { position, sourceText, suggestions };
+  });
+}
@@ -0,0 +1,144 @@
+import type { TranslationLanguage } from '@prisma/client';
+import { prisma } from './prisma';
+import type { GlossaryEntry } from './glossary';
+import { diffWords, htmlToPlainText } from './text-diff';
+import { wholeWordPattern } from './text-utils';
+
+export interface TranslationDraftRequest {
+  title: string;
+  // Rich-text (TipTap HTML) content of the original story
+  content: string;
+  targetLanguage: TranslationLanguage;
+}
+
+export interface TranslationDraftResult {
+  title: string;
+  content: string;
+}
+
+/**
+ * Pre-fills translation stories with a machine draft for translators to post-edit.
+ * Returning null leaves the translation empty, as if no provider were configured.
+ */
+export interface TranslationProvider {
+  name: string;
+  translate(request: TranslationDraftRequest): Promise<TranslationDraftResult | null>;
+}
+
+export const noopTranslationProvider: TranslationProvider = {
+  name: 'none',
+  translate: async () => null,
+};
+
+/**
+ * Word-for-word substitution of known terms (whole words, longest first),
+ * touching only text between tags. Returns null when nothing was substituted.
+ */
+export function createDictionaryProvider(
+  loadEntries: (language: TranslationLanguage) => Promise<GlossaryEntry[]>
+): TranslationProvider {
+  return {
+    name: 'dictionary',
+    translate: async ({ title, content, targetLanguage }) => {
+      const entries = await loadEntries(targetLanguage);
+      const pattern = wholeWordPattern(entries.map(entry => entry.term));
+      if (!pattern) return null;
+
+      const lookup = new Map(entries.map(entry => [entry.term.trim().toLowerCase(), entry.translation]));
+
+      let substitutions = 0;
+      const substitute = (text: string) =>
+        text.replace(pattern, (match) => {
+          const translation = lookup.get(match.toLowerCase());
+          if (translation === undefined) return match;
+          substitutions++;
+          return translation;
+        });
+
+      const draft = {
+        title: substitute(title),
+        content: content
+          .split(/(<[^>]*>)/)
+          .map(part => (part.startsWith('<') ? part : substitute(part)))
+          .join(''),
+      };
+
+      return substitutions > 0 ? draft : null;
+    },
+  };
+}
+
+async function loadGlossaryDictionary(language: TranslationLanguage): Promise<GlossaryEntry[]> {
+  return prisma.glossaryTerm.findMany({
+    where: { language },
+    select: { term: true, translation: true },
+  });
+}
+
+const TRANSLATION_PROVIDERS: Record<string, () => TranslationProvider> = {
+  none: () => noopTranslationProvider,
+  dictionary: () => createDictionaryProvider(loadGlossaryDictionary),
+};
+
+/**
+ * Make another provider (e.g. a hosted machine-translation API) selectable
+ * through TRANSLATION_PROVIDER.
+ */
+export function registerTranslationProvider(name: string, factory: () => TranslationProvider) {
+  TRANSLATION_PROVIDERS[name] = factory;
+}
+
+/**
+ * The provider named by TRANSLATION_PROVIDER, or the no-op provider when unset.
+ */
+export function getTranslationProvider(name = process.env.TRANSLATION_PROVIDER): TranslationProvider {
+  if (!name) return noopTranslationProvider;
+
+  const factory = TRANSLATION_PROVIDERS[name];
+  if (!factory) {
+    console.warn(`Unknown TRANSLATION_PROVIDER "${name}", translations will start empty`);
+    return noopTranslationProvider;
+  }
+  return factory();
+}
+
+/**
+ * Ask the provider for a draft. Provider failures are logged and treated as
+ * "no draft" so a translation can always be created.
+ */
+export async function draftTranslation(
+  provider: TranslationProvider,
+  request: TranslationDraftRequest
+): Promise<TranslationDraftResult | null> {
+  try {
+    return await provider.translate(request);
+  } catch (error) {
+    console.error(`Translation provider "${provider.name}" failed:`, error);
+    return null;
+  }
+}
+
+function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+/**
+ * Share of the final text the translator had to change, from 0 (draft kept
+ * as-is) to 1 (rewritten). Compares plain text word by word.
+ */
+export function postEditRatio(draftHtml: string, finalHtml: string): number {
+  const segments = diffWords(htmlToPlainText(draftHtml), htmlToPlainText(finalHtml));
+
+  let kept = 0;
+  let draftWords = 0;
+  let finalWords = 0;
+  for (const segment of segments) {
+    const words = countWords(segment.value);
+    if (segment.type === 'equal') kept += words;
+    if (segment.type !== 'insert') draftWords += words;
+    if (segment.type !== 'delete') finalWords += words;
+  }
+
+  const total = Math.max(draftWords, finalWords);
+  return total === 0 ? 0 : 1 - kept / total;
+}
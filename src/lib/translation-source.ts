@@ -0,0 +1,177 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { ensureBaselineVersion } from './story-versions';
+import { diffParagraphs, diffWords, htmlToParagraphs, type DiffSegment, type ParagraphChange } from './text-diff';
+
+export interface SourceChanges {
+  stale: boolean;
+  sourceChangedAt: Date | null;
+  // Version of the original the translation was made from, and its latest version
+  sourceVersionNumber: number | null;
+  currentVersionNumber: number | null;
+  titleChange: DiffSegment[] | null;
+  paragraphs: ParagraphChange[];
+}
+
+export interface StaleTranslation {
+  id: string;
+  title: string;
+  language: string;
+  originalStoryId: string | null;
+}
+
+/**
+ * Latest version number of an original story, snapshotting a baseline first
+ * if the story has no history yet.
+ */
+export async function currentSourceVersion(
+  client: Prisma.TransactionClient,
+  storyId: string
+): Promise<number | null> {
+  await ensureBaselineVersion(client, storyId);
+  const latest = await client.storyVersion.findFirst({
+    where: { storyId },
+    orderBy: { versionNumber: 'desc' },
+    select: { versionNumber: true },
+  });
+  return latest?.versionNumber ?? null;
+}
+
+/**
+ * Flag the translations of an original story as out of date. Call after
+ * recording a new version of the original; translations already flagged keep
+ * the time of the first change.
+ */
+export async function flagStaleTranslations(
+  client: Prisma.TransactionClient,
+  originalStoryId: string
+): Promise<number> {
+  const translations = await client.story.findMany({
+    where: { originalStoryId, isTranslation: true, sourceChangedAt: null },
+    select: { id: true, updatedAt: true },
+  });
+
+  const sourceChangedAt = new Date();
+  for (const translation of translations) {
+    // Keep updatedAt so a translator mid-edit does not get a false save conflict
+    await client.story.update({
+      where: { id: translation.id },
+      data: { sourceChangedAt, updatedAt: translation.updatedAt },
+    });
+  }
+  return translations.length;
+}
+
+/**
+ * Translations among (or belonging to) the given stories whose original
+ * changed since they were translated. Publishing these would go out of date.
+ */
+export async function findStaleTranslations(
+  storyIds: string[],
+  client: Prisma.TransactionClient = prisma
+): Promise<StaleTranslation[]> {
+  if (storyIds.length === 0) return [];
+
+  return client.story.findMany({
+    where: {
+      isTranslation: true,
+      sourceChangedAt: { not: null },
+      OR: [{ id: { in: storyIds } }, { originalStoryId: { in: storyIds } }],
+    },
+    select: { id: true, title: true, language: true, originalStoryId: true },
+  });
+}
+
+export function staleTranslationMessage(stale: { language: string }[]): string {
+  const languages = [...new Set(stale.map(story => story.language))].join(', ');
+  return `The original story changed after it was translated. Update the ${languages} translation(s) before publishing.`;
+}
+
+/**
+ * Changes to the original story since a translation was made from it: the
+ * title diff and the paragraphs that were added, removed or reworded.
+ * Translations created before source versions were recorded are compared
+ * against the latest original version that existed when they were created.
+ */
+export async function getSourceChanges(
+  translationId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<SourceChanges | null> {
+  const translation = await client.story.findUnique({
+    where: { id: translationId },
+    select: {
+      isTranslation: true,
+      originalStoryId: true,
+      sourceVersionNumber: true,
+      sourceChangedAt: true,
+      createdAt: true,
+    },
+  });
+  if (!translation?.isTranslation || !translation.originalStoryId) return null;
+
+  const original = await client.story.findUnique({
+    where: { id: translation.originalStoryId },
+    select: { title: true, content: true },
+  });
+  if (!original) return null;
+
+  const versionSelect = { versionNumber: true, title: true, content: true } as const;
+  const [source, latest] = await Promise.all([
+    translation.sourceVersionNumber !== null
+      ? client.storyVersion.findUnique({
+          where: {
+            storyId_versionNumber: {
+              storyId: translation.originalStoryId,
+              versionNumber: translation.sourceVersionNumber,
+            },
+          },
+          select: versionSelect,
+        })
+      : client.storyVersion.findFirst({
+          where: { storyId: translation.originalStoryId, createdAt: { lte: translation.createdAt } },
+          orderBy: { versionNumber: 'desc' },
+          select: versionSelect,
+        }),
+    client.storyVersion.findFirst({
+      where: { storyId: translation.originalStoryId },
+      orderBy: { versionNumber: 'desc' },
+      select: { versionNumber: true },
+    }),
+  ]);
+
+  const stale = translation.sourceChangedAt !== null;
+  const result: SourceChanges = {
+    stale,
+    sourceChangedAt: translation.sourceChangedAt,
+    sourceVersionNumber: source?.versionNumber ?? translation.sourceVersionNumber,
+    currentVersionNumber: latest?.versionNumber ?? null,
+    titleChange: null,
+    paragraphs: [],
+  };
+
+  // Without a snapshot to compare against we can only report the flag
+  if (!source) return result;
+
+  if (source.title !== original.title) {
+    result.titleChange = diffWords(source.title, original.title);
+  }
+  result.paragraphs = diffParagraphs(htmlToParagraphs(source.content), htmlToParagraphs(original.content));
+
+  return result;
+}
+
+/**
+ * Mark a translation as up to date with the original's latest version.
+ */
+export async function acknowledgeSourceChanges(
+  translation: { id: string; originalStoryId: string; updatedAt: Date },
+  client: Prisma.TransactionClient = prisma
+) {
+  const sourceVersionNumber = await currentSourceVersion(client, translation.originalStoryId);
+  return client.story.update({
+    where: { id: translation.id },
+    // Like flagging, this is bookkeeping and must not conflict with an open editor
+    data: { sourceVersionNumber, sourceChangedAt: null, updatedAt: translation.updatedAt },
+    select: { id: true, sourceVersionNumber: true, sourceChangedAt: true },
+  });
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { StaffRole, UserType, TranslationLanguage, Province, StoryStatus, StoryStage, CommentType, StoryLanguage } from '@prisma/client';
+import { StaffRole, UserType, TranslationLanguage, Province, StoryStatus, StoryStage, CommentType, StoryLanguage, AudioRightsSource } from '@prisma/client';
+import { WORKFLOW_ACTIONS } from './workflow';
 
 // Base user schema
 const baseUserSchema = z.object({
@@ -199,6 +200,8 @@ export const storyUpdateSchema = z.object({
   tagIds: z.array(z.string()).optional(),
   classificationIds: z.array(z.string()).optional(),
   removedAudioIds: z.array(z.string()).optional(),
+  // updatedAt the client loaded; a mismatch means someone else saved first (409)
+  expectedUpdatedAt: z.string().datetime().optional(),
 });
 
 export const storyStatusUpdateSchema = z.object({
@@ -230,6 +233,154 @@ export const storySearchSchema = z.object({
   perPage: z.number().int().positive().default(10),
 });
 
+// Story group schemas (coordinated publishing)
+export const storyGroupCreateSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(255),
+  description: z.string().max(1000).optional(),
+  publishTogether: z.boolean().default(true),
+  storyIds: z.array(z.string()).min(1, 'At least one story is required'),
+});
+
+export const storyGroupUpdateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  publishTogether: z.boolean().optional(),
+  addStoryIds: z.array(z.string()).optional(),
+  removeStoryIds: z.array(z.string()).optional(),
+});
+
+export const storyGroupPublishSchema = z.object({
+  scheduledPublishAt: z.string().datetime().optional(),
+});
+
+// Workflow schemas (configurable editorial workflows)
+const workflowTransitionSchema = z.object({
+  action: z.enum(WORKFLOW_ACTIONS),
+  label: z.string().min(1, 'Label is required').max(100),
+  from: z.nativeEnum(StoryStage),
+  to: z.nativeEnum(StoryStage),
+  allowedRoles: z.array(z.nativeEnum(StaffRole)),
+  authorRoles: z.array(z.nativeEnum(StaffRole)).default([]),
+  assignmentRoles: z.array(z.nativeEnum(StaffRole)).default([]),
+  checklist: z.array(z.object({
+    id: z.string().min(1).max(50),
+    label: z.string().min(1).max(255),
+  })).default([]),
+  requireStyleCheck: z.boolean().default(false),
+});
+
+export const workflowCreateSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  description: z.string().max(1000).optional(),
+  isDefault: z.boolean().default(false),
+  requiresTranslation: z.boolean().default(false),
+  stages: z.array(z.nativeEnum(StoryStage)).min(2, 'At least two stages are required'),
+  overrideRoles: z.array(z.nativeEnum(StaffRole)).default([]),
+  unpublishRoles: z.array(z.nativeEnum(StaffRole)).default([]),
+  transitions: z.array(workflowTransitionSchema).min(1, 'At least one transition is required'),
+  categoryIds: z.array(z.string()).default([]),
+});
+
+export const workflowUpdateSchema = workflowCreateSchema.partial().extend({
+  description: z.string().max(1000).nullable().optional(),
+});
+
+// Glossary schemas (approved term translations per language)
+export const glossaryTermCreateSchema = z.object({
+  term: z.string().trim().min(1, 'Term is required').max(255),
+  language: z.nativeEnum(TranslationLanguage),
+  translation: z.string().trim().min(1, 'Translation is required').max(255),
+  notes: z.string().max(1000).optional(),
+});
+
+export const glossaryTermUpdateSchema = glossaryTermCreateSchema.partial().extend({
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+// Pronunciation dictionary schemas (phonetic guides for names and places)
+export const pronunciationEntryCreateSchema = z.object({
+  term: z.string().trim().min(1, 'Term is required').max(255),
+  guide: z.string().trim().min(1, 'Pronunciation is required').max(255),
+  notes: z.string().max(1000).optional(),
+});
+
+export const pronunciationEntryUpdateSchema = pronunciationEntryCreateSchema.partial().extend({
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+// Station feed token schemas (RSS access for podcasts and shows)
+export const feedTokenCreateSchema = z.object({
+  label: z.string().trim().min(1, 'Give the token a name, e.g. the app it is for').max(100),
+});
+
+// Public holiday schemas
+export const publicHolidayCreateSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+    .refine(value => !isNaN(Date.parse(value)) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value), 'Invalid date'),
+  name: z.string().trim().min(1, 'Name is required').max(255),
+});
+
+export const publicHolidayUpdateSchema = publicHolidayCreateSchema.partial();
+
+// Newsreader words per minute, keyed by StoryLanguage
+export const readingSpeedsUpdateSchema = z.record(
+  z.nativeEnum(StoryLanguage),
+  z.number().int().min(60, 'Must be at least 60 words per minute').max(300, 'Must be at most 300 words per minute')
+);
+
+// Station release window for a story or bulletin; null clears a timestamp
+export const releaseWindowSchema = z
+  .object({
+    embargoUntil: z.string().datetime().nullable(),
+    exclusiveUntil: z.string().datetime().nullable(),
+    exclusiveStationIds: z.array(z.string()).default([]),
+    exclusiveProvinces: z.array(z.nativeEnum(Province)).default([]),
+  })
+  .refine(data => !data.exclusiveUntil || data.exclusiveStationIds.length + data.exclusiveProvinces.length > 0, {
+    message: 'Choose the stations or provinces that get the exclusive',
+    path: ['exclusiveStationIds'],
+  })
+  .refine(data => !!data.exclusiveUntil || data.exclusiveStationIds.length + data.exclusiveProvinces.length === 0, {
+    message: 'An exclusive needs an end time',
+    path: ['exclusiveUntil'],
+  })
+  .refine(
+    data => !data.embargoUntil || !data.exclusiveUntil || new Date(data.exclusiveUntil) > new Date(data.embargoUntil),
+    { message: 'The exclusive must end after the embargo lifts', path: ['exclusiveUntil'] }
+  );
+
+// Flag a story for bulletins, or withdraw picks; days are YYYY-MM-DD South African time
+const bulletinDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+
+export const bulletinFlagSchema = z
+  .object({
+    flagged: z.boolean(),
+    scheduleId: z.string().nullable().optional(),
+    startDate: bulletinDaySchema.optional(),
+    endDate: bulletinDaySchema.optional(),
+    // Withdraw only this pick rather than every current and upcoming one
+    flagId: z.string().optional(),
+  })
+  .refine(data => !data.startDate || !data.endDate || data.endDate >= data.startDate, {
+    message: 'The last day cannot be before the first',
+    path: ['endDate'],
+  });
+
+// Breaking news alert about exactly one published story or bulletin
+export const breakingNewsAlertCreateSchema = z
+  .object({
+    storyId: z.string().optional(),
+    bulletinId: z.string().optional(),
+    headline: z.string().trim().min(1, 'Headline is required').max(200),
+    message: z.string().trim().max(1000).optional(),
+  })
+  .refine(data => !!data.storyId !== !!data.bulletinId, {
+    message: 'Alert must be about either a story or a bulletin',
+    path: ['storyId'],
+  });
+
 // Category schemas
 export const categoryCreateSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100),
@@ -245,6 +396,8 @@ export const categoryUpdateSchema = z.object({
   description: z.string().optional(),
   color: z.string().regex(/^#[0-9A-F]{6}$/i, 'Must be a valid hex color').optional(),
   parentId: z.string().optional(),
+  minWords: z.number().int().positive().nullable().optional(),
+  maxWords: z.number().int().positive().nullable().optional(),
 });
 
 // Tag schemas (topical tags only - Language/Religion/Locality moved to Classifications)
@@ -361,14 +514,55 @@ export const audioClipUpdateSchema = z.object({
 export const audioLibrarySearchSchema = z.object({
   query: z.string().optional(),
   tags: z.array(z.string()).optional(),
+  // A collection id, or "none" for clips not in any collection
+  collectionId: z.string().optional(),
   page: z.number().int().positive().default(1),
   perPage: z.number().int().positive().default(20),
 });
 
+// Rights days are YYYY-MM-DD; null clears a value
 export const audioLibraryUpdateSchema = z.object({
   title: z.string().max(255).optional(),
   description: z.string().max(1000).optional(),
   tags: z.array(z.string().max(50)).max(20).optional(),
+  collectionId: z.string().nullable().optional(),
+  rightsSource: z.nativeEnum(AudioRightsSource).nullable().optional(),
+  copyrightHolder: z.string().trim().max(255).nullable().optional(),
+  licenceExpiry: bulletinDaySchema.nullable().optional(),
+  doNotReuseAfter: bulletinDaySchema.nullable().optional(),
+  rightsNotes: z.string().max(1000).nullable().optional(),
+});
+
+export const audioCollectionCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  description: z.string().max(500).optional(),
 });
 
+export const audioCollectionUpdateSchema = audioCollectionCreateSchema.partial().extend({
+  description: z.string().max(500).nullable().optional(),
+});
+
+// Trim and fades for one use of a clip, in seconds; null clears a value
+export const audioTrimSchema = z.object({
+  trimStart: z.number().min(0).nullable(),
+  trimEnd: z.number().positive().nullable(),
+  fadeIn: z.number().min(0).max(30).nullable(),
+  fadeOut: z.number().min(0).max(30).nullable(),
+});
+
+// Starting a direct-to-R2 audio upload
+export const audioUploadStartSchema = z.object({
+  filename: z.string().min(1).max(255),
+  mimeType: z.string().min(1),
+  fileSize: z.number().int().positive(),
+  folder: z.enum(['newsroom/audio', 'newsroom/shows/audio', 'newsroom/podcasts/audio']).default('newsroom/audio'),
+});
+
+export const audioUploadPartsSchema = z.object({
+  partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+});
+
+// Uploads to finalise and attach to a story or episode
+export const audioUploadIdsSchema = z.array(z.string().min(1)).min(1).max(10);
+
  
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { Prisma, type Workflow } from '@prisma/client';
+import { prisma } from './prisma';
+import { DEFAULT_WORKFLOW, type WorkflowDefinition, type WorkflowTransition } from './workflow';
+
+export const workflowInclude = {
+  categories: { select: { id: true, name: true, slug: true } },
+} satisfies Prisma.WorkflowInclude;
+
+export function toWorkflowDefinition(workflow: Workflow): WorkflowDefinition {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    stages: workflow.stages,
+    requiresTranslation: workflow.requiresTranslation,
+    overrideRoles: workflow.overrideRoles,
+    unpublishRoles: workflow.unpublishRoles,
+    transitions: workflow.transitions as unknown as WorkflowTransition[],
+  };
+}
+
+/**
+ * The configured default workflow, or the built-in one if none is set.
+ */
+export async function getDefaultWorkflow(client: Prisma.TransactionClient = prisma): Promise<WorkflowDefinition> {
+  const workflow = await client.workflow.findFirst({ where: { isDefault: true } });
+  return workflow ? toWorkflowDefinition(workflow) : DEFAULT_WORKFLOW;
+}
+
+/**
+ * Resolve the workflow for a category: its own desk workflow, then its parent
+ * categories' workflows, then the default.
+ */
+export async function getWorkflowForCategory(
+  categoryId: string | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<WorkflowDefinition> {
+  let currentId = categoryId;
+  const visited = new Set<string>();
+
+  while (currentId && !visited.has(currentId)) {
+    visited.add(currentId);
+    const category = await client.category.findUnique({
+      where: { id: currentId },
+      select: { parentId: true, workflow: true },
+    });
+    if (!category) break;
+    if (category.workflow) return toWorkflowDefinition(category.workflow);
+    currentId = category.parentId;
+  }
+
+  return getDefaultWorkflow(client);
+}
+
+/**
+ * Resolve the workflow a story follows. Translations follow the workflow of
+ * their original story's category.
+ */
+export async function getStoryWorkflow(
+  story: { categoryId: string | null; originalStoryId?: string | null },
+  client: Prisma.TransactionClient = prisma
+): Promise<WorkflowDefinition> {
+  let categoryId = story.categoryId;
+
+  if (!categoryId && story.originalStoryId) {
+    const original = await client.story.findUnique({
+      where: { id: story.originalStoryId },
+      select: { categoryId: true },
+    });
+    categoryId = original?.categoryId ?? null;
+  }
+
+  return getWorkflowForCategory(categoryId, client);
+}
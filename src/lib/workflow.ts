@@ -0,0 +1,352 @@
+import type { StaffRole, StoryStage } from '@prisma/client';
+
+// Stage actions the stage route knows how to apply. Workflows decide which of
+// them are available, from which stage, to whom, and with which checklist.
+export const WORKFLOW_ACTIONS = [
+  'submit_for_review',
+  'send_for_approval',
+  'approve_story',
+  'send_for_translation',
+  'mark_as_translated',
+  'publish_story',
+] as const;
+
+export type WorkflowAction = (typeof WORKFLOW_ACTIONS)[number];
+
+export interface WorkflowChecklistItem {
+  id: string;
+  label: string;
+}
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  label: string;
+  from: StoryStage;
+  to: StoryStage;
+  // Roles allowed to perform the transition
+  allowedRoles: StaffRole[];
+  // Only applies to stories written by these roles (empty = any author)
+  authorRoles: StaffRole[];
+  // When set, the story must be assigned to a user with one of these roles
+  assignmentRoles: StaffRole[];
+  // Every item must be ticked before the transition is accepted
+  checklist: WorkflowChecklistItem[];
+  // The story must pass the house-style check (no style errors) first
+  requireStyleCheck?: boolean;
+}
+
+export interface WorkflowDefinition {
+  id: string | null;
+  name: string;
+  stages: StoryStage[];
+  requiresTranslation: boolean;
+  overrideRoles: StaffRole[];
+  // Roles that may take a published story back to draft
+  unpublishRoles: StaffRole[];
+  transitions: WorkflowTransition[];
+}
+
+export const STAGE_LABELS: Record<StoryStage, string> = {
+  DRAFT: 'Draft',
+  NEEDS_JOURNALIST_REVIEW: 'Review',
+  NEEDS_SUB_EDITOR_APPROVAL: 'Approval',
+  APPROVED: 'Approved',
+  TRANSLATED: 'Translated',
+  PUBLISHED: 'Published',
+};
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  INTERN: 'Intern',
+  JOURNALIST: 'Journalist',
+  SUB_EDITOR: 'Sub-Editor',
+  EDITOR: 'Editor',
+  ADMIN: 'Admin',
+  SUPERADMIN: 'Superadmin',
+};
+
+const EDITORIAL_ROLES: StaffRole[] = ['SUB_EDITOR', 'EDITOR', 'ADMIN', 'SUPERADMIN'];
+const ALL_ROLES: StaffRole[] = ['INTERN', 'JOURNALIST', ...EDITORIAL_ROLES];
+
+const REVIEW_CHECKLIST: WorkflowChecklistItem[] = [
+  { id: 'content', label: 'Content is complete and accurate' },
+  { id: 'grammar', label: 'Grammar and spelling checked' },
+  { id: 'sources', label: 'Sources verified' },
+];
+
+const PUBLISH_CHECKLIST: WorkflowChecklistItem[] = [
+  { id: 'content', label: 'Final content review complete' },
+  { id: 'translations', label: 'All translations verified and complete' },
+  { id: 'audio', label: 'Audio quality checked' },
+  { id: 'metadata', label: 'Categorization and tags verified' },
+];
+
+/**
+ * Built-in workflow used when no workflow has been configured: interns go
+ * through journalist review, journalists go straight to sub-editor approval
+ * and sub-editors and above may approve their own stories.
+ */
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+  id: null,
+  name: 'Standard',
+  stages: ['DRAFT', 'NEEDS_JOURNALIST_REVIEW', 'NEEDS_SUB_EDITOR_APPROVAL', 'APPROVED', 'TRANSLATED', 'PUBLISHED'],
+  requiresTranslation: false,
+  overrideRoles: ['ADMIN', 'SUPERADMIN'],
+  unpublishRoles: ['EDITOR'],
+  transitions: [
+    {
+      action: 'submit_for_review',
+      label: 'Submit for Review',
+      from: 'DRAFT',
+      to: 'NEEDS_JOURNALIST_REVIEW',
+      allowedRoles: ALL_ROLES,
+      authorRoles: ['INTERN'],
+      assignmentRoles: ['JOURNALIST'],
+      checklist: REVIEW_CHECKLIST,
+    },
+    {
+      action: 'send_for_approval',
+      label: 'Send for Approval',
+      from: 'NEEDS_JOURNALIST_REVIEW',
+      to: 'NEEDS_SUB_EDITOR_APPROVAL',
+      allowedRoles: ['JOURNALIST', 'SUB_EDITOR', 'EDITOR'],
+      authorRoles: ['INTERN'],
+      assignmentRoles: ['SUB_EDITOR', 'EDITOR'],
+      checklist: REVIEW_CHECKLIST,
+    },
+    {
+      action: 'send_for_approval',
+      label: 'Send for Approval',
+      from: 'DRAFT',
+      to: 'NEEDS_SUB_EDITOR_APPROVAL',
+      allowedRoles: ['JOURNALIST', 'SUB_EDITOR', 'EDITOR'],
+      authorRoles: ['JOURNALIST'],
+      assignmentRoles: ['SUB_EDITOR', 'EDITOR'],
+      checklist: REVIEW_CHECKLIST,
+    },
+    {
+      action: 'approve_story',
+      label: 'Approve Story',
+      from: 'DRAFT',
+      to: 'APPROVED',
+      allowedRoles: EDITORIAL_ROLES,
+      authorRoles: EDITORIAL_ROLES,
+      assignmentRoles: [],
+      checklist: REVIEW_CHECKLIST,
+    },
+    {
+      action: 'approve_story',
+      label: 'Approve Story',
+      from: 'NEEDS_JOURNALIST_REVIEW',
+      to: 'APPROVED',
+      allowedRoles: ['EDITOR'],
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: REVIEW_CHECKLIST,
+    },
+    {
+      action: 'approve_story',
+      label: 'Approve Story',
+      from: 'NEEDS_SUB_EDITOR_APPROVAL',
+      to: 'APPROVED',
+      allowedRoles: EDITORIAL_ROLES,
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: REVIEW_CHECKLIST,
+    },
+    {
+      action: 'send_for_translation',
+      label: 'Send for Translation',
+      from: 'APPROVED',
+      to: 'TRANSLATED',
+      allowedRoles: EDITORIAL_ROLES,
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: [],
+    },
+    {
+      action: 'mark_as_translated',
+      label: 'Ready to Publish',
+      from: 'APPROVED',
+      to: 'TRANSLATED',
+      allowedRoles: EDITORIAL_ROLES,
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: [],
+    },
+    {
+      action: 'mark_as_translated',
+      label: 'Ready to Publish',
+      from: 'DRAFT',
+      to: 'TRANSLATED',
+      allowedRoles: ['EDITOR'],
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: [],
+    },
+    {
+      action: 'publish_story',
+      label: 'Publish Story',
+      from: 'TRANSLATED',
+      to: 'PUBLISHED',
+      allowedRoles: EDITORIAL_ROLES,
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: PUBLISH_CHECKLIST,
+    },
+    {
+      action: 'publish_story',
+      label: 'Publish Story',
+      from: 'DRAFT',
+      to: 'PUBLISHED',
+      allowedRoles: ['EDITOR'],
+      authorRoles: [],
+      assignmentRoles: [],
+      checklist: PUBLISH_CHECKLIST,
+    },
+  ],
+};
+
+// Available transitions are listed in action order
+const ACTION_ORDER = new Map(WORKFLOW_ACTIONS.map((action, index) => [action, index]));
+
+function appliesToAuthor(transition: WorkflowTransition, authorRole: StaffRole | null): boolean {
+  if (transition.authorRoles.length === 0) return true;
+  return !!authorRole && transition.authorRoles.includes(authorRole);
+}
+
+/**
+ * Check whether a role may perform a transition, either directly or because
+ * the workflow lets it override the normal chain.
+ */
+export function canPerformTransition(
+  workflow: WorkflowDefinition,
+  transition: WorkflowTransition,
+  userRole: StaffRole | null
+): boolean {
+  if (!userRole) return false;
+  return transition.allowedRoles.includes(userRole) || workflow.overrideRoles.includes(userRole);
+}
+
+/**
+ * Find the transition a stage action maps to for a story, regardless of who
+ * is performing it. Returns null when the workflow has no such path.
+ */
+export function findTransition(
+  workflow: WorkflowDefinition,
+  action: WorkflowAction,
+  stage: StoryStage | null,
+  authorRole: StaffRole | null
+): WorkflowTransition | null {
+  if (!stage) return null;
+  return (
+    workflow.transitions.find(
+      (t) => t.action === action && t.from === stage && appliesToAuthor(t, authorRole)
+    ) ?? null
+  );
+}
+
+/**
+ * List the transitions a user can take on a story in its current stage.
+ */
+export function getAvailableTransitions(
+  workflow: WorkflowDefinition,
+  stage: StoryStage | null,
+  authorRole: StaffRole | null,
+  userRole: StaffRole | null
+): WorkflowTransition[] {
+  if (!stage || !userRole) return [];
+  return workflow.transitions
+    .filter((t) => t.from === stage && appliesToAuthor(t, authorRole) && canPerformTransition(workflow, t, userRole))
+    .sort((a, b) => (ACTION_ORDER.get(a.action) ?? 0) - (ACTION_ORDER.get(b.action) ?? 0));
+}
+
+/**
+ * Check if a role may move a story from one stage to another. Besides the
+ * workflow's own transitions, anyone who may move a story on from its current
+ * stage may also send it back to an earlier stage, and stories can skip
+ * straight from APPROVED to PUBLISHED when translation is optional.
+ */
+export function canMoveStory(
+  workflow: WorkflowDefinition,
+  userRole: StaffRole | null,
+  currentStage: StoryStage | null,
+  targetStage: StoryStage | null
+): boolean {
+  if (!userRole || !currentStage || !targetStage || currentStage === targetStage) return false;
+  if (workflow.overrideRoles.includes(userRole)) return true;
+
+  if (currentStage === 'PUBLISHED') {
+    return targetStage === 'DRAFT' && workflow.unpublishRoles.includes(userRole);
+  }
+
+  const outgoing = workflow.transitions.filter((t) => t.from === currentStage && t.allowedRoles.includes(userRole));
+  if (outgoing.some((t) => t.to === targetStage)) return true;
+
+  const currentIndex = workflow.stages.indexOf(currentStage);
+  const targetIndex = workflow.stages.indexOf(targetStage);
+  if (outgoing.length > 0 && targetIndex !== -1 && currentIndex !== -1 && targetIndex < currentIndex) {
+    return true;
+  }
+
+  if (!workflow.requiresTranslation && currentStage === 'APPROVED' && targetStage === 'PUBLISHED') {
+    return workflow.transitions.some((t) => t.action === 'publish_story' && t.allowedRoles.includes(userRole));
+  }
+
+  return false;
+}
+
+/**
+ * Return the checklist items that were not ticked for a transition.
+ */
+export function getMissingChecklistItems(
+  transition: WorkflowTransition,
+  checklistData: Record<string, boolean> | undefined
+): WorkflowChecklistItem[] {
+  return transition.checklist.filter((item) => !checklistData?.[item.id]);
+}
+
+/**
+ * Stages a story by this author passes through, in pipeline order. A stage is
+ * included when the workflow has a transition into it that applies to the
+ * author, so the intern-only review stage is hidden for other authors.
+ */
+export function getWorkflowSteps(workflow: WorkflowDefinition, authorRole: StaffRole | null): StoryStage[] {
+  return workflow.stages.filter(
+    (stage, index) =>
+      index === 0 || workflow.transitions.some((t) => t.to === stage && appliesToAuthor(t, authorRole))
+  );
+}
+
+/**
+ * Check a workflow definition for stages and transitions that don't fit
+ * together. Returns an error message, or null if the definition is usable.
+ */
+export function validateWorkflowDefinition(workflow: Omit<WorkflowDefinition, 'id'>): string | null {
+  if (workflow.stages[0] !== 'DRAFT') {
+    return 'Workflows must start at the Draft stage';
+  }
+  if (workflow.stages[workflow.stages.length - 1] !== 'PUBLISHED') {
+    return 'Workflows must end at the Published stage';
+  }
+  if (new Set(workflow.stages).size !== workflow.stages.length) {
+    return 'Each stage can only appear once';
+  }
+
+  for (const transition of workflow.transitions) {
+    if (!workflow.stages.includes(transition.from) || !workflow.stages.includes(transition.to)) {
+      return `"${transition.label}" uses a stage that is not part of this workflow`;
+    }
+    if (transition.from === transition.to) {
+      return `"${transition.label}" must move the story to a different stage`;
+    }
+    if (transition.allowedRoles.length === 0) {
+      return `"${transition.label}" needs at least one role that may perform it`;
+    }
+  }
+
+  if (!workflow.transitions.some((t) => t.action === 'publish_story')) {
+    return 'Workflows need a Publish Story transition';
+  }
+
+  return null;
+}